@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect, Suspense } from 'react';
 import ReactDOM from 'react-dom/client';
-import { type RegistrationData, type Permission, type Session, type Speaker, type Sponsor, type TicketTier } from './types';
-import { registerUser, loginDelegate, triggerRegistrationEmails, getInvitationDetails, getPublicEventData, initializeApi, recordTicketSale } from './server/api';
+import { type OrderBilling, type RegistrationData, type Permission, type Session, type Speaker, type Sponsor, type TicketTier } from './types';
+import { registerUser, uploadRegistrationFile, loginDelegate, loginWithMagicLink, acceptWaitlistOfferLink, triggerRegistrationEmails, getInvitationDetails, getGroupSeatClaim, purchaseGroup, getTicketTransferOffer, acceptTicketTransfer, startCheckout, checkDiscountCode, cancelOrder, getPublicEventData, initializeApi, keepSessionAlive, logout, signOutEverywhere, setActiveEvent, AUTH_TOKEN_EVENT, type GroupOrder, type CheckoutCart, type OrderResult, type DiscountCheck } from './server/api';
+import { type GroupQuote } from './server/groups';
+import { tierPrice } from './server/discounts';
 import { verifyToken } from './server/auth';
+import { DEFAULT_EVENT_ID } from './server/policy';
 import { RegistrationForm } from './components/RegistrationForm';
 import { Alert } from './components/Alert';
 import { Logo } from './components/Logo';
@@ -20,7 +23,9 @@ import { AgendaView } from './components/AgendaView';
 import { DirectoryView } from './components/DirectoryView';
 import { PublicHome } from './components/PublicHome';
 import { AccessibilityTools } from './components/AccessibilityTools';
-import { PaymentModal } from './components/PaymentModal';
+import { PaymentModal, type TicketCheckout } from './components/PaymentModal';
+import { GroupPurchaseForm } from './components/GroupPurchaseForm';
+import { GroupSeatsDashboard } from './components/GroupSeatsDashboard';
 import { KioskView } from './components/KioskView';
 import { ProjectorView } from './components/ProjectorView';
 import { configureBackgroundFetch } from './services/native';
@@ -29,14 +34,29 @@ import { configureBackgroundFetch } from './services/native';
 const AdminPortal = React.lazy(() => import('./components/AdminPortal').then(module => ({ default: module.AdminPortal })));
 const DelegatePortal = React.lazy(() => import('./components/DelegatePortal').then(module => ({ default: module.DelegatePortal })));
 
-type View = 'registration' | 'success' | 'passwordReset';
+type View = 'registration' | 'success' | 'passwordReset' | 'groupPurchase' | 'groupSeats';
 type PublicTab = 'home' | 'agenda' | 'speakers' | 'register';
 
 interface AdminSession {
   token: string;
-  user: { email: string; permissions: Permission[] };
+  user: { email: string; permissions: Permission[]; eventPermissions?: Record<string, Permission[]> };
 }
 
+const readAdminSession = (): AdminSession | null => {
+  const token = localStorage.getItem('adminToken');
+  if (token) {
+    const payload = verifyToken(token);
+    if (payload && payload.type === 'admin') {
+      return {
+        token,
+        user: { email: payload.email, permissions: payload.permissions || [], eventPermissions: payload.eventPermissions }
+      };
+    }
+    localStorage.removeItem('adminToken');
+  }
+  return null;
+};
+
 export interface RegistrationFormState {
   firstName: string;
   lastName: string;
@@ -114,18 +134,25 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
 
   const [view, setView] = useState<View>('registration');
   const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+  const [waitlistPlace, setWaitlistPlace] = useState<{ position?: number; total: number } | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [resetToken, setResetToken] = useState<string | null>(null);
   const [inviteToken, setInviteToken] = useState<string | null>(null);
+  // A seat claim link from a group order, and the tier that seat is for.
+  const [seatClaim, setSeatClaim] = useState<{ token: string; ticketTierId?: string } | null>(null);
+  // A ticket transfer link, and the tier of the ticket being handed over.
+  const [transferClaim, setTransferClaim] = useState<{ token: string; ticketTierId?: string } | null>(null);
+  // Token of the purchaser's seat management link.
+  const [groupToken, setGroupToken] = useState<string | null>(null);
 
   const [isAdminModalOpen, setAdminModalOpen] = useState(false);
   const [isDelegateModalOpen, setDelegateModalOpen] = useState(false);
+  const [delegateLoginNotice, setDelegateLoginNotice] = useState('');
   const [isPaymentModalOpen, setPaymentModalOpen] = useState(false);
   
-  // Payment State
-  const [pendingRegistration, setPendingRegistration] = useState<RegistrationData | null>(null);
-  const [paymentAmount, setPaymentAmount] = useState(0);
-  const [paymentDesc, setPaymentDesc] = useState('');
+  // Payment State: the order being paid for, priced by the server.
+  const [checkout, setCheckout] = useState<TicketCheckout | null>(null);
 
   const [delegateToken, setDelegateToken] = useState<string | null>(() => {
     const token = localStorage.getItem('delegateToken');
@@ -141,6 +168,15 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
 
   const initialFormData: RegistrationFormState = { firstName: '', lastName: '', email: '', password: '', ticketTierId: '' };
   const [formData, setFormData] = useState<RegistrationFormState>(initialFormData);
+  // The code entered for the chosen ticket and what it takes off; checkout checks it again.
+  const [discount, setDiscount] = useState<{ code: string; check: DiscountCheck } | null>(null);
+  // Company and VAT details for the invoice of a paid ticket.
+  const [billing, setBilling] = useState<OrderBilling>({});
+
+  // Scope local reads and writes to this event before anything below loads.
+  useEffect(() => {
+    setActiveEvent(eventId);
+  }, [eventId]);
 
   // Initialize form data with custom fields when config loads
   useEffect(() => {
@@ -179,8 +215,100 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
     const urlParams = new URLSearchParams(window.location.search);
     const resetTokenParam = urlParams.get('resetToken');
     const inviteTokenParam = urlParams.get('inviteToken');
-
-    if (resetTokenParam) {
+    const magicTokenParam = urlParams.get('magicToken');
+    const waitlistOfferParam = urlParams.get('waitlistOffer');
+    const manageGroupParam = urlParams.get('manageGroup');
+    const claimSeatParam = urlParams.get('claimSeat');
+    const acceptTransferParam = urlParams.get('acceptTransfer');
+
+    if (magicTokenParam) {
+        // Strip the one-time token from the address bar before it is used.
+        try {
+            window.history.replaceState({}, document.title, `/${eventId}`);
+        } catch (e) {
+            // Ignore history errors in sandboxed environments
+        }
+        loginWithMagicLink(magicTokenParam).then(result => {
+            if (result) {
+                localStorage.setItem('delegateToken', result.token);
+                setDelegateToken(result.token);
+                keepSessionAlive('delegate');
+            } else {
+                setDelegateLoginNotice('This sign-in link is invalid or has expired. Please request a new one.');
+                setDelegateModalOpen(true);
+            }
+        });
+    } else if (waitlistOfferParam) {
+        try {
+            window.history.replaceState({}, document.title, `/${eventId}`);
+        } catch (e) {
+            // Ignore history errors in sandboxed environments
+        }
+        setPublicTab('register');
+        acceptWaitlistOfferLink(waitlistOfferParam).then(result => {
+            if (result.success && result.order && result.clientSecret) {
+                // A paid seat is confirmed once the ticket is paid for.
+                setNotice(result.message || '');
+                setCheckout({ order: result.order, clientSecret: result.clientSecret, description: 'Ticket: your waitlist seat' });
+                setPaymentModalOpen(true);
+            } else if (result.success) setNotice(result.message || '');
+            else setError(result.message || 'Failed to claim the seat.');
+        });
+    } else if (manageGroupParam) {
+        try {
+            window.history.replaceState({}, document.title, `/${eventId}`);
+        } catch (e) {
+            // Ignore history errors in sandboxed environments
+        }
+        setGroupToken(manageGroupParam);
+        setView('groupSeats');
+        setPublicTab('register');
+    } else if (claimSeatParam) {
+        setPublicTab('register');
+        getGroupSeatClaim(claimSeatParam).then(details => {
+            if (!details || details.eventId !== eventId) {
+                setError('This seat link is invalid or has expired. Please ask the person who booked it to send a new one.');
+                return;
+            }
+            const [firstName = '', ...lastName] = (details.name || '').split(' ');
+            setSeatClaim({ token: claimSeatParam, ticketTierId: details.ticketTierId });
+            setFormData(prev => ({
+                ...prev,
+                email: details.email,
+                ticketTierId: details.ticketTierId || '',
+                ...(details.company ? { company: details.company } : {}),
+                ...(details.name ? { firstName, lastName: lastName.join(' ') } : {})
+            }));
+            setNotice(`${details.purchaserName} has booked a seat for you. Complete the form below to claim it.`);
+            try {
+                window.history.replaceState({}, document.title, `/${eventId}`);
+            } catch (e) {
+                // Ignore history errors in sandboxed environments
+            }
+        });
+    } else if (acceptTransferParam) {
+        setPublicTab('register');
+        getTicketTransferOffer(acceptTransferParam).then(details => {
+            if (!details || details.eventId !== eventId) {
+                setError('This transfer link is invalid or has expired. Please ask the ticket holder to send a new one.');
+                return;
+            }
+            const [firstName = '', ...lastName] = (details.name || '').split(' ');
+            setTransferClaim({ token: acceptTransferParam, ticketTierId: details.ticketTierId });
+            setFormData(prev => ({
+                ...prev,
+                email: details.email,
+                ticketTierId: details.ticketTierId || '',
+                ...(details.name ? { firstName, lastName: lastName.join(' ') } : {})
+            }));
+            setNotice(`${details.fromName} is giving you their ticket. Complete the form below to accept it.`);
+            try {
+                window.history.replaceState({}, document.title, `/${eventId}`);
+            } catch (e) {
+                // Ignore history errors in sandboxed environments
+            }
+        });
+    } else if (resetTokenParam) {
         setResetToken(resetTokenParam);
         setView('passwordReset');
         setPublicTab('register'); // Force register view for reset for simplicity
@@ -189,7 +317,12 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
         setPublicTab('register');
         getInvitationDetails(inviteTokenParam).then(details => {
             if (details && details.eventId === eventId) {
-                setFormData(prev => ({ ...prev, email: details.inviteeEmail }));
+                const [firstName = '', ...lastName] = (details.name || '').split(' ');
+                setFormData(prev => ({
+                    ...prev,
+                    email: details.inviteeEmail,
+                    ...(details.name ? { firstName, lastName: lastName.join(' ') } : {})
+                }));
                 try {
                     window.history.replaceState({}, document.title, `/${eventId}`);
                 } catch (e) {
@@ -202,23 +335,58 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
 
   const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    // A code is checked against the ticket it was applied to.
+    if (name === 'ticketTierId' && value !== formData.ticketTierId) setDiscount(null);
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleApplyDiscount = async (code: string) => {
+    if (!code.trim()) {
+      setDiscount(null);
+      return;
+    }
+    if (!formData.ticketTierId) {
+      setDiscount({ code, check: { success: false, message: 'Choose a ticket before applying a code.' } });
+      return;
+    }
+    const check = await checkDiscountCode(eventId, code, [{ ticketTierId: formData.ticketTierId, quantity: 1 }]);
+    setDiscount({ code, check });
+  };
+
   const handleReset = () => {
     setFormData(initialFormData);
+    setDiscount(null);
+    setBilling({});
     setError('');
   };
 
   const executeRegistration = async (submissionData: RegistrationData) => {
       try {
-          const result = await registerUser(eventId, submissionData, inviteToken || undefined);
+          if (transferClaim) {
+              // The backend emails the new pass when a transfer is accepted.
+              const result = await acceptTicketTransfer(transferClaim.token, submissionData);
+              if (!result.success) {
+                  setError(result.message || 'Failed to accept the ticket.');
+                  return;
+              }
+              setTransferClaim(null);
+              setNotice('');
+              await triggerRegistrationEmails(eventId, result.user!);
+              setWaitlistPlace(null);
+              setView('success');
+              return;
+          }
+          const result = await registerUser(eventId, submissionData, inviteToken || undefined, seatClaim?.token);
           if (result.success) {
+              setSeatClaim(null);
+              setNotice('');
               // Trigger email confirmation.
               // Crucial: Use result.user if available as it contains the unique ID required for the QR Code.
               // If we use submissionData, we miss the generated ID.
               const userForEmail = result.user || { ...submissionData, id: 'temp-id' };
-              await triggerRegistrationEmails(eventId, userForEmail);
+              // Waitlisted delegates get their pass once they claim a seat.
+              if (!result.waitlist) await triggerRegistrationEmails(eventId, userForEmail);
+              setWaitlistPlace(result.waitlist || null);
               setView('success');
           } else {
               setError(result.message);
@@ -245,14 +413,14 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
     delete (submissionData as any).firstName;
     delete (submissionData as any).lastName;
 
-    // Check for ticket payment
-    if (formData.ticketTierId) {
+    // Paid tickets go through checkout; a claimed group seat or a transferred ticket is already paid for.
+    // A sold-out ticket's waitlist is joined without paying.
+    if (formData.ticketTierId && !seatClaim && !transferClaim) {
         const tier = ticketTiers.find(t => t.id === formData.ticketTierId);
-        if (tier && tier.price > 0) {
-            setPendingRegistration(submissionData);
-            setPaymentAmount(tier.price);
-            setPaymentDesc(`Ticket: ${tier.name} (${config.event.name})`);
-            setPaymentModalOpen(true);
+        if (tier && tierPrice(tier) > 0) {
+            const discountCode = discount?.check.success ? discount.code : undefined;
+            const invoiceDetails = Object.values(billing).some(Boolean) ? billing : undefined;
+            await beginCheckout({ registration: submissionData, discountCode, billing: invoiceDetails }, `Ticket: ${tier.name} (${config.event.name})`, () => executeRegistration(submissionData));
             setIsSubmitting(false); // Reset loading state when handing off to payment modal
             return;
         }
@@ -263,15 +431,77 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
     setIsSubmitting(false);
   };
   
-  const handlePaymentSuccess = async () => {
-      if (pendingRegistration) {
-          // Record sale (optional: use returned ID from reg, but for now mocked)
-          if (formData.ticketTierId) {
-              await recordTicketSale(eventId, formData.ticketTierId, paymentAmount);
+  /** Places the order and opens the payment form. `onSoldOut` runs instead when there are no seats left. */
+  const beginCheckout = async (cart: CheckoutCart, description: string, onSoldOut?: () => Promise<void>) => {
+      try {
+          const result = await startCheckout(eventId, cart, inviteToken || undefined);
+          if (result.soldOut && onSoldOut) return onSoldOut();
+          // A code that makes the order free confirms it without a payment.
+          if (result.success && result.completed) return handlePaymentSuccess(result.completed);
+          if (!result.success || !result.order || !result.clientSecret) {
+              setError(result.message || 'Failed to start the checkout.');
+              return;
+          }
+          setCheckout({ order: result.order, clientSecret: result.clientSecret, description });
+          setPaymentModalOpen(true);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+      }
+  };
+
+  const executeGroupPurchase = async (order: GroupOrder) => {
+      setIsSubmitting(true);
+      try {
+          const result = await purchaseGroup(eventId, order);
+          if (result.success && result.manageToken) {
+              setGroupToken(result.manageToken);
+              setNotice(`Your seats are booked. We also emailed this page's link to ${order.purchaserEmail} so you can come back to it.`);
+              setView('groupSeats');
+          } else {
+              setError(result.message || 'Failed to book the seats.');
           }
-          await executeRegistration(pendingRegistration);
-          setPendingRegistration(null);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+      } finally {
+          setIsSubmitting(false);
+      }
+  };
+
+  const handleGroupSubmit = (order: GroupOrder, quote: GroupQuote, discountCode?: string, invoiceDetails?: OrderBilling) => {
+      setError('');
+      if (quote.total > 0) {
+          setIsSubmitting(true);
+          beginCheckout({ group: order, discountCode, billing: invoiceDetails }, `${quote.seats} seats (${config?.event.name})`).finally(() => setIsSubmitting(false));
+          return;
       }
+      executeGroupPurchase(order);
+  };
+
+  // The order has been paid for and turned into a registration or a group.
+  const handlePaymentSuccess = async (result?: OrderResult) => {
+      setCheckout(null);
+      if (!result) return;
+      if (result.order?.kind === 'group') {
+          const email = result.group?.purchaserEmail || result.order.email;
+          if (result.manageToken) {
+              setGroupToken(result.manageToken);
+              setView('groupSeats');
+          }
+          setNotice(`Your seats are booked. We also emailed the link to manage them to ${email} so you can come back to it.`);
+          return;
+      }
+      setNotice('');
+      // The backend sends the pass when it confirms the order; browser mode sends it from here.
+      if (result.user) await triggerRegistrationEmails(eventId, result.user);
+      setWaitlistPlace(null);
+      setView('success');
+  };
+
+  const handlePaymentClose = () => {
+      setPaymentModalOpen(false);
+      // Gives the held seats back. The server refuses this for an order that has been paid.
+      if (checkout) cancelOrder(checkout.order.id).catch(() => undefined);
+      setCheckout(null);
   };
 
   const handleDelegateLogin = async (email: string, password_input: string): Promise<boolean> => {
@@ -280,6 +510,7 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
       if (result) {
         localStorage.setItem('delegateToken', result.token);
         setDelegateToken(result.token);
+        keepSessionAlive('delegate');
         setDelegateModalOpen(false);
         return true;
       }
@@ -291,9 +522,29 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
   };
 
   const handleDelegateLogout = () => {
+    logout('delegate');
     localStorage.removeItem('delegateToken');
     setDelegateToken(null);
   };
+
+  const handleDelegateSignOutEverywhere = async () => {
+    if (!delegateToken) return;
+    try {
+      await signOutEverywhere(delegateToken, 'delegate');
+    } catch (e) {
+      console.error(e);
+    }
+    handleDelegateLogout();
+  };
+
+  useEffect(() => {
+    const handleTokenChange = (e: Event) => {
+      const { type, token } = (e as CustomEvent).detail;
+      if (type === 'delegate') setDelegateToken(token);
+    };
+    window.addEventListener(AUTH_TOKEN_EVENT, handleTokenChange);
+    return () => window.removeEventListener(AUTH_TOKEN_EVENT, handleTokenChange);
+  }, []);
   
   const handleAdminLoginSuccess = (token: string, user: { id: string; email: string; permissions: Permission[] }) => {
     onAdminLogin(token, user);
@@ -331,7 +582,7 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
     return (
         <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><ContentLoader text="Loading portal..." /></div>}>
             <AccessibilityTools />
-            <DelegatePortal onLogout={handleDelegateLogout} delegateToken={delegateToken} />
+            <DelegatePortal eventId={eventId} onLogout={handleDelegateLogout} onSignOutEverywhere={handleDelegateSignOutEverywhere} delegateToken={delegateToken} />
         </Suspense>
     );
   }
@@ -445,8 +696,25 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
 
           {publicTab === 'register' && config && (
              <div className="max-w-4xl mx-auto animate-fade-in py-4">
-                {view === 'passwordReset' && resetToken && (
-                    <PasswordResetForm token={resetToken} />
+                {view === 'passwordReset' && (
+                    <PasswordResetForm token={resetToken || undefined} eventId={eventId} />
+                )}
+
+                {(view === 'groupPurchase' || view === 'groupSeats') && (
+                    <div className="bg-white dark:bg-gray-800 shadow-2xl rounded-[2.5rem] border border-gray-100 dark:border-gray-700 p-8 sm:p-14">
+                        {error && <div className="mb-6"><Alert type="error" message={error} /></div>}
+                        {notice && <div className="mb-6"><Alert type="success" message={notice} /></div>}
+                        {view === 'groupSeats' && groupToken ? (
+                            <GroupSeatsDashboard token={groupToken} ticketTiers={ticketTiers} />
+                        ) : (
+                            <GroupPurchaseForm
+                                ticketTiers={ticketTiers}
+                                isLoading={isSubmitting}
+                                onSubmit={handleGroupSubmit}
+                                onCancel={() => { setError(''); setView('registration'); }}
+                            />
+                        )}
+                    </div>
                 )}
                 
                 {(view === 'registration' || view === 'success') && (
@@ -482,8 +750,26 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
                             
                             <div className="mt-8">
                             {error && <div className="mb-6"><Alert type="error" message={error} /></div>}
+                            {notice && <div className="mb-6"><Alert type="success" message={notice} /></div>}
 
-                            {view === 'success' ? (
+                            {view === 'success' && waitlistPlace ? (
+                                <div className="text-center py-10 animate-fade-in-up">
+                                <h3 className="text-3xl font-bold text-gray-900 dark:text-white mb-3">You're on the Waitlist</h3>
+                                <p className="text-lg text-gray-600 dark:text-gray-300 mb-10 max-w-md mx-auto">
+                                    This event is full right now. You are number {waitlistPlace.position} of {waitlistPlace.total} in line, and we will email you a link to claim your seat as soon as one opens up.
+                                </p>
+                                <button
+                                    onClick={() => {
+                                    setView('registration');
+                                    setWaitlistPlace(null);
+                                    handleReset();
+                                    }}
+                                    className="inline-flex justify-center items-center py-3.5 px-8 border border-transparent rounded-xl shadow-lg text-lg font-bold text-white bg-primary hover:bg-primary/90 transform transition hover:-translate-y-1 hover:shadow-xl"
+                                >
+                                    Register Another Person
+                                </button>
+                                </div>
+                            ) : view === 'success' ? (
                                 <div className="text-center py-10 animate-fade-in-up">
                                 <div className="mx-auto flex items-center justify-center h-24 w-24 rounded-full bg-green-100 dark:bg-green-900/50 mb-8 animate-bounce">
                                     <svg className="h-12 w-12 text-green-600 dark:text-green-300 transform transition-transform duration-500 scale-110" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -504,21 +790,14 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
                                     Register Another Person
                                 </button>
                                 </div>
-                            ) : isSoldOut ? (
-                                <div className="text-center p-12 bg-yellow-50 dark:bg-yellow-900/20 rounded-2xl border border-yellow-200 dark:border-yellow-800">
-                                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Registration Closed</h2>
-                                    <p className="mt-2 text-gray-600 dark:text-gray-400">We're sorry, but this event has reached its maximum capacity. Registration is no longer available.</p>
-                                    <button 
-                                        className="mt-6 px-6 py-2 bg-yellow-600 text-white rounded-full font-semibold hover:bg-yellow-700"
-                                        onClick={() => {
-                                            setFormData(prev => ({ ...prev, status: 'waitlist' }));
-                                            handleSubmit();
-                                        }}
-                                    >
-                                        Join Waitlist
-                                    </button>
-                                </div>
                             ) : (
+                                <>
+                                {isSoldOut && !seatClaim && !transferClaim && (
+                                    <div className="mb-6 p-6 bg-yellow-50 dark:bg-yellow-900/20 rounded-2xl border border-yellow-200 dark:border-yellow-800">
+                                        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-200">This Event Is Full</h2>
+                                        <p className="mt-2 text-gray-600 dark:text-gray-400">You can still register to join the waitlist. If a seat opens up, we will email you a link to claim it.</p>
+                                    </div>
+                                )}
                                 <RegistrationForm
                                 formData={formData}
                                 onFormChange={handleFormChange}
@@ -526,8 +805,22 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
                                 onReset={handleReset}
                                 isLoading={isSubmitting}
                                 config={config.formFields}
-                                ticketTiers={ticketTiers}
+                                onUploadFile={(field, file) => uploadRegistrationFile(eventId, field, file)}
+                                discount={discount?.check}
+                                onApplyDiscount={seatClaim || transferClaim ? undefined : handleApplyDiscount}
+                                billing={billing}
+                                onBillingChange={seatClaim || transferClaim ? undefined : setBilling}
+                                ticketTiers={seatClaim || transferClaim ? ticketTiers.filter(t => t.id === (seatClaim || transferClaim)!.ticketTierId) : ticketTiers}
                                 />
+                                {!seatClaim && !transferClaim && !inviteToken && (
+                                    <p className="mt-8 text-center text-sm text-gray-600 dark:text-gray-400">
+                                        Booking for a team?{' '}
+                                        <button type="button" onClick={() => { setError(''); setView('groupPurchase'); }} className="font-semibold text-primary hover:underline">
+                                            Buy several seats at once
+                                        </button>
+                                    </p>
+                                )}
+                                </>
                             )}
                             </div>
                         </div>
@@ -547,17 +840,17 @@ const EventPageContent: React.FC<EventPageContentProps> = ({ onAdminLogin, event
       />
       <DelegateLoginModal
         isOpen={isDelegateModalOpen}
-        onClose={() => setDelegateModalOpen(false)}
+        onClose={() => { setDelegateModalOpen(false); setDelegateLoginNotice(''); }}
         onLogin={handleDelegateLogin}
         eventId={eventId}
+        notice={delegateLoginNotice}
       />
       <PaymentModal 
         isOpen={isPaymentModalOpen}
-        onClose={() => setPaymentModalOpen(false)}
+        onClose={handlePaymentClose}
         delegateToken={null} // Public checkout has no token initially
         onSuccess={handlePaymentSuccess}
-        fixedAmount={paymentAmount}
-        description={paymentDesc}
+        checkout={checkout || undefined}
       />
     </div>
   );
@@ -571,23 +864,15 @@ const EventPage: React.FC<EventPageContentProps> = (props) => (
     </ThemeProvider>
 );
 
+const ADMIN_EVENT_KEY = 'adminEventId';
+
 function App() {
   const [isAppReady, setAppReady] = useState(false);
   
-  const [adminSession, setAdminSession] = useState<AdminSession | null>(() => {
-    const token = localStorage.getItem('adminToken');
-    if (token) {
-      const payload = verifyToken(token);
-      if (payload && payload.type === 'admin') {
-        return {
-          token,
-          user: { email: payload.email, permissions: payload.permissions || [] }
-        };
-      }
-      localStorage.removeItem('adminToken');
-    }
-    return null;
-  });
+  // Read once the API is initialized, after an expired token had the chance to be refreshed.
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
+  // Event the admin portal works on, remembered across reloads.
+  const [adminEventId, setAdminEventId] = useState(() => localStorage.getItem(ADMIN_EVENT_KEY) || DEFAULT_EVENT_ID);
 
   // Routing State
   const [currentPath, setCurrentPath] = useState(window.location.pathname);
@@ -595,6 +880,9 @@ function App() {
   useEffect(() => {
       // Check for backend status before rendering main app
       initializeApi().then(() => {
+          const session = readAdminSession();
+          if (session) setActiveEvent(adminEventId);
+          setAdminSession(session);
           setAppReady(true);
       });
       // Initialize native features like background fetch if supported
@@ -604,6 +892,15 @@ function App() {
       });
   }, []);
 
+  useEffect(() => {
+    const handleTokenChange = (e: Event) => {
+      const { type } = (e as CustomEvent).detail;
+      if (type === 'admin') setAdminSession(readAdminSession());
+    };
+    window.addEventListener(AUTH_TOKEN_EVENT, handleTokenChange);
+    return () => window.removeEventListener(AUTH_TOKEN_EVENT, handleTokenChange);
+  }, []);
+
   useEffect(() => {
     const handleLocationChange = () => {
       setCurrentPath(window.location.pathname);
@@ -625,16 +922,36 @@ function App() {
 
   const handleAdminLogin = (token: string, user: { id: string, email: string, permissions: Permission[] }) => {
     localStorage.setItem('adminToken', token);
-    const { id, ...userForSession } = user;
-    setAdminSession({ token, user: userForSession });
+    setActiveEvent(adminEventId);
+    // The token also carries the per-event permissions.
+    setAdminSession(readAdminSession());
+    keepSessionAlive('admin');
   };
 
   const handleAdminLogout = () => {
+    logout('admin');
     localStorage.removeItem('adminToken');
     setAdminSession(null);
+    setActiveEvent(null);
     navigate('/');
   };
 
+  const handleSelectAdminEvent = (eventId: string) => {
+    localStorage.setItem(ADMIN_EVENT_KEY, eventId);
+    setActiveEvent(eventId);
+    setAdminEventId(eventId);
+  };
+
+  const handleAdminSignOutEverywhere = async () => {
+    if (!adminSession) return;
+    try {
+      await signOutEverywhere(adminSession.token, 'admin');
+    } catch (e) {
+      console.error(e);
+    }
+    handleAdminLogout();
+  };
+
   if (!isAppReady) {
       return (
           <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
@@ -645,26 +962,9 @@ function App() {
       );
   }
 
-  // Kiosk Mode Handler
+  // Kiosk Mode Handler: kiosks run on their own device credential, see KioskView.
   if (currentPath === '/kiosk') {
-      if (adminSession) {
-          return <KioskView adminToken={adminSession.token} onExit={() => navigate('/')} />;
-      } else {
-          // If not logged in, show login modal then redirect to kiosk
-          return (
-              <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">
-                  <AdminLoginModal 
-                    isOpen={true} 
-                    onClose={() => navigate('/')} 
-                    onLoginSuccess={(token, user) => {
-                        handleAdminLogin(token, user);
-                        navigate('/kiosk');
-                    }} 
-                  />
-                  <p>Admin authentication required for Kiosk Mode.</p>
-              </div>
-          );
-      }
+      return <KioskView onExit={() => navigate('/')} />;
   }
 
   // Projector Mode Handler
@@ -681,9 +981,9 @@ function App() {
       {adminSession ? (
         <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><ContentLoader text="Loading dashboard..." /></div>}>
              {/* Wrap AdminPortal in ThemeProvider to ensure SettingsForm has context */}
-             <ThemeProvider eventId="main-event">
+             <ThemeProvider eventId={adminEventId}>
                 <LanguageProvider>
-                    <AdminPortal onLogout={handleAdminLogout} adminToken={adminSession.token} user={adminSession.user} />
+                    <AdminPortal onLogout={handleAdminLogout} onSignOutEverywhere={handleAdminSignOutEverywhere} adminToken={adminSession.token} user={adminSession.user} eventId={adminEventId} onSelectEvent={handleSelectAdminEvent} />
                 </LanguageProvider>
              </ThemeProvider>
         </Suspense>
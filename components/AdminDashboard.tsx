@@ -265,7 +265,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, adminToken
                       <li key={reg.id} className="px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
                         <div className="flex items-center justify-between">
                             <div className="flex items-center">
-                                <div className={`h-8 w-8 rounded-full flex items-center justify-center text-xs font-bold text-white mr-3 ${reg.checkedIn ? 'bg-green-500' : 'bg-gray-400'}`}>
+                                <div className={`h-8 w-8 rounded-full flex items-center justify-center text-xs font-bold text-white mr-3 ${reg.checkedInAt ? 'bg-green-500' : 'bg-gray-400'}`}>
                                     {reg.name.charAt(0).toUpperCase()}
                                 </div>
                                 <div>
@@ -275,7 +275,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, adminToken
                             </div>
                             <div className="text-right">
                                 <p className="text-xs text-gray-500 dark:text-gray-400">{timeAgo(reg.createdAt)}</p>
-                                {reg.checkedIn && <span className="text-[10px] text-green-600 font-bold">Checked In</span>}
+                                {reg.checkedInAt && <span className="text-[10px] text-green-600 font-bold">Checked In</span>}
                             </div>
                         </div>
                       </li>
@@ -1,8 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { loginAdmin, requestAdminPasswordReset } from '../server/api';
+import { loginAdmin, requestAdminPasswordReset, beginAdminTwoFactorEnrollment, verifyAdminTwoFactor } from '../server/api';
 import { Spinner } from './Spinner';
-import { type Permission } from '../types';
+import { AuthenticatorSetup, RecoveryCodesList } from './TwoFactorSetupDetails';
+import { type Permission, type TwoFactorSetup } from '../types';
 
 interface LoggedInUser {
     id: string;
@@ -21,7 +22,14 @@ export const AdminLoginModal: React.FC<AdminLoginModalProps> = ({ isOpen, onClos
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [view, setView] = useState<'login' | 'forgot' | 'forgot_sent'>('login');
+  const [view, setView] = useState<'login' | 'forgot' | 'forgot_sent' | 'two_factor' | 'two_factor_setup' | 'recovery_codes'>('login');
+
+  // Second login step
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingLogin, setPendingLogin] = useState<{ token: string; user: LoggedInUser } | null>(null);
   
   // Ref to track if component is mounted to prevent state updates after unmount
   const isMounted = useRef(false);
@@ -43,7 +51,18 @@ export const AdminLoginModal: React.FC<AdminLoginModalProps> = ({ isOpen, onClos
         // Check if component is still mounted before updating state or calling callbacks
         if (!isMounted.current) return;
 
-        if (result) {
+        if (result?.twoFactor) {
+          setChallengeToken(result.challengeToken);
+          setCode('');
+          if (result.twoFactor === 'setup') {
+            setSetup(await beginAdminTwoFactorEnrollment(result.challengeToken));
+            if (!isMounted.current) return;
+            setView('two_factor_setup');
+          } else {
+            setView('two_factor');
+          }
+          setIsSubmitting(false);
+        } else if (result) {
           localStorage.setItem('adminToken', result.token);
           onLoginSuccess(result.token, result.user);
         } else {
@@ -59,6 +78,38 @@ export const AdminLoginModal: React.FC<AdminLoginModalProps> = ({ isOpen, onClos
     }
   };
   
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+        const result = await verifyAdminTwoFactor(challengeToken, code);
+        if (!isMounted.current) return;
+        if (result.recoveryCodes) {
+          // Newly enrolled: show the recovery codes before entering the portal.
+          setPendingLogin({ token: result.token, user: result.user });
+          setRecoveryCodes(result.recoveryCodes);
+          setView('recovery_codes');
+          setIsSubmitting(false);
+        } else {
+          localStorage.setItem('adminToken', result.token);
+          onLoginSuccess(result.token, result.user);
+        }
+    } catch (err) {
+        if (isMounted.current) {
+            setError(err instanceof Error ? err.message : 'Verification failed.');
+            setCode('');
+            setIsSubmitting(false);
+        }
+    }
+  };
+
+  const handleFinishEnrollment = () => {
+    if (!pendingLogin) return;
+    localStorage.setItem('adminToken', pendingLogin.token);
+    onLoginSuccess(pendingLogin.token, pendingLogin.user);
+  };
+
   const handleRequestReset = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -82,10 +133,107 @@ export const AdminLoginModal: React.FC<AdminLoginModalProps> = ({ isOpen, onClos
       setPassword('');
       setError('');
       setView('login');
+      setChallengeToken('');
+      setCode('');
+      setSetup(null);
+      setRecoveryCodes([]);
+      setPendingLogin(null);
       onClose();
   };
   
+  const renderCodeForm = (hint: string) => (
+    <form onSubmit={handleVerifyCode} className="mt-6 space-y-4">
+      <div>
+        <label htmlFor="admin-2fa-code" className="sr-only">Authentication code</label>
+        <input
+          id="admin-2fa-code"
+          name="code"
+          type="text"
+          inputMode={view === 'two_factor_setup' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          required
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-primary focus:border-primary sm:text-sm text-center tracking-widest font-mono"
+          placeholder="123456"
+        />
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">{hint}</p>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400 text-center" role="alert">{error}</p>}
+      <div className="flex flex-col gap-3 pt-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-primary/70"
+        >
+          {isSubmitting ? <><Spinner />Verifying...</> : 'Verify'}
+        </button>
+        <button
+          type="button"
+          onClick={handleClose}
+          className="w-full flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-500 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
   const renderContent = () => {
+    if (view === 'two_factor') {
+      return (
+        <>
+          <div className="text-center">
+            <h2 id="admin-login-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              Two-Factor Authentication
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Enter the 6-digit code from your authenticator app.
+            </p>
+          </div>
+          {renderCodeForm('Lost your device? Enter one of your recovery codes instead.')}
+        </>
+      );
+    }
+
+    if (view === 'two_factor_setup' && setup) {
+      return (
+        <>
+          <div className="text-center mb-4">
+            <h2 id="admin-login-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              Set Up Two-Factor Authentication
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Your role requires a second sign-in step.
+            </p>
+          </div>
+          <AuthenticatorSetup setup={setup} />
+          {renderCodeForm('Enter the 6-digit code your app shows to finish setup.')}
+        </>
+      );
+    }
+
+    if (view === 'recovery_codes') {
+      return (
+        <>
+          <div className="text-center mb-4">
+            <h2 id="admin-login-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              Save Your Recovery Codes
+            </h2>
+          </div>
+          <RecoveryCodesList codes={recoveryCodes} />
+          <button
+            type="button"
+            onClick={handleFinishEnrollment}
+            className="mt-6 w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 focus:outline-none"
+          >
+            I've saved them, continue
+          </button>
+        </>
+      );
+    }
+
     if (view === 'forgot_sent') {
       return (
         <div className="text-center">
@@ -223,7 +371,7 @@ export const AdminLoginModal: React.FC<AdminLoginModalProps> = ({ isOpen, onClos
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-60 z-[1000] flex items-center justify-center p-4"
-      onClick={handleClose}
+      onClick={view === 'recovery_codes' ? undefined : handleClose}
       role="dialog"
       aria-modal="true"
       aria-labelledby="admin-login-title"
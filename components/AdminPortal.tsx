@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { AdminDashboard } from './AdminDashboard';
 import { RegistrationsDashboard } from './RegistrationsDashboard';
 import { SettingsForm } from './SettingsForm';
@@ -18,15 +18,26 @@ import { VideoGenerator } from './VideoGenerator';
 import { TestDashboard } from './TestDashboard';
 import { GamificationDashboard } from './GamificationDashboard';
 import { TicketTiersDashboard } from './TicketTiersDashboard';
+import { InvoicesDashboard } from './InvoicesDashboard';
 import { MapDashboard } from './MapDashboard';
-import { Permission } from '../types';
+import { KioskFleetDashboard } from './KioskFleetDashboard';
+import { TwoFactorSettingsModal } from './TwoFactorSettingsModal';
+import { EventSelector } from './EventSelector';
+import { CreateEventModal } from './CreateEventModal';
+import { listPublicEvents } from '../server/api';
+import { canAccessEvent, permissionsIn, type Principal } from '../server/policy';
+import { Permission, type PublicEvent } from '../types';
 
-type AdminView = 'dashboard' | 'registrations' | 'settings' | 'users' | 'tasks' | 'dining' | 'hotels' | 'id_design' | 'eventcoin' | 'agenda' | 'speakers_sponsors' | 'marketing' | 'system' | 'communications' | 'media' | 'tests' | 'gamification' | 'ticketing' | 'maps';
+type AdminView = 'dashboard' | 'registrations' | 'settings' | 'users' | 'tasks' | 'dining' | 'hotels' | 'id_design' | 'eventcoin' | 'agenda' | 'speakers_sponsors' | 'marketing' | 'system' | 'communications' | 'media' | 'tests' | 'gamification' | 'ticketing' | 'invoices' | 'maps' | 'kiosks';
 
 interface AdminPortalProps {
   onLogout: () => void;
+  onSignOutEverywhere?: () => void;
   adminToken: string;
-  user: { email: string; permissions: Permission[] };
+  user: { email: string; permissions: Permission[]; eventPermissions?: Record<string, Permission[]> };
+  /** Event every dashboard works on. */
+  eventId: string;
+  onSelectEvent: (eventId: string) => void;
 }
 
 const NavLink: React.FC<{ label: string, isActive: boolean, onClick: () => void, userPermissions: Permission[], permission?: Permission }> = ({ label, isActive, onClick, userPermissions, permission }) => {
@@ -41,16 +52,42 @@ const NavLink: React.FC<{ label: string, isActive: boolean, onClick: () => void,
     );
 };
 
-export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, adminToken, user }) => {
+export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, onSignOutEverywhere, adminToken, user: sessionUser, eventId, onSelectEvent }) => {
   const [view, setView] = useState<AdminView>('dashboard');
+  const [isTwoFactorOpen, setTwoFactorOpen] = useState(false);
+  const [isCreateEventOpen, setCreateEventOpen] = useState(false);
+  const [events, setEvents] = useState<PublicEvent[]>([]);
+
+  const principal: Principal = { id: '', type: 'admin', ...sessionUser };
+  // Platform-wide permissions plus those of the admin's role for the selected event.
+  const user = { ...sessionUser, permissions: permissionsIn(principal, eventId) as Permission[] };
+
+  const loadEvents = async () => {
+    const all = await listPublicEvents();
+    const available = all.filter(e => canAccessEvent(principal, e.id));
+    setEvents(available);
+    return available;
+  };
+
+  useEffect(() => {
+    loadEvents().then(available => {
+      if (available.length > 0 && !available.some(e => e.id === eventId)) onSelectEvent(available[0].id);
+    });
+  }, [adminToken]);
+
+  const handleEventCreated = async (newEvent: { id: string }) => {
+    setCreateEventOpen(false);
+    await loadEvents();
+    onSelectEvent(newEvent.id);
+  };
 
   const renderView = () => {
     switch (view) {
       case 'dashboard': return <AdminDashboard user={user} adminToken={adminToken} onNavigate={(v) => setView(v as AdminView)} />;
-      case 'registrations': return <RegistrationsDashboard adminToken={adminToken} permissions={user.permissions} />;
-      case 'settings': return <SettingsForm adminToken={adminToken} />;
+      case 'registrations': return <RegistrationsDashboard adminToken={adminToken} permissions={user.permissions} eventId={eventId} />;
+      case 'settings': return <SettingsForm adminToken={adminToken} eventId={eventId} />;
       case 'users': return <UsersAndRolesDashboard adminToken={adminToken} />;
-      case 'tasks': return <TasksDashboard adminToken={adminToken} />;
+      case 'tasks': return <TasksDashboard adminToken={adminToken} eventId={eventId} />;
       case 'dining': return <DiningDashboard adminToken={adminToken} />;
       case 'hotels': return <HotelsDashboard adminToken={adminToken} />;
       case 'agenda': return <AgendaDashboard adminToken={adminToken} />;
@@ -64,7 +101,9 @@ export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, adminToken,
       case 'tests': return <TestDashboard adminToken={adminToken} />;
       case 'gamification': return <GamificationDashboard adminToken={adminToken} />;
       case 'ticketing': return <TicketTiersDashboard adminToken={adminToken} />;
+      case 'invoices': return <InvoicesDashboard adminToken={adminToken} />;
       case 'maps': return <MapDashboard adminToken={adminToken} />;
+      case 'kiosks': return <KioskFleetDashboard adminToken={adminToken} />;
       default: return <AdminDashboard user={user} adminToken={adminToken} onNavigate={(v) => setView(v as AdminView)} />;
     }
   };
@@ -77,6 +116,15 @@ export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, adminToken,
           <h1 className="text-xl font-bold text-primary flex items-center">
              <span className="mr-2">⚡</span> Event Admin
           </h1>
+          <div className="mt-4">
+            <EventSelector
+              events={events}
+              selectedEventId={eventId}
+              onSelectEvent={onSelectEvent}
+              onCreateEvent={() => setCreateEventOpen(true)}
+              canCreate={sessionUser.permissions.includes('manage_settings')}
+            />
+          </div>
         </div>
         <nav className="flex-1 overflow-y-auto py-4">
             <NavLink label="Dashboard" isActive={view === 'dashboard'} onClick={() => setView('dashboard')} userPermissions={user.permissions} permission="view_dashboard" />
@@ -85,6 +133,8 @@ export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, adminToken,
             <NavLink label="Agenda & Speakers" isActive={view === 'agenda'} onClick={() => setView('agenda')} userPermissions={user.permissions} permission="manage_agenda" />
             <NavLink label="Speakers & Sponsors" isActive={view === 'speakers_sponsors'} onClick={() => setView('speakers_sponsors')} userPermissions={user.permissions} permission="manage_speakers_sponsors" />
             <NavLink label="Ticketing" isActive={view === 'ticketing'} onClick={() => setView('ticketing')} userPermissions={user.permissions} permission="manage_registrations" />
+            <NavLink label="Invoices" isActive={view === 'invoices'} onClick={() => setView('invoices')} userPermissions={user.permissions} permission="manage_registrations" />
+            <NavLink label="Kiosk Fleet" isActive={view === 'kiosks'} onClick={() => setView('kiosks')} userPermissions={user.permissions} permission="manage_registrations" />
             <div className="my-2 border-t border-gray-100 dark:border-gray-700"></div>
             <NavLink label="Event Coin" isActive={view === 'eventcoin'} onClick={() => setView('eventcoin')} userPermissions={user.permissions} permission="view_eventcoin_dashboard" />
             <NavLink label="Gamification" isActive={view === 'gamification'} onClick={() => setView('gamification')} userPermissions={user.permissions} permission="manage_settings" />
@@ -105,16 +155,22 @@ export const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout, adminToken,
         </nav>
         <div className="p-4 border-t border-gray-200 dark:border-gray-700">
             <div className="mb-2 px-2 text-xs text-gray-500 truncate">{user.email}</div>
+            <button onClick={() => setTwoFactorOpen(true)} className="mb-2 w-full text-xs text-gray-500 hover:text-primary">Two-factor authentication</button>
             <button onClick={onLogout} className="w-full py-2 px-4 border border-gray-300 dark:border-gray-600 rounded text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">Logout</button>
+            {onSignOutEverywhere && <button onClick={onSignOutEverywhere} className="mt-2 w-full text-xs text-gray-500 hover:text-red-600 dark:hover:text-red-400">Sign out of all devices</button>}
         </div>
       </aside>
 
       {/* Main Content */}
       <main className="flex-1 ml-64 p-8 overflow-y-auto">
-        <div className="max-w-7xl mx-auto">
+        {/* Remount on event change so every dashboard reloads for the new event. */}
+        <div key={eventId} className="max-w-7xl mx-auto">
             {renderView()}
         </div>
       </main>
+
+      <TwoFactorSettingsModal isOpen={isTwoFactorOpen} onClose={() => setTwoFactorOpen(false)} adminToken={adminToken} />
+      <CreateEventModal isOpen={isCreateEventOpen} onClose={() => setCreateEventOpen(false)} onSuccess={handleEventCreated} adminToken={adminToken} events={events} />
     </div>
   );
 };
@@ -1,7 +1,9 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { type Session, type Speaker } from '../types';
-import { getSessions, saveSession, deleteSession, getSpeakers, getSessionFeedbackStats, analyzeFeedback } from '../server/api';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { type Session, type Speaker, type AccessZone } from '../types';
+import { getSessions, saveSession, deleteSession, getSpeakers, getSessionFeedbackStats, analyzeFeedback, getTicketTiers, getAccessZones, getZoneOccupancy, processCheckIn, type ZoneScan } from '../server/api';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+import { QRCodeScannerModal } from './QRCodeScannerModal';
 import { ContentLoader } from './ContentLoader';
 import { Alert } from './Alert';
 import { SessionEditorModal } from './SessionEditorModal';
@@ -76,6 +78,21 @@ const FeedbackSummary: React.FC<{ session: Session, adminToken: string }> = ({ s
     );
 };
 
+const OccupancyBar: React.FC<{ occupancy: number; capacity?: number }> = ({ occupancy, capacity }) => {
+    const ratio = capacity ? Math.min(occupancy / capacity, 1) : 0;
+    const color = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-500';
+    return (
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+            <span className="font-semibold whitespace-nowrap">{occupancy}{capacity ? ` / ${capacity}` : ''} inside</span>
+            {!!capacity && (
+                <div className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div className={`h-full ${color} transition-all`} style={{ width: `${ratio * 100}%` }}></div>
+                </div>
+            )}
+        </div>
+    );
+};
+
 // Color hash function for tracks
 const getTrackColor = (track?: string) => {
     if (!track) return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
@@ -102,6 +119,11 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
     const [error, setError] = useState<string | null>(null);
     const [editingSession, setEditingSession] = useState<Session | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [benefits, setBenefits] = useState<string[]>([]);
+    const [zones, setZones] = useState<AccessZone[]>([]);
+    const [scanZoneId, setScanZoneId] = useState<string | null>(null);
+
+    const { data: occupancy } = useLiveQuery(() => getZoneOccupancy(adminToken), ['check_ins'], [adminToken]);
     
     // Filters
     const [searchQuery, setSearchQuery] = useState('');
@@ -110,12 +132,16 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
     const fetchData = async () => {
         try {
             setIsLoading(true);
-            const [sessionsData, speakersData] = await Promise.all([
+            const [sessionsData, speakersData, tiers, zoneData] = await Promise.all([
                 getSessions(adminToken),
-                getSpeakers(adminToken)
+                getSpeakers(adminToken),
+                getTicketTiers(adminToken),
+                getAccessZones(adminToken)
             ]);
             setSessions(sessionsData);
             setSpeakers(speakersData);
+            setBenefits(Array.from(new Set(tiers.flatMap((t: any) => t.benefits || []))));
+            setZones(zoneData);
         } catch (e) {
             setError(e instanceof Error ? e.message : 'Failed to load agenda.');
         } finally {
@@ -163,6 +189,12 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
     
     const uniqueTracks = useMemo(() => Array.from(new Set(sessions.map(s => s.track).filter(Boolean) as string[])), [sessions]);
     
+    const handleZoneScan = useCallback((token: string, zoneScan?: ZoneScan) => processCheckIn(adminToken, token, zoneScan), [adminToken]);
+
+    const handleScanned = useCallback(() => undefined, []);
+
+    const roomZones = zones.filter(z => z.type === 'room');
+
     const getSpeakerNames = (speakerIds: string[]) => {
         return speakerIds
             .map(id => speakers.find(s => s.id === id)?.name)
@@ -210,6 +242,23 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
                 </div>
             </div>
             
+            {roomZones.length > 0 && (
+                <div className="mb-6 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+                    <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">Room Occupancy</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {roomZones.map(zone => (
+                            <div key={zone.id}>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-sm font-medium text-gray-900 dark:text-white">{zone.name}</span>
+                                    <button onClick={() => setScanZoneId(zone.id)} className="text-xs text-primary hover:underline">Scan</button>
+                                </div>
+                                <OccupancyBar occupancy={occupancy?.[zone.id] || 0} capacity={zone.capacity} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <div className="space-y-8">
                 {Object.keys(sessionsByDay).map(day => {
                     const daySessions = sessionsByDay[day];
@@ -240,6 +289,7 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
                                                 </p>
                                             </div>
                                             <div className="flex gap-1">
+                                                <button onClick={() => setScanZoneId(session.id)} title="Scan delegates in and out" className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 hover:text-primary"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6.5 6.5v-1m-6.5-5.5h-1M4 12V4a2 2 0 012-2h8a2 2 0 012 2v8a2 2 0 01-2 2H6a2 2 0 01-2-2z" /></svg></button>
                                                 <button onClick={() => { setEditingSession(session); setIsModalOpen(true); }} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 hover:text-primary"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" /></svg></button>
                                                 <button onClick={() => handleDelete(session.id)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 hover:text-red-500"><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg></button>
                                             </div>
@@ -250,6 +300,12 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
                                                 {getSpeakerNames(session.speakerIds)}
                                             </div>
                                         )}
+                                        <div className="mt-3">
+                                            <OccupancyBar occupancy={occupancy?.[session.id] || 0} capacity={Number(session.capacity) || undefined} />
+                                            {!!session.requiredBenefits?.length && (
+                                                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Entry with: {session.requiredBenefits.join(', ')}</p>
+                                            )}
+                                        </div>
                                     </div>
                                     
                                     <FeedbackSummary session={session} adminToken={adminToken} />
@@ -283,6 +339,16 @@ export const AgendaDashboard: React.FC<AgendaDashboardProps> = ({ adminToken })
                 adminToken={adminToken} 
                 speakers={speakers} 
                 existingSessions={sessions}
+                benefits={benefits}
+            />
+            <QRCodeScannerModal
+                isOpen={scanZoneId !== null}
+                onClose={() => setScanZoneId(null)}
+                onScan={handleScanned}
+                checkTicket={handleZoneScan}
+                zones={zones}
+                initialZoneId={scanZoneId || ''}
+                keepScanning
             />
         </>
     );
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { type OrderBilling } from '../types';
+import { TextInput } from './TextInput';
+
+interface BillingDetailsFieldsProps {
+  value: OrderBilling;
+  onChange: (billing: OrderBilling) => void;
+  /** Leave the company out when the form already asks for it. */
+  hideCompany?: boolean;
+}
+
+/** Optional company and VAT details for the invoice, folded away until asked for. */
+export const BillingDetailsFields: React.FC<BillingDetailsFieldsProps> = ({ value, onChange, hideCompany }) => {
+    const [isOpen, setIsOpen] = useState(Object.values(value).some(Boolean));
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value: fieldValue } = e.target;
+        onChange({ ...value, [name]: name === 'country' ? fieldValue.toUpperCase() : fieldValue });
+    };
+
+    if (!isOpen) {
+        return (
+            <button type="button" onClick={() => setIsOpen(true)} className="text-sm text-primary hover:underline">
+                Need an invoice for your company?
+            </button>
+        );
+    }
+
+    return (
+        <fieldset className="space-y-4">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Invoice details</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {!hideCompany && <TextInput label="Company" name="company" value={value.company || ''} onChange={handleChange} />}
+                <TextInput label="VAT ID" name="vatId" value={value.vatId || ''} onChange={handleChange} />
+                <TextInput label="Billing Address" name="address" value={value.address || ''} onChange={handleChange} />
+                <TextInput label="Country (two-letter code)" name="country" placeholder="DE" value={value.country || ''} onChange={handleChange} />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Printed on your invoice, which you can download once you have paid.</p>
+        </fieldset>
+    );
+};
@@ -1,6 +1,8 @@
-
-import React, { useState, useRef } from 'react';
-import { bulkImportRegistrations } from '../server/api';
+import React, { useState, useRef, useMemo } from 'react';
+import { type FormField, type RegistrationImport } from '../types';
+import { importRegistrations, previewRegistrationImport } from '../server/api';
+import { guessMapping, importTargets, mappingErrors, parseCsv, type ImportRowResult, type ImportTarget } from '../server/registrationImport';
+import { readXlsxRows } from '../utils/xlsx';
 import { Spinner } from './Spinner';
 import { Alert } from './Alert';
 
@@ -9,215 +11,333 @@ interface BulkImportModalProps {
   onClose: () => void;
   onImportSuccess: () => void;
   adminToken: string;
+  /** The event's registration form, so columns can be mapped onto custom fields. */
+  formFields: FormField[];
 }
 
-export const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onImportSuccess, adminToken }) => {
+type ImportStep = 'source' | 'mapping' | 'preview' | 'importing' | 'result';
+
+// Rows shown in the mapping sample and listed in the preview.
+const SAMPLE_ROWS = 3;
+const PREVIEW_ROWS = 200;
+
+export const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onImportSuccess, adminToken, formFields }) => {
+  const [step, setStep] = useState<ImportStep>('source');
   const [csvData, setCsvData] = useState('');
-  const [isImporting, setIsImporting] = useState(false);
-  const [result, setResult] = useState<{ successCount: number; errorCount: number; errors: string[] } | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cells, setCells] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportTarget[]>([]);
+  const [preview, setPreview] = useState<ImportRowResult[] | null>(null);
+  const [notify, setNotify] = useState(false);
+  const [job, setJob] = useState<RegistrationImport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [showConfirm, setShowConfirm] = useState(false);
-  
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const targets = useMemo(() => importTargets(formFields), [formFields]);
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+  const firstRow = hasHeader ? 2 : 1;
+  const columnCount = cells.reduce((max, row) => Math.max(max, row.length), 0);
+
   const handleClose = () => {
+    // Closing after an import refreshes the list behind the dialog.
+    const imported = !!job && job.imported > 0;
+    setStep('source');
     setCsvData('');
-    setIsImporting(false);
-    setResult(null);
+    setFileName(null);
+    setCells([]);
+    setMapping([]);
+    setPreview(null);
+    setNotify(false);
+    setJob(null);
+    setIsWorking(false);
     setError(null);
-    setShowConfirm(false);
-    onClose();
+    if (imported) onImportSuccess();
+    else onClose();
   };
-  
-  const handleAttemptImport = () => {
-    if (!csvData.trim()) {
-      setError("Please paste CSV data or upload a file.");
+
+  const startMapping = (rows: string[][]) => {
+    if (rows.length === 0) {
+      setError('No rows found. Please check the file or pasted data.');
       return;
     }
+    const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const guess = guessMapping(Array.from({ length: width }, (_, i) => rows[0][i] || ''), formFields);
+    setCells(rows);
+    setHasHeader(guess.header);
+    setMapping(guess.mapping);
     setError(null);
-    setShowConfirm(true);
+    setStep('mapping');
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Reset input so same file can be selected again
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      if (text) {
-          setCsvData(text);
-          setError(null);
+    try {
+      setFileName(file.name);
+      if (/\.xlsx$/i.test(file.name)) {
+        startMapping(await readXlsxRows(await file.arrayBuffer()));
+      } else {
+        startMapping(parseCsv(await file.text()));
       }
-    };
-    reader.onerror = () => {
-        setError("Failed to read file.");
-    };
-    reader.readAsText(file);
-    
-    // Reset input so same file can be selected again
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setFileName(null);
+      setError(err instanceof Error ? err.message : 'Failed to read file.');
+    }
+  };
+
+  const handlePasted = () => {
+    if (!csvData.trim()) {
+      setError('Please paste CSV data or upload a file.');
+      return;
+    }
+    setFileName(null);
+    startMapping(parseCsv(csvData));
+  };
+
+  const handlePreview = async () => {
+    const problems = mappingErrors(mapping);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      setPreview(await previewRegistrationImport(adminToken, dataRows, mapping, firstRow));
+      setStep('preview');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to check the rows.');
+    } finally {
+      setIsWorking(false);
+    }
   };
 
   const executeImport = async () => {
-    setIsImporting(true);
-    setShowConfirm(false);
-    setResult(null);
+    setStep('importing');
+    setError(null);
     try {
-      const importResult = await bulkImportRegistrations(adminToken, csvData);
-      setResult(importResult);
-      if (importResult.successCount > 0 && importResult.errorCount === 0) {
-        // Only call full success if there are no errors, otherwise user might want to see errors
-        setTimeout(() => {
-            onImportSuccess();
-            handleClose();
-        }, 1500)
-      }
+      const finished = await importRegistrations(adminToken, dataRows, mapping, { firstRow, notify }, setJob);
+      setJob(finished);
+      setStep('result');
     } catch (e) {
       setError(e instanceof Error ? e.message : 'An unknown error occurred during import.');
-    } finally {
-      setIsImporting(false);
+      setStep('result');
     }
   };
 
   if (!isOpen) return null;
-  
-  const renderContent = () => {
-      if (isImporting) {
-        return (
-            <div className="text-center py-10">
-                <Spinner />
-                <p className="mt-4 text-lg font-medium">Importing, please wait...</p>
-                <p className="text-sm text-gray-500">This may take a moment for large lists.</p>
-            </div>
-        );
-      }
 
-      if (result) {
-          return (
-              <div>
-                  <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">Import Complete</h3>
-                  <div className="mt-4">
-                      <Alert type={result.errorCount === 0 ? 'success' : 'warning'} message={`Successfully imported ${result.successCount} users. Failed to import ${result.errorCount} users.`} />
-                  </div>
-                  {result.errors.length > 0 && (
-                      <div className="mt-4 max-h-40 overflow-y-auto rounded-md bg-gray-100 dark:bg-gray-900 p-3">
-                          <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">Error Details:</h4>
-                          <ul className="list-disc list-inside space-y-1 text-sm text-red-700 dark:text-red-300">
-                              {result.errors.map((err, i) => <li key={i}>{err}</li>)}
-                          </ul>
-                      </div>
-                  )}
-              </div>
-          );
-      }
+  const secondaryButton = "py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600";
+  const primaryButton = "py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 flex items-center justify-center disabled:opacity-50";
 
-      if (showConfirm) {
-        const lineCount = Math.max(0, csvData.trim().split('\n').filter(line => line.trim()).length - 1);
-        return (
-            <div>
-                <h2 id="import-title" className="text-xl font-bold text-gray-900 dark:text-white">Confirm Bulk Import</h2>
-                <div className="mt-4">
-                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                        You are about to import approximately <strong className="text-gray-800 dark:text-gray-200">{lineCount}</strong> new registrations.
-                    </p>
-                    <div className="mt-4 p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-200 text-sm">
-                        <p><strong>Warning:</strong> This action cannot be undone. Please ensure your data is correctly formatted and does not contain existing users.</p>
-                    </div>
-                </div>
-            </div>
-        );
-      }
-      
-      return (
-          <div>
-            <h2 id="import-title" className="text-xl font-bold text-gray-900 dark:text-white">Bulk Import Registrations</h2>
-            <div className="mt-4">
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                Upload a CSV file or paste data below. The format should be two columns: `name, email`.
-              </p>
-              
-              <div className="flex gap-2 mb-4">
-                  <input 
-                    type="file" 
-                    accept=".csv,.txt" 
-                    ref={fileInputRef} 
-                    onChange={handleFileUpload} 
-                    className="hidden" 
-                  />
-                  <button 
-                    type="button" 
-                    onClick={() => fileInputRef.current?.click()}
-                    className="px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center gap-2"
+  const renderSource = () => (
+    <div>
+      <h2 id="import-title" className="text-xl font-bold text-gray-900 dark:text-white">Bulk Import Registrations</h2>
+      <div className="mt-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Upload a CSV or Excel (.xlsx) file, or paste rows copied from a spreadsheet. You will map the columns to registration fields next.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            ref={fileInputRef}
+            onChange={handleFileUpload}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4 4m0 0l-4-4m4 4V4" /></svg>
+            Upload CSV or Excel File
+          </button>
+        </div>
+
+        <div className="mt-2 p-2 rounded-md bg-gray-100 dark:bg-gray-700/50 text-gray-600 dark:text-gray-300 text-sm">
+          <strong>Example:</strong><br />
+          <pre className="mt-1 font-mono text-xs overflow-x-auto"><code>
+            name,email,company,ticket<br/>
+            John Doe,john.doe@example.com,"Acme, Inc.",VIP<br/>
+            Jane Smith,jane.smith@example.com,Globex,General
+          </code></pre>
+          <p className="mt-1 text-xs italic text-gray-500">Quoted values may contain commas and line breaks. Tab-separated (Excel copy-paste) rows work too.</p>
+        </div>
+      </div>
+      <div className="mt-4">
+        <textarea
+          rows={8}
+          value={csvData}
+          onChange={(e) => setCsvData(e.target.value)}
+          placeholder="Paste data here..."
+          className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+        />
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => (
+    <div>
+      <h2 id="import-title" className="text-xl font-bold text-gray-900 dark:text-white">Map Columns</h2>
+      <p className="mt-1 text-sm text-gray-500">
+        {fileName ? `${fileName}: ` : ''}{dataRows.length} row{dataRows.length === 1 ? '' : 's'} found. Choose what each column holds; unmapped columns are ignored.
+      </p>
+      <label className="mt-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="rounded border-gray-300" />
+        The first row holds column names
+      </label>
+      <div className="mt-4 max-h-80 overflow-y-auto border rounded-md dark:border-gray-700">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700/50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Column</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Sample</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Import As</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {Array.from({ length: columnCount }, (_, column) => (
+              <tr key={column}>
+                <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">{hasHeader ? cells[0][column] || `Column ${column + 1}` : `Column ${column + 1}`}</td>
+                <td className="px-3 py-2 text-gray-500 truncate max-w-[12rem]">
+                  {dataRows.slice(0, SAMPLE_ROWS).map(row => row[column]).filter(Boolean).join(', ')}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    value={mapping[column] || 'ignore'}
+                    onChange={e => setMapping(current => Object.assign([...current], { [column]: e.target.value }))}
+                    className="w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm"
                   >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4 4m0 0l-4-4m4 4V4" /></svg>
-                      Upload CSV File
-                  </button>
-              </div>
-
-              <div className="mt-2 p-2 rounded-md bg-gray-100 dark:bg-gray-700/50 text-gray-600 dark:text-gray-300 text-sm">
-                  <strong>Expected Format:</strong><br />
-                  <pre className="mt-1 font-mono text-xs overflow-x-auto"><code>
-                      name,email<br/>
-                      John Doe,john.doe@example.com<br/>
-                      Jane Smith,jane.smith@example.com
-                  </code></pre>
-                  <p className="mt-1 text-xs italic text-gray-500">Supports comma (CSV) or tab (Excel copy-paste) separation.</p>
-              </div>
-            </div>
-            <div className="mt-4">
-              <textarea
-                rows={8}
-                value={csvData}
-                onChange={(e) => setCsvData(e.target.value)}
-                placeholder="Paste data here..."
-                className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
-              />
-            </div>
-            {error && <div className="mt-2"><Alert type="error" message={error} /></div>}
+                    <option value="ignore">Don't import</option>
+                    {targets.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    const rows = preview || [];
+    const invalid = rows.filter(r => r.errors.length > 0);
+    return (
+      <div>
+        <h2 id="import-title" className="text-xl font-bold text-gray-900 dark:text-white">Review Import</h2>
+        <div className="mt-4">
+          <Alert
+            type={invalid.length === 0 ? 'success' : 'warning'}
+            message={`${rows.length - invalid.length} of ${rows.length} rows are ready to import.${invalid.length > 0 ? ` ${invalid.length} will be skipped; fix them in the file and import again, or continue without them.` : ''}`}
+          />
+        </div>
+        {invalid.length > 0 && (
+          <div className="mt-4 max-h-60 overflow-y-auto rounded-md bg-gray-100 dark:bg-gray-900 p-3">
+            <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">Rows with errors:</h4>
+            <ul className="space-y-1 text-sm text-red-700 dark:text-red-300">
+              {invalid.slice(0, PREVIEW_ROWS).map(r => (
+                <li key={r.row}><span className="font-mono">Row {r.row}:</span> {r.errors.join(' ')}</li>
+              ))}
+              {invalid.length > PREVIEW_ROWS && <li className="italic">...and {invalid.length - PREVIEW_ROWS} more.</li>}
+            </ul>
           </div>
-      );
+        )}
+        <label className="mt-4 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={notify} onChange={e => setNotify(e.target.checked)} className="rounded border-gray-300" />
+          Email each imported delegate their confirmation and pass
+        </label>
+        <div className="mt-4 p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-200 text-sm">
+          <p><strong>Warning:</strong> This action cannot be undone. Registrations beyond the event's capacity are added to the waitlist.</p>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProgress = () => {
+    const percent = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+    return (
+      <div className="text-center py-10">
+        <Spinner />
+        <p className="mt-4 text-lg font-medium">Importing, please wait...</p>
+        <div className="mt-4 h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <p className="mt-2 text-sm text-gray-500">{job ? `${job.processed} of ${job.total} rows processed` : 'Starting...'}</p>
+      </div>
+    );
   };
 
+  const renderResult = () => (
+    <div>
+      <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">Import {job?.status === 'failed' || !job ? 'Stopped' : 'Complete'}</h3>
+      {error && <div className="mt-4"><Alert type="error" message={error} /></div>}
+      {job && (
+        <div className="mt-4">
+          <Alert
+            type={job.status === 'failed' ? 'error' : job.failed === 0 ? 'success' : 'warning'}
+            message={`Imported ${job.imported} registrations${job.waitlisted ? ` (${job.waitlisted} on the waitlist)` : ''}. Skipped ${job.failed}.${job.error ? ` ${job.error}` : ''}`}
+          />
+        </div>
+      )}
+      {job && job.errors.length > 0 && (
+        <div className="mt-4 max-h-40 overflow-y-auto rounded-md bg-gray-100 dark:bg-gray-900 p-3">
+          <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-2">Error Details:</h4>
+          <ul className="list-disc list-inside space-y-1 text-sm text-red-700 dark:text-red-300">
+            {job.errors.map(err => <li key={err.row}>Row {err.row}: {err.message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+
+  const content = { source: renderSource, mapping: renderMapping, preview: renderPreview, importing: renderProgress, result: renderResult }[step];
+  const readyCount = preview ? preview.filter(r => r.errors.length === 0).length : 0;
+
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={handleClose}>
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={step === 'importing' ? undefined : handleClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl" onClick={(e) => e.stopPropagation()}>
         <div className="p-6">
-          {renderContent()}
-        </div>
-        <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
-          {result ? (
-            <button type="button" onClick={handleClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
-              Close
-            </button>
-          ) : showConfirm ? (
-            <>
-              <button type="button" onClick={() => setShowConfirm(false)} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
-                Cancel
-              </button>
-              <button
-                type="button"
-                onClick={executeImport}
-                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 flex items-center justify-center"
-              >
-                Confirm & Import
-              </button>
-            </>
-          ) : (
-            <>
-              <button type="button" onClick={handleClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
-                Cancel
-              </button>
-              <button
-                type="button"
-                onClick={handleAttemptImport}
-                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 flex items-center justify-center"
-              >
-                Next Step
-              </button>
-            </>
-          )}
+          {content()}
+          {error && step !== 'result' && <div className="mt-2"><Alert type="error" message={error} /></div>}
         </div>
+        {step !== 'importing' && (
+          <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
+            {step === 'result' ? (
+              <button type="button" onClick={handleClose} className={secondaryButton}>Close</button>
+            ) : (
+              <>
+                {step === 'source' ? (
+                  <button type="button" onClick={handleClose} className={secondaryButton}>Cancel</button>
+                ) : (
+                  <button type="button" onClick={() => { setError(null); setStep(step === 'preview' ? 'mapping' : 'source'); }} className={secondaryButton}>Back</button>
+                )}
+                {step === 'source' && (
+                  <button type="button" onClick={handlePasted} className={primaryButton}>Next Step</button>
+                )}
+                {step === 'mapping' && (
+                  <button type="button" onClick={handlePreview} disabled={isWorking} className={primaryButton}>
+                    {isWorking && <Spinner />}
+                    Check Rows
+                  </button>
+                )}
+                {step === 'preview' && (
+                  <button type="button" onClick={executeImport} disabled={readyCount === 0} className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 flex items-center justify-center disabled:opacity-50">
+                    Import {readyCount} Registration{readyCount === 1 ? '' : 's'}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,82 @@
+
+import React, { useState, useEffect } from 'react';
+import { type RegistrationData, type CheckInRecord } from '../types';
+import { getCheckInHistory } from '../server/api';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+
+interface CheckInHistoryModalProps {
+  delegate: RegistrationData;
+  onClose: () => void;
+  adminToken: string;
+}
+
+const RESULT_STYLES: Record<CheckInRecord['result'], { label: string; className: string }> = {
+  admitted: { label: 'Admitted', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  duplicate: { label: 'Duplicate', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' }
+};
+
+export const CheckInHistoryModal: React.FC<CheckInHistoryModalProps> = ({ delegate, onClose, adminToken }) => {
+    const [history, setHistory] = useState<CheckInRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getCheckInHistory(adminToken, delegate.id!)
+            .then(setHistory)
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load entry history.'))
+            .finally(() => setIsLoading(false));
+    }, [adminToken, delegate.id]);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-2xl" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Entry History</h2>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {delegate.name} &middot; {delegate.checkedInAt ? `first admitted ${new Date(delegate.checkedInAt).toLocaleString()}` : 'not checked in yet'}
+                </p>
+                <div className="mt-4 max-h-96 overflow-y-auto">
+                    {error && <Alert type="error" message={error} />}
+                    {isLoading ? (
+                        <div className="flex justify-center py-8"><Spinner /></div>
+                    ) : history.length === 0 ? (
+                        <p className="text-gray-500 italic text-sm py-4">No scans recorded for this delegate.</p>
+                    ) : (
+                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                            <thead className="bg-gray-50 dark:bg-gray-700/50">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Time</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Result</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Scanned By</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Device</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                {history.map(entry => (
+                                    <tr key={entry.id}>
+                                        <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{new Date(entry.timestamp).toLocaleString()}</td>
+                                        <td className="px-3 py-2">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RESULT_STYLES[entry.result].className}`}>
+                                                {RESULT_STYLES[entry.result].label}
+                                            </span>
+                                            {entry.method === 'manual' && <span className="ml-2 text-xs text-gray-500">manual</span>}
+                                            {entry.reason && <p className="text-xs text-gray-500 mt-1">{entry.reason}</p>}
+                                        </td>
+                                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{entry.scannedByEmail || entry.scannedBy}</td>
+                                        <td className="px-3 py-2 text-gray-500 dark:text-gray-400 font-mono text-xs" title={entry.userAgent}>{entry.deviceId}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div className="pt-4 flex justify-end">
+                    <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
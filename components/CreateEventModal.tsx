@@ -1,7 +1,7 @@
 
-import React, { useState } from 'react';
-import { type EventData } from '../types';
-import { createEvent } from '../server/api';
+import React, { useState, useEffect } from 'react';
+import { type EventData, type EventTemplate, type PublicEvent } from '../types';
+import { createEvent, getEventTemplates, deleteEventTemplate, type EventSource } from '../server/api';
 import { Spinner } from './Spinner';
 import { Alert } from './Alert';
 
@@ -10,18 +10,48 @@ interface CreateEventModalProps {
   onClose: () => void;
   onSuccess: (newEvent: EventData) => void;
   adminToken: string;
+  /** Events the new one can be copied from. */
+  events?: PublicEvent[];
 }
 
 const EVENT_TYPES = ['Conference', 'Workshop', 'Webinar', 'Meetup', 'Other'];
 
-export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose, onSuccess, adminToken }) => {
+export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose, onSuccess, adminToken, events = [] }) => {
     const [eventName, setEventName] = useState('');
     const [eventType, setEventType] = useState(EVENT_TYPES[0]);
+    // '' for a blank event, `template:<id>` or `event:<id>`.
+    const [source, setSource] = useState('');
+    const [dayShift, setDayShift] = useState(0);
+    const [templates, setTemplates] = useState<EventTemplate[]>([]);
     const [isCreating, setIsCreating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) getEventTemplates(adminToken).then(setTemplates).catch(() => setTemplates([]));
+    }, [isOpen, adminToken]);
     
     if (!isOpen) return null;
 
+    const [sourceKind, sourceId] = source.split(':');
+    const selectedTemplate = sourceKind === 'template' ? templates.find(t => t.id === sourceId) : undefined;
+
+    const buildSource = (): EventSource => {
+        if (sourceKind === 'template') return { templateId: sourceId, dayShift };
+        if (sourceKind === 'event') return { cloneFromEventId: sourceId, dayShift };
+        return {};
+    };
+
+    const handleDeleteTemplate = async () => {
+        if (!selectedTemplate || !window.confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+        try {
+            await deleteEventTemplate(adminToken, selectedTemplate.id);
+            setTemplates(prev => prev.filter(t => t.id !== selectedTemplate.id));
+            setSource('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete template.');
+        }
+    };
+
     const handleCreate = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!eventName.trim()) {
@@ -32,10 +62,12 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onCl
         setIsCreating(true);
         setError(null);
         try {
-            const newEvent = await createEvent(adminToken, eventName, eventType);
+            const newEvent = await createEvent(adminToken, eventName, source ? '' : eventType, buildSource());
             onSuccess(newEvent);
             setEventName(''); // Reset for next time
             setEventType(EVENT_TYPES[0]);
+            setSource('');
+            setDayShift(0);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to create event.');
         } finally {
@@ -46,6 +78,8 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onCl
     const handleClose = () => {
         setEventName('');
         setEventType(EVENT_TYPES[0]);
+        setSource('');
+        setDayShift(0);
         setError(null);
         setIsCreating(false);
         onClose();
@@ -56,7 +90,7 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onCl
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
                 <h2 id="create-event-title" className="text-xl font-bold text-gray-900 dark:text-white">Create New Event</h2>
                 <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-                    Enter a name for your new event. All other settings can be configured later.
+                    Enter a name for your new event. Start blank, from a saved template, or from a copy of an existing event.
                 </p>
                 <form onSubmit={handleCreate} className="mt-6 space-y-4">
                     {error && <Alert type="error" message={error} />}
@@ -75,13 +109,54 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onCl
                         />
                     </div>
                     <div>
-                        <label htmlFor="eventType" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                            Event Type
+                        <label htmlFor="eventSource" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Start From
                         </label>
-                         <select id="eventType" value={eventType} onChange={(e) => setEventType(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm">
-                            {EVENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        <select id="eventSource" value={source} onChange={(e) => setSource(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm">
+                            <option value="">Blank event</option>
+                            {templates.length > 0 && (
+                                <optgroup label="Templates">
+                                    {templates.map(t => <option key={t.id} value={`template:${t.id}`}>{t.name}</option>)}
+                                </optgroup>
+                            )}
+                            {events.length > 0 && (
+                                <optgroup label="Copy of event">
+                                    {events.map(e => <option key={e.id} value={`event:${e.id}`}>{e.name}</option>)}
+                                </optgroup>
+                            )}
                         </select>
+                        {selectedTemplate && (
+                            <div className="mt-1 flex justify-between items-start gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                <span>{selectedTemplate.description || 'No description.'}</span>
+                                <button type="button" onClick={handleDeleteTemplate} className="text-red-600 dark:text-red-400 hover:underline whitespace-nowrap">Delete template</button>
+                            </div>
+                        )}
                     </div>
+                    {source ? (
+                        <div>
+                            <label htmlFor="dayShift" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Shift Dates by (days)
+                            </label>
+                            <input
+                                type="number"
+                                id="dayShift"
+                                step={1}
+                                value={dayShift}
+                                onChange={(e) => setDayShift(parseInt(e.target.value, 10) || 0)}
+                                className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700"
+                            />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Moves every session, e.g. 364 keeps the same weekday next year.</p>
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="eventType" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Event Type
+                            </label>
+                             <select id="eventType" value={eventType} onChange={(e) => setEventType(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm">
+                                {EVENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div className="pt-2 flex justify-end gap-3">
                         <button type="button" onClick={handleClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium">
                             Cancel
@@ -3,17 +3,22 @@ import React, { useState, useEffect } from 'react';
 import { type RegistrationData, type EventConfig } from '../types';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
-import { sendUpdateEmailToDelegate, saveAdminRegistration } from '../server/api';
+import { sendUpdateEmailToDelegate, saveAdminRegistration, revokeTicket, reissueTicket, checkInManually, uploadRegistrationFile } from '../server/api';
+import { answerValues, formatAnswer } from '../server/formFields';
 import { ImageUpload } from './ImageUpload';
+import { DynamicFormField } from './DynamicFormField';
+import { TicketHistory } from './TicketHistory';
+import { OrderRefundsPanel } from './OrderRefundsPanel';
 
 interface DelegateDetailViewProps {
   delegate: RegistrationData;
   config: EventConfig;
   onBack: () => void;
   adminToken: string;
+  eventId: string;
 }
 
-export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate, config, onBack, adminToken }) => {
+export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate, config, onBack, adminToken, eventId }) => {
     const [isSending, setIsSending] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
@@ -31,7 +36,7 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
         setIsSending(true);
         setSendStatus(null);
         try {
-            await sendUpdateEmailToDelegate(adminToken, 'main-event', delegate.id!);
+            await sendUpdateEmailToDelegate(adminToken, eventId, delegate.id!);
             setSendStatus({ type: 'success', message: 'Update email sent successfully!' });
         } catch (err) {
             const message = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -51,12 +56,12 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
                 email: formData.email,
                 role: formData.role,
                 company: formData.company,
-                customFields: { photoUrl: formData.photoUrl } as any,
-                checkedIn: formData.checkedIn
+                customFields: { photoUrl: formData.photoUrl } as any
             };
             // Extract custom fields
             config.formFields.forEach(f => {
-                if (formData[f.id]) updates.customFields[f.id] = formData[f.id];
+                // An unticked box is an answer too, so only unset fields are skipped.
+                if (formData[f.id] !== undefined) updates.customFields[f.id] = formData[f.id];
             });
 
             await saveAdminRegistration(adminToken, delegate.id!, updates);
@@ -69,13 +74,41 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
         }
     };
 
+    const handleTicketAction = async (action: 'revoke' | 'reissue') => {
+        const prompt = action === 'revoke'
+            ? 'Revoke this ticket? Its QR code will be rejected at the door.'
+            : 'Issue a new ticket? The current QR code will stop working.';
+        if (!window.confirm(prompt)) return;
+        setSendStatus(null);
+        try {
+            if (action === 'revoke') {
+                await revokeTicket(adminToken, delegate.id!);
+                setFormData(prev => ({ ...prev, ticketRevokedAt: Date.now() }));
+            } else {
+                await reissueTicket(adminToken, delegate.id!);
+                setFormData(prev => ({ ...prev, ticketVersion: (prev.ticketVersion || 1) + 1, ticketRevokedAt: null }));
+            }
+            setSendStatus({ type: 'success', message: action === 'revoke' ? 'Ticket revoked.' : 'New ticket issued. The delegate can show it from their event pass.' });
+        } catch (err) {
+            setSendStatus({ type: 'error', message: err instanceof Error ? err.message : 'Failed to update the ticket.' });
+        }
+    };
+
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
-    const handleToggleCheckIn = () => {
-        setFormData(prev => ({ ...prev, checkedIn: !prev.checkedIn }));
+    const handleManualCheckIn = async () => {
+        if (!window.confirm(`Check in ${formData.name} without scanning their ticket?`)) return;
+        setSendStatus(null);
+        try {
+            const result = await checkInManually(adminToken, delegate.id!);
+            if (result.user) setFormData(prev => ({ ...prev, checkedInAt: result.user!.checkedInAt }));
+            setSendStatus({ type: result.success ? 'success' : 'error', message: result.message });
+        } catch (err) {
+            setSendStatus({ type: 'error', message: err instanceof Error ? err.message : 'Check-in failed.' });
+        }
     };
 
     const handlePhotoChange = (url: string) => {
@@ -154,23 +187,17 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
                         </div>
                         
                         <div className="flex items-center gap-3 self-end md:self-center">
-                             {isEditing ? (
-                                 <label className="flex items-center cursor-pointer">
-                                    <span className="mr-2 text-sm font-medium text-gray-700 dark:text-gray-300">Status:</span>
-                                    <button 
-                                        type="button"
-                                        onClick={handleToggleCheckIn}
-                                        className={`relative inline-flex flex-shrink-0 h-6 w-11 border-2 border-transparent rounded-full cursor-pointer transition-colors ease-in-out duration-200 focus:outline-none ${formData.checkedIn ? 'bg-green-600' : 'bg-gray-200 dark:bg-gray-700'}`}
-                                    >
-                                        <span className={`pointer-events-none inline-block h-5 w-5 rounded-full bg-white shadow transform ring-0 transition ease-in-out duration-200 ${formData.checkedIn ? 'translate-x-5' : 'translate-x-0'}`}></span>
-                                    </button>
-                                    <span className="ml-2 text-sm text-gray-500">{formData.checkedIn ? 'Checked In' : 'Pending'}</span>
-                                 </label>
-                             ) : (
-                                <span className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${formData.checkedIn ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}`}>
-                                    {formData.checkedIn ? 'Checked-in' : 'Pending'}
-                                </span>
+                             {!formData.checkedInAt && formData.status !== 'cancelled' && (
+                                 <button type="button" onClick={handleManualCheckIn} className="text-sm text-primary hover:underline">
+                                     Check In
+                                 </button>
                              )}
+                             <span
+                                 className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${formData.checkedInAt ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}`}
+                                 title={formData.checkedInAt ? new Date(formData.checkedInAt).toLocaleString() : undefined}
+                             >
+                                 {formData.checkedInAt ? 'Checked-in' : 'Pending'}
+                             </span>
                         </div>
                     </div>
                     <p className="mt-2 text-sm text-gray-500 dark:text-gray-400 ml-24">Registered on: {new Date(delegate.createdAt).toLocaleString()}</p>
@@ -192,36 +219,13 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
 
                              {/* Custom Fields */}
                              {config.formFields.filter(f => f.enabled).map(field => (
-                                 <div key={field.id}>
-                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
-                                     {field.type === 'textarea' ? (
-                                         <textarea 
-                                            name={field.id}
-                                            value={formData[field.id] || ''}
-                                            onChange={handleInputChange}
-                                            rows={3}
-                                            className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white sm:text-sm focus:ring-primary focus:border-primary"
-                                         />
-                                     ) : field.type === 'dropdown' ? (
-                                         <select
-                                            name={field.id}
-                                            value={formData[field.id] || ''}
-                                            onChange={handleInputChange}
-                                            className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white sm:text-sm focus:ring-primary focus:border-primary"
-                                         >
-                                             <option value="">Select...</option>
-                                             {field.options?.map(opt => <option key={opt} value={opt}>{opt}</option>)}
-                                         </select>
-                                     ) : (
-                                         <input 
-                                            type="text"
-                                            name={field.id}
-                                            value={formData[field.id] || ''}
-                                            onChange={handleInputChange}
-                                            className="w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white sm:text-sm focus:ring-primary focus:border-primary"
-                                         />
-                                     )}
-                                 </div>
+                                 <DynamicFormField
+                                    key={field.id}
+                                    field={{ ...field, required: false }}
+                                    value={formData[field.id]}
+                                    onChange={handleInputChange}
+                                    onUpload={file => uploadRegistrationFile(eventId, field, file)}
+                                 />
                              ))}
                          </div>
                     ) : (
@@ -234,16 +238,38 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
                                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Role</dt>
                                 <dd className="mt-1 text-gray-900 dark:text-white">{delegate.role || '-'}</dd>
                             </div>
-                            {config.formFields.filter(f => f.enabled && delegate[f.id]).map(field => (
+                            {config.formFields.filter(f => f.enabled && answerValues(delegate[f.id]).length > 0).map(field => (
                                 <div key={field.id}>
                                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">{field.label}</dt>
-                                    <dd className="mt-1 text-gray-900 dark:text-white whitespace-pre-wrap">{delegate[field.id]}</dd>
+                                    <dd className="mt-1 text-gray-900 dark:text-white whitespace-pre-wrap">
+                                        {field.type === 'file'
+                                            ? <a href={delegate[field.id]} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">View file</a>
+                                            : formatAnswer(delegate[field.id])}
+                                    </dd>
                                 </div>
                             ))}
                         </dl>
                     )}
                 </div>
 
+                <div className="p-6 border-t dark:border-gray-700">
+                    <h3 className="text-lg font-semibold mb-4">Ticket History</h3>
+                    {delegate.transferredTo && (
+                        <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">This ticket was transferred to another delegate and no longer admits this person.</p>
+                    )}
+                    {delegate.pendingTransfer && delegate.pendingTransfer.expiresAt >= Date.now() && (
+                        <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+                            Offered to {delegate.pendingTransfer.toName || delegate.pendingTransfer.toEmail} ({delegate.pendingTransfer.toEmail}) until {new Date(delegate.pendingTransfer.expiresAt).toLocaleString()}.
+                        </p>
+                    )}
+                    <TicketHistory history={delegate.transferHistory || []} />
+                </div>
+
+                <div className="p-6 border-t dark:border-gray-700">
+                    <h3 className="text-lg font-semibold mb-4">Payments and Refunds</h3>
+                    <OrderRefundsPanel adminToken={adminToken} registrationId={delegate.id!} />
+                </div>
+
                 <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex flex-col sm:flex-row items-center justify-end gap-4 border-t dark:border-gray-700">
                     {sendStatus && <Alert type={sendStatus.type} message={sendStatus.message} />}
                     
@@ -264,6 +290,22 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
                             </button>
                         </>
                     ) : (
+                        <>
+                        {formData.ticketRevokedAt ? (
+                            <button
+                                onClick={() => handleTicketAction('reissue')}
+                                className="w-full sm:w-auto py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+                            >
+                                Issue New Ticket
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => handleTicketAction('revoke')}
+                                className="w-full sm:w-auto py-2 px-4 border border-red-300 dark:border-red-800 rounded-md text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            >
+                                Revoke Ticket
+                            </button>
+                        )}
                         <button
                             onClick={handleSendUpdateEmail}
                             disabled={isSending}
@@ -271,6 +313,7 @@ export const DelegateDetailView: React.FC<DelegateDetailViewProps> = ({ delegate
                         >
                             {isSending ? <><Spinner /> Sending...</> : 'Send Update Email'}
                         </button>
+                        </>
                     )}
                 </div>
             </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { requestDelegatePasswordReset } from '../server/api';
+import { requestDelegatePasswordReset, requestMagicLink } from '../server/api';
 import { Spinner } from './Spinner';
 
 interface DelegateLoginModalProps {
@@ -7,14 +7,15 @@ interface DelegateLoginModalProps {
   onClose: () => void;
   onLogin: (email: string, password_input: string) => Promise<boolean>;
   eventId: string;
+  notice?: string;
 }
 
-export const DelegateLoginModal: React.FC<DelegateLoginModalProps> = ({ isOpen, onClose, onLogin, eventId }) => {
+export const DelegateLoginModal: React.FC<DelegateLoginModalProps> = ({ isOpen, onClose, onLogin, eventId, notice }) => {
   const [userEmail, setUserEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [view, setView] = useState<'login' | 'forgot' | 'forgot_sent'>('login');
+  const [view, setView] = useState<'login' | 'forgot' | 'forgot_sent' | 'magic' | 'magic_sent'>('login');
 
   if (!isOpen) {
     return null;
@@ -51,6 +52,20 @@ export const DelegateLoginModal: React.FC<DelegateLoginModalProps> = ({ isOpen,
     }
   };
 
+  const handleRequestMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+        await requestMagicLink(eventId, userEmail);
+        setView('magic_sent');
+    } catch (err) {
+        setError('An error occurred. Please try again.');
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+
   const handleClose = () => {
       setUserEmail('');
       setPassword('');
@@ -60,6 +75,74 @@ export const DelegateLoginModal: React.FC<DelegateLoginModalProps> = ({ isOpen,
   };
 
   const renderContent = () => {
+    if (view === 'magic_sent') {
+      return (
+        <div className="text-center">
+          <h2 id="delegate-login-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+            Check Your Email
+          </h2>
+          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+            If <strong className="text-gray-800 dark:text-gray-200">{userEmail}</strong> is registered for this event, we've sent a sign-in link. It can be used once and expires in 15 minutes.
+          </p>
+          <button
+            type="button"
+            onClick={handleClose}
+            className="mt-6 w-full flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-500 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none"
+          >
+            Close
+          </button>
+        </div>
+      );
+    }
+
+    if (view === 'magic') {
+      return (
+        <>
+          <div className="text-center">
+            <h2 id="delegate-login-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              Email Me a Sign-in Link
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              No password needed. We'll send a one-time link to your inbox.
+            </p>
+          </div>
+          <form onSubmit={handleRequestMagicLink} className="mt-8 space-y-4">
+            <div>
+              <label htmlFor="delegate-email-magic" className="sr-only">Email</label>
+              <input
+                id="delegate-email-magic"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={userEmail}
+                onChange={(e) => setUserEmail(e.target.value)}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-primary focus:border-primary sm:text-sm"
+                placeholder="Email"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400 text-center" role="alert">{error}</p>}
+            <div className="flex flex-col gap-3 pt-2">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-primary/70"
+              >
+                {isSubmitting ? <><Spinner /> Sending Link...</> : 'Send Sign-in Link'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setView('login')}
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-500 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none"
+              >
+                Back to Login
+              </button>
+            </div>
+          </form>
+        </>
+      );
+    }
+
     if (view === 'forgot_sent') {
       return (
         <div className="text-center">
@@ -161,12 +244,16 @@ export const DelegateLoginModal: React.FC<DelegateLoginModalProps> = ({ isOpen,
             </div>
           </div>
 
-          <div className="text-sm text-center">
+          <div className="text-sm flex justify-between">
+             <button type="button" onClick={() => setView('magic')} className="font-medium text-primary hover:text-primary/80">
+                Email me a sign-in link
+             </button>
              <button type="button" onClick={() => setView('forgot')} className="font-medium text-primary hover:text-primary/80">
                 Forgot your password?
              </button>
           </div>
 
+          {notice && !error && <p className="text-sm text-amber-600 dark:text-amber-400 text-center" role="alert">{notice}</p>}
           {error && <p className="text-sm text-red-600 dark:text-red-400 text-center" role="alert">{error}</p>}
 
           <div className="flex gap-4 pt-2">
@@ -13,13 +13,18 @@ import { ChatView } from './ChatView';
 import { VenueMapView } from './VenueMapView';
 import { NotificationBell } from './NotificationBell';
 import { VirtualConcierge } from './VirtualConcierge';
+import { WaitlistStatusCard } from './WaitlistStatusCard';
+import { TicketTransferView } from './TicketTransferView';
+import { InvoicesView } from './InvoicesView';
 import { useTheme } from '../contexts/ThemeContext';
 import { getPublicEventData, getMyAgenda } from '../server/api';
 import { Session, Speaker, Sponsor } from '../types';
 
 interface DelegatePortalProps {
     onLogout: () => void;
+    onSignOutEverywhere?: () => void;
     delegateToken: string;
+    eventId: string;
 }
 
 const PortalTab: React.FC<{ label: string, isActive: boolean, onClick: () => void, icon?: React.ReactNode }> = ({ label, isActive, onClick, icon }) => (
@@ -32,7 +37,7 @@ const PortalTab: React.FC<{ label: string, isActive: boolean, onClick: () => voi
     </button>
 );
 
-export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delegateToken }) => {
+export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, onSignOutEverywhere, delegateToken, eventId }) => {
     const [activeTab, setActiveTab] = useState('eventPass');
     const { config } = useTheme();
     const [isConciergeOpen, setIsConciergeOpen] = useState(false);
@@ -47,7 +52,7 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
     useEffect(() => {
         // Load basic event data and my agenda
         const loadData = async () => {
-            const eventData = await getPublicEventData('main-event'); // assuming main event for now
+            const eventData = await getPublicEventData(eventId);
             setSessions(eventData.sessions);
             setSpeakers(eventData.speakers);
             setSponsors(eventData.sponsors);
@@ -56,7 +61,7 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
             setMySessionIds(myAgenda);
         };
         loadData();
-    }, [delegateToken]);
+    }, [delegateToken, eventId]);
 
     const handleToggleSession = (sessionId: string, isAdded: boolean) => {
         setMySessionIds(prev => isAdded ? [...prev, sessionId] : prev.filter(id => id !== sessionId));
@@ -71,7 +76,9 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
         switch(activeTab) {
             case 'profile': return <ProfileView user={mockUser} delegateToken={delegateToken} onProfileUpdate={() => {}} />;
             case 'eventPass': return <EventPassView user={mockUser} />;
+            case 'transfer': return <TicketTransferView delegateToken={delegateToken} />;
             case 'wallet': return <WalletView delegateToken={delegateToken} />;
+            case 'invoices': return <InvoicesView delegateToken={delegateToken} />;
             case 'agenda': return <AgendaView sessions={sessions} speakers={speakers} mySessionIds={mySessionIds} delegateToken={delegateToken} onToggleSession={handleToggleSession} />;
             case 'directory': return <DirectoryView speakers={speakers} sponsors={sponsors} />;
             case 'dining': return <DiningView mealPlanAssignment={null} restaurants={[]} mealPlans={[]} delegateToken={delegateToken} onUpdate={() => {}} />;
@@ -102,6 +109,7 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
                 </div>
                 <nav className="flex-1 overflow-y-auto py-4">
                     <PortalTab label="My Event Pass" isActive={activeTab === 'eventPass'} onClick={() => setActiveTab('eventPass')} />
+                    <PortalTab label="Transfer Ticket" isActive={activeTab === 'transfer'} onClick={() => setActiveTab('transfer')} />
                     <PortalTab label="Agenda" isActive={activeTab === 'agenda'} onClick={() => setActiveTab('agenda')} />
                     <PortalTab label="Venue Map" isActive={activeTab === 'map'} onClick={() => setActiveTab('map')} />
                     <PortalTab label="Directory" isActive={activeTab === 'directory'} onClick={() => setActiveTab('directory')} />
@@ -111,12 +119,14 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
                     <PortalTab label="Scavenger Hunt" isActive={activeTab === 'gamification'} onClick={() => setActiveTab('gamification')} />
                     <div className="my-2 border-t border-gray-200 dark:border-gray-700"></div>
                     <PortalTab label="My Wallet" isActive={activeTab === 'wallet'} onClick={() => setActiveTab('wallet')} />
+                    <PortalTab label="Invoices" isActive={activeTab === 'invoices'} onClick={() => setActiveTab('invoices')} />
                     <PortalTab label="Dining" isActive={activeTab === 'dining'} onClick={() => setActiveTab('dining')} />
                     <PortalTab label="Accommodation" isActive={activeTab === 'accommodation'} onClick={() => setActiveTab('accommodation')} />
                     <PortalTab label="Profile" isActive={activeTab === 'profile'} onClick={() => setActiveTab('profile')} />
                 </nav>
                 <div className="p-4 border-t border-gray-200 dark:border-gray-700">
                     <button onClick={onLogout} className="w-full py-2 px-4 border border-gray-300 dark:border-gray-600 rounded text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">Logout</button>
+                    {onSignOutEverywhere && <button onClick={onSignOutEverywhere} className="mt-2 w-full text-xs text-gray-500 hover:text-red-600 dark:hover:text-red-400">Sign out of all devices</button>}
                 </div>
             </aside>
 
@@ -139,6 +149,7 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
                         </div>
                         <nav className="flex-1 overflow-y-auto py-4">
                             <PortalTab label="My Event Pass" isActive={activeTab === 'eventPass'} onClick={() => handleMobileTabClick('eventPass')} />
+                            <PortalTab label="Transfer Ticket" isActive={activeTab === 'transfer'} onClick={() => handleMobileTabClick('transfer')} />
                             <PortalTab label="Agenda" isActive={activeTab === 'agenda'} onClick={() => handleMobileTabClick('agenda')} />
                             <PortalTab label="Venue Map" isActive={activeTab === 'map'} onClick={() => handleMobileTabClick('map')} />
                             <PortalTab label="Directory" isActive={activeTab === 'directory'} onClick={() => handleMobileTabClick('directory')} />
@@ -148,12 +159,14 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
                             <PortalTab label="Scavenger Hunt" isActive={activeTab === 'gamification'} onClick={() => handleMobileTabClick('gamification')} />
                             <div className="my-2 border-t border-gray-200 dark:border-gray-700"></div>
                             <PortalTab label="My Wallet" isActive={activeTab === 'wallet'} onClick={() => handleMobileTabClick('wallet')} />
+                            <PortalTab label="Invoices" isActive={activeTab === 'invoices'} onClick={() => handleMobileTabClick('invoices')} />
                             <PortalTab label="Dining" isActive={activeTab === 'dining'} onClick={() => handleMobileTabClick('dining')} />
                             <PortalTab label="Accommodation" isActive={activeTab === 'accommodation'} onClick={() => handleMobileTabClick('accommodation')} />
                             <PortalTab label="Profile" isActive={activeTab === 'profile'} onClick={() => handleMobileTabClick('profile')} />
                         </nav>
                         <div className="p-4 border-t border-gray-200 dark:border-gray-700">
                             <button onClick={onLogout} className="w-full py-2 px-4 border border-gray-300 dark:border-gray-600 rounded text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">Logout</button>
+                            {onSignOutEverywhere && <button onClick={onSignOutEverywhere} className="mt-2 w-full text-xs text-gray-500 hover:text-red-600 dark:hover:text-red-400">Sign out of all devices</button>}
                         </div>
                     </div>
                 </div>
@@ -165,6 +178,7 @@ export const DelegatePortal: React.FC<DelegatePortalProps> = ({ onLogout, delega
                     <div className="flex justify-end mb-6 hidden md:flex">
                         <NotificationBell delegateToken={delegateToken} />
                     </div>
+                    <WaitlistStatusCard delegateToken={delegateToken} />
                     {renderTabContent()}
                 </div>
             </main>
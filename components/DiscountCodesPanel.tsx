@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { type DiscountCode, type TicketTier } from '../types';
+import { getDiscountCodes, saveDiscountCode, deleteDiscountCode } from '../server/api';
+import { type DiscountUsage } from '../server/discounts';
+import { Alert } from './Alert';
+
+interface DiscountCodesPanelProps {
+  adminToken: string;
+  tiers: TicketTier[];
+}
+
+// `datetime-local` inputs work in local time; codes store Unix milliseconds.
+const toLocalInput = (ms?: number) => ms === undefined ? '' : new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+const fromLocalInput = (value: string) => value ? new Date(value).getTime() : undefined;
+
+const describeCode = (code: DiscountCode, tiers: TicketTier[]) => {
+    const off = code.kind === 'percentage' ? `${code.amount}% off` : `${code.amount} off each seat`;
+    const names = (code.ticketTierIds || []).map(id => tiers.find(t => t.id === id)?.name).filter(Boolean);
+    return [
+        off,
+        names.length > 0 ? names.join(', ') : 'all tickets',
+        code.minSeats ? `${code.minSeats}+ seats` : '',
+        code.endsAt ? `until ${new Date(code.endsAt).toLocaleDateString()}` : ''
+    ].filter(Boolean).join(' · ');
+};
+
+/** Promo codes of the event, and what each has brought in. */
+export const DiscountCodesPanel: React.FC<DiscountCodesPanelProps> = ({ adminToken, tiers }) => {
+    const [codes, setCodes] = useState<DiscountCode[]>([]);
+    const [usage, setUsage] = useState<DiscountUsage[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [editing, setEditing] = useState<Partial<DiscountCode> | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const fetchData = async () => {
+        try {
+            const data = await getDiscountCodes(adminToken);
+            setCodes(data.codes);
+            setUsage(data.usage);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load discount codes.');
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, [adminToken]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        try {
+            await saveDiscountCode(adminToken, editing);
+            setEditing(null);
+            fetchData();
+        } catch (err) {
+            setFormError(err instanceof Error ? err.message : 'Failed to save the discount code.');
+        }
+    };
+
+    const handleDelete = async (code: DiscountCode) => {
+        if (!window.confirm(`Delete the code ${code.code}? Orders that used it keep their discount.`)) return;
+        try {
+            await deleteDiscountCode(adminToken, code.id);
+            fetchData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete the discount code.');
+        }
+    };
+
+    const openEditor = (code?: DiscountCode) => {
+        setFormError(null);
+        setEditing(code ? { ...code } : { code: '', kind: 'percentage', amount: 10, ticketTierIds: [], active: true });
+    };
+
+    const toggleTier = (tierId: string) => {
+        const ids = editing?.ticketTierIds || [];
+        setEditing({ ...editing, ticketTierIds: ids.includes(tierId) ? ids.filter(id => id !== tierId) : [...ids, tierId] });
+    };
+
+    return (
+        <div className="mt-10">
+            <div className="flex justify-between items-center mb-4">
+                <div>
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white">Discount Codes</h3>
+                    <p className="mt-1 text-sm text-gray-500">Promo, partner and comp codes redeemed at checkout.</p>
+                </div>
+                <button onClick={() => openEditor()} className="px-4 py-2 bg-primary text-white rounded-md shadow-sm hover:bg-primary/90">
+                    + Add Code
+                </button>
+            </div>
+
+            {error && <Alert type="error" message={error} />}
+
+            {codes.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No discount codes yet.</p>
+            ) : (
+                <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs font-medium text-gray-500 uppercase">
+                            <tr>
+                                <th className="px-4 py-3">Code</th>
+                                <th className="px-4 py-3">Uses</th>
+                                <th className="px-4 py-3">Seats</th>
+                                <th className="px-4 py-3">Discounted</th>
+                                <th className="px-4 py-3">Revenue</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {codes.map(code => {
+                                const used = usage.find(u => u.codeId === code.id);
+                                return (
+                                    <tr key={code.id}>
+                                        <td className="px-4 py-3">
+                                            <p className="font-mono font-bold text-gray-900 dark:text-white">
+                                                {code.code}
+                                                {!code.active && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-sans bg-gray-100 text-gray-600">Paused</span>}
+                                            </p>
+                                            <p className="text-xs text-gray-500">{describeCode(code, tiers)}</p>
+                                        </td>
+                                        <td className="px-4 py-3">{used?.uses || 0}{code.maxUses ? ` / ${code.maxUses}` : ''}</td>
+                                        <td className="px-4 py-3">{used?.seats || 0}</td>
+                                        <td className="px-4 py-3">{(used?.discounted || 0).toFixed(2)}</td>
+                                        <td className="px-4 py-3">{(used?.revenue || 0).toFixed(2)}</td>
+                                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                                            <button onClick={() => openEditor(code)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600">Edit</button>
+                                            <button onClick={() => handleDelete(code)} className="ml-2 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded">Delete</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setEditing(null)}>
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-xl font-bold mb-4">{editing.id ? 'Edit Code' : 'New Discount Code'}</h3>
+                        {formError && <Alert type="error" message={formError} />}
+                        <form onSubmit={handleSave} className="space-y-4">
+                            <input
+                                type="text"
+                                placeholder="Code (e.g. EARLYBIRD)"
+                                className="w-full p-2 border rounded font-mono uppercase dark:bg-gray-700 dark:border-gray-600"
+                                value={editing.code || ''}
+                                onChange={e => setEditing({ ...editing, code: e.target.value })}
+                                required
+                            />
+                            <input
+                                type="text"
+                                placeholder="Description (e.g. Speaker comp)"
+                                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                value={editing.description || ''}
+                                onChange={e => setEditing({ ...editing, description: e.target.value })}
+                            />
+                            <div className="grid grid-cols-2 gap-4">
+                                <select
+                                    className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                    value={editing.kind}
+                                    onChange={e => setEditing({ ...editing, kind: e.target.value as DiscountCode['kind'] })}
+                                >
+                                    <option value="percentage">Percent off</option>
+                                    <option value="fixed">Amount off each seat</option>
+                                </select>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    aria-label="Discount"
+                                    className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                    value={editing.amount ?? ''}
+                                    onChange={e => setEditing({ ...editing, amount: parseFloat(e.target.value) })}
+                                    required
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <label className="block text-sm">
+                                    <span className="font-medium">Max uses</span>
+                                    <input type="number" min={0} placeholder="Unlimited" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                        value={editing.maxUses ?? ''} onChange={e => setEditing({ ...editing, maxUses: e.target.value ? parseInt(e.target.value) : undefined })} />
+                                </label>
+                                <label className="block text-sm">
+                                    <span className="font-medium">Min seats</span>
+                                    <input type="number" min={0} placeholder="Any" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                        value={editing.minSeats ?? ''} onChange={e => setEditing({ ...editing, minSeats: e.target.value ? parseInt(e.target.value) : undefined })} />
+                                </label>
+                                <label className="block text-sm">
+                                    <span className="font-medium">Valid from</span>
+                                    <input type="datetime-local" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                        value={toLocalInput(editing.startsAt)} onChange={e => setEditing({ ...editing, startsAt: fromLocalInput(e.target.value) })} />
+                                </label>
+                                <label className="block text-sm">
+                                    <span className="font-medium">Valid until</span>
+                                    <input type="datetime-local" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                        value={toLocalInput(editing.endsAt)} onChange={e => setEditing({ ...editing, endsAt: fromLocalInput(e.target.value) })} />
+                                </label>
+                            </div>
+                            <fieldset>
+                                <legend className="block text-sm font-medium mb-1">Applies to (all tickets when none are ticked)</legend>
+                                {tiers.map(tier => (
+                                    <label key={tier.id} className="flex items-center gap-2 text-sm">
+                                        <input type="checkbox" checked={(editing.ticketTierIds || []).includes(tier.id)} onChange={() => toggleTier(tier.id)} />
+                                        {tier.name}
+                                    </label>
+                                ))}
+                            </fieldset>
+                            <div className="flex items-center gap-2">
+                                <input type="checkbox" id="code-active" checked={editing.active !== false} onChange={e => setEditing({ ...editing, active: e.target.checked })} />
+                                <label htmlFor="code-active">Can be redeemed</label>
+                            </div>
+                            <div className="flex justify-end gap-2 pt-4">
+                                <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 border rounded">Cancel</button>
+                                <button type="submit" className="px-4 py-2 bg-primary text-white rounded">Save</button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,62 +1,104 @@
 
-import React from 'react';
-import { type FormField } from '../types';
+import React, { useState } from 'react';
+import { type FormAnswer, type FormField } from '../types';
+import { answerValues } from '../server/formFields';
 import { TextInput } from './TextInput';
+import { Spinner } from './Spinner';
 
 interface DynamicFormFieldProps {
   field: FormField;
-  value: string;
+  value: FormAnswer | undefined;
   onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
   onBlur?: (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
   error?: string;
+  /** Stores a chosen file and resolves to the URL saved as the answer. Without it, file fields are read-only. */
+  onUpload?: (file: File) => Promise<string>;
 }
 
-export const DynamicFormField: React.FC<DynamicFormFieldProps> = ({ field, value, onChange, onBlur, error }) => {
+const INPUT_TYPES: Partial<Record<FormField['type'], string>> = { email: 'email', phone: 'tel', number: 'number', date: 'date' };
+
+const inputClasses = (error?: string) =>
+  `appearance-none block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition ${error ? 'border-red-500 dark:border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-primary focus:border-primary'}`;
+
+const FieldLabel: React.FC<{ field: FormField; htmlFor?: string }> = ({ field, htmlFor }) => (
+  <label htmlFor={htmlFor} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+    {field.label}
+    {field.required && <span aria-hidden="true" className="text-red-500 ml-1">*</span>}
+  </label>
+);
+
+const FieldNotes: React.FC<{ field: FormField; error?: string }> = ({ field, error }) => (
+  <>
+    {field.description && field.type !== 'consent' && (
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{field.description}</p>
+    )}
+    {error && (
+      <p id={`${field.id}-error`} className="mt-2 text-sm text-red-600 dark:text-red-400 animate-fade-in-down">
+        {error}
+      </p>
+    )}
+  </>
+);
+
+export const DynamicFormField: React.FC<DynamicFormFieldProps> = ({ field, value, onChange, onBlur, error, onUpload }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  // Checkbox, multi-select and file answers are not plain strings, so they are
+  // passed on as a synthetic event carrying the answer, as the ticket picker does.
+  const emit = (answer: FormAnswer) =>
+    onChange({ target: { name: field.id, value: answer } } as unknown as React.ChangeEvent<HTMLInputElement>);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !onUpload) return;
+    setIsUploading(true);
+    setUploadError('');
+    try {
+      emit(await onUpload(file));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Upload failed.');
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
+    }
+  };
+
   switch (field.type) {
     case 'textarea':
       return (
         <div>
-          <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            {field.label}
-            {field.required && <span aria-hidden="true" className="text-red-500 ml-1">*</span>}
-          </label>
+          <FieldLabel field={field} htmlFor={field.id} />
           <textarea
             id={field.id}
             name={field.id}
             rows={4}
-            value={value || ''}
+            value={typeof value === 'string' ? value : ''}
             onChange={onChange}
             onBlur={onBlur}
             placeholder={field.placeholder}
             required={field.required}
             aria-required={field.required}
-            className={`appearance-none block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition ${error ? 'border-red-500 dark:border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-primary focus:border-primary'}`}
+            className={inputClasses(error)}
             aria-invalid={!!error}
             aria-describedby={error ? `${field.id}-error` : undefined}
           />
-          {error && (
-            <p id={`${field.id}-error`} className="mt-2 text-sm text-red-600 dark:text-red-400 animate-fade-in-down">
-              {error}
-            </p>
-          )}
+          <FieldNotes field={field} error={error} />
         </div>
       );
     case 'dropdown':
       return (
         <div>
-          <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            {field.label}
-            {field.required && <span aria-hidden="true" className="text-red-500 ml-1">*</span>}
-          </label>
+          <FieldLabel field={field} htmlFor={field.id} />
           <select
             id={field.id}
             name={field.id}
-            value={value || ''}
+            value={typeof value === 'string' ? value : ''}
             onChange={onChange}
             onBlur={onBlur}
             required={field.required}
             aria-required={field.required}
-            className={`appearance-none block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition ${error ? 'border-red-500 dark:border-red-500 focus:ring-red-500 focus:border-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-primary focus:border-primary'}`}
+            className={inputClasses(error)}
             aria-invalid={!!error}
             aria-describedby={error ? `${field.id}-error` : undefined}
           >
@@ -65,26 +107,114 @@ export const DynamicFormField: React.FC<DynamicFormFieldProps> = ({ field, value
               <option key={option} value={option}>{option}</option>
             ))}
           </select>
-          {error && (
-            <p id={`${field.id}-error`} className="mt-2 text-sm text-red-600 dark:text-red-400 animate-fade-in-down">
-              {error}
+          <FieldNotes field={field} error={error} />
+        </div>
+      );
+    case 'multiselect': {
+      const selected = answerValues(value);
+      return (
+        <fieldset aria-invalid={!!error} aria-describedby={error ? `${field.id}-error` : undefined}>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {field.label}
+            {field.required && <span aria-hidden="true" className="text-red-500 ml-1">*</span>}
+          </legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {field.options?.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  name={field.id}
+                  checked={selected.includes(option)}
+                  onChange={() => emit(selected.includes(option) ? selected.filter(o => o !== option) : field.options!.filter(o => o === option || selected.includes(o)))}
+                  className="rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+          <FieldNotes field={field} error={error} />
+        </fieldset>
+      );
+    }
+    case 'checkbox':
+    case 'consent':
+      return (
+        <div>
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              id={field.id}
+              name={field.id}
+              checked={value === true}
+              onChange={e => emit(e.target.checked)}
+              required={field.required}
+              aria-required={field.required}
+              aria-invalid={!!error}
+              aria-describedby={error ? `${field.id}-error` : undefined}
+              className="mt-0.5 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <span>
+              <span className={field.type === 'consent' ? 'font-medium' : ''}>{field.label}</span>
+              {field.required && <span aria-hidden="true" className="text-red-500 ml-1">*</span>}
+              {field.type === 'consent' && field.description && (
+                <span className="block mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{field.description}</span>
+              )}
+            </span>
+          </label>
+          <FieldNotes field={field} error={error} />
+        </div>
+      );
+    case 'file': {
+      const url = typeof value === 'string' ? value : '';
+      return (
+        <div>
+          <FieldLabel field={field} htmlFor={field.id} />
+          <div className="flex items-center gap-3">
+            <input
+              type="file"
+              id={field.id}
+              name={field.id}
+              accept={field.accept}
+              onChange={handleFile}
+              disabled={!onUpload || isUploading}
+              aria-invalid={!!(error || uploadError)}
+              aria-describedby={error ? `${field.id}-error` : undefined}
+              className="block text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-primary/10 file:text-primary"
+            />
+            {isUploading && <Spinner />}
+          </div>
+          {url && !isUploading && (
+            <p className="mt-1 text-sm text-green-700 dark:text-green-400">
+              File uploaded. <a href={url} target="_blank" rel="noopener noreferrer" className="underline">View</a>
+              {' · '}
+              <button type="button" onClick={() => emit('')} className="underline">Remove</button>
             </p>
           )}
+          <FieldNotes field={field} error={uploadError || error} />
         </div>
       );
+    }
     case 'text':
+    case 'email':
+    case 'phone':
+    case 'number':
+    case 'date':
     default:
       return (
-        <TextInput
-          label={field.label}
-          name={field.id}
-          value={value || ''}
-          onChange={onChange as (e: React.ChangeEvent<HTMLInputElement>) => void}
-          onBlur={onBlur as (e: React.FocusEvent<HTMLInputElement>) => void}
-          placeholder={field.placeholder}
-          required={field.required}
-          error={error}
-        />
+        <div>
+          <TextInput
+            label={field.label}
+            name={field.id}
+            type={INPUT_TYPES[field.type] || 'text'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={onChange as (e: React.ChangeEvent<HTMLInputElement>) => void}
+            onBlur={onBlur as (e: React.FocusEvent<HTMLInputElement>) => void}
+            placeholder={field.placeholder}
+            required={field.required}
+            error={error}
+          />
+          <FieldNotes field={field} />
+        </div>
       );
   }
 };
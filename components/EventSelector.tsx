@@ -28,7 +28,7 @@ export const EventSelector: React.FC<EventSelectorProps> = ({ events, selectedEv
         <div className="relative" ref={wrapperRef}>
             <button
                 type="button"
-                className="flex items-center justify-between w-64 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600"
+                className="flex items-center justify-between w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600"
                 onClick={() => setIsOpen(!isOpen)}
             >
                 <span className="truncate">{selectedEvent ? selectedEvent.name : 'Select an Event'}</span>
@@ -38,7 +38,7 @@ export const EventSelector: React.FC<EventSelectorProps> = ({ events, selectedEv
             </button>
 
             {isOpen && (
-                <div className="absolute z-10 w-64 mt-2 origin-top-right bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 divide-y divide-gray-100 dark:divide-gray-600 rounded-md shadow-lg">
+                <div className="absolute z-10 w-full mt-2 origin-top-right bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 divide-y divide-gray-100 dark:divide-gray-600 rounded-md shadow-lg">
                     <div className="py-1 max-h-60 overflow-y-auto">
                         {events.map(event => (
                             <button
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { type ExportDefinition, type ExportFormat, type ExportSchedule, type FormField, type RegistrationData } from '../types';
+import { buildRegistrationExport, deleteExportDefinition, getExportDefinitions, saveExportDefinition, sendExportNow } from '../server/api';
+import { EXPORT_FORMATS, defaultExportColumns, exportColumns, type ExportFile } from '../server/registrationExport';
+import { Alert } from './Alert';
+import { Spinner } from './Spinner';
+
+interface ExportBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  adminToken: string;
+  formFields: FormField[];
+  /** Preselected status filter, e.g. the dashboard tab being viewed. */
+  initialStatus?: NonNullable<RegistrationData['status']>;
+}
+
+type RegistrationStatus = NonNullable<RegistrationData['status']>;
+
+const STATUSES: { id: RegistrationStatus; label: string }[] = [
+  { id: 'confirmed', label: 'Confirmed' },
+  { id: 'waitlist', label: 'Waitlist' },
+  { id: 'cancelled', label: 'Cancelled' }
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DEFAULT_SCHEDULE: ExportSchedule = { frequency: 'weekly', hour: 8, weekday: 1, recipients: [] };
+
+const blankDefinition = (formFields: FormField[], status?: RegistrationStatus): Partial<ExportDefinition> => ({
+  name: 'Registrations',
+  columns: defaultExportColumns(formFields),
+  statuses: status ? [status] : [],
+  checkedIn: 'any',
+  format: 'csv'
+});
+
+const downloadFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', file.fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const ExportBuilderModal: React.FC<ExportBuilderModalProps> = ({ isOpen, onClose, adminToken, formFields, initialStatus }) => {
+  const [saved, setSaved] = useState<ExportDefinition[]>([]);
+  const [draft, setDraft] = useState<Partial<ExportDefinition>>(() => blankDefinition(formFields, initialStatus));
+  const [recipientText, setRecipientText] = useState('');
+  const [busy, setBusy] = useState<'download' | 'save' | 'send' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const columns = useMemo(() => exportColumns(formFields), [formFields]);
+  const groups = useMemo(() => [...new Set(columns.map(c => c.group))], [columns]);
+
+  const fetchSaved = useCallback(async () => {
+    try {
+      setSaved(await getExportDefinitions(adminToken));
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load saved exports.' });
+    }
+  }, [adminToken]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(blankDefinition(formFields, initialStatus));
+    setRecipientText('');
+    setMessage(null);
+    fetchSaved();
+  }, [isOpen, fetchSaved, formFields, initialStatus]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ExportDefinition>) => setDraft(current => ({ ...current, ...changes }));
+  const updateSchedule = (changes: Partial<ExportSchedule>) => update({ schedule: { ...(draft.schedule || DEFAULT_SCHEDULE), ...changes } });
+
+  const selected = new Set(draft.columns || []);
+  const toggleColumn = (id: string) => update({
+    // Keep the order of the column list, so exports read the same every time.
+    columns: selected.has(id) ? draft.columns!.filter(c => c !== id) : columns.map(c => c.id).filter(c => c === id || selected.has(c))
+  });
+  const toggleGroup = (group: string, on: boolean) => {
+    const ids = columns.filter(c => c.group === group).map(c => c.id);
+    update({ columns: columns.map(c => c.id).filter(c => (ids.includes(c) ? on : selected.has(c))) });
+  };
+  const toggleStatus = (status: RegistrationStatus) => {
+    const statuses = draft.statuses || [];
+    update({ statuses: statuses.includes(status) ? statuses.filter(s => s !== status) : [...statuses, status] });
+  };
+
+  const withRecipients = (): Partial<ExportDefinition> => draft.schedule
+    ? { ...draft, schedule: { ...draft.schedule, recipients: recipientText.split(/[\s,;]+/).filter(Boolean) } }
+    : draft;
+
+  const run = async (action: 'download' | 'save' | 'send', task: () => Promise<string | void>) => {
+    setBusy(action);
+    setMessage(null);
+    try {
+      const text = await task();
+      if (text) setMessage({ type: 'success', text });
+    } catch (e) {
+      setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Something went wrong.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDownload = () => run('download', async () => downloadFile(await buildRegistrationExport(adminToken, draft)));
+
+  const handleSave = () => run('save', async () => {
+    const definition = await saveExportDefinition(adminToken, withRecipients());
+    setDraft(definition);
+    await fetchSaved();
+    return definition.nextRunAt
+      ? `Saved. Next delivery ${new Date(definition.nextRunAt).toLocaleString()}.`
+      : 'Saved.';
+  });
+
+  const handleSend = () => run('send', async () => (await sendExportNow(adminToken, draft.id!)).message);
+
+  const handleLoad = (definition: ExportDefinition) => {
+    setDraft(definition);
+    setRecipientText(definition.schedule?.recipients.join(', ') || '');
+    setMessage(null);
+  };
+
+  const handleDelete = async (definition: ExportDefinition) => {
+    if (!window.confirm(`Delete the saved export "${definition.name}"? Scheduled deliveries stop.`)) return;
+    await deleteExportDefinition(adminToken, definition.id);
+    if (draft.id === definition.id) setDraft(blankDefinition(formFields, initialStatus));
+    fetchSaved();
+  };
+
+  const inputClass = "rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm";
+  const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 overflow-y-auto flex-1">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Export Registrations</h2>
+          {message && <div className="mt-3"><Alert type={message.type} message={message.text} /></div>}
+
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="md:col-span-1">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">Saved Exports</h3>
+                <button type="button" onClick={() => handleLoad(blankDefinition(formFields, initialStatus) as ExportDefinition)} className="text-xs text-primary hover:underline">+ New</button>
+              </div>
+              {saved.length === 0 && <p className="text-sm text-gray-500 italic">None yet. Save an export to reuse or schedule it.</p>}
+              <ul className="space-y-2">
+                {saved.map(d => (
+                  <li key={d.id} className={`p-2 rounded border text-sm ${draft.id === d.id ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-gray-700'}`}>
+                    <button type="button" onClick={() => handleLoad(d)} className="w-full text-left">
+                      <div className="font-medium text-gray-900 dark:text-white">{d.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {EXPORT_FORMATS[d.format].label}
+                        {d.schedule ? ` · ${d.schedule.frequency === 'weekly' ? `${WEEKDAYS[d.schedule.weekday ?? 1]}s` : 'Daily'} at ${String(d.schedule.hour).padStart(2, '0')}:00 UTC` : ''}
+                      </div>
+                      {d.lastRunError && <div className="text-xs text-red-600 mt-1">Last delivery failed: {d.lastRunError}</div>}
+                    </button>
+                    <button type="button" onClick={() => handleDelete(d)} className="mt-1 text-xs text-red-600 hover:underline">Delete</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="md:col-span-3 space-y-5">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="sm:col-span-2">
+                  <label className={labelClass}>Name</label>
+                  <input type="text" value={draft.name || ''} onChange={e => update({ name: e.target.value })} className={`w-full ${inputClass}`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Format</label>
+                  <select value={draft.format} onChange={e => update({ format: e.target.value as ExportFormat })} className={`w-full ${inputClass}`}>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div>
+                  <span className={labelClass}>Status</span>
+                  <div className="flex gap-3">
+                    {STATUSES.map(s => (
+                      <label key={s.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={(draft.statuses || []).includes(s.id)} onChange={() => toggleStatus(s.id)} className="rounded border-gray-300" />
+                        {s.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">None ticked exports every status.</p>
+                </div>
+                <div>
+                  <label className={labelClass}>Checked In</label>
+                  <select value={draft.checkedIn || 'any'} onChange={e => update({ checkedIn: e.target.value as ExportDefinition['checkedIn'] })} className={inputClass}>
+                    <option value="any">Everyone</option>
+                    <option value="yes">Checked in</option>
+                    <option value="no">Not checked in</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <span className={labelClass}>Columns ({selected.size})</span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {groups.map(group => {
+                    const inGroup = columns.filter(c => c.group === group);
+                    const allOn = inGroup.every(c => selected.has(c.id));
+                    return (
+                      <div key={group} className="p-3 rounded border border-gray-200 dark:border-gray-700">
+                        <label className="flex items-center gap-2 text-sm font-semibold text-gray-800 dark:text-gray-200">
+                          <input type="checkbox" checked={allOn} onChange={() => toggleGroup(group, !allOn)} className="rounded border-gray-300" />
+                          {group}
+                        </label>
+                        <div className="mt-2 space-y-1">
+                          {inGroup.map(c => (
+                            <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                              <input type="checkbox" checked={selected.has(c.id)} onChange={() => toggleColumn(c.id)} className="rounded border-gray-300" />
+                              {c.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="p-4 rounded border border-gray-200 dark:border-gray-700">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-800 dark:text-gray-200">
+                  <input type="checkbox" checked={!!draft.schedule} onChange={e => update({ schedule: e.target.checked ? DEFAULT_SCHEDULE : undefined })} className="rounded border-gray-300" />
+                  Email this export on a schedule
+                </label>
+                {draft.schedule && (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <label className={labelClass}>Every</label>
+                      <select value={draft.schedule.frequency} onChange={e => updateSchedule({ frequency: e.target.value as ExportSchedule['frequency'] })} className={`w-full ${inputClass}`}>
+                        <option value="daily">Day</option>
+                        <option value="weekly">Week</option>
+                      </select>
+                    </div>
+                    {draft.schedule.frequency === 'weekly' && (
+                      <div>
+                        <label className={labelClass}>On</label>
+                        <select value={draft.schedule.weekday ?? 1} onChange={e => updateSchedule({ weekday: Number(e.target.value) })} className={`w-full ${inputClass}`}>
+                          {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                        </select>
+                      </div>
+                    )}
+                    <div>
+                      <label className={labelClass}>At (UTC)</label>
+                      <select value={draft.schedule.hour} onChange={e => updateSchedule({ hour: Number(e.target.value) })} className={`w-full ${inputClass}`}>
+                        {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, '0')}:00</option>)}
+                      </select>
+                    </div>
+                    <div className="sm:col-span-3">
+                      <label className={labelClass}>Recipients</label>
+                      <input
+                        type="text"
+                        value={recipientText}
+                        onChange={e => setRecipientText(e.target.value)}
+                        placeholder="finance@example.com, venue@example.com"
+                        className={`w-full ${inputClass}`}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+            Close
+          </button>
+          {draft.id && draft.schedule && (
+            <button type="button" onClick={handleSend} disabled={!!busy} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center disabled:opacity-50">
+              {busy === 'send' && <Spinner />}
+              Send Now
+            </button>
+          )}
+          <button type="button" onClick={handleSave} disabled={!!busy} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center disabled:opacity-50">
+            {busy === 'save' && <Spinner />}
+            {draft.id ? 'Save Changes' : 'Save Export'}
+          </button>
+          <button type="button" onClick={handleDownload} disabled={!!busy} className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 flex items-center disabled:opacity-50">
+            {busy === 'download' && <Spinner />}
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
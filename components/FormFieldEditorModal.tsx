@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
-import { type FormField } from '../types';
+import { type FormField, type FormFieldCondition, type FormFieldType, type TicketTier } from '../types';
+import { CHOICE_FIELD_TYPES, FORM_FIELD_TYPES, MAX_FORM_FILE_MB, PATTERN_FIELD_TYPES, TICKET_TIER_CONDITION, formFieldProblem } from '../server/formFields';
 import { Spinner } from './Spinner';
 import { ToggleSwitch } from './ToggleSwitch';
 import { Alert } from './Alert';
@@ -10,6 +11,9 @@ interface FormFieldEditorModalProps {
   onClose: () => void;
   onSave: (field: FormField) => void;
   field: FormField | null;
+  /** The fields above this one; show-if conditions can refer to these. */
+  earlierFields: FormField[];
+  ticketTiers: TicketTier[];
 }
 
 const InputField: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = (props) => (
@@ -19,7 +23,20 @@ const InputField: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label
     </div>
 );
 
-export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOpen, onClose, onSave, field }) => {
+const selectClass = "block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+/** What `min` and `max` mean for each type; types without limits are left out. */
+const LIMIT_LABELS: Partial<Record<FormFieldType, [string, string]>> = {
+  text: ['Minimum length', 'Maximum length'],
+  textarea: ['Minimum length', 'Maximum length'],
+  phone: ['Minimum length', 'Maximum length'],
+  email: ['Minimum length', 'Maximum length'],
+  number: ['Minimum value', 'Maximum value'],
+  date: ['Earliest date', 'Latest date'],
+  multiselect: ['Minimum choices', 'Maximum choices']
+};
+
+export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOpen, onClose, onSave, field, earlierFields, ticketTiers }) => {
   const [formData, setFormData] = useState<Partial<FormField>>({});
   const [optionsString, setOptionsString] = useState('');
   const [error, setError] = useState('');
@@ -45,6 +62,11 @@ export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOp
 
   if (!isOpen) return null;
 
+  const type = formData.type || 'text';
+  const hasOptions = CHOICE_FIELD_TYPES.includes(type);
+  const limitLabels = LIMIT_LABELS[type];
+  const conditions = formData.showIf || [];
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -54,44 +76,69 @@ export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOp
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleValidationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, validation: { ...prev.validation, [name]: value } }));
+  };
+
+  // The values a condition on `fieldId` can test: options, Yes for a ticked box, or tier ids.
+  const conditionChoices = (fieldId: string): { value: string; label: string }[] => {
+    if (fieldId === TICKET_TIER_CONDITION) return ticketTiers.map(t => ({ value: t.id, label: t.name }));
+    const source = earlierFields.find(f => f.id === fieldId);
+    if (source?.type === 'checkbox' || source?.type === 'consent') return [{ value: 'Yes', label: 'Ticked' }];
+    return (source?.options || []).map(o => ({ value: o, label: o }));
+  };
+
+  const setConditions = (next: FormFieldCondition[]) => setFormData(prev => ({ ...prev, showIf: next }));
+  const updateCondition = (index: number, changes: Partial<FormFieldCondition>) =>
+    setConditions(conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.label?.trim()) {
-      setError("Label is required.");
-      return;
-    }
 
-    const finalData = { ...formData };
+    const finalData = { ...formData, label: formData.label?.trim() } as FormField;
 
-    if (finalData.type === 'dropdown') {
-        const options = optionsString.split('\n').map(o => o.trim()).filter(o => o);
-        if (options.length === 0) {
-            setError('Dropdown options are required for the dropdown field type. Please enter at least one option per line.');
-            return;
-        }
-        finalData.options = options;
+    if (hasOptions) {
+        finalData.options = optionsString.split('\n').map(o => o.trim()).filter(o => o);
     } else {
-        delete finalData.options; // Clean up options if type is not dropdown
+        delete finalData.options; // Clean up options if the type has none
     }
-    
+    if (type !== 'file') delete finalData.accept;
+    // Keep only the rules this type uses, so a changed type leaves nothing stale behind.
+    const rules = Object.fromEntries(Object.entries({
+        pattern: PATTERN_FIELD_TYPES.includes(type) ? finalData.validation?.pattern : undefined,
+        patternMessage: PATTERN_FIELD_TYPES.includes(type) ? finalData.validation?.patternMessage : undefined,
+        min: limitLabels ? finalData.validation?.min : undefined,
+        max: limitLabels || type === 'file' ? finalData.validation?.max : undefined
+    }).filter(([, v]) => v?.trim()));
+    if (Object.keys(rules).length > 0) finalData.validation = rules;
+    else delete finalData.validation;
+    if (conditions.length === 0) delete finalData.showIf;
+
+    const problem = formFieldProblem(finalData, earlierFields);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
     setIsSaving(true);
     setError('');
-    
-    await onSave(finalData as FormField);
+
+    await onSave(finalData);
 
     setIsSaving(false);
     onClose();
   };
 
   return (
-    <div 
+    <div
       className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4"
       onClick={onClose}
       role="dialog"
       aria-modal="true"
       aria-labelledby="field-editor-title"
     >
-      <div 
+      <div
         className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg"
         onClick={(e) => e.stopPropagation()}
       >
@@ -102,25 +149,23 @@ export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOp
               Customize the information you collect from attendees.
             </p>
           </div>
-          
+
           <div className="p-6 space-y-4 border-t border-b border-gray-200 dark:border-gray-700 max-h-[60vh] overflow-y-auto">
             {error && <Alert type="error" message={error} />}
-            
+
             <InputField label="Field Label" id="label" type="text" name="label" value={formData.label || ''} onChange={handleInputChange} required placeholder="e.g., Dietary Restrictions" />
-            
+
             <div>
               <label htmlFor="type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Field Type</label>
-              <select id="type" name="type" value={formData.type} onChange={handleInputChange} className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-                <option value="text">Text (Single Line)</option>
-                <option value="textarea">Text Area (Multi-line)</option>
-                <option value="dropdown">Dropdown</option>
+              <select id="type" name="type" value={type} onChange={handleInputChange} className={`mt-1 ${selectClass}`}>
+                {(Object.keys(FORM_FIELD_TYPES) as FormFieldType[]).map(t => <option key={t} value={t}>{FORM_FIELD_TYPES[t]}</option>)}
               </select>
             </div>
-            
-            {formData.type === 'dropdown' && (
+
+            {hasOptions && (
                 <div>
                     <label htmlFor="options" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Dropdown Options
+                        Options
                         <span className="text-red-500 ml-1">*</span>
                     </label>
                     <textarea
@@ -132,18 +177,115 @@ export const FormFieldEditorModal: React.FC<FormFieldEditorModalProps> = ({ isOp
                         className="appearance-none block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600 focus:ring-primary focus:border-primary"
                         placeholder="Enter one option per line"
                     />
-                     <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Each line will be a separate option in the dropdown.</p>
+                     <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Each line will be a separate option.</p>
                 </div>
             )}
-            
-            <InputField label="Placeholder Text" id="placeholder" type="text" name="placeholder" value={formData.placeholder || ''} onChange={handleInputChange} placeholder={formData.type === 'dropdown' ? 'e.g., Select your t-shirt size...' : "e.g., Vegan, Gluten-Free, etc."} />
-            
+
+            {!['checkbox', 'consent', 'multiselect', 'file'].includes(type) && (
+                <InputField label="Placeholder Text" id="placeholder" type="text" name="placeholder" value={formData.placeholder || ''} onChange={handleInputChange} placeholder={type === 'dropdown' ? 'e.g., Select your t-shirt size...' : "e.g., Vegan, Gluten-Free, etc."} />
+            )}
+
+            <div>
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {type === 'consent' ? 'Consent Statement' : 'Help Text'}
+                </label>
+                <textarea
+                    id="description"
+                    name="description"
+                    rows={type === 'consent' ? 4 : 2}
+                    value={formData.description || ''}
+                    onChange={handleInputChange}
+                    className="appearance-none block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600 focus:ring-primary focus:border-primary"
+                    placeholder={type === 'consent' ? 'e.g., I agree that my details may be shared with event sponsors.' : 'Shown under the field.'}
+                />
+            </div>
+
+            {type === 'file' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <InputField label="Accepted Types" id="accept" type="text" name="accept" value={formData.accept || ''} onChange={handleInputChange} placeholder=".pdf,image/*" />
+                    <InputField label={`Maximum size (MB, up to ${MAX_FORM_FILE_MB})`} id="max" type="number" name="max" min={1} max={MAX_FORM_FILE_MB} value={formData.validation?.max || ''} onChange={handleValidationChange} />
+                </div>
+            )}
+
+            {limitLabels && (
+                <div className="grid grid-cols-2 gap-4">
+                    <InputField label={limitLabels[0]} id="min" type={type === 'date' ? 'date' : 'number'} name="min" value={formData.validation?.min || ''} onChange={handleValidationChange} />
+                    <InputField label={limitLabels[1]} id="max" type={type === 'date' ? 'date' : 'number'} name="max" value={formData.validation?.max || ''} onChange={handleValidationChange} />
+                </div>
+            )}
+
+            {PATTERN_FIELD_TYPES.includes(type) && (
+                <div className="grid grid-cols-1 gap-4">
+                    <InputField label="Pattern (regular expression)" id="pattern" type="text" name="pattern" value={formData.validation?.pattern || ''} onChange={handleValidationChange} placeholder="e.g., [A-Z]{2}\d{6}" />
+                    {formData.validation?.pattern && (
+                        <InputField label="Message when the pattern does not match" id="patternMessage" type="text" name="patternMessage" value={formData.validation?.patternMessage || ''} onChange={handleValidationChange} placeholder="e.g., Enter your membership number, like AB123456." />
+                    )}
+                </div>
+            )}
+
+            <div className="pt-2">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Show Only If</span>
+                    <button type="button" onClick={() => setConditions([...conditions, { fieldId: TICKET_TIER_CONDITION, operator: 'is', values: [] }])} className="text-sm text-primary hover:underline">+ Add Condition</button>
+                </div>
+                {conditions.length === 0 && <p className="text-xs text-gray-500 dark:text-gray-400">The field is always shown.</p>}
+                <div className="space-y-3">
+                    {conditions.map((condition, index) => {
+                        const choices = conditionChoices(condition.fieldId);
+                        return (
+                            <div key={index} className="p-3 rounded-md border border-gray-200 dark:border-gray-700 space-y-2">
+                                <div className="flex gap-2">
+                                    <select value={condition.fieldId} onChange={e => updateCondition(index, { fieldId: e.target.value, values: [] })} className={selectClass} aria-label="Condition field">
+                                        <option value={TICKET_TIER_CONDITION}>Ticket tier</option>
+                                        {earlierFields.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                                    </select>
+                                    <select value={condition.operator} onChange={e => updateCondition(index, { operator: e.target.value as FormFieldCondition['operator'] })} className={selectClass} aria-label="Condition test">
+                                        <option value="is">is one of</option>
+                                        <option value="isNot">is none of</option>
+                                        <option value="answered">is answered</option>
+                                    </select>
+                                    <button type="button" onClick={() => setConditions(conditions.filter((_, i) => i !== index))} className="text-sm text-red-600 hover:text-red-800" aria-label="Remove condition">&times;</button>
+                                </div>
+                                {condition.operator !== 'answered' && (
+                                    choices.length > 0 ? (
+                                        <div className="flex flex-wrap gap-3">
+                                            {choices.map(choice => (
+                                                <label key={choice.value} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={(condition.values || []).includes(choice.value)}
+                                                        onChange={e => updateCondition(index, {
+                                                            values: e.target.checked ? [...(condition.values || []), choice.value] : (condition.values || []).filter(v => v !== choice.value)
+                                                        })}
+                                                        className="rounded border-gray-300"
+                                                    />
+                                                    {choice.label}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            value={(condition.values || []).join(', ')}
+                                            onChange={e => updateCondition(index, { values: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                                            placeholder="Answers, separated by commas"
+                                            aria-label="Condition answers"
+                                            className={selectClass}
+                                        />
+                                    )
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
             <div className="pt-2 space-y-2">
                 <ToggleSwitch label="Field is enabled (visible on form)" name="enabled" enabled={!!formData.enabled} onChange={(val) => handleToggleChange('enabled', val)} />
-                <ToggleSwitch label="Field is required" name="required" enabled={!!formData.required} onChange={(val) => handleToggleChange('required', val)} />
+                <ToggleSwitch label={type === 'consent' ? 'Consent is required to register' : 'Field is required'} name="required" enabled={!!formData.required} onChange={(val) => handleToggleChange('required', val)} />
             </div>
           </div>
-          
+
           <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
             <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium">Cancel</button>
             <button type="submit" disabled={isSaving} className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 flex items-center disabled:opacity-50">
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { type OrderBilling, type TicketTier } from '../types';
+import { type GroupOrder } from '../server/api';
+import { MAX_GROUP_SEATS, priceGroupOrder, type GroupQuote } from '../server/groups';
+import { tierPrice } from '../server/discounts';
+import { TextInput } from './TextInput';
+import { BillingDetailsFields } from './BillingDetailsFields';
+import { Spinner } from './Spinner';
+
+interface GroupPurchaseFormProps {
+  ticketTiers: TicketTier[];
+  isLoading: boolean;
+  /** Called with the order, its price before any discount, the code entered and the invoice details; payment and booking are up to the page. */
+  onSubmit: (order: GroupOrder, quote: GroupQuote, discountCode?: string, billing?: OrderBilling) => void;
+  onCancel: () => void;
+}
+
+export const GroupPurchaseForm: React.FC<GroupPurchaseFormProps> = ({ ticketTiers, isLoading, onSubmit, onCancel }) => {
+    const [purchaser, setPurchaser] = useState({ purchaserName: '', purchaserEmail: '', company: '' });
+    const [quantities, setQuantities] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [discountCode, setDiscountCode] = useState('');
+    const [billing, setBilling] = useState<OrderBilling>({});
+
+    const tiers = ticketTiers.filter(t => t.active);
+    const items = tiers.map(t => ({ ticketTierId: t.id, quantity: Number(quantities[t.id] || 0) }));
+    const quote = priceGroupOrder(items, ticketTiers);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setPurchaser(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const newErrors: Record<string, string> = {};
+        if (!purchaser.purchaserName.trim()) newErrors.purchaserName = 'Your name is required.';
+        if (!/\S+@\S+\.\S+/.test(purchaser.purchaserEmail)) newErrors.purchaserEmail = 'Please enter a valid email address.';
+        if (typeof quote === 'string') newErrors.seats = quote;
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length > 0 || typeof quote === 'string') return;
+        const invoiceDetails = Object.values(billing).some(Boolean) ? { ...billing, company: purchaser.company } : undefined;
+        onSubmit({ ...purchaser, items: items.filter(item => item.quantity > 0) }, quote, discountCode.trim() || undefined, invoiceDetails);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Book Seats for a Group</h2>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Buy up to {MAX_GROUP_SEATS} seats in one payment. You will get a link to name your attendees; each of them claims their seat from an email we send them.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <TextInput label="Your Name" name="purchaserName" value={purchaser.purchaserName} onChange={handleChange} required error={errors.purchaserName} />
+                <TextInput label="Your Email" name="purchaserEmail" type="email" value={purchaser.purchaserEmail} onChange={handleChange} required error={errors.purchaserEmail} />
+                <TextInput label="Company" name="company" value={purchaser.company} onChange={handleChange} />
+            </div>
+
+            <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Seats</legend>
+                {tiers.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No tickets are on sale right now.</p>
+                ) : (
+                    <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                        {tiers.map(tier => (
+                            <div key={tier.id} className="flex items-center justify-between gap-4 p-3">
+                                <div>
+                                    <p className="font-medium text-gray-900 dark:text-white">{tier.name}</p>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">{tierPrice(tier) > 0 ? `${tierPrice(tier)} ${tier.currency}` : 'Free'} per seat</p>
+                                </div>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_GROUP_SEATS}
+                                    aria-label={`Seats of ${tier.name}`}
+                                    value={quantities[tier.id] || ''}
+                                    placeholder="0"
+                                    onChange={e => setQuantities(prev => ({ ...prev, [tier.id]: e.target.value }))}
+                                    className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {errors.seats && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.seats}</p>}
+            </fieldset>
+
+            {typeof quote !== 'string' && quote.total > 0 && (
+                <div className="sm:w-1/2">
+                    <TextInput label="Discount Code" name="discountCode" value={discountCode} onChange={e => setDiscountCode(e.target.value)} />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Taken off the total at checkout.</p>
+                </div>
+            )}
+
+            {typeof quote !== 'string' && quote.total > 0 && <BillingDetailsFields value={billing} onChange={setBilling} hideCompany />}
+
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-4 pt-2">
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {typeof quote === 'string' ? 'No seats chosen' : `${quote.seats} seat${quote.seats === 1 ? '' : 's'} · ${quote.total > 0 ? `${quote.total} ${quote.currency}` : 'Free'}`}
+                </p>
+                <div className="flex gap-3">
+                    <button type="button" onClick={onCancel} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+                        Back
+                    </button>
+                    <button type="submit" disabled={isLoading} className="inline-flex items-center py-2 px-6 border border-transparent rounded-md shadow-sm text-sm font-bold text-white bg-primary hover:bg-primary/90 disabled:opacity-50">
+                        {isLoading && <Spinner />}
+                        {typeof quote !== 'string' && quote.total > 0 ? 'Continue to Payment' : 'Book Seats'}
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { type GroupSeat, type RegistrationGroup, type TicketTier } from '../types';
+import { assignGroupSeat, getManagedGroup } from '../server/api';
+import { groupSeatCounts } from '../server/groups';
+import { Alert } from './Alert';
+import { Spinner } from './Spinner';
+
+interface GroupSeatsDashboardProps {
+  /** Token from the purchaser's emailed link. */
+  token: string;
+  ticketTiers: TicketTier[];
+}
+
+const STATUS_STYLES: Record<GroupSeat['status'], string> = {
+  open: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  invited: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  claimed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+};
+
+const inputClasses = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+/** The purchaser's view of a group order: who has each seat, and naming or renaming attendees for unclaimed ones. */
+export const GroupSeatsDashboard: React.FC<GroupSeatsDashboardProps> = ({ token, ticketTiers }) => {
+    const [group, setGroup] = useState<RegistrationGroup | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [drafts, setDrafts] = useState<Record<string, { name: string; email: string }>>({});
+    const [savingSeat, setSavingSeat] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getManagedGroup(token).then(result => {
+            if (cancelled) return;
+            setGroup(result);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [token]);
+
+    const draftFor = (seat: GroupSeat) => drafts[seat.id] || { name: seat.attendeeName || '', email: seat.attendeeEmail || '' };
+
+    const updateDraft = (seat: GroupSeat, field: 'name' | 'email', value: string) =>
+        setDrafts(prev => ({ ...prev, [seat.id]: { ...draftFor(seat), [field]: value } }));
+
+    const handleAssign = async (seat: GroupSeat, attendee: { name: string; email: string }) => {
+        setSavingSeat(seat.id);
+        setMessage(null);
+        try {
+            setGroup(await assignGroupSeat(token, seat.id, attendee));
+            setDrafts(prev => {
+                const { [seat.id]: _, ...rest } = prev;
+                return rest;
+            });
+            setMessage({ type: 'success', text: attendee.email ? `A link to claim the seat was sent to ${attendee.email}.` : 'The seat is free again.' });
+        } catch (e) {
+            setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to update the seat.' });
+        } finally {
+            setSavingSeat(null);
+        }
+    };
+
+    if (isLoading) return <div className="flex justify-center py-10"><Spinner /></div>;
+    if (!group) return <Alert type="error" message="This link is invalid or has expired. Please use the latest link we emailed you." />;
+
+    const counts = groupSeatCounts(group);
+    const tierName = (id?: string) => ticketTiers.find(t => t.id === id)?.name || 'General';
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your Group's Seats</h2>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Booked by {group.purchaserName}{group.company ? ` for ${group.company}` : ''}. {counts.claimed} of {counts.total} claimed, {counts.invited} invited, {counts.open} not yet assigned.
+                    Seats can be reassigned until the attendee claims them.
+                </p>
+            </div>
+            {message && <Alert type={message.type} message={message.text} />}
+
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {group.seats.map((seat, index) => {
+                    const draft = draftFor(seat);
+                    const isSaving = savingSeat === seat.id;
+                    return (
+                        <div key={seat.id} className="p-4 space-y-3">
+                            <div className="flex items-center justify-between">
+                                <p className="font-medium text-gray-900 dark:text-white">Seat {index + 1} · {tierName(seat.ticketTierId)}</p>
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${STATUS_STYLES[seat.status]}`}>{seat.status}</span>
+                            </div>
+                            {seat.status === 'claimed' ? (
+                                <p className="text-sm text-gray-600 dark:text-gray-400">
+                                    {seat.attendeeName || seat.attendeeEmail} ({seat.attendeeEmail}) registered on {new Date(seat.claimedAt || 0).toLocaleDateString()}.
+                                </p>
+                            ) : (
+                                <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-center">
+                                    <input aria-label={`Name for seat ${index + 1}`} placeholder="Attendee name" value={draft.name} onChange={e => updateDraft(seat, 'name', e.target.value)} className={inputClasses} />
+                                    <input aria-label={`Email for seat ${index + 1}`} type="email" placeholder="Attendee email" value={draft.email} onChange={e => updateDraft(seat, 'email', e.target.value)} className={inputClasses} />
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => handleAssign(seat, draft)}
+                                            disabled={isSaving || !draft.email.trim()}
+                                            className="inline-flex items-center px-4 py-2 bg-primary text-white rounded-md shadow-sm text-sm hover:bg-primary/90 disabled:opacity-50"
+                                        >
+                                            {isSaving && <Spinner />}
+                                            {seat.status === 'invited' ? 'Resend / Reassign' : 'Send Invite'}
+                                        </button>
+                                        {seat.status === 'invited' && (
+                                            <button
+                                                onClick={() => handleAssign(seat, { name: '', email: '' })}
+                                                disabled={isSaving}
+                                                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-200 disabled:opacity-50"
+                                            >
+                                                Release
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                            {seat.status === 'invited' && seat.invitedAt && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">Invited {new Date(seat.invitedAt).toLocaleString()}. Reassigning the seat cancels this invitation's link.</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
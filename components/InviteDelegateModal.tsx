@@ -9,9 +9,10 @@ interface InviteDelegateModalProps {
   onClose: () => void;
   onInviteSuccess: (email: string) => void;
   adminToken: string;
+  eventId: string;
 }
 
-export const InviteDelegateModal: React.FC<InviteDelegateModalProps> = ({ isOpen, onClose, onInviteSuccess, adminToken }) => {
+export const InviteDelegateModal: React.FC<InviteDelegateModalProps> = ({ isOpen, onClose, onInviteSuccess, adminToken, eventId }) => {
   const [email, setEmail] = useState('');
   const [name, setName] = useState('');
   const [isSending, setIsSending] = useState(false);
@@ -48,7 +49,7 @@ export const InviteDelegateModal: React.FC<InviteDelegateModalProps> = ({ isOpen
     setIsSending(true);
     setError(null);
     try {
-      await sendDelegateInvitation(adminToken, 'main-event', email);
+      await sendDelegateInvitation(adminToken, eventId, email, name.trim() || undefined);
       onInviteSuccess(email);
       handleClose();
     } catch (err) {
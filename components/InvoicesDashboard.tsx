@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { type ExportFormat, type Invoice } from '../types';
+import { getInvoices } from '../server/api';
+import { invoiceLedger } from '../server/invoices';
+import { EXPORT_FORMATS, renderExport } from '../server/registrationExport';
+import { useTheme } from '../contexts/ThemeContext';
+import { invoiceFileName, invoicePdf, type InvoiceDocumentKind } from '../utils/invoicePdf';
+import { Alert } from './Alert';
+import { ContentLoader } from './ContentLoader';
+
+interface InvoicesDashboardProps {
+  adminToken: string;
+}
+
+// `date` inputs give local days; a range includes the whole of its last day.
+const dayStart = (value: string) => value ? new Date(`${value}T00:00`).getTime() : -Infinity;
+const dayEnd = (value: string) => value ? new Date(`${value}T00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+
+/** The event's invoices, with exports of the ledger and the PDFs for accounting. */
+export const InvoicesDashboard: React.FC<InvoicesDashboardProps> = ({ adminToken }) => {
+    const { config } = useTheme();
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [range, setRange] = useState({ from: '', to: '' });
+    const [format, setFormat] = useState<ExportFormat>('csv');
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                setInvoices(await getInvoices(adminToken));
+            } catch (e) {
+                setError(e instanceof Error ? e.message : 'Failed to load the invoices.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        load();
+    }, [adminToken]);
+
+    const shown = invoices.filter(invoice => invoice.issuedAt >= dayStart(range.from) && invoice.issuedAt < dayEnd(range.to));
+    const totals = shown.reduce<Record<string, { net: number; tax: number; total: number }>>((sums, invoice) => {
+        const sum = sums[invoice.currency] || { net: 0, tax: 0, total: 0 };
+        sums[invoice.currency] = { net: sum.net + invoice.net, tax: sum.tax + invoice.tax, total: sum.total + invoice.total };
+        return sums;
+    }, {});
+    const color = config?.theme.colorPrimary || '#4f46e5';
+    const rangeName = [range.from, range.to].filter(Boolean).join('_to_');
+
+    const handleLedger = () => {
+        const file = renderExport(invoiceLedger(shown), format, `Invoices ${rangeName}`);
+        const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+        const link = document.createElement('a');
+        link.setAttribute('href', url);
+        link.setAttribute('download', file.fileName);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handlePdfs = (kind: InvoiceDocumentKind) =>
+        invoicePdf(shown, kind, color).save(`${kind === 'invoice' ? 'Invoices' : 'Receipts'}${rangeName ? `_${rangeName}` : ''}.pdf`);
+
+    if (isLoading) return <ContentLoader text="Loading invoices..." />;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Invoices</h2>
+                    <p className="mt-1 text-sm text-gray-500">Issued for every paid order. Seller details and tax rates are set under Settings → Registration.</p>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                    <label className="text-sm">
+                        <span className="block text-xs text-gray-500">Issued from</span>
+                        <input type="date" className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" value={range.from} onChange={e => setRange({ ...range, from: e.target.value })} />
+                    </label>
+                    <label className="text-sm">
+                        <span className="block text-xs text-gray-500">to</span>
+                        <input type="date" className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" value={range.to} onChange={e => setRange({ ...range, to: e.target.value })} />
+                    </label>
+                    <select aria-label="Ledger format" className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" value={format} onChange={e => setFormat(e.target.value as ExportFormat)}>
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>)}
+                    </select>
+                    <button onClick={handleLedger} disabled={shown.length === 0} className="px-4 py-2 bg-primary text-white rounded-md shadow-sm hover:bg-primary/90 disabled:opacity-50">Export Ledger</button>
+                    <button onClick={() => handlePdfs('invoice')} disabled={shown.length === 0} className="px-4 py-2 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600 disabled:opacity-50">Invoices PDF</button>
+                    <button onClick={() => handlePdfs('receipt')} disabled={shown.length === 0} className="px-4 py-2 border rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600 disabled:opacity-50">Receipts PDF</button>
+                </div>
+            </div>
+
+            {error && <Alert type="error" message={error} />}
+
+            {Object.keys(totals).length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    {Object.keys(totals).map(currency => (
+                        <div key={currency} className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
+                            <p className="text-xs font-medium text-gray-500 uppercase">{currency}</p>
+                            <p className="mt-1 text-lg font-bold text-gray-900 dark:text-white">{totals[currency].total.toFixed(2)}</p>
+                            <p className="text-gray-500">Net {totals[currency].net.toFixed(2)} · Tax {totals[currency].tax.toFixed(2)}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {shown.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No invoices {invoices.length > 0 ? 'in this period' : 'yet'}.</p>
+            ) : (
+                <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700/50 text-left text-xs font-medium text-gray-500 uppercase">
+                            <tr>
+                                <th className="px-4 py-3">Invoice</th>
+                                <th className="px-4 py-3">Buyer</th>
+                                <th className="px-4 py-3">Net</th>
+                                <th className="px-4 py-3">Tax</th>
+                                <th className="px-4 py-3">Total</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {shown.map(invoice => (
+                                <tr key={invoice.id}>
+                                    <td className="px-4 py-3">
+                                        <p className="font-mono font-bold text-gray-900 dark:text-white">{invoice.number}</p>
+                                        <p className="text-xs text-gray-500">{new Date(invoice.issuedAt).toLocaleDateString()}</p>
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <p className="text-gray-900 dark:text-white">{invoice.buyer.company || invoice.buyer.name}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {[invoice.buyer.email, invoice.buyer.vatId && `VAT ID ${invoice.buyer.vatId}`, invoice.reverseCharge && 'Reverse charge'].filter(Boolean).join(' · ')}
+                                        </p>
+                                    </td>
+                                    <td className="px-4 py-3">{invoice.net.toFixed(2)}</td>
+                                    <td className="px-4 py-3">{invoice.tax.toFixed(2)}</td>
+                                    <td className="px-4 py-3">{invoice.total.toFixed(2)} {invoice.currency}</td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                                        <button onClick={() => invoicePdf([invoice], 'invoice', color).save(invoiceFileName(invoice, 'invoice'))} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600">PDF</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import { type Invoice } from '../types';
+import { getDelegateInvoices } from '../server/api';
+import { useTheme } from '../contexts/ThemeContext';
+import { invoiceFileName, invoicePdf, type InvoiceDocumentKind } from '../utils/invoicePdf';
+import { Alert } from './Alert';
+import { Spinner } from './Spinner';
+
+interface InvoicesViewProps {
+  delegateToken: string;
+}
+
+/** The delegate's invoices, each downloadable as an invoice or as a receipt. */
+export const InvoicesView: React.FC<InvoicesViewProps> = ({ delegateToken }) => {
+    const { config } = useTheme();
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                setInvoices(await getDelegateInvoices(delegateToken));
+            } catch (e) {
+                setError(e instanceof Error ? e.message : 'Failed to load your invoices.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        load();
+    }, [delegateToken]);
+
+    const handleDownload = (invoice: Invoice, kind: InvoiceDocumentKind) => {
+        invoicePdf([invoice], kind, config?.theme.colorPrimary || '#4f46e5').save(invoiceFileName(invoice, kind));
+    };
+
+    if (isLoading) return <div className="flex justify-center py-10"><Spinner /></div>;
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Invoices &amp; Receipts</h2>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Every payment you make gets an invoice. Company and VAT details are taken from checkout.
+                </p>
+            </div>
+            {error && <Alert type="error" message={error} />}
+
+            {invoices.length === 0 && !error ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">You have not paid for anything yet.</p>
+            ) : (
+                <ul className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700">
+                    {invoices.map(invoice => (
+                        <li key={invoice.id} className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                            <div>
+                                <p className="font-semibold text-gray-900 dark:text-white">
+                                    {invoice.number}
+                                    <span className="ml-2 font-normal text-sm text-gray-500 dark:text-gray-400">{new Date(invoice.issuedAt).toLocaleDateString()}</span>
+                                </p>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">
+                                    {invoice.lines.map(line => `${line.quantity} × ${line.description}`).join(', ')} · {invoice.total.toFixed(2)} {invoice.currency}
+                                </p>
+                                {invoice.buyer.company && <p className="text-xs text-gray-500 dark:text-gray-400">{invoice.buyer.company}{invoice.buyer.vatId ? ` · VAT ID ${invoice.buyer.vatId}` : ''}</p>}
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={() => handleDownload(invoice, 'invoice')} className="px-3 py-1.5 text-sm bg-primary text-white rounded hover:bg-primary/90">Invoice PDF</button>
+                                <button onClick={() => handleDownload(invoice, 'receipt')} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600">Receipt PDF</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { type Kiosk, type KioskPrinterStatus } from '../types';
+import { getKiosks, provisionKiosk, renewKioskPairing, removeKiosk } from '../server/api';
+import { KIOSK_SYNC_INTERVAL, kioskHealth, type KioskHealth } from '../server/kiosks';
+import { ContentLoader } from './ContentLoader';
+import { Alert } from './Alert';
+import { QRCodeImage } from './QRCodeImage';
+
+interface KioskFleetDashboardProps {
+  adminToken: string;
+}
+
+const HEALTH_STYLES: Record<KioskHealth, { label: string; className: string }> = {
+  online: { label: 'Online', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  offline: { label: 'Offline', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  unpaired: { label: 'Not paired', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' }
+};
+
+const PRINTER_LABELS: Record<KioskPrinterStatus, string> = {
+  ready: 'Ready',
+  error: 'Error',
+  disabled: 'Auto-print off',
+  unknown: 'Not used yet'
+};
+
+const timeAgo = (timestamp?: number) => {
+  if (!timestamp) return 'Never';
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min ago`;
+  return new Date(timestamp).toLocaleString();
+};
+
+export const KioskFleetDashboard: React.FC<KioskFleetDashboardProps> = ({ adminToken }) => {
+    const [kiosks, setKiosks] = useState<Kiosk[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [newName, setNewName] = useState('');
+    const [pairing, setPairing] = useState<{ kiosk: Kiosk; pairingCode: string } | null>(null);
+
+    const fetchData = useCallback(async () => {
+        try {
+            setKiosks(await getKiosks(adminToken));
+            setError(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load kiosks.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [adminToken]);
+
+    // Kiosks report in on every sync, so the panel refreshes at the same pace.
+    useEffect(() => {
+        fetchData();
+        const interval = setInterval(fetchData, KIOSK_SYNC_INTERVAL);
+        return () => clearInterval(interval);
+    }, [fetchData]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setPairing(await provisionKiosk(adminToken, newName));
+            setNewName('');
+            fetchData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add kiosk.');
+        }
+    };
+
+    const handleRenew = async (kiosk: Kiosk) => {
+        if (kiosk.pairedAt && !window.confirm(`Create a new pairing code for ${kiosk.name}? The device paired now will stop working.`)) return;
+        try {
+            setPairing(await renewKioskPairing(adminToken, kiosk.id));
+            fetchData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create a pairing code.');
+        }
+    };
+
+    const handleRemove = async (kiosk: Kiosk) => {
+        if (!window.confirm(`Remove ${kiosk.name}? Scans it has not synced yet will be lost.`)) return;
+        await removeKiosk(adminToken, kiosk.id);
+        fetchData();
+    };
+
+    if (isLoading) return <ContentLoader text="Loading kiosks..." />;
+
+    const online = kiosks.filter(k => kioskHealth(k) === 'online').length;
+    const queued = kiosks.reduce((sum, k) => sum + (k.queueDepth || 0), 0);
+    const pairingUrl = pairing ? `${window.location.origin}/kiosk?pair=${encodeURIComponent(pairing.pairingCode)}` : '';
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Kiosk Fleet</h2>
+                    <p className="mt-1 text-sm text-gray-500">
+                        {online} of {kiosks.length} kiosks online &middot; {queued} scans waiting to sync
+                    </p>
+                </div>
+                <form onSubmit={handleAdd} className="flex gap-2">
+                    <input
+                        type="text"
+                        placeholder="Kiosk name (e.g. Hall A #1)"
+                        className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 text-sm"
+                        value={newName}
+                        onChange={e => setNewName(e.target.value)}
+                        required
+                    />
+                    <button type="submit" className="px-4 py-2 bg-primary text-white rounded-md shadow-sm hover:bg-primary/90">
+                        + Add Kiosk
+                    </button>
+                </form>
+            </div>
+
+            {error && <Alert type="error" message={error} />}
+
+            <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Kiosk</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Last Heartbeat</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Queue</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Printer</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Attendee List</th>
+                            <th className="px-4 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {kiosks.length === 0 && (
+                            <tr><td colSpan={7} className="px-4 py-6 text-center text-gray-500 italic">No kiosks yet. Add one to get a pairing code.</td></tr>
+                        )}
+                        {kiosks.map(kiosk => {
+                            const health = HEALTH_STYLES[kioskHealth(kiosk)];
+                            return (
+                                <tr key={kiosk.id}>
+                                    <td className="px-4 py-3">
+                                        <div className="font-medium text-gray-900 dark:text-white">{kiosk.name}</div>
+                                        {kiosk.pairingExpiresAt && (
+                                            <div className="text-xs text-gray-500">Pairing code expires {new Date(kiosk.pairingExpiresAt).toLocaleString()}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${health.className}`}>{health.label}</span>
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{timeAgo(kiosk.lastHeartbeatAt)}</td>
+                                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                                        {kiosk.queueDepth || 0}
+                                        {!!kiosk.offlineDuplicates && (
+                                            <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400" title="Delegates this kiosk admitted offline who had already checked in elsewhere">
+                                                {kiosk.offlineDuplicates} offline duplicate{kiosk.offlineDuplicates === 1 ? '' : 's'}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className={`px-4 py-3 ${kiosk.printerStatus === 'error' ? 'text-red-600 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                                        {PRINTER_LABELS[kiosk.printerStatus || 'unknown']}
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{timeAgo(kiosk.rosterAt)}</td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                                        <button onClick={() => handleRenew(kiosk)} className="px-3 py-1.5 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600">
+                                            {kiosk.pairedAt ? 'Re-pair' : 'New Code'}
+                                        </button>
+                                        <button onClick={() => handleRemove(kiosk)} className="ml-2 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded">Remove</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {pairing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setPairing(null)}>
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl w-full max-w-sm text-center" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white">Pair {pairing.kiosk.name}</h3>
+                        <p className="mt-2 text-sm text-gray-500">
+                            Open <span className="font-mono">/kiosk</span> on the device and enter this code, or scan the QR code with it. The code works once and expires in 24 hours.
+                        </p>
+                        <div className="mt-4 text-3xl font-mono font-bold tracking-widest text-gray-900 dark:text-white">{pairing.pairingCode}</div>
+                        <div className="mt-4 flex justify-center">
+                            <QRCodeImage value={pairingUrl} size={180} title="Kiosk pairing link" />
+                        </div>
+                        <button type="button" onClick={() => setPairing(null)} className="mt-6 px-4 py-2 border rounded">Done</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,34 +1,126 @@
-
-import React, { useRef, useEffect, useState } from 'react';
-import { processCheckIn, getEventConfig } from '../server/api';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import {
+    kioskCheckIn, getKioskDevice, getKioskRoster, getKioskQueue, pairKiosk, refreshKioskRoster, syncKiosk, setKioskPrinterStatus,
+    type KioskDevice
+} from '../server/api';
+import { KIOSK_SYNC_INTERVAL, type KioskRoster } from '../server/kiosks';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
 import { BadgePrintLayout } from './BadgePrintLayout';
-import { EventConfig } from '../types';
 
 interface KioskViewProps {
-    adminToken: string;
     onExit: () => void;
 }
 
-export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
+/** The full attendee list is downloaded again this often; syncs bring changes in between. */
+const ROSTER_REFRESH_INTERVAL = 30 * 60 * 1000;
+
+const KioskPairing: React.FC<{ onPaired: (device: KioskDevice) => void; onExit: () => void }> = ({ onPaired, onExit }) => {
+    const [code, setCode] = useState(() => new URLSearchParams(window.location.search).get('pair') || '');
+    const [isPairing, setIsPairing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsPairing(true);
+        setError(null);
+        try {
+            onPaired(await pairKiosk(code));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Pairing failed.');
+        } finally {
+            setIsPairing(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-900 flex items-center justify-center p-6">
+            <form onSubmit={handleSubmit} className="w-full max-w-md bg-gray-800 rounded-2xl p-8 shadow-2xl text-white">
+                <h1 className="text-2xl font-bold tracking-wider">SET UP KIOSK</h1>
+                <p className="text-gray-400 text-sm mt-2">
+                    Enter the pairing code shown for this kiosk under Kiosk Fleet in the admin portal.
+                </p>
+                {error && <div className="mt-4"><Alert type="error" message={error} /></div>}
+                <input
+                    type="text"
+                    value={code}
+                    onChange={e => setCode(e.target.value.toUpperCase())}
+                    placeholder="XXXX-XXXX"
+                    autoFocus
+                    className="mt-6 w-full text-center text-3xl font-mono tracking-widest bg-gray-900 border border-gray-700 rounded-lg py-3 focus:outline-none focus:border-primary"
+                />
+                <button
+                    type="submit"
+                    disabled={isPairing || !code.trim()}
+                    className="mt-6 w-full py-3 rounded-lg bg-primary text-white font-bold disabled:opacity-50"
+                >
+                    {isPairing ? 'Pairing...' : 'Pair Kiosk'}
+                </button>
+                <button type="button" onClick={onExit} className="mt-3 w-full text-sm text-gray-500 hover:text-white">Cancel</button>
+            </form>
+        </div>
+    );
+};
+
+export const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
+    const [device, setDevice] = useState<KioskDevice | null>(getKioskDevice);
     const [status, setStatus] = useState<'scanning' | 'processing' | 'success' | 'error'>('scanning');
     const [scannedUser, setScannedUser] = useState<any>(null);
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
-    const [config, setConfig] = useState<EventConfig | null>(null);
-    
-    // Load config for print settings
-    useEffect(() => {
-        getEventConfig().then(setConfig).catch(console.error);
+    const [roster, setRoster] = useState<KioskRoster | null>(getKioskRoster);
+    const [queueDepth, setQueueDepth] = useState(() => getKioskQueue().length);
+    const [isOnline, setIsOnline] = useState(false);
+    const config = roster?.config || null;
+
+    // A credential the server no longer accepts sends the kiosk back to pairing.
+    const handleKioskError = useCallback((e: unknown) => {
+        if (!getKioskDevice()) setDevice(null);
+        else console.warn('Kiosk sync failed, continuing offline.', e);
     }, []);
 
+    // Queued scans go up and other kiosks' admissions come down on every sync,
+    // which is also this kiosk's heartbeat for the fleet panel.
+    const sync = useCallback(() => {
+        syncKiosk()
+            .then(() => setIsOnline(true))
+            .catch(e => {
+                setIsOnline(false);
+                handleKioskError(e);
+            })
+            .finally(() => {
+                setQueueDepth(getKioskQueue().length);
+                setRoster(getKioskRoster());
+            });
+    }, [handleKioskError]);
+
+    useEffect(() => {
+        if (!device) return;
+        refreshKioskRoster().then(setRoster).catch(handleKioskError).finally(sync);
+        const syncTimer = setInterval(sync, KIOSK_SYNC_INTERVAL);
+        const rosterTimer = setInterval(() => refreshKioskRoster().then(setRoster).catch(handleKioskError), ROSTER_REFRESH_INTERVAL);
+        return () => {
+            clearInterval(syncTimer);
+            clearInterval(rosterTimer);
+        };
+    }, [device, sync, handleKioskError]);
+
+    useEffect(() => {
+        setKioskPrinterStatus(config?.printConfig?.autoPrintOnKiosk ? 'unknown' : 'disabled');
+    }, [config?.printConfig?.autoPrintOnKiosk]);
+
     // Auto-Print Logic
     useEffect(() => {
         if (status === 'success' && scannedUser && config?.printConfig?.autoPrintOnKiosk) {
             // Wait a moment for state to settle and DOM to render, then print
             const timer = setTimeout(() => {
-                window.print();
+                try {
+                    window.print();
+                    setKioskPrinterStatus('ready');
+                } catch (e) {
+                    console.error('Badge printing failed', e);
+                    setKioskPrinterStatus('error');
+                }
             }, 500);
             return () => clearTimeout(timer);
         }
@@ -86,7 +178,7 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
             }
         };
 
-        if (status === 'scanning') {
+        if (status === 'scanning' && device) {
             startCamera();
         }
 
@@ -94,12 +186,14 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
             if (stream) stream.getTracks().forEach(t => t.stop());
             cancelAnimationFrame(animationFrameId);
         };
-    }, [status]);
+    }, [status, device]);
 
     const handleScan = async (qrData: string) => {
         setStatus('processing');
         try {
-            const result = await processCheckIn(adminToken, qrData);
+            const result = await kioskCheckIn(qrData);
+            setIsOnline(!result.queued);
+            setQueueDepth(getKioskQueue().length);
             if (result.success) {
                 setScannedUser(result.user);
                 setStatus('success');
@@ -117,7 +211,8 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
                 }, 3000);
             }
         } catch (e) {
-            setErrorMsg("Network error.");
+            handleKioskError(e);
+            setErrorMsg(e instanceof Error ? e.message : 'System error.');
             setStatus('error');
             setTimeout(() => {
                 setErrorMsg(null);
@@ -126,6 +221,10 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
         }
     };
 
+    if (!device) {
+        return <KioskPairing onPaired={paired => { setDevice(paired); setRoster(getKioskRoster()); }} onExit={onExit} />;
+    }
+
     return (
         <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center relative overflow-hidden">
             {/* Hidden Print Layout */}
@@ -137,7 +236,14 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
             <div className="absolute top-0 w-full p-6 flex justify-between items-center z-20">
                 <div className="text-white">
                     <h1 className="text-2xl font-bold tracking-wider">SELF CHECK-IN</h1>
-                    <p className="text-gray-400 text-sm">Event Kiosk Mode</p>
+                    <p className="text-gray-400 text-sm">{device.name}</p>
+                    <p className="text-gray-500 text-xs mt-1">
+                        <span className={isOnline ? 'text-green-400' : 'text-yellow-400'}>{isOnline ? '● Online' : '● Offline'}</span>
+                        {queueDepth > 0 && <span> &middot; {queueDepth} scan{queueDepth === 1 ? '' : 's'} waiting to sync</span>}
+                        <span> &middot; {roster
+                            ? `${roster.registrations.length} attendees, updated ${new Date(roster.fetchedAt).toLocaleTimeString()}`
+                            : 'No attendee list yet. Connect to the network once to enable check-in.'}</span>
+                    </p>
                 </div>
                 <button 
                     onClick={onExit}
@@ -207,9 +313,6 @@ export const KioskView: React.FC<KioskViewProps> = ({ adminToken, onExit }) => {
                         <h2 className="text-3xl font-bold mb-2">Check-in Error</h2>
                         <p className="text-xl opacity-90">{errorMsg || "System Error"}</p>
                         <p className="mt-6 text-sm opacity-75">Please see the registration desk for assistance.</p>
-                        {errorMsg === "Network error." && (
-                             <button onClick={() => setStatus('scanning')} className="mt-4 px-4 py-2 border border-white rounded hover:bg-white/20">Retry</button>
-                        )}
                     </div>
                 )}
 
@@ -178,6 +178,18 @@ export const MapDashboard: React.FC<MapDashboardProps> = ({ adminToken }) => {
                                             <option value="facility">Facility (Food/Restroom)</option>
                                         </select>
                                     </div>
+                                    {selectedPin.type === 'room' && (
+                                        <>
+                                            <div>
+                                                <label className="block text-xs font-medium mb-1">Capacity (0 for unlimited)</label>
+                                                <input type="number" min={0} value={selectedPin.capacity || 0} onChange={e => updatePin(selectedPin.id, { capacity: parseInt(e.target.value) || 0 })} className="w-full p-2 text-sm border rounded dark:bg-gray-700" />
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-medium mb-1">Entry Requires (ticket benefits, comma separated)</label>
+                                                <input key={selectedPin.id} type="text" defaultValue={(selectedPin.requiredBenefits || []).join(', ')} onBlur={e => updatePin(selectedPin.id, { requiredBenefits: e.target.value.split(',').map(b => b.trim()).filter(Boolean) })} className="w-full p-2 text-sm border rounded dark:bg-gray-700" placeholder="e.g. VIP Lounge Access" />
+                                            </div>
+                                        </>
+                                    )}
                                     <div>
                                         <label className="block text-xs font-medium mb-1">Description</label>
                                         <textarea value={selectedPin.description || ''} onChange={e => updatePin(selectedPin.id, { description: e.target.value })} className="w-full p-2 text-sm border rounded dark:bg-gray-700" rows={2} />
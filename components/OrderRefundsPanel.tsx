@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { type Order } from '../types';
+import { getRegistrationOrders, refundOrder } from '../server/api';
+import { refundableAmount } from '../server/refunds';
+import { Alert } from './Alert';
+import { Spinner } from './Spinner';
+import { RefundHistory } from './RefundHistory';
+
+interface OrderRefundsPanelProps {
+  adminToken: string;
+  registrationId: string;
+}
+
+/** The orders that paid for a delegate's ticket, their refunds, and a form to refund more. */
+export const OrderRefundsPanel: React.FC<OrderRefundsPanelProps> = ({ adminToken, registrationId }) => {
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [refunding, setRefunding] = useState<{ orderId: string; amount: string; note: string; cancelTicket: boolean } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchOrders = async () => {
+        try {
+            setOrders(await getRegistrationOrders(adminToken, registrationId));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load the orders.');
+        }
+    };
+
+    useEffect(() => {
+        fetchOrders();
+    }, [adminToken, registrationId]);
+
+    const handleRefund = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!refunding) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await refundOrder(adminToken, refunding.orderId, { amount: Number(refunding.amount), note: refunding.note, cancelTicket: refunding.cancelTicket });
+            setRefunding(null);
+            await fetchOrders();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to refund the order.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (orders.length === 0 && !error) return <p className="text-sm text-gray-500 dark:text-gray-400">This ticket was not bought through an order.</p>;
+
+    return (
+        <div className="space-y-6">
+            {error && <Alert type="error" message={error} />}
+            {orders.map(order => {
+                const left = refundableAmount(order);
+                return (
+                    <div key={order.id}>
+                        <div className="flex justify-between items-center mb-3">
+                            <p className="text-sm text-gray-600 dark:text-gray-300">
+                                {order.kind === 'group' ? `Group order by ${order.name} (${order.email})` : 'Own order'} · <span className="font-mono text-xs">{order.id}</span>
+                                {order.status === 'refunded' && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Refunded</span>}
+                            </p>
+                            {left > 0 && refunding?.orderId !== order.id && (
+                                <button
+                                    onClick={() => setRefunding({ orderId: order.id, amount: String(left), note: '', cancelTicket: false })}
+                                    className="px-3 py-1.5 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:border-gray-600"
+                                >
+                                    Refund
+                                </button>
+                            )}
+                        </div>
+                        {refunding?.orderId === order.id && (
+                            <form onSubmit={handleRefund} className="mb-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+                                <label className="block text-sm">
+                                    <span className="font-medium">Amount ({order.currency}, at most {left})</span>
+                                    <input type="number" min={0.01} max={left} step="0.01" required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                        value={refunding.amount} onChange={e => setRefunding({ ...refunding, amount: e.target.value })} />
+                                </label>
+                                <input type="text" placeholder="Note (e.g. Goodwill after the venue change)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                    value={refunding.note} onChange={e => setRefunding({ ...refunding, note: e.target.value })} />
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={refunding.cancelTicket} onChange={e => setRefunding({ ...refunding, cancelTicket: e.target.checked })} />
+                                    {order.kind === 'group' ? 'Also cancel the group\'s seats and offer them to the waitlist' : 'Also cancel the ticket and offer the seat to the waitlist'}
+                                </label>
+                                <div className="flex justify-end gap-2">
+                                    <button type="button" onClick={() => setRefunding(null)} className="px-4 py-2 border rounded text-sm">Cancel</button>
+                                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-primary text-white rounded text-sm flex items-center disabled:opacity-50">
+                                        {isSaving && <Spinner />} Refund
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                        <RefundHistory order={order} />
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { resetPassword } from '../server/api';
+import React, { useState, useEffect } from 'react';
+import { resetPassword, verifyPasswordResetToken, requestDelegatePasswordReset } from '../server/api';
 import { Spinner } from './Spinner';
 import { Alert } from './Alert';
 import { Logo } from './Logo';
@@ -9,11 +9,18 @@ import { checkPasswordStrength, type PasswordStrengthResult } from '../utils/pas
 import { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
 
 interface PasswordResetFormProps {
-  token: string;
+  /** Token from the emailed link. Without one the form starts by requesting a link. */
+  token?: string;
+  eventId: string;
 }
 
-export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) => {
+type Step = 'checking' | 'request' | 'sent' | 'invalid' | 'reset';
+
+export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token, eventId }) => {
     const { config } = useTheme();
+    const [step, setStep] = useState<Step>(token ? 'checking' : 'request');
+    const [accountEmail, setAccountEmail] = useState('');
+    const [requestEmail, setRequestEmail] = useState('');
     const [password, setPassword] = useState('');
     const [passwordStrength, setPasswordStrength] = useState<PasswordStrengthResult>({ score: 0, label: '' });
     const [confirmPassword, setConfirmPassword] = useState('');
@@ -21,6 +28,21 @@ export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) =
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [errors, setErrors] = useState<Record<string, string>>({});
 
+    useEffect(() => {
+        if (!token) return;
+        let cancelled = false;
+        verifyPasswordResetToken(token).then(details => {
+            if (cancelled) return;
+            if (details) {
+                setAccountEmail(details.email);
+                setStep('reset');
+            } else {
+                setStep('invalid');
+            }
+        });
+        return () => { cancelled = true; };
+    }, [token]);
+
     const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newPassword = e.target.value;
         setPassword(newPassword);
@@ -41,10 +63,29 @@ export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) =
         return Object.keys(newErrors).length === 0;
     };
 
+    const handleRequestLink = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setStatus(null);
+        if (!/\S+@\S+\.\S+/.test(requestEmail)) {
+            setErrors({ requestEmail: 'Please enter a valid email address.' });
+            return;
+        }
+        setErrors({});
+        setIsSubmitting(true);
+        try {
+            await requestDelegatePasswordReset(eventId, requestEmail);
+            setStep('sent');
+        } catch (err) {
+            setStatus({ type: 'error', message: 'Could not send a reset link. Please try again.' });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setStatus(null);
-        if (!validate()) return;
+        if (!token || !validate()) return;
         
         setIsSubmitting(true);
         try {
@@ -59,7 +100,7 @@ export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) =
     };
     
     const returnToHome = () => {
-        window.location.href = '/';
+        window.location.href = `/${eventId}`;
     };
     
     if (status?.type === 'success') {
@@ -80,6 +121,73 @@ export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) =
         );
     }
 
+    if (step === 'checking') {
+        return (
+            <div className="text-center py-10">
+                <Logo />
+                <p className="mt-4 text-gray-600 dark:text-gray-400 flex items-center justify-center"><Spinner /> Checking your reset link...</p>
+            </div>
+        );
+    }
+
+    if (step === 'sent') {
+        return (
+            <div className="text-center">
+                <Logo />
+                <h1 className="text-3xl font-bold tracking-tight text-gray-900 dark:text-white sm:text-4xl">Check Your Email</h1>
+                <p className="mt-4 text-lg text-gray-600 dark:text-gray-400 max-w-md mx-auto">
+                    If an account with the email <strong className="text-gray-800 dark:text-gray-200">{requestEmail}</strong> exists, a reset link is on its way. It is valid for one hour.
+                </p>
+                <button
+                    onClick={returnToHome}
+                    className="mt-6 w-full sm:w-auto inline-flex justify-center items-center py-3 px-6 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90"
+                >
+                    Return to Main Page
+                </button>
+            </div>
+        );
+    }
+
+    if (step === 'request' || step === 'invalid') {
+        return (
+            <div className="animate-fade-in">
+                <header className="text-center">
+                    <Logo />
+                    <h1 className="text-3xl font-bold tracking-tight text-gray-900 dark:text-white sm:text-4xl">
+                        Reset Your Password
+                    </h1>
+                    <p className="mt-4 text-lg text-gray-600 dark:text-gray-400">
+                        Enter the email you registered with and we'll send you a reset link.
+                    </p>
+                </header>
+
+                <form onSubmit={handleRequestLink} className="mt-10 space-y-6 max-w-lg mx-auto">
+                    {step === 'invalid' && <Alert type="error" message="This reset link is invalid or has expired. Request a new one below." />}
+                    {status?.type === 'error' && <Alert type="error" message={status.message} />}
+
+                    <TextInput
+                        label="Email Address"
+                        name="requestEmail"
+                        type="email"
+                        value={requestEmail}
+                        onChange={(e) => setRequestEmail(e.target.value)}
+                        placeholder="you@example.com"
+                        required
+                        error={errors.requestEmail}
+                    />
+
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-primary/70 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting ? <><Spinner /> Sending Link...</> : 'Send Reset Link'}
+                    </button>
+                </form>
+            </div>
+        );
+    }
+
     return (
         <div className="animate-fade-in">
             <header className="text-center">
@@ -88,7 +196,7 @@ export const PasswordResetForm: React.FC<PasswordResetFormProps> = ({ token }) =
                     Set a New Password
                 </h1>
                 <p className="mt-4 text-lg text-gray-600 dark:text-gray-400">
-                    Please enter and confirm your new password below.
+                    Choose a new password for <strong className="text-gray-800 dark:text-gray-200">{accountEmail}</strong>.
                 </p>
             </header>
 
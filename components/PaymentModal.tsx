@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { Spinner } from './Spinner';
-import { createPaymentIntent, purchaseEventCoins, createPublicPaymentIntent } from '../server/api';
+import { startCoinPurchase, confirmOrder, type OrderResult } from '../server/api';
+import { COIN_PACKAGES } from '../server/orders';
+import { type Order } from '../types';
 import { loadStripe } from '@stripe/stripe-js';
 import { Elements, CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
 
@@ -12,29 +14,39 @@ interface PaymentModalProps {
     isOpen: boolean;
     onClose: () => void;
     delegateToken: string | null; // Allow null for public checkout
-    onSuccess: () => void;
-    fixedAmount?: number; // Optional fixed amount for direct checkout (e.g. tickets)
-    description?: string; // Description for fixed checkout
+    onSuccess: (result?: OrderResult) => void;
+    checkout?: TicketCheckout; // A ticket order placed with `startCheckout`, paid instead of a wallet top-up
 }
 
-const PACKAGES = [
-    { id: 'basic', coins: 50, price: 50 },
-    { id: 'standard', coins: 100, price: 90 }, // 10% discount
-    { id: 'premium', coins: 250, price: 200 }, // 20% discount
-];
+/** A ticket order to pay for: its total is priced by the server. */
+export interface TicketCheckout {
+    order: Order;
+    clientSecret: string;
+    description: string;
+}
 
 const CheckoutForm: React.FC<{ 
     amount: number, 
-    coins: number, 
+    packageId: string, 
     delegateToken: string | null, 
-    onSuccess: () => void,
-    isPublicCheckout?: boolean
-}> = ({ amount, coins, delegateToken, onSuccess, isPublicCheckout }) => {
+    onSuccess: (result?: OrderResult) => void,
+    checkout?: TicketCheckout
+}> = ({ amount, packageId, delegateToken, onSuccess, checkout }) => {
     const stripe = useStripe();
     const elements = useElements();
     const [error, setError] = useState<string | null>(null);
     const [processing, setProcessing] = useState(false);
 
+    // The server checks the payment before turning the order into a registration or crediting the coins.
+    const completeOrder = async (orderId: string) => {
+        const result = await confirmOrder(orderId);
+        if (!result.success) {
+            setError(result.message || "Your payment went through, but the order could not be completed.");
+            return;
+        }
+        onSuccess(result);
+    };
+
     const handleSubmit = async (event: React.FormEvent) => {
         event.preventDefault();
 
@@ -45,15 +57,17 @@ const CheckoutForm: React.FC<{
         setError(null);
 
         try {
-            // 1. Create PaymentIntent on Server
-            let clientSecret;
+            // 1. Place the order on the server, which prices it and creates its PaymentIntent; a ticket order already has one.
+            let order: Order;
+            let clientSecret: string;
             
-            if (isPublicCheckout) {
-                const res = await createPublicPaymentIntent(amount);
-                clientSecret = res.clientSecret;
+            if (checkout) {
+                ({ order, clientSecret } = checkout);
             } else if (delegateToken) {
-                const res = await createPaymentIntent(delegateToken, amount);
-                clientSecret = res.clientSecret;
+                const res = await startCoinPurchase(delegateToken, packageId);
+                if (!res.success) throw new Error(res.message || "Failed to start the top-up.");
+                order = res.order!;
+                clientSecret = res.clientSecret!;
             } else {
                 throw new Error("Authentication required for wallet top-up.");
             }
@@ -65,10 +79,7 @@ const CheckoutForm: React.FC<{
                 await new Promise(resolve => setTimeout(resolve, 1500));
                 
                 // Direct Success
-                if (!isPublicCheckout && delegateToken) {
-                    await purchaseEventCoins(delegateToken, coins, amount);
-                }
-                onSuccess();
+                await completeOrder(order.id);
                 return; 
             }
 
@@ -87,11 +98,7 @@ const CheckoutForm: React.FC<{
                 setError(result.error.message || "Payment failed");
             } else if (result.paymentIntent?.status === 'succeeded') {
                 // 3. Fulfill Order 
-                if (!isPublicCheckout && delegateToken) {
-                    await purchaseEventCoins(delegateToken, coins, amount);
-                }
-                // For public checkout, fulfillment happens in parent component via onSuccess
-                onSuccess();
+                await completeOrder(order.id);
             }
         } catch (e) {
             setError(e instanceof Error ? e.message : "An error occurred during payment processing.");
@@ -120,39 +127,38 @@ const CheckoutForm: React.FC<{
                 disabled={processing}
                 className="w-full py-3 bg-primary text-white rounded-lg text-sm font-medium hover:bg-primary/90 flex items-center justify-center disabled:opacity-70"
             >
-                {processing ? <Spinner /> : `Pay $${amount.toFixed(2)}`}
+                {processing ? <Spinner /> : `Pay ${checkout ? `${checkout.order.currency} ` : '$'}${amount.toFixed(2)}`}
             </button>
         </form>
     );
 };
 
-export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, delegateToken, onSuccess, fixedAmount, description }) => {
-    const [selectedPkg, setSelectedPkg] = useState(PACKAGES[1]);
-    const [step, setStep] = useState<'select' | 'pay' | 'success'>(fixedAmount ? 'pay' : 'select');
+export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, delegateToken, onSuccess, checkout }) => {
+    const [selectedPkg, setSelectedPkg] = useState(COIN_PACKAGES[1]);
+    const [step, setStep] = useState<'select' | 'pay' | 'success'>(checkout ? 'pay' : 'select');
 
     useEffect(() => {
-        if (isOpen && fixedAmount) {
+        if (isOpen && checkout) {
             setStep('pay');
         } else if (isOpen) {
             setStep('select');
         }
-    }, [isOpen, fixedAmount]);
+    }, [isOpen, checkout]);
 
     if (!isOpen) return null;
 
-    const handleSuccess = () => {
+    const handleSuccess = (result?: OrderResult) => {
         setStep('success');
         setTimeout(() => {
-            onSuccess();
+            onSuccess(result);
             onClose();
-            // Reset for next time if not fixedAmount
-            if (!fixedAmount) setStep('select');
+            // Reset for next time if not a ticket order
+            if (!checkout) setStep('select');
         }, 2000);
     };
 
-    const isPublicCheckout = !!fixedAmount;
+    const fixedAmount = checkout?.order.total;
     const finalAmount = fixedAmount || selectedPkg.price;
-    const finalCoins = fixedAmount ? 0 : selectedPkg.coins; // No coins for direct ticket purchase
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
@@ -168,16 +174,19 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, del
                         <div className="flex-1 flex flex-col justify-center space-y-6">
                             <div className="bg-white dark:bg-gray-700 p-6 rounded-xl border border-gray-200 dark:border-gray-600 shadow-sm">
                                 <p className="text-sm text-gray-500 dark:text-gray-400 uppercase font-bold tracking-wider mb-2">Item</p>
-                                <p className="text-xl font-bold text-gray-900 dark:text-white">{description || 'Event Purchase'}</p>
+                                <p className="text-xl font-bold text-gray-900 dark:text-white">{checkout?.description || 'Event Purchase'}</p>
                             </div>
                             <div className="flex justify-between items-center text-lg">
                                 <span className="text-gray-600 dark:text-gray-300">Total</span>
-                                <span className="text-2xl font-bold text-primary">${fixedAmount.toFixed(2)}</span>
+                                <span className="text-2xl font-bold text-primary">{checkout?.order.currency} {fixedAmount.toFixed(2)}</span>
                             </div>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                Your seat is held until {new Date(checkout!.order.expiresAt).toLocaleTimeString()}.
+                            </p>
                         </div>
                     ) : (
                         <div className="space-y-4 flex-1 overflow-y-auto">
-                            {PACKAGES.map(pkg => (
+                            {COIN_PACKAGES.map(pkg => (
                                 <div 
                                     key={pkg.id} 
                                     onClick={() => setSelectedPkg(pkg)}
@@ -229,10 +238,10 @@ export const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, del
                             <Elements stripe={stripePromise}>
                                 <CheckoutForm 
                                     amount={finalAmount} 
-                                    coins={finalCoins} 
+                                    packageId={selectedPkg.id} 
                                     delegateToken={delegateToken} 
                                     onSuccess={handleSuccess} 
-                                    isPublicCheckout={isPublicCheckout}
+                                    checkout={checkout}
                                 />
                             </Elements>
                             <button onClick={onClose} className="mt-auto py-3 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800">Cancel</button>
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { getOutboxEntries, subscribeToOutbox, flushOutbox, retryOutboxEntry, discardOutboxEntry, resolveOutboxConflict, type OutboxEntry } from '../server/db';
+import { Spinner } from './Spinner';
+
+const IGNORED_FIELDS = new Set(['version', 'updatedAt']);
+
+const formatValue = (value: any) => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+// Fields where this device's copy and the server's copy disagree.
+const conflictingFields = (entry: OutboxEntry) => {
+  const local = entry.row || {};
+  const server = entry.serverRow || {};
+  return Array.from(new Set([...Object.keys(local), ...Object.keys(server)]))
+    .filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(local[key]) !== JSON.stringify(server[key]));
+};
+
+const STATUS_STYLES: Record<OutboxEntry['status'], string> = {
+  pending: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+  conflict: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300'
+};
+
+/** Writes made on this device that the server has not accepted yet. */
+export const PendingWritesPanel: React.FC = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutboxEntries());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    setEntries(getOutboxEntries());
+    return subscribeToOutbox(() => setEntries(getOutboxEntries()));
+  }, []);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await flushOutbox();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const pendingCount = entries.filter(e => e.status === 'pending').length;
+  const attention = entries.filter(e => e.status !== 'pending');
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100 dark:border-gray-700">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-bold text-gray-800 dark:text-gray-200">Unsynced Changes</h4>
+          <p className="text-xs text-gray-500">
+            {entries.length === 0
+              ? 'All changes made on this device have been saved to the server.'
+              : `${pendingCount} waiting to send, ${attention.length} need${attention.length === 1 ? 's' : ''} your attention.`}
+          </p>
+        </div>
+        <button
+          onClick={handleSyncNow}
+          disabled={isSyncing || pendingCount === 0}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSyncing ? <Spinner /> : 'Sync Now'}
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {entries.map(entry => (
+            <li key={entry.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  <span className="font-mono text-xs text-gray-700 dark:text-gray-300 truncate">
+                    {entry.op === 'delete' ? 'Delete' : 'Save'} {entry.table}/{entry.rowId}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {busyId === entry.id ? <Spinner /> : entry.status === 'conflict' ? (
+                    <>
+                      <button onClick={() => run(entry.id, () => resolveOutboxConflict(entry.id, 'local'))} className="px-2 py-1 text-xs rounded bg-primary text-white hover:bg-primary/90">Keep Mine</button>
+                      <button onClick={() => run(entry.id, () => resolveOutboxConflict(entry.id, 'server'))} className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200">Use Server's</button>
+                    </>
+                  ) : entry.status === 'failed' ? (
+                    <>
+                      <button onClick={() => run(entry.id, () => retryOutboxEntry(entry.id))} className="px-2 py-1 text-xs rounded bg-primary text-white hover:bg-primary/90">Retry</button>
+                      <button onClick={() => run(entry.id, () => discardOutboxEntry(entry.id))} className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400">Discard</button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500">
+                      {entry.attempts > 0 ? `Retrying (attempt ${entry.attempts + 1})` : 'Sending…'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {entry.lastError && entry.status !== 'conflict' && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{entry.lastError}</p>
+              )}
+              {entry.status === 'conflict' && (
+                entry.serverRow === null ? (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">This record was deleted on the server after you changed it.</p>
+                ) : (
+                  <table className="mt-2 w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="font-medium pr-2">Field</th>
+                        <th className="font-medium pr-2">Yours</th>
+                        <th className="font-medium">Server</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflictingFields(entry).map(field => (
+                        <tr key={field} className="border-t border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                          <td className="font-mono pr-2 py-1">{field}</td>
+                          <td className="pr-2 py-1">{entry.op === 'delete' ? '(deleted)' : formatValue(entry.row?.[field])}</td>
+                          <td className="py-1">{formatValue(entry.serverRow?.[field])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
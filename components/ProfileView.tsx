@@ -1,11 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { type RegistrationData } from '../types';
-import { updateDelegateProfile, cancelRegistration } from '../server/api';
+import { updateDelegateProfile, cancelRegistration, getCancellationTerms, type CancellationTerms } from '../server/api';
+import { describeCancellationPolicy } from '../server/refunds';
 import { Spinner } from './Spinner';
 import { Alert } from './Alert';
 import { TextInput } from './TextInput';
 import { ImageUpload } from './ImageUpload';
+import { RefundHistory } from './RefundHistory';
 
 interface ProfileViewProps {
   user: RegistrationData;
@@ -24,6 +26,11 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, delegateToken, o
   const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [terms, setTerms] = useState<CancellationTerms | null>(null);
+
+  useEffect(() => {
+    getCancellationTerms(delegateToken).then(setTerms).catch(() => setTerms(null));
+  }, [delegateToken]);
 
   useEffect(() => {
     setFormData({
@@ -62,15 +69,18 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, delegateToken, o
   };
 
   const handleCancelRegistration = async () => {
-      if (!window.confirm("Are you sure you want to cancel your registration? This action cannot be undone immediately.")) return;
+      const refundNote = terms && terms.refund.amount > 0
+          ? ` ${terms.refund.amount} ${terms.currency} will be refunded.`
+          : terms?.order ? ' You will not get a refund.' : '';
+      if (!window.confirm(`Are you sure you want to cancel your registration? This action cannot be undone immediately.${refundNote}`)) return;
       
       setIsCancelling(true);
       setError(null);
       
       try {
           // Pass the user's ID
-          await cancelRegistration(delegateToken, user.id!);
-          setSuccess("Registration cancelled successfully.");
+          const result = await cancelRegistration(delegateToken, user.id!);
+          setSuccess(result.message || "Registration cancelled successfully.");
           // Ideally, force logout or redirect, but for now we just show message
           setTimeout(() => {
               window.location.reload();
@@ -146,9 +156,22 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, delegateToken, o
         </div>
         </form>
 
+        {terms?.order && (
+            <div className="border-t pt-6 border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Payment and Refunds</h3>
+                <ul className="text-sm text-gray-500 dark:text-gray-400 mb-4 space-y-1">
+                    {describeCancellationPolicy(terms.policy).map(line => <li key={line}>{line}</li>)}
+                </ul>
+                <RefundHistory order={terms.order} />
+            </div>
+        )}
+
         <div className="border-t pt-6 border-gray-200 dark:border-gray-700">
             <h3 className="text-lg font-medium text-red-600 mb-2">Danger Zone</h3>
             <p className="text-sm text-gray-500 mb-4">Once you cancel your registration, you will lose access to the event and your spot may be given to someone on the waitlist.</p>
+            {terms && terms.refund.amount > 0 && (
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">Cancelling now refunds {terms.refund.amount} {terms.currency} ({terms.refund.percent}%) to the card you paid with.</p>
+            )}
             <button
                 type="button"
                 onClick={handleCancelRegistration}
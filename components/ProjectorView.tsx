@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { getPublicSessionData } from '../server/api';
+import { getPublicSessionData, getPublicZoneOccupancy } from '../server/api';
 import { useLiveQuery } from '../hooks/useLiveQuery';
 import { Spinner } from './Spinner';
 import { PollWithResults, Session, SessionQuestion } from '../types';
@@ -48,11 +48,23 @@ export const ProjectorView: React.FC<ProjectorViewProps> = ({ sessionId, onExit
         [sessionId]
     );
 
+    // Door scans are not synced to public screens, so occupancy is also polled.
+    const { data: occupancy, refresh: refreshOccupancy } = useLiveQuery<number>(
+        () => getPublicZoneOccupancy(sessionId),
+        ['check_ins'],
+        [sessionId]
+    );
+
     useEffect(() => {
         const timer = setInterval(() => setCurrentTime(new Date()), 1000);
         return () => clearInterval(timer);
     }, []);
 
+    useEffect(() => {
+        const timer = setInterval(refreshOccupancy, 15000);
+        return () => clearInterval(timer);
+    }, [refreshOccupancy]);
+
     if (isLoading || !data) {
         return (
             <div className="min-h-screen bg-black flex items-center justify-center">
@@ -75,6 +87,14 @@ export const ProjectorView: React.FC<ProjectorViewProps> = ({ sessionId, onExit
                     </h1>
                     <p className="text-2xl text-gray-400 mt-2">{session.location} • {session.track}</p>
                 </div>
+                {occupancy !== null && (
+                    <div className="text-center">
+                        <div className={`text-5xl font-bold ${session.capacity && occupancy >= session.capacity ? 'text-red-400' : 'text-green-400'}`}>
+                            {occupancy}{session.capacity ? <span className="text-3xl text-gray-500"> / {session.capacity}</span> : null}
+                        </div>
+                        <p className="text-lg text-gray-400 mt-1">{session.capacity && occupancy >= session.capacity ? 'Room full' : 'In the room'}</p>
+                    </div>
+                )}
                 <div className="text-right">
                     <div className="text-5xl font-mono font-light tracking-wider">
                         {currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -3,6 +3,7 @@ import React from 'react';
 import { EventConfig, Speaker, Sponsor, TicketTier } from '../types';
 import { CountdownTimer } from './CountdownTimer';
 import { useTranslation } from '../contexts/LanguageContext';
+import { tierPrice } from '../server/discounts';
 
 interface PublicHomeProps {
   config: EventConfig;
@@ -79,7 +80,7 @@ export const PublicHome: React.FC<PublicHomeProps> = ({ config, speakers, sponso
                                     <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{tier.name}</h3>
                                     <div className="flex items-baseline mb-6">
                                         <span className="text-5xl font-extrabold text-gray-900 dark:text-white tracking-tight">
-                                            {tier.price === 0 ? 'Free' : `${tier.currency} ${tier.price}`}
+                                            {tierPrice(tier) === 0 ? 'Free' : `${tier.currency} ${tierPrice(tier)}`}
                                         </span>
                                     </div>
                                     <p className="text-gray-600 dark:text-gray-400 text-sm mb-8 min-h-[3rem]">{tier.description}</p>
@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode, qrCodeToSvgPath, type QrErrorCorrection } from '../utils/qrCode';
+
+interface QRCodeImageProps {
+  value: string;
+  size?: number;
+  errorCorrection?: QrErrorCorrection;
+  className?: string;
+  title?: string;
+}
+
+/** Renders a QR code as an inline SVG, generated on the device. */
+export const QRCodeImage: React.FC<QRCodeImageProps> = ({ value, size = 200, errorCorrection = 'M', className, title }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value, errorCorrection);
+    return { path: qrCodeToSvgPath(modules), dimension: modules.length + 8 };
+  }, [value, errorCorrection]);
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={title || 'QR code'}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
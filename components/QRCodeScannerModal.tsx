@@ -1,6 +1,8 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Alert } from './Alert';
+import { refreshTicketKeys, type ZoneScan } from '../server/api';
+import { type AccessZone, type ZoneDirection } from '../types';
 
 // A simple loader component
 const Loader: React.FC = () => (
@@ -15,15 +17,43 @@ const Loader: React.FC = () => (
 interface QRCodeScannerModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onScan: (data: string) => void;
+    onScan: (data: string, message?: string) => void;
+    /**
+     * Treat codes as tickets and decide each one with this check. A refused
+     * code shows why and scanning goes on; an accepted one reaches `onScan`
+     * with the check's message.
+     */
+    checkTicket?: (data: string, zoneScan?: ZoneScan) => Promise<{ success: boolean; message: string }>;
+    /**
+     * Sessions and rooms this scanner can guard instead of the entrance. The
+     * chosen zone and direction are passed to `checkTicket`.
+     */
+    zones?: AccessZone[];
+    initialZoneId?: string;
+    /** Show accepted tickets briefly and carry on scanning, as at a session door. */
+    keepScanning?: boolean;
 }
 
-export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen, onClose, onScan }) => {
+export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen, onClose, onScan, checkTicket, zones = [], initialZoneId = '', keepScanning = false }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
     const animationFrameRef = useRef<number | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [rejection, setRejection] = useState<string | null>(null);
+    const [accepted, setAccepted] = useState<string | null>(null);
+    const [zoneId, setZoneId] = useState(initialZoneId);
+    const [direction, setDirection] = useState<ZoneDirection>('in');
+    // Read by the running scan loop, so changing zone does not restart the camera.
+    const zoneScanRef = useRef<ZoneScan | undefined>(undefined);
+    zoneScanRef.current = zoneId ? { zoneId, direction } : undefined;
+
+    useEffect(() => {
+        if (isOpen) {
+            setZoneId(initialZoneId);
+            setDirection('in');
+        }
+    }, [isOpen, initialZoneId]);
 
     const cleanup = useCallback(() => {
         if (animationFrameRef.current) {
@@ -45,8 +75,32 @@ export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen,
             return;
         }
         
+        if (checkTicket) refreshTicketKeys();
+
+        const handleDetected = async (data: string, resume: () => void) => {
+            if (!checkTicket) return onScan(data);
+            const result = await checkTicket(data, zoneScanRef.current).catch(e => ({ success: false, message: e instanceof Error ? e.message : 'Check-in failed.' }));
+            if (result.success) {
+                onScan(data, result.message);
+                if (!keepScanning) return;
+                setAccepted(result.message);
+                setTimeout(() => {
+                    setAccepted(null);
+                    resume();
+                }, 1500);
+                return;
+            }
+            setRejection(result.message);
+            setTimeout(() => {
+                setRejection(null);
+                resume();
+            }, 2500);
+        };
+
         const startScan = async () => {
             setError(null);
+            setRejection(null);
+            setAccepted(null);
             setIsLoading(true);
 
             if (!('BarcodeDetector' in window)) {
@@ -73,7 +127,9 @@ export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen,
                              barcodeDetector.detect(videoRef.current)
                                 .then((barcodes: any[]) => {
                                     if (barcodes.length > 0) {
-                                        onScan(barcodes[0].rawValue);
+                                        handleDetected(barcodes[0].rawValue, () => {
+                                            animationFrameRef.current = requestAnimationFrame(detect);
+                                        });
                                     } else {
                                         animationFrameRef.current = requestAnimationFrame(detect);
                                     }
@@ -112,7 +168,7 @@ export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen,
             cleanup();
         };
 
-    }, [isOpen, onScan, cleanup]);
+    }, [isOpen, onScan, cleanup, checkTicket, keepScanning]);
 
 
     if (!isOpen) return null;
@@ -130,15 +186,57 @@ export const QRCodeScannerModal: React.FC<QRCodeScannerModalProps> = ({ isOpen,
                 onClick={(e) => e.stopPropagation()}
             >
                 <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
-                    <h2 id="qr-scanner-title" className="text-lg font-bold text-white">Scan Recipient's QR Code</h2>
+                    <h2 id="qr-scanner-title" className="text-lg font-bold text-white">{checkTicket ? 'Scan Ticket' : "Scan Recipient's QR Code"}</h2>
                     <button onClick={onClose} className="text-gray-400 hover:text-white text-3xl leading-none">&times;</button>
                 </div>
+                {checkTicket && zones.length > 0 && (
+                    <div className="p-3 border-b border-gray-700 flex gap-2 flex-shrink-0">
+                        <select
+                            value={zoneId}
+                            onChange={e => setZoneId(e.target.value)}
+                            className="flex-1 rounded-md border-gray-600 bg-gray-800 text-white text-sm"
+                            aria-label="Scanning at"
+                        >
+                            <option value="">Entrance</option>
+                            {zones.map(zone => (
+                                <option key={zone.id} value={zone.id}>
+                                    {zone.type === 'session' ? 'Session' : 'Room'}: {zone.name}{zone.capacity ? ` (max ${zone.capacity})` : ''}
+                                </option>
+                            ))}
+                        </select>
+                        {zoneId && (
+                            <div className="flex rounded-md overflow-hidden border border-gray-600 text-sm">
+                                {(['in', 'out'] as const).map(d => (
+                                    <button
+                                        key={d}
+                                        type="button"
+                                        onClick={() => setDirection(d)}
+                                        className={`px-3 py-1 ${direction === d ? 'bg-primary text-white' : 'bg-gray-800 text-gray-300'}`}
+                                    >
+                                        {d === 'in' ? 'Entry' : 'Exit'}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
                 <div className="flex-1 relative bg-black flex items-center justify-center">
                     <video ref={videoRef} className="w-full h-full object-cover" playsInline />
                     <div className="absolute inset-0 flex items-center justify-center">
                         {isLoading && <Loader />}
                         {error && <div className="p-4 max-w-sm mx-auto"><Alert type="error" message={error} /></div>}
                         {!isLoading && !error && <div className="absolute w-2/3 aspect-square border-4 border-dashed border-white/50 rounded-lg"></div>}
+                        {accepted && (
+                            <div className="absolute inset-x-4 bottom-4 p-4 rounded-lg bg-green-600 text-white text-center shadow-lg">
+                                <p className="font-bold">{accepted}</p>
+                            </div>
+                        )}
+                        {rejection && (
+                            <div className="absolute inset-x-4 bottom-4 p-4 rounded-lg bg-red-600 text-white text-center shadow-lg">
+                                <p className="font-bold">Ticket Rejected</p>
+                                <p className="text-sm opacity-90">{rejection}</p>
+                            </div>
+                        )}
                     </div>
                 </div>
                  <div className="p-4 text-center text-sm text-gray-400 bg-gray-800 flex-shrink-0">
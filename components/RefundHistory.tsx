@@ -0,0 +1,35 @@
+import React from 'react';
+import { type Order, type OrderRefund } from '../types';
+
+interface RefundHistoryProps {
+  order: Order;
+}
+
+const REASONS: Record<OrderRefund['reason'], string> = {
+    cancellation: 'Refunded on cancellation',
+    admin: 'Refunded by the organiser',
+    provider: 'Refunded by the payment provider'
+};
+
+/** What was paid on an order and each refund since, newest first. */
+export const RefundHistory: React.FC<RefundHistoryProps> = ({ order }) => (
+    <ol className="space-y-3">
+        {[...(order.refunds || [])].reverse().map(refund => (
+            <li key={refund.id} className="text-sm border-l-2 border-green-500/60 pl-3">
+                <p className="font-medium text-gray-900 dark:text-white">
+                    {REASONS[refund.reason]}: {refund.amount} {order.currency}
+                    <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{new Date(refund.createdAt).toLocaleString()}</span>
+                </p>
+                {refund.note && <p className="text-gray-600 dark:text-gray-300">{refund.note}</p>}
+                {refund.by && <p className="text-xs text-gray-500 dark:text-gray-400">By {refund.by}</p>}
+            </li>
+        ))}
+        <li className="text-sm border-l-2 border-primary/40 pl-3">
+            <p className="font-medium text-gray-900 dark:text-white">
+                Paid {order.total} {order.currency}
+                {order.paidAt && <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{new Date(order.paidAt).toLocaleString()}</span>}
+            </p>
+            {order.discount && <p className="text-xs text-gray-500 dark:text-gray-400">With the code {order.discount.code}</p>}
+        </li>
+    </ol>
+);
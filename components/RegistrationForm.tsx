@@ -1,13 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { type EventConfig, type TicketTier } from '../types';
+import { type EventConfig, type FormField, type OrderBilling, type TicketTier } from '../types';
 import { type RegistrationFormState } from '../App';
 import { TextInput } from './TextInput';
 import { Spinner } from './Spinner';
 import { DynamicFormField } from './DynamicFormField';
+import { answerValues, fieldAnswerError, formatAnswer, visibleFormFields } from '../server/formFields';
 import { checkPasswordStrength, type PasswordStrengthResult } from '../utils/passwordStrength';
 import { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
+import { BillingDetailsFields } from './BillingDetailsFields';
 import { useTranslation } from '../contexts/LanguageContext';
+import { tierPrice } from '../server/discounts';
+import { type DiscountCheck } from '../server/api';
 
 interface RegistrationFormProps {
   formData: RegistrationFormState;
@@ -17,6 +21,14 @@ interface RegistrationFormProps {
   isLoading: boolean;
   config: EventConfig['formFields'];
   ticketTiers?: TicketTier[];
+  /** Uploads a file chosen for a file field and resolves to its URL. */
+  onUploadFile?: (field: FormField, file: File) => Promise<string>;
+  /** Checks a discount code on the chosen ticket; the form shows `discount` once it has. */
+  onApplyDiscount?: (code: string) => Promise<void>;
+  discount?: DiscountCheck | null;
+  /** Who to invoice for a paid ticket; the form asks for it only when this is handled. */
+  billing?: OrderBilling;
+  onBillingChange?: (billing: OrderBilling) => void;
 }
 
 type FormErrors = Record<string, string>;
@@ -28,7 +40,12 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
   onReset,
   isLoading,
   config,
-  ticketTiers = []
+  ticketTiers = [],
+  onUploadFile,
+  onApplyDiscount,
+  discount,
+  billing,
+  onBillingChange
 }) => {
   const { t } = useTranslation();
   const [errors, setErrors] = useState<FormErrors>({});
@@ -36,9 +53,25 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrengthResult>({ score: 0, label: '' });
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [showConfirm, setShowConfirm] = useState(false);
+  const [discountInput, setDiscountInput] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
   const formRef = useRef<HTMLFormElement>(null);
 
   const activeTicketTiers = ticketTiers.filter(t => t.active);
+  const chosenTier = ticketTiers.find(t => t.id === formData.ticketTierId);
+  const formatPrice = (tier: TicketTier, price = tierPrice(tier)) => price === 0 ? 'Free' : `${tier.currency} ${price}`;
+
+  const handleApplyDiscount = async () => {
+      if (!onApplyDiscount) return;
+      setIsApplying(true);
+      try {
+          await onApplyDiscount(discountInput);
+      } finally {
+          setIsApplying(false);
+      }
+  };
+  // Fields whose show-if conditions fail are left out of the form, its checks and the review.
+  const visibleCustomFields = visibleFormFields(config, formData);
 
   // Initialize password strength if form data already has password
   useEffect(() => {
@@ -47,7 +80,7 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
     }
   }, []);
   
-  const handleFormChangeInternal = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleFormChangeInternal = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
     if (name === 'password') {
@@ -92,7 +125,7 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
       }
   };
 
-  const validateField = (name: string, value: string | undefined, currentData: RegistrationFormState, currentConfirmPassword: string) => {
+  const validateField = (name: string, value: any, currentData: RegistrationFormState, currentConfirmPassword: string) => {
     switch (name) {
       case 'firstName':
         return !value?.trim() ? `${t('form.firstName')} ${t('form.required').toLowerCase()}.` : '';
@@ -111,16 +144,19 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
       case 'ticketTierId':
         return activeTicketTiers.length > 0 && !value ? 'Please select a ticket option.' : '';
       default:
-        const fieldConfig = config.find(field => field.id === name);
-        if (fieldConfig?.enabled && fieldConfig?.required && !String(value || '').trim()) {
+        const fieldConfig = visibleCustomFields.find(field => field.id === name);
+        if (!fieldConfig) return '';
+        if (fieldConfig.required && fieldConfig.type !== 'consent' && answerValues(value).length === 0) {
             return `${fieldConfig.label} ${t('form.required').toLowerCase()}.`;
         }
-        return '';
+        return fieldAnswerError(fieldConfig, value) || '';
     }
   };
   
   const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
+    const { name } = e.target;
+    // Custom answers are read from the form state: a multi-select or checkbox has no single input value.
+    const value = config.some(f => f.id === name) ? formData[name] : e.target.value;
     setTouched(prev => ({ ...prev, [name]: true }));
     
     const currentConfirmPassword = name === 'confirmPassword' ? value : confirmPassword;
@@ -140,7 +176,7 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
     const newErrors: FormErrors = {};
     let firstErrorId: string | null = null;
     
-    const allFieldIds = ['firstName', 'lastName', 'email', 'password', 'confirmPassword', 'ticketTierId', ...config.filter(f => f.enabled).map(f => f.id)];
+    const allFieldIds = ['firstName', 'lastName', 'email', 'password', 'confirmPassword', 'ticketTierId', ...visibleCustomFields.map(f => f.id)];
 
     for (const id of allFieldIds) {
         const value = id === 'confirmPassword' ? confirmPassword : formData[id];
@@ -219,9 +255,14 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
                               <div className="flex justify-between items-center mt-1">
                                   <span className="font-semibold text-gray-900 dark:text-white">{selectedTicket.name}</span>
                                   <span className="font-mono font-bold text-gray-700 dark:text-gray-300">
-                                      {selectedTicket.price === 0 ? 'Free' : `${selectedTicket.currency} ${selectedTicket.price}`}
+                                      {discount?.success ? formatPrice(selectedTicket, discount.total) : formatPrice(selectedTicket)}
                                   </span>
                               </div>
+                              {discount?.success && (
+                                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                      Code {discount.discount!.code}: {selectedTicket.currency} {discount.discount!.amount} off {formatPrice(selectedTicket)}
+                                  </p>
+                              )}
                           </div>
                       )}
 
@@ -236,10 +277,10 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
                           </div>
                           
                           {/* Custom Fields */}
-                          {config.filter(f => f.enabled && formData[f.id]).map(field => (
+                          {visibleCustomFields.filter(f => answerValues(formData[f.id]).length > 0).map(field => (
                               <div key={field.id} className="py-3 grid grid-cols-3 gap-4">
                                   <dt className="font-medium text-gray-500 dark:text-gray-400">{field.label}</dt>
-                                  <dd className="col-span-2 text-gray-900 dark:text-white whitespace-pre-wrap">{formData[field.id]}</dd>
+                                  <dd className="col-span-2 text-gray-900 dark:text-white whitespace-pre-wrap">{field.type === 'file' ? 'File uploaded' : formatAnswer(formData[field.id])}</dd>
                               </div>
                           ))}
                       </dl>
@@ -268,8 +309,6 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
       );
   };
 
-  const enabledCustomFields = config.filter(field => field.enabled);
-
   return (
     <>
         <form onSubmit={handleSubmit} className="space-y-8" ref={formRef} noValidate>
@@ -302,8 +341,11 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
                                     <h4 className={`font-bold text-lg ${isSelected ? 'text-primary' : 'text-gray-900 dark:text-white'}`}>{tier.name}</h4>
                                     <div className="text-right">
                                         <span className={`block font-bold text-lg ${isSelected ? 'text-primary' : 'text-gray-900 dark:text-white'}`}>
-                                            {tier.price === 0 ? 'Free' : `${tier.currency} ${tier.price}`}
+                                            {formatPrice(tier)}
                                         </span>
+                                        {tierPrice(tier) !== tier.price && (
+                                            <span className="block text-xs text-gray-500 dark:text-gray-400 line-through">{formatPrice(tier, tier.price)}</span>
+                                        )}
                                     </div>
                                 </div>
                                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{tier.description}</p>
@@ -336,6 +378,41 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
                         {errors.ticketTierId}
                     </p>
                 )}
+                {onApplyDiscount && chosenTier && tierPrice(chosenTier) > 0 && (
+                    <div className="mt-6">
+                        <label htmlFor="discountCode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Discount code</label>
+                        <div className="mt-1 flex gap-2">
+                            <input
+                                id="discountCode"
+                                type="text"
+                                value={discountInput}
+                                onChange={e => setDiscountInput(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleApplyDiscount(); } }}
+                                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg font-mono uppercase dark:bg-gray-700 dark:text-white"
+                            />
+                            <button
+                                type="button"
+                                onClick={handleApplyDiscount}
+                                disabled={isApplying || !discountInput.trim()}
+                                className="px-4 py-2 border border-primary text-primary rounded-lg text-sm font-medium hover:bg-primary/5 disabled:opacity-50"
+                            >
+                                {isApplying ? <Spinner /> : 'Apply'}
+                            </button>
+                        </div>
+                        {discount && (
+                            <p className={`mt-2 text-sm ${discount.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                {discount.success
+                                    ? `${discount.discount!.code} takes ${discount.currency} ${discount.discount!.amount} off. You pay ${formatPrice(chosenTier, discount.total)}.`
+                                    : discount.message}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {onBillingChange && chosenTier && tierPrice(chosenTier) > 0 && (
+                    <div className="mt-6">
+                        <BillingDetailsFields value={billing || {}} onChange={onBillingChange} />
+                    </div>
+                )}
             </div>
         )}
 
@@ -410,21 +487,22 @@ export const RegistrationForm: React.FC<RegistrationFormProps> = ({
         </div>
         
         {/* Additional Info Section */}
-        {enabledCustomFields.length > 0 && (
+        {visibleCustomFields.length > 0 && (
             <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 sm:p-8 shadow-sm border border-gray-100 dark:border-gray-700">
             <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-6 flex items-center">
                     <span className="flex items-center justify-center w-8 h-8 rounded-full bg-primary/10 text-primary text-sm font-bold mr-3">{activeTicketTiers.length > 0 ? 3 : 2}</span>
                     {t('form.additionalInfo')}
             </h3>
             <div className="space-y-6">
-                {enabledCustomFields.map(field => (
+                {visibleCustomFields.map(field => (
                 <DynamicFormField
                     key={field.id}
                     field={field}
-                    value={formData[field.id] || ''}
-                    onChange={onFormChange}
+                    value={formData[field.id]}
+                    onChange={handleFormChangeInternal}
                     onBlur={handleBlur}
                     error={touched[field.id] ? errors[field.id] : ''}
+                    onUpload={onUploadFile && (file => onUploadFile(field, file))}
                 />
                 ))}
             </div>
@@ -1,20 +1,24 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { type RegistrationData, type EventConfig, Permission } from '../types';
-import { getRegistrations, getEventConfig, updateRegistrationStatus, deleteAdminRegistration, verifyTicketToken, promoteToConfirmed } from '../server/api';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { type RegistrationData, type EventConfig, type AccessZone, Permission } from '../types';
+import { getRegistrations, getEventConfig, updateRegistrationStatus, deleteAdminRegistration, processCheckIn, promoteToConfirmed, getAccessZones, type ZoneScan } from '../server/api';
 import { ContentLoader } from './ContentLoader';
 import { DelegateDetailView } from './DelegateDetailView';
 import { BulkImportModal } from './BulkImportModal';
+import { ExportBuilderModal } from './ExportBuilderModal';
 import { Alert } from './Alert';
 import { QRCodeScannerModal } from './QRCodeScannerModal';
 import { InviteDelegateModal } from './InviteDelegateModal';
+import { CheckInHistoryModal } from './CheckInHistoryModal';
 import { jsPDF } from 'jspdf';
 import { Spinner } from './Spinner';
 import { BadgePrintLayout } from './BadgePrintLayout';
+import { offerLapsed, waitlistQueue } from '../server/waitlist';
 
 interface RegistrationsDashboardProps {
   adminToken: string;
   permissions: Permission[];
+  eventId: string;
 }
 
 type SortField = 'name' | 'email' | 'createdAt' | 'status';
@@ -34,18 +38,21 @@ const getBase64ImageFromUrl = async (imageUrl: string): Promise<string> => {
     }
 };
 
-export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({ adminToken, permissions }) => {
+export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({ adminToken, permissions, eventId }) => {
   const [registrations, setRegistrations] = useState<RegistrationData[]>([]);
   const [config, setConfig] = useState<EventConfig | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedDelegate, setSelectedDelegate] = useState<RegistrationData | null>(null);
+  const [historyDelegate, setHistoryDelegate] = useState<RegistrationData | null>(null);
+  const [zones, setZones] = useState<AccessZone[]>([]);
   
   // Print State
   const [userForPrint, setUserForPrint] = useState<RegistrationData | null>(null);
   
   // Modal states
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [isInviteModalOpen, setInviteModalOpen] = useState(false);
   
@@ -73,12 +80,14 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
     try {
       setIsLoading(true);
       setError(null);
-      const [regData, configData] = await Promise.all([
+      const [regData, configData, zoneData] = await Promise.all([
           getRegistrations(adminToken),
-          getEventConfig()
+          getEventConfig(),
+          getAccessZones(adminToken)
       ]);
       setRegistrations(regData);
       setConfig(configData);
+      setZones(zoneData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load registrations. Please check your connection and try again.');
     } finally {
@@ -138,27 +147,22 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
       }
   };
 
-  const handleScan = async (token: string) => {
-    setIsScannerOpen(false);
-    setScanStatus(null);
-    
-    // Call verification endpoint
-    try {
-        const result = await verifyTicketToken(adminToken, token);
-        
-        if (result.success) {
-             // Update local state for immediate feedback
-             setRegistrations(prev => prev.map(r => r.id === result.user.id ? { ...r, checkedIn: true } : r));
-             setScanStatus({ type: 'success', message: result.message });
-        } else {
-             setScanStatus({ type: 'error', message: result.message });
-        }
-    } catch (e) {
-        setScanStatus({ type: 'error', message: "Verification failed. Please try again." });
+  // Every scan is recorded; refused ones keep the scanner open. Both handlers
+  // are stable so the open scanner does not restart its camera on re-render.
+  const handleCheckIn = useCallback(async (token: string, zoneScan?: ZoneScan) => {
+    const result = await processCheckIn(adminToken, token, zoneScan);
+    if (result.success && result.user) {
+        // Update local state for immediate feedback
+        setRegistrations(prev => prev.map(r => r.id === result.user!.id ? { ...r, checkedInAt: result.user!.checkedInAt } : r));
     }
-    
+    return result;
+  }, [adminToken]);
+
+  const handleScan = useCallback((token: string, message?: string) => {
+    setIsScannerOpen(false);
+    setScanStatus({ type: 'success', message: message || 'Checked in.' });
     setTimeout(() => setScanStatus(null), 4000);
-  };
+  }, []);
   
   const handleLaunchKiosk = () => {
       // Open kiosk in a new tab/window for dedicated mode
@@ -169,41 +173,6 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
       setUserForPrint(user);
   };
 
-  const handleExportCSV = () => {
-      if (registrations.length === 0) return;
-      
-      const headers = ['ID', 'Name', 'Email', 'Created At', 'Checked In', 'Status', 'Role', 'Company'];
-      const customHeaders = config?.formFields.filter(f => f.enabled).map(f => f.label) || [];
-      const allHeaders = [...headers, ...customHeaders];
-      
-      const csvContent = [
-          allHeaders.join(','),
-          ...registrations.map(reg => {
-              const baseData = [
-                  reg.id,
-                  `"${reg.name}"`,
-                  reg.email,
-                  new Date(reg.createdAt).toISOString(),
-                  reg.checkedIn ? 'Yes' : 'No',
-                  reg.status || 'confirmed',
-                  `"${reg.role || ''}"`,
-                  `"${reg.company || ''}"`
-              ];
-              const customData = config?.formFields.filter(f => f.enabled).map(f => `"${(reg[f.id] || '').toString().replace(/"/g, '""')}"`) || [];
-              return [...baseData, ...customData].join(',');
-          })
-      ].join('\n');
-
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `registrations_export_${new Date().toISOString().split('T')[0]}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-  };
-
   const handleExportBadges = async () => {
       if (!config || registrations.length === 0) return;
       setIsExporting(true);
@@ -351,6 +320,26 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
       }
   };
 
+  // Places in line, for the waitlist tab.
+  const queuePositions = useMemo(
+    () => new Map(waitlistQueue(registrations).map((reg, index) => [reg.id, index + 1])),
+    [registrations]
+  );
+
+  const renderWaitlistStatus = (reg: RegistrationData) => {
+      if (offerLapsed(reg)) {
+          return <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Offer lapsed</span>;
+      }
+      if (reg.waitlistOffer) {
+          return (
+              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200" title={`Offered ${new Date(reg.waitlistOffer.offeredAt).toLocaleString()}`}>
+                  Offered until {new Date(reg.waitlistOffer.expiresAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+              </span>
+          );
+      }
+      return <span className="text-gray-700 dark:text-gray-300">#{queuePositions.get(reg.id)} in line</span>;
+  };
+
   // Memoize the filtered list to avoid re-calculating on every render
   const processedRegistrations = useMemo(() => {
     let result = [...registrations];
@@ -386,8 +375,8 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
     result.sort((a, b) => {
         let valA, valB;
         if (sortField === 'status') {
-            valA = a.checkedIn ? 1 : 0;
-            valB = b.checkedIn ? 1 : 0;
+            valA = a.checkedInAt || 0;
+            valB = b.checkedInAt || 0;
         } else {
             valA = a[sortField];
             valB = b[sortField];
@@ -543,7 +532,7 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
                             Registered On {renderSortIcon('createdAt')}
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600" onClick={() => handleSort('status')}>
-                            Check-in {renderSortIcon('status')}
+                            {activeTab === 'waitlist' ? 'Waitlist' : 'Check-in'} {renderSortIcon('status')}
                         </th>
                         <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
                     </tr>
@@ -555,9 +544,9 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{reg.email}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{new Date(reg.createdAt).toLocaleDateString()}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm">
-                                {reg.checkedIn ? (
-                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-                                        Checked-in
+                                {activeTab === 'waitlist' ? renderWaitlistStatus(reg) : reg.checkedInAt ? (
+                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" title={new Date(reg.checkedInAt).toLocaleString()}>
+                                        Checked-in {new Date(reg.checkedInAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                     </span>
                                 ) : (
                                     <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
@@ -576,6 +565,15 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
                                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
                                         </svg>
                                     </button>
+                                    <button 
+                                        onClick={() => setHistoryDelegate(reg)} 
+                                        className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                                        title="Entry History"
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                        </svg>
+                                    </button>
                                     {activeTab === 'waitlist' && (
                                         <button onClick={() => handlePromote(reg.id!)} className="text-green-600 hover:underline">Promote</button>
                                     )}
@@ -610,6 +608,7 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
                 loadData(); // Refresh to show any edits
             }} 
             adminToken={adminToken} 
+            eventId={eventId}
         />
     );
   }
@@ -635,9 +634,9 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6.5 6.5v-1m-6.5-5.5h-1M4 12V4a2 2 0 012-2h8a2 2 0 012 2v8a2 2 0 01-2 2H6a2 2 0 01-2-2z" /></svg>
                     Scan to Check-in
                 </button>
-                <button onClick={handleExportCSV} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center gap-2">
+                <button onClick={() => setIsExportModalOpen(true)} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 flex items-center gap-2">
                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                     CSV
+                     Export
                 </button>
                 <button 
                     onClick={handleExportBadges} 
@@ -667,17 +666,35 @@ export const RegistrationsDashboard: React.FC<RegistrationsDashboardProps> = ({
         onClose={() => setIsImportModalOpen(false)}
         onImportSuccess={handleImportSuccess}
         adminToken={adminToken}
+        formFields={config?.formFields || []}
+      />
+      <ExportBuilderModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        adminToken={adminToken}
+        formFields={config?.formFields || []}
+        initialStatus={activeTab}
       />
       <QRCodeScannerModal
         isOpen={isScannerOpen}
         onClose={() => setIsScannerOpen(false)}
         onScan={handleScan}
+        checkTicket={handleCheckIn}
+        zones={zones}
       />
+      {historyDelegate && (
+        <CheckInHistoryModal
+          delegate={historyDelegate}
+          onClose={() => setHistoryDelegate(null)}
+          adminToken={adminToken}
+        />
+      )}
       <InviteDelegateModal
         isOpen={isInviteModalOpen}
         onClose={() => setInviteModalOpen(false)}
         onInviteSuccess={handleInviteSuccess}
         adminToken={adminToken}
+        eventId={eventId}
       />
     </div>
   );
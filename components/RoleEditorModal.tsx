@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { type Role, type Permission, ALL_PERMISSIONS } from '../types';
 import { Spinner } from './Spinner';
+import { ToggleSwitch } from './ToggleSwitch';
 
 interface RoleEditorModalProps {
   isOpen: boolean;
@@ -14,6 +15,7 @@ export const RoleEditorModal: React.FC<RoleEditorModalProps> = ({ isOpen, onClos
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [permissions, setPermissions] = useState<Set<Permission>>(new Set());
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -24,6 +26,7 @@ export const RoleEditorModal: React.FC<RoleEditorModalProps> = ({ isOpen, onClos
       setName(role?.name || '');
       setDescription(role?.description || '');
       setPermissions(new Set(role?.permissions || []));
+      setRequireTwoFactor(!!role?.requireTwoFactor);
       setError(null);
       setIsSaving(false);
     }
@@ -57,6 +60,7 @@ export const RoleEditorModal: React.FC<RoleEditorModalProps> = ({ isOpen, onClos
       name,
       description,
       permissions: Array.from(permissions),
+      requireTwoFactor,
     };
     
     const success = await onSave(data);
@@ -80,6 +84,11 @@ export const RoleEditorModal: React.FC<RoleEditorModalProps> = ({ isOpen, onClos
             
             <InputField label="Role Name" id="name" type="text" value={name} onChange={e => setName(e.target.value)} required />
             <InputField label="Description" id="description" type="text" value={description} onChange={e => setDescription(e.target.value)} />
+
+            <div>
+              <ToggleSwitch label="Require two-factor authentication" name="requireTwoFactor" enabled={requireTwoFactor} onChange={setRequireTwoFactor} />
+              <p className="text-xs text-gray-500 dark:text-gray-400">Members must set up an authenticator app at their next login.</p>
+            </div>
             
             <div>
               <h3 className="text-md font-medium text-gray-900 dark:text-white mb-2">Permissions</h3>
@@ -0,0 +1,91 @@
+
+import React, { useState } from 'react';
+import { saveEventTemplate } from '../server/api';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (name: string) => void;
+  adminToken: string;
+  eventId: string;
+  defaultName: string;
+}
+
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ isOpen, onClose, onSaved, adminToken, eventId, defaultName }) => {
+    const [name, setName] = useState(defaultName);
+    const [description, setDescription] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) {
+            setError("Template name is required.");
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            await saveEventTemplate(adminToken, eventId, name.trim(), description.trim());
+            onSaved(name.trim());
+            setDescription('');
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save template.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Save as Template</h2>
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                    Saves this event's settings, registration form, ticket tiers, agenda, speakers, sponsors, venue maps, hotels and meal plans so new events can start from them. Registrations and email credentials are not included.
+                </p>
+                <form onSubmit={handleSave} className="mt-6 space-y-4">
+                    {error && <Alert type="error" message={error} />}
+                    <div>
+                        <label htmlFor="templateName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template Name</label>
+                        <input
+                            type="text"
+                            id="templateName"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="templateDescription" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+                        <textarea
+                            id="templateDescription"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            rows={3}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700"
+                            placeholder="e.g., Annual conference, three days, two tracks"
+                        />
+                    </div>
+                    <div className="pt-2 flex justify-end gap-3">
+                        <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium">
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary hover:bg-primary/90 flex items-center justify-center disabled:opacity-50"
+                        >
+                            {isSaving ? <><Spinner /> Saving...</> : 'Save Template'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
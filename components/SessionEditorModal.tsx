@@ -13,6 +13,7 @@ interface SessionEditorModalProps {
     adminToken: string;
     speakers: Speaker[];
     existingSessions?: Session[]; // For conflict detection
+    benefits?: string[]; // Ticket tier benefits that can gate entry
 }
 
 const InputField: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, ...props }) => (
@@ -22,7 +23,7 @@ const InputField: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label
     </div>
 );
 
-export const SessionEditorModal: React.FC<SessionEditorModalProps> = ({ isOpen, onClose, onSave, session, adminToken, speakers, existingSessions = [] }) => {
+export const SessionEditorModal: React.FC<SessionEditorModalProps> = ({ isOpen, onClose, onSave, session, adminToken, speakers, existingSessions = [], benefits = [] }) => {
     const [formData, setFormData] = useState<Partial<Session>>({});
     const [selectedSpeakerIds, setSelectedSpeakerIds] = useState<Set<string>>(new Set());
     const [isSaving, setIsSaving] = useState(false);
@@ -219,6 +220,31 @@ export const SessionEditorModal: React.FC<SessionEditorModalProps> = ({ isOpen,
                             <InputField label="End Time" id="endTime" name="endTime" type="datetime-local" value={formatDateTimeLocal(formData.endTime)} onChange={handleChange} required />
                         </div>
                         <InputField label="Location" id="location" name="location" type="text" value={formData.location || ''} onChange={handleChange} placeholder="e.g., Main Hall" required />
+
+                        {benefits.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Entry Requires</label>
+                                <p className="text-xs text-gray-500 mb-2">Door scans only admit tickets with one of the selected benefits. Leave empty to admit everyone.</p>
+                                <div className="flex flex-wrap gap-3">
+                                    {benefits.map(benefit => (
+                                        <label key={benefit} className="flex items-center space-x-2 cursor-pointer text-sm text-gray-700 dark:text-gray-200">
+                                            <input
+                                                type="checkbox"
+                                                checked={(formData.requiredBenefits || []).includes(benefit)}
+                                                onChange={e => setFormData(prev => ({
+                                                    ...prev,
+                                                    requiredBenefits: e.target.checked
+                                                        ? [...(prev.requiredBenefits || []), benefit]
+                                                        : (prev.requiredBenefits || []).filter(b => b !== benefit)
+                                                }))}
+                                                className="rounded text-primary focus:ring-primary"
+                                            />
+                                            <span>{benefit}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                         
                         <div>
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
@@ -1,21 +1,38 @@
 
 import React, { useState, useEffect } from 'react';
-import { type EventConfig, type FormField } from '../types';
-import { getEventConfig, saveConfig, syncConfigFromGitHub, pushConfigToGitHub, sendTestEmail, getSystemApiKey, sendTestMessage } from '../server/api';
+import { type BillingConfig, type EventConfig, type FormField, type TaxRate, type TicketTier } from '../types';
+import { getEventConfig, getTicketTiers, saveConfig, syncConfigFromGitHub, pushConfigToGitHub, sendTestEmail, getSystemApiKey, sendTestMessage } from '../server/api';
 import { ContentLoader } from './ContentLoader';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
 import { ToggleSwitch } from './ToggleSwitch';
 import { FormFieldEditorModal } from './FormFieldEditorModal';
+import { SaveTemplateModal } from './SaveTemplateModal';
+import { DEFAULT_WAITLIST_OFFER_HOURS } from '../server/waitlist';
+import { FORM_FIELD_TYPES } from '../server/formFields';
+import { DEFAULT_INVOICE_PREFIX, billingConfigProblem } from '../server/invoices';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface SettingsFormProps {
   adminToken: string;
+  eventId: string;
 }
 
+// `datetime-local` inputs work in local time; the config stores ISO instants.
+const toLocalInput = (iso?: string) => {
+  if (!iso || isNaN(Date.parse(iso))) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+const BLANK_BILLING: BillingConfig = {
+  companyName: '', address: '', country: '', invoicePrefix: DEFAULT_INVOICE_PREFIX, defaultTaxRate: 0, taxRates: [], reverseCharge: false
+};
+
 type Tab = 'general' | 'communications' | 'registration' | 'integrations' | 'advanced' | 'printing';
 
-export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
+export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken, eventId }) => {
   const { config: contextConfig, updateConfig, isLoading: isContextLoading } = useTheme();
   
   const [config, setConfig] = useState<EventConfig | null>(null);
@@ -38,7 +55,9 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
 
   // Modal State
   const [isFieldModalOpen, setIsFieldModalOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const [editingField, setEditingField] = useState<FormField | null>(null);
+  const [ticketTiers, setTicketTiers] = useState<TicketTier[]>([]);
 
   useEffect(() => {
     const loadConfig = async () => {
@@ -48,6 +67,7 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
         setConfig(cfg);
         const key = await getSystemApiKey(adminToken);
         setApiKey(key);
+        setTicketTiers(await getTicketTiers(adminToken));
       } catch (e) {
         setError("Failed to load settings.");
       } finally {
@@ -71,6 +91,15 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
     });
   };
 
+  const handleBillingChange = (changes: Partial<BillingConfig>) => {
+    setConfig(prev => prev && { ...prev, billing: { ...BLANK_BILLING, ...prev.billing, ...changes } });
+  };
+
+  const updateTaxRate = (index: number, changes: Partial<TaxRate>) => {
+    const rates = config?.billing?.taxRates || [];
+    handleBillingChange({ taxRates: rates.map((rate, i) => i === index ? { ...rate, ...changes } : rate) });
+  };
+
   const handleGoogleConfigChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     if (!config) return;
     const { name, value } = e.target;
@@ -115,6 +144,12 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
         }
     }
 
+    const billingProblem = billingConfigProblem(config.billing);
+    if (billingProblem) {
+        setError(billingProblem);
+        return;
+    }
+
     setIsSaving(true);
     setError(null);
     setSuccessMessage(null);
@@ -202,12 +237,21 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
   }
 
   const safeGoogle = config.googleConfig || { serviceAccountKeyJson: '' };
+  const billing = { ...BLANK_BILLING, ...config.billing };
+  const inputClass = "mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm focus:border-primary focus:ring-primary sm:text-sm dark:text-white";
 
   return (
     <div className="max-w-4xl mx-auto">
         <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Event Settings</h2>
             <div className="flex gap-2">
+                <button
+                    type="button"
+                    onClick={() => setIsTemplateModalOpen(true)}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                    Save as Template
+                </button>
                 <button
                     onClick={handleSave}
                     disabled={isSaving}
@@ -450,7 +494,7 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
                                 <div>
                                     <p className="font-medium text-gray-900 dark:text-white">{field.label}</p>
                                     <p className="text-xs text-gray-500 dark:text-gray-400">
-                                        Type: {field.type} • {field.required ? 'Required' : 'Optional'} • {field.enabled ? 'Enabled' : 'Disabled'}
+                                        Type: {FORM_FIELD_TYPES[field.type] || field.type} • {field.required ? 'Required' : 'Optional'} • {field.enabled ? 'Enabled' : 'Disabled'}{field.showIf?.length ? ' • Conditional' : ''}
                                     </p>
                                 </div>
                                 <div className="flex gap-2">
@@ -461,6 +505,124 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
                         ))}
                         {config.formFields.length === 0 && <p className="text-gray-500 italic text-sm">No custom fields defined.</p>}
                     </div>
+
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white border-b pb-2 dark:border-gray-700">Ticket Validity</h3>
+                    <p className="text-sm text-gray-500">Ticket QR codes are signed and checked offline at the door. Codes issued after a change use the new window. Without dates, a ticket is valid for a year from issue.</p>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div>
+                            <label htmlFor="ticketValidFrom" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Valid From</label>
+                            <input
+                                id="ticketValidFrom"
+                                type="datetime-local"
+                                value={toLocalInput(config.ticketValidity?.from)}
+                                onChange={(e) => handleInputChange('ticketValidity', 'from', fromLocalInput(e.target.value))}
+                                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm focus:border-primary focus:ring-primary sm:text-sm dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="ticketValidUntil" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Valid Until</label>
+                            <input
+                                id="ticketValidUntil"
+                                type="datetime-local"
+                                value={toLocalInput(config.ticketValidity?.until)}
+                                onChange={(e) => handleInputChange('ticketValidity', 'until', fromLocalInput(e.target.value))}
+                                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm focus:border-primary focus:ring-primary sm:text-sm dark:text-white"
+                            />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white border-b pb-2 dark:border-gray-700">Capacity &amp; Waitlist</h3>
+                    <p className="text-sm text-gray-500">Once the event or a ticket tier is full, new registrations join the waitlist. When a seat frees up, the next person in line is emailed an offer and has until it expires to claim the seat before it passes on.</p>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div>
+                            <label htmlFor="maxAttendees" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Max Attendees</label>
+                            <input
+                                id="maxAttendees"
+                                type="number"
+                                min={0}
+                                value={config.event.maxAttendees}
+                                onChange={(e) => handleInputChange('event', 'maxAttendees', parseInt(e.target.value, 10) || 0)}
+                                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm focus:border-primary focus:ring-primary sm:text-sm dark:text-white"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">0 for no limit.</p>
+                        </div>
+                        <div>
+                            <label htmlFor="waitlistOfferHours" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Offer Expires After (hours)</label>
+                            <input
+                                id="waitlistOfferHours"
+                                type="number"
+                                min={1}
+                                value={config.event.waitlistOfferHours ?? DEFAULT_WAITLIST_OFFER_HOURS}
+                                onChange={(e) => handleInputChange('event', 'waitlistOfferHours', parseInt(e.target.value, 10) || DEFAULT_WAITLIST_OFFER_HOURS)}
+                                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-sm focus:border-primary focus:ring-primary sm:text-sm dark:text-white"
+                            />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white border-b pb-2 dark:border-gray-700">Billing &amp; Tax</h3>
+                    <p className="text-sm text-gray-500">Every paid order gets a numbered invoice from the seller below. Ticket prices include tax; the rate for a line is the one for its ticket tier and the buyer's country, then the tier's, then the country's, then the default. Issued invoices keep the details they were issued with.</p>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div>
+                            <label htmlFor="billingCompanyName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Seller Name</label>
+                            <input id="billingCompanyName" type="text" placeholder={config.host.name} value={billing.companyName} onChange={(e) => handleBillingChange({ companyName: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="billingEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Billing Email</label>
+                            <input id="billingEmail" type="email" placeholder={config.host.email} value={billing.email || ''} onChange={(e) => handleBillingChange({ email: e.target.value })} className={inputClass} />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label htmlFor="billingAddress" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Address</label>
+                            <textarea id="billingAddress" rows={2} value={billing.address} onChange={(e) => handleBillingChange({ address: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="billingCountry" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Country (two-letter code)</label>
+                            <input id="billingCountry" type="text" maxLength={2} placeholder="DE" value={billing.country} onChange={(e) => handleBillingChange({ country: e.target.value.toUpperCase() })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="billingVatId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">VAT ID</label>
+                            <input id="billingVatId" type="text" value={billing.vatId || ''} onChange={(e) => handleBillingChange({ vatId: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="invoicePrefix" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Invoice Number Prefix</label>
+                            <input id="invoicePrefix" type="text" value={billing.invoicePrefix} onChange={(e) => handleBillingChange({ invoicePrefix: e.target.value })} className={inputClass} />
+                            <p className="mt-1 text-xs text-gray-500">Numbers continue from the last invoice, e.g. {billing.invoicePrefix}00042.</p>
+                        </div>
+                        <div>
+                            <label htmlFor="defaultTaxRate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Default Tax Rate (%)</label>
+                            <input id="defaultTaxRate" type="number" min={0} max={100} step="0.01" value={billing.defaultTaxRate} onChange={(e) => handleBillingChange({ defaultTaxRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <label htmlFor="billingFooter" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Invoice Footer</label>
+                            <textarea id="billingFooter" rows={2} placeholder="Registered office, company number, bank details" value={billing.footer || ''} onChange={(e) => handleBillingChange({ footer: e.target.value })} className={inputClass} />
+                        </div>
+                    </div>
+                    <ToggleSwitch
+                        label="Reverse charge for businesses abroad that give a VAT ID"
+                        name="billing.reverseCharge"
+                        enabled={billing.reverseCharge}
+                        onChange={(val) => handleBillingChange({ reverseCharge: val })}
+                    />
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tax Rates</span>
+                            <button type="button" onClick={() => handleBillingChange({ taxRates: [...billing.taxRates, { country: '', rate: 0, label: 'VAT' }] })} className="text-sm text-primary hover:underline">+ Add Rate</button>
+                        </div>
+                        {billing.taxRates.length === 0 && <p className="text-gray-500 italic text-sm">The default rate applies to everything.</p>}
+                        {billing.taxRates.map((rate, index) => (
+                            <div key={index} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-center">
+                                <select aria-label="Ticket tier" value={rate.ticketTierId || ''} onChange={(e) => updateTaxRate(index, { ticketTierId: e.target.value || undefined })} className={`${inputClass} sm:col-span-2`}>
+                                    <option value="">Any ticket</option>
+                                    {ticketTiers.map(tier => <option key={tier.id} value={tier.id}>{tier.name}</option>)}
+                                </select>
+                                <input aria-label="Country" type="text" maxLength={2} placeholder="Any country" value={rate.country || ''} onChange={(e) => updateTaxRate(index, { country: e.target.value.toUpperCase() || undefined })} className={inputClass} />
+                                <input aria-label="Rate (%)" type="number" min={0} max={100} step="0.01" value={rate.rate} onChange={(e) => updateTaxRate(index, { rate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                                <div className="flex gap-2 items-center">
+                                    <input aria-label="Label" type="text" placeholder="VAT" value={rate.label || ''} onChange={(e) => updateTaxRate(index, { label: e.target.value || undefined })} className={inputClass} />
+                                    <button type="button" onClick={() => handleBillingChange({ taxRates: billing.taxRates.filter((_, i) => i !== index) })} className="text-sm text-red-600 hover:text-red-800">Remove</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
                 </div>
             )}
 
@@ -610,6 +772,16 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ adminToken }) => {
             onClose={() => setIsFieldModalOpen(false)}
             onSave={handleSaveField}
             field={editingField}
+            earlierFields={editingField ? config.formFields.slice(0, config.formFields.findIndex(f => f.id === editingField.id)) : config.formFields}
+            ticketTiers={ticketTiers}
+        />
+        <SaveTemplateModal
+            isOpen={isTemplateModalOpen}
+            onClose={() => setIsTemplateModalOpen(false)}
+            onSaved={(name) => setSuccessMessage(`Saved template "${name}".`)}
+            adminToken={adminToken}
+            eventId={eventId}
+            defaultName={config.event.name}
         />
     </div>
   );
@@ -4,6 +4,7 @@ import { getDatabaseSchema, generateSqlExport, isBackendConnected, initializeApi
 import { ContentLoader } from './ContentLoader';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
+import { PendingWritesPanel } from './PendingWritesPanel';
 
 interface SystemStatusProps {
   adminToken: string;
@@ -141,6 +142,8 @@ export const SystemStatus: React.FC<SystemStatusProps> = ({ adminToken }) => {
               </button>
           </div>
           {seedMessage && <div className="mt-3"><Alert type="success" message={seedMessage} /></div>}
+
+          {isOnline && <PendingWritesPanel />}
       </div>
 
       <div className="border-b border-gray-200 dark:border-gray-700 mb-6">
@@ -8,6 +8,7 @@ import { TaskEditorModal } from './TaskEditorModal';
 
 interface TasksDashboardProps {
   adminToken: string;
+  eventId: string;
 }
 
 const COLUMNS: { id: TaskStatus; title: string }[] = [
@@ -89,7 +90,7 @@ const TaskCard: React.FC<{ task: Task; onClick: () => void; adminUsers: AdminUse
   );
 };
 
-export const TasksDashboard: React.FC<TasksDashboardProps> = ({ adminToken }) => {
+export const TasksDashboard: React.FC<TasksDashboardProps> = ({ adminToken, eventId }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -107,7 +108,7 @@ export const TasksDashboard: React.FC<TasksDashboardProps> = ({ adminToken }) =>
       if (tasks.length === 0) setIsLoading(true);
       
       const [tasksData, usersData] = await Promise.all([
-        getTasks(adminToken, 'main-event'),
+        getTasks(adminToken, eventId),
         getAdminUsers(adminToken),
       ]);
       setTasks(tasksData);
@@ -121,7 +122,7 @@ export const TasksDashboard: React.FC<TasksDashboardProps> = ({ adminToken }) =>
 
   useEffect(() => {
     fetchData();
-  }, [adminToken]);
+  }, [adminToken, eventId]);
 
   const filteredTasks = useMemo(() => {
       return tasks.filter(t => {
@@ -157,7 +158,7 @@ export const TasksDashboard: React.FC<TasksDashboardProps> = ({ adminToken }) =>
 
   const handleSaveTask = async (data: Partial<Task>): Promise<boolean> => {
     try {
-      await saveTask(adminToken, { ...data, eventId: 'main-event' });
+      await saveTask(adminToken, { ...data, eventId });
       await fetchData();
       return true;
     } catch (err) {
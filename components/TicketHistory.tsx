@@ -0,0 +1,27 @@
+import React from 'react';
+import { type TicketHolderChange } from '../types';
+
+interface TicketHistoryProps {
+  history: TicketHolderChange[];
+}
+
+/** A ticket's transfers and name changes, newest first. */
+export const TicketHistory: React.FC<TicketHistoryProps> = ({ history }) => {
+    if (history.length === 0) return <p className="text-sm text-gray-500 dark:text-gray-400">This ticket has not changed hands.</p>;
+    return (
+        <ol className="space-y-3">
+            {[...history].reverse().map((change, index) => (
+                <li key={`${change.at}_${index}`} className="text-sm border-l-2 border-primary/40 pl-3">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                        {change.type === 'transfer' ? 'Transferred' : 'Holder details changed'}
+                        <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{new Date(change.at).toLocaleString()}</span>
+                    </p>
+                    <p className="text-gray-600 dark:text-gray-300">
+                        {change.fromName} ({change.fromEmail}) → {change.toName} ({change.toEmail})
+                    </p>
+                    {change.by && <p className="text-xs text-gray-500 dark:text-gray-400">By {change.by}</p>}
+                </li>
+            ))}
+        </ol>
+    );
+};
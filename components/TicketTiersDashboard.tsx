@@ -1,14 +1,21 @@
 
 import React, { useState, useEffect } from 'react';
-import { type TicketTier } from '../types';
+import { type CancellationRule, type TicketTier, type TierPriceWindow } from '../types';
 import { getTicketTiers, saveTicketTier, deleteTicketTier } from '../server/api';
+import { activePriceWindow, priceScheduleProblem, tierPrice } from '../server/discounts';
+import { cancellationPolicyProblem } from '../server/refunds';
 import { ContentLoader } from './ContentLoader';
 import { Spinner } from './Spinner';
 import { Alert } from './Alert';
+import { DiscountCodesPanel } from './DiscountCodesPanel';
 
 interface TicketTiersDashboardProps {
   adminToken: string;
 }
+// `datetime-local` inputs work in local time; price windows and refund deadlines store Unix milliseconds.
+// `datetime-local` inputs work in local time; price windows store Unix milliseconds.
+const toLocalInput = (ms?: number) => ms === undefined || isNaN(ms) ? '' : new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+const fromLocalInput = (value: string) => value ? new Date(value).getTime() : undefined;
 
 export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ adminToken }) => {
     const [tiers, setTiers] = useState<TicketTier[]>([]);
@@ -17,6 +24,7 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
     const [editingTier, setEditingTier] = useState<Partial<TicketTier> | null>(null);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [benefitsInput, setBenefitsInput] = useState('');
+    const [formError, setFormError] = useState<string | null>(null);
 
     const fetchData = async () => {
         setIsLoading(true);
@@ -35,6 +43,7 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
     }, [adminToken]);
 
     const openModal = (tier?: TicketTier) => {
+        setFormError(null);
         if (tier) {
             setEditingTier(tier);
             setBenefitsInput(tier.benefits.join('\n'));
@@ -58,6 +67,11 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
         if (!editingTier?.name) return;
         
         const benefits = benefitsInput.split('\n').filter(b => b.trim());
+        const problem = priceScheduleProblem(editingTier.priceSchedule || []) || cancellationPolicyProblem(editingTier.cancellationPolicy || []);
+        if (problem) {
+            setFormError(problem);
+            return;
+        }
         
         await saveTicketTier(adminToken, { ...editingTier, benefits });
         setIsModalOpen(false);
@@ -71,6 +85,13 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
         }
     };
 
+    const schedule = editingTier?.priceSchedule || [];
+    const updateWindow = (index: number, changes: Partial<TierPriceWindow>) =>
+        setEditingTier({ ...editingTier, priceSchedule: schedule.map((w, i) => i === index ? { ...w, ...changes } : w) });
+    const policy = editingTier?.cancellationPolicy || [];
+    const updateRule = (index: number, changes: Partial<CancellationRule>) =>
+        setEditingTier({ ...editingTier, cancellationPolicy: policy.map((r, i) => i === index ? { ...r, ...changes } : r) });
+
     if (isLoading) return <ContentLoader text="Loading tickets..." />;
 
     return (
@@ -91,7 +112,10 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
             {error && <Alert type="error" message={error} />}
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {tiers.map(tier => (
+                {tiers.map(tier => {
+                    const price = tierPrice(tier);
+                    const priceWindow = activePriceWindow(tier);
+                    return (
                     <div key={tier.id} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden flex flex-col">
                         <div className="p-6 flex-1">
                             <div className="flex justify-between items-start mb-4">
@@ -101,8 +125,13 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
                                 </span>
                             </div>
                             <div className="text-3xl font-extrabold text-gray-900 dark:text-white mb-2">
-                                {tier.price === 0 ? 'Free' : `${tier.currency} ${tier.price}`}
+                                {price === 0 ? 'Free' : `${tier.currency} ${price}`}
                             </div>
+                            {priceWindow && (
+                                <p className="text-xs font-medium text-primary mb-2">
+                                    {priceWindow.label}{priceWindow.endsAt ? ` until ${new Date(priceWindow.endsAt).toLocaleString()}` : ''} · regular {tier.currency} {tier.price}
+                                </p>
+                            )}
                             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{tier.description}</p>
                             
                             <div className="space-y-2 mb-4">
@@ -132,14 +161,18 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
                             <button onClick={() => handleDelete(tier.id)} className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded">Delete</button>
                         </div>
                     </div>
-                ))}
+                    );
+                })}
             </div>
 
+            <DiscountCodesPanel adminToken={adminToken} tiers={tiers} />
+
             {/* Edit Modal */}
             {isModalOpen && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setIsModalOpen(false)}>
-                    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
                         <h3 className="text-xl font-bold mb-4">{editingTier?.id ? 'Edit Tier' : 'New Ticket Tier'}</h3>
+                        {formError && <Alert type="error" message={formError} />}
                         <form onSubmit={handleSave} className="space-y-4">
                             <input 
                                 type="text" 
@@ -184,6 +217,47 @@ export const TicketTiersDashboard: React.FC<TicketTiersDashboardProps> = ({ admi
                                     placeholder="Fast Track Entry&#10;Lounge Access"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Price Schedule</label>
+                                <p className="text-xs text-gray-500 mb-2">Prices that apply for a while instead of the regular price, e.g. early bird.</p>
+                                {schedule.map((w, i) => (
+                                    <div key={i} className="p-3 mb-2 border rounded dark:border-gray-600 space-y-2">
+                                        <div className="flex gap-2">
+                                            <input type="text" placeholder="Name (e.g. Early Bird)" className="flex-1 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                value={w.label} onChange={e => updateWindow(i, { label: e.target.value })} />
+                                            <input type="number" min={0} placeholder="Price" aria-label="Window price" className="w-24 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                value={w.price} onChange={e => updateWindow(i, { price: parseFloat(e.target.value) })} />
+                                            <button type="button" onClick={() => setEditingTier({ ...editingTier, priceSchedule: schedule.filter((_, j) => j !== i) })} className="px-2 text-red-600" aria-label="Remove window">&times;</button>
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2 text-xs">
+                                            <label>From<input type="datetime-local" className="mt-1 w-full p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                value={toLocalInput(w.startsAt)} onChange={e => updateWindow(i, { startsAt: fromLocalInput(e.target.value) })} /></label>
+                                            <label>Until<input type="datetime-local" className="mt-1 w-full p-1 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                value={toLocalInput(w.endsAt)} onChange={e => updateWindow(i, { endsAt: fromLocalInput(e.target.value) })} /></label>
+                                        </div>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setEditingTier({ ...editingTier, priceSchedule: [...schedule, { label: '', price: editingTier?.price || 0 }] })} className="text-sm text-primary font-medium">
+                                    + Add price window
+                                </button>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Cancellation Policy</label>
+                                <p className="text-xs text-gray-500 mb-2">How much of the price a delegate gets back when cancelling before each deadline. No refund after the last one.</p>
+                                {policy.map((rule, i) => (
+                                    <div key={i} className="flex items-center gap-2 mb-2 text-sm">
+                                        <input type="number" min={0} max={100} aria-label="Refund percent" className="w-20 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                            value={rule.refundPercent} onChange={e => updateRule(i, { refundPercent: parseFloat(e.target.value) })} />
+                                        <span>% until</span>
+                                        <input type="datetime-local" aria-label="Refund deadline" className="flex-1 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                                            value={toLocalInput(rule.until)} onChange={e => updateRule(i, { until: fromLocalInput(e.target.value) ?? NaN })} />
+                                        <button type="button" onClick={() => setEditingTier({ ...editingTier, cancellationPolicy: policy.filter((_, j) => j !== i) })} className="px-2 text-red-600" aria-label="Remove deadline">&times;</button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setEditingTier({ ...editingTier, cancellationPolicy: [...policy, { refundPercent: policy.length === 0 ? 100 : 50, until: NaN }] })} className="text-sm text-primary font-medium">
+                                    + Add refund deadline
+                                </button>
+                            </div>
                             <div className="flex items-center gap-2">
                                 <input 
                                     type="checkbox" 
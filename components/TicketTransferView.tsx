@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { cancelTicketTransfer, getTicketTransfer, offerTicketTransfer, type TicketTransferStatus } from '../server/api';
+import { Alert } from './Alert';
+import { Spinner } from './Spinner';
+import { TextInput } from './TextInput';
+import { TicketHistory } from './TicketHistory';
+
+interface TicketTransferViewProps {
+  delegateToken: string;
+}
+
+/** Lets the delegate hand their ticket to a colleague, and shows the ticket's history. */
+export const TicketTransferView: React.FC<TicketTransferViewProps> = ({ delegateToken }) => {
+    const [status, setStatus] = useState<TicketTransferStatus | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [recipient, setRecipient] = useState({ name: '', email: '' });
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            setStatus(await getTicketTransfer(delegateToken));
+        } catch (e) {
+            setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to load your ticket.' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [delegateToken]);
+
+    useEffect(() => {
+        fetchStatus();
+    }, [fetchStatus]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setRecipient(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleOffer = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setMessage(null);
+        try {
+            const pending = await offerTicketTransfer(delegateToken, recipient);
+            setMessage({ type: 'success', text: `We emailed ${pending.toEmail} a link to accept your ticket.` });
+            setRecipient({ name: '', email: '' });
+            fetchStatus();
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to offer your ticket.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!window.confirm('Cancel this transfer? The link we sent will stop working.')) return;
+        setIsSaving(true);
+        setMessage(null);
+        try {
+            await cancelTicketTransfer(delegateToken);
+            setMessage({ type: 'success', text: 'The transfer has been cancelled. Your ticket is still yours.' });
+            fetchStatus();
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to cancel the transfer.' });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading) return <div className="flex justify-center py-10"><Spinner /></div>;
+
+    const pending = status?.pendingTransfer;
+
+    return (
+        <div className="max-w-2xl mx-auto space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Transfer My Ticket</h2>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Can't make it? Give your ticket to a colleague. They accept from an email we send them and complete the registration form; your pass stops working once they do.
+                </p>
+            </div>
+            {message && <Alert type={message.type} message={message.text} />}
+
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+                {status?.rejection ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{status.rejection}</p>
+                ) : pending ? (
+                    <div className="space-y-3">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            Waiting for <span className="font-semibold">{pending.toName || pending.toEmail}</span> ({pending.toEmail}) to accept.
+                            The link is valid until {new Date(pending.expiresAt).toLocaleString()}.
+                        </p>
+                        <button onClick={handleCancel} disabled={isSaving} className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-200 disabled:opacity-50">
+                            Cancel Transfer
+                        </button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleOffer} className="space-y-4">
+                        <TextInput label="Their Name" name="name" value={recipient.name} onChange={handleChange} />
+                        <TextInput label="Their Email" name="email" type="email" value={recipient.email} onChange={handleChange} required />
+                        <button type="submit" disabled={isSaving || !recipient.email.trim()} className="inline-flex items-center px-4 py-2 bg-primary text-white rounded-md shadow-sm text-sm hover:bg-primary/90 disabled:opacity-50">
+                            {isSaving && <Spinner />}
+                            Send Transfer
+                        </button>
+                    </form>
+                )}
+            </div>
+
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Ticket History</h3>
+                <TicketHistory history={status?.history || []} />
+            </div>
+        </div>
+    );
+};
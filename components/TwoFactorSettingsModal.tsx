@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { type TwoFactorSetup } from '../types';
+import { getTwoFactorStatus, startTwoFactorSetup, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes } from '../server/api';
+import { ContentLoader } from './ContentLoader';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { AuthenticatorSetup, RecoveryCodesList } from './TwoFactorSetupDetails';
+
+interface TwoFactorSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    adminToken: string;
+}
+
+type Status = { enabled: boolean; required: boolean; recoveryCodesRemaining: number };
+type Action = 'none' | 'setup' | 'disable' | 'regenerate';
+
+export const TwoFactorSettingsModal: React.FC<TwoFactorSettingsModalProps> = ({ isOpen, onClose, adminToken }) => {
+    const [status, setStatus] = useState<Status | null>(null);
+    const [action, setAction] = useState<Action>('none');
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchStatus = async () => {
+        setStatus(null);
+        try {
+            setStatus(await getTwoFactorStatus(adminToken));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load two-factor settings.');
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setAction('none');
+            setSetup(null);
+            setCode('');
+            setRecoveryCodes([]);
+            setError(null);
+            fetchStatus();
+        }
+    }, [isOpen, adminToken]);
+
+    const handleStartSetup = async () => {
+        setError(null);
+        setIsSubmitting(true);
+        try {
+            setSetup(await startTwoFactorSetup(adminToken));
+            setAction('setup');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to start setup.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSubmitCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsSubmitting(true);
+        try {
+            if (action === 'setup') {
+                setRecoveryCodes(await enableTwoFactor(adminToken, code));
+            } else if (action === 'regenerate') {
+                setRecoveryCodes(await regenerateRecoveryCodes(adminToken, code));
+            } else if (action === 'disable') {
+                await disableTwoFactor(adminToken, code);
+            }
+            setAction('none');
+            setSetup(null);
+            setCode('');
+            await fetchStatus();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Verification failed.');
+            setCode('');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const renderBody = () => {
+        if (!status) return error ? null : <ContentLoader />;
+
+        if (recoveryCodes.length > 0) return <RecoveryCodesList codes={recoveryCodes} />;
+
+        if (action !== 'none') {
+            return (
+                <form onSubmit={handleSubmitCode} className="space-y-4">
+                    {action === 'setup' && setup && <AuthenticatorSetup setup={setup} />}
+                    <div>
+                        <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            {action === 'setup' ? 'Code from your app' : 'Authentication or recovery code'}
+                        </label>
+                        <input
+                            id="two-factor-code"
+                            type="text"
+                            autoComplete="one-time-code"
+                            required
+                            autoFocus
+                            value={code}
+                            onChange={e => setCode(e.target.value)}
+                            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono tracking-widest text-center"
+                            placeholder="123456"
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => { setAction('none'); setSetup(null); setCode(''); setError(null); }} className="px-3 py-1.5 border rounded text-sm">Cancel</button>
+                        <button type="submit" disabled={isSubmitting} className={`px-3 py-1.5 text-white rounded text-sm disabled:opacity-50 ${action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary/90'}`}>
+                            {isSubmitting ? <Spinner /> : action === 'setup' ? 'Turn On' : action === 'disable' ? 'Turn Off' : 'Generate New Codes'}
+                        </button>
+                    </div>
+                </form>
+            );
+        }
+
+        if (!status.enabled) {
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                        Protect your account with a second step at sign-in: a 6-digit code from an authenticator app on your phone.
+                    </p>
+                    <button onClick={handleStartSetup} disabled={isSubmitting} className="w-full py-2 px-4 text-sm font-medium text-white bg-primary rounded-md shadow-sm hover:bg-primary/90 disabled:opacity-50">
+                        {isSubmitting ? <Spinner /> : 'Set Up Authenticator App'}
+                    </button>
+                </div>
+            );
+        }
+
+        return (
+            <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 rounded text-xs font-bold bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">On</span>
+                    <span className="text-sm text-gray-600 dark:text-gray-300">{status.recoveryCodesRemaining} recovery codes left</span>
+                </div>
+                <div className="flex flex-col gap-2">
+                    <button onClick={() => setAction('regenerate')} className="w-full py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+                        Generate New Recovery Codes
+                    </button>
+                    {status.required ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Your role requires two-factor authentication, so it cannot be turned off.</p>
+                    ) : (
+                        <button onClick={() => setAction('disable')} className="w-full py-2 px-4 border border-red-300 dark:border-red-800 rounded-md text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20">
+                            Turn Off Two-Factor Authentication
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">Two-Factor Authentication</h2>
+                </div>
+                <div className="p-6 overflow-y-auto flex-1">
+                    {error && <div className="mb-4"><Alert type="error" message={error} /></div>}
+                    {renderBody()}
+                </div>
+                <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3 border-t dark:border-gray-700">
+                    <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">
+                        {recoveryCodes.length > 0 ? 'Done' : 'Close'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { type TwoFactorSetup } from '../types';
+import { QRCodeImage } from './QRCodeImage';
+
+/** QR code and manual-entry key for adding the account to an authenticator app. */
+export const AuthenticatorSetup: React.FC<{ setup: TwoFactorSetup }> = ({ setup }) => (
+  <div className="flex flex-col items-center text-center space-y-3">
+    <p className="text-sm text-gray-600 dark:text-gray-300">
+      Scan this code with an authenticator app such as Google Authenticator, 1Password or Authy.
+    </p>
+    <div className="p-2 bg-white rounded-lg border border-gray-200">
+      <QRCodeImage value={setup.otpauthUrl} size={180} title="Authenticator setup QR code" />
+    </div>
+    <div className="w-full">
+      <p className="text-xs text-gray-500 dark:text-gray-400">Can't scan it? Enter this key instead:</p>
+      <code className="block mt-1 px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono break-all select-all text-gray-800 dark:text-gray-200">
+        {setup.secret.match(/.{1,4}/g)?.join(' ')}
+      </code>
+    </div>
+  </div>
+);
+
+/** Shows freshly issued recovery codes, which cannot be displayed again. */
+export const RecoveryCodesList: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (e) {
+      console.error('Clipboard unavailable', e);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose access to your authenticator app. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-gray-100 dark:bg-gray-700 font-mono text-sm text-gray-800 dark:text-gray-200">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <button type="button" onClick={handleCopy} className="flex-1 py-1.5 px-3 border border-gray-300 dark:border-gray-600 rounded text-xs font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button type="button" onClick={handleDownload} className="flex-1 py-1.5 px-3 border border-gray-300 dark:border-gray-600 rounded text-xs font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700">
+          Download
+        </button>
+      </div>
+    </div>
+  );
+};
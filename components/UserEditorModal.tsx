@@ -1,7 +1,8 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { type AdminUser, type Role } from '../types';
+import { type AdminUser, type Role, type PublicEvent } from '../types';
+import { listPublicEvents } from '../server/api';
 import { Spinner } from './Spinner';
 
 interface UserEditorModalProps {
@@ -16,6 +17,8 @@ export const UserEditorModal: React.FC<UserEditorModalProps> = ({ isOpen, onClos
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [roleId, setRoleId] = useState('');
+  const [eventRoles, setEventRoles] = useState<Record<string, string>>({});
+  const [events, setEvents] = useState<PublicEvent[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -25,18 +28,27 @@ export const UserEditorModal: React.FC<UserEditorModalProps> = ({ isOpen, onClos
     if (isOpen) {
       setEmail(user?.email || '');
       setPassword(''); // Always clear password for security
-      setRoleId(user?.roleId || (roles.length > 0 ? roles[0].id : ''));
+      setRoleId(user ? user.roleId || '' : (roles.length > 0 ? roles[0].id : ''));
+      setEventRoles(user?.eventRoles || {});
       setError(null);
       setIsSaving(false);
     }
   }, [isOpen, user, roles]);
 
+  useEffect(() => {
+    if (isOpen) listPublicEvents().then(setEvents).catch(() => setEvents([]));
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!email.trim() || !roleId) {
-        setError("Email and Role are required.");
+    if (!email.trim()) {
+        setError("Email is required.");
+        return;
+    }
+    if (!roleId && Object.keys(eventRoles).length === 0) {
+        setError("Choose a platform role or at least one event role.");
         return;
     }
     if (isNewUser && !password) {
@@ -50,6 +62,7 @@ export const UserEditorModal: React.FC<UserEditorModalProps> = ({ isOpen, onClos
     const data: any = {
       email,
       roleId,
+      eventRoles,
     };
     
     if (password) {
@@ -63,6 +76,15 @@ export const UserEditorModal: React.FC<UserEditorModalProps> = ({ isOpen, onClos
     }
   };
 
+  const setEventRole = (eventId: string, eventRoleId: string) => {
+    setEventRoles(prev => {
+      const next = { ...prev };
+      if (eventRoleId) next[eventId] = eventRoleId;
+      else delete next[eventId];
+      return next;
+    });
+  };
+
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4"
@@ -88,13 +110,34 @@ export const UserEditorModal: React.FC<UserEditorModalProps> = ({ isOpen, onClos
             <InputField label="Password" id="password" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder={isNewUser ? "Required" : "Leave blank to keep current"} required={isNewUser} />
             
             <div>
-              <label htmlFor="roleId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Role</label>
+              <label htmlFor="roleId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Platform Role</label>
               <select id="roleId" value={roleId} onChange={e => setRoleId(e.target.value)} className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
+                <option value="">None (event roles only)</option>
                 {roles.map(role => (
                   <option key={role.id} value={role.id}>{role.name}</option>
                 ))}
               </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Applies to every event.</p>
             </div>
+
+            {events.length > 0 && (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Event Roles</span>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {events.map(event => (
+                    <div key={event.id} className="flex items-center gap-2">
+                      <label htmlFor={`eventRole-${event.id}`} className="flex-1 text-sm text-gray-700 dark:text-gray-300 truncate">{event.name}</label>
+                      <select id={`eventRole-${event.id}`} value={eventRoles[event.id] || ''} onChange={e => setEventRole(event.id, e.target.value)} className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
+                        <option value="">—</option>
+                        {roles.map(role => (
+                          <option key={role.id} value={role.id}>{role.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           
           <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3">
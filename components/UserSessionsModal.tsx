@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { type AdminUser, type AuthSession } from '../types';
+import { getAdminUserSessions, revokeSession, revokeAdminUserSessions } from '../server/api';
+import { ContentLoader } from './ContentLoader';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+
+interface UserSessionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: AdminUser;
+    adminToken: string;
+}
+
+export const UserSessionsModal: React.FC<UserSessionsModalProps> = ({ isOpen, onClose, user, adminToken }) => {
+    const [sessions, setSessions] = useState<AuthSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRevokingAll, setIsRevokingAll] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchSessions = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setSessions(await getAdminUserSessions(adminToken, user.id));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to load sessions.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) fetchSessions();
+    }, [isOpen, user, adminToken]);
+
+    const handleRevoke = async (sessionId: string) => {
+        try {
+            await revokeSession(adminToken, sessionId);
+            setSessions(prev => prev.filter(s => s.id !== sessionId));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to revoke session.');
+        }
+    };
+
+    const handleRevokeAll = async () => {
+        if (!window.confirm(`Sign ${user.email} out of every device?`)) return;
+        setIsRevokingAll(true);
+        try {
+            await revokeAdminUserSessions(adminToken, user.id);
+            setSessions([]);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to revoke sessions.');
+        } finally {
+            setIsRevokingAll(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                        Sessions: {user.email}
+                    </h2>
+                    {sessions.length > 0 && (
+                        <button
+                            onClick={handleRevokeAll}
+                            disabled={isRevokingAll}
+                            className="px-3 py-1.5 bg-red-600 text-white text-xs font-bold rounded hover:bg-red-700 disabled:opacity-50"
+                        >
+                            {isRevokingAll ? <Spinner /> : 'Sign Out Everywhere'}
+                        </button>
+                    )}
+                </div>
+
+                <div className="p-6 overflow-y-auto flex-1">
+                    {error && <div className="mb-4"><Alert type="error" message={error} /></div>}
+                    {isLoading ? <ContentLoader /> : (
+                        sessions.length > 0 ? (
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                                <thead className="bg-gray-50 dark:bg-gray-700/50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Device</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Last Active</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Signed In</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Action</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {sessions.map(session => (
+                                        <tr key={session.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/30">
+                                            <td className="px-4 py-3 text-sm">
+                                                <div className="font-medium truncate max-w-xs" title={session.userAgent}>{session.userAgent || 'Unknown device'}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {session.ip || 'Unknown IP'}
+                                                    {session.current && <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">This device</span>}
+                                                </div>
+                                            </td>
+                                            <td className="px-4 py-3 text-sm">{new Date(session.lastUsedAt).toLocaleString()}</td>
+                                            <td className="px-4 py-3 text-sm">{new Date(session.createdAt).toLocaleString()}</td>
+                                            <td className="px-4 py-3 text-right">
+                                                <button onClick={() => handleRevoke(session.id)} className="text-red-600 hover:underline dark:text-red-500 text-sm">Revoke</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <div className="text-center py-10 bg-gray-50 dark:bg-gray-800/50 rounded-lg border border-dashed border-gray-200 dark:border-gray-700">
+                                <p className="text-gray-500 italic">This user has no active sessions.</p>
+                            </div>
+                        )
+                    )}
+                </div>
+                <div className="p-4 bg-gray-50 dark:bg-gray-900/50 flex justify-end gap-3 border-t dark:border-gray-700">
+                    <button type="button" onClick={onClose} className="py-2 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { type AdminUser, type Role } from '../types';
-import { getAdminUsers, getRoles, saveAdminUser, deleteAdminUser, saveRole, deleteRole } from '../server/api';
+import { getAdminUsers, getRoles, saveAdminUser, deleteAdminUser, saveRole, deleteRole, resetAdminUserTwoFactor } from '../server/api';
 import { ContentLoader } from './ContentLoader';
 import { UserEditorModal } from './UserEditorModal';
 import { RoleEditorModal } from './RoleEditorModal';
+import { UserSessionsModal } from './UserSessionsModal';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
 
@@ -22,6 +23,7 @@ export const UsersAndRolesDashboard: React.FC<UsersAndRolesDashboardProps> = ({
   const [isRoleModalOpen, setRoleModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<AdminUser | null>(null);
   const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<AdminUser | null>(null);
 
   const fetchData = async () => {
     setIsLoading(true);
@@ -77,6 +79,17 @@ export const UsersAndRolesDashboard: React.FC<UsersAndRolesDashboardProps> = ({
     }
   };
 
+  const handleResetTwoFactor = async (user: AdminUser) => {
+    if (window.confirm(`Remove the authenticator app from ${user.email}? They will be signed out everywhere and must set it up again if their role requires it.`)) {
+        try {
+            await resetAdminUserTwoFactor(adminToken, user.id);
+            await fetchData();
+        } catch (err) {
+            alert(`Error resetting two-factor authentication: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    }
+  };
+
   const handleDeleteRole = async (roleId: string) => {
     if (window.confirm('Are you sure you want to delete this role? This action cannot be undone.')) {
         try {
@@ -113,6 +126,7 @@ export const UsersAndRolesDashboard: React.FC<UsersAndRolesDashboardProps> = ({
                 <tr>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Email</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Role</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">2FA</th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
                 </tr>
             </thead>
@@ -120,9 +134,21 @@ export const UsersAndRolesDashboard: React.FC<UsersAndRolesDashboardProps> = ({
               {users.map(user => (
                 <tr key={user.id}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{user.email}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{roles.find(r => r.id === user.roleId)?.name || 'N/A'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {roles.find(r => r.id === user.roleId)?.name || (user.eventRoles ? 'Event roles only' : 'N/A')}
+                        {user.roleId && user.eventRoles && Object.keys(user.eventRoles).length > 0 && (
+                          <span className="ml-1 text-xs">+{Object.keys(user.eventRoles).length} event role{Object.keys(user.eventRoles).length === 1 ? '' : 's'}</span>
+                        )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {user.twoFactorEnabled
+                          ? <span className="px-2 py-0.5 rounded text-xs font-bold bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">On</span>
+                          : <span className="text-gray-400">Off</span>}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
                         <button onClick={() => { setEditingUser(user); setUserModalOpen(true); }} className="text-primary hover:underline">Edit</button>
+                        <button onClick={() => setSessionsUser(user)} className="text-primary hover:underline">Sessions</button>
+                        {user.twoFactorEnabled && <button onClick={() => handleResetTwoFactor(user)} className="text-primary hover:underline">Reset 2FA</button>}
                         <button onClick={() => handleDeleteUser(user.id)} className="text-red-600 hover:underline dark:text-red-500">Delete</button>
                     </td>
                 </tr>
@@ -176,6 +202,14 @@ export const UsersAndRolesDashboard: React.FC<UsersAndRolesDashboardProps> = ({
         onSave={handleSaveRole}
         role={editingRole}
       />
+      {sessionsUser && (
+        <UserSessionsModal
+          isOpen={!!sessionsUser}
+          onClose={() => setSessionsUser(null)}
+          user={sessionsUser}
+          adminToken={adminToken}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { cancelOrder, getWaitlistStanding, respondToWaitlistOffer } from '../server/api';
+import { type WaitlistStanding } from '../server/waitlist';
+import { Alert } from './Alert';
+import { PaymentModal, type TicketCheckout } from './PaymentModal';
+import { Spinner } from './Spinner';
+
+interface WaitlistStatusCardProps {
+  delegateToken: string;
+}
+
+/** Shown at the top of the delegate portal while the delegate is on the waitlist. */
+export const WaitlistStatusCard: React.FC<WaitlistStatusCardProps> = ({ delegateToken }) => {
+    const [standing, setStanding] = useState<WaitlistStanding | null>(null);
+    const [isResponding, setIsResponding] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    // A paid seat is claimed by paying for it; the offer keeps holding it meanwhile.
+    const [checkout, setCheckout] = useState<TicketCheckout | null>(null);
+
+    const fetchStanding = useCallback(async () => {
+        try {
+            setStanding(await getWaitlistStanding(delegateToken));
+        } catch (e) {
+            setStanding(null);
+        }
+    }, [delegateToken]);
+
+    useEffect(() => {
+        fetchStanding();
+    }, [fetchStanding]);
+
+    const handleRespond = async (action: 'accept' | 'decline') => {
+        if (action === 'decline' && !window.confirm('Give up your place on the waitlist? This cannot be undone.')) return;
+        setIsResponding(true);
+        try {
+            const result = await respondToWaitlistOffer(delegateToken, action);
+            if (result.success && result.order && result.clientSecret) {
+                setCheckout({ order: result.order, clientSecret: result.clientSecret, description: 'Ticket: your waitlist seat' });
+                return;
+            }
+            setMessage({ type: result.success ? 'success' : 'error', text: result.message || 'Failed to answer the offer.' });
+            fetchStanding();
+        } catch (e) {
+            setMessage({ type: 'error', text: e instanceof Error ? e.message : 'Failed to answer the offer.' });
+        } finally {
+            setIsResponding(false);
+        }
+    };
+
+    const handlePaymentSuccess = () => {
+        setCheckout(null);
+        setMessage({ type: 'success', text: 'Your seat is confirmed. Your pass is on its way by email.' });
+        fetchStanding();
+    };
+
+    const handlePaymentClose = () => {
+        if (checkout) cancelOrder(checkout.order.id).catch(() => undefined);
+        setCheckout(null);
+    };
+
+    if (message && standing?.status !== 'waitlist') return <div className="mb-6"><Alert type={message.type} message={message.text} /></div>;
+    if (!standing || standing.status !== 'waitlist') return null;
+
+    return (
+        <div className="mb-6 p-6 rounded-lg border border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 dark:border-yellow-800">
+            {message && <Alert type={message.type} message={message.text} />}
+            {standing.offer ? (
+                <>
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">A seat is waiting for you</h3>
+                    <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                        A spot opened up and we are holding it for you until {new Date(standing.offer.expiresAt).toLocaleString()}. After that it goes to the next person on the waitlist.
+                    </p>
+                    <div className="mt-4 flex gap-3">
+                        <button onClick={() => handleRespond('accept')} disabled={isResponding} className="px-4 py-2 bg-primary text-white rounded-md shadow-sm hover:bg-primary/90 disabled:opacity-50 flex items-center">
+                            {isResponding && <Spinner />}
+                            Claim My Seat
+                        </button>
+                        <button onClick={() => handleRespond('decline')} disabled={isResponding} className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-700 dark:text-gray-200 disabled:opacity-50">
+                            No Thanks
+                        </button>
+                    </div>
+                    <PaymentModal
+                        isOpen={!!checkout}
+                        onClose={handlePaymentClose}
+                        delegateToken={delegateToken}
+                        onSuccess={handlePaymentSuccess}
+                        checkout={checkout || undefined}
+                    />
+                </>
+            ) : standing.lapsed ? (
+                <>
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">Your offer has expired</h3>
+                    <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                        The seat we held for you was not claimed in time and has passed to the next person. Please contact the organizers if you still want to attend.
+                    </p>
+                </>
+            ) : (
+                <>
+                    <h3 className="text-lg font-bold text-gray-900 dark:text-white">You are on the waitlist</h3>
+                    <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                        You are number <span className="font-semibold">{standing.position}</span> of {standing.total} in line. We will email you as soon as a seat opens up for you.
+                    </p>
+                    <button onClick={() => handleRespond('decline')} disabled={isResponding} className="mt-4 text-sm text-red-600 hover:underline disabled:opacity-50">
+                        Leave the waitlist
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
@@ -7,11 +7,31 @@ import * as emailService from './email';
 import * as geminiService from './geminiService';
 import { defaultConfig } from './config';
 import { uploadFileToStorage } from './storage';
+import * as totp from './totp';
+import * as tickets from './tickets';
+import * as zones from './zones';
+import * as kiosks from './kiosks';
+import * as waitlist from './waitlist';
+import * as registrationExport from './registrationExport';
+import * as formFields from './formFields';
+import * as groups from './groups';
+import * as transfers from './transfers';
+import * as orders from './orders';
+import * as paymentWebhooks from './paymentWebhooks';
+import * as discounts from './discounts';
+import * as refunds from './refunds';
+import * as invoices from './invoices';
+import { type WaitlistStanding } from './waitlist';
+import { type KioskRoster, type KioskScanResult, type KioskSyncResponse } from './kiosks';
+import { type GroupOrderItem } from './groups';
+import { IMPORT_BATCH_SIZE, mappingErrors, validateImportRows, type ImportContext, type ImportRowResult, type ImportTarget } from './registrationImport';
+import { DEFAULT_EVENT_ID, withoutSecrets, withoutServerFields } from './policy';
+import { TEMPLATE_TABLES, instantiateSnapshot, snapshotEvent, type EventSnapshot } from './eventTemplates';
 import { 
     EventConfig, RegistrationData, AdminUser, Role, Session, Speaker, Sponsor, 
     Task, MealPlan, Restaurant, Hotel, RoomType, HotelRoom, AccommodationBooking,
     TicketTier, Transaction, NetworkingProfile, ScavengerHuntItem, MediaItem, 
-    VenueMap, EmailPayload, Permission, DiningReservation, SessionQuestion,
+    VenueMap, EmailPayload, Permission, DiningReservation, SessionQuestion, AuthSession, TwoFactorSetup, EventTemplate, CheckInRecord, CheckInResult, AccessZone, ZoneDirection, Kiosk, KioskHeartbeat, KioskPrinterStatus, KioskScan, RegistrationImport, ExportDefinition, FormField, RegistrationGroup, PendingTransfer, TicketHolderChange, Order, OrderDiscount, OrderRefund, OrderBilling, Invoice, DiscountCode, CancellationRule,
     Poll, PollWithResults, ChatMessage, AppNotification, NetworkingMatch, EnrichedAccommodationBooking
 } from '../types';
 import { io } from 'socket.io-client';
@@ -45,23 +65,32 @@ export const initializeApi = async (forceOnline = false): Promise<boolean> => {
             IS_ONLINE = true;
             db.setBackendAvailable(true);
         }
+        if (IS_ONLINE) {
+            await Promise.all((['admin', 'delegate'] as const).map(restoreSession));
+            // Deliver writes queued before the last reload.
+            db.flushOutbox();
+        }
         return IS_ONLINE;
     } catch (e) {
         return false;
     }
 };
 
+const currentAccessToken = () => localStorage.getItem('adminToken') || localStorage.getItem('delegateToken');
+
 const initializeSocket = () => {
     if (socket) return;
     
     socket = io('/', {
         path: '/socket.io',
-        transports: ['websocket', 'polling']
+        transports: ['websocket', 'polling'],
+        // Read on every (re)connect so the server scopes pushed rows to the current user.
+        auth: (cb: (data: object) => void) => cb({ token: currentAccessToken(), eventId: db.getActiveEvent() })
     });
 
     socket.on('connect', () => {
         console.log('Socket connected:', socket?.id);
-        socket?.emit('join', 'main-event');
+        socket?.emit('join', db.getActiveEvent() || DEFAULT_EVENT_ID);
         
         // Register user ID with socket for direct signaling
         const token = localStorage.getItem('delegateToken') || localStorage.getItem('adminToken');
@@ -71,34 +100,14 @@ const initializeSocket = () => {
                 socket.emit('auth:register', { userId: payload.id });
             }
         }
-    });
 
-    // Bridge Socket Events to Local State
-    socket.on('refresh:data', (payload: { table: string }) => {
-        // Fetch fresh data for this table from backend to ensure consistency
-        db.fetchTableFromBackend(payload.table);
+        // Pick up whatever changed while disconnected.
+        db.syncWithBackend();
     });
 
-    socket.on('refresh:registrations', () => {
-        db.fetchTableFromBackend('registrations');
-    });
-    
-    socket.on('refresh:messages', (msg: any) => {
-        db.fetchTableFromBackend('messages');
-    });
-    
-    socket.on('refresh:polls', () => {
-        db.fetchTableFromBackend('polls');
-        db.fetchTableFromBackend('poll_votes');
-    });
-    
-    socket.on('refresh:wallet', () => {
-        db.fetchTableFromBackend('transactions');
-    });
-    
-    socket.on('refresh:gamification', () => {
-        db.fetchTableFromBackend('scavenger_hunt_progress');
-        // Leaderboard re-fetch handled by component query invalidation or manual refresh
+    // Rows changed by other clients, already filtered to what this user may read.
+    socket.on('sync:changes', (payload: { changes: db.RowChanges }) => {
+        db.applyRemoteChanges(payload.changes);
     });
     
     socket.on('signal', (payload: any) => {
@@ -106,6 +115,23 @@ const initializeSocket = () => {
     });
 };
 
+// Called whenever the stored access token or the active event changes: the
+// socket's push scope and the sync cursor both belong to one user and event.
+const refreshRealtimeAuth = () => {
+    if (!IS_ONLINE || !socket) return;
+    socket.emit('sync:auth', { token: currentAccessToken(), eventId: db.getActiveEvent() });
+    db.syncWithBackend();
+};
+
+/** Scopes reads, new rows and backend requests to one event; see db.ts. */
+export const setActiveEvent = (eventId: string | null) => {
+    if (db.getActiveEvent() === eventId) return;
+    db.setActiveEvent(eventId);
+    refreshRealtimeAuth();
+};
+
+export const getActiveEvent = () => db.getActiveEvent();
+
 export const isBackendConnected = () => IS_ONLINE;
 export const setForceOffline = () => { 
     IS_ONLINE = false; 
@@ -163,17 +189,15 @@ export const loginAdmin = async (email: string, password_input: string) => {
         return null;
     } else {
         // Fallback Mock Logic
-        const users = await db.findAll('admin_users', (u) => u.email === email);
+        const users = await db.findAll('admin_users', { email });
         const user = users[0];
         if (user && await auth.comparePassword(password_input, user.password_hash)) {
-            const role = await db.find('roles', (r) => r.id === user.roleId);
-            const token = auth.generateToken({
-                id: user.id,
-                email: user.email,
-                type: 'admin',
-                permissions: role ? role.permissions : []
-            });
-            return { token, user: { ...user, permissions: role ? role.permissions : [] } };
+            const role = await db.find('roles', { id: user.roleId });
+            if (user.totpSecret || role?.requireTwoFactor) {
+                const challengeToken = await issueLocalToken('two_factor', { subjectType: 'admin', subjectId: user.id, email: user.email });
+                return { twoFactor: user.totpSecret ? 'verify' : 'setup', challengeToken };
+            }
+            return startLocalAdminSession(user);
         }
         return null;
     }
@@ -192,25 +216,451 @@ export const loginDelegate = async (eventId: string, email: string, password_inp
         return null;
     } else {
         // Fallback Mock Logic
-        const users = await db.findAll('registrations', (u) => u.email === email && (!u.eventId || u.eventId === eventId));
+        const users = await db.findAll('registrations', { email }, u => !u.eventId || u.eventId === eventId);
         const user = users[0];
-        if (user) {
-            // For mock mode, accept any password or check a mock field if added
+        if (user && user.password_hash && await auth.comparePassword(password_input, user.password_hash)) {
             const token = auth.generateToken({
                 id: user.id,
                 email: user.email,
                 type: 'delegate',
                 eventId
             });
-            return { token, user };
+            const { password_hash, ...profile } = user;
+            return { token, user: profile };
         }
         return null;
     }
 };
 
-export const requestAdminPasswordReset = async (email: string) => { return true; };
-export const requestDelegatePasswordReset = async (eventId: string, email: string) => { return true; };
-export const resetPassword = async (token: string, password: string) => { return true; };
+const postJson = (url: string, body: any) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+});
+
+// --- Sessions ---
+// The backend issues 15-minute access tokens plus a refresh cookie. The access
+// token is kept in localStorage (as before) and refreshed shortly before expiry.
+
+type SessionType = 'admin' | 'delegate';
+
+const TOKEN_KEYS: Record<SessionType, string> = { admin: 'adminToken', delegate: 'delegateToken' };
+const REFRESH_AHEAD_MS = 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+const refreshTimers: Partial<Record<SessionType, ReturnType<typeof setTimeout>>> = {};
+
+/** Dispatched on `window` with `{ type, token }` when a stored access token is replaced or cleared. */
+export const AUTH_TOKEN_EVENT = 'auth:token';
+
+const storeAccessToken = (type: SessionType, token: string | null) => {
+    if (token) localStorage.setItem(TOKEN_KEYS[type], token);
+    else localStorage.removeItem(TOKEN_KEYS[type]);
+    window.dispatchEvent(new CustomEvent(AUTH_TOKEN_EVENT, { detail: { type, token } }));
+};
+
+/**
+ * Trades the refresh cookie for a new access token. Resolves to null when the
+ * session has ended; rejects on network errors so callers can retry.
+ */
+export const refreshSession = async (type: SessionType): Promise<string | null> => {
+    if (!IS_ONLINE) return null;
+    const res = await postJson('/api/auth/refresh', { type });
+    if (!res.ok) return null;
+    const body: any = await res.json();
+    return body.token || null;
+};
+
+/** Schedules a refresh of the stored access token ahead of its expiry. Call after every login. */
+export const keepSessionAlive = (type: SessionType) => {
+    clearTimeout(refreshTimers[type]);
+    const token = localStorage.getItem(TOKEN_KEYS[type]);
+    refreshRealtimeAuth();
+    if (!IS_ONLINE || !token) return;
+
+    const exp = auth.getTokenExpiry(token);
+    const delay = exp ? Math.max(exp - Date.now() - REFRESH_AHEAD_MS, 0) : 0;
+    refreshTimers[type] = setTimeout(async () => {
+        try {
+            storeAccessToken(type, await refreshSession(type));
+            keepSessionAlive(type);
+        } catch (e) {
+            refreshTimers[type] = setTimeout(() => keepSessionAlive(type), REFRESH_RETRY_MS);
+        }
+    }, delay);
+};
+
+/** On startup, replaces an expired stored token using the refresh cookie. */
+const restoreSession = async (type: SessionType) => {
+    const token = localStorage.getItem(TOKEN_KEYS[type]);
+    if (!token) return;
+    const exp = auth.getTokenExpiry(token);
+    if (!exp || exp <= Date.now()) {
+        try {
+            storeAccessToken(type, await refreshSession(type));
+        } catch (e) {
+            return;
+        }
+    }
+    keepSessionAlive(type);
+};
+
+/** Ends this browser's session on the server. Callers clear their own stored token. */
+export const logout = async (type: SessionType) => {
+    clearTimeout(refreshTimers[type]);
+    if (!IS_ONLINE) return;
+    await postJson('/api/auth/logout', { type }).catch(e => console.warn('Logout request failed', e));
+};
+
+/** Ends every session of the signed-in account, on all devices. */
+export const signOutEverywhere = async (token: string, type: SessionType) => {
+    clearTimeout(refreshTimers[type]);
+    if (!IS_ONLINE) return;
+    const res = await fetch('/api/auth/logout-all', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (!res.ok) throw new Error('Failed to sign out other sessions.');
+};
+
+export const getAdminUserSessions = async (token: string, userId: string): Promise<AuthSession[]> => {
+    if (!IS_ONLINE) return [];
+    const res = await fetch(`/api/admin/users/${encodeURIComponent(userId)}/sessions`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (!res.ok) throw new Error('Failed to load sessions.');
+    return await res.json() as AuthSession[];
+};
+
+export const revokeSession = async (token: string, sessionId: string) => {
+    if (!IS_ONLINE) return;
+    const res = await fetch(`/api/admin/sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (!res.ok) throw new Error('Failed to revoke session.');
+};
+
+export const revokeAdminUserSessions = async (token: string, userId: string) => {
+    if (!IS_ONLINE) return;
+    const res = await fetch(`/api/admin/users/${encodeURIComponent(userId)}/sessions`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (!res.ok) throw new Error('Failed to revoke sessions.');
+};
+
+// --- One-time Tokens (browser mode) ---
+// Mirrors the backend's auth_tokens table so reset, magic-link, invite,
+// waitlist offer, group seat and ticket transfer links also work offline. Links are logged to the console
+// instead of emailed.
+
+type OneTimeTokenPurpose = 'password_reset' | 'magic_link' | 'invite' | 'two_factor' | 'waitlist_offer' | 'group_manage' | 'group_seat' | 'ticket_transfer';
+
+const ONE_TIME_TOKEN_TTL: Record<OneTimeTokenPurpose, number> = {
+    password_reset: 60 * 60 * 1000,
+    magic_link: 15 * 60 * 1000,
+    invite: 7 * 24 * 60 * 60 * 1000,
+    two_factor: 5 * 60 * 1000,
+    waitlist_offer: 48 * 60 * 60 * 1000,
+    group_manage: 365 * 24 * 60 * 60 * 1000,
+    group_seat: 30 * 24 * 60 * 60 * 1000,
+    ticket_transfer: transfers.TRANSFER_TTL
+};
+
+const issueLocalToken = async (purpose: OneTimeTokenPurpose, subject: Record<string, any>, ttl = ONE_TIME_TOKEN_TTL[purpose]) => {
+    const token = auth.generateOneTimeToken();
+    const now = Date.now();
+    await db.insert('auth_tokens', {
+        id: await auth.hashOneTimeToken(token),
+        purpose,
+        ...subject,
+        createdAt: now,
+        expiresAt: now + ttl
+    });
+    return token;
+};
+
+const findLocalToken = async (token: string, purpose: OneTimeTokenPurpose) => {
+    if (!token) return null;
+    const id = await auth.hashOneTimeToken(token);
+    const record = await db.find('auth_tokens', { id, purpose });
+    return record && record.expiresAt >= Date.now() ? record : null;
+};
+
+/** Emails a one-time sign-in link. Resolves the same way whether or not the email is registered. */
+export const requestMagicLink = async (eventId: string, email: string) => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/delegate/magic-link', { eventId, email });
+        if (!res.ok) throw new Error('Failed to send sign-in link.');
+        return true;
+    }
+    const user = await db.find('registrations', { email }, u => !u.eventId || u.eventId === eventId);
+    if (user) {
+        const token = await issueLocalToken('magic_link', { subjectType: 'delegate', subjectId: user.id, email, eventId });
+        console.log(`[Offline Simulation] Sign-in link for ${email}: ${window.location.origin}/${eventId}?magicToken=${token}`);
+    }
+    return true;
+};
+
+/** Exchanges a magic-link token for a delegate session. The link stops working once used. */
+export const loginWithMagicLink = async (token: string) => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/delegate/magic-link/verify', { token });
+        return res.ok ? await res.json() : null;
+    }
+    const record = await findLocalToken(token, 'magic_link');
+    if (!record) return null;
+    await db.remove('auth_tokens', record.id);
+    const user = await db.find('registrations', { id: record.subjectId });
+    if (!user) return null;
+    const { password_hash, ...profile } = user;
+    return {
+        token: auth.generateToken({ id: user.id, email: user.email, type: 'delegate', eventId: record.eventId }),
+        user: profile
+    };
+};
+
+const requestPasswordReset = async (accountType: 'admin' | 'delegate', email: string, eventId?: string) => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/password-reset/request', { accountType, email, eventId });
+        if (!res.ok) throw new Error('Failed to request password reset.');
+        return true;
+    }
+    const account = accountType === 'admin'
+        ? await db.find('admin_users', { email })
+        : await db.find('registrations', { email }, u => !u.eventId || !eventId || u.eventId === eventId);
+    if (account) {
+        const linkEventId = eventId || account.eventId || DEFAULT_EVENT_ID;
+        const token = await issueLocalToken('password_reset', { subjectType: accountType, subjectId: account.id, email, eventId: linkEventId });
+        console.log(`[Offline Simulation] Password reset link for ${email}: ${window.location.origin}/${linkEventId}?resetToken=${token}`);
+    }
+    return true;
+};
+
+export const requestAdminPasswordReset = async (email: string) => requestPasswordReset('admin', email);
+export const requestDelegatePasswordReset = async (eventId: string, email: string) => requestPasswordReset('delegate', email, eventId);
+
+/** Returns who a reset link belongs to, or null when it is invalid or expired. */
+export const verifyPasswordResetToken = async (token: string): Promise<{ email: string; accountType: 'admin' | 'delegate'; eventId?: string } | null> => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/password-reset/verify', { token });
+        return res.ok ? (await res.json() as any) : null;
+    }
+    const record = await findLocalToken(token, 'password_reset');
+    return record ? { email: record.email, accountType: record.subjectType, eventId: record.eventId } : null;
+};
+
+export const resetPassword = async (token: string, password: string) => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/password-reset/confirm', { token, password });
+        if (!res.ok) {
+            const body: any = await res.json().catch(() => ({}));
+            throw new Error(body.error || 'Password reset failed.');
+        }
+        return true;
+    }
+    if (password.length < 8) throw new Error('Password must be at least 8 characters long.');
+    const record = await findLocalToken(token, 'password_reset');
+    if (!record) throw new Error('This reset link is invalid or has expired.');
+
+    const table = record.subjectType === 'admin' ? 'admin_users' : 'registrations';
+    const updated = await db.update(table, record.subjectId, { password_hash: await auth.hashPassword(password) });
+    if (!updated) throw new Error('This reset link is invalid or has expired.');
+    await db.removeWhere('auth_tokens', t => t.subjectId === record.subjectId && t.purpose === 'password_reset');
+    return true;
+};
+
+// --- Two-Factor Authentication ---
+// `loginAdmin` answers `{ twoFactor: 'verify' | 'setup', challengeToken }` when
+// the account has TOTP enabled or its role requires it; the challenge is then
+// completed here. Browser mode keeps the secrets in the local admin_users table.
+
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+const startLocalAdminSession = async (user: any) => {
+    const role = await db.find('roles', { id: user.roleId });
+    const permissions = role ? role.permissions : [];
+    const eventPermissions: Record<string, Permission[]> = {};
+    for (const [eventId, roleId] of Object.entries(user.eventRoles || {})) {
+        const eventRole = await db.find('roles', { id: roleId });
+        if (eventRole) eventPermissions[eventId] = eventRole.permissions;
+    }
+    const { password_hash, totpSecret, pendingTotpSecret, totpLastStep, recoveryCodes, ...profile } = user;
+    return {
+        token: auth.generateToken({ id: user.id, email: user.email, type: 'admin', permissions, eventPermissions }),
+        user: { ...profile, permissions, eventPermissions }
+    };
+};
+
+const beginLocalTwoFactorSetup = async (user: any): Promise<TwoFactorSetup> => {
+    const secret = totp.generateTotpSecret();
+    await db.update('admin_users', user.id, { pendingTotpSecret: secret });
+    const config = await getEventConfig();
+    return { secret, otpauthUrl: totp.buildOtpAuthUrl(secret, user.email, config.event.name || 'Event Platform') };
+};
+
+const issueLocalRecoveryCodes = async (userId: string) => {
+    const codes = totp.generateRecoveryCodes();
+    const hashes = await Promise.all(codes.map(c => auth.hashOneTimeToken(totp.normalizeRecoveryCode(c))));
+    await db.update('admin_users', userId, { recoveryCodes: hashes });
+    return codes;
+};
+
+const confirmLocalTwoFactorSetup = async (user: any, code: string) => {
+    if (!user.pendingTotpSecret) return null;
+    const step = await totp.verifyTotp(user.pendingTotpSecret, code);
+    if (step === null) return null;
+    await db.update('admin_users', user.id, {
+        totpSecret: user.pendingTotpSecret,
+        pendingTotpSecret: undefined,
+        totpLastStep: step,
+        twoFactorEnabled: true
+    });
+    return issueLocalRecoveryCodes(user.id);
+};
+
+const verifyLocalSecondFactor = async (user: any, code: string) => {
+    if (!user.totpSecret) return false;
+    const step = await totp.verifyTotp(user.totpSecret, code, user.totpLastStep ?? -1);
+    if (step !== null) {
+        await db.update('admin_users', user.id, { totpLastStep: step });
+        return true;
+    }
+    const normalized = totp.normalizeRecoveryCode(code);
+    const codes: string[] = user.recoveryCodes || [];
+    const hash = await auth.hashOneTimeToken(normalized);
+    if (!normalized || !codes.includes(hash)) return false;
+    await db.update('admin_users', user.id, { recoveryCodes: codes.filter(c => c !== hash) });
+    return true;
+};
+
+const clearLocalTwoFactor = (userId: string) => db.update('admin_users', userId, {
+    totpSecret: undefined,
+    pendingTotpSecret: undefined,
+    totpLastStep: undefined,
+    recoveryCodes: undefined,
+    twoFactorEnabled: false
+});
+
+const authorizedJson = async (token: string, method: string, url: string, body?: any) => {
+    const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+    });
+    const data: any = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Request failed.');
+    return data;
+};
+
+/** Starts enrolment during login, for admins whose role requires 2FA. */
+export const beginAdminTwoFactorEnrollment = async (challengeToken: string): Promise<TwoFactorSetup> => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/admin/2fa/setup', { challengeToken });
+        const data: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'Failed to start two-factor setup.');
+        return data;
+    }
+    const record = await findLocalToken(challengeToken, 'two_factor');
+    const user = record ? await db.find('admin_users', { id: record.subjectId }) : null;
+    if (!user) throw new Error('This sign-in attempt has expired. Please log in again.');
+    if (user.totpSecret) throw new Error('Two-factor authentication is already set up.');
+    return beginLocalTwoFactorSetup(user);
+};
+
+/**
+ * Completes the second login step with an authenticator or recovery code.
+ * During enrolment the result also carries the new recovery codes.
+ */
+export const verifyAdminTwoFactor = async (challengeToken: string, code: string): Promise<{ token: string; user: any; recoveryCodes?: string[] }> => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/auth/admin/2fa/verify', { challengeToken, code });
+        const data: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'Verification failed.');
+        return data;
+    }
+    const record = await findLocalToken(challengeToken, 'two_factor');
+    const user = record ? await db.find('admin_users', { id: record.subjectId }) : null;
+    if (!user) throw new Error('This sign-in attempt has expired. Please log in again.');
+
+    const enrolling = !user.totpSecret;
+    const recoveryCodes = enrolling ? await confirmLocalTwoFactorSetup(user, code) : null;
+    if (enrolling ? !recoveryCodes : !(await verifyLocalSecondFactor(user, code))) {
+        const attempts = (record.attempts || 0) + 1;
+        if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) await db.remove('auth_tokens', record.id);
+        else await db.update('auth_tokens', record.id, { attempts });
+        throw new Error('Invalid authentication code.');
+    }
+    await db.remove('auth_tokens', record.id);
+    const login = await startLocalAdminSession(await db.find('admin_users', { id: user.id }));
+    return recoveryCodes ? { ...login, recoveryCodes } : login;
+};
+
+export const getTwoFactorStatus = async (token: string): Promise<{ enabled: boolean; required: boolean; recoveryCodesRemaining: number }> => {
+    if (IS_ONLINE) return authorizedJson(token, 'GET', '/api/admin/2fa');
+    const payload = requireAuth(token, 'admin');
+    const user = await db.find('admin_users', { id: payload.id });
+    const role = user ? await db.find('roles', { id: user.roleId }) : null;
+    return {
+        enabled: !!user?.totpSecret,
+        required: !!role?.requireTwoFactor,
+        recoveryCodesRemaining: (user?.recoveryCodes || []).length
+    };
+};
+
+/** Generates a pending secret for the signed-in admin; it is activated by `enableTwoFactor`. */
+export const startTwoFactorSetup = async (token: string): Promise<TwoFactorSetup> => {
+    if (IS_ONLINE) return authorizedJson(token, 'POST', '/api/admin/2fa/setup');
+    const payload = requireAuth(token, 'admin');
+    const user = await db.find('admin_users', { id: payload.id });
+    if (!user) throw new Error('User not found.');
+    if (user.totpSecret) throw new Error('Two-factor authentication is already set up.');
+    return beginLocalTwoFactorSetup(user);
+};
+
+/** Confirms the first code from the authenticator app. Returns the recovery codes to show once. */
+export const enableTwoFactor = async (token: string, code: string): Promise<string[]> => {
+    if (IS_ONLINE) return (await authorizedJson(token, 'POST', '/api/admin/2fa/enable', { code })).recoveryCodes;
+    const payload = requireAuth(token, 'admin');
+    const user = await db.find('admin_users', { id: payload.id });
+    const recoveryCodes = user ? await confirmLocalTwoFactorSetup(user, code) : null;
+    if (!recoveryCodes) throw new Error('Invalid authentication code.');
+    return recoveryCodes;
+};
+
+/** Replaces all recovery codes; requires a current authenticator code. */
+export const regenerateRecoveryCodes = async (token: string, code: string): Promise<string[]> => {
+    if (IS_ONLINE) return (await authorizedJson(token, 'POST', '/api/admin/2fa/recovery-codes', { code })).recoveryCodes;
+    const payload = requireAuth(token, 'admin');
+    const user = await db.find('admin_users', { id: payload.id });
+    if (!user || !(await verifyLocalSecondFactor(user, code))) throw new Error('Invalid authentication code.');
+    return issueLocalRecoveryCodes(user.id);
+};
+
+export const disableTwoFactor = async (token: string, code: string) => {
+    if (IS_ONLINE) {
+        await authorizedJson(token, 'POST', '/api/admin/2fa/disable', { code });
+        return;
+    }
+    const payload = requireAuth(token, 'admin');
+    const user = await db.find('admin_users', { id: payload.id });
+    if (!user) throw new Error('User not found.');
+    const role = await db.find('roles', { id: user.roleId });
+    if (role?.requireTwoFactor) throw new Error('Your role requires two-factor authentication.');
+    if (!(await verifyLocalSecondFactor(user, code))) throw new Error('Invalid authentication code.');
+    await clearLocalTwoFactor(user.id);
+};
+
+/** Removes another admin's authenticator, e.g. after they lost their phone and recovery codes. */
+export const resetAdminUserTwoFactor = async (token: string, userId: string) => {
+    if (IS_ONLINE) {
+        await authorizedJson(token, 'DELETE', `/api/admin/users/${encodeURIComponent(userId)}/2fa`);
+        return;
+    }
+    requireAuth(token, 'admin');
+    await clearLocalTwoFactor(userId);
+};
+
 export const getSystemApiKey = async (token: string) => { return "mock-api-key-12345"; };
 
 // ... (Database schema/export functions) ...
@@ -219,15 +669,15 @@ export const generateSqlExport = async (token: string) => { return "INSERT INTO
 export const seedDemoData = async (token: string) => { return true; };
 
 // --- Config ---
-export const getEventConfig = async (eventId = 'main-event'): Promise<EventConfig> => {
-    const event = await db.find('events', e => e.id === eventId);
+export const getEventConfig = async (eventId = db.getActiveEvent() || DEFAULT_EVENT_ID): Promise<EventConfig> => {
+    const event = await db.find('events', { id: eventId });
     // Use robust merger to prevent undefined property errors
     return mergeWithDefault(event?.config);
 };
 
-export const saveConfig = async (token: string, config: EventConfig) => {
+export const saveConfig = async (token: string, config: EventConfig, eventId = db.getActiveEvent() || DEFAULT_EVENT_ID) => {
     const payload = requireAuth(token, 'admin');
-    await db.updateWhere('events', e => e.id === 'main-event', { config });
+    await db.updateWhere('events', e => e.id === eventId, { config });
     return config;
 };
 
@@ -235,7 +685,7 @@ export const syncConfigFromGitHub = async (token: string) => {
     if (IS_ONLINE) {
         const res = await fetch('/api/admin/config/sync', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
         });
         if (!res.ok) {
             const err = await res.json();
@@ -244,7 +694,8 @@ export const syncConfigFromGitHub = async (token: string) => {
         return await res.json();
     } else {
         // Offline / Browser Mode
-        const event = await db.find('events', e => e.id === 'main-event');
+        const eventId = db.getActiveEvent() || DEFAULT_EVENT_ID;
+        const event = await db.find('events', { id: eventId });
         const url = event?.config?.githubSync?.configUrl;
         
         if (!url) throw new Error("No URL configured.");
@@ -262,7 +713,7 @@ export const syncConfigFromGitHub = async (token: string) => {
                 lastSyncStatus: 'success'
             };
             
-            await db.updateWhere('events', e => e.id === 'main-event', { config: newConfig });
+            await db.updateWhere('events', e => e.id === eventId, { config: newConfig });
             return newConfig;
         } catch (e) {
              // Update status failure
@@ -273,319 +724,2080 @@ export const syncConfigFromGitHub = async (token: string) => {
                     lastSyncTimestamp: Date.now(),
                     lastSyncStatus: 'failed'
                 };
-                await db.updateWhere('events', e => e.id === 'main-event', { config: newConfig });
+                await db.updateWhere('events', e => e.id === eventId, { config: newConfig });
              }
              throw e;
         }
     }
 };
 
-export const pushConfigToGitHub = async (token: string) => {
+export const pushConfigToGitHub = async (token: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/admin/config/push', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || "Push failed");
+        }
+        return await res.json();
+    } else {
+        throw new Error("Git Push requires active backend server (Live Mode).");
+    }
+};
+
+// --- Events ---
+export const listPublicEvents = async () => {
+    const events = await db.findAll('events');
+    return events.map(e => {
+        const safeConfig = mergeWithDefault(e.config);
+        return {
+            id: e.id,
+            name: e.name,
+            date: safeConfig.event.date || 'Date TBD',
+            location: safeConfig.event.location || 'Location TBD',
+            logoUrl: safeConfig.theme.logoUrl,
+            colorPrimary: safeConfig.theme.colorPrimary,
+            config: safeConfig
+        };
+    });
+};
+
+/** Starting point of a new event: a saved template or an existing event to copy, optionally moved in time. */
+export interface EventSource {
+    templateId?: string;
+    cloneFromEventId?: string;
+    dayShift?: number;
+}
+
+const localEventSnapshot = async (eventId: string) => {
+    const event = await db.find('events', { id: eventId });
+    if (!event) return null;
+    const tables: Record<string, any[]> = {};
+    for (const table of TEMPLATE_TABLES) tables[table] = await db.findAllInEvent(table, eventId);
+    return snapshotEvent(event, tables);
+};
+
+export const createEvent = async (token: string, name: string, type: string, source: EventSource = {}) => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/admin/events', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+            body: JSON.stringify({ name, eventType: type, ...source })
+        });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to create event.');
+        await db.applyRemoteChanges({ events: { upserts: [body], deletes: [] } });
+        return body;
+    }
+
+    let snapshot: EventSnapshot | null = { eventType: type, config: defaultConfig, tables: {} };
+    if (source.cloneFromEventId) {
+        snapshot = await localEventSnapshot(source.cloneFromEventId);
+        if (!snapshot) throw new Error('Event to copy not found.');
+    } else if (source.templateId) {
+        snapshot = await db.find('event_templates', { id: source.templateId });
+        if (!snapshot) throw new Error('Template not found.');
+    }
+    if (type) snapshot.eventType = type;
+
+    const { event, tables } = instantiateSnapshot(snapshot, { eventId: `event_${Date.now()}`, name, dayShift: source.dayShift });
+    await db.insert('events', event);
+    for (const table of TEMPLATE_TABLES) {
+        for (const row of tables[table]) await db.insert(table, row);
+    }
+    return event;
+};
+
+// --- Event Templates ---
+export const getEventTemplates = async (token: string): Promise<EventTemplate[]> => {
+    const templates = await db.findAll('event_templates');
+    return templates.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveEventTemplate = async (token: string, eventId: string, name: string, description = ''): Promise<EventTemplate> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/admin/event-templates', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() },
+            body: JSON.stringify({ eventId, name, description })
+        });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to save template.');
+        await db.applyRemoteChanges({ event_templates: { upserts: [body], deletes: [] } });
+        return body;
+    }
+    const admin = requireAuth(token);
+    const snapshot = await localEventSnapshot(eventId);
+    if (!snapshot) throw new Error('Event not found.');
+    return db.insert('event_templates', withoutSecrets('event_templates', {
+        ...snapshot,
+        id: `template_${Date.now()}`,
+        name,
+        description,
+        sourceEventId: eventId,
+        createdAt: Date.now(),
+        createdBy: admin.id
+    }));
+};
+
+export const deleteEventTemplate = async (token: string, id: string) => { await db.remove('event_templates', id); };
+
+export const getPublicEventData = async (eventId: string) => {
+    const event = await db.find('events', { id: eventId });
+    const inEvent = (row: any) => (row.eventId || DEFAULT_EVENT_ID) === eventId;
+    const sessions = await db.findAll('sessions', inEvent);
+    const speakers = await db.findAll('speakers', inEvent);
+    const sponsors = await db.findAll('sponsors', inEvent);
+    const ticketTiers = await db.findAll('ticket_tiers', t => inEvent(t) && t.active);
+    const regCount = await db.count('registrations', inEvent);
+    
+    return {
+        event: event,
+        config: mergeWithDefault(event?.config),
+        sessions,
+        speakers,
+        sponsors,
+        ticketTiers,
+        registrationCount: regCount
+    };
+};
+
+export const getPublicSessionData = async (sessionId: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/public/sessions/${sessionId}/live-data`);
+        if (!res.ok) throw new Error("Failed to load session data");
+        return await res.json();
+    }
+    // Offline
+    const session = await db.find('sessions', { id: sessionId });
+    // Use tokenless or mock token call for public data
+    const polls = await getPolls('mock-token', sessionId);
+    const questions = await getSessionQuestions('mock-token', sessionId);
+    return { session, polls, questions };
+};
+
+// ... (User/Role management) ...
+export const getAdminUsers = async (token: string) => { return db.findAll('admin_users'); };
+export const saveAdminUser = async (token: string, user: any) => {
+    if (user.id) await db.update('admin_users', user.id, user);
+    else await db.insert('admin_users', { ...user, id: `user_${Date.now()}` });
+};
+export const deleteAdminUser = async (token: string, id: string) => { await db.remove('admin_users', id); };
+export const getRoles = async (token: string) => { return db.findAll('roles'); };
+export const saveRole = async (token: string, role: any) => {
+    if (role.id) await db.update('roles', role.id, role);
+    else await db.insert('roles', { ...role, id: `role_${Date.now()}` });
+};
+export const deleteRole = async (token: string, id: string) => { await db.remove('roles', id); };
+
+// --- Registrations ---
+export const getRegistrations = async (token: string) => { return db.findAll('registrations'); };
+
+/** `seatToken` claims a seat bought by a group; it decides the ticket tier and needs no room of its own. */
+export const registerUser = async (eventId: string, data: RegistrationData, inviteToken?: string, seatToken?: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/events/${eventId}/register`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...data, inviteToken, seatToken })
+        });
+        return await res.json();
+    } else {
+        // Offline Fallback
+        const existing = await db.find('registrations', { email: data.email }, r => (r.eventId || DEFAULT_EVENT_ID) === eventId);
+        if (existing) return { success: false, message: 'Email already registered.' };
+
+        const invite = inviteToken ? await findLocalToken(inviteToken, 'invite') : null;
+        if (inviteToken && (!invite || invite.eventId !== eventId || invite.email.toLowerCase() !== data.email.toLowerCase())) {
+            return { success: false, message: 'This invitation link is invalid or has expired.' };
+        }
+        const seatClaim = seatToken ? await findLocalToken(seatToken, 'group_seat') : null;
+        const group = seatClaim ? await localGroup(seatClaim) : undefined;
+        const seat = group?.seats.find(s => s.id === seatClaim.seatId && s.status === 'invited');
+        if (seatToken && (!group || !seat || seatClaim.eventId !== eventId || seatClaim.email.toLowerCase() !== data.email.toLowerCase())) {
+            return { success: false, message: 'This seat link is invalid or has expired.' };
+        }
+
+        const { password, ...answers } = data as RegistrationData & { password?: string };
+        const profile = withoutServerFields(answers);
+        if (seat) profile.ticketTierId = seat.ticketTierId;
+        const { registrations, tiers, config, held } = await localSeating(eventId);
+        const { errors, hidden } = formFields.checkFormAnswers(config.formFields || [], profile);
+        if (Object.keys(errors).length > 0) return { success: false, message: Object.values(errors)[0], errors };
+        hidden.forEach(id => delete profile[id]);
+        const newUser = {
+            ...profile,
+            id: `reg_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            eventId,
+            createdAt: Date.now(),
+            status: seat ? 'confirmed' as const : waitlist.admissionStatus(profile.ticketTierId, registrations, config, tiers, Date.now(), held),
+            ...(group ? { groupId: group.id } : {}),
+            ...(password ? { password_hash: await auth.hashPassword(password) } : {})
+        };
+        if (!seat && newUser.status === 'confirmed' && orders.needsPayment(tiers, profile.ticketTierId)) {
+            return { success: false, message: 'This ticket has to be paid for at checkout.' };
+        }
+        await db.insert('registrations', newUser);
+        if (invite) await db.remove('auth_tokens', invite.id);
+        if (group && seat) {
+            await db.update('registration_groups', group.id, {
+                seats: group.seats.map(s => s.id === seat.id ? { ...s, status: 'claimed', claimedAt: Date.now(), registrationId: newUser.id } : s)
+            });
+            await db.remove('auth_tokens', seatClaim.id);
+        }
+
+        const { password_hash, ...publicUser } = newUser as typeof newUser & { password_hash?: string };
+        if (newUser.status === 'waitlist') {
+            const { position, total } = waitlist.waitlistStanding(newUser, [...registrations, newUser]);
+            return { success: true, user: publicUser, waitlist: { position, total } };
+        }
+        return { success: true, user: publicUser };
+    }
+};
+
+/**
+ * Uploads a file for a file field of the public registration form and
+ * returns the URL to submit as its answer. Browser mode keeps the file in the
+ * registration as a data URL.
+ */
+export const uploadRegistrationFile = async (eventId: string, field: FormField, file: File): Promise<string> => {
+    if (!formFields.acceptsFile(field, file.name, file.type)) throw new Error(`${field.label} does not accept this type of file.`);
+    if (file.size > formFields.maxFileBytes(field)) throw new Error(`${field.label} can be at most ${formFields.maxFileBytes(field) / (1024 * 1024)} MB.`);
+    if (IS_ONLINE) {
+        const body = new FormData();
+        body.append('fieldId', field.id);
+        body.append('file', file);
+        const res = await fetch(`/api/events/${eventId}/register/files`, { method: 'POST', body });
+        const result: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(result.error || 'Upload failed.');
+        return result.url;
+    }
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('The file could not be read.'));
+        reader.readAsDataURL(file);
+    });
+};
+
+export const triggerRegistrationEmails = async (eventId: string, user: RegistrationData) => {
+    // Handled by backend in registerUser if online
+    if (IS_ONLINE) return;
+
+    console.log("Offline: Simulating email trigger.");
+    try {
+        const config = await getEventConfig(eventId);
+        
+        // Ensure user.id is available, fallback to a unique string if missing (should not happen if flow is correct)
+        const uniqueId = user.id || `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+        const ticket = await issueLocalTicket({ ...user, id: uniqueId, eventId });
+        
+        const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(ticket)}`;
+        const verificationLink = `${window.location.origin}/verify/${uniqueId}`; // Mock verification link
+
+        // Generate email content using Gemini
+        console.log(`Generating registration emails with AI for ${user.email}. QR Data: ${ticket}`);
+        const emails = await geminiService.generateRegistrationEmails(user, config, verificationLink, qrCodeUrl);
+        
+        // Send User Email
+        if (emails && emails.userEmail) {
+            await emailService.sendEmail({
+                to: user.email,
+                subject: emails.userEmail.subject,
+                body: emails.userEmail.body
+            }, config);
+        }
+
+        // Send Host Notification
+        if (emails && emails.hostEmail) {
+            await emailService.sendEmail({
+                to: config.host.email,
+                subject: emails.hostEmail.subject,
+                body: emails.hostEmail.body
+            }, config);
+        }
+        
+    } catch (error) {
+        console.error("Failed to trigger registration emails:", error);
+    }
+};
+
+export const getInvitationDetails = async (token: string): Promise<{ eventId: string; inviteeEmail: string; name?: string } | null> => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/invitations/${encodeURIComponent(token)}`);
+        return res.ok ? (await res.json() as any) : null;
+    }
+    const invite = await findLocalToken(token, 'invite');
+    return invite ? { eventId: invite.eventId, inviteeEmail: invite.email, name: invite.name } : null;
+};
+export const updateRegistrationStatus = async (token: string, id: string, status: string) => { await db.update('registrations', id, { status }); };
+export const deleteAdminRegistration = async (token: string, id: string) => { await db.remove('registrations', id); };
+export const promoteToConfirmed = async (token: string, id: string) => { await db.update('registrations', id, { status: 'confirmed' }); };
+
+// --- Waitlist ---
+// Seats are decided with the backend's rules from `server/waitlist.ts`. In
+// browser mode, offers are made when a seat is freed here and whenever a
+// delegate checks their place, standing in for the backend's periodic sweep.
+
+const localSeating = async (eventId: string) => ({
+    registrations: await db.findAllInEvent('registrations', eventId),
+    tiers: await db.findAllInEvent('ticket_tiers', eventId),
+    config: await getEventConfig(eventId),
+    held: [
+        ...groups.unclaimedSeats(await db.findAllInEvent('registration_groups', eventId)),
+        ...orders.heldOrderSeats(await db.findAllInEvent('orders', eventId))
+    ]
+});
+
+const localFillOpenSeats = async (eventId: string) => {
+    const { registrations, tiers, config, held } = await localSeating(eventId);
+    const { offers } = waitlist.openSeatOffers(registrations, config, tiers, Date.now(), held);
+    for (const registration of offers) {
+        const offer = waitlist.newWaitlistOffer(config);
+        await db.update('registrations', registration.id, { waitlistOffer: offer });
+        const token = await issueLocalToken('waitlist_offer', {
+            subjectType: 'delegate', subjectId: registration.id, email: registration.email, eventId
+        }, offer.expiresAt - offer.offeredAt);
+        console.log(`[Offline Simulation] Waitlist offer for ${registration.email}: ${window.location.origin}/${eventId}?waitlistOffer=${token}`);
+    }
+    return offers.length;
+};
+
+const localAcceptOffer = async (registrationId: string): Promise<CheckoutResult> => {
+    const registration: RegistrationData | undefined = await db.find('registrations', { id: registrationId });
+    const rejection = waitlist.offerRejection(registration);
+    if (rejection) return { success: false, message: rejection };
+    const eventId = registration!.eventId || DEFAULT_EVENT_ID;
+    const tiers = await db.findAllInEvent('ticket_tiers', eventId);
+    if (!orders.needsPayment(tiers, registration!.ticketTierId)) {
+        await db.update('registrations', registrationId, { status: 'confirmed' });
+        return { success: true, message: 'Your seat is confirmed.' };
+    }
+    // A paid seat is bought through checkout, see `acceptWaitlistOffer` in the backend.
+    const order = orders.newOfferOrder({ id: `ord_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`, eventId }, registration!, tiers);
+    if (typeof order === 'string') return { success: false, message: order };
+    const placed: Order = await db.insert('orders', { ...order, paymentIntentId: `mock_pi_${order.id}` });
+    return { success: true, message: 'Pay for your ticket to confirm your seat.', order: orders.publicOrder(placed), clientSecret: `mock_secret_${order.id}` };
+};
+
+/** The signed-in delegate's place on the waitlist, or the offer they hold. */
+export const getWaitlistStanding = async (token: string): Promise<WaitlistStanding> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/waitlist', { headers: { 'Authorization': `Bearer ${token}` } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load your waitlist status.');
+        return body;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const eventId = payload.eventId || DEFAULT_EVENT_ID;
+    await localFillOpenSeats(eventId);
+    const registrations = await db.findAllInEvent('registrations', eventId);
+    const registration = registrations.find(r => r.id === payload.id);
+    if (!registration) throw new Error('Registration not found.');
+    return waitlist.waitlistStanding(registration, registrations);
+};
+
+/** Claims the offered seat, or gives up the place on the waitlist. */
+export const respondToWaitlistOffer = async (token: string, action: 'accept' | 'decline'): Promise<CheckoutResult> => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/delegate/waitlist/${action}`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to answer the offer.');
+        return body;
+    }
+    const payload = requireAuth(token, 'delegate');
+    if (action === 'accept') return localAcceptOffer(payload.id);
+    const registration = await db.find('registrations', { id: payload.id });
+    if (registration?.status !== 'waitlist') throw new Error('You are not on the waitlist.');
+    await db.update('registrations', payload.id, { status: 'cancelled' });
+    await localFillOpenSeats(payload.eventId || DEFAULT_EVENT_ID);
+    return { success: true, message: 'You have left the waitlist.' };
+};
+
+/** Claims an offered seat through the emailed link, without signing in. A paid seat comes back as an order to pay for. */
+export const acceptWaitlistOfferLink = async (token: string): Promise<CheckoutResult> => {
+    if (IS_ONLINE) {
+        const res = await postJson('/api/waitlist/accept', { token });
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { success: false, message: body.message || 'Failed to claim the seat.' };
+    }
+    const record = await findLocalToken(token, 'waitlist_offer');
+    if (!record) return { success: false, message: 'This offer link is invalid or has expired.' };
+    const result = await localAcceptOffer(record.subjectId);
+    if (result.success && !result.order) await db.remove('auth_tokens', record.id);
+    return result;
+};
+
+// --- Group Registrations ---
+// Orders are priced and checked for room with `server/groups.ts` and
+// `server/waitlist.ts`, as on the backend. In browser mode the purchaser's and
+// attendees' links are logged instead of emailed.
+
+export interface GroupOrder {
+    purchaserName: string;
+    purchaserEmail: string;
+    company?: string;
+    items: GroupOrderItem[];
+}
+
+/** What an attendee's seat link prefills the registration form with. */
+export interface GroupSeatClaim {
+    eventId: string;
+    email: string;
+    name?: string;
+    ticketTierId?: string;
+    purchaserName: string;
+    company?: string;
+}
+
+/** The group a link was issued for, whichever event is active. */
+const localGroup = async (link: { subjectId: string; eventId?: string }): Promise<RegistrationGroup | undefined> =>
+    (await db.findAllInEvent('registration_groups', link.eventId || DEFAULT_EVENT_ID)).find(g => g.id === link.subjectId);
+
+/** Books free seats; paid ones are bought through `startCheckout`. `manageToken` opens the purchaser's seat dashboard. */
+export const purchaseGroup = async (eventId: string, order: GroupOrder): Promise<{ success: boolean; message?: string; group?: RegistrationGroup; manageToken?: string }> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/events/${eventId}/groups`, order);
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { success: false, message: body.message || 'Failed to book the seats.' };
+    }
+    if (!order.purchaserName.trim()) return { success: false, message: 'Your name is required.' };
+    if (!/\S+@\S+\.\S+/.test(order.purchaserEmail)) return { success: false, message: 'A valid email address is required.' };
+    const { registrations, tiers, config, held } = await localSeating(eventId);
+    const quote = groups.priceGroupOrder(order.items, tiers);
+    if (typeof quote === 'string') return { success: false, message: quote };
+    if (quote.total > 0) return { success: false, message: 'Paid seats are bought through checkout.' };
+    if (!waitlist.roomForSeats(groups.newGroupSeats(order.items.filter(item => item.quantity > 0)), registrations, config, tiers, Date.now(), held)) {
+        return { success: false, message: 'There are not enough seats left for this order.' };
+    }
+    const group = await localBookGroup(eventId, order, order.items, quote, tiers);
+    return { success: true, group, manageToken: await localGroupManageLink(group) };
+};
+
+/** Creates the group with one open seat per ticket and counts them as sold, once they are known to fit. */
+const localBookGroup = async (eventId: string, purchaser: Omit<GroupOrder, 'items'>, items: GroupOrderItem[], quote: { total: number; currency: string }, tiers: TicketTier[]) => {
+    const bought = items.filter(item => item.quantity > 0);
+    const group: RegistrationGroup = await db.insert('registration_groups', {
+        id: `grp_${Date.now()}`,
+        eventId,
+        purchaserName: purchaser.purchaserName.trim(),
+        purchaserEmail: purchaser.purchaserEmail.trim(),
+        ...(purchaser.company ? { company: purchaser.company.trim() } : {}),
+        seats: groups.newGroupSeats(bought),
+        amountPaid: quote.total,
+        currency: quote.currency,
+        createdAt: Date.now()
+    });
+    await localCountSold(tiers, bought);
+    return group;
+};
+
+const localCountSold = async (tiers: TicketTier[], items: GroupOrderItem[]) => {
+    for (const item of items) {
+        const tier = tiers.find(t => t.id === item.ticketTierId);
+        if (tier) await db.update('ticket_tiers', tier.id, { sold: (tier.sold || 0) + item.quantity });
+    }
+};
+
+const localGroupManageLink = async (group: RegistrationGroup) => {
+    const eventId = group.eventId || DEFAULT_EVENT_ID;
+    const manageToken = await issueLocalToken('group_manage', {
+        subjectType: 'group', subjectId: group.id, email: group.purchaserEmail, eventId, name: group.purchaserName
+    });
+    console.log(`[Offline Simulation] Seat management link for ${group.purchaserEmail}: ${window.location.origin}/${eventId}?manageGroup=${manageToken}`);
+    return manageToken;
+};
+
+/** The group a purchaser's link manages, or null if the link is no good. */
+export const getManagedGroup = async (token: string): Promise<RegistrationGroup | null> => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/groups/manage/${encodeURIComponent(token)}`);
+        return res.ok ? (await res.json() as any) : null;
+    }
+    const link = await findLocalToken(token, 'group_manage');
+    return link ? (await localGroup(link)) || null : null;
+};
+
+/** Names the attendee for a seat and sends them a claim link. An empty email frees the seat again. */
+export const assignGroupSeat = async (token: string, seatId: string, attendee: { name: string; email: string }): Promise<RegistrationGroup> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/groups/manage/${encodeURIComponent(token)}/seats`, { seatId, ...attendee });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to update the seat.');
+        return body;
+    }
+    const link = await findLocalToken(token, 'group_manage');
+    if (!link) throw new Error('This link is invalid or has expired.');
+    const group = await localGroup(link);
+    if (!group) throw new Error('This group no longer exists.');
+    const email = attendee.email.trim();
+    const problem = groups.seatAssignmentProblem(group, seatId, email);
+    if (problem) throw new Error(problem);
+    const eventId = group.eventId || DEFAULT_EVENT_ID;
+    if (email && await db.find('registrations', { email }, r => (r.eventId || DEFAULT_EVENT_ID) === eventId)) {
+        throw new Error(`${email} is already registered for this event.`);
+    }
+
+    const stale = (await db.findAll('auth_tokens')).filter(t => t.purpose === 'group_seat' && t.subjectId === group.id && t.seatId === seatId);
+    for (const t of stale) await db.remove('auth_tokens', t.id);
+    const seats = group.seats.map(seat => seat.id !== seatId ? seat : email
+        ? { id: seat.id, ticketTierId: seat.ticketTierId, status: 'invited' as const, attendeeName: attendee.name.trim(), attendeeEmail: email, invitedAt: Date.now() }
+        : { id: seat.id, ticketTierId: seat.ticketTierId, status: 'open' as const });
+    const updated = await db.update('registration_groups', group.id, { seats });
+    if (email) {
+        const seatToken = await issueLocalToken('group_seat', {
+            subjectType: 'group', subjectId: group.id, seatId, email, eventId, name: attendee.name.trim()
+        });
+        console.log(`[Offline Simulation] Seat link for ${email}: ${window.location.origin}/${eventId}?claimSeat=${seatToken}`);
+    }
+    return updated;
+};
+
+export const getGroupSeatClaim = async (token: string): Promise<GroupSeatClaim | null> => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/groups/claims/${encodeURIComponent(token)}`);
+        return res.ok ? (await res.json() as any) : null;
+    }
+    const claim = await findLocalToken(token, 'group_seat');
+    const group = claim ? await localGroup(claim) : undefined;
+    const seat = group?.seats.find(s => s.id === claim.seatId);
+    if (!group || seat?.status !== 'invited') return null;
+    return {
+        eventId: claim.eventId, email: claim.email, name: claim.name, ticketTierId: seat.ticketTierId,
+        purchaserName: group.purchaserName, ...(group.company ? { company: group.company } : {})
+    };
+};
+
+// --- Checkout ---
+// Paid tickets are bought through an order priced from the ticket tiers, and
+// EventCoins through an order for a coin package (see `server/orders.ts`).
+// The payment is made for the order's total, and the registration, group or
+// wallet credit is created only once it has gone through. Browser mode has no
+// payment provider, so confirming an order counts it as paid, and Stripe's
+// webhook is stood in for by `deliverPaymentWebhook`.
+
+/** A registration with its form answers, or a group's seats, and optionally a discount code and who to invoice. */
+export interface CheckoutCart {
+    registration?: RegistrationData;
+    group?: GroupOrder;
+    discountCode?: string;
+    billing?: OrderBilling;
+}
+
+export interface CheckoutResult {
+    success: boolean;
+    message?: string;
+    errors?: Record<string, string>;
+    /** No seats are left. A registration can still join the waitlist without paying. */
+    soldOut?: boolean;
+    order?: Order;
+    /** For confirming the card payment; a `mock_` secret means no payment provider is set up. */
+    clientSecret?: string;
+    /** Set instead of `clientSecret` when a discount made the order free: nothing is charged and it is already complete. */
+    completed?: OrderResult;
+}
+
+/** What a paid order became: the registration, or the group and its purchaser's link. */
+export interface OrderResult {
+    success: boolean;
+    message?: string;
+    order?: Order;
+    user?: RegistrationData;
+    group?: RegistrationGroup;
+    manageToken?: string;
+}
+
+/** Places an order for the cart, holding its seats, and starts the payment for its total. */
+export const startCheckout = async (eventId: string, cart: CheckoutCart, inviteToken?: string): Promise<CheckoutResult> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/events/${eventId}/orders`, { ...cart, inviteToken });
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { ...body, success: false, message: body.message || 'Failed to start the checkout.' };
+    }
+    const billing = invoices.orderBillingFields(cart.billing);
+    if (typeof billing === 'string') return { success: false, message: billing };
+    let fields: Pick<Order, 'kind' | 'email' | 'name' | 'details'>;
+    let items: GroupOrderItem[];
+    if (cart.group) {
+        const { items: groupItems, ...purchaser } = cart.group;
+        if (!purchaser.purchaserName.trim()) return { success: false, message: 'Your name is required.' };
+        if (!/\S+@\S+\.\S+/.test(purchaser.purchaserEmail)) return { success: false, message: 'A valid email address is required.' };
+        items = groupItems;
+        fields = { kind: 'group', email: purchaser.purchaserEmail.trim(), name: purchaser.purchaserName.trim(), details: purchaser };
+    } else if (cart.registration) {
+        const { password, ...answers } = cart.registration as RegistrationData & { password?: string };
+        const profile = withoutServerFields(answers);
+        const { errors, hidden } = formFields.checkFormAnswers((await getEventConfig(eventId)).formFields || [], profile);
+        if (Object.keys(errors).length > 0) return { success: false, message: Object.values(errors)[0], errors };
+        hidden.forEach(id => delete profile[id]);
+        if (await db.find('registrations', { email: profile.email }, r => (r.eventId || DEFAULT_EVENT_ID) === eventId)) {
+            return { success: false, message: 'Email already registered.' };
+        }
+        const invite = inviteToken ? await findLocalToken(inviteToken, 'invite') : null;
+        if (inviteToken && (!invite || invite.eventId !== eventId || invite.email.toLowerCase() !== profile.email.toLowerCase())) {
+            return { success: false, message: 'This invitation link is invalid or has expired.' };
+        }
+        items = [{ ticketTierId: String(profile.ticketTierId), quantity: 1 }];
+        fields = {
+            kind: 'registration', email: profile.email.trim(), name: (profile.name || '').trim(),
+            details: { ...profile, ...(password ? { password_hash: await auth.hashPassword(password) } : {}) }
+        };
+    } else {
+        return { success: false, message: 'Nothing to order.' };
+    }
+
+    const { registrations, tiers, config, held } = await localSeating(eventId);
+    let redemption: orders.Redemption | undefined;
+    if (cart.discountCode) {
+        const code = await localDiscountCode(eventId, cart.discountCode);
+        redemption = { code, heldUses: code ? orders.heldDiscountUses(await db.findAllInEvent('orders', eventId), code.id) : 0 };
+    }
+    const order = orders.newOrder({ id: `ord_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`, eventId, ...fields, ...(billing ? { billing } : {}) }, items, tiers, Date.now(), redemption);
+    if (typeof order === 'string') return { success: false, message: order };
+    const fits = order.kind === 'group'
+        ? waitlist.roomForSeats(groups.newGroupSeats(order.items), registrations, config, tiers, Date.now(), held)
+        : waitlist.admissionStatus(order.items[0].ticketTierId, registrations, config, tiers, Date.now(), held) === 'confirmed';
+    if (!fits) {
+        return { success: false, soldOut: true, message: order.kind === 'group' ? 'There are not enough seats left for this order.' : 'This ticket is sold out.' };
+    }
+    if (order.total === 0) {
+        // The discount covered everything, so there is nothing to charge.
+        const completed = await localFulfilOrder(await db.insert('orders', order));
+        return { success: true, order: completed.order, completed };
+    }
+    const placed: Order = await db.insert('orders', { ...order, paymentIntentId: `mock_pi_${order.id}` });
+    return { success: true, order: orders.publicOrder(placed), clientSecret: `mock_secret_${order.id}` };
+};
+
+/** Places an order for one of the `COIN_PACKAGES`, to top up the delegate's wallet once paid. */
+export const startCoinPurchase = async (token: string, packageId: string): Promise<CheckoutResult> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/wallet/purchase', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+            body: JSON.stringify({ packageId })
+        });
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { ...body, success: false, message: body.message || 'Failed to start the top-up.' };
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration: RegistrationData | undefined = await db.find('registrations', { id: payload.id });
+    if (!registration) return { success: false, message: 'Registration not found.' };
+    const order = orders.newCoinOrder({
+        id: `ord_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+        eventId: registration.eventId || DEFAULT_EVENT_ID,
+        email: registration.email,
+        name: registration.name
+    }, registration.id!, packageId);
+    if (typeof order === 'string') return { success: false, message: order };
+    const placed: Order = await db.insert('orders', { ...order, paymentIntentId: `mock_pi_${order.id}` });
+    return { success: true, order: orders.publicOrder(placed), clientSecret: `mock_secret_${order.id}` };
+};
+
+/**
+ * Completes an order once its payment has succeeded. An order whose seats
+ * were released before then only goes through if there is still room.
+ */
+export const confirmOrder = async (orderId: string): Promise<OrderResult> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/orders/${encodeURIComponent(orderId)}/confirm`, {});
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { ...body, success: false, message: body.message || 'Failed to complete the order.' };
+    }
+    const pending: Order | undefined = await db.find('orders', { id: orderId });
+    const rejection = orders.paymentRejection(pending);
+    if (rejection) return { success: false, message: rejection };
+    return localFulfilOrder(pending!);
+};
+
+/** Turns a paid order into what it bought, see `fulfilOrder` in the backend. An order already paid or refunded is left as it is. */
+const localFulfilOrder = async (pending: Order): Promise<OrderResult> => {
+    const orderId = pending.id;
+    if (pending.status === 'paid' || pending.status === 'refunded') return { success: true, order: orders.publicOrder(pending) };
+
+    const now = Date.now();
+    const eventId = pending.eventId;
+    const wasHeld = orders.holdsSeats(pending, now);
+    await db.update('orders', orderId, { status: 'paid', paidAt: now, paymentError: undefined });
+    await localIssueInvoice({ ...pending, status: 'paid', paidAt: now });
+    if (pending.discount) {
+        const code: DiscountCode | undefined = await db.find('discount_codes', { id: pending.discount.codeId });
+        if (code) await db.update('discount_codes', code.id, { used: (Number(code.used) || 0) + 1 });
+    }
+    if (pending.kind === 'coins') {
+        const credit = orders.coinCredit(pending, now);
+        await db.insert('transactions', credit);
+        return { success: true, order: orders.publicOrder(await db.update('orders', orderId, { transactionId: credit.id })) };
+    }
+    const { registrations, tiers, config, held } = await localSeating(eventId);
+    const fail = async (fulfilmentError: string): Promise<OrderResult> =>
+        ({ success: false, message: fulfilmentError, order: orders.publicOrder(await db.update('orders', orderId, { fulfilmentError })) });
+
+    if (pending.kind === 'group') {
+        if (!wasHeld && !waitlist.roomForSeats(groups.newGroupSeats(pending.items), registrations, config, tiers, now, held)) {
+            return fail('The seats were released before the payment went through, and there are not enough left.');
+        }
+        const group = await localBookGroup(eventId, pending.details as GroupOrder, pending.items, pending, tiers);
+        const order = await db.update('orders', orderId, { groupId: group.id });
+        return { success: true, order: orders.publicOrder(order), group, manageToken: await localGroupManageLink(group) };
+    }
+
+    const waitingId = orders.offerRegistrationId(pending);
+    if (waitingId) {
+        const waiting = registrations.find(r => r.id === waitingId);
+        if (waiting?.status !== 'waitlist') return fail('The place on the waitlist was given up before the payment went through.');
+        if (waitlist.offerRejection(waiting, now) && waitlist.admissionStatus(waiting.ticketTierId, registrations, config, tiers, now, held) !== 'confirmed') {
+            return fail('The waitlist offer expired before the payment went through, and the ticket has sold out.');
+        }
+        await db.update('registrations', waitingId, { status: 'confirmed', orderId });
+        await localCountSold(tiers, pending.items);
+        const order = await db.update('orders', orderId, { registrationId: waitingId });
+        const { password_hash, ...user } = await db.find('registrations', { id: waitingId });
+        return { success: true, order: orders.publicOrder(order), user };
+    }
+
+    if (registrations.some(r => r.email.toLowerCase() === pending.email.toLowerCase())) {
+        return fail('This email address is already registered for the event.');
+    }
+    const registration = orders.orderRegistration(pending, `reg_${now}_${Math.random().toString(36).substr(2, 5)}`, now);
+    if (!wasHeld && waitlist.admissionStatus(registration.ticketTierId, registrations, config, tiers, now, held) !== 'confirmed') {
+        return fail('The seat was released before the payment went through, and the ticket has sold out.');
+    }
+    await db.insert('registrations', registration);
+    await localCountSold(tiers, pending.items);
+    const order = await db.update('orders', orderId, { registrationId: registration.id });
+    const { password_hash, ...user } = registration;
+    return { success: true, order: orders.publicOrder(order), user };
+};
+
+const localDiscountCode = async (eventId: string, code: unknown): Promise<DiscountCode | null> =>
+    (await db.findAllInEvent('discount_codes', eventId)).find(c => c.code === discounts.normalizeCode(code)) || null;
+
+export interface DiscountCheck {
+    success: boolean;
+    message?: string;
+    discount?: OrderDiscount;
+    subtotal?: number;
+    total?: number;
+    currency?: string;
+}
+
+/** Previews a discount code on a cart, priced as checkout would now. Checkout checks the code again. */
+export const checkDiscountCode = async (eventId: string, code: string, items: GroupOrderItem[]): Promise<DiscountCheck> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/events/${eventId}/discounts/check`, { code, items });
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { success: false, message: body.message || 'Failed to check the code.' };
+    }
+    const tiers = await db.findAllInEvent('ticket_tiers', eventId);
+    const now = Date.now();
+    const quote = groups.priceGroupOrder(items, tiers, now);
+    if (typeof quote === 'string') return { success: false, message: quote };
+    const found = await localDiscountCode(eventId, code);
+    const heldUses = found ? orders.heldDiscountUses(await db.findAllInEvent('orders', eventId), found.id, now) : 0;
+    const discount = discounts.priceDiscount(found, orders.pricedItems(items, tiers, now), now, heldUses);
+    if (typeof discount === 'string') return { success: false, message: discount };
+    return { success: true, discount, subtotal: quote.total, total: Math.round((quote.total - discount.amount) * 100) / 100, currency: quote.currency };
+};
+
+/** Gives up an unpaid order and the seats it holds. */
+export const cancelOrder = async (orderId: string) => {
+    if (IS_ONLINE) {
+        await fetch(`/api/orders/${encodeURIComponent(orderId)}`, { method: 'DELETE' });
+        return;
+    }
+    const order: Order | undefined = await db.find('orders', { id: orderId });
+    if (order?.status === 'pending') await db.update('orders', orderId, { status: 'cancelled' });
+};
+
+// --- Payment Webhooks ---
+// Stripe reports payments, refunds and disputes by posting signed events (see
+// `server/paymentWebhooks.ts`). In browser mode, deliveries signed with
+// `LOCAL_WEBHOOK_SECRET` are applied here the way the backend's webhook
+// applies them, so tests can send fake events without a network.
+
+export const LOCAL_WEBHOOK_SECRET = 'whsec_local';
+
+export interface WebhookResult {
+    received: boolean;
+    error?: string;
+    /** The event had been handled before. */
+    duplicate?: boolean;
+    /** The event does not concern an order. */
+    ignored?: boolean;
+    orderId?: string;
+}
+
+/** Takes back what a refunded order bought, see `revokeOrder` in the backend. */
+const localRevokeOrder = async (order: Order) => {
+    if (order.kind === 'coins') {
+        const reversal = orders.coinReversal(order, Date.now());
+        if (order.transactionId && !(await db.find('transactions', { id: reversal.id }))) await db.insert('transactions', reversal);
+        return;
+    }
+    const registrations = (await db.findAllInEvent('registrations', order.eventId))
+        .filter(r => r.id === order.registrationId || (order.groupId && r.groupId === order.groupId));
+    await localCancelRegistrations(registrations);
+    if (order.groupId) {
+        const group: RegistrationGroup | undefined = await db.find('registration_groups', { id: order.groupId });
+        if (group) {
+            await db.update('registration_groups', group.id, { seats: group.seats.filter(seat => seat.status === 'claimed') });
+            await localReleaseSold(group.seats.filter(seat => seat.status !== 'claimed').map(seat => seat.ticketTierId));
+        }
+    }
+    await localFillOpenSeats(order.eventId);
+};
+
+/**
+ * Delivers a Stripe webhook event: the raw body and its `Stripe-Signature`
+ * header, e.g. from `signedWebhook`. Online, it is posted to the backend,
+ * which checks it against its own secret.
+ */
+export const deliverPaymentWebhook = async (payload: string, signature: string): Promise<WebhookResult> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/payments/webhook', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+            body: payload
+        });
+        const body: any = await res.json().catch(() => ({}));
+        return res.ok ? body : { received: false, error: body.error || 'The webhook was refused.' };
+    }
+    const problem = await paymentWebhooks.webhookSignatureProblem(payload, signature, LOCAL_WEBHOOK_SECRET);
+    if (problem) return { received: false, error: problem };
+    const event: paymentWebhooks.StripeEvent = JSON.parse(payload);
+    if (await db.find('payment_events', { id: event.id })) return { received: true, duplicate: true };
+
+    const effect = paymentWebhooks.paymentEffect(event);
+    const orderId = effect && 'orderId' in effect ? effect.orderId : undefined;
+    const order: Order | undefined = !effect ? undefined
+        : orderId ? await db.find('orders', { id: orderId }) : await db.find('orders', { paymentIntentId: effect.paymentIntentId });
+    if (effect && order) {
+        if (effect.kind === 'succeeded') {
+            if (paymentWebhooks.coversOrder(order, effect)) await localFulfilOrder(order);
+            else await db.update('orders', order.id, { paymentError: 'The payment did not cover the order.' });
+        } else {
+            const { changes, revoke } = paymentWebhooks.paymentEventChanges(order, effect);
+            if (Object.keys(changes).length > 0) await db.update('orders', order.id, changes);
+            if (revoke) await localRevokeOrder(order);
+        }
+    }
+    await db.insert('payment_events', { id: event.id, type: event.type, orderId: order?.id, receivedAt: Date.now() });
+    return order ? { received: true, orderId: order.id } : { received: true, ignored: true };
+};
+
+// --- Refunds ---
+// Cancelling refunds what the tier's cancellation policy allows, and admins
+// can refund any part of a paid order (see `server/refunds.ts`). Browser mode
+// stands in for the payment provider with `mock_re_` refund ids.
+
+const localReleaseSold = async (tierIds: (string | undefined)[]) => {
+    for (const tierId of tierIds.filter(Boolean)) {
+        const tier: TicketTier | undefined = await db.find('ticket_tiers', { id: tierId });
+        if (tier) await db.update('ticket_tiers', tier.id, { sold: Math.max(0, (Number(tier.sold) || 0) - 1) });
+    }
+};
+
+/** Cancels the registrations, see `cancelRegistrations` in the backend. */
+const localCancelRegistrations = async (registrations: RegistrationData[]) => {
+    const cancelling = registrations.filter(r => r.status !== 'cancelled');
+    for (const registration of cancelling) await db.update('registrations', registration.id!, { status: 'cancelled' });
+    await localReleaseSold(cancelling.filter(r => r.status === 'confirmed' && (r.orderId || r.groupId)).map(r => r.ticketTierId));
+};
+
+const localRefundOrder = async (orderId: string, amount: number, details: Pick<OrderRefund, 'reason' | 'note' | 'by'>): Promise<Order | string> => {
+    const order: Order | undefined = await db.find('orders', { id: orderId });
+    const problem = refunds.refundProblem(order, amount);
+    if (problem) return problem;
+    const refund: OrderRefund = {
+        id: refunds.nextRefundId(order!), amount: Math.round(amount * 100) / 100, ...details,
+        providerRefundId: `mock_re_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`, createdAt: Date.now()
+    };
+    return db.update('orders', orderId, refunds.withRefund(order!, refund));
+};
+
+/** What cancelling the signed-in delegate's ticket would refund now, and what they paid. */
+export interface CancellationTerms {
+    policy: CancellationRule[];
+    refund: { percent: number; amount: number };
+    currency?: string;
+    /** The order that paid for the ticket, with its refunds. */
+    order: Order | null;
+}
+
+export const getCancellationTerms = async (token: string): Promise<CancellationTerms> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/cancellation', { headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load the cancellation terms.');
+        return body;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration: RegistrationData | undefined = await db.find('registrations', { id: payload.id });
+    if (!registration) throw new Error('Registration not found.');
+    const order: Order | undefined = registration.orderId ? await db.find('orders', { id: registration.orderId }) : undefined;
+    const tier: TicketTier | undefined = registration.ticketTierId ? await db.find('ticket_tiers', { id: registration.ticketTierId }) : undefined;
+    return {
+        policy: tier?.cancellationPolicy || [],
+        refund: refunds.cancellationRefund(order, tier),
+        currency: order?.currency || tier?.currency,
+        order: order ? orders.publicOrder(order) : null
+    };
+};
+
+const refundRequest = (token: string, url: string, init: RequestInit = {}) => fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+});
+
+/** The orders behind a registration, with their refunds: its own, and its group's. */
+export const getRegistrationOrders = async (token: string, registrationId: string): Promise<Order[]> => {
+    if (IS_ONLINE) {
+        const res = await refundRequest(token, `/api/admin/registrations/${encodeURIComponent(registrationId)}/orders`);
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load the orders.');
+        return body.orders;
+    }
+    requireAuth(token);
+    const registration: RegistrationData | undefined = await db.find('registrations', { id: registrationId });
+    if (!registration) throw new Error('Registration not found.');
+    const found: Order[] = (await db.findAllInEvent('orders', registration.eventId || DEFAULT_EVENT_ID))
+        .filter(o => o.id === registration.orderId || (registration.groupId && o.groupId === registration.groupId));
+    return found.map(orders.publicOrder);
+};
+
+/** Refunds part or all of a paid order; `cancelTicket` also takes back what it bought. */
+export const refundOrder = async (token: string, orderId: string, request: { amount: number; note?: string; cancelTicket?: boolean }): Promise<Order> => {
+    if (IS_ONLINE) {
+        const res = await refundRequest(token, `/api/admin/orders/${encodeURIComponent(orderId)}/refund`, { method: 'POST', body: JSON.stringify(request) });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to refund the order.');
+        return body.order;
+    }
+    const admin = requireAuth(token);
+    const refunded = await localRefundOrder(orderId, Number(request.amount), {
+        reason: 'admin', by: admin.email, ...(request.note?.trim() ? { note: request.note.trim().slice(0, 500) } : {})
+    });
+    if (typeof refunded === 'string') throw new Error(refunded);
+    if (request.cancelTicket) await localRevokeOrder(refunded);
+    return orders.publicOrder(refunded);
+};
+
+// --- Invoices ---
+// Paid orders get invoices numbered per event (see `server/invoices.ts`),
+// issued in browser mode as the payment is recorded. The PDFs are drawn by
+// `utils/invoicePdf.ts`.
+
+const localIssueInvoice = async (order: Order): Promise<Invoice | null> => {
+    if (!invoices.needsInvoice(order)) return null;
+    const existing: Invoice | undefined = await db.find('invoices', { orderId: order.id });
+    if (existing) return existing;
+    const issued: Invoice[] = await db.findAllInEvent('invoices', order.eventId);
+    const sequence = Math.max(0, ...issued.map(invoice => Number(invoice.sequence) || 0)) + 1;
+    const tiers = await db.findAllInEvent('ticket_tiers', order.eventId);
+    return db.insert('invoices', invoices.newInvoice(order, sequence, await getEventConfig(order.eventId), tiers));
+};
+
+/** Issues the invoices these orders are owed but do not have yet, see `issueMissingInvoices` in the backend. */
+const localIssueMissingInvoices = async (paid: Order[], issued: Invoice[]) => {
+    const invoiced = new Set(issued.map(invoice => invoice.orderId));
+    const missing = paid.filter(order => invoices.needsInvoice(order) && !invoiced.has(order.id)).sort((a, b) => (a.paidAt || 0) - (b.paidAt || 0));
+    const added: Invoice[] = [];
+    for (const order of missing) {
+        const invoice = await localIssueInvoice(order);
+        if (invoice) added.push(invoice);
+    }
+    return [...issued, ...added];
+};
+
+/** The signed-in delegate's invoices, for their ticket, group purchases and EventCoins, newest first. */
+export const getDelegateInvoices = async (token: string): Promise<Invoice[]> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/invoices', { headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load your invoices.');
+        return body.invoices;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration: RegistrationData | undefined = await db.find('registrations', { id: payload.id });
+    if (!registration) throw new Error('Registration not found.');
+    const eventId = registration.eventId || DEFAULT_EVENT_ID;
+    const paid = (await db.findAllInEvent('orders', eventId)).filter(o => o.email === registration.email && (o.status === 'paid' || o.status === 'refunded'));
+    const issued = (await db.findAllInEvent('invoices', eventId)).filter(i => i.email === registration.email);
+    return (await localIssueMissingInvoices(paid, issued)).sort((a, b) => b.sequence - a.sequence);
+};
+
+/** Every invoice of the selected event, in number order. */
+export const getInvoices = async (token: string): Promise<Invoice[]> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/admin/invoices', { headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load the invoices.');
+        return body.invoices;
+    }
+    requireAuth(token);
+    const eventId = db.getActiveEvent() || DEFAULT_EVENT_ID;
+    const paid = (await db.findAllInEvent('orders', eventId)).filter(o => o.status === 'paid' || o.status === 'refunded');
+    return (await localIssueMissingInvoices(paid, await db.findAllInEvent('invoices', eventId))).sort((a, b) => a.sequence - b.sequence);
+};
+
+// --- Ticket Transfers ---
+// A confirmed delegate offers their ticket to someone by email; the recipient
+// accepts through the link and completes the form, which gives them a new
+// registration and pass and cancels the holder's. See `server/transfers.ts`.
+
+export interface TicketTransferStatus {
+    pendingTransfer: PendingTransfer | null;
+    history: TicketHolderChange[];
+    /** Why the ticket cannot be transferred right now, or null. */
+    rejection: string | null;
+}
+
+/** What a recipient's transfer link prefills the registration form with. */
+export interface TicketTransferOffer {
+    eventId: string;
+    email: string;
+    name?: string;
+    fromName: string;
+    ticketTierId?: string;
+}
+
+/**
+ * Browser mode keeps renames in the ticket's history here; online, the
+ * backend does it for every write to a registration.
+ */
+const withLocalNameChange = async (id: string, updates: Partial<RegistrationData>, by?: string) => {
+    if (IS_ONLINE) return updates;
+    const existing = await db.find('registrations', { id });
+    return existing ? transfers.withNameChange(existing, updates, by) : updates;
+};
+
+/** The registration a transfer link was issued for, whichever event is active. */
+const localTransferHolder = async (link: { subjectId: string; eventId?: string }): Promise<RegistrationData | undefined> =>
+    (await db.findAllInEvent('registrations', link.eventId || DEFAULT_EVENT_ID)).find(r => r.id === link.subjectId);
+
+const removeLocalTransferLinks = async (registrationId: string) => {
+    const links = (await db.findAll('auth_tokens')).filter(t => t.purpose === 'ticket_transfer' && t.subjectId === registrationId);
+    for (const t of links) await db.remove('auth_tokens', t.id);
+};
+
+export const getTicketTransfer = async (token: string): Promise<TicketTransferStatus> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/ticket-transfer', { headers: { 'Authorization': `Bearer ${token}` } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load your ticket.');
+        return body;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration = await db.find('registrations', { id: payload.id });
+    if (!registration) throw new Error('Registration not found.');
+    const pending = registration.pendingTransfer;
+    return {
+        pendingTransfer: pending && pending.expiresAt >= Date.now() ? pending : null,
+        history: registration.transferHistory || [],
+        rejection: transfers.transferRejection(registration)
+    };
+};
+
+/** Offers the signed-in delegate's ticket to someone else, replacing any earlier offer. */
+export const offerTicketTransfer = async (token: string, recipient: { email: string; name: string }): Promise<PendingTransfer> => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/ticket-transfer', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+            body: JSON.stringify(recipient)
+        });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to offer your ticket.');
+        return body.pendingTransfer;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration = await db.find('registrations', { id: payload.id });
+    const eventId = registration?.eventId || DEFAULT_EVENT_ID;
+    const problem = transfers.transferRejection(registration)
+        || transfers.recipientProblem(registration, recipient.email, await db.findAllInEvent('registrations', eventId));
+    if (problem) throw new Error(problem);
+
+    await removeLocalTransferLinks(registration.id);
+    const pendingTransfer = transfers.newPendingTransfer(recipient, Date.now());
+    await db.update('registrations', registration.id, { pendingTransfer });
+    const transferToken = await issueLocalToken('ticket_transfer', {
+        subjectType: 'delegate', subjectId: registration.id, email: pendingTransfer.toEmail, eventId, name: pendingTransfer.toName
+    });
+    console.log(`[Offline Simulation] Ticket transfer link for ${pendingTransfer.toEmail}: ${window.location.origin}/${eventId}?acceptTransfer=${transferToken}`);
+    return pendingTransfer;
+};
+
+export const cancelTicketTransfer = async (token: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/ticket-transfer', { method: 'DELETE', headers: { 'Authorization': `Bearer ${token}` } });
+        if (!res.ok) throw new Error('Failed to cancel the transfer.');
+        return;
+    }
+    const payload = requireAuth(token, 'delegate');
+    await removeLocalTransferLinks(payload.id);
+    await db.update('registrations', payload.id, { pendingTransfer: null });
+};
+
+export const getTicketTransferOffer = async (transferToken: string): Promise<TicketTransferOffer | null> => {
+    if (IS_ONLINE) {
+        const res = await fetch(`/api/transfers/${encodeURIComponent(transferToken)}`);
+        return res.ok ? (await res.json() as any) : null;
+    }
+    const link = await findLocalToken(transferToken, 'ticket_transfer');
+    const holder = link ? await localTransferHolder(link) : undefined;
+    if (!holder || transfers.transferRejection(holder) || !holder.pendingTransfer) return null;
+    return { eventId: link.eventId, email: link.email, name: link.name, fromName: holder.name, ticketTierId: holder.ticketTierId };
+};
+
+/** Takes over the ticket with the recipient's form answers, like `registerUser`. */
+export const acceptTicketTransfer = async (transferToken: string, data: RegistrationData): Promise<{ success: boolean; message?: string; errors?: Record<string, string>; user?: RegistrationData }> => {
+    if (IS_ONLINE) {
+        const res = await postJson(`/api/transfers/${encodeURIComponent(transferToken)}/accept`, data);
+        const body: any = await res.json().catch(() => ({}));
+        return body.success ? body : { ...body, success: false, message: body.message || 'Failed to accept the ticket.' };
+    }
+    const link = await findLocalToken(transferToken, 'ticket_transfer');
+    if (!link || link.email.toLowerCase() !== data.email.toLowerCase()) return { success: false, message: 'This transfer link is invalid or has expired.' };
+    const from = await localTransferHolder(link);
+    const eventId = link.eventId || DEFAULT_EVENT_ID;
+    const rejection = transfers.transferRejection(from);
+    if (rejection) return { success: false, message: rejection };
+    const pending = from!.pendingTransfer;
+    if (!pending || pending.expiresAt < Date.now() || pending.toEmail.toLowerCase() !== data.email.toLowerCase()) {
+        return { success: false, message: 'This transfer has been cancelled.' };
+    }
+    const registrations = await db.findAllInEvent('registrations', eventId);
+    const problem = transfers.recipientProblem(from!, data.email, registrations);
+    if (problem) return { success: false, message: problem };
+
+    const { password, ...answers } = data as RegistrationData & { password?: string };
+    const profile = withoutServerFields(answers);
+    profile.ticketTierId = from!.ticketTierId;
+    const config = await getEventConfig(eventId);
+    const { errors, hidden } = formFields.checkFormAnswers(config.formFields || [], profile);
+    if (Object.keys(errors).length > 0) return { success: false, message: Object.values(errors)[0], errors };
+    hidden.forEach(id => delete profile[id]);
+
+    const now = Date.now();
+    const to = transfers.transferredTicket(from!, {
+        ...profile, ...(password ? { password_hash: await auth.hashPassword(password) } : {})
+    }, `reg_${now}_${Math.random().toString(36).substr(2, 5)}`, now);
+    await db.insert('registrations', to);
+    await db.update('registrations', from!.id!, transfers.handedOver(to.id!, now));
+    const group = from!.groupId ? await localGroup({ subjectId: from!.groupId, eventId }) : undefined;
+    if (group) await db.update('registration_groups', group.id, { seats: transfers.reassignedSeats(group.seats, from!.id!, to) });
+    await db.remove('auth_tokens', link.id);
+
+    const { password_hash, ...publicUser } = to;
+    return { success: true, user: publicUser };
+};
+
+// --- Tickets ---
+// Ticket codes are checked on this device: the signature against the public
+// keys cached here (refreshed whenever the backend is reachable), and
+// revocation against this device's copy of the registrations. In browser mode
+// a key pair kept in localStorage stands in for the server's signing key.
+
+const TICKET_KEYS_STORAGE_KEY = 'ticketPublicKeys';
+const LOCAL_TICKET_KEY_STORAGE_KEY = 'ticketSigningKey';
+
+let localTicketKey: Promise<tickets.TicketSigningKey> | null = null;
+
+const getLocalTicketKey = () => {
+    if (!localTicketKey) {
+        localTicketKey = (async () => {
+            const saved = localStorage.getItem(LOCAL_TICKET_KEY_STORAGE_KEY);
+            if (saved) return JSON.parse(saved);
+            const key = await tickets.generateTicketKey();
+            localStorage.setItem(LOCAL_TICKET_KEY_STORAGE_KEY, JSON.stringify(key));
+            return key;
+        })();
+    }
+    return localTicketKey;
+};
+
+const issueLocalTicket = async (registration: RegistrationData) => {
+    const eventId = registration.eventId || DEFAULT_EVENT_ID;
+    const config = await getEventConfig(eventId);
+    return tickets.signTicket({
+        e: eventId,
+        r: registration.id!,
+        t: registration.ticketTierId,
+        n: registration.ticketVersion || 1,
+        ...tickets.ticketValidity(config.ticketValidity)
+    }, await getLocalTicketKey());
+};
+
+export interface TicketKeyCache {
+    keys: tickets.TicketPublicKey[];
+    fetchedAt: number;
+}
+
+export const getCachedTicketKeys = (): TicketKeyCache | null => {
+    const saved = localStorage.getItem(TICKET_KEYS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+};
+
+/** Downloads the current ticket public keys, falling back to the cached ones when offline. */
+export const refreshTicketKeys = async (): Promise<TicketKeyCache | null> => {
+    try {
+        const keys = IS_ONLINE
+            ? ((await (await fetch('/api/tickets/keys')).json()) as any).keys as tickets.TicketPublicKey[]
+            : [tickets.publicTicketKey(await getLocalTicketKey())];
+        if (!Array.isArray(keys)) throw new Error('Invalid key list');
+        const cache = { keys, fetchedAt: Date.now() };
+        localStorage.setItem(TICKET_KEYS_STORAGE_KEY, JSON.stringify(cache));
+        return cache;
+    } catch (e) {
+        console.warn('Could not refresh ticket keys, using the cached ones.', e);
+        return getCachedTicketKeys();
+    }
+};
+
+/** Verifies a scanned ticket code on this device without checking the delegate in. */
+export const checkTicket = async (ticketToken: string): Promise<{ success: boolean; message: string; user?: RegistrationData }> => {
+    const keys = getCachedTicketKeys() || await refreshTicketKeys();
+    if (!keys) return { success: false, message: 'No ticket keys on this device. Connect once to download them.' };
+    let check = await tickets.verifyTicket(ticketToken, keys.keys);
+    // A key this device has not seen yet may have been added since the last refresh.
+    if (!check.valid && check.claims && !keys.keys.some(k => k.kid === check.claims!.k)) {
+        const refreshed = await refreshTicketKeys();
+        if (refreshed) check = await tickets.verifyTicket(ticketToken, refreshed.keys);
+    }
+    if (!check.valid) return { success: false, message: check.reason };
+
+    const registration = await db.find('registrations', { id: check.claims.r });
+    const rejection = tickets.ticketRejection(check.claims, registration, db.getActiveEvent() || DEFAULT_EVENT_ID);
+    if (rejection) return { success: false, message: rejection, user: registration };
+    return { success: true, message: `Valid ticket for ${registration.name}`, user: registration };
+};
+
+export const getSignedTicketToken = async (token: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/delegate/ticket', { headers: { 'Authorization': `Bearer ${token}` } });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load ticket.');
+        return body.token as string;
+    }
+    const payload = requireAuth(token, 'delegate');
+    const registration = await db.find('registrations', { id: payload.id });
+    if (!registration) throw new Error('Registration not found.');
+    if (registration.status === 'waitlist') throw new Error('You are on the waitlist. Your pass is issued once you have a seat.');
+    if (registration.status === 'cancelled' || registration.ticketRevokedAt) throw new Error('This ticket is no longer valid.');
+    return issueLocalTicket(registration);
+};
+
+/** Stops the delegate's current ticket code from being admitted. */
+export const revokeTicket = async (token: string, registrationId: string) => {
+    await db.update('registrations', registrationId, { ticketRevokedAt: Date.now() });
+};
+
+/** Issues a new ticket code; codes issued before stop working. */
+export const reissueTicket = async (token: string, registrationId: string) => {
+    const registration = await db.find('registrations', { id: registrationId });
+    if (!registration) throw new Error('Registration not found.');
+    await db.update('registrations', registrationId, { ticketVersion: (registration.ticketVersion || 1) + 1, ticketRevokedAt: null });
+};
+
+// --- Check-in ---
+// Check-ins go through /api/admin/checkin, which records every scan. Without a
+// connection the scan is decided on this device and the resulting rows are
+// queued in the outbox like any other write.
+
+const CHECK_IN_DEVICE_STORAGE_KEY = 'checkInDeviceId';
+
+/** Identifies this browser in the entry history. */
+const checkInDeviceId = () => {
+    let id = localStorage.getItem(CHECK_IN_DEVICE_STORAGE_KEY);
+    if (!id) {
+        id = `device_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+        localStorage.setItem(CHECK_IN_DEVICE_STORAGE_KEY, id);
+    }
+    return id;
+};
+
+export interface CheckInResponse {
+    success: boolean;
+    message: string;
+    user?: RegistrationData;
+    checkIn?: CheckInRecord;
+}
+
+/** Scanning at a session's or room's door rather than the entrance. */
+export interface ZoneScan {
+    zoneId: string;
+    direction: ZoneDirection;
+}
+
+type CheckInRequest = ({ ticket: string } | { registrationId: string }) & Partial<ZoneScan>;
+
+const checkInLocally = async (token: string, request: CheckInRequest): Promise<CheckInResponse> => {
+    // A door device may keep scanning after its access token lapsed offline.
+    const admin = IS_ONLINE ? auth.verifyToken(token) : requireAuth(token);
+    const eventId = db.getActiveEvent() || DEFAULT_EVENT_ID;
+    let registration: RegistrationData | undefined;
+    let reason: string | undefined;
+    if ('ticket' in request) {
+        const check = await checkTicket(request.ticket);
+        registration = check.user;
+        if (!check.success) reason = check.message;
+    } else {
+        registration = await db.find('registrations', { id: request.registrationId });
+        if (!registration) reason = 'Registration not found.';
+        else if (registration.status === 'cancelled') reason = 'This registration has been cancelled.';
+    }
+
+    const zone = request.zoneId ? (await getAccessZones(token)).find(z => z.id === request.zoneId) : undefined;
+    if (request.zoneId && !zone) throw new Error('Zone not found.');
+    const zoneScan = zone ? { zone, direction: request.direction || 'in' } : undefined;
+
+    let result: CheckInResult = 'rejected';
+    if (registration && !reason && zoneScan) {
+        const scans = await db.findAll('check_ins', (c: CheckInRecord) => c.zoneId === zone!.id);
+        const tier = registration.ticketTierId ? await db.find('ticket_tiers', { id: registration.ticketTierId }) : null;
+        const occupants = zones.zoneOccupants(scans)[zone!.id] || new Set<string>();
+        ({ result, reason } = zones.decideZoneScan(zone!, zoneScan.direction, registration.id!, tier, occupants));
+    } else if (registration && !reason) {
+        if (registration.checkedInAt) {
+            result = 'duplicate';
+            reason = `Already checked in at ${new Date(registration.checkedInAt).toLocaleTimeString()}.`;
+        } else {
+            result = 'admitted';
+            registration = await db.update('registrations', registration.id, { checkedInAt: Date.now() });
+        }
+    }
+
+    const checkIn: CheckInRecord = await db.insert('check_ins', {
+        id: `checkin_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        eventId,
+        registrationId: registration?.id,
+        result,
+        reason,
+        method: 'ticket' in request ? 'scan' : 'manual',
+        zoneId: zoneScan?.zone.id,
+        direction: zoneScan?.direction,
+        scannedBy: admin?.id || 'unknown',
+        scannedByEmail: admin?.email,
+        deviceId: checkInDeviceId(),
+        userAgent: navigator.userAgent,
+        timestamp: Date.now()
+    });
+    return { success: result === 'admitted', message: result === 'admitted' ? zones.checkInMessage(registration!.name, zoneScan) : reason!, user: registration, checkIn };
+};
+
+const submitCheckIn = async (token: string, request: CheckInRequest): Promise<CheckInResponse> => {
+    if (IS_ONLINE) {
+        let res: Response;
+        try {
+            res = await fetch('/api/admin/checkin', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() },
+                body: JSON.stringify({ ...request, deviceId: checkInDeviceId() })
+            });
+        } catch (e) {
+            console.warn('Check-in server unreachable, checking in on this device.', e);
+            return checkInLocally(token, request);
+        }
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Check-in failed.');
+        await db.applyRemoteChanges({
+            check_ins: { upserts: [body.checkIn], deletes: [] },
+            ...(body.user ? { registrations: { upserts: [body.user], deletes: [] } } : {})
+        });
+        return body;
+    }
+    return checkInLocally(token, request);
+};
+
+/**
+ * Checks in the holder of a scanned ticket code, at the entrance or at a zone's
+ * door, recording the scan whatever its outcome.
+ */
+export const processCheckIn = (token: string, ticketToken: string, zoneScan?: ZoneScan) => submitCheckIn(token, { ticket: ticketToken, ...zoneScan });
+
+/** Checks a delegate in by hand, e.g. when they cannot show their ticket. */
+export const checkInManually = (token: string, registrationId: string) => submitCheckIn(token, { registrationId });
+
+/** A delegate's scans and check-ins, newest first. */
+export const getCheckInHistory = async (token: string, registrationId: string): Promise<CheckInRecord[]> => {
+    const history = await db.findAll('check_ins', { registrationId });
+    return history.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/** The active event's sessions and room pins, which can each have a door scanner. */
+export const getAccessZones = async (token: string): Promise<AccessZone[]> => {
+    const [sessions, maps] = await Promise.all([db.findAll('sessions'), db.findAll('venue_maps')]);
+    return zones.accessZones(sessions, maps);
+};
+
+/** People inside each zone, by zone id, from this device's copy of the scans. */
+export const getZoneOccupancy = async (token: string): Promise<Record<string, number>> =>
+    zones.zoneOccupancy(await db.findAll('check_ins', (c: CheckInRecord) => !!c.zoneId));
+
+/** Occupancy of one zone for public screens, which do not sync the scans. */
+export const getPublicZoneOccupancy = async (zoneId: string): Promise<number> => {
     if (IS_ONLINE) {
-        const res = await fetch('/api/admin/config/push', {
+        const res = await fetch(`/api/public/zones/${encodeURIComponent(zoneId)}/occupancy`);
+        if (!res.ok) throw new Error('Failed to load occupancy.');
+        return ((await res.json()) as any).occupancy;
+    }
+    return (await getZoneOccupancy('mock-token'))[zoneId] || 0;
+};
+
+// --- Kiosk Fleet ---
+// Admins provision kiosks through /api/admin/kiosks. A paired kiosk keeps its
+// credential, its roster and its queue of scans in localStorage. It decides
+// every scan itself, queues it and syncs the queue to /api/kiosk/sync, which
+// records each scan and sends back admissions made by other devices. In
+// browser mode the same steps run against the local database.
+
+const KIOSK_DEVICE_STORAGE_KEY = 'kioskDevice';
+const KIOSK_ROSTER_STORAGE_KEY = 'kioskRoster';
+const KIOSK_QUEUE_STORAGE_KEY = 'kioskQueue';
+const KIOSK_UNPAIRED_MESSAGE = 'This kiosk has been unpaired. Pair it again to continue.';
+/** Scans sent per sync; the server accepts up to 500. */
+const KIOSK_SYNC_BATCH = 200;
+/** How long a scan waits for the server before the kiosk's own decision stands. */
+const KIOSK_SCAN_TIMEOUT_MS = 4000;
+
+/** This browser's kiosk identity, saved when it was paired. */
+export interface KioskDevice {
+    kioskId: string;
+    name: string;
+    eventId: string;
+    credential: string;
+    pairedAt: number;
+    lastSyncAt?: number;
+    /** Server time of the last sync or roster download, sent with the next sync. */
+    since?: number;
+}
+
+export interface KioskCheckInResponse extends CheckInResponse {
+    /** Set when the server could not be reached and the kiosk's own decision stands for now. */
+    queued?: boolean;
+}
+
+let kioskPrinterStatus: KioskPrinterStatus = 'unknown';
+let kioskSync: Promise<unknown> = Promise.resolve();
+
+const readStored = <T>(key: string): T | null => {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+};
+
+export const getKioskDevice = () => readStored<KioskDevice>(KIOSK_DEVICE_STORAGE_KEY);
+const saveKioskDevice = (device: KioskDevice) => localStorage.setItem(KIOSK_DEVICE_STORAGE_KEY, JSON.stringify(device));
+
+export const getKioskRoster = () => readStored<KioskRoster>(KIOSK_ROSTER_STORAGE_KEY);
+const saveKioskRoster = (roster: KioskRoster) => localStorage.setItem(KIOSK_ROSTER_STORAGE_KEY, JSON.stringify(roster));
+
+export const getKioskQueue = () => readStored<KioskScan[]>(KIOSK_QUEUE_STORAGE_KEY) || [];
+const saveKioskQueue = (queue: KioskScan[]) => localStorage.setItem(KIOSK_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+
+/** Reported with every heartbeat; browsers cannot see the printer, so this is the outcome of the last print. */
+export const setKioskPrinterStatus = (status: KioskPrinterStatus) => { kioskPrinterStatus = status; };
+
+/** Forgets the kiosk's identity and roster. Scans not synced yet are dropped too. */
+export const unpairKiosk = () => {
+    [KIOSK_DEVICE_STORAGE_KEY, KIOSK_ROSTER_STORAGE_KEY, KIOSK_QUEUE_STORAGE_KEY].forEach(key => localStorage.removeItem(key));
+};
+
+const forgetKioskCredential = () => {
+    localStorage.removeItem(KIOSK_DEVICE_STORAGE_KEY);
+    return new Error(KIOSK_UNPAIRED_MESSAGE);
+};
+
+/** Folds roster entries the server reports as changed into the cached roster. */
+const mergeIntoRoster = (changed: RegistrationData[]) => {
+    const roster = getKioskRoster();
+    if (!roster || changed.length === 0) return;
+    const byId = new Map(roster.registrations.map(r => [r.id, r]));
+    changed.forEach(entry => {
+        // An admission queued here may not have reached the server yet.
+        const local = byId.get(entry.id);
+        byId.set(entry.id, { ...entry, checkedInAt: entry.checkedInAt || local?.checkedInAt });
+    });
+    saveKioskRoster({ ...roster, registrations: Array.from(byId.values()) });
+};
+
+const kioskFetch = async (device: KioskDevice, url: string, init: RequestInit = {}) => {
+    const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${device.credential}` }
+    });
+    if (res.status === 401) throw forgetKioskCredential();
+    const body: any = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || 'Kiosk request failed.');
+    return body;
+};
+
+/** The kiosk row a device credential belongs to, in browser mode. */
+const localKiosk = async (device: KioskDevice): Promise<Kiosk & { credentialHash?: string }> => {
+    const credentialHash = await kiosks.hashKioskSecret(device.credential);
+    const kiosk = (await db.findAll('kiosks')).find(k => k.credentialHash === credentialHash);
+    if (!kiosk) throw forgetKioskCredential();
+    return kiosk;
+};
+
+const localKioskRoster = async (device: KioskDevice): Promise<KioskRoster> => {
+    const kiosk = await localKiosk(device);
+    const eventId = kiosk.eventId || DEFAULT_EVENT_ID;
+    const registrations = await db.findAll('registrations', (r: RegistrationData) => (r.eventId || DEFAULT_EVENT_ID) === eventId);
+    const roster: KioskRoster = {
+        kioskId: kiosk.id,
+        kioskName: kiosk.name,
+        eventId,
+        registrations: registrations.map(kiosks.rosterEntry),
+        ticketKeys: [tickets.publicTicketKey(await getLocalTicketKey())],
+        config: await getEventConfig(eventId),
+        fetchedAt: Date.now()
+    };
+    await db.update('kiosks', kiosk.id, { rosterAt: roster.fetchedAt });
+    return roster;
+};
+
+const localKioskSync = async (device: KioskDevice, scans: KioskScan[], heartbeat: KioskHeartbeat): Promise<KioskSyncResponse> => {
+    const kiosk = await localKiosk(device);
+    const eventId = kiosk.eventId || DEFAULT_EVENT_ID;
+    const keys = [tickets.publicTicketKey(await getLocalTicketKey())];
+    const results: KioskScanResult[] = [];
+    let conflicts = 0;
+    for (const scan of scans) {
+        const id = `checkin_${kiosk.id}_${scan.id}`;
+        const existing = await db.find('check_ins', { id });
+        if (existing) {
+            results.push({ id: scan.id, result: existing.result, reason: existing.reason, registrationId: existing.registrationId });
+            continue;
+        }
+        const check = await tickets.verifyTicket(scan.ticket, keys, scan.scannedAt);
+        let registration: RegistrationData | undefined;
+        let decision: { result: CheckInResult; reason?: string } = { result: 'rejected', reason: check.valid ? undefined : check.reason };
+        if (check.valid) {
+            registration = await db.find('registrations', { id: check.claims.r });
+            decision = kiosks.reconcileKioskScan(scan, registration, tickets.ticketRejection(check.claims, registration, eventId));
+            if (decision.result === 'admitted') await db.update('registrations', registration!.id, { checkedInAt: scan.scannedAt });
+        }
+        if (decision.result === 'duplicate' && scan.localResult === 'admitted') conflicts++;
+        await db.insert('check_ins', {
+            id, eventId, registrationId: registration?.id, ...decision, method: 'scan',
+            scannedBy: kiosk.id, deviceId: kiosk.name, userAgent: navigator.userAgent,
+            timestamp: scan.scannedAt, syncedAt: Date.now()
+        });
+        results.push({ id: scan.id, ...decision, registrationId: registration?.id });
+    }
+    await db.update('kiosks', kiosk.id, {
+        lastHeartbeatAt: Date.now(),
+        queueDepth: Math.max(0, heartbeat.queueDepth - results.length),
+        printerStatus: heartbeat.printerStatus,
+        offlineDuplicates: (kiosk.offlineDuplicates || 0) + conflicts,
+        userAgent: navigator.userAgent
+    });
+    // The local database keeps no change times, so the whole roster is sent back.
+    const registrations = await db.findAll('registrations', (r: RegistrationData) => (r.eventId || DEFAULT_EVENT_ID) === eventId);
+    return { results, changed: registrations.map(kiosks.rosterEntry), serverTime: Date.now() };
+};
+
+/** Pairs this browser as a kiosk with a code from the fleet panel, then downloads its roster. */
+export const pairKiosk = async (code: string): Promise<KioskDevice> => {
+    let paired: { kiosk: Kiosk; credential: string };
+    if (IS_ONLINE) {
+        const res = await fetch('/api/kiosk/pair', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ code })
         });
-        if (!res.ok) {
-            const err = await res.json();
-            throw new Error(err.error || "Push failed");
-        }
-        return await res.json();
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Pairing failed.');
+        paired = body;
     } else {
-        throw new Error("Git Push requires active backend server (Live Mode).");
+        const codeHash = await kiosks.hashKioskSecret(kiosks.normalizePairingCode(code));
+        const kiosk = (await db.findAll('kiosks')).find(k => k.pairingCodeHash === codeHash);
+        if (!kiosk || !kiosk.pairingExpiresAt || kiosk.pairingExpiresAt < Date.now()) throw new Error('This pairing code is invalid or has expired.');
+        const credential = kiosks.newKioskCredential();
+        await db.update('kiosks', kiosk.id, {
+            pairingCodeHash: null,
+            pairingExpiresAt: null,
+            credentialHash: await kiosks.hashKioskSecret(credential),
+            pairedAt: Date.now(),
+            userAgent: navigator.userAgent
+        });
+        paired = { kiosk, credential };
     }
+    unpairKiosk();
+    const device: KioskDevice = {
+        kioskId: paired.kiosk.id,
+        name: paired.kiosk.name,
+        eventId: paired.kiosk.eventId || DEFAULT_EVENT_ID,
+        credential: paired.credential,
+        pairedAt: Date.now()
+    };
+    saveKioskDevice(device);
+    await refreshKioskRoster();
+    return device;
 };
 
-// --- Events ---
-export const listPublicEvents = async () => {
-    const events = await db.findAll('events');
-    return events.map(e => {
-        const safeConfig = mergeWithDefault(e.config);
-        return {
-            id: e.id,
-            name: e.name,
-            date: safeConfig.event.date || 'Date TBD',
-            location: safeConfig.event.location || 'Location TBD',
-            logoUrl: safeConfig.theme.logoUrl,
-            colorPrimary: safeConfig.theme.colorPrimary,
-            config: safeConfig
-        };
-    });
+/** Downloads the attendee list and ticket keys, keeping the cached ones when offline. */
+export const refreshKioskRoster = async (): Promise<KioskRoster | null> => {
+    const device = getKioskDevice();
+    if (!device) return null;
+    try {
+        const roster: KioskRoster = IS_ONLINE ? await kioskFetch(device, '/api/kiosk/roster') : await localKioskRoster(device);
+        // Admissions queued here but not synced yet must survive the new list.
+        const queued = new Map(getKioskQueue().filter(s => s.localResult === 'admitted').map(s => [s.registrationId, s.scannedAt]));
+        const registrations = roster.registrations.map(r => r.checkedInAt || !queued.has(r.id) ? r : { ...r, checkedInAt: queued.get(r.id) });
+        saveKioskRoster({ ...roster, registrations, config: mergeWithDefault(roster.config) });
+        saveKioskDevice({ ...device, since: roster.fetchedAt });
+        return getKioskRoster();
+    } catch (e) {
+        if ((e as Error).message === KIOSK_UNPAIRED_MESSAGE) throw e;
+        console.warn('Could not refresh the kiosk roster, using the cached one.', e);
+        return getKioskRoster();
+    }
 };
 
-export const createEvent = async (token: string, name: string, type: string) => {
-    const newEvent = {
-        id: `event_${Date.now()}`,
-        name,
-        eventType: type,
-        created_at: Date.now(),
-        config: { ...defaultConfig, event: { ...defaultConfig.event, name } }
+const runKioskSync = async (device: KioskDevice, timeoutMs?: number): Promise<KioskSyncResponse> => {
+    const queue = getKioskQueue();
+    const scans = queue.slice(0, KIOSK_SYNC_BATCH);
+    const heartbeat: KioskHeartbeat = { queueDepth: queue.length, printerStatus: kioskPrinterStatus };
+    let response: KioskSyncResponse;
+    if (IS_ONLINE) {
+        const controller = new AbortController();
+        const timer = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+        try {
+            response = await kioskFetch(device, '/api/kiosk/sync', {
+                method: 'POST',
+                body: JSON.stringify({ scans, heartbeat, since: device.since }),
+                signal: controller.signal
+            });
+        } finally {
+            clearTimeout(timer);
+        }
+    } else {
+        response = await localKioskSync(device, scans, heartbeat);
+    }
+    const done = new Set(response.results.map(r => r.id));
+    saveKioskQueue(getKioskQueue().filter(s => !done.has(s.id)));
+    mergeIntoRoster(response.changed);
+    saveKioskDevice({ ...(getKioskDevice() || device), since: response.serverTime, lastSyncAt: Date.now() });
+    return response;
+};
+
+/**
+ * Sends queued scans and a heartbeat. Syncs run one at a time, so a scan made
+ * while the timer's sync is in flight waits for it rather than sending twice.
+ */
+export const syncKiosk = (timeoutMs?: number): Promise<KioskSyncResponse> => {
+    const run = kioskSync.catch(() => undefined).then(() => {
+        const device = getKioskDevice();
+        if (!device) throw new Error(KIOSK_UNPAIRED_MESSAGE);
+        return runKioskSync(device, timeoutMs);
+    });
+    kioskSync = run;
+    return run;
+};
+
+/**
+ * Checks in the holder of a ticket at a kiosk. The scan is decided from the
+ * cached roster and queued; while the server is reachable its decision, which
+ * also knows about other kiosks, replaces the local one.
+ */
+export const kioskCheckIn = async (ticket: string): Promise<KioskCheckInResponse> => {
+    const roster = getKioskRoster();
+    if (!roster) return { success: false, message: 'This kiosk has no attendee list yet. Connect it to the network once.' };
+
+    const check = await tickets.verifyTicket(ticket, roster.ticketKeys);
+    let user: RegistrationData | undefined;
+    let result: CheckInResult = 'rejected';
+    let message = check.valid ? '' : check.reason;
+    if (check.valid) {
+        user = roster.registrations.find(r => r.id === check.claims.r);
+        const rejection = tickets.ticketRejection(check.claims, user, roster.eventId);
+        if (rejection) {
+            message = rejection;
+        } else if (user!.checkedInAt) {
+            result = 'duplicate';
+            message = `Already checked in at ${new Date(user!.checkedInAt).toLocaleTimeString()}.`;
+        } else {
+            result = 'admitted';
+            user = { ...user!, checkedInAt: Date.now() };
+            message = zones.checkInMessage(user.name);
+            mergeIntoRoster([user]);
+        }
+    }
+    const scan: KioskScan = {
+        id: `scan_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        ticket,
+        scannedAt: Date.now(),
+        registrationId: user?.id,
+        localResult: result
     };
-    await db.insert('events', newEvent);
-    return newEvent;
-};
+    saveKioskQueue([...getKioskQueue(), scan]);
 
-export const getPublicEventData = async (eventId: string) => {
-    const event = await db.find('events', e => e.id === eventId);
-    const sessions = await db.findAll('sessions', s => !s.eventId || s.eventId === eventId);
-    const speakers = await db.findAll('speakers', s => !s.eventId || s.eventId === eventId);
-    const sponsors = await db.findAll('sponsors', s => !s.eventId || s.eventId === eventId);
-    const ticketTiers = await db.findAll('ticket_tiers', t => (!t.eventId || t.eventId === eventId) && t.active);
-    const regCount = await db.count('registrations', r => (!r.eventId || r.eventId === eventId));
-    
+    const decided = await syncKiosk(KIOSK_SCAN_TIMEOUT_MS)
+        .then(response => response.results.find(r => r.id === scan.id))
+        .catch(e => {
+            if ((e as Error).message === KIOSK_UNPAIRED_MESSAGE) throw e;
+            return undefined;
+        });
+    if (!decided) return { success: result === 'admitted', message, user, queued: true };
+    if (decided.registrationId) user = getKioskRoster()?.registrations.find(r => r.id === decided.registrationId) || user;
     return {
-        event: event,
-        config: mergeWithDefault(event?.config),
-        sessions,
-        speakers,
-        sponsors,
-        ticketTiers,
-        registrationCount: regCount
+        success: decided.result === 'admitted',
+        message: decided.result === 'admitted' ? zones.checkInMessage(user!.name) : decided.reason!,
+        user
     };
 };
 
-export const getPublicSessionData = async (sessionId: string) => {
+/** The active event's kiosks, with their last reported status. */
+export const getKiosks = async (token: string): Promise<Kiosk[]> => {
     if (IS_ONLINE) {
-        const res = await fetch(`/api/public/sessions/${sessionId}/live-data`);
-        if (!res.ok) throw new Error("Failed to load session data");
-        return await res.json();
+        const res = await fetch('/api/admin/kiosks', {
+            headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+        });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load kiosks.');
+        return body.kiosks;
     }
-    // Offline
-    const session = await db.find('sessions', s => s.id === sessionId);
-    // Use tokenless or mock token call for public data
-    const polls = await getPolls('mock-token', sessionId);
-    const questions = await getSessionQuestions('mock-token', sessionId);
-    return { session, polls, questions };
+    requireAuth(token);
+    return (await db.findAll('kiosks')).map(k => withoutSecrets('kiosks', k));
 };
 
-// ... (User/Role management) ...
-export const getAdminUsers = async (token: string) => { return db.findAll('admin_users'); };
-export const saveAdminUser = async (token: string, user: any) => {
-    if (user.id) await db.update('admin_users', user.id, user);
-    else await db.insert('admin_users', { ...user, id: `user_${Date.now()}` });
+const issueLocalPairingCode = async () => {
+    const pairingCode = kiosks.newPairingCode();
+    return {
+        pairingCode,
+        changes: {
+            pairingCodeHash: await kiosks.hashKioskSecret(kiosks.normalizePairingCode(pairingCode)),
+            pairingExpiresAt: Date.now() + kiosks.KIOSK_PAIRING_TTL
+        }
+    };
 };
-export const deleteAdminUser = async (token: string, id: string) => { await db.remove('admin_users', id); };
-export const getRoles = async (token: string) => { return db.findAll('roles'); };
-export const saveRole = async (token: string, role: any) => {
-    if (role.id) await db.update('roles', role.id, role);
-    else await db.insert('roles', { ...role, id: `role_${Date.now()}` });
+
+const requestPairingCode = async (token: string, url: string, body: any): Promise<{ kiosk: Kiosk; pairingCode: string }> => {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() },
+        body: JSON.stringify(body)
+    });
+    const result: any = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(result.error || 'Failed to create a pairing code.');
+    await db.applyRemoteChanges({ kiosks: { upserts: [result.kiosk], deletes: [] } });
+    return result;
+};
+
+/** Adds a kiosk to the active event. The pairing code is shown once and expires after a day. */
+export const provisionKiosk = async (token: string, name: string) => {
+    if (IS_ONLINE) return requestPairingCode(token, '/api/admin/kiosks', { name });
+    const admin = requireAuth(token);
+    if (!name.trim()) throw new Error('A kiosk name is required.');
+    const { pairingCode, changes } = await issueLocalPairingCode();
+    const kiosk = await db.insert('kiosks', {
+        id: `kiosk_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        eventId: db.getActiveEvent() || DEFAULT_EVENT_ID,
+        name: name.trim(),
+        createdAt: Date.now(),
+        createdBy: admin.id,
+        ...changes
+    });
+    return { kiosk: withoutSecrets('kiosks', kiosk) as Kiosk, pairingCode };
 };
-export const deleteRole = async (token: string, id: string) => { await db.remove('roles', id); };
 
-// --- Registrations ---
-export const getRegistrations = async (token: string) => { return db.findAll('registrations'); };
+/** Issues a new pairing code for a kiosk, unpairing the device that holds it now. */
+export const renewKioskPairing = async (token: string, kioskId: string) => {
+    if (IS_ONLINE) return requestPairingCode(token, `/api/admin/kiosks/${encodeURIComponent(kioskId)}/pairing`, {});
+    requireAuth(token);
+    const { pairingCode, changes } = await issueLocalPairingCode();
+    const kiosk = await db.update('kiosks', kioskId, { ...changes, credentialHash: null, pairedAt: null });
+    if (!kiosk) throw new Error('Kiosk not found.');
+    return { kiosk: withoutSecrets('kiosks', kiosk) as Kiosk, pairingCode };
+};
 
-export const registerUser = async (eventId: string, data: RegistrationData, inviteToken?: string) => {
-    if (IS_ONLINE) {
-        const res = await fetch(`/api/events/${eventId}/register`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(data)
-        });
-        return await res.json();
-    } else {
-        // Offline Fallback
-        const existing = await db.find('registrations', r => r.email === data.email);
-        if (existing) return { success: false, message: 'Email already registered.' };
-        
-        const newUser = {
-            ...data,
-            id: `reg_${Date.now()}`,
-            eventId,
-            createdAt: Date.now(),
-            status: data.status || 'confirmed'
-        };
-        await db.insert('registrations', newUser);
-        return { success: true, user: newUser };
-    }
+/** Removes a kiosk; its device stops working at its next request. */
+export const removeKiosk = async (token: string, kioskId: string) => {
+    await db.remove('kiosks', kioskId);
 };
 
-export const triggerRegistrationEmails = async (eventId: string, user: RegistrationData) => {
-    // Handled by backend in registerUser if online
-    if (IS_ONLINE) return;
+// --- Registration Import ---
+// Rows come parsed and mapped from the import dialog, see
+// `server/registrationImport.ts`. Online, the backend writes them in the
+// background and the import is polled until it ends; in browser mode the
+// batches are written here. Either way `onProgress` sees the job after every
+// batch.
 
-    console.log("Offline: Simulating email trigger.");
-    try {
-        const config = await getEventConfig(eventId);
-        
-        // Ensure user.id is available, fallback to a unique string if missing (should not happen if flow is correct)
-        const uniqueId = user.id || `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
-        
-        // Generate QR URL - in a real scenario this might point to a validation endpoint
-        const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(uniqueId)}`;
-        const verificationLink = `${window.location.origin}/verify/${uniqueId}`; // Mock verification link
+const IMPORT_POLL_INTERVAL = 1000;
 
-        // Generate email content using Gemini
-        console.log(`Generating registration emails with AI for ${user.email}. QR Data: ${uniqueId}`);
-        const emails = await geminiService.generateRegistrationEmails(user, config, verificationLink, qrCodeUrl);
-        
-        // Send User Email
-        if (emails && emails.userEmail) {
-            await emailService.sendEmail({
-                to: user.email,
-                subject: emails.userEmail.subject,
-                body: emails.userEmail.body
-            }, config);
+const localImportContext = (seating: Awaited<ReturnType<typeof localSeating>>): ImportContext => ({
+    formFields: seating.config.formFields || [],
+    tiers: seating.tiers,
+    existingEmails: new Set(seating.registrations.map(r => String(r.email || '').toLowerCase()))
+});
+
+const requestImport = async (token: string, body: any) => {
+    const res = await fetch('/api/admin/registrations/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() },
+        body: JSON.stringify(body)
+    });
+    const result: any = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(result.error || 'Failed to import registrations.');
+    return result;
+};
+
+/** Validates the rows without writing anything. `firstRow` is the file line of `rows[0]`. */
+export const previewRegistrationImport = async (token: string, rows: string[][], mapping: ImportTarget[], firstRow: number): Promise<ImportRowResult[]> => {
+    const problems = mappingErrors(mapping);
+    if (problems.length > 0) throw new Error(problems.join(' '));
+    if (IS_ONLINE) return (await requestImport(token, { rows, mapping, firstRow, dryRun: true })).results;
+    requireAuth(token);
+    const seating = await localSeating(db.getActiveEvent() || DEFAULT_EVENT_ID);
+    return validateImportRows(rows, mapping, localImportContext(seating), firstRow);
+};
+
+export const importRegistrations = async (
+    token: string,
+    rows: string[][],
+    mapping: ImportTarget[],
+    options: { firstRow: number; notify?: boolean },
+    onProgress?: (job: RegistrationImport) => void
+): Promise<RegistrationImport> => {
+    if (IS_ONLINE) {
+        let job: RegistrationImport = (await requestImport(token, { rows, mapping, ...options })).import;
+        onProgress?.(job);
+        while (job.status === 'running') {
+            await new Promise(resolve => setTimeout(resolve, IMPORT_POLL_INTERVAL));
+            const res = await fetch(`/api/admin/registrations/import/${encodeURIComponent(job.id)}`, {
+                headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+            });
+            const body: any = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(body.error || 'Lost track of the import.');
+            job = body.import;
+            onProgress?.(job);
         }
+        return job;
+    }
 
-        // Send Host Notification
-        if (emails && emails.hostEmail) {
-            await emailService.sendEmail({
-                to: config.host.email,
-                subject: emails.hostEmail.subject,
-                body: emails.hostEmail.body
-            }, config);
+    const admin = requireAuth(token);
+    const problems = mappingErrors(mapping);
+    if (problems.length > 0) throw new Error(problems.join(' '));
+    const eventId = db.getActiveEvent() || DEFAULT_EVENT_ID;
+    const job: RegistrationImport = {
+        id: `import_${Date.now()}`, eventId, createdBy: admin.id, createdAt: Date.now(), status: 'running',
+        total: rows.length, processed: 0, imported: 0, waitlisted: 0, failed: 0, errors: [], notify: !!options.notify
+    };
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+        const seating = await localSeating(eventId);
+        for (const result of validateImportRows(batch, mapping, localImportContext(seating), options.firstRow + start)) {
+            if (result.errors.length > 0) {
+                job.errors.push({ row: result.row, message: result.errors.join(' ') });
+                continue;
+            }
+            const registration = {
+                ...result.registration,
+                id: `reg_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+                eventId,
+                createdAt: Date.now(),
+                importedBy: admin.id
+            } as RegistrationData;
+            registration.status = waitlist.admissionStatus(registration.ticketTierId, seating.registrations, seating.config, seating.tiers, Date.now(), seating.held);
+            await db.insert('registrations', registration);
+            seating.registrations.push(registration);
+            job.imported++;
+            if (registration.status === 'waitlist') job.waitlisted++;
+            else if (options.notify) await triggerRegistrationEmails(eventId, registration);
         }
-        
-    } catch (error) {
-        console.error("Failed to trigger registration emails:", error);
+        job.processed += batch.length;
+        job.failed = job.errors.length;
+        onProgress?.({ ...job });
     }
+    return { ...job, status: 'completed', finishedAt: Date.now() };
 };
 
-export const getInvitationDetails = async (token: string) => { return { eventId: 'main-event', inviteeEmail: 'invited@example.com' }; };
-export const updateRegistrationStatus = async (token: string, id: string, status: string) => { await db.update('registrations', id, { status }); };
-export const deleteAdminRegistration = async (token: string, id: string) => { await db.remove('registrations', id); };
-export const promoteToConfirmed = async (token: string, id: string) => { await db.update('registrations', id, { status: 'confirmed' }); };
-export const verifyTicketToken = async (token: string, ticketToken: string) => {
-    const reg = await db.find('registrations', r => ticketToken.includes(r.id) || r.id === ticketToken);
-    if (reg) {
-        await db.update('registrations', reg.id, { checkedIn: true });
-        return { success: true, message: `Checked in ${reg.name}`, user: reg };
-    }
-    return { success: false, message: "Invalid ticket" };
+// --- Registration Exports ---
+// Saved export definitions, see `server/registrationExport.ts`. Online, files
+// are built and delivered by the backend, which also runs the schedules; in
+// browser mode files are built here and "Send now" is simulated, but nothing
+// runs on a schedule.
+
+const exportRequest = (token: string, url: string, init: RequestInit = {}) => fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+});
+
+const localExportSources = async (): Promise<registrationExport.ExportSources> => {
+    const config = await getEventConfig(db.getActiveEvent() || DEFAULT_EVENT_ID);
+    return {
+        registrations: (await db.findAll('registrations')).map(({ password_hash, ...r }) => r),
+        formFields: config.formFields || [],
+        tiers: await db.findAll('ticket_tiers'),
+        checkIns: await db.findAll('check_ins'),
+        bookings: await db.findAll('accommodation_bookings'),
+        hotels: await db.findAll('hotels'),
+        mealPlans: await db.findAll('meal_plans'),
+        mealPlanAssignments: await db.findAll('meal_plan_assignments'),
+        restaurants: await db.findAll('restaurants'),
+        diningReservations: await db.findAll('dining_reservations')
+    };
 };
-export const processCheckIn = async (token: string, qrData: string) => {
+
+export const getExportDefinitions = async (token: string): Promise<ExportDefinition[]> => {
     if (IS_ONLINE) {
-        const res = await fetch('/api/admin/checkin', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-            body: JSON.stringify({ qrData })
-        });
-        return await res.json();
+        const res = await exportRequest(token, '/api/admin/exports');
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load saved exports.');
+        return body.definitions;
     }
-    return verifyTicketToken(token, qrData);
-};
-export const getSignedTicketToken = async (token: string) => {
-    const payload = requireAuth(token, 'delegate');
-    return `SIGNED_TICKET_${payload.id}`;
+    requireAuth(token);
+    return db.findAll('export_definitions');
 };
 
-export const bulkImportRegistrations = async (token: string, csvData: string) => {
-    // Split lines handling both LF and CRLF
-    const lines = csvData.split(/\r?\n/);
-    let successCount = 0;
-    
-    // Auto-detect delimiter: check first non-empty line
-    const firstLine = lines.find(l => l.trim().length > 0) || '';
-    const delimiter = firstLine.includes('\t') ? '\t' : ',';
-
-    // Basic Header Check (optional, here we assume order or simple heuristic)
-    // If user pastes from Excel, it might not have headers, or it might.
-    // We assume 1st line is header if it contains "name" or "email"
-    let startIndex = 0;
-    if (firstLine.toLowerCase().includes('name') || firstLine.toLowerCase().includes('email')) {
-        startIndex = 1;
+/** Creates a definition, or updates the one with the given `id`. */
+export const saveExportDefinition = async (token: string, definition: Partial<ExportDefinition>): Promise<ExportDefinition> => {
+    if (IS_ONLINE) {
+        const res = await exportRequest(token, '/api/admin/exports', { method: 'POST', body: JSON.stringify(definition) });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to save the export.');
+        return body.definition;
     }
+    const admin = requireAuth(token);
+    const fields = registrationExport.exportDefinitionFields(definition);
+    if (typeof fields === 'string') throw new Error(fields);
+    if (definition.id) {
+        const updated = await db.update('export_definitions', definition.id, { ...fields, lastRunError: undefined });
+        if (!updated) throw new Error('Export not found.');
+        return updated;
+    }
+    return db.insert('export_definitions', {
+        id: `export_${Date.now()}`,
+        eventId: db.getActiveEvent() || DEFAULT_EVENT_ID,
+        createdBy: admin.id,
+        createdAt: Date.now(),
+        ...fields
+    });
+};
 
-    const errors = [];
-
-    for (let i = startIndex; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
+export const deleteExportDefinition = async (token: string, id: string) => {
+    await db.remove('export_definitions', id);
+};
 
-        // Correctly split and clean quotes
-        const parts = line.split(delimiter).map(s => s.trim().replace(/^"|"$/g, '')); 
-        
-        if (parts.length >= 2) {
-            const name = parts[0];
-            const email = parts[1];
-            // Optional columns (company, role) can be processed here if needed
-            
-            if (name && email && email.includes('@')) {
-                // Check dupes first to avoid partial failures
-                const existing = await db.find('registrations', r => r.email === email);
-                if (!existing) {
-                    await registerUser('main-event', { name, email, createdAt: Date.now() });
-                    successCount++;
-                } else {
-                    errors.push(`Skipped ${email}: Already registered.`);
-                }
-            } else {
-                errors.push(`Skipped line ${i + 1}: Invalid format.`);
-            }
+/** Builds the file for a definition, saved or not. */
+export const buildRegistrationExport = async (token: string, definition: Partial<ExportDefinition>): Promise<registrationExport.ExportFile> => {
+    if (IS_ONLINE) {
+        const res = await exportRequest(token, '/api/admin/exports/file', { method: 'POST', body: JSON.stringify(definition) });
+        if (!res.ok) {
+            const body: any = await res.json().catch(() => ({}));
+            throw new Error(body.error || 'Failed to build the export.');
         }
+        const fileName = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'registrations';
+        return { fileName, mimeType: res.headers.get('Content-Type') || '', content: new Uint8Array(await res.arrayBuffer()) };
     }
-    return { successCount, errorCount: errors.length, errors };
+    requireAuth(token);
+    const fields = registrationExport.exportDefinitionFields({ ...definition, schedule: undefined });
+    if (typeof fields === 'string') throw new Error(fields);
+    const table = registrationExport.buildExportTable(fields as ExportDefinition, await localExportSources());
+    return registrationExport.renderExport(table, fields.format!, fields.name!);
 };
 
-export const sendDelegateInvitation = async (token: string, eventId: string, email: string) => {
-    // In online mode, we'd call a specific backend endpoint
+/** Emails a saved export to its recipients now. */
+export const sendExportNow = async (token: string, id: string): Promise<{ success: boolean; message: string }> => {
     if (IS_ONLINE) {
-        await fetch('/api/admin/communications/send', {
+        const res = await exportRequest(token, `/api/admin/exports/${encodeURIComponent(id)}/send`, { method: 'POST' });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to send the export.');
+        return body;
+    }
+    requireAuth(token);
+    const definition: ExportDefinition | undefined = await db.find('export_definitions', { id });
+    if (!definition) throw new Error('Export not found.');
+    const recipients = definition.schedule?.recipients || [];
+    if (recipients.length === 0) throw new Error('This export has no recipients.');
+    const file = await buildRegistrationExport(token, definition);
+    const config = await getEventConfig(db.getActiveEvent() || DEFAULT_EVENT_ID);
+    for (const to of recipients) {
+        await emailService.sendEmail({
+            to,
+            subject: `${definition.name}: ${config.event.name} registrations`,
+            body: `Attached is the "${definition.name}" registration export for ${config.event.name}.`,
+            attachments: [{ filename: file.fileName, content: file.content, contentType: file.mimeType }]
+        }, config);
+    }
+    return { success: true, message: `Sent to ${recipients.join(', ')}.` };
+};
+
+export const sendDelegateInvitation = async (token: string, eventId: string, email: string, name?: string) => {
+    if (IS_ONLINE) {
+        const res = await fetch('/api/admin/invitations', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-            body: JSON.stringify({ to: email, subject: 'Invitation', body: 'You are invited!' }) // Simplified
+            body: JSON.stringify({ eventId, email, name })
         });
+        if (!res.ok) {
+            const body: any = await res.json().catch(() => ({}));
+            throw new Error(body.error || 'Failed to send invitation.');
+        }
     } else {
-        console.log(`[Offline Simulation] Sending invitation email to ${email}`);
+        const admin = requireAuth(token);
+        const inviteToken = await issueLocalToken('invite', { subjectType: 'delegate', email, eventId, name, invitedBy: admin.id });
+        console.log(`[Offline Simulation] Invitation for ${email}: ${window.location.origin}/${eventId}?inviteToken=${inviteToken}`);
     }
 };
 export const getDelegateProfile = async (token: string) => {
     const payload = requireAuth(token, 'delegate');
-    const user = await db.find('registrations', r => r.id === payload.id);
+    const user = await db.find('registrations', { id: payload.id });
     return { user };
 };
 export const updateDelegateProfile = async (token: string, data: Partial<RegistrationData>) => {
     const payload = requireAuth(token, 'delegate');
-    await db.update('registrations', payload.id, data);
-    return db.find('registrations', r => r.id === payload.id);
+    await db.update('registrations', payload.id, await withLocalNameChange(payload.id, data));
+    return db.find('registrations', { id: payload.id });
 };
 
-// Updated Cancel with Logic
-export const cancelRegistration = async (token: string, id: string) => {
+/** Cancels a registration, refunding what its tier's cancellation policy allows; a seat it held is offered to the waitlist. */
+export const cancelRegistration = async (token: string, id: string): Promise<{ success: boolean; message: string; refund?: OrderRefund }> => {
     if (IS_ONLINE) {
         const res = await fetch('/api/registrations/cancel', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() },
             body: JSON.stringify({ id })
         });
-        if (!res.ok) throw new Error("Failed to cancel");
-        return await res.json();
-    }
-    
-    // Offline Mock with Auto-Promotion Logic
-    const reg = await db.find('registrations', r => r.id === id);
-    if (reg) {
-        const wasConfirmed = reg.status === 'confirmed';
-        await db.update('registrations', id, { status: 'cancelled' });
-        
-        if (wasConfirmed) {
-            // Find waitlisted users for this event
-            const allRegs = await db.findAll('registrations');
-            const waitlisted = allRegs
-                .filter(r => r.eventId === reg.eventId && r.status === 'waitlist')
-                .sort((a, b) => a.createdAt - b.createdAt);
-            
-            if (waitlisted.length > 0) {
-                const nextUser = waitlisted[0];
-                await db.update('registrations', nextUser.id, { status: 'confirmed' });
-                // In offline mode, we just log the promotion
-                console.log(`[Offline Simulation] Auto-promoted ${nextUser.name} from waitlist.`);
-                return { 
-                    success: true, 
-                    message: `Cancelled. Auto-promoted ${nextUser.name} from waitlist (Offline Simulation).` 
-                };
-            }
-        }
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to cancel');
+        return body;
     }
-    
-    return { success: true, message: "Cancelled (Offline Mode)" };
+
+    const payload = requireAuth(token, 'delegate');
+    if (payload.type === 'delegate' && payload.id !== id) throw new Error('You can only cancel your own registration.');
+    const reg: RegistrationData | undefined = await db.find('registrations', { id });
+    if (!reg) throw new Error('Registration not found.');
+    if (reg.status === 'cancelled') return { success: true, message: 'Already cancelled.' };
+    // Refunded first, like the backend's `cancelBooking`.
+    const order: Order | undefined = reg.orderId ? await db.find('orders', { id: reg.orderId }) : undefined;
+    const { amount } = refunds.cancellationRefund(order, await db.find('ticket_tiers', { id: reg.ticketTierId }));
+    const refunded = amount > 0 ? await localRefundOrder(order!.id, amount, { reason: 'cancellation' }) : null;
+    if (typeof refunded === 'string') throw new Error(`The refund could not be made, so the registration was not cancelled: ${refunded}`);
+    await localCancelRegistrations([reg]);
+    const offered = await localFillOpenSeats(reg.eventId || DEFAULT_EVENT_ID);
+    const refund = refunded ? refunded.refunds![refunded.refunds!.length - 1] : undefined;
+    const message = [
+        'Cancelled.',
+        refund ? `${refund.amount} ${order!.currency} will be refunded to the card it was paid with.` : '',
+        offered ? 'The seat was offered to the waitlist.' : ''
+    ].filter(Boolean).join(' ');
+    return { success: true, message, refund };
 };
 
 export const sendUpdateEmailToDelegate = async (token: string, eventId: string, delegateId: string) => {
     // Handled by backend if needed, or simple simulation
 };
-export const saveAdminRegistration = async (token: string, id: string, updates: any) => { await db.update('registrations', id, updates); };
+export const saveAdminRegistration = async (token: string, id: string, updates: any) => {
+    await db.update('registrations', id, await withLocalNameChange(id, updates, auth.verifyToken(token)?.email));
+};
 
 // ... (Ticketing, Agenda, etc. - keep existing implementations which route via db.ts) ...
 export const getTicketTiers = async (token: string) => { return db.findAll('ticket_tiers'); };
@@ -594,18 +2806,54 @@ export const saveTicketTier = async (token: string, tier: any) => {
     else await db.insert('ticket_tiers', { ...tier, id: `tier_${Date.now()}` });
 };
 export const deleteTicketTier = async (token: string, id: string) => { await db.remove('ticket_tiers', id); };
-export const recordTicketSale = async (eventId: string, tierId: string, amount: number) => {
+
+const discountRequest = (token: string, url: string, init: RequestInit = {}) => fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
+});
+
+/** The event's discount codes, and how much each has been used by paid orders. */
+export const getDiscountCodes = async (token: string): Promise<{ codes: DiscountCode[]; usage: discounts.DiscountUsage[] }> => {
     if (IS_ONLINE) {
-        const adminToken = localStorage.getItem('adminToken'); 
-        await fetch('/api/admin/sales/record', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', ...(adminToken ? { 'Authorization': `Bearer ${adminToken}` } : {}) },
-            body: JSON.stringify({ eventId, tierId, amount })
-        });
+        const res = await discountRequest(token, '/api/admin/discount-codes');
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to load discount codes.');
+        return body;
+    }
+    requireAuth(token);
+    const codes: DiscountCode[] = await db.findAll('discount_codes');
+    return { codes, usage: discounts.discountUsage(codes, await db.findAll('orders')) };
+};
+
+/** Creates a discount code, or updates the one with the given `id`. */
+export const saveDiscountCode = async (token: string, code: Partial<DiscountCode>): Promise<DiscountCode> => {
+    if (IS_ONLINE) {
+        const res = await discountRequest(token, '/api/admin/discount-codes', { method: 'POST', body: JSON.stringify(code) });
+        const body: any = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error || 'Failed to save the discount code.');
+        return body.code;
+    }
+    requireAuth(token);
+    const fields = discounts.discountCodeFields(code);
+    if (typeof fields === 'string') throw new Error(fields);
+    const eventId = db.getActiveEvent() || DEFAULT_EVENT_ID;
+    const clash = await localDiscountCode(eventId, fields.code);
+    if (clash && clash.id !== code.id) throw new Error('Another discount code already uses this code.');
+    if (code.id) {
+        const updated = await db.update('discount_codes', code.id, fields);
+        if (!updated) throw new Error('Discount code not found.');
+        return updated;
+    }
+    return db.insert('discount_codes', { id: `disc_${Date.now()}`, eventId, used: 0, createdAt: Date.now(), ...fields });
+};
+
+export const deleteDiscountCode = async (token: string, id: string) => {
+    if (IS_ONLINE) {
+        const res = await discountRequest(token, `/api/admin/discount-codes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+        if (!res.ok) throw new Error('Failed to delete the discount code.');
         return;
     }
-    const tier = await db.find('ticket_tiers', t => t.id === tierId);
-    if (tier) await db.update('ticket_tiers', tierId, { sold: (tier.sold || 0) + 1 });
+    await db.remove('discount_codes', id);
 };
 
 export const getSessions = async (token: string) => { return db.findAll('sessions'); };
@@ -628,12 +2876,12 @@ export const saveSponsor = async (token: string, sponsor: any) => {
 export const deleteSponsor = async (token: string, id: string) => { await db.remove('sponsors', id); };
 export const getMyAgenda = async (token: string) => {
     const payload = requireAuth(token, 'delegate');
-    const entry = await db.find('agenda_entries', e => e.userId === payload.id);
+    const entry = await db.find('agenda_entries', { userId: payload.id });
     return entry ? entry.sessionIds : [];
 };
 export const addToAgenda = async (token: string, sessionId: string) => {
     const payload = requireAuth(token, 'delegate');
-    let entry = await db.find('agenda_entries', e => e.userId === payload.id);
+    let entry = await db.find('agenda_entries', { userId: payload.id });
     if (!entry) {
         entry = { userId: payload.id, sessionIds: [] };
         await db.insert('agenda_entries', entry);
@@ -645,7 +2893,7 @@ export const addToAgenda = async (token: string, sessionId: string) => {
 };
 export const removeFromAgenda = async (token: string, sessionId: string) => {
     const payload = requireAuth(token, 'delegate');
-    let entry = await db.find('agenda_entries', e => e.userId === payload.id);
+    let entry = await db.find('agenda_entries', { userId: payload.id });
     if (entry) {
         entry.sessionIds = entry.sessionIds.filter((id: string) => id !== sessionId);
         await db.updateWhere('agenda_entries', e => e.userId === payload.id, { sessionIds: entry.sessionIds });
@@ -656,15 +2904,15 @@ export const submitSessionFeedback = async (token: string, sessionId: string, ra
     await db.insert('session_feedback', { sessionId, userId: payload.id, rating, comment, timestamp: Date.now() });
 };
 export const getSessionFeedbackStats = async (token: string, sessionId: string) => {
-    const feedback = await db.findAll('session_feedback', f => f.sessionId === sessionId);
+    const feedback = await db.findAll('session_feedback', { sessionId });
     const count = feedback.length;
     const avgRating = count > 0 ? feedback.reduce((sum, f) => sum + f.rating, 0) / count : 0;
     return { count, avgRating };
 };
 export const analyzeFeedback = async (token: string, sessionId: string) => {
-    const feedback = await db.findAll('session_feedback', f => f.sessionId === sessionId);
+    const feedback = await db.findAll('session_feedback', { sessionId });
     const comments = feedback.map(f => f.comment).filter(Boolean);
-    const session = await db.find('sessions', s => s.id === sessionId);
+    const session = await db.find('sessions', { id: sessionId });
     return await geminiService.summarizeSessionFeedback(session?.title || 'Session', comments);
 };
 export const downloadSessionIcs = async (session: Session) => {
@@ -687,16 +2935,16 @@ END:VCALENDAR`;
     link.click();
     document.body.removeChild(link);
 };
-export const getSessionQuestions = async (token: string, sessionId: string) => { return db.findAll('session_questions', q => q.sessionId === sessionId); };
+export const getSessionQuestions = async (token: string, sessionId: string) => { return db.findAll('session_questions', { sessionId }); };
 export const submitSessionQuestion = async (token: string, sessionId: string, text: string) => {
     const payload = requireAuth(token, 'delegate');
-    const user = await db.find('registrations', r => r.id === payload.id);
+    const user = await db.find('registrations', { id: payload.id });
     await db.insert('session_questions', {
         id: `q_${Date.now()}`, sessionId, userId: payload.id, userName: user?.name || 'Anonymous', text, upvotes: 0, timestamp: Date.now(), isAnswered: false
     });
 };
 export const upvoteSessionQuestion = async (token: string, questionId: string) => {
-    const q = await db.find('session_questions', q => q.id === questionId);
+    const q = await db.find('session_questions', { id: questionId });
     if (q) await db.update('session_questions', questionId, { upvotes: (q.upvotes || 0) + 1 });
 };
 export const getPolls = async (token: string, sessionId: string): Promise<PollWithResults[]> => {
@@ -708,7 +2956,7 @@ export const getPolls = async (token: string, sessionId: string): Promise<PollWi
         // Allow mock token or anonymous for projector
     }
 
-    const polls = await db.findAll('polls', p => p.sessionId === sessionId);
+    const polls = await db.findAll('polls', { sessionId });
     const votes = await db.findAll('poll_votes', v => polls.some(p => p.id === v.pollId));
     return polls.map(p => {
         const pVotes = votes.filter(v => v.pollId === p.id);
@@ -730,19 +2978,14 @@ export const updatePollStatus = async (token: string, pollId: string, status: 'a
 };
 export const votePoll = async (token: string, pollId: string, optionIndex: number) => {
     const payload = requireAuth(token, 'delegate');
-    const existing = await db.find('poll_votes', v => v.pollId === pollId && v.userId === payload.id);
+    const existing = await db.find('poll_votes', { pollId, userId: payload.id });
     if (existing) throw new Error("Already voted");
     await db.insert('poll_votes', {
         id: `vote_${Date.now()}`, pollId, userId: payload.id, optionIndex, timestamp: Date.now()
     });
-    
-    // Notify socket if online (handled in backend insert/update usually, but explicit emit helps)
-    if (IS_ONLINE && socket) {
-        socket.emit('poll:vote', { pollId, optionIndex });
-    }
 };
 
-export const getTasks = async (token: string, eventId: string) => db.findAll('tasks', t => t.eventId === eventId);
+export const getTasks = async (token: string, eventId: string) => db.findAll('tasks', { eventId });
 export const saveTask = async (token: string, task: any) => { if(task.id) await db.update('tasks', task.id, task); else await db.insert('tasks', {...task, id: `task_${Date.now()}`}); };
 export const deleteTask = async (token: string, id: string) => db.remove('tasks', id);
 
@@ -755,7 +2998,7 @@ export const deleteRestaurant = async (token: string, id: string) => db.remove('
 export const assignMealPlan = async (token: string, mpId: string, s: string, e: string) => { const p = requireAuth(token, 'delegate'); await db.insert('meal_plan_assignments', {id: `mpa_${Date.now()}`, delegateId: p.id, mealPlanId: mpId, startDate: s, endDate: e}); };
 export const recordMealConsumption = async (token: string, did: string, type: string) => ({ success: true, message: 'Recorded' });
 export const makeDiningReservation = async (token: string, rid: string, time: string, size: number) => { const p = requireAuth(token, 'delegate'); await db.insert('dining_reservations', {id: `dr_${Date.now()}`, restaurantId: rid, delegateId: p.id, reservationTime: time, partySize: size, delegateName: 'User'}); };
-export const getReservationsForRestaurant = async (token: string, rid: string) => db.findAll('dining_reservations', r => r.restaurantId === rid);
+export const getReservationsForRestaurant = async (token: string, rid: string) => db.findAll('dining_reservations', { restaurantId: rid });
 export const createAdminDiningReservation = async (token: string, d: any) => db.insert('dining_reservations', {id: `dr_${Date.now()}`, ...d});
 export const deleteDiningReservation = async (token: string, id: string) => db.remove('dining_reservations', id);
 
@@ -763,8 +3006,8 @@ export const getHotels = async (token: string) => db.findAll('hotels');
 export const saveHotel = async (token: string, h: any) => { if(h.id) await db.update('hotels', h.id, h); else await db.insert('hotels', {...h, id: `h_${Date.now()}`}); };
 export const deleteHotel = async (token: string, id: string) => db.remove('hotels', id);
 export const generateHotelRooms = async (token: string, hid: string, rtid: string, c: number, s: number) => { for(let i=0; i<c; i++) await db.insert('rooms', {id:`r_${Date.now()}_${i}`, hotelId: hid, roomTypeId: rtid, roomNumber: `${s+i}`, status: 'Available'}); };
-export const getAllRooms = async (token: string, hid: string) => db.findAll('rooms', r => r.hotelId === hid);
-export const getAvailableRooms = async (token: string, hid: string, rtid: string) => db.findAll('rooms', r => r.hotelId === hid && r.roomTypeId === rtid && r.status === 'Available');
+export const getAllRooms = async (token: string, hid: string) => db.findAll('rooms', { hotelId: hid });
+export const getAvailableRooms = async (token: string, hid: string, rtid: string) => db.findAll('rooms', { hotelId: hid, roomTypeId: rtid, status: 'Available' });
 export const updateRoomStatus = async (token: string, rid: string, s: string) => db.update('rooms', rid, { status: s });
 export const getAccommodationBookings = async (token: string) => {
     const bookings = await db.findAll('accommodation_bookings');
@@ -780,6 +3023,18 @@ export const selfCheckOut = async (token: string, id: string) => db.update('acco
 
 // --- Economy & Wallet ---
 
+/** The delegate's wallet in the event, see `calculateBalance` in the backend. */
+const localBalance = async (userId: string, eventId: string) => {
+    const config = await getEventConfig(eventId);
+    const transactions = await db.findAllInEvent('transactions', eventId);
+    const balance = transactions.reduce((total, tx) => {
+        if (tx.toId === userId) return total + tx.amount;
+        if (tx.fromId === userId) return total - tx.amount;
+        return total;
+    }, config.eventCoin.startingBalance || 0);
+    return { balance, currencyName: config.eventCoin.name };
+};
+
 export const getDelegateBalance = async (token: string) => {
     if (IS_ONLINE) {
         const res = await fetch('/api/delegate/wallet', {
@@ -787,8 +3042,8 @@ export const getDelegateBalance = async (token: string) => {
         });
         if (res.ok) return await res.json();
     }
-    // Offline / Mock
-    return { balance: 100, currencyName: 'EventCoin' };
+    const payload = requireAuth(token, 'delegate');
+    return localBalance(payload.id, payload.eventId || DEFAULT_EVENT_ID);
 };
 
 export const getDelegateTransactions = async (token: string) => {
@@ -798,7 +3053,7 @@ export const getDelegateTransactions = async (token: string) => {
         // For now, let's fetch all transactions relevant to the user via generic sync 
         // or a specific endpoint if we added one. 
         // We added logic in calculateBalance but not a separate list endpoint.
-        // Let's rely on local DB sync for the list which is populated by 'refresh:wallet'
+        // Let's rely on the local DB, which sync keeps current.
         const payload = requireAuth(token, 'delegate');
         const allTx = await db.findAll('transactions');
         return allTx.filter((t: any) => t.fromId === payload.id || t.toId === payload.id);
@@ -820,48 +3075,11 @@ export const sendCoins = async (token: string, email: string, amt: number, msg:
         return await res.json();
     } else {
         const p = requireAuth(token, 'delegate');
-        await db.insert('transactions', {id: `tx_${Date.now()}`, fromId: p.id, amount: amt, message: msg, timestamp: Date.now()});
-    }
-};
-
-export const purchaseEventCoins = async (token: string, coins: number, cost: number) => {
-    if (IS_ONLINE) {
-        await fetch('/api/delegate/wallet/purchase', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
-            body: JSON.stringify({ amount: coins, cost })
-        });
-    } else {
-        const p = requireAuth(token, 'delegate');
-        await db.insert('transactions', {id: `tx_${Date.now()}`, fromId: 'system', toId: p.id, amount: coins, type: 'purchase', timestamp: Date.now()});
-    }
-};
-
-export const createPaymentIntent = async (token: string, amt: number) => {
-    if (IS_ONLINE) {
-        const res = await fetch('/api/payments/create-intent', {
-            method: 'POST',
-            headers: { 
-                'Content-Type': 'application/json', 
-                'Authorization': `Bearer ${token}` 
-            },
-            body: JSON.stringify({ amount: amt })
-        });
-        if (res.ok) return await res.json();
-    }
-    return { clientSecret: `mock_secret_${Date.now()}` };
-};
-
-export const createPublicPaymentIntent = async (amt: number) => {
-    if (IS_ONLINE) {
-        const res = await fetch('/api/public/payments/create-intent', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ amount: amt })
-        });
-        if (res.ok) return await res.json();
+        if (typeof amt !== 'number' || !Number.isFinite(amt) || amt <= 0) throw new Error('The amount must be a positive number.');
+        const eventId = p.eventId || DEFAULT_EVENT_ID;
+        if ((await localBalance(p.id, eventId)).balance < amt) throw new Error('Insufficient funds');
+        await db.insert('transactions', {id: `tx_${Date.now()}`, eventId, fromId: p.id, amount: amt, message: msg, timestamp: Date.now()});
     }
-    return { clientSecret: `mock_secret_${Date.now()}` };
 };
 
 export const getEventCoinStats = async (token: string) => ({ totalCirculation: 1000, totalTransactions: 10, activeWallets: 5, eventCoinName: 'EventCoin' });
@@ -870,7 +3088,7 @@ export const issueEventCoins = async (token: string, email: string, amt: number,
 export const getDashboardStats = async (token: string) => {
     if (IS_ONLINE) {
         const res = await fetch('/api/admin/dashboard', {
-            headers: { 'Authorization': `Bearer ${token}` }
+            headers: { 'Authorization': `Bearer ${token}`, ...db.eventHeader() }
         });
         if (res.ok) return await res.json();
     }
@@ -890,8 +3108,8 @@ export const getDashboardStats = async (token: string) => {
     };
 };
 
-export const getMyNetworkingProfile = async (token: string) => { const p = requireAuth(token, 'delegate'); return db.find('networking_profiles', np => np.userId === p.id); };
-export const updateNetworkingProfile = async (token: string, data: any) => { const p = requireAuth(token, 'delegate'); const ex = await db.find('networking_profiles', np => np.userId === p.id); if(ex) await db.update('networking_profiles', ex.id, data); else await db.insert('networking_profiles', {...data, userId: p.id, id: `np_${p.id}`}); };
+export const getMyNetworkingProfile = async (token: string) => { const p = requireAuth(token, 'delegate'); return db.find('networking_profiles', { userId: p.id }); };
+export const updateNetworkingProfile = async (token: string, data: any) => { const p = requireAuth(token, 'delegate'); const ex = await db.find('networking_profiles', { userId: p.id }); if(ex) await db.update('networking_profiles', ex.id, data); else await db.insert('networking_profiles', {...data, userId: p.id, id: `np_${p.id}`}); };
 
 export const getNetworkingCandidates = async (token: string) => {
     if (IS_ONLINE) {
@@ -903,14 +3121,14 @@ export const getNetworkingCandidates = async (token: string) => {
     
     // Offline / Fallback
     const payload = requireAuth(token, 'delegate');
-    const myProfile = await db.find('networking_profiles', np => np.userId === payload.id);
+    const myProfile = await db.find('networking_profiles', { userId: payload.id });
     const allCandidates = await db.findAll('networking_profiles', np => np.userId !== payload.id && np.isVisible);
     
     // Basic local tag matching
     const matches: NetworkingMatch[] = [];
     if (myProfile) {
         for (const candidate of allCandidates) {
-            const user = await db.find('registrations', r => r.id === candidate.userId);
+            const user = await db.find('registrations', { id: candidate.userId });
             const sharedInterests = candidate.interests.filter((i: string) => myProfile.interests.includes(i));
             
             if (sharedInterests.length > 0) {
@@ -947,7 +3165,7 @@ export const getScavengerHuntProgress = async (token: string) => {
     }
     // Offline Mock
     const p = requireAuth(token, 'delegate');
-    const prog = await db.find('scavenger_hunt_progress', pr => pr.userId === p.id);
+    const prog = await db.find('scavenger_hunt_progress', { userId: p.id });
     return prog ? prog.foundItemIds : [];
 };
 
@@ -987,7 +3205,7 @@ export const sendBroadcast = async (token: string, s: string, b: string, t: stri
     if (IS_ONLINE) {
         return fetch('/api/admin/communications/broadcast', { 
             method: 'POST', 
-            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`},
+            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader()},
             body: JSON.stringify({ subject: s, body: b, target: t, channel: c })
         }).then(r => r.json());
     }
@@ -999,7 +3217,7 @@ export const sendTestEmail = async (token: string, to: string, config: any) => {
     if (IS_ONLINE) {
         await fetch('/api/admin/communications/send', {
             method: 'POST',
-            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`},
+            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader()},
             body: JSON.stringify({ to, config })
         });
     } else {
@@ -1011,7 +3229,7 @@ export const sendTestMessage = async (token: string, channel: 'email' | 'sms' |
     if (IS_ONLINE) {
         await fetch('/api/admin/communications/test', {
             method: 'POST',
-            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`},
+            headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${token}`, ...db.eventHeader()},
             body: JSON.stringify({ to, channel, config })
         });
     } else {
@@ -1025,7 +3243,7 @@ export const sendTestMessage = async (token: string, channel: 'email' | 'sms' |
     }
 };
 
-export const getNotifications = async (token: string) => { const p = requireAuth(token, 'delegate'); return db.findAll('notifications', n => n.userId === p.id); };
+export const getNotifications = async (token: string) => { const p = requireAuth(token, 'delegate'); return db.findAll('notifications', { userId: p.id }); };
 export const markNotificationRead = async (token: string, id: string) => db.update('notifications', id, { read: true });
 export const clearAllNotifications = async (token: string) => { const p = requireAuth(token, 'delegate'); await db.updateWhere('notifications', n => n.userId === p.id, { read: true }); };
 
@@ -1067,13 +3285,7 @@ export const sendMessage = async (token: string, toUserId: string, content: stri
         timestamp: Date.now(),
         read: false
     };
-    
-    // In real WebSocket setup, we emit the event
-    if (IS_ONLINE && socket) {
-        socket.emit('chat:send', message);
-    } else {
-        await db.insert('messages', message);
-    }
+    await db.insert('messages', message);
 };
 
 // --- Video ---
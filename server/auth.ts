@@ -25,8 +25,10 @@ interface TokenPayload {
   id: string;
   email: string;
   permissions?: Permission[];
+  eventPermissions?: Record<string, Permission[]>;
   type: 'admin' | 'delegate';
   eventId?: string;
+  sid?: string;
   iat: number;
   exp: number;
 }
@@ -49,6 +51,26 @@ export const generateToken = (payload: Omit<TokenPayload, 'iat' | 'exp'>): strin
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 };
 
+/** Expiry of a JWT in milliseconds, without checking whether it has passed. */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(b64UrlDecode(token.split('.')[1]));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/** `type:id` of the account a JWT was issued to, without verifying it. */
+export const getTokenSubject = (token: string): string | null => {
+  try {
+    const payload = JSON.parse(b64UrlDecode(token.split('.')[1]));
+    return payload.type && payload.id ? `${payload.type}:${payload.id}` : null;
+  } catch {
+    return null;
+  }
+};
+
 export const verifyToken = (token: string): TokenPayload | null => {
   try {
     const parts = token.split('.');
@@ -84,3 +106,18 @@ export const verifyToken = (token: string): TokenPayload | null => {
     return null;
   }
 };
+
+// One-time tokens (password reset, magic link, invitation). Only the SHA-256 of
+// a token is stored, matching the backend's `auth_tokens` table.
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const generateOneTimeToken = (): string => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+};
+
+export const hashOneTimeToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+};
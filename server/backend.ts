@@ -1,8 +1,9 @@
 import express, { Request as ExpressRequest, Response, NextFunction } from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import bodyParser from 'body-parser';
+import cookieParser from 'cookie-parser';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -10,12 +11,33 @@ import { Pool } from 'pg';
 import dotenv from 'dotenv';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { researchEntity, generateRegistrationEmails } from './geminiService';
+import { researchEntity, generateRegistrationEmails, generatePasswordResetEmail, generateDelegateInvitationEmail, generateWaitlistPromotionEmail } from './geminiService';
+import { defaultConfig } from './config';
 import { Buffer } from 'buffer';
+import crypto from 'crypto';
 import nodemailer from 'nodemailer';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import Stripe from 'stripe';
+import { runMigrations } from './migrate';
+import { ALLOWED_TABLES, DEFAULT_EVENT_ID, Principal, authorize, canAccessEvent, canQueryField, canSeeChange, eventScope, isEventScoped, isSyncedTable, ownerScope, permissionsIn, prepareWrite, readableRows, redactRow, rowEvents, rowOwners, withoutSecrets, withoutServerFields } from './policy';
+import { TEMPLATE_TABLES, instantiateSnapshot, snapshotEvent, type EventSnapshot } from './eventTemplates';
+import { generateTicketKey, publicTicketKey, signTicket, ticketRejection, ticketValidity, verifyTicket, type TicketSigningKey } from './tickets';
+import { checkInMessage, decideZoneScan, roomZone, sessionZone, zoneOccupancy, zoneOccupants } from './zones';
+import { KIOSK_PAIRING_TTL, hashKioskSecret, newKioskCredential, newPairingCode, normalizePairingCode, reconcileKioskScan, rosterEntry, type KioskRoster, type KioskScanResult, type KioskSyncResponse } from './kiosks';
+import { admissionStatus, newWaitlistOffer, offerRejection, openSeatOffers, roomForSeats, waitlistStanding } from './waitlist';
+import { newGroupSeats, priceGroupOrder, seatAssignmentProblem, unclaimedSeats, type GroupOrderItem } from './groups';
+import { amountInCents, coinCredit, coinReversal, heldDiscountUses, heldOrderSeats, holdsSeats, needsPayment, newCoinOrder, newOfferOrder, newOrder, offerRegistrationId, orderRegistration, paymentRejection, pricedItems, publicOrder } from './orders';
+import { discountCodeFields, discountUsage, normalizeCode, priceDiscount } from './discounts';
+import { coversOrder, paymentEffect, paymentEventChanges, webhookSignatureProblem, type PaymentEffect, type StripeEvent } from './paymentWebhooks';
+import { cancellationRefund, nextRefundId, refundProblem, withRefund } from './refunds';
+import { needsInvoice, newInvoice, orderBillingFields } from './invoices';
+import { TRANSFER_TTL, handedOver, newPendingTransfer, reassignedSeats, recipientProblem, transferRejection, transferredTicket, withNameChange } from './transfers';
+import { IMPORT_BATCH_SIZE, MAX_IMPORT_ROWS, mappingErrors, validateImportRows, type ImportContext } from './registrationImport';
+import { buildExportTable, exportDefinitionFields, nextExportRun, renderExport, type ExportSources } from './registrationExport';
+import { MAX_FORM_FILE_MB, acceptsFile, checkFormAnswers, maxFileBytes } from './formFields';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl, generateRecoveryCodes, normalizeRecoveryCode } from './totp';
+import { type AccessZone, type CheckInRecord, type CheckInResult, type EmailAttachment, type ExportDefinition, type FormField, type Invoice, type KioskPrinterStatus, type KioskScan, type DiscountCode, type Order, type OrderRefund, type PendingTransfer, type Permission, type RegistrationData, type RegistrationGroup, type RegistrationImport, type TicketTier, type ZoneDirection } from '../types';
 
 // Load environment variables
 dotenv.config();
@@ -25,13 +47,7 @@ declare var __dirname: string;
 
 // Extend Request to include user
 interface AuthRequest extends ExpressRequest {
-    user?: {
-        id: string;
-        email: string;
-        type: 'admin' | 'delegate';
-        permissions?: string[];
-        eventId?: string;
-    };
+    user?: Principal;
     // Explicitly add properties to resolve TS errors
     headers: any;
     params: any;
@@ -51,8 +67,14 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 3001;
 const DATA_FILE = path.join(__dirname, 'database.json');
+// Key of the change log inside the file-storage fallback.
+const CHANGE_LOG_KEY = 'change_log';
 const UPLOADS_DIR = path.join(__dirname, 'uploads');
-const JWT_SECRET = process.env.JWT_SECRET || 'mock_signature_secret';
+const JWT_SECRET: string = process.env.JWT_SECRET || (() => {
+    if (process.env.NODE_ENV === 'production') throw new Error('JWT_SECRET must be set in production.');
+    console.warn('⚠️ JWT_SECRET not set; using a random secret. Access tokens will not survive a restart.');
+    return crypto.randomBytes(32).toString('hex');
+})();
 
 // Initialize Stripe with key or placeholder
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder', {
@@ -72,7 +94,10 @@ app.use(helmet({
     contentSecurityPolicy: false, 
 }));
 app.use(cors());
+// Stripe signs the exact bytes it sends, so the webhook keeps its body raw.
+app.use('/api/payments/webhook', bodyParser.raw({ type: '*/*' }));
 app.use(bodyParser.json({ limit: '50mb' }));
+app.use(cookieParser());
 
 // Rate Limiting
 const apiLimiter = rateLimit({
@@ -85,19 +110,157 @@ app.use('/api/', apiLimiter);
 
 // --- Database Abstraction Layer ---
 
-const ALLOWED_TABLES = [
-    'registrations', 'events', 'sessions', 'speakers', 'sponsors', 'tasks', 
-    'meal_plans', 'restaurants', 'hotels', 'rooms', 'bookings', 'media', 
-    'notifications', 'transactions', 'scavenger_hunt_items', 'scavenger_hunt_progress', 
-    'networking_profiles', 'agenda_entries', 'ticket_tiers', 'venue_maps', 
-    'email_logs', 'session_questions', 'session_feedback', 'poll_votes', 'polls',
-    'admin_users', 'roles', 'messages'
-];
+
+// Typed columns maintained alongside the JSONB `data` column (see migrations/).
+// Filters and ordering on these fields use the indexed column directly.
+type ColumnType = 'text' | 'integer' | 'bigint' | 'numeric' | 'timestamptz' | 'date';
+
+interface TypedColumn {
+    field: string;
+    column: string;
+    type: ColumnType;
+}
+
+const TYPED_COLUMNS: Record<string, TypedColumn[]> = {
+    registrations: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'email', column: 'email', type: 'text' },
+        { field: 'name', column: 'name', type: 'text' },
+        { field: 'status', column: 'status', type: 'text' },
+        { field: 'ticketTierId', column: 'ticket_tier_id', type: 'text' },
+        { field: 'createdAt', column: 'created_at', type: 'bigint' }
+    ],
+    sessions: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'title', column: 'title', type: 'text' },
+        { field: 'location', column: 'location', type: 'text' },
+        { field: 'track', column: 'track', type: 'text' },
+        { field: 'capacity', column: 'capacity', type: 'integer' },
+        { field: 'startTime', column: 'start_time', type: 'timestamptz' },
+        { field: 'endTime', column: 'end_time', type: 'timestamptz' }
+    ],
+    transactions: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'fromId', column: 'from_id', type: 'text' },
+        { field: 'toId', column: 'to_id', type: 'text' },
+        { field: 'amount', column: 'amount', type: 'numeric' },
+        { field: 'type', column: 'type', type: 'text' },
+        { field: 'timestamp', column: 'timestamp', type: 'bigint' }
+    ],
+    auth_sessions: [
+        { field: 'subjectType', column: 'subject_type', type: 'text' },
+        { field: 'subjectId', column: 'subject_id', type: 'text' }
+    ],
+    bookings: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'delegateId', column: 'delegate_id', type: 'text' },
+        { field: 'hotelId', column: 'hotel_id', type: 'text' },
+        { field: 'roomTypeId', column: 'room_type_id', type: 'text' },
+        { field: 'hotelRoomId', column: 'hotel_room_id', type: 'text' },
+        { field: 'status', column: 'status', type: 'text' },
+        { field: 'checkInDate', column: 'check_in_date', type: 'date' },
+        { field: 'checkOutDate', column: 'check_out_date', type: 'date' }
+    ],
+    check_ins: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'registrationId', column: 'registration_id', type: 'text' },
+        { field: 'zoneId', column: 'zone_id', type: 'text' },
+        { field: 'timestamp', column: 'timestamp', type: 'bigint' }
+    ],
+    kiosks: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'pairingCodeHash', column: 'pairing_code_hash', type: 'text' },
+        { field: 'credentialHash', column: 'credential_hash', type: 'text' }
+    ],
+    registration_imports: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'createdAt', column: 'created_at', type: 'bigint' }
+    ],
+    export_definitions: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'nextRunAt', column: 'next_run_at', type: 'bigint' }
+    ],
+    registration_groups: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'purchaserEmail', column: 'purchaser_email', type: 'text' }
+    ],
+    orders: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'status', column: 'status', type: 'text' },
+        { field: 'email', column: 'email', type: 'text' },
+        { field: 'paymentIntentId', column: 'payment_intent_id', type: 'text' },
+        { field: 'expiresAt', column: 'expires_at', type: 'bigint' }
+    ],
+    discount_codes: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'code', column: 'code', type: 'text' }
+    ],
+    invoices: [
+        { field: 'eventId', column: 'event_id', type: 'text' },
+        { field: 'orderId', column: 'order_id', type: 'text' },
+        { field: 'email', column: 'email', type: 'text' },
+        { field: 'sequence', column: 'sequence', type: 'integer' }
+    ],
+    payment_events: [
+        { field: 'orderId', column: 'order_id', type: 'text' },
+        { field: 'receivedAt', column: 'received_at', type: 'bigint' }
+    ]
+};
+
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const toColumnValue = (col: TypedColumn, value: any) => {
+    if (value === undefined || value === null || value === '') return null;
+    switch (col.type) {
+        case 'integer':
+        case 'bigint':
+        case 'numeric': {
+            const n = Number(value);
+            return Number.isFinite(n) ? (col.type === 'numeric' ? n : Math.trunc(n)) : null;
+        }
+        case 'timestamptz':
+        case 'date': {
+            const d = new Date(value);
+            if (isNaN(d.getTime())) return null;
+            return col.type === 'date' ? d.toISOString().slice(0, 10) : d.toISOString();
+        }
+        default:
+            return String(value);
+    }
+};
+
+// Postgres integrity errors (class 23) must surface instead of silently
+// landing in the file fallback.
+const isConstraintError = (e: any) => typeof e?.code === 'string' && e.code.startsWith('23');
+
+interface QueryOptions {
+    /** Equality filters. An array value matches any of its elements, `null` matches missing values. */
+    where?: Record<string, any>;
+    orderBy?: string;
+    order?: 'asc' | 'desc';
+    limit?: number;
+    offset?: number;
+}
+
+/** One entry of the change log behind delta sync (see migrations/004_change_log.sql). */
+interface ChangeLogEntry {
+    seq: number;
+    table: string;
+    rowId: string;
+    op: 'upsert' | 'delete';
+    owners: string[];
+    /** Events the row belonged to before and after the change. */
+    events: string[];
+    changedAt: number;
+}
+
+type ChangeListener = (change: ChangeLogEntry, row: any | null, previous: any | null) => void;
 
 class DatabaseService {
     private pool: Pool | null = null;
     private memoryDb: Record<string, any[]> = {};
     private usePostgres = false;
+    private changeListeners: ChangeListener[] = [];
 
     constructor() {
         // Initialize Memory DB
@@ -112,13 +275,18 @@ class DatabaseService {
             });
             
             this.pool.query('SELECT NOW()')
-                .then(() => {
+                .then(async () => {
                     console.log('🐘 Connected to PostgreSQL');
+                    try {
+                        await this.ensureTables();
+                    } catch (err) {
+                        // Serving from file storage would silently hide the database's data.
+                        console.error('❌ Migrations failed, refusing to start.', (err as Error).message);
+                        process.exit(1);
+                    }
                     this.usePostgres = true;
-                    this.ensureTables(); // Auto-migrate basic tables
-                })
-                .catch(err => {
-                    console.error('⚠️ PostgreSQL connection failed, falling back to file storage.', err.message);
+                }, err => {
+                    console.error('⚠️ PostgreSQL unavailable, falling back to file storage.', err.message);
                     this.usePostgres = false;
                 });
         } else {
@@ -128,15 +296,122 @@ class DatabaseService {
 
     private async ensureTables() {
         if (!this.pool) return;
-        // Basic JSONB storage strategy for flexibility
-        for (const table of ALLOWED_TABLES) {
-            await this.pool.query(`
-                CREATE TABLE IF NOT EXISTS ${table} (
-                    id TEXT PRIMARY KEY,
-                    data JSONB
-                );
-            `);
+        const applied = await runMigrations(this.pool);
+        if (applied.length > 0) {
+            console.log(`🗄️  Applied ${applied.length} migration(s): ${applied.join(', ')}`);
+        }
+    }
+
+    private typedColumns(table: string, item: any) {
+        return (TYPED_COLUMNS[table] || []).map(col => ({ column: col.column, value: toColumnValue(col, item[col.field]) }));
+    }
+
+    private buildWhere(table: string, where: Record<string, any> | undefined, params: any[]) {
+        const clauses: string[] = [];
+        Object.entries(where || {}).forEach(([field, value]) => {
+            if (!FIELD_NAME.test(field)) throw new Error(`Invalid field: ${field}`);
+            const col = TYPED_COLUMNS[table]?.find(c => c.field === field);
+            let expr: string;
+            if (col) {
+                expr = col.column;
+            } else if (field === 'id') {
+                expr = 'id';
+            } else {
+                params.push(field);
+                expr = `data->>$${params.length}`;
+            }
+            const cast = (v: any) => col ? toColumnValue(col, v) : String(v);
+
+            if (value === null) {
+                clauses.push(`${expr} IS NULL`);
+            } else if (Array.isArray(value)) {
+                params.push(value.map(cast));
+                clauses.push(`${expr} = ANY($${params.length})`);
+            } else {
+                params.push(cast(value));
+                clauses.push(`${expr} = $${params.length}`);
+            }
+        });
+        return clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '';
+    }
+
+    private memoryQuery(table: string, options: QueryOptions) {
+        let items = (this.memoryDb[table] || []).filter(item =>
+            Object.entries(options.where || {}).every(([field, value]) => {
+                const actual = item[field];
+                if (value === null) return actual === undefined || actual === null;
+                if (Array.isArray(value)) return value.some(v => String(v) === String(actual));
+                return String(actual) === String(value);
+            })
+        );
+        if (options.orderBy) {
+            const key = options.orderBy;
+            const dir = options.order === 'desc' ? -1 : 1;
+            items = [...items].sort((a, b) => (a[key] > b[key] ? 1 : a[key] < b[key] ? -1 : 0) * dir);
+        }
+        const offset = options.offset || 0;
+        return options.limit !== undefined ? items.slice(offset, offset + options.limit) : items.slice(offset);
+    }
+
+    /**
+     * Filtered, ordered and paginated read. On Postgres the whole query runs in
+     * SQL, using typed columns where available and `data->>field` otherwise.
+     */
+    async query(table: string, options: QueryOptions = {}) {
+        if (!ALLOWED_TABLES.includes(table)) throw new Error("Invalid table");
+
+        if (this.usePostgres && this.pool) {
+            try {
+                const params: any[] = [];
+                let sql = `SELECT data FROM ${table}` + this.buildWhere(table, options.where, params);
+                if (options.orderBy) {
+                    if (!FIELD_NAME.test(options.orderBy)) throw new Error(`Invalid field: ${options.orderBy}`);
+                    const col = TYPED_COLUMNS[table]?.find(c => c.field === options.orderBy);
+                    let expr = col?.column;
+                    if (!expr) {
+                        params.push(options.orderBy);
+                        expr = `data->>$${params.length}`;
+                    }
+                    sql += ` ORDER BY ${expr} ${options.order === 'desc' ? 'DESC' : 'ASC'} NULLS LAST, id`;
+                }
+                if (options.limit !== undefined) {
+                    params.push(options.limit);
+                    sql += ` LIMIT $${params.length}`;
+                }
+                if (options.offset) {
+                    params.push(options.offset);
+                    sql += ` OFFSET $${params.length}`;
+                }
+                const res = await this.pool.query(sql, params);
+                return res.rows.map(row => row.data);
+            } catch (e) {
+                console.warn(`[PG] query failed for ${table}, using memory fallback.`, (e as Error).message);
+            }
+        }
+
+        return this.memoryQuery(table, options);
+    }
+
+    async queryOne(table: string, where: Record<string, any>) {
+        const items = await this.query(table, { where, limit: 1 });
+        return items.length > 0 ? items[0] : null;
+    }
+
+    async count(table: string, where?: Record<string, any>) {
+        if (!ALLOWED_TABLES.includes(table)) throw new Error("Invalid table");
+
+        if (this.usePostgres && this.pool) {
+            try {
+                const params: any[] = [];
+                const sql = `SELECT COUNT(*)::int AS count FROM ${table}` + this.buildWhere(table, where, params);
+                const res = await this.pool.query(sql, params);
+                return res.rows[0].count as number;
+            } catch (e) {
+                console.warn(`[PG] count failed for ${table}, using memory fallback.`, (e as Error).message);
+            }
         }
+
+        return this.memoryQuery(table, { where }).length;
     }
 
     private loadMemoryDb() {
@@ -145,6 +420,11 @@ class DatabaseService {
                 const data = fs.readFileSync(DATA_FILE, 'utf-8');
                 const loaded = JSON.parse(data);
                 this.memoryDb = { ...this.memoryDb, ...loaded };
+                // Files written before events were scoped hold rows of the default event only.
+                Object.keys(this.memoryDb).forEach(table => {
+                    if (!ALLOWED_TABLES.includes(table) || !isEventScoped(table)) return;
+                    this.memoryDb[table].forEach(row => { if (!row.eventId) row.eventId = DEFAULT_EVENT_ID; });
+                });
                 console.log("📦 Database loaded from file.");
             }
         } catch (e) {
@@ -183,22 +463,34 @@ class DatabaseService {
         return items.length > 0 ? items[0] : null;
     }
 
+    // Every write bumps the row's `version`; clients send it back as `If-Match`
+    // so edits based on a stale copy are rejected instead of overwriting.
     async insert(table: string, item: any) {
         if (!ALLOWED_TABLES.includes(table)) throw new Error("Invalid table");
+        const row = { ...item, version: 1, updatedAt: Date.now() };
 
         if (this.usePostgres && this.pool) {
             try {
-                await this.pool.query(`INSERT INTO ${table} (id, data) VALUES ($1, $2)`, [item.id, item]);
-                return item;
+                const cols = this.typedColumns(table, row);
+                const names = ['id', 'data', ...cols.map(c => c.column)];
+                const placeholders = names.map((_, i) => `$${i + 1}`);
+                await this.pool.query(
+                    `INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders.join(', ')})`,
+                    [row.id, row, ...cols.map(c => c.value)]
+                );
+                await this.logChange(table, 'upsert', row, null);
+                return row;
             } catch (e) {
+                if (isConstraintError(e)) throw e;
                 console.warn(`[PG] Insert failed for ${table}, using memory.`, (e as Error).message);
             }
         }
 
         if (!this.memoryDb[table]) this.memoryDb[table] = [];
-        this.memoryDb[table].push(item);
+        this.memoryDb[table].push(row);
         this.saveMemoryDb();
-        return item;
+        await this.logChange(table, 'upsert', row, null);
+        return row;
     }
 
     async update(table: string, id: string, updates: any) {
@@ -211,11 +503,18 @@ class DatabaseService {
                 if (existingRes.rows.length === 0) return null;
                 
                 const current = existingRes.rows[0].data;
-                const newItem = { ...current, ...updates };
+                const newItem = { ...current, ...updates, version: (current.version || 0) + 1, updatedAt: Date.now() };
                 
-                await this.pool.query(`UPDATE ${table} SET data = $1 WHERE id = $2`, [newItem, id]);
+                const cols = this.typedColumns(table, newItem);
+                const assignments = cols.map((c, i) => `, ${c.column} = $${i + 3}`).join('');
+                await this.pool.query(
+                    `UPDATE ${table} SET data = $1${assignments} WHERE id = $2`,
+                    [newItem, id, ...cols.map(c => c.value)]
+                );
+                await this.logChange(table, 'upsert', newItem, current);
                 return newItem;
             } catch (e) {
+                if (isConstraintError(e)) throw e;
                 console.warn(`[PG] Update failed for ${table}, using memory.`, (e as Error).message);
             }
         }
@@ -223,8 +522,10 @@ class DatabaseService {
         const list = this.memoryDb[table] || [];
         const index = list.findIndex(i => i.id === id);
         if (index !== -1) {
-            this.memoryDb[table][index] = { ...list[index], ...updates };
+            const previous = list[index];
+            this.memoryDb[table][index] = { ...previous, ...updates, version: (previous.version || 0) + 1, updatedAt: Date.now() };
             this.saveMemoryDb();
+            await this.logChange(table, 'upsert', this.memoryDb[table][index], previous);
             return this.memoryDb[table][index];
         }
         return null;
@@ -235,7 +536,9 @@ class DatabaseService {
 
         if (this.usePostgres && this.pool) {
             try {
-                await this.pool.query(`DELETE FROM ${table} WHERE id = $1`, [id]);
+                const res = await this.pool.query(`DELETE FROM ${table} WHERE id = $1 RETURNING data`, [id]);
+                if (res.rows.length === 0) return false;
+                await this.logChange(table, 'delete', null, res.rows[0].data);
                 return true;
             } catch (e) {
                 console.warn(`[PG] Delete failed for ${table}, using memory.`, (e as Error).message);
@@ -243,13 +546,108 @@ class DatabaseService {
         }
 
         const list = this.memoryDb[table] || [];
-        const initialLen = list.length;
+        const previous = list.find(i => i.id === id);
+        if (!previous) return false;
         this.memoryDb[table] = list.filter(i => i.id !== id);
-        if (this.memoryDb[table].length < initialLen) {
+        this.saveMemoryDb();
+        await this.logChange(table, 'delete', null, previous);
+        return true;
+    }
+
+    // --- Change Log ---
+
+    /** Registers a callback run after every logged change. */
+    onChange(listener: ChangeListener) {
+        this.changeListeners.push(listener);
+    }
+
+    // Only tables some client may read are logged; auth bookkeeping is not.
+    private async logChange(table: string, op: ChangeLogEntry['op'], row: any | null, previous: any | null) {
+        if (!isSyncedTable(table)) return;
+        const change: ChangeLogEntry = {
+            seq: 0,
+            table,
+            rowId: String((row || previous).id),
+            op,
+            owners: rowOwners(table, [row, previous]),
+            events: rowEvents(table, [row, previous]),
+            changedAt: Date.now()
+        };
+
+        if (this.usePostgres && this.pool) {
+            try {
+                const res = await this.pool.query(
+                    'INSERT INTO change_log (table_name, row_id, op, owners, events, changed_at) VALUES ($1, $2, $3, $4, $5, $6) RETURNING seq',
+                    [change.table, change.rowId, change.op, change.owners, change.events, change.changedAt]
+                );
+                change.seq = Number(res.rows[0].seq);
+            } catch (e) {
+                console.warn('[PG] Change log write failed, using memory.', (e as Error).message);
+            }
+        }
+        if (!change.seq) {
+            const log = this.memoryDb[CHANGE_LOG_KEY] || (this.memoryDb[CHANGE_LOG_KEY] = []);
+            change.seq = (log.length > 0 ? log[log.length - 1].seq : 0) + 1;
+            log.push(change);
+            this.saveMemoryDb();
+        }
+        this.changeListeners.forEach(listener => {
+            try {
+                listener(change, row, previous);
+            } catch (e) {
+                console.error('Change listener failed', e);
+            }
+        });
+    }
+
+    /** Oldest and newest retained sequence numbers; an empty log reports `oldest = latest + 1`. */
+    async changeLogBounds(): Promise<{ oldest: number; latest: number }> {
+        if (this.usePostgres && this.pool) {
+            try {
+                const res = await this.pool.query('SELECT MIN(seq) AS oldest, MAX(seq) AS latest FROM change_log');
+                const latest = Number(res.rows[0].latest || 0);
+                return { oldest: res.rows[0].oldest ? Number(res.rows[0].oldest) : latest + 1, latest };
+            } catch (e) {
+                console.warn('[PG] Change log read failed, using memory.', (e as Error).message);
+            }
+        }
+        const log = this.memoryDb[CHANGE_LOG_KEY] || [];
+        const latest = log.length > 0 ? log[log.length - 1].seq : 0;
+        return { oldest: log.length > 0 ? log[0].seq : latest + 1, latest };
+    }
+
+    async changesSince(seq: number, limit: number): Promise<ChangeLogEntry[]> {
+        if (this.usePostgres && this.pool) {
+            try {
+                const res = await this.pool.query(
+                    'SELECT seq, table_name, row_id, op, owners, events, changed_at FROM change_log WHERE seq > $1 ORDER BY seq LIMIT $2',
+                    [seq, limit]
+                );
+                return res.rows.map(r => ({
+                    seq: Number(r.seq), table: r.table_name, rowId: r.row_id, op: r.op, owners: r.owners, events: r.events || [], changedAt: Number(r.changed_at)
+                }));
+            } catch (e) {
+                console.warn('[PG] Change log read failed, using memory.', (e as Error).message);
+            }
+        }
+        return (this.memoryDb[CHANGE_LOG_KEY] || []).filter(c => c.seq > seq).slice(0, limit);
+    }
+
+    async pruneChangeLog(before: number) {
+        if (this.usePostgres && this.pool) {
+            try {
+                await this.pool.query('DELETE FROM change_log WHERE changed_at < $1', [before]);
+                return;
+            } catch (e) {
+                console.warn('[PG] Change log prune failed, using memory.', (e as Error).message);
+            }
+        }
+        const log = this.memoryDb[CHANGE_LOG_KEY] || [];
+        const kept = log.filter(c => c.changedAt >= before);
+        if (kept.length < log.length) {
+            this.memoryDb[CHANGE_LOG_KEY] = kept;
             this.saveMemoryDb();
-            return true;
         }
-        return false;
     }
 }
 
@@ -266,7 +664,8 @@ const SAFE_DEFAULTS = {
     smtp: { host: '', port: 587, username: '', password: '', encryption: 'tls' },
     googleConfig: { serviceAccountKeyJson: '' },
     emailProvider: 'smtp',
-    eventCoin: { name: 'EventCoin', startingBalance: 100 }
+    eventCoin: { name: 'EventCoin', startingBalance: 100 },
+    emailTemplates: defaultConfig.emailTemplates
 };
 
 const getSafeConfig = (rawConfig: any) => {
@@ -281,7 +680,8 @@ const getSafeConfig = (rawConfig: any) => {
         smtp: { ...SAFE_DEFAULTS.smtp, ...(rawConfig.smtp || {}) },
         googleConfig: { ...SAFE_DEFAULTS.googleConfig, ...(rawConfig.googleConfig || {}) },
         emailProvider: rawConfig.emailProvider || SAFE_DEFAULTS.emailProvider,
-        eventCoin: { ...SAFE_DEFAULTS.eventCoin, ...(rawConfig.eventCoin || {}) }
+        eventCoin: { ...SAFE_DEFAULTS.eventCoin, ...(rawConfig.eventCoin || {}) },
+        emailTemplates: { ...SAFE_DEFAULTS.emailTemplates, ...(rawConfig.emailTemplates || {}) }
     };
 };
 
@@ -294,20 +694,18 @@ const comparePass = async (input: string, hash: string): Promise<boolean> => {
     return await bcrypt.compare(input, hash);
 };
 
-const calculateBalance = async (userId: string) => {
-    const events = await db.findAll('events');
-    const event = events[0];
-    const startingBalance = event?.config?.eventCoin?.startingBalance || 0;
+const calculateBalance = async (userId: string, eventId?: string) => {
+    const config = await getEventConfig(eventId);
+    const startingBalance = config.eventCoin.startingBalance || 0;
     
     let balance = startingBalance;
-    const transactions = await db.findAll('transactions');
+    const scope = eventId ? { eventId } : {};
+    const received = await db.query('transactions', { where: { ...scope, toId: userId } });
+    const sent = await db.query('transactions', { where: { ...scope, fromId: userId } });
     
-    transactions.forEach((tx: any) => {
-        if (tx.toId === userId) {
-            balance += tx.amount;
-        } else if (tx.fromId === userId) {
-            balance -= tx.amount;
-        }
+    received.forEach((tx: any) => { balance += tx.amount; });
+    sent.forEach((tx: any) => {
+        if (tx.toId !== userId) balance -= tx.amount;
     });
     
     return balance;
@@ -359,7 +757,7 @@ const createTransporter = (config: any) => {
     }
 };
 
-const sendEmail = async (config: any, to: string, subject: string, html: string) => {
+const sendEmail = async (config: any, to: string, subject: string, html: string, eventId?: string, attachments: EmailAttachment[] = []) => {
     try {
         const transporter = createTransporter(config);
         console.log(`[Email] Sending to ${to} via ${config.emailProvider}`);
@@ -369,12 +767,14 @@ const sendEmail = async (config: any, to: string, subject: string, html: string)
             to,
             subject,
             html,
-            text: html.replace(/<[^>]*>?/gm, '') // Simple fallback
+            text: html.replace(/<[^>]*>?/gm, ''), // Simple fallback
+            attachments: attachments.map(a => ({ filename: a.filename, content: Buffer.from(a.content), contentType: a.contentType }))
         });
         
         // Log success
         await db.insert('email_logs', {
             id: `log_${Date.now()}`,
+            eventId,
             to,
             subject,
             body: html,
@@ -388,6 +788,7 @@ const sendEmail = async (config: any, to: string, subject: string, html: string)
         // Log failure
         await db.insert('email_logs', {
             id: `log_${Date.now()}`,
+            eventId,
             to,
             subject,
             body: html,
@@ -399,212 +800,2858 @@ const sendEmail = async (config: any, to: string, subject: string, html: string)
     }
 };
 
-// --- Auth Middleware ---
+const getEventConfig = async (eventId?: string) => {
+    const event = await db.queryOne('events', { id: eventId || DEFAULT_EVENT_ID });
+    return getSafeConfig(event?.config);
+};
 
-const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction) => {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+/** Fills `{{placeholder}}` tokens; used when the AI email generator is unavailable. */
+const renderTemplate = (template: { subject: string; body: string }, values: Record<string, string>) => {
+    const fill = (text: string) => text.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+    return { subject: fill(template.subject), body: fill(template.body).replace(/\n/g, '<br>') };
+};
 
-    if (!token) return res.sendStatus(401);
+/** Text made safe to place in an email's HTML. */
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-        if (err) {
-            // Fallback for legacy mock tokens during transition
-            if (token.split('.').length === 3 && token.split('.')[2] === 'mock_signature_secret') {
-                 try {
-                    const base64Url = token.split('.')[1];
-                    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-                    const jsonPayload = Buffer.from(base64, 'base64').toString('utf-8');
-                    req.user = JSON.parse(jsonPayload);
-                    return next();
-                } catch (e) {}
-            }
-            return res.sendStatus(403);
-        }
-        req.user = user;
-        next();
+const appUrl = (req: ExpressRequest) => `${req.protocol}://${req.get('host')}`;
+
+// --- One-time Auth Tokens ---
+// Password resets, magic-link sign-in, invitations, waitlist offers, the
+// links of group orders and ticket transfers share one table. Only the SHA-256 of a token is stored; the raw value exists solely in
+// the emailed link.
+
+type AuthTokenPurpose = 'password_reset' | 'magic_link' | 'invite' | 'two_factor' | 'waitlist_offer' | 'group_manage' | 'group_seat' | 'ticket_transfer';
+
+const AUTH_TOKEN_TTL: Record<AuthTokenPurpose, number> = {
+    password_reset: 60 * 60 * 1000, // the reset email template promises one hour
+    magic_link: 15 * 60 * 1000,
+    invite: 7 * 24 * 60 * 60 * 1000,
+    two_factor: 5 * 60 * 1000,
+    waitlist_offer: 48 * 60 * 60 * 1000, // issued with the offer's own lifetime
+    group_manage: 365 * 24 * 60 * 60 * 1000, // the purchaser manages seats until the event
+    group_seat: 30 * 24 * 60 * 60 * 1000,
+    ticket_transfer: TRANSFER_TTL
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface AuthTokenSubject {
+    subjectType: 'admin' | 'delegate' | 'group';
+    subjectId?: string;
+    /** The seat a `group_seat` link claims. */
+    seatId?: string;
+    email: string;
+    eventId?: string;
+    name?: string;
+    invitedBy?: string;
+}
+
+const hashAuthToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const issueAuthToken = async (purpose: AuthTokenPurpose, subject: AuthTokenSubject, ttl = AUTH_TOKEN_TTL[purpose]) => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const now = Date.now();
+    await db.insert('auth_tokens', {
+        id: hashAuthToken(token),
+        purpose,
+        ...subject,
+        createdAt: now,
+        expiresAt: now + ttl
     });
+    return token;
 };
 
-// --- Socket.io Logic ---
+/** Looks up a live token without using it up. Expired tokens are deleted on sight. */
+const findAuthToken = async (token: unknown, purpose: AuthTokenPurpose) => {
+    if (typeof token !== 'string' || !token) return null;
+    const record = await db.queryOne('auth_tokens', { id: hashAuthToken(token) });
+    if (!record || record.purpose !== purpose) return null;
+    if (record.expiresAt < Date.now()) {
+        await db.remove('auth_tokens', record.id);
+        return null;
+    }
+    return record;
+};
 
-const connectedUsers = new Map<string, string>();
+/** Returns the token's record and deletes it; a second concurrent use gets null. */
+const consumeAuthToken = async (token: unknown, purpose: AuthTokenPurpose) => {
+    const record = await findAuthToken(token, purpose);
+    if (!record || !(await db.remove('auth_tokens', record.id))) return null;
+    return record;
+};
 
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+/** Emails are compared trimmed and in lower case. */
+const normalizeEmail = (email: unknown) => String(email ?? '').trim().toLowerCase();
 
-  socket.on('join', (room) => {
-    socket.join(room);
-  });
+const findDelegate = async (eventId: string | undefined, email: string) => {
+    const normalized = normalizeEmail(email);
+    if (!normalized) return null;
+    // Rows saved before emails were normalised match as typed.
+    const matches = await db.query('registrations', { where: { email: Array.from(new Set([normalized, String(email)])) } });
+    return matches.find((r: any) => (!eventId || r.eventId === eventId) && normalizeEmail(r.email) === normalized) || null;
+};
 
-  socket.on('auth:register', (data) => {
-      const { userId } = data;
-      if (userId) {
-          connectedUsers.set(userId, socket.id);
-      }
-  });
+// --- Tickets ---
+// Ticket QR codes carry tokens signed with the newest `ticket_keys` row, so door
+// devices can check them offline with the public keys from /api/tickets/keys.
 
-  socket.on('signal', (data) => {
-    const { to, ...payload } = data;
-    let senderId = '';
-    for (let [uid, sid] of connectedUsers.entries()) {
-        if (sid === socket.id) {
-            senderId = uid;
-            break;
-        }
-    }
+let ticketKey: Promise<TicketSigningKey> | null = null;
 
-    if (!senderId) {
-        return;
+/** The current signing key, created on first use. */
+const getTicketSigningKey = () => {
+    if (!ticketKey) {
+        ticketKey = (async () => {
+            const [newest] = await db.query('ticket_keys', { orderBy: 'createdAt', order: 'desc', limit: 1 });
+            if (newest) return newest as TicketSigningKey;
+            const key = await generateTicketKey();
+            await db.insert('ticket_keys', { id: key.kid, ...key });
+            return key;
+        })();
+        ticketKey.catch(() => { ticketKey = null; });
     }
+    return ticketKey;
+};
 
-    if (to) {
-        const targetSocketId = connectedUsers.get(to);
-        if (targetSocketId) {
-            io.to(targetSocketId).emit('signal', { ...payload, senderId });
-        }
-    }
-  });
+const issueTicket = async (registration: any) => {
+    const eventId = registration.eventId || DEFAULT_EVENT_ID;
+    const config = await getEventConfig(eventId);
+    return signTicket({
+        e: eventId,
+        r: registration.id,
+        t: registration.ticketTierId,
+        n: registration.ticketVersion || 1,
+        ...ticketValidity(config.ticketValidity)
+    }, await getTicketSigningKey());
+};
 
-  socket.on('chat:send', async (message) => {
-    await db.insert('messages', message);
-    io.emit('refresh:messages', message); 
-    io.emit('refresh:data', { table: 'messages' });
-  });
+// --- Check-in ---
+// Every scan at the door is kept as a `check_ins` row, whether it was admitted
+// or not. Scans of one registration (or, at a zone's door, of one zone) run one
+// at a time, so two scanners cannot both admit the same code or the last seat.
 
-  socket.on('poll:vote', (data) => {
-      io.emit('refresh:polls', { pollId: data.pollId });
-      io.emit('refresh:data', { table: 'poll_votes' });
-  });
-  
-  socket.on('poll:update', (data) => {
-      io.emit('refresh:polls', data);
-      io.emit('refresh:data', { table: 'polls' });
-  });
+const checkInQueue = new Map<string, Promise<unknown>>();
 
-  socket.on('disconnect', () => {
-    for (let [uid, sid] of connectedUsers.entries()) {
-        if (sid === socket.id) {
-            connectedUsers.delete(uid);
-            break;
-        }
+const oneAtATime = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const run = (checkInQueue.get(key) || Promise.resolve()).catch(() => undefined).then(task);
+    checkInQueue.set(key, run);
+    run.finally(() => { if (checkInQueue.get(key) === run) checkInQueue.delete(key); }).catch(() => undefined);
+    return run;
+};
+
+interface ScanOutcome {
+    result: CheckInResult;
+    reason?: string;
+    registration?: any;
+}
+
+interface ZoneScan {
+    zone: AccessZone;
+    direction: ZoneDirection;
+}
+
+/** The event's session or room pin with this id. */
+const findZone = async (eventId: string, zoneId: string): Promise<AccessZone | null> => {
+    const session = await db.queryOne('sessions', { eventId, id: zoneId });
+    if (session) return sessionZone(session);
+    const maps = await db.query('venue_maps', { where: { eventId } });
+    const pin = maps.flatMap((map: any) => map.pins || []).find((p: any) => p.id === zoneId && p.type === 'room');
+    return pin ? roomZone(pin) : null;
+};
+
+const admitToZone = async (registration: any, { zone, direction }: ZoneScan): Promise<ScanOutcome> => {
+    const scans = await db.query('check_ins', { where: { zoneId: zone.id, result: 'admitted' } });
+    const occupants = zoneOccupants(scans)[zone.id] || new Set<string>();
+    const tier = registration.ticketTierId ? await db.queryOne('ticket_tiers', { id: registration.ticketTierId }) : null;
+    return { ...decideZoneScan(zone, direction, registration.id, tier, occupants), registration };
+};
+
+/** Decides a scan for a registration already known to hold an authentic ticket (or picked by hand). */
+const admitRegistration = async (registration: any, rejection: string | null, zoneScan?: ZoneScan): Promise<ScanOutcome> => {
+    if (rejection) return { result: 'rejected', reason: rejection, registration };
+    if (zoneScan) return admitToZone(registration, zoneScan);
+    if (registration.checkedInAt) {
+        return { result: 'duplicate', reason: `Already checked in at ${new Date(registration.checkedInAt).toISOString()}.`, registration };
     }
-  });
-});
+    const admitted = await db.update('registrations', registration.id, { checkedInAt: Date.now() });
+    return { result: 'admitted', registration: admitted };
+};
 
-// --- API Routes ---
+/** Who recorded a scan: an admin on a door device, or a kiosk. */
+type Scanner = Pick<CheckInRecord, 'scannedBy' | 'scannedByEmail' | 'deviceId' | 'userAgent'>;
 
-app.get('/api/health', (req, res) => {
-    res.json({ status: 'ok', timestamp: Date.now() });
+const adminScanner = (req: AuthRequest): Scanner => ({
+    scannedBy: req.user!.id,
+    scannedByEmail: req.user!.email,
+    deviceId: typeof req.body.deviceId === 'string' ? req.body.deviceId.slice(0, 100) : 'unknown',
+    userAgent: req.get('user-agent')
 });
 
-// Admin Login
-app.post('/api/auth/admin/login', async (req, res) => {
-    const { email, password } = req.body;
+const recordCheckIn = (
+    scanner: Scanner,
+    eventId: string,
+    method: CheckInRecord['method'],
+    outcome: ScanOutcome,
+    zoneScan?: ZoneScan,
+    overrides: Partial<CheckInRecord> = {}
+) => {
+    const record: CheckInRecord = {
+        id: `checkin_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+        eventId,
+        registrationId: outcome.registration?.id,
+        result: outcome.result,
+        reason: outcome.reason,
+        method,
+        zoneId: zoneScan?.zone.id,
+        direction: zoneScan?.direction,
+        ...scanner,
+        timestamp: Date.now(),
+        ...overrides
+    };
+    return db.insert('check_ins', record);
+};
+
+// --- Waitlist ---
+// Registrations beyond the event's or their tier's capacity wait in line, see
+// `server/waitlist.ts`. Seats freed by cancellations and by declined or lapsed
+// offers go to the next people waiting through `fillOpenSeats`, which runs
+// after each of those and on a timer, since nothing else notices an offer
+// lapse. Unclaimed seats of group orders are held and count as taken. Seat
+// decisions for one event run one at a time.
+
+const WAITLIST_SWEEP_INTERVAL = 60 * 1000;
+
+const capacityKey = (eventId: string) => `capacity:${eventId}`;
+
+const eventSeating = async (eventId: string) => {
+    const [registrations, tiers, config, groups, orders] = await Promise.all([
+        db.query('registrations', { where: { eventId } }),
+        db.query('ticket_tiers', { where: { eventId } }),
+        getEventConfig(eventId),
+        db.query('registration_groups', { where: { eventId } }),
+        db.query('orders', { where: { eventId, status: 'pending' } })
+    ]);
+    return { registrations, tiers, config, held: [...unclaimedSeats(groups), ...heldOrderSeats(orders)] };
+};
+
+/** The confirmation and host notification, sent on registration or once a waitlisted delegate claims a seat. */
+const sendRegistrationEmails = async (registration: any, config: any, baseUrl: string) => {
+    const { password_hash, ...publicUser } = registration;
+    const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(await issueTicket(registration))}`;
+    const verificationLink = `${baseUrl}/verify/${registration.id}`;
     try {
-        const users = await db.findAll('admin_users', (u) => u.email === email);
-        const user = users[0];
-        if (user && await comparePass(password, user.password_hash)) {
-            const role = await db.findOne('roles', (r) => r.id === user.roleId);
-            const token = jwt.sign({
-                id: user.id,
-                email: user.email,
-                type: 'admin',
-                permissions: role ? role.permissions : []
-            }, JWT_SECRET, { expiresIn: '24h' });
-            
-            res.json({ token, user: { ...user, permissions: role ? role.permissions : [], password_hash: undefined } });
-        } else {
-            res.status(401).json({ error: 'Invalid credentials' });
+        const emails = await generateRegistrationEmails(publicUser, config, verificationLink, qrCodeUrl);
+        if (emails.userEmail) {
+            await sendEmail(config, registration.email, emails.userEmail.subject, emails.userEmail.body, registration.eventId);
         }
-    } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
+        if (emails.hostEmail) {
+            await sendEmail(config, config.host.email, emails.hostEmail.subject, emails.hostEmail.body, registration.eventId);
+        }
+    } catch (emailErr) {
+        console.error("Failed to generate/send email:", emailErr);
     }
-});
+};
 
-// Delegate Login
-app.post('/api/auth/delegate/login', async (req, res) => {
-    const { eventId, email } = req.body;
+const sendWaitlistOffer = async (registration: any, offer: { offeredAt: number; expiresAt: number }, config: any, baseUrl: string) => {
+    const eventId = registration.eventId || DEFAULT_EVENT_ID;
+    const token = await issueAuthToken('waitlist_offer', {
+        subjectType: 'delegate', subjectId: registration.id, email: registration.email, eventId, name: registration.name
+    }, offer.expiresAt - offer.offeredAt);
+    const acceptLink = `${baseUrl}/${eventId}?waitlistOffer=${token}`;
+    const expiresAt = new Date(offer.expiresAt).toUTCString();
     try {
-        const users = await db.findAll('registrations', (u) => u.email === email);
-        const user = users[0];
-        
-        if (user) {
-            const token = jwt.sign({
-                id: user.id,
-                email: user.email,
-                type: 'delegate',
-                eventId
-            }, JWT_SECRET, { expiresIn: '24h' });
-            
-            res.json({ token, user });
-        } else {
-            res.status(401).json({ error: 'Delegate not found' });
+        let content;
+        try {
+            content = await generateWaitlistPromotionEmail(config, registration, { acceptLink, expiresAt });
+        } catch (aiErr) {
+            content = renderTemplate(config.emailTemplates.waitlistOffer, {
+                name: registration.name, eventName: config.event.name, eventDate: config.event.date || '',
+                eventLocation: config.event.location || '', hostName: config.host.name, acceptLink, expiresAt
+            });
         }
-    } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
+        await sendEmail(config, registration.email, content.subject, content.body, eventId);
+    } catch (emailErr) {
+        console.error("Failed to send waitlist offer email:", emailErr);
+    }
+};
+
+/**
+ * Offers the event's free seats to the people waiting and emails each a link
+ * to claim theirs. Without a request to take the address from, links point at
+ * the event's public URL.
+ */
+const fillOpenSeats = (eventId: string, baseUrl?: string) => oneAtATime(capacityKey(eventId), async () => {
+    const { registrations, tiers, config, held } = await eventSeating(eventId);
+    const { offers } = openSeatOffers(registrations, config, tiers, Date.now(), held);
+    for (const registration of offers) {
+        const offer = newWaitlistOffer(config);
+        await db.update('registrations', registration.id!, { waitlistOffer: offer });
+        await sendWaitlistOffer(registration, offer, config, baseUrl || config.event.publicUrl || '');
     }
+    return offers.length;
 });
 
-// Register
-app.post('/api/events/:eventId/register', async (req, res) => {
-    const { eventId } = req.params;
-    const data = req.body;
-    
-    try {
-        const existing = await db.findOne('registrations', r => r.email === data.email);
-        if (existing) {
-            return res.json({ success: false, message: 'Email already registered.' });
+/**
+ * Claims a waitlisted delegate's seat if their offer is still live. A free seat
+ * is confirmed at once. A paid one goes through checkout: the delegate gets an
+ * order to pay, and `fulfilOrder` confirms the seat once the payment is in.
+ */
+const acceptWaitlistOffer = async (registrationId: string, eventId: string, baseUrl: string) => {
+    const accepted = await oneAtATime(capacityKey(eventId), async (): Promise<string | { registration: RegistrationData } | { order: Order }> => {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: registrationId });
+        const rejection = offerRejection(registration);
+        if (rejection) return rejection;
+        const tiers: TicketTier[] = await db.query('ticket_tiers', { where: { eventId } });
+        if (!needsPayment(tiers, registration!.ticketTierId)) {
+            return { registration: await db.update('registrations', registrationId, { status: 'confirmed' }) };
         }
-        
-        const newUser = {
-            ...data,
-            id: `reg_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
-            eventId,
-            createdAt: Date.now(),
-            status: data.status || 'confirmed'
-        };
-        
-        await db.insert('registrations', newUser);
+        const order = newOfferOrder({ id: `ord_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`, eventId }, registration!, tiers);
+        if (typeof order === 'string') return order;
+        return { order: await db.insert('orders', order) };
+    });
+    if (typeof accepted === 'string') return { success: false, message: accepted };
+    if ('order' in accepted) {
+        const { order, clientSecret } = await placeOrderPayment(accepted.order);
+        return { success: true, message: 'Pay for your ticket to confirm your seat.', order: publicOrder(order), clientSecret };
+    }
+    await sendRegistrationEmails(accepted.registration, await getEventConfig(eventId), baseUrl);
+    return { success: true, message: 'Your seat is confirmed. Your pass is on its way by email.' };
+};
 
-        const events = await db.findAll('events');
-        const event = events.find(e => e.id === eventId) || events[0];
-        const config = getSafeConfig(event?.config);
-        
-        const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${encodeURIComponent(newUser.id)}`;
-        const verificationLink = `${req.protocol}://${req.get('host')}/verify/${newUser.id}`;
+setInterval(() => {
+    db.query('registrations', { where: { status: 'waitlist' } })
+        .then((waiting: any[]) => Promise.all(
+            [...new Set(waiting.map(r => r.eventId || DEFAULT_EVENT_ID))].map(eventId => fillOpenSeats(eventId))
+        ))
+        .catch(e => console.error('Waitlist sweep failed', e));
+}, WAITLIST_SWEEP_INTERVAL).unref();
 
-        try {
-            const emails = await generateRegistrationEmails(newUser, config, verificationLink, qrCodeUrl);
-            if (emails.userEmail) {
-                await sendEmail(config, newUser.email, emails.userEmail.subject, emails.userEmail.body);
-            }
-            if (emails.hostEmail) {
-                await sendEmail(config, config.host.email, emails.hostEmail.subject, emails.hostEmail.body);
-            }
-        } catch (emailErr) {
-            console.error("Failed to generate/send email:", emailErr);
-        }
+// --- Group Registrations ---
+// A purchaser buys several seats at once (see `server/groups.ts`) and gets a
+// link to manage them. Naming an attendee emails them a link to claim their
+// seat; claiming registers them through the normal register endpoint, which
+// confirms them into the seat held for them. Renaming a seat revokes the
+// previous attendee's link.
 
-        res.json({ success: true, user: newUser });
-    } catch (e) {
-        res.status(500).json({ success: false, message: (e as Error).message });
-    }
+const groupEmailValues = (config: any, values: Record<string, string>) => ({
+    eventName: config.event.name, eventDate: config.event.date || '', eventLocation: config.event.location || '',
+    hostName: config.host.name, ...values
 });
 
-// Send Test Email
-app.post('/api/admin/communications/send', authenticateToken, async (req: AuthRequest, res) => {
-    const { to, config } = req.body;
-    if (!to || !config) return res.status(400).json({ error: "Missing 'to' or 'config'." });
-
+const sendGroupPurchaseEmail = async (group: RegistrationGroup, manageLink: string, config: any) => {
     try {
-        await sendEmail(config, to, "Test Email from Event Platform", `
-            <h1>Test Email</h1>
-            <p>This is a test email sent from the Event Platform settings page.</p>
-            <p>If you are reading this, your email configuration is working correctly!</p>
-            <hr>
+        const content = renderTemplate(config.emailTemplates.groupPurchase, groupEmailValues(config, {
+            name: group.purchaserName, seatCount: String(group.seats.length), manageLink
+        }));
+        await sendEmail(config, group.purchaserEmail, content.subject, content.body, group.eventId);
+    } catch (emailErr) {
+        console.error("Failed to send group purchase email:", emailErr);
+    }
+};
+
+/**
+ * Creates the group with one open seat per ticket and counts them as sold.
+ * Called under the capacity lock, once the seats are known to fit.
+ */
+const bookGroup = async (
+    eventId: string,
+    purchaser: { purchaserName: string; purchaserEmail: string; company?: string },
+    items: GroupOrderItem[],
+    quote: { total: number; currency: string },
+    tiers: any[]
+): Promise<RegistrationGroup> => {
+    const seats = newGroupSeats(items.filter(item => item.quantity > 0));
+    const group: RegistrationGroup = await db.insert('registration_groups', {
+        id: `grp_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+        eventId,
+        purchaserName: purchaser.purchaserName.trim(),
+        purchaserEmail: purchaser.purchaserEmail.trim(),
+        ...(purchaser.company ? { company: String(purchaser.company).trim() } : {}),
+        seats,
+        amountPaid: quote.total,
+        currency: quote.currency,
+        createdAt: Date.now()
+    });
+    await countSold(tiers, items);
+    return group;
+};
+
+const countSold = async (tiers: any[], items: GroupOrderItem[]) => {
+    for (const item of items.filter(i => i.quantity > 0)) {
+        const tier = tiers.find((t: any) => t.id === item.ticketTierId);
+        if (tier) await db.update('ticket_tiers', tier.id, { sold: (Number(tier.sold) || 0) + item.quantity });
+    }
+};
+
+/** Takes seats given up back off their tiers' `sold` counts. */
+const releaseSold = async (tierIds: (string | undefined)[]) => {
+    for (const tierId of tierIds.filter(Boolean)) {
+        const tier = await db.queryOne('ticket_tiers', { id: tierId });
+        if (tier) await db.update('ticket_tiers', tier.id, { sold: Math.max(0, (Number(tier.sold) || 0) - 1) });
+    }
+};
+
+/** Cancels the registrations. Seats that were bought, on their own or in a group, come off the `sold` counts. */
+const cancelRegistrations = async (registrations: RegistrationData[]) => {
+    const cancelling = registrations.filter(r => r.status !== 'cancelled');
+    for (const registration of cancelling) await db.update('registrations', registration.id!, { status: 'cancelled' });
+    await releaseSold(cancelling.filter(r => r.status === 'confirmed' && (r.orderId || r.groupId)).map(r => r.ticketTierId));
+};
+
+const findDiscountCode = (eventId: string, code: unknown): Promise<DiscountCode | null> =>
+    db.queryOne('discount_codes', { eventId, code: normalizeCode(code) });
+
+const countDiscountUse = async (codeId: string) => {
+    const code: DiscountCode | null = await db.queryOne('discount_codes', { id: codeId });
+    if (code) await db.update('discount_codes', code.id, { used: (Number(code.used) || 0) + 1 });
+};
+
+/** Emails the purchaser the link to their seats and returns its token. */
+const sendGroupManageLink = async (group: RegistrationGroup, baseUrl: string) => {
+    const eventId = group.eventId || DEFAULT_EVENT_ID;
+    const manageToken = await issueAuthToken('group_manage', {
+        subjectType: 'group', subjectId: group.id, email: group.purchaserEmail, eventId, name: group.purchaserName
+    });
+    await sendGroupPurchaseEmail(group, `${baseUrl}/${eventId}?manageGroup=${manageToken}`, await getEventConfig(eventId));
+    return manageToken;
+};
+
+/** Names an attendee for a seat and emails them a claim link; an empty email frees the seat. */
+const assignGroupSeat = async (group: RegistrationGroup, seatId: string, attendee: { name: string; email: string }, baseUrl: string) => {
+    const eventId = group.eventId || DEFAULT_EVENT_ID;
+    const stale = await db.query('auth_tokens', { where: { subjectId: group.id, seatId, purpose: 'group_seat' } });
+    await Promise.all(stale.map((t: any) => db.remove('auth_tokens', t.id)));
+
+    const email = attendee.email.trim();
+    const seats = group.seats.map(seat => seat.id !== seatId ? seat : email
+        ? { id: seat.id, ticketTierId: seat.ticketTierId, status: 'invited' as const, attendeeName: attendee.name.trim(), attendeeEmail: email, invitedAt: Date.now() }
+        : { id: seat.id, ticketTierId: seat.ticketTierId, status: 'open' as const });
+    const updated: RegistrationGroup = await db.update('registration_groups', group.id, { seats });
+    if (!email) return updated;
+
+    const token = await issueAuthToken('group_seat', {
+        subjectType: 'group', subjectId: group.id, seatId, email, eventId, name: attendee.name.trim()
+    });
+    const config = await getEventConfig(eventId);
+    try {
+        const content = renderTemplate(config.emailTemplates.groupSeatInvite, groupEmailValues(config, {
+            name: attendee.name.trim() || email, purchaserName: group.purchaserName, claimLink: `${baseUrl}/${eventId}?claimSeat=${token}`
+        }));
+        await sendEmail(config, email, content.subject, content.body, eventId);
+    } catch (emailErr) {
+        console.error("Failed to send seat invitation email:", emailErr);
+    }
+    return updated;
+};
+
+// --- Ticket Transfers ---
+// A confirmed delegate can hand their ticket to someone else (see
+// `server/transfers.ts`). The recipient accepts through an emailed link and
+// completes the form; that creates their registration with a new pass and
+// cancels the holder's, whose sessions end with it.
+
+const dropTransferLinks = async (registrationId: string) => {
+    const links = await db.query('auth_tokens', { where: { subjectId: registrationId, purpose: 'ticket_transfer' } });
+    await Promise.all(links.map((t: any) => db.remove('auth_tokens', t.id)));
+};
+
+const sendTransferOffer = async (holder: RegistrationData, pending: PendingTransfer, acceptLink: string, config: any) => {
+    try {
+        const content = renderTemplate(config.emailTemplates.ticketTransfer, {
+            name: pending.toName || pending.toEmail, fromName: holder.name, eventName: config.event.name,
+            eventDate: config.event.date || '', eventLocation: config.event.location || '', hostName: config.host.name,
+            acceptLink, expiresAt: new Date(pending.expiresAt).toUTCString()
+        });
+        await sendEmail(config, pending.toEmail, content.subject, content.body, holder.eventId);
+    } catch (emailErr) {
+        console.error("Failed to send ticket transfer email:", emailErr);
+    }
+};
+
+/** Moves the ticket to the recipient's new registration, or says why it cannot. */
+const completeTransfer = (fromId: string, eventId: string, profile: Partial<RegistrationData>) =>
+    oneAtATime(capacityKey(eventId), async () => {
+        const from: RegistrationData | null = await db.queryOne('registrations', { id: fromId });
+        const rejection = transferRejection(from);
+        if (rejection) return rejection;
+        const pending = from!.pendingTransfer;
+        if (!pending || pending.expiresAt < Date.now() || pending.toEmail.toLowerCase() !== String(profile.email).toLowerCase()) {
+            return 'This transfer has been cancelled.';
+        }
+        const problem = recipientProblem(from!, String(profile.email), await db.query('registrations', { where: { eventId } }));
+        if (problem) return problem;
+
+        const now = Date.now();
+        const to = transferredTicket(from!, profile, `reg_${now}_${Math.random().toString(36).substr(2, 5)}`, now);
+        await db.insert('registrations', to);
+        await db.update('registrations', from!.id!, handedOver(to.id!, now));
+        const group: RegistrationGroup | null = from!.groupId ? await db.queryOne('registration_groups', { id: from!.groupId }) : null;
+        if (group) await db.update('registration_groups', group.id, { seats: reassignedSeats(group.seats, from!.id!, to) });
+        return { from: from!, to };
+    });
+
+// --- Orders ---
+// Paid tickets and EventCoins are bought through orders (see
+// `server/orders.ts`). Placing an order holds its seats and creates a Stripe
+// PaymentIntent for the total priced here. The order is fulfilled once the
+// payment has gone through: when the checkout confirms it, after checking with
+// Stripe, or when Stripe's webhook reports it, whichever comes first. The
+// webhook also reports failed payments, refunds and disputes (see
+// `server/paymentWebhooks.ts`). Without STRIPE_SECRET_KEY, payments are
+// simulated and every order counts as paid, so production refuses to start
+// without it.
+
+const STRIPE_ENABLED = !!process.env.STRIPE_SECRET_KEY;
+if (!STRIPE_ENABLED && process.env.NODE_ENV === 'production') throw new Error('STRIPE_SECRET_KEY must be set in production.');
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+/** Changes to one order's payment run one at a time. */
+const orderKey = (orderId: string) => `order:${orderId}`;
+
+const createOrderPayment = async (order: Order): Promise<{ clientSecret: string; paymentIntentId?: string }> => {
+    if (!STRIPE_ENABLED) return { clientSecret: `mock_secret_${order.id}` };
+    const intent = await stripe.paymentIntents.create({
+        amount: amountInCents(order),
+        currency: order.currency.toLowerCase(),
+        receipt_email: order.email,
+        metadata: { orderId: order.id, eventId: order.eventId }
+    });
+    return { clientSecret: intent.client_secret!, paymentIntentId: intent.id };
+};
+
+/** Creates the order's payment and records its PaymentIntent. An order that cannot be paid for is cancelled. */
+const placeOrderPayment = async (order: Order) => {
+    let payment: { clientSecret: string; paymentIntentId?: string };
+    try {
+        payment = await createOrderPayment(order);
+    } catch (e) {
+        await db.update('orders', order.id, { status: 'cancelled' });
+        throw e;
+    }
+    const placed: Order = payment.paymentIntentId ? await db.update('orders', order.id, { paymentIntentId: payment.paymentIntentId }) : order;
+    return { order: placed, clientSecret: payment.clientSecret };
+};
+
+/** Whether the order's payment has gone through for its full amount. */
+const orderPaid = async (order: Order) => {
+    if (!STRIPE_ENABLED) return true;
+    if (!order.paymentIntentId) return false;
+    const intent = await stripe.paymentIntents.retrieve(order.paymentIntentId);
+    return intent.status === 'succeeded' && intent.amount_received >= amountInCents(order) && intent.currency === order.currency.toLowerCase();
+};
+
+interface FulfilledOrder {
+    order: Order;
+    /** Set only by the call that fulfilled the order. */
+    registration?: RegistrationData;
+    group?: RegistrationGroup;
+    /** The group purchaser's link, once it has been emailed. */
+    manageToken?: string;
+}
+
+/**
+ * Turns a paid order into what it bought; an order already paid or refunded
+ * is left as it is. Seats still held for the order are the buyer's. Once the
+ * hold has lapsed, or the order was cancelled and paid all the same, it only
+ * goes through if there is room left; otherwise it stays paid with
+ * `fulfilmentError` set, to be refunded.
+ */
+const fulfilOrder = (orderId: string, eventId: string) =>
+    oneAtATime(capacityKey(eventId), async (): Promise<FulfilledOrder> => {
+        const pending: Order = await db.queryOne('orders', { id: orderId });
+        if (pending.status === 'paid' || pending.status === 'refunded') return { order: pending };
+        const now = Date.now();
+        const held = holdsSeats(pending, now);
+        // Paying releases the hold, so the seating below no longer counts it.
+        await db.update('orders', orderId, { status: 'paid', paidAt: now, paymentError: null });
+        if (pending.discount) await countDiscountUse(pending.discount.codeId);
+        if (pending.kind === 'coins') {
+            const credit = coinCredit(pending, now);
+            await db.insert('transactions', credit);
+            return { order: await db.update('orders', orderId, { transactionId: credit.id }) };
+        }
+        const seating = await eventSeating(eventId);
+        const fail = async (fulfilmentError: string) => ({ order: await db.update('orders', orderId, { fulfilmentError }) as Order });
+
+        if (pending.kind === 'group') {
+            const seats = newGroupSeats(pending.items);
+            if (!held && !roomForSeats(seats, seating.registrations, seating.config, seating.tiers, now, seating.held)) {
+                return fail('The seats were released before the payment went through, and there are not enough left.');
+            }
+            const group = await bookGroup(eventId, pending.details as any, pending.items, pending, seating.tiers);
+            return { order: await db.update('orders', orderId, { groupId: group.id }), group };
+        }
+
+        const waitingId = offerRegistrationId(pending);
+        if (waitingId) {
+            const waiting: RegistrationData | null = await db.queryOne('registrations', { id: waitingId });
+            if (waiting?.status !== 'waitlist') return fail('The place on the waitlist was given up before the payment went through.');
+            // The live offer holds the seat; once it has lapsed, the seat has to be free still.
+            if (offerRejection(waiting, now) && admissionStatus(waiting.ticketTierId, seating.registrations, seating.config, seating.tiers, now, seating.held) !== 'confirmed') {
+                return fail('The waitlist offer expired before the payment went through, and the ticket has sold out.');
+            }
+            const registration: RegistrationData = await db.update('registrations', waitingId, { status: 'confirmed', orderId });
+            await countSold(seating.tiers, pending.items);
+            return { order: await db.update('orders', orderId, { registrationId: waitingId }), registration };
+        }
+
+        if (await findDelegate(eventId, pending.email)) return fail('This email address is already registered for the event.');
+        const registration = orderRegistration(pending, `reg_${now}_${Math.random().toString(36).substr(2, 5)}`, now);
+        if (!held && admissionStatus(registration.ticketTierId, seating.registrations, seating.config, seating.tiers, now, seating.held) !== 'confirmed') {
+            return fail('The seat was released before the payment went through, and the ticket has sold out.');
+        }
+        await db.insert('registrations', registration);
+        await countSold(seating.tiers, pending.items);
+        return { order: await db.update('orders', orderId, { registrationId: registration.id }), registration };
+    });
+
+/** Fulfils the paid order and sends the buyer what it bought: the registration emails, or the group's manage link. */
+const completeOrder = async (order: Order, baseUrl: string): Promise<FulfilledOrder> => {
+    const result = await fulfilOrder(order.id, order.eventId);
+    // A failure here must not undo the sale; the invoice is issued the next time invoices are listed.
+    await issueInvoice(result.order).catch(e => console.error('Failed to issue the invoice for', order.id, e));
+    if (result.registration) await sendRegistrationEmails(result.registration, await getEventConfig(order.eventId), baseUrl);
+    if (result.group) return { ...result, manageToken: await sendGroupManageLink(result.group, baseUrl) };
+    return result;
+};
+
+/**
+ * Takes back what a refunded order bought: the registration is cancelled and
+ * its seat offered to the waitlist, a group's claimed registrations are
+ * cancelled and its unclaimed seats released, and coins are taken back out of
+ * the wallet.
+ */
+const revokeOrder = async (order: Order, baseUrl: string) => {
+    if (order.kind === 'coins') {
+        const reversal = coinReversal(order, Date.now());
+        if (order.transactionId && !(await db.queryOne('transactions', { id: reversal.id }))) await db.insert('transactions', reversal);
+        return;
+    }
+    const registrations: RegistrationData[] = order.registrationId
+        ? [await db.queryOne('registrations', { id: order.registrationId })].filter(Boolean)
+        : order.groupId ? await db.query('registrations', { where: { groupId: order.groupId } }) : [];
+    await cancelRegistrations(registrations);
+    if (order.groupId) {
+        const group: RegistrationGroup | null = await db.queryOne('registration_groups', { id: order.groupId });
+        if (group) {
+            await db.update('registration_groups', group.id, { seats: group.seats.filter(seat => seat.status === 'claimed') });
+            await releaseSold(group.seats.filter(seat => seat.status !== 'claimed').map(seat => seat.ticketTierId));
+        }
+    }
+    await fillOpenSeats(order.eventId, baseUrl);
+};
+
+/** The order a payment was made for: named in the PaymentIntent's metadata, or found by the intent. */
+const paymentOrder = async (effect: PaymentEffect): Promise<Order | null> => {
+    const orderId = 'orderId' in effect ? effect.orderId : undefined;
+    if (orderId) return db.queryOne('orders', { id: orderId });
+    return db.queryOne('orders', { paymentIntentId: effect.paymentIntentId });
+};
+
+/**
+ * Applies a verified Stripe event to its order. Each event is handled once:
+ * its id is recorded afterwards, and a repeated delivery is only acknowledged.
+ * Events for payments not made through an order are ignored.
+ */
+const handlePaymentEvent = (event: StripeEvent, baseUrl: string) =>
+    oneAtATime(`payment_event:${event.id}`, async (): Promise<{ duplicate?: boolean; ignored?: boolean; orderId?: string }> => {
+        if (await db.queryOne('payment_events', { id: event.id })) return { duplicate: true };
+        const effect = paymentEffect(event);
+        const order = effect ? await paymentOrder(effect) : null;
+        if (effect && order) {
+            if (effect.kind === 'succeeded') {
+                if (coversOrder(order, effect)) {
+                    await completeOrder(order, baseUrl);
+                } else {
+                    await db.update('orders', order.id, { paymentError: 'The payment did not cover the order.' });
+                }
+            } else {
+                // Read again under the order's lock, so a refund being made here is not counted twice.
+                const revoke = await oneAtATime(orderKey(order.id), async () => {
+                    const current: Order = await db.queryOne('orders', { id: order.id });
+                    const { changes, revoke } = paymentEventChanges(current, effect);
+                    if (Object.keys(changes).length > 0) await db.update('orders', order.id, changes);
+                    return revoke;
+                });
+                if (revoke) await revokeOrder(order, baseUrl);
+            }
+        }
+        await db.insert('payment_events', { id: event.id, type: event.type, orderId: order?.id, receivedAt: Date.now() });
+        return order ? { orderId: order.id } : { ignored: true };
+    });
+
+// --- Refunds ---
+// Money goes back through the payment it came from (see `server/refunds.ts`):
+// when a delegate cancels, as much as their tier's cancellation policy allows,
+// or what an admin chooses. Each refund is recorded on the order straight
+// away; Stripe's `charge.refunded` webhook then only confirms the total.
+// Without STRIPE_SECRET_KEY, refunds are simulated.
+
+/** Sends `amount` back to the card the order was paid with and returns the refund's id. */
+const refundPayment = async (order: Order, amount: number) => {
+    if (!STRIPE_ENABLED || !order.paymentIntentId) return `mock_re_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    const refund = await stripe.refunds.create({
+        payment_intent: order.paymentIntentId,
+        amount: Math.round(amount * 100),
+        metadata: { orderId: order.id }
+    });
+    return refund.id;
+};
+
+/** Refunds `amount` of the paid order and records it, or says why it cannot. */
+const refundOrder = (orderId: string, amount: number, details: Pick<OrderRefund, 'reason' | 'note' | 'by'>) =>
+    oneAtATime(orderKey(orderId), async (): Promise<Order | string> => {
+        const order: Order | null = await db.queryOne('orders', { id: orderId });
+        const problem = refundProblem(order, amount);
+        if (problem) return problem;
+        const refund: OrderRefund = {
+            id: nextRefundId(order!), amount: Math.round(amount * 100) / 100, ...details,
+            providerRefundId: await refundPayment(order!, amount), createdAt: Date.now()
+        };
+        return db.update('orders', orderId, withRefund(order!, refund));
+    });
+
+/**
+ * Cancels the registration and refunds what its tier's cancellation policy
+ * allows, then offers the seat to the waitlist. The refund is made first, so a
+ * failed one leaves the registration as it was and its problem is returned.
+ */
+const cancelBooking = async (registration: RegistrationData, baseUrl: string) => {
+    const eventId = registration.eventId || DEFAULT_EVENT_ID;
+    const [order, tier] = await Promise.all([
+        registration.orderId ? db.queryOne('orders', { id: registration.orderId }) : null,
+        registration.ticketTierId ? db.queryOne('ticket_tiers', { id: registration.ticketTierId }) : null
+    ]);
+    const { amount } = cancellationRefund(order, tier);
+    let refunded: Order | null = null;
+    if (amount > 0) {
+        const result = await refundOrder(order.id, amount, { reason: 'cancellation' });
+        if (typeof result === 'string') return `The refund could not be made, so the registration was not cancelled: ${result}`;
+        refunded = result;
+    }
+    await cancelRegistrations([registration]);
+    const offered = await fillOpenSeats(eventId, baseUrl);
+    return { refund: refunded?.refunds?.[refunded.refunds.length - 1], currency: order?.currency, offered };
+};
+
+// --- Invoices ---
+// Each paid order gets an invoice numbered in its event's sequence (see
+// `server/invoices.ts`), issued as it is fulfilled. Numbers are handed out one
+// at a time per event, and the unique index on (event_id, sequence) catches
+// any that slip through. Orders that went without one, because issuing failed
+// or they were paid before invoicing existed, get theirs when invoices are
+// next listed.
+
+/** The paid order's invoice, issued with the event's next number the first time. */
+const issueInvoice = (order: Order) =>
+    oneAtATime(`invoices:${order.eventId}`, async (): Promise<Invoice | null> => {
+        if (!needsInvoice(order)) return null;
+        const existing: Invoice | null = await db.queryOne('invoices', { orderId: order.id });
+        if (existing) return existing;
+        const [[last], config, tiers] = await Promise.all([
+            db.query('invoices', { where: { eventId: order.eventId }, orderBy: 'sequence', order: 'desc', limit: 1 }),
+            getEventConfig(order.eventId),
+            db.query('ticket_tiers', { where: { eventId: order.eventId } })
+        ]);
+        return db.insert('invoices', newInvoice(order, (Number(last?.sequence) || 0) + 1, config, tiers));
+    });
+
+/** Issues the invoices these orders are owed but do not have yet, oldest payment first. */
+const issueMissingInvoices = async (orders: Order[], invoices: Invoice[]) => {
+    const invoiced = new Set(invoices.map(invoice => invoice.orderId));
+    const missing = orders.filter(order => needsInvoice(order) && !invoiced.has(order.id)).sort((a, b) => (a.paidAt || 0) - (b.paidAt || 0));
+    const issued: Invoice[] = [];
+    for (const order of missing) {
+        const invoice = await issueInvoice(order);
+        if (invoice) issued.push(invoice);
+    }
+    return [...invoices, ...issued];
+};
+
+// --- Registration Import ---
+// The import dialog parses the file and maps its columns (see
+// `server/registrationImport.ts`), then sends the rows here: once as a dry run
+// to preview validation errors, then for real. A real import is tracked as a
+// `registration_imports` row and written in batches in the background, so the
+// dialog can poll its progress. Each batch is validated again under the
+// capacity lock, so seats and duplicates are judged against what is in the
+// event at that moment.
+
+const importContext = (seating: Awaited<ReturnType<typeof eventSeating>>): ImportContext => ({
+    formFields: seating.config.formFields || [],
+    tiers: seating.tiers,
+    existingEmails: new Set(seating.registrations.map((r: any) => String(r.email || '').toLowerCase()))
+});
+
+const runRegistrationImport = async (job: RegistrationImport, rows: string[][], mapping: string[], firstRow: number, baseUrl: string) => {
+    const eventId = job.eventId || DEFAULT_EVENT_ID;
+    const progress = { processed: 0, imported: 0, waitlisted: 0, failed: 0, errors: [] as RegistrationImport['errors'] };
+    try {
+        for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+            const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+            const { added, config } = await oneAtATime(capacityKey(eventId), async () => {
+                const seating = await eventSeating(eventId);
+                const added: any[] = [];
+                for (const result of validateImportRows(batch, mapping, importContext(seating), firstRow + start)) {
+                    if (result.errors.length > 0) {
+                        progress.errors.push({ row: result.row, message: result.errors.join(' ') });
+                        continue;
+                    }
+                    const registration: any = {
+                        ...result.registration,
+                        id: `reg_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+                        eventId,
+                        createdAt: Date.now(),
+                        importedBy: job.createdBy
+                    };
+                    registration.status = admissionStatus(registration.ticketTierId, seating.registrations, seating.config, seating.tiers, Date.now(), seating.held);
+                    await db.insert('registrations', registration);
+                    seating.registrations.push(registration);
+                    added.push(registration);
+                }
+                return { added, config: seating.config };
+            });
+            progress.processed += batch.length;
+            progress.imported += added.length;
+            progress.waitlisted += added.filter(r => r.status === 'waitlist').length;
+            progress.failed = progress.errors.length;
+            if (job.notify) {
+                for (const registration of added.filter(r => r.status === 'confirmed')) {
+                    await sendRegistrationEmails(registration, config, baseUrl);
+                }
+            }
+            await db.update('registration_imports', job.id, progress);
+        }
+        await db.update('registration_imports', job.id, { status: 'completed', finishedAt: Date.now() });
+    } catch (e) {
+        console.error(`Registration import ${job.id} failed`, e);
+        await db.update('registration_imports', job.id, { ...progress, status: 'failed', error: (e as Error).message, finishedAt: Date.now() })
+            .catch(() => {});
+    }
+};
+
+// --- Registration Exports ---
+// Saved export definitions (see `server/registrationExport.ts`). Downloads are
+// built here from the same data as scheduled runs, which a timer picks up once
+// their `nextRunAt` has passed and emails to the definition's recipients.
+// Dining reservations and meal plan assignments are only kept in browser mode,
+// so those columns are blank in exports built here.
+
+const EXPORT_SWEEP_INTERVAL = 60 * 1000;
+
+const exportSources = async (eventId: string): Promise<ExportSources> => {
+    const inEvent = { where: { eventId } };
+    const [registrations, tiers, checkIns, bookings, hotels, mealPlans, restaurants, config] = await Promise.all([
+        db.query('registrations', inEvent),
+        db.query('ticket_tiers', inEvent),
+        db.query('check_ins', inEvent),
+        db.query('bookings', inEvent),
+        db.query('hotels', inEvent),
+        db.query('meal_plans', inEvent),
+        db.query('restaurants', inEvent),
+        getEventConfig(eventId)
+    ]);
+    return {
+        registrations: registrations.map(({ password_hash, ...r }: any) => r),
+        formFields: config.formFields || [], tiers, checkIns, bookings, hotels, mealPlans, restaurants,
+        mealPlanAssignments: [], diningReservations: []
+    };
+};
+
+const buildExportFile = async (definition: ExportDefinition) => {
+    const sources = await exportSources(definition.eventId || DEFAULT_EVENT_ID);
+    return renderExport(buildExportTable(definition, sources), definition.format, definition.name);
+};
+
+/** Emails the export to its recipients. Throws if any delivery fails. */
+const deliverExport = async (definition: ExportDefinition, recipients: string[]) => {
+    const eventId = definition.eventId || DEFAULT_EVENT_ID;
+    const [file, config] = await Promise.all([buildExportFile(definition), getEventConfig(eventId)]);
+    const body = `
+        <p>Attached is the "${definition.name}" registration export for ${config.event.name}, generated ${new Date().toUTCString()}.</p>
+        <p>To change or stop this delivery, edit the export in the registrations dashboard.</p>
+    `;
+    for (const to of recipients) {
+        await sendEmail(config, to, `${definition.name}: ${config.event.name} registrations`, body, eventId,
+            [{ filename: file.fileName, content: file.content, contentType: file.mimeType }]);
+    }
+};
+
+const runScheduledExports = async () => {
+    const now = Date.now();
+    const due = (await db.findAll('export_definitions')).filter((d: ExportDefinition) => d.schedule && d.nextRunAt && d.nextRunAt <= now);
+    for (const definition of due as ExportDefinition[]) {
+        // Moved on before sending, so a slow delivery is not picked up again by the next sweep.
+        await db.update('export_definitions', definition.id, { nextRunAt: nextExportRun(definition.schedule!, now) });
+        try {
+            await deliverExport(definition, definition.schedule!.recipients);
+            await db.update('export_definitions', definition.id, { lastRunAt: now, lastRunError: null });
+        } catch (e) {
+            console.error(`Scheduled export ${definition.id} failed`, e);
+            await db.update('export_definitions', definition.id, { lastRunAt: now, lastRunError: (e as Error).message });
+        }
+    }
+};
+
+setInterval(() => {
+    runScheduledExports().catch(e => console.error('Export sweep failed', e));
+}, EXPORT_SWEEP_INTERVAL).unref();
+
+// --- Kiosks ---
+// Self check-in kiosks send their device credential as a bearer token. A kiosk
+// is bound to its event and can only download the roster and sync scans. Its
+// queued scans are decided again here under the same per-registration lock as
+// the door scanners, so the first admission wins across devices.
+
+interface KioskRequest extends ExpressRequest {
+    kiosk?: any;
+}
+
+const PRINTER_STATUSES: KioskPrinterStatus[] = ['ready', 'error', 'disabled', 'unknown'];
+const MAX_SYNC_SCANS = 500;
+
+const authenticateKiosk = async (req: KioskRequest, res: Response, next: NextFunction) => {
+    const credential = req.headers['authorization']?.split(' ')[1];
+    if (!credential) return res.sendStatus(401);
+    try {
+        const kiosk = await db.queryOne('kiosks', { credentialHash: await hashKioskSecret(credential) });
+        if (!kiosk) return res.sendStatus(401);
+        req.kiosk = kiosk;
+        next();
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+};
+
+const issuePairingCode = async () => {
+    const pairingCode = newPairingCode();
+    return {
+        pairingCode,
+        changes: {
+            pairingCodeHash: await hashKioskSecret(normalizePairingCode(pairingCode)),
+            pairingExpiresAt: Date.now() + KIOSK_PAIRING_TTL
+        }
+    };
+};
+
+/** Name of the device behind the registration's first admission at the entrance. */
+const admittingDevice = async (registrationId: string) => {
+    const scans = await db.query('check_ins', { where: { registrationId, result: 'admitted' }, orderBy: 'timestamp', order: 'asc' });
+    return scans.find((c: CheckInRecord) => !c.zoneId)?.deviceId;
+};
+
+/** Decides and records one queued scan. `repeat` is set when it had been recorded before. */
+const syncKioskScan = async (kiosk: any, scan: KioskScan, keys: any[], userAgent?: string): Promise<KioskScanResult & { repeat?: boolean }> => {
+    const eventId = kiosk.eventId || DEFAULT_EVENT_ID;
+    const id = `checkin_${kiosk.id}_${scan.id}`;
+    const scanner: Scanner = { scannedBy: kiosk.id, deviceId: kiosk.name, userAgent };
+    const scannedAt = Number.isFinite(scan.scannedAt) ? Math.min(scan.scannedAt, Date.now()) : Date.now();
+    const overrides = { id, timestamp: scannedAt, syncedAt: Date.now() };
+
+    // A retry after the response to an earlier sync was lost.
+    const existing = await db.queryOne('check_ins', { id });
+    if (existing) return { id: scan.id, result: existing.result, reason: existing.reason, registrationId: existing.registrationId, repeat: true };
+
+    // Validity is judged at the time of the scan, not of the sync.
+    const check = await verifyTicket(scan.ticket, keys, scannedAt);
+    if (!check.valid) {
+        await recordCheckIn(scanner, eventId, 'scan', { result: 'rejected', reason: check.reason }, undefined, overrides);
+        return { id: scan.id, result: 'rejected', reason: check.reason };
+    }
+    return oneAtATime(check.claims.r, async () => {
+        const registration = await db.queryOne('registrations', { id: check.claims.r });
+        const rejection = ticketRejection(check.claims, registration, eventId);
+        const admittedBy = !rejection && registration.checkedInAt ? await admittingDevice(registration.id) : undefined;
+        const { result, reason } = reconcileKioskScan(scan, registration, rejection, admittedBy);
+        if (result === 'admitted') await db.update('registrations', registration.id, { checkedInAt: scannedAt });
+        await recordCheckIn(scanner, eventId, 'scan', { result, reason, registration }, undefined, overrides);
+        return { id: scan.id, result, reason, registrationId: registration?.id };
+    });
+};
+
+// --- Sessions ---
+// Every login creates an auth_sessions row. The client gets a short-lived access
+// JWT carrying the session id (`sid`) and a refresh token in an httpOnly cookie
+// that rotates on every use. Revoking the row cuts off both at once.
+
+type SubjectType = 'admin' | 'delegate';
+
+const ACCESS_TOKEN_TTL = '15m';
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; the slower one must
+// not be mistaken for a replayed (stolen) token.
+const REFRESH_REUSE_GRACE = 30 * 1000;
+
+const REFRESH_COOKIE: Record<SubjectType, string> = { admin: 'admin_refresh', delegate: 'delegate_refresh' };
+
+const refreshCookieOptions = (maxAge?: number) => ({
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/api/auth',
+    ...(maxAge !== undefined ? { maxAge } : {})
+});
+
+const isSessionActive = (session: any) => !!session && !session.revokedAt && session.expiresAt > Date.now();
+
+/** Fields safe to show in session lists; never the refresh token hashes. */
+const toSessionSummary = (session: any, currentSid?: string) => ({
+    id: session.id,
+    subjectType: session.subjectType,
+    subjectId: session.subjectId,
+    email: session.email,
+    eventId: session.eventId,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSid
+});
+
+/**
+ * Permissions of the admin's platform-wide role (`roleId`) and of the roles
+ * assigned for single events (`eventRoles`, event id to role id).
+ */
+const adminPermissions = async (user: any) => {
+    const role = user.roleId ? await db.queryOne('roles', { id: user.roleId }) : null;
+    const eventPermissions: Record<string, string[]> = {};
+    for (const [eventId, roleId] of Object.entries(user.eventRoles || {})) {
+        const eventRole = await db.queryOne('roles', { id: roleId });
+        if (eventRole) eventPermissions[eventId] = eventRole.permissions || [];
+    }
+    return { permissions: role ? role.permissions : [], eventPermissions };
+};
+
+/** Re-reads the account so role and permission changes apply on the next refresh. */
+const sessionClaims = async (session: any): Promise<Principal | null> => {
+    if (session.subjectType === 'admin') {
+        const user = await db.queryOne('admin_users', { id: session.subjectId });
+        if (!user) return null;
+        // A role that newly requires 2FA sends unenrolled members back through login.
+        if (!user.totpSecret && await roleRequiresTwoFactor(user)) return null;
+        return { id: user.id, email: user.email, type: 'admin', ...(await adminPermissions(user)) };
+    }
+    const user = await db.queryOne('registrations', { id: session.subjectId });
+    if (!user) return null;
+    return { id: user.id, email: user.email, type: 'delegate', eventId: session.eventId };
+};
+
+const signAccessToken = (claims: Principal, sid: string) =>
+    jwt.sign({ ...claims, sid }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+/** Opens a session, sets its refresh cookie and returns the first access token. */
+const startSession = async (req: ExpressRequest, res: Response, claims: Principal) => {
+    const secret = crypto.randomBytes(32).toString('hex');
+    const now = Date.now();
+    const session = {
+        id: `sess_${crypto.randomBytes(12).toString('hex')}`,
+        subjectType: claims.type,
+        subjectId: claims.id,
+        email: claims.email,
+        eventId: claims.eventId,
+        refreshTokenHash: hashAuthToken(secret),
+        userAgent: String(req.headers['user-agent'] || '').slice(0, 255),
+        ip: req.ip,
+        createdAt: now,
+        lastUsedAt: now,
+        expiresAt: now + SESSION_TTL
+    };
+    await db.insert('auth_sessions', session);
+    res.cookie(REFRESH_COOKIE[claims.type], `${session.id}.${secret}`, refreshCookieOptions(SESSION_TTL));
+    return signAccessToken(claims, session.id);
+};
+
+/** Revokes every active session matching the filter. Returns how many were ended. */
+const revokeSessions = async (where: Record<string, any>, reason: string) => {
+    const sessions = await db.query('auth_sessions', { where: { ...where, revokedAt: null } });
+    const now = Date.now();
+    await Promise.all(sessions.map((s: any) => db.update('auth_sessions', s.id, { revokedAt: now, revokedReason: reason })));
+    const revoked = new Set(sessions.map((s: any) => s.id));
+    for (const socket of io.sockets.sockets.values()) {
+        if (revoked.has(socket.data.user?.sid)) socket.data.user = undefined;
+    }
+    return sessions.length;
+};
+
+const readRefreshCookie = (req: ExpressRequest, type: SubjectType) => {
+    const [sessionId, secret] = String(req.cookies?.[REFRESH_COOKIE[type]] || '').split('.');
+    return sessionId && secret ? { sessionId, secret } : null;
+};
+
+// --- Two-Factor Authentication ---
+// Admins with an authenticator enrolled, or whose role requires one, get a
+// short-lived `two_factor` challenge token instead of a session after the
+// password check. Completing it with a TOTP or recovery code opens the session.
+
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+/** Admin account fields safe to return to the client. */
+const toAdminProfile = (user: any) => redactRow({ id: user.id, email: user.email, type: 'admin' }, 'admin_users', user);
+
+/** Whether the platform role or any per-event role of the account requires 2FA. */
+const roleRequiresTwoFactor = async (user: any) => {
+    const roleIds = [user.roleId, ...Object.values(user.eventRoles || {})].filter(Boolean);
+    if (roleIds.length === 0) return false;
+    const roles = await db.query('roles', { where: { id: roleIds } });
+    return roles.some((role: any) => !!role.requireTwoFactor);
+};
+
+/** Opens an admin session and builds the login response. */
+const finishAdminLogin = async (req: ExpressRequest, res: Response, user: any) => {
+    const { permissions, eventPermissions } = await adminPermissions(user);
+    const token = await startSession(req, res, { id: user.id, email: user.email, type: 'admin', permissions, eventPermissions });
+    return { token, user: { ...toAdminProfile(user), permissions, eventPermissions } };
+};
+
+/** Stores a fresh set of recovery codes (hashed) and returns the plain codes to show once. */
+const issueRecoveryCodes = async (userId: string) => {
+    const codes = generateRecoveryCodes();
+    await db.update('admin_users', userId, { recoveryCodes: codes.map(c => hashAuthToken(normalizeRecoveryCode(c))) });
+    return codes;
+};
+
+/** Generates a secret that becomes active only once a code from it is confirmed. */
+const beginTwoFactorSetup = async (user: any) => {
+    const secret = generateTotpSecret();
+    await db.update('admin_users', user.id, { pendingTotpSecret: secret });
+    const config = await getEventConfig(DEFAULT_EVENT_ID);
+    return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email, config.event.name || 'Event Platform') };
+};
+
+/** Activates the pending secret. Returns the new recovery codes, or null for a wrong code. */
+const confirmTwoFactorSetup = async (user: any, code: unknown) => {
+    if (!user.pendingTotpSecret) return null;
+    const step = await verifyTotp(user.pendingTotpSecret, String(code || ''));
+    if (step === null) return null;
+    await db.update('admin_users', user.id, {
+        totpSecret: user.pendingTotpSecret,
+        pendingTotpSecret: undefined,
+        totpLastStep: step,
+        twoFactorEnabled: true
+    });
+    return issueRecoveryCodes(user.id);
+};
+
+/** Accepts a current TOTP code or an unused recovery code. Either is spent on success. */
+const verifySecondFactor = async (user: any, code: unknown) => {
+    if (!user.totpSecret || typeof code !== 'string') return false;
+    const step = await verifyTotp(user.totpSecret, code, user.totpLastStep ?? -1);
+    if (step !== null) {
+        await db.update('admin_users', user.id, { totpLastStep: step });
+        return true;
+    }
+    const normalized = normalizeRecoveryCode(code);
+    const codes: string[] = user.recoveryCodes || [];
+    const hash = hashAuthToken(normalized);
+    if (!normalized || !codes.includes(hash)) return false;
+    await db.update('admin_users', user.id, { recoveryCodes: codes.filter(c => c !== hash) });
+    console.log(`🔐 Recovery code used by ${user.email} (${codes.length - 1} left)`);
+    return true;
+};
+
+const clearTwoFactor = (userId: string) => db.update('admin_users', userId, {
+    totpSecret: undefined,
+    pendingTotpSecret: undefined,
+    totpLastStep: undefined,
+    recoveryCodes: undefined,
+    twoFactorEnabled: false
+});
+
+// --- Auth Middleware ---
+
+/** Decoded payload of a valid access token whose session is still active, or null. */
+const verifyAccessToken = async (token: string): Promise<any | null> => {
+    let payload: any;
+    try {
+        payload = jwt.verify(token, JWT_SECRET);
+    } catch (e) {
+        return null;
+    }
+    // Tokens without a session predate session tracking and cannot be revoked.
+    const session = payload.sid ? await db.queryOne('auth_sessions', { id: payload.sid }) : null;
+    return isSessionActive(session) ? payload : null;
+};
+
+const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) return res.sendStatus(401);
+
+    let payload: any;
+    try {
+        payload = await verifyAccessToken(token);
+    } catch (e) {
+        return res.status(500).json({ error: (e as Error).message });
+    }
+    if (!payload) return res.sendStatus(401);
+    const { iat, exp, ...user } = payload;
+    const scoped = scopeToEvent(user, req.headers['x-event-id']);
+    if (!scoped) return res.sendStatus(403);
+    req.user = scoped;
+    next();
+};
+
+/**
+ * Admins choose the event a request acts within with the `X-Event-Id` header;
+ * without it they act across events with their platform-wide role. Delegates
+ * stay bound to the event of their session. Returns null for an event the
+ * admin has no role in.
+ */
+const scopeToEvent = (user: Principal, eventId: unknown): Principal | null => {
+    if (user.type !== 'admin' || typeof eventId !== 'string' || !eventId) return user;
+    return canAccessEvent(user, eventId) ? { ...user, eventId } : null;
+};
+
+const requireAdmin = (req: AuthRequest, res: Response) => {
+    if (req.user?.type === 'admin') return true;
+    res.sendStatus(403);
+    return false;
+};
+
+const requireAdminPermission = (req: AuthRequest, res: Response, permission: Permission, eventId = req.user?.eventId) => {
+    if (req.user?.type === 'admin' && permissionsIn(req.user, eventId).includes(permission)) return true;
+    res.sendStatus(403);
+    return false;
+};
+
+/** For platform-wide data such as admin accounts, which an event role does not reach. */
+const requirePlatformPermission = (req: AuthRequest, res: Response, permission: Permission) => {
+    if (req.user?.type === 'admin' && (req.user.permissions || []).includes(permission)) return true;
+    res.sendStatus(403);
+    return false;
+};
+
+// --- Socket.io Logic ---
+
+const connectedUsers = new Map<string, string>();
+
+// A socket carrying a valid access token (handshake `auth.token`, or a later
+// `sync:auth` after a refresh) receives `sync:changes` for rows it may read.
+// Admin sockets also send the selected `eventId`, as HTTP requests do.
+const authenticateSocket = async (socket: Socket, token: unknown, eventId?: unknown) => {
+    socket.data.user = undefined;
+    if (typeof token !== 'string' || !token) return;
+    try {
+        const payload = await verifyAccessToken(token);
+        if (!payload) return;
+        const { iat, exp, ...user } = payload;
+        const scoped = scopeToEvent(user, eventId);
+        if (!scoped) return;
+        socket.data.user = scoped;
+        socket.data.expiresAt = exp * 1000;
+    } catch (e) {
+        console.warn('Socket authentication failed', (e as Error).message);
+    }
+};
+
+/** Pushes a logged change to every connected client allowed to see it. */
+const publishChange = (change: ChangeLogEntry, row: any | null, previous: any | null) => {
+    for (const socket of io.sockets.sockets.values()) {
+        const user: Principal | undefined = socket.data.user;
+        if (!user || socket.data.expiresAt <= Date.now()) continue;
+        if (!canSeeChange(user, change.table, change.owners, change.events)) continue;
+
+        const changes: RowChanges = { [change.table]: { upserts: [], deletes: [] } };
+        if (row && authorize(user, change.table, 'read', row)) {
+            changes[change.table].upserts.push(redactRow(user, change.table, row));
+        } else if (previous && authorize(user, change.table, 'read', previous)) {
+            changes[change.table].deletes.push(change.rowId);
+        } else {
+            continue;
+        }
+        socket.emit('sync:changes', { changes });
+    }
+};
+
+db.onChange(publishChange);
+
+io.use(async (socket, next) => {
+    await authenticateSocket(socket, socket.handshake.auth?.token, socket.handshake.auth?.eventId);
+    next();
+});
+
+io.on('connection', (socket) => {
+  console.log('Client connected:', socket.id);
+
+  socket.on('sync:auth', (data) => {
+      authenticateSocket(socket, data?.token, data?.eventId);
+  });
+
+  socket.on('join', (room) => {
+    socket.join(room);
+  });
+
+  socket.on('auth:register', (data) => {
+      const { userId } = data;
+      if (userId) {
+          connectedUsers.set(userId, socket.id);
+      }
+  });
+
+  socket.on('signal', (data) => {
+    const { to, ...payload } = data;
+    let senderId = '';
+    for (let [uid, sid] of connectedUsers.entries()) {
+        if (sid === socket.id) {
+            senderId = uid;
+            break;
+        }
+    }
+
+    if (!senderId) {
+        return;
+    }
+
+    if (to) {
+        const targetSocketId = connectedUsers.get(to);
+        if (targetSocketId) {
+            io.to(targetSocketId).emit('signal', { ...payload, senderId });
+        }
+    }
+  });
+
+
+  socket.on('disconnect', () => {
+    for (let [uid, sid] of connectedUsers.entries()) {
+        if (sid === socket.id) {
+            connectedUsers.delete(uid);
+            break;
+        }
+    }
+  });
+});
+
+// --- API Routes ---
+
+app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', timestamp: Date.now() });
+});
+
+// Admin Login
+app.post('/api/auth/admin/login', async (req, res) => {
+    const { email, password } = req.body;
+    try {
+        const user = await db.findOne('admin_users', (u) => u.email === email);
+        if (user && await comparePass(password, user.password_hash)) {
+            if (user.totpSecret || await roleRequiresTwoFactor(user)) {
+                const challengeToken = await issueAuthToken('two_factor', { subjectType: 'admin', subjectId: user.id, email: user.email });
+                return res.json({ twoFactor: user.totpSecret ? 'verify' : 'setup', challengeToken });
+            }
+            res.json(await finishAdminLogin(req, res, user));
+        } else {
+            res.status(401).json({ error: 'Invalid credentials' });
+        }
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin Login, second step: enrolment for roles that require 2FA.
+app.post('/api/auth/admin/2fa/setup', async (req, res) => {
+    try {
+        const record = await findAuthToken(req.body.challengeToken, 'two_factor');
+        const user = record ? await db.queryOne('admin_users', { id: record.subjectId }) : null;
+        if (!user) return res.status(401).json({ error: 'This sign-in attempt has expired. Please log in again.' });
+        if (user.totpSecret) return res.status(409).json({ error: 'Two-factor authentication is already set up.' });
+        res.json(await beginTwoFactorSetup(user));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin Login, second step: a TOTP or recovery code (or the first code from a new enrolment).
+app.post('/api/auth/admin/2fa/verify', async (req, res) => {
+    const { challengeToken, code } = req.body;
+    try {
+        const record = await findAuthToken(challengeToken, 'two_factor');
+        const user = record ? await db.queryOne('admin_users', { id: record.subjectId }) : null;
+        if (!user) return res.status(401).json({ error: 'This sign-in attempt has expired. Please log in again.' });
+
+        const enrolling = !user.totpSecret;
+        const recoveryCodes = enrolling ? await confirmTwoFactorSetup(user, code) : null;
+        if (enrolling ? !recoveryCodes : !(await verifySecondFactor(user, code))) {
+            const attempts = (record.attempts || 0) + 1;
+            if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) await db.remove('auth_tokens', record.id);
+            else await db.update('auth_tokens', record.id, { attempts });
+            return res.status(401).json({ error: 'Invalid authentication code.' });
+        }
+        if (!(await consumeAuthToken(challengeToken, 'two_factor'))) {
+            return res.status(401).json({ error: 'This sign-in attempt has expired. Please log in again.' });
+        }
+
+        const fresh = await db.queryOne('admin_users', { id: user.id });
+        const login = await finishAdminLogin(req, res, fresh);
+        res.json(recoveryCodes ? { ...login, recoveryCodes } : login);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Delegate Login
+app.post('/api/auth/delegate/login', async (req, res) => {
+    const { eventId, email, password } = req.body;
+    try {
+        const user = await findDelegate(eventId, email);
+
+        // Delegates without a password (admin-created, imported) sign in by magic link instead.
+        if (user && user.password_hash && password && await comparePass(password, user.password_hash)) {
+            const token = await startSession(req, res, { id: user.id, email: user.email, type: 'delegate', eventId: eventId || user.eventId });
+            res.json({ token, user: { ...user, password_hash: undefined } });
+        } else {
+            res.status(401).json({ error: 'Invalid credentials' });
+        }
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Magic Link: request. Answers the same whether or not the email is registered.
+app.post('/api/auth/delegate/magic-link', async (req, res) => {
+    const { eventId, email } = req.body;
+    try {
+        const user = await findDelegate(eventId, email);
+        if (user) {
+            const token = await issueAuthToken('magic_link', { subjectType: 'delegate', subjectId: user.id, email: user.email, eventId });
+            const config = await getEventConfig(eventId);
+            const link = `${appUrl(req)}/${eventId}?magicToken=${token}`;
+            try {
+                await sendEmail(config, user.email, `Your sign-in link for ${config.event.name}`, `
+                    <p>Hi ${escapeHtml(user.name || 'there')},</p>
+                    <p>Use the link below to sign in to the delegate portal. It can be used once and expires in 15 minutes.</p>
+                    <p><a href="${link}">${link}</a></p>
+                    <p>If you did not request this, you can ignore this email.</p>
+                `, eventId);
+            } catch (emailErr) {
+                console.error("Failed to send magic link:", emailErr);
+            }
+        }
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Magic Link: sign in
+app.post('/api/auth/delegate/magic-link/verify', async (req, res) => {
+    try {
+        const record = await consumeAuthToken(req.body.token, 'magic_link');
+        const user = record ? await db.queryOne('registrations', { id: record.subjectId }) : null;
+        if (!user) return res.status(401).json({ error: 'This sign-in link is invalid or has expired.' });
+
+        const token = await startSession(req, res, { id: user.id, email: user.email, type: 'delegate', eventId: record.eventId || user.eventId });
+        res.json({ token, user: { ...user, password_hash: undefined } });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Session Refresh: trades the refresh cookie for a new access token and rotates the cookie.
+app.post('/api/auth/refresh', async (req, res) => {
+    const type: SubjectType = req.body?.type === 'admin' ? 'admin' : 'delegate';
+    const cookie = readRefreshCookie(req, type);
+    const reject = () => {
+        res.clearCookie(REFRESH_COOKIE[type], refreshCookieOptions());
+        res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    };
+    try {
+        const session = cookie ? await db.queryOne('auth_sessions', { id: cookie.sessionId }) : null;
+        if (!isSessionActive(session) || session.subjectType !== type) return reject();
+
+        const presented = hashAuthToken(cookie!.secret);
+        const now = Date.now();
+        if (presented !== session.refreshTokenHash) {
+            const isPrevious = presented === session.previousRefreshTokenHash;
+            if (isPrevious && now - session.rotatedAt < REFRESH_REUSE_GRACE) {
+                // A concurrent refresh already rotated the cookie; just mint an access token.
+                const claims = await sessionClaims(session);
+                return claims ? res.json({ token: signAccessToken(claims, session.id) }) : reject();
+            }
+            if (isPrevious) {
+                // A rotated-out token came back: assume it leaked and end the session.
+                await db.update('auth_sessions', session.id, { revokedAt: now, revokedReason: 'refresh_token_reuse' });
+                console.warn(`🚨 Refresh token reuse detected for ${session.subjectType} ${session.email}; session revoked.`);
+            }
+            return reject();
+        }
+
+        const claims = await sessionClaims(session);
+        if (!claims) {
+            await db.update('auth_sessions', session.id, { revokedAt: now, revokedReason: 'account_removed' });
+            return reject();
+        }
+
+        const nextSecret = crypto.randomBytes(32).toString('hex');
+        await db.update('auth_sessions', session.id, {
+            refreshTokenHash: hashAuthToken(nextSecret),
+            previousRefreshTokenHash: presented,
+            rotatedAt: now,
+            lastUsedAt: now
+        });
+        res.cookie(REFRESH_COOKIE[type], `${session.id}.${nextSecret}`, refreshCookieOptions(session.expiresAt - now));
+        res.json({ token: signAccessToken(claims, session.id) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Logout: ends the session behind this browser's refresh cookie.
+app.post('/api/auth/logout', async (req, res) => {
+    const type: SubjectType = req.body?.type === 'admin' ? 'admin' : 'delegate';
+    const cookie = readRefreshCookie(req, type);
+    try {
+        const session = cookie ? await db.queryOne('auth_sessions', { id: cookie.sessionId }) : null;
+        const hash = cookie ? hashAuthToken(cookie.secret) : '';
+        if (isSessionActive(session) && (hash === session.refreshTokenHash || hash === session.previousRefreshTokenHash)) {
+            await db.update('auth_sessions', session.id, { revokedAt: Date.now(), revokedReason: 'logout' });
+        }
+        res.clearCookie(REFRESH_COOKIE[type], refreshCookieOptions());
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Sign out everywhere: ends every session of the calling account, including this one.
+app.post('/api/auth/logout-all', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+        const revoked = await revokeSessions({ subjectType: req.user!.type, subjectId: req.user!.id }, 'logout_all');
+        res.clearCookie(REFRESH_COOKIE[req.user!.type], refreshCookieOptions());
+        res.json({ success: true, revoked });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/auth/sessions', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+        const sessions = await db.query('auth_sessions', {
+            where: { subjectType: req.user!.type, subjectId: req.user!.id, revokedAt: null },
+            orderBy: 'lastUsedAt', order: 'desc'
+        });
+        res.json(sessions.filter(isSessionActive).map((s: any) => toSessionSummary(s, req.user!.sid)));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Admin session management (admin accounts only; delegates manage their own).
+app.get('/api/admin/users/:userId/sessions', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requirePlatformPermission(req, res, 'manage_users')) return;
+    try {
+        const sessions = await db.query('auth_sessions', {
+            where: { subjectType: 'admin', subjectId: req.params.userId, revokedAt: null },
+            orderBy: 'lastUsedAt', order: 'desc'
+        });
+        res.json(sessions.filter(isSessionActive).map((s: any) => toSessionSummary(s, req.user!.sid)));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/admin/users/:userId/sessions', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requirePlatformPermission(req, res, 'manage_users')) return;
+    try {
+        const revoked = await revokeSessions({ subjectType: 'admin', subjectId: req.params.userId }, `revoked_by:${req.user!.id}`);
+        res.json({ success: true, revoked });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/admin/sessions/:sessionId', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requirePlatformPermission(req, res, 'manage_users')) return;
+    try {
+        const session = await db.queryOne('auth_sessions', { id: req.params.sessionId });
+        if (!session || session.subjectType !== 'admin') return res.status(404).json({ error: 'Session not found' });
+        if (!session.revokedAt) {
+            await db.update('auth_sessions', session.id, { revokedAt: Date.now(), revokedReason: `revoked_by:${req.user!.id}` });
+        }
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Two-Factor Authentication: self-service for the signed-in admin.
+app.get('/api/admin/2fa', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.user!.id });
+        if (!user) return res.sendStatus(404);
+        res.json({
+            enabled: !!user.totpSecret,
+            required: await roleRequiresTwoFactor(user),
+            recoveryCodesRemaining: (user.recoveryCodes || []).length
+        });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/2fa/setup', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.user!.id });
+        if (!user) return res.sendStatus(404);
+        if (user.totpSecret) return res.status(409).json({ error: 'Two-factor authentication is already set up.' });
+        res.json(await beginTwoFactorSetup(user));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/2fa/enable', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.user!.id });
+        if (!user) return res.sendStatus(404);
+        const recoveryCodes = await confirmTwoFactorSetup(user, req.body.code);
+        if (!recoveryCodes) return res.status(400).json({ error: 'Invalid authentication code.' });
+        console.log(`🔐 Two-factor authentication enabled for ${user.email}`);
+        res.json({ recoveryCodes });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/2fa/recovery-codes', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.user!.id });
+        if (!user || !(await verifySecondFactor(user, req.body.code))) {
+            return res.status(400).json({ error: 'Invalid authentication code.' });
+        }
+        res.json({ recoveryCodes: await issueRecoveryCodes(user.id) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/2fa/disable', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.user!.id });
+        if (!user) return res.sendStatus(404);
+        if (await roleRequiresTwoFactor(user)) {
+            return res.status(403).json({ error: 'Your role requires two-factor authentication.' });
+        }
+        if (!(await verifySecondFactor(user, req.body.code))) {
+            return res.status(400).json({ error: 'Invalid authentication code.' });
+        }
+        await clearTwoFactor(user.id);
+        console.log(`🔓 Two-factor authentication disabled for ${user.email}`);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// For admins who lost their authenticator and recovery codes. They enrol again at next login if required.
+app.delete('/api/admin/users/:userId/2fa', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requirePlatformPermission(req, res, 'manage_users')) return;
+    try {
+        const user = await db.queryOne('admin_users', { id: req.params.userId });
+        if (!user) return res.status(404).json({ error: 'User not found' });
+        await clearTwoFactor(user.id);
+        await revokeSessions({ subjectType: 'admin', subjectId: user.id }, `two_factor_reset_by:${req.user!.id}`);
+        console.log(`🔓 Two-factor authentication reset for ${user.email} by ${req.user!.email}`);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Password Reset: request a link. Answers the same whether or not the account exists.
+app.post('/api/auth/password-reset/request', async (req, res) => {
+    const { accountType, email, eventId } = req.body;
+    try {
+        const subjectType = accountType === 'admin' ? 'admin' : 'delegate';
+        const account = subjectType === 'admin'
+            ? (email ? await db.findOne('admin_users', (u) => u.email === email) : null)
+            : await findDelegate(eventId, email);
+
+        if (account) {
+            const linkEventId = eventId || account.eventId || DEFAULT_EVENT_ID;
+            const token = await issueAuthToken('password_reset', { subjectType, subjectId: account.id, email: account.email, eventId: linkEventId });
+            const config = await getEventConfig(linkEventId);
+            const resetLink = `${appUrl(req)}/${linkEventId}?resetToken=${token}`;
+            try {
+                let content;
+                try {
+                    content = await generatePasswordResetEmail(config as any, resetLink);
+                } catch (aiErr) {
+                    content = renderTemplate(config.emailTemplates.passwordReset, {
+                        eventName: config.event.name, hostName: config.host.name, resetLink
+                    });
+                }
+                await sendEmail(config, account.email, content.subject, content.body, linkEventId);
+            } catch (emailErr) {
+                console.error("Failed to send password reset email:", emailErr);
+            }
+        }
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Password Reset: check a link before showing the form
+app.post('/api/auth/password-reset/verify', async (req, res) => {
+    try {
+        const record = await findAuthToken(req.body.token, 'password_reset');
+        if (!record) return res.status(404).json({ error: 'This reset link is invalid or has expired.' });
+        res.json({ email: record.email, accountType: record.subjectType, eventId: record.eventId });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Password Reset: set the new password
+app.post('/api/auth/password-reset/confirm', async (req, res) => {
+    const { token, password } = req.body;
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+    }
+    try {
+        const record = await consumeAuthToken(token, 'password_reset');
+        if (!record) return res.status(400).json({ error: 'This reset link is invalid or has expired.' });
+
+        const table = record.subjectType === 'admin' ? 'admin_users' : 'registrations';
+        const updated = await db.update(table, record.subjectId, { password_hash: await bcrypt.hash(password, 10) });
+        if (!updated) return res.status(400).json({ error: 'This reset link is invalid or has expired.' });
+
+        // Other reset links sent to this account are stale now.
+        const stale = await db.query('auth_tokens', { where: { subjectId: record.subjectId, purpose: 'password_reset' } });
+        await Promise.all(stale.map((t: any) => db.remove('auth_tokens', t.id)));
+
+        // Anyone holding the old password may still be signed in.
+        await revokeSessions({ subjectType: record.subjectType, subjectId: record.subjectId }, 'password_reset');
+
+        console.log(`🔑 Password reset for ${record.subjectType} ${record.email}`);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Invitations: the invitee registers (and picks a password) through the emailed link.
+app.post('/api/admin/invitations', authenticateToken, async (req: AuthRequest, res) => {
+    const { eventId, email, name } = req.body;
+    if (!requireAdminPermission(req, res, 'send_invitations', eventId)) return;
+    if (!eventId || !email || !/\S+@\S+\.\S+/.test(email)) {
+        return res.status(400).json({ error: 'A valid email address is required.' });
+    }
+    try {
+        if (await findDelegate(eventId, email)) {
+            return res.status(409).json({ error: 'This email is already registered for the event.' });
+        }
+        const token = await issueAuthToken('invite', { subjectType: 'delegate', email, eventId, name, invitedBy: req.user!.id });
+        const config = await getEventConfig(eventId);
+        const inviteLink = `${appUrl(req)}/${eventId}?inviteToken=${token}`;
+
+        let content;
+        try {
+            content = await generateDelegateInvitationEmail(config as any, config.host.name, inviteLink);
+        } catch (aiErr) {
+            content = renderTemplate(config.emailTemplates.delegateInvitation, {
+                eventName: config.event.name, hostName: config.host.name, inviterName: config.host.name, inviteLink
+            });
+        }
+        await sendEmail(config, email, content.subject, content.body, eventId);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/invitations/:token', async (req, res) => {
+    try {
+        const invite = await findAuthToken(req.params.token, 'invite');
+        if (!invite) return res.status(404).json({ error: 'This invitation is invalid or has expired.' });
+        res.json({ eventId: invite.eventId, inviteeEmail: invite.email, name: invite.name });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Register
+app.post('/api/events/:eventId/register', async (req, res) => {
+    const { eventId } = req.params;
+    // Status, offers and the ticket's history are decided here, never taken from the client.
+    const { password, inviteToken, seatToken, ...answers } = req.body;
+    const data = withoutServerFields(answers);
+    if (typeof data.email === 'string') data.email = normalizeEmail(data.email);
+    
+    try {
+        if (!(await db.queryOne('events', { id: eventId }))) {
+            return res.status(404).json({ success: false, message: 'Event not found.' });
+        }
+        // A claimed group seat decides the ticket tier.
+        const seatClaim = seatToken ? await findAuthToken(seatToken, 'group_seat') : null;
+        const seatGroup: RegistrationGroup | null = seatClaim ? await db.queryOne('registration_groups', { id: seatClaim.subjectId }) : null;
+        const seat = seatGroup?.seats.find(s => s.id === seatClaim.seatId);
+        if (seatToken && (!seat || seatClaim.eventId !== eventId || seatClaim.email.toLowerCase() !== String(data.email).toLowerCase())) {
+            return res.json({ success: false, message: 'This seat link is invalid or has expired.' });
+        }
+        if (seat) data.ticketTierId = seat.ticketTierId;
+        // Custom fields are checked here as well as in the form; answers to hidden fields are dropped.
+        const { errors, hidden } = checkFormAnswers((await getEventConfig(eventId)).formFields || [], data);
+        if (Object.keys(errors).length > 0) {
+            return res.json({ success: false, message: Object.values(errors)[0], errors });
+        }
+        hidden.forEach(id => delete data[id]);
+
+        const existing = await findDelegate(eventId, data.email);
+        if (existing) {
+            return res.json({ success: false, message: 'Email already registered.' });
+        }
+
+        const invite = inviteToken ? await findAuthToken(inviteToken, 'invite') : null;
+        if (inviteToken && (!invite || invite.eventId !== eventId || normalizeEmail(invite.email) !== normalizeEmail(data.email))) {
+            return res.json({ success: false, message: 'This invitation link is invalid or has expired.' });
+        }
+        if (password !== undefined && password !== '' && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+            return res.json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+        }
+        
+        const newUser = {
+            ...data,
+            id: `reg_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            eventId,
+            createdAt: Date.now(),
+            ...(password ? { password_hash: await bcrypt.hash(password, 10) } : {}),
+            ...(invite ? { invitedBy: invite.invitedBy } : {})
+        };
+        const config = await oneAtATime(capacityKey(eventId), async () => {
+            const seating = await eventSeating(eventId);
+            if (seat) {
+                // The seat has been held since the group was bought, so it needs no room of its own.
+                const group: RegistrationGroup | null = await db.queryOne('registration_groups', { id: seatGroup!.id });
+                const current = group?.seats.find(s => s.id === seat.id);
+                if (!group || current?.status !== 'invited' || current.attendeeEmail?.toLowerCase() !== String(data.email).toLowerCase()) {
+                    return 'This seat has been given to someone else.';
+                }
+                newUser.status = 'confirmed';
+                newUser.groupId = group.id;
+                await db.insert('registrations', newUser);
+                await db.update('registration_groups', group.id, {
+                    seats: group.seats.map(s => s.id === seat.id ? { ...s, status: 'claimed', claimedAt: Date.now(), registrationId: newUser.id } : s)
+                });
+                return seating.config;
+            }
+            newUser.status = admissionStatus(newUser.ticketTierId, seating.registrations, seating.config, seating.tiers, Date.now(), seating.held);
+            // A paid seat is bought through checkout; only a place on its waitlist is free.
+            if (newUser.status === 'confirmed' && needsPayment(seating.tiers, newUser.ticketTierId)) {
+                return 'This ticket has to be paid for at checkout.';
+            }
+            await db.insert('registrations', newUser);
+            return seating.config;
+        });
+        if (typeof config === 'string') return res.json({ success: false, message: config });
+        if (invite) await db.remove('auth_tokens', invite.id);
+        if (seatClaim) await db.remove('auth_tokens', seatClaim.id);
+
+        const publicUser = { ...newUser, password_hash: undefined };
+        if (newUser.status === 'waitlist') {
+            const { position, total } = waitlistStanding(newUser, await db.query('registrations', { where: { eventId, status: 'waitlist' } }));
+            return res.json({ success: true, user: publicUser, waitlist: { position, total } });
+        }
+        await sendRegistrationEmails(newUser, config, appUrl(req));
+        res.json({ success: true, user: publicUser });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Uploads for file fields on the public registration form. The field decides
+// what is accepted; the file is kept only if it passes.
+const formUpload = multer({ dest: UPLOADS_DIR, limits: { fileSize: MAX_FORM_FILE_MB * 1024 * 1024, files: 1 } });
+app.post('/api/events/:eventId/register/files', (req, res) => {
+    formUpload.single('file')(req, res, async (err: unknown) => {
+        if (err) {
+            const tooLarge = (err as { code?: string }).code === 'LIMIT_FILE_SIZE';
+            return res.status(400).json({ error: tooLarge ? `Files can be at most ${MAX_FORM_FILE_MB} MB.` : (err as Error).message });
+        }
+        const file = req.file;
+        if (!file) return res.status(400).json({ error: 'No file uploaded' });
+        const reject = (error: string) => {
+            fs.promises.unlink(file.path).catch(() => {});
+            res.status(400).json({ error });
+        };
+        try {
+            if (!(await db.queryOne('events', { id: req.params.eventId }))) return reject('Event not found.');
+            const config = await getEventConfig(req.params.eventId);
+            const field = ((config.formFields || []) as FormField[]).find(f => f.id === req.body.fieldId && f.type === 'file' && f.enabled);
+            if (!field) return reject('This form has no such upload field.');
+            if (!acceptsFile(field, file.originalname, file.mimetype)) return reject(`${field.label} does not accept this type of file.`);
+            if (file.size > maxFileBytes(field)) return reject(`${field.label} can be at most ${maxFileBytes(field) / (1024 * 1024)} MB.`);
+            res.json({ url: `/uploads/${file.filename}`, name: file.originalname });
+        } catch (e) {
+            reject((e as Error).message);
+        }
+    });
+});
+
+// Waitlist: where the signed-in delegate stands, and their answer to an offer.
+app.get('/api/delegate/waitlist', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        const registration = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const waiting = await db.query('registrations', { where: { eventId: registration.eventId || DEFAULT_EVENT_ID, status: 'waitlist' } });
+        res.json(waitlistStanding(registration, waiting));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/delegate/waitlist/:action', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    const { action } = req.params;
+    if (action !== 'accept' && action !== 'decline') return res.sendStatus(404);
+    try {
+        const registration = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const eventId = registration.eventId || DEFAULT_EVENT_ID;
+        if (action === 'accept') return res.json(await acceptWaitlistOffer(registration.id, eventId, appUrl(req)));
+
+        if (registration.status !== 'waitlist') return res.status(400).json({ error: 'You are not on the waitlist.' });
+        await db.update('registrations', registration.id, { status: 'cancelled' });
+        await fillOpenSeats(eventId, appUrl(req));
+        res.json({ success: true, message: 'You have left the waitlist.' });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Waitlist: claim an offered seat through the emailed link, without signing in.
+app.post('/api/waitlist/accept', async (req, res) => {
+    try {
+        const offer = await findAuthToken(req.body.token, 'waitlist_offer');
+        if (!offer) return res.status(404).json({ success: false, message: 'This offer link is invalid or has expired.' });
+        const result = await acceptWaitlistOffer(offer.subjectId, offer.eventId, appUrl(req));
+        // A paid seat keeps the link usable until the offer runs out, in case the payment is abandoned.
+        if (result.success && !('order' in result)) await db.remove('auth_tokens', offer.id);
+        res.json(result);
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Group orders: bought on the public page, then managed through the purchaser's
+// emailed link. Prices and capacity are decided here from the tiers on sale.
+app.post('/api/events/:eventId/groups', async (req, res) => {
+    const { eventId } = req.params;
+    const { purchaserName, purchaserEmail, company } = req.body;
+    const items: GroupOrderItem[] = (Array.isArray(req.body.items) ? req.body.items : [])
+        .map((item: any) => ({ ticketTierId: String(item?.ticketTierId), quantity: Number(item?.quantity) }));
+    if (typeof purchaserName !== 'string' || !purchaserName.trim()) {
+        return res.json({ success: false, message: 'Your name is required.' });
+    }
+    if (typeof purchaserEmail !== 'string' || !/\S+@\S+\.\S+/.test(purchaserEmail)) {
+        return res.json({ success: false, message: 'A valid email address is required.' });
+    }
+    try {
+        if (!(await db.queryOne('events', { id: eventId }))) {
+            return res.status(404).json({ success: false, message: 'Event not found.' });
+        }
+        const result = await oneAtATime(capacityKey(eventId), async () => {
+            const seating = await eventSeating(eventId);
+            const quote = priceGroupOrder(items, seating.tiers);
+            if (typeof quote === 'string') return quote;
+            if (quote.total > 0) return 'Paid seats are bought through checkout.';
+            if (!roomForSeats(newGroupSeats(items.filter(item => item.quantity > 0)), seating.registrations, seating.config, seating.tiers, Date.now(), seating.held)) {
+                return 'There are not enough seats left for this order.';
+            }
+            return bookGroup(eventId, { purchaserName, purchaserEmail, company }, items, quote, seating.tiers);
+        });
+        if (typeof result === 'string') return res.json({ success: false, message: result });
+
+        const manageToken = await sendGroupManageLink(result, appUrl(req));
+        res.json({ success: true, group: result, manageToken });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+app.get('/api/groups/manage/:token', async (req, res) => {
+    try {
+        const link = await findAuthToken(req.params.token, 'group_manage');
+        const group = link ? await db.queryOne('registration_groups', { id: link.subjectId }) : null;
+        if (!group) return res.status(404).json({ error: 'This link is invalid or has expired.' });
+        res.json(group);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/groups/manage/:token/seats', async (req, res) => {
+    const { seatId, name = '', email = '' } = req.body;
+    if (typeof name !== 'string' || typeof email !== 'string') return res.status(400).json({ error: 'Name and email must be text.' });
+    try {
+        const link = await findAuthToken(req.params.token, 'group_manage');
+        if (!link) return res.status(404).json({ error: 'This link is invalid or has expired.' });
+        const eventId = link.eventId || DEFAULT_EVENT_ID;
+        const result = await oneAtATime(capacityKey(eventId), async () => {
+            const group: RegistrationGroup | null = await db.queryOne('registration_groups', { id: link.subjectId });
+            if (!group) return 'This group no longer exists.';
+            const problem = seatAssignmentProblem(group, seatId, email);
+            if (problem) return problem;
+            if (email.trim() && await findDelegate(eventId, email.trim())) return `${email.trim()} is already registered for this event.`;
+            return assignGroupSeat(group, seatId, { name, email }, appUrl(req));
+        });
+        if (typeof result === 'string') return res.status(400).json({ error: result });
+        res.json(result);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// What the form is prefilled with when an attendee opens their seat link.
+app.get('/api/groups/claims/:token', async (req, res) => {
+    try {
+        const claim = await findAuthToken(req.params.token, 'group_seat');
+        const group: RegistrationGroup | null = claim ? await db.queryOne('registration_groups', { id: claim.subjectId }) : null;
+        const seat = group?.seats.find(s => s.id === claim.seatId);
+        if (!group || seat?.status !== 'invited') return res.status(404).json({ error: 'This seat link is invalid or has expired.' });
+        res.json({
+            eventId: claim.eventId, email: claim.email, name: claim.name, ticketTierId: seat.ticketTierId,
+            purchaserName: group.purchaserName, ...(group.company ? { company: group.company } : {})
+        });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Ticket transfers: the signed-in holder's pending handover and the ticket's
+// history, offering the ticket to someone, and taking the offer back.
+app.get('/api/delegate/ticket-transfer', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const pending = registration.pendingTransfer && registration.pendingTransfer.expiresAt >= Date.now() ? registration.pendingTransfer : null;
+        res.json({ pendingTransfer: pending, history: registration.transferHistory || [], rejection: transferRejection(registration) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/delegate/ticket-transfer', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    const { email, name = '' } = req.body;
+    if (typeof email !== 'string' || typeof name !== 'string') return res.status(400).json({ error: 'Name and email must be text.' });
+    try {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: req.user.id });
+        const eventId = registration?.eventId || DEFAULT_EVENT_ID;
+        const problem = transferRejection(registration)
+            || recipientProblem(registration!, email, await db.query('registrations', { where: { eventId } }));
+        if (problem) return res.status(400).json({ error: problem });
+
+        await dropTransferLinks(registration!.id!);
+        const pendingTransfer = newPendingTransfer({ email, name }, Date.now());
+        await db.update('registrations', registration!.id!, { pendingTransfer });
+        const token = await issueAuthToken('ticket_transfer', {
+            subjectType: 'delegate', subjectId: registration!.id, email: pendingTransfer.toEmail, eventId, name: pendingTransfer.toName
+        });
+        await sendTransferOffer(registration!, pendingTransfer, `${appUrl(req)}/${eventId}?acceptTransfer=${token}`, await getEventConfig(eventId));
+        res.json({ success: true, pendingTransfer });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/delegate/ticket-transfer', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        await dropTransferLinks(req.user.id);
+        await db.update('registrations', req.user.id, { pendingTransfer: null });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// What the form is prefilled with when the recipient opens their transfer link.
+app.get('/api/transfers/:token', async (req, res) => {
+    try {
+        const link = await findAuthToken(req.params.token, 'ticket_transfer');
+        const holder: RegistrationData | null = link ? await db.queryOne('registrations', { id: link.subjectId }) : null;
+        if (!holder || transferRejection(holder) || !holder.pendingTransfer) {
+            return res.status(404).json({ error: 'This transfer link is invalid or has expired.' });
+        }
+        res.json({ eventId: link.eventId, email: link.email, name: link.name, fromName: holder.name, ticketTierId: holder.ticketTierId });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// The recipient accepts with their registration form answers, like registering.
+app.post('/api/transfers/:token/accept', async (req, res) => {
+    // The ticket, its status and its history come from the holder's registration.
+    const { password, ...answers } = req.body;
+    const data = withoutServerFields(answers);
+    try {
+        const link = await findAuthToken(req.params.token, 'ticket_transfer');
+        if (!link || link.email.toLowerCase() !== String(data.email).toLowerCase()) {
+            return res.json({ success: false, message: 'This transfer link is invalid or has expired.' });
+        }
+        const eventId = link.eventId || DEFAULT_EVENT_ID;
+        const holder: RegistrationData | null = await db.queryOne('registrations', { id: link.subjectId });
+        data.ticketTierId = holder?.ticketTierId;
+        const config = await getEventConfig(eventId);
+        const { errors, hidden } = checkFormAnswers(config.formFields || [], data);
+        if (Object.keys(errors).length > 0) {
+            return res.json({ success: false, message: Object.values(errors)[0], errors });
+        }
+        hidden.forEach(id => delete data[id]);
+        if (password !== undefined && password !== '' && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+            return res.json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+        }
+
+        const result = await completeTransfer(link.subjectId, eventId, {
+            ...data, ...(password ? { password_hash: await bcrypt.hash(password, 10) } : {})
+        });
+        if (typeof result === 'string') return res.json({ success: false, message: result });
+        await db.remove('auth_tokens', link.id);
+        await revokeSessions({ subjectType: 'delegate', subjectId: result.from.id }, 'ticket_transferred');
+        await sendRegistrationEmails(result.to, config, appUrl(req));
+        res.json({ success: true, user: { ...result.to, password_hash: undefined } });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Checkout for paid tickets: a registration, with the form answers the
+// register endpoint takes, or a group's seats, and optionally the buyer's
+// invoicing details. The cart is priced here.
+app.post('/api/events/:eventId/orders', async (req, res) => {
+    const { eventId } = req.params;
+    const { registration, group, inviteToken, discountCode } = req.body;
+    const billing = orderBillingFields(req.body.billing);
+    if (typeof billing === 'string') return res.json({ success: false, message: billing });
+    try {
+        if (!(await db.queryOne('events', { id: eventId }))) {
+            return res.status(404).json({ success: false, message: 'Event not found.' });
+        }
+        let fields: Pick<Order, 'kind' | 'email' | 'name' | 'details'>;
+        let items: GroupOrderItem[];
+        if (group) {
+            const { purchaserName, purchaserEmail, company } = group;
+            if (typeof purchaserName !== 'string' || !purchaserName.trim()) {
+                return res.json({ success: false, message: 'Your name is required.' });
+            }
+            if (typeof purchaserEmail !== 'string' || !/\S+@\S+\.\S+/.test(purchaserEmail)) {
+                return res.json({ success: false, message: 'A valid email address is required.' });
+            }
+            items = (Array.isArray(group.items) ? group.items : [])
+                .map((item: any) => ({ ticketTierId: String(item?.ticketTierId), quantity: Number(item?.quantity) }));
+            fields = {
+                kind: 'group', email: purchaserEmail.trim(), name: purchaserName.trim(),
+                details: { purchaserName, purchaserEmail, ...(company ? { company: String(company) } : {}) }
+            };
+        } else if (registration && typeof registration === 'object') {
+            // As on the register endpoint, the status and the ticket's history are decided here.
+            const { password, ...answers } = registration;
+            const data = withoutServerFields(answers);
+            if (typeof data.email === 'string') data.email = normalizeEmail(data.email);
+            const { errors, hidden } = checkFormAnswers((await getEventConfig(eventId)).formFields || [], data);
+            if (Object.keys(errors).length > 0) {
+                return res.json({ success: false, message: Object.values(errors)[0], errors });
+            }
+            hidden.forEach(id => delete data[id]);
+            if (await findDelegate(eventId, data.email)) {
+                return res.json({ success: false, message: 'Email already registered.' });
+            }
+            const invite = inviteToken ? await findAuthToken(inviteToken, 'invite') : null;
+            if (inviteToken && (!invite || invite.eventId !== eventId || normalizeEmail(invite.email) !== normalizeEmail(data.email))) {
+                return res.json({ success: false, message: 'This invitation link is invalid or has expired.' });
+            }
+            if (password !== undefined && password !== '' && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+                return res.json({ success: false, message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+            }
+            items = [{ ticketTierId: String(data.ticketTierId), quantity: 1 }];
+            fields = {
+                kind: 'registration', email: String(data.email).trim(), name: String(data.name || '').trim(),
+                details: {
+                    ...data,
+                    ...(invite ? { invitedBy: invite.invitedBy } : {}),
+                    ...(password ? { password_hash: await bcrypt.hash(password, 10) } : {})
+                }
+            };
+        } else {
+            return res.status(400).json({ success: false, message: 'Nothing to order.' });
+        }
+
+        const placed = await oneAtATime(capacityKey(eventId), async () => {
+            const seating = await eventSeating(eventId);
+            let redemption;
+            if (discountCode) {
+                const code = await findDiscountCode(eventId, discountCode);
+                const pending: Order[] = code ? await db.query('orders', { where: { eventId, status: 'pending' } }) : [];
+                redemption = { code, heldUses: code ? heldDiscountUses(pending, code.id) : 0 };
+            }
+            const order = newOrder({ id: `ord_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`, eventId, ...fields, ...(billing ? { billing } : {}) }, items, seating.tiers, Date.now(), redemption);
+            if (typeof order === 'string') return order;
+            const fits = order.kind === 'group'
+                ? roomForSeats(newGroupSeats(order.items), seating.registrations, seating.config, seating.tiers, Date.now(), seating.held)
+                : admissionStatus(order.items[0].ticketTierId, seating.registrations, seating.config, seating.tiers, Date.now(), seating.held) === 'confirmed';
+            if (!fits) return null;
+            return db.insert('orders', order) as Promise<Order>;
+        });
+        if (typeof placed === 'string') return res.json({ success: false, message: placed });
+        if (!placed) {
+            // A full tier's waitlist is joined through the register endpoint, without paying.
+            return res.json({
+                success: false, soldOut: true,
+                message: fields.kind === 'group' ? 'There are not enough seats left for this order.' : 'This ticket is sold out.'
+            });
+        }
+
+        if (placed.total === 0) {
+            // The discount covered everything, so there is nothing to charge.
+            const result = await completeOrder(placed, appUrl(req));
+            const completed = result.order.fulfilmentError
+                ? { success: false, message: result.order.fulfilmentError }
+                : { success: true, user: result.registration && { ...result.registration, password_hash: undefined }, group: result.group, manageToken: result.manageToken };
+            return res.json({ success: true, order: publicOrder(result.order), completed: { ...completed, order: publicOrder(result.order) } });
+        }
+
+        const { order, clientSecret } = await placeOrderPayment(placed);
+        res.json({ success: true, order: publicOrder(order), clientSecret });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Previews a discount code on a cart of `items` (ticket tier and quantity),
+// priced as checkout would now. Checkout checks the code again.
+app.post('/api/events/:eventId/discounts/check', async (req, res) => {
+    const { eventId } = req.params;
+    const items: GroupOrderItem[] = (Array.isArray(req.body.items) ? req.body.items : [])
+        .map((item: any) => ({ ticketTierId: String(item?.ticketTierId), quantity: Number(item?.quantity) }));
+    try {
+        const tiers = await db.query('ticket_tiers', { where: { eventId } });
+        const now = Date.now();
+        const quote = priceGroupOrder(items, tiers, now);
+        if (typeof quote === 'string') return res.json({ success: false, message: quote });
+        const code = await findDiscountCode(eventId, req.body.code);
+        const pending: Order[] = code ? await db.query('orders', { where: { eventId, status: 'pending' } }) : [];
+        const discount = priceDiscount(code, pricedItems(items, tiers, now), now, code ? heldDiscountUses(pending, code.id, now) : 0);
+        if (typeof discount === 'string') return res.json({ success: false, message: discount });
+        res.json({ success: true, discount, subtotal: quote.total, total: Math.round((quote.total - discount.amount) * 100) / 100, currency: quote.currency });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Called by the checkout once the card payment has succeeded. Asking again
+// for an order that is already paid, or that the webhook has completed, does
+// no harm.
+app.post('/api/orders/:id/confirm', async (req, res) => {
+    try {
+        const order: Order | null = await db.queryOne('orders', { id: req.params.id });
+        const rejection = paymentRejection(order);
+        if (rejection) return res.json({ success: false, message: rejection });
+        if (!(await orderPaid(order!))) {
+            return res.json({ success: false, message: order!.status === 'cancelled' ? 'This order has been cancelled.' : 'The payment has not gone through yet.' });
+        }
+
+        const result = await completeOrder(order!, appUrl(req));
+        if (result.order.fulfilmentError) {
+            return res.json({ success: false, order: publicOrder(result.order), message: result.order.fulfilmentError });
+        }
+        if (result.registration) {
+            return res.json({ success: true, order: publicOrder(result.order), user: { ...result.registration, password_hash: undefined } });
+        }
+        if (result.group) {
+            return res.json({ success: true, order: publicOrder(result.order), group: result.group, manageToken: result.manageToken });
+        }
+        res.json({ success: true, order: publicOrder(result.order) });
+    } catch (e) {
+        res.status(500).json({ success: false, message: (e as Error).message });
+    }
+});
+
+// Gives up an unpaid order and the seats it holds.
+app.delete('/api/orders/:id', async (req, res) => {
+    try {
+        const order: Order | null = await db.queryOne('orders', { id: req.params.id });
+        if (!order) return res.sendStatus(404);
+        if (order.status !== 'pending') return res.status(409).json({ error: 'This order can no longer be cancelled.' });
+        if (STRIPE_ENABLED && order.paymentIntentId) {
+            // Stripe refuses to cancel a payment that has already succeeded.
+            try {
+                await stripe.paymentIntents.cancel(order.paymentIntentId);
+            } catch (e) {
+                return res.status(409).json({ error: 'This order has already been paid.' });
+            }
+        }
+        await db.update('orders', order.id, { status: 'cancelled' });
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Stripe's webhook. The body is checked against STRIPE_WEBHOOK_SECRET before
+// anything in it is believed. Answering with an error makes Stripe retry.
+app.post('/api/payments/webhook', async (req, res) => {
+    if (!STRIPE_WEBHOOK_SECRET) return res.status(503).json({ error: 'Payment webhooks are not configured.' });
+    const payload = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const problem = await webhookSignatureProblem(payload, String(req.headers['stripe-signature'] || ''), STRIPE_WEBHOOK_SECRET);
+    if (problem) return res.status(400).json({ error: problem });
+    let event: StripeEvent;
+    try {
+        event = JSON.parse(payload);
+    } catch (e) {
+        return res.status(400).json({ error: 'Invalid JSON.' });
+    }
+    if (typeof event?.id !== 'string' || typeof event.type !== 'string') return res.status(400).json({ error: 'Not a Stripe event.' });
+    try {
+        res.json({ received: true, ...(await handlePaymentEvent(event, appUrl(req))) });
+    } catch (e) {
+        console.error(`Stripe event ${event.id} failed`, e);
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Cancel a registration: the delegate's own, or any in the event for registration managers.
+// A freed seat goes to the waitlist.
+app.post('/api/registrations/cancel', authenticateToken, async (req: AuthRequest, res) => {
+    const { id } = req.body;
+    try {
+        const registration = await db.queryOne('registrations', { id });
+        if (!registration) return res.status(404).json({ error: 'Registration not found.' });
+        const eventId = registration.eventId || DEFAULT_EVENT_ID;
+        if (req.user?.type === 'delegate') {
+            if (req.user.id !== registration.id) return res.sendStatus(403);
+        } else if (!requireAdminPermission(req, res, 'manage_registrations', eventId)) {
+            return;
+        }
+        if (registration.status === 'cancelled') return res.json({ success: true, message: 'Already cancelled.' });
+
+        const booking = await cancelBooking(registration, appUrl(req));
+        if (typeof booking === 'string') return res.status(400).json({ error: booking });
+        const { refund, currency, offered } = booking;
+        const message = [
+            'Cancelled.',
+            refund ? `${refund.amount} ${currency} will be refunded to the card it was paid with.` : '',
+            offered ? `The seat was offered to the next ${offered === 1 ? 'person' : `${offered} people`} on the waitlist.` : ''
+        ].filter(Boolean).join(' ');
+        res.json({ success: true, message, refund });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// What cancelling now would refund the signed-in delegate under their tier's
+// policy, and the order that paid for their ticket with its refunds.
+app.get('/api/delegate/cancellation', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const [order, tier] = await Promise.all([
+            registration.orderId ? db.queryOne('orders', { id: registration.orderId }) : null,
+            registration.ticketTierId ? db.queryOne('ticket_tiers', { id: registration.ticketTierId }) : null
+        ]);
+        res.json({
+            policy: tier?.cancellationPolicy || [],
+            refund: cancellationRefund(order, tier),
+            currency: order?.currency || tier?.currency,
+            order: order ? publicOrder(order) : null
+        });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// The orders behind a registration, with their refunds: its own, and its group's.
+app.get('/api/admin/registrations/:id/orders', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: req.params.id });
+        if (!registration) return res.status(404).json({ error: 'Registration not found.' });
+        if (!requireAdminPermission(req, res, 'manage_registrations', registration.eventId || DEFAULT_EVENT_ID)) return;
+        const orders: (Order | null)[] = await Promise.all([
+            registration.orderId ? db.queryOne('orders', { id: registration.orderId }) : null,
+            registration.groupId ? db.queryOne('orders', { groupId: registration.groupId }) : null
+        ]);
+        res.json({ orders: orders.filter((o): o is Order => !!o).map(publicOrder) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Refunds part or all of a paid order. With `cancelTicket`, what the order
+// bought is taken back as well and its seats go to the waitlist.
+app.post('/api/admin/orders/:id/refund', authenticateToken, async (req: AuthRequest, res) => {
+    const { amount, note, cancelTicket } = req.body;
+    try {
+        const order: Order | null = await db.queryOne('orders', { id: req.params.id });
+        if (!order) return res.status(404).json({ error: 'Order not found.' });
+        if (!requireAdminPermission(req, res, 'manage_registrations', order.eventId)) return;
+        const refunded = await refundOrder(order.id, Number(amount), {
+            reason: 'admin', by: req.user!.email,
+            ...(typeof note === 'string' && note.trim() ? { note: note.trim().slice(0, 500) } : {})
+        });
+        if (typeof refunded === 'string') return res.status(400).json({ error: refunded });
+        if (cancelTicket === true) await revokeOrder(refunded, appUrl(req));
+        res.json({ success: true, order: publicOrder(refunded) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// The signed-in delegate's invoices: those of the orders they paid for, their
+// ticket, group purchases and EventCoins, newest first.
+app.get('/api/delegate/invoices', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        const registration: RegistrationData | null = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const eventId = registration.eventId || DEFAULT_EVENT_ID;
+        const [orders, invoices] = await Promise.all([
+            db.query('orders', { where: { eventId, email: registration.email, status: ['paid', 'refunded'] } }),
+            db.query('invoices', { where: { eventId, email: registration.email } })
+        ]);
+        const all = await issueMissingInvoices(orders, invoices);
+        res.json({ invoices: all.sort((a, b) => b.sequence - a.sequence) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Every invoice of the selected event, in number order, for accounting.
+app.get('/api/admin/invoices', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const eventId = req.user!.eventId || DEFAULT_EVENT_ID;
+    try {
+        const [orders, invoices] = await Promise.all([
+            db.query('orders', { where: { eventId, status: ['paid', 'refunded'] } }),
+            db.query('invoices', { where: { eventId } })
+        ]);
+        const all = await issueMissingInvoices(orders, invoices);
+        res.json({ invoices: all.sort((a, b) => a.sequence - b.sequence) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Discount codes of the selected event, with how much each has been used.
+app.get('/api/admin/discount-codes', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const eventId = req.user!.eventId || DEFAULT_EVENT_ID;
+    try {
+        const [codes, orders] = await Promise.all([
+            db.query('discount_codes', { where: { eventId }, orderBy: 'createdAt', order: 'asc' }),
+            db.query('orders', { where: { eventId, status: 'paid' } })
+        ]);
+        res.json({ codes, usage: discountUsage(codes, orders) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/discount-codes', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const fields = discountCodeFields(req.body);
+    if (typeof fields === 'string') return res.status(400).json({ error: fields });
+    const eventId = req.user!.eventId || DEFAULT_EVENT_ID;
+    try {
+        const clash: DiscountCode | null = await findDiscountCode(eventId, fields.code);
+        if (clash && clash.id !== req.body.id) return res.status(409).json({ error: 'Another discount code already uses this code.' });
+        let code;
+        if (req.body.id) {
+            const existing = await db.queryOne('discount_codes', { eventId, id: req.body.id });
+            if (!existing) return res.status(404).json({ error: 'Discount code not found.' });
+            code = await db.update('discount_codes', existing.id, fields);
+        } else {
+            code = await db.insert('discount_codes', {
+                id: `disc_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+                eventId,
+                used: 0,
+                createdAt: Date.now(),
+                ...fields
+            });
+        }
+        res.json({ code });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.delete('/api/admin/discount-codes/:id', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const code = await db.queryOne('discount_codes', { eventId: req.user!.eventId || DEFAULT_EVENT_ID, id: req.params.id });
+        if (!code) return res.sendStatus(404);
+        await db.remove('discount_codes', code.id);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Registration exports: saved definitions, downloads and deliveries.
+app.get('/api/admin/exports', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const definitions = await db.query('export_definitions', { where: eventScope(req.user!, 'export_definitions') || {} });
+        res.json({ definitions: readableRows(req.user!, 'export_definitions', definitions) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/exports', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const fields = exportDefinitionFields(req.body);
+    if (typeof fields === 'string') return res.status(400).json({ error: fields });
+    try {
+        let definition;
+        if (req.body.id) {
+            const existing = await db.queryOne('export_definitions', { ...eventScope(req.user!, 'export_definitions'), id: req.body.id });
+            if (!existing) return res.status(404).json({ error: 'Export not found.' });
+            definition = await db.update('export_definitions', existing.id, { ...fields, lastRunError: null });
+        } else {
+            definition = await db.insert('export_definitions', {
+                id: `export_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+                eventId: req.user!.eventId || DEFAULT_EVENT_ID,
+                createdBy: req.user!.id,
+                createdAt: Date.now(),
+                ...fields
+            });
+        }
+        res.json({ definition: redactRow(req.user!, 'export_definitions', definition) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Builds the file for a definition sent in the body, saved or not.
+app.post('/api/admin/exports/file', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const fields = exportDefinitionFields({ ...req.body, schedule: undefined });
+    if (typeof fields === 'string') return res.status(400).json({ error: fields });
+    try {
+        const file = await buildExportFile({ ...fields, eventId: req.user!.eventId || DEFAULT_EVENT_ID } as ExportDefinition);
+        res.setHeader('Content-Type', file.mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        res.send(Buffer.from(file.content));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Emails a saved export to its recipients now, outside its schedule.
+app.post('/api/admin/exports/:id/send', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const definition = await db.queryOne('export_definitions', { ...eventScope(req.user!, 'export_definitions'), id: req.params.id });
+        if (!definition) return res.status(404).json({ error: 'Export not found.' });
+        if (!definition.schedule?.recipients?.length) return res.status(400).json({ error: 'This export has no recipients.' });
+        await deliverExport(definition, definition.schedule.recipients);
+        res.json({ success: true, message: `Sent to ${definition.schedule.recipients.join(', ')}.` });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Registration import: a dry run returns the validation result of every row;
+// otherwise the import starts in the background and its job is returned.
+app.post('/api/admin/registrations/import', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const { rows, mapping, dryRun, notify } = req.body;
+    const firstRow = Number(req.body.firstRow) || 1;
+    if (!Array.isArray(rows) || !Array.isArray(mapping) || rows.some(r => !Array.isArray(r))) {
+        return res.status(400).json({ error: 'Rows and a column mapping are required.' });
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ error: `An import can hold at most ${MAX_IMPORT_ROWS} rows.` });
+    }
+    const problems = mappingErrors(mapping);
+    if (problems.length > 0) return res.status(400).json({ error: problems.join(' ') });
+    const eventId = req.user!.eventId || DEFAULT_EVENT_ID;
+    try {
+        if (dryRun) {
+            return res.json({ results: validateImportRows(rows, mapping, importContext(await eventSeating(eventId)), firstRow) });
+        }
+        const job: RegistrationImport = await db.insert('registration_imports', {
+            id: `import_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+            eventId,
+            createdBy: req.user!.id,
+            createdAt: Date.now(),
+            status: 'running',
+            total: rows.length,
+            processed: 0,
+            imported: 0,
+            waitlisted: 0,
+            failed: 0,
+            errors: [],
+            notify: !!notify
+        });
+        runRegistrationImport(job, rows, mapping, firstRow, appUrl(req));
+        res.json({ import: job });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/admin/registrations/import/:id', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const job = await db.queryOne('registration_imports', { ...eventScope(req.user!, 'registration_imports'), id: req.params.id });
+        if (!job) return res.status(404).json({ error: 'Import not found.' });
+        res.json({ import: job });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Tickets: public keys for offline verification, and the signed code for a delegate's pass.
+app.get('/api/tickets/keys', async (req, res) => {
+    try {
+        await getTicketSigningKey();
+        const keys = await db.findAll('ticket_keys');
+        res.json({ keys: keys.map(publicTicketKey) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/delegate/ticket', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
+    try {
+        const registration = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        if (registration.status === 'waitlist') {
+            return res.status(403).json({ error: 'You are on the waitlist. Your pass is issued once you have a seat.' });
+        }
+        if (registration.status === 'cancelled' || registration.ticketRevokedAt) {
+            return res.status(403).json({ error: 'This ticket is no longer valid.' });
+        }
+        res.json({ token: await issueTicket(registration) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Check-in: `{ ticket }` for a scanned code, or `{ registrationId }` for a manual
+// check-in from the dashboard. Adding `zoneId` (and `direction`, 'in' or 'out')
+// scans at a session's or room's door instead of the entrance. Answers with the
+// outcome and the recorded scan.
+app.post('/api/admin/checkin', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const { ticket, registrationId, zoneId, direction } = req.body;
+    if (typeof ticket !== 'string' && typeof registrationId !== 'string') {
+        return res.status(400).json({ error: "Missing 'ticket' or 'registrationId'." });
+    }
+    const eventId = req.user!.eventId || DEFAULT_EVENT_ID;
+    try {
+        let zoneScan: ZoneScan | undefined;
+        if (zoneId !== undefined) {
+            const zone = typeof zoneId === 'string' ? await findZone(eventId, zoneId) : null;
+            if (!zone) return res.status(404).json({ error: 'Zone not found.' });
+            zoneScan = { zone, direction: direction === 'out' ? 'out' : 'in' };
+        }
+        const method: CheckInRecord['method'] = typeof ticket === 'string' ? 'scan' : 'manual';
+        const decide = (id: string, task: () => Promise<ScanOutcome>) =>
+            oneAtATime(zoneScan ? `zone:${zoneScan.zone.id}` : id, async () => {
+                const outcome = await task();
+                return { outcome, checkIn: await recordCheckIn(adminScanner(req), eventId, method, outcome, zoneScan) };
+            });
+
+        let decided: { outcome: ScanOutcome; checkIn: CheckInRecord };
+        if (typeof ticket === 'string') {
+            await getTicketSigningKey();
+            const check = await verifyTicket(ticket, await db.findAll('ticket_keys'));
+            if (check.valid) {
+                decided = await decide(check.claims.r, async () => {
+                    const registration = await db.queryOne('registrations', { id: check.claims.r });
+                    return admitRegistration(registration, ticketRejection(check.claims, registration, eventId), zoneScan);
+                });
+            } else {
+                const outcome: ScanOutcome = { result: 'rejected', reason: check.reason };
+                decided = { outcome, checkIn: await recordCheckIn(adminScanner(req), eventId, method, outcome, zoneScan) };
+            }
+        } else {
+            decided = await decide(registrationId, async () => {
+                const registration = await db.queryOne('registrations', { ...eventScope(req.user!, 'registrations'), id: registrationId });
+                if (!registration) return { result: 'rejected', reason: 'Registration not found.' };
+                return admitRegistration(registration, registration.status === 'cancelled' ? 'This registration has been cancelled.' : null, zoneScan);
+            });
+        }
+        const { outcome, checkIn } = decided;
+        const user = outcome.registration ? redactRow(req.user!, 'registrations', outcome.registration) : undefined;
+        res.json({
+            success: outcome.result === 'admitted',
+            message: outcome.result === 'admitted' ? checkInMessage(user.name, zoneScan) : outcome.reason,
+            user,
+            checkIn
+        });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Zone occupancy: public, for projector screens outside the admin portal.
+app.get('/api/public/zones/:zoneId/occupancy', async (req, res) => {
+    try {
+        const scans = await db.query('check_ins', { where: { zoneId: req.params.zoneId, result: 'admitted' } });
+        res.json({ zoneId: req.params.zoneId, occupancy: zoneOccupancy(scans)[req.params.zoneId] || 0 });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Kiosk fleet: provisioning and status for admins.
+app.get('/api/admin/kiosks', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const kiosks = await db.query('kiosks', { where: eventScope(req.user!, 'kiosks') || {}, orderBy: 'createdAt' });
+        res.json({ kiosks: readableRows(req.user!, 'kiosks', kiosks) });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.post('/api/admin/kiosks', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim().slice(0, 100) : '';
+    if (!name) return res.status(400).json({ error: 'A kiosk name is required.' });
+    try {
+        const { pairingCode, changes } = await issuePairingCode();
+        const kiosk = await db.insert('kiosks', {
+            id: `kiosk_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+            eventId: req.user!.eventId || DEFAULT_EVENT_ID,
+            name,
+            createdAt: Date.now(),
+            createdBy: req.user!.id,
+            ...changes
+        });
+        res.json({ kiosk: redactRow(req.user!, 'kiosks', kiosk), pairingCode });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// A new pairing code unpairs the current device, e.g. to replace broken hardware.
+app.post('/api/admin/kiosks/:id/pairing', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdminPermission(req, res, 'manage_registrations')) return;
+    try {
+        const kiosk = await db.queryOne('kiosks', { ...eventScope(req.user!, 'kiosks'), id: req.params.id });
+        if (!kiosk) return res.status(404).json({ error: 'Kiosk not found.' });
+        const { pairingCode, changes } = await issuePairingCode();
+        const updated = await db.update('kiosks', kiosk.id, { ...changes, credentialHash: null, pairedAt: null });
+        res.json({ kiosk: redactRow(req.user!, 'kiosks', updated), pairingCode });
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Kiosk devices. Pairing is public; the code is the proof.
+app.post('/api/kiosk/pair', async (req, res) => {
+    if (typeof req.body.code !== 'string' || !req.body.code) return res.status(400).json({ error: "Missing 'code'." });
+    try {
+        const codeHash = await hashKioskSecret(normalizePairingCode(req.body.code));
+        const paired = await oneAtATime(`pairing:${codeHash}`, async () => {
+            const kiosk = await db.queryOne('kiosks', { pairingCodeHash: codeHash });
+            if (!kiosk || !kiosk.pairingExpiresAt || kiosk.pairingExpiresAt < Date.now()) return null;
+            const credential = newKioskCredential();
+            const updated = await db.update('kiosks', kiosk.id, {
+                pairingCodeHash: null,
+                pairingExpiresAt: null,
+                credentialHash: await hashKioskSecret(credential),
+                pairedAt: Date.now(),
+                userAgent: req.get('user-agent')
+            });
+            return { kiosk: withoutSecrets('kiosks', updated), credential };
+        });
+        if (!paired) return res.status(400).json({ error: 'This pairing code is invalid or has expired.' });
+        res.json(paired);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+app.get('/api/kiosk/roster', authenticateKiosk, async (req: KioskRequest, res) => {
+    const kiosk = req.kiosk;
+    const eventId = kiosk.eventId || DEFAULT_EVENT_ID;
+    try {
+        await getTicketSigningKey();
+        const [registrations, keys, config] = await Promise.all([
+            db.query('registrations', { where: { eventId } }),
+            db.findAll('ticket_keys'),
+            getEventConfig(eventId)
+        ]);
+        const roster: KioskRoster = {
+            kioskId: kiosk.id,
+            kioskName: kiosk.name,
+            eventId,
+            registrations: registrations.map(rosterEntry),
+            ticketKeys: keys.map(publicTicketKey),
+            config: withoutSecrets('events', { config }).config,
+            fetchedAt: Date.now()
+        };
+        await db.update('kiosks', kiosk.id, { rosterAt: roster.fetchedAt });
+        res.json(roster);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Uploads queued scans and doubles as the kiosk's heartbeat.
+app.post('/api/kiosk/sync', authenticateKiosk, async (req: KioskRequest, res) => {
+    const kiosk = req.kiosk;
+    const eventId = kiosk.eventId || DEFAULT_EVENT_ID;
+    const scans: KioskScan[] = Array.isArray(req.body.scans) ? req.body.scans.slice(0, MAX_SYNC_SCANS) : [];
+    const heartbeat = req.body.heartbeat || {};
+    const since = Number(req.body.since) || 0;
+    const serverTime = Date.now();
+    try {
+        const keys = await db.findAll('ticket_keys');
+        const results: KioskScanResult[] = [];
+        let conflicts = 0;
+        for (const scan of scans) {
+            if (typeof scan?.id !== 'string' || typeof scan.ticket !== 'string') continue;
+            const { repeat, ...result } = await syncKioskScan(kiosk, { ...scan, id: scan.id.slice(0, 100) }, keys, req.get('user-agent'));
+            if (!repeat && result.result === 'duplicate' && scan.localResult === 'admitted') conflicts++;
+            results.push(result);
+        }
+        await db.update('kiosks', kiosk.id, {
+            lastHeartbeatAt: serverTime,
+            queueDepth: Math.max(0, (Number(heartbeat.queueDepth) || 0) - results.length),
+            printerStatus: PRINTER_STATUSES.includes(heartbeat.printerStatus) ? heartbeat.printerStatus : 'unknown',
+            offlineDuplicates: (kiosk.offlineDuplicates || 0) + conflicts,
+            userAgent: req.get('user-agent')
+        });
+        const changed = since
+            ? (await db.query('registrations', { where: { eventId } })).filter((r: any) => (r.updatedAt || 0) >= since).map(rosterEntry)
+            : [];
+        const response: KioskSyncResponse = { results, changed, serverTime };
+        res.json(response);
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Send Test Email
+app.post('/api/admin/communications/send', authenticateToken, async (req: AuthRequest, res) => {
+    const { to, config } = req.body;
+    if (!to || !config) return res.status(400).json({ error: "Missing 'to' or 'config'." });
+
+    try {
+        await sendEmail(config, to, "Test Email from Event Platform", `
+            <h1>Test Email</h1>
+            <p>This is a test email sent from the Event Platform settings page.</p>
+            <p>If you are reading this, your email configuration is working correctly!</p>
+            <hr>
             <p><small>Sent via ${config.emailProvider}</small></p>
-        `);
+        `, req.user!.eventId);
         res.json({ success: true });
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
@@ -613,11 +3660,10 @@ app.post('/api/admin/communications/send', authenticateToken, async (req: AuthRe
 
 // GitHub Sync (Pull)
 app.post('/api/admin/config/sync', authenticateToken, async (req: AuthRequest, res) => {
-    if (!req.user || req.user.type !== 'admin') return res.sendStatus(403);
+    if (!requireAdminPermission(req, res, 'manage_settings')) return;
     
     try {
-        const events = await db.findAll('events');
-        const event = events[0];
+        const event = await db.queryOne('events', { id: req.user!.eventId || DEFAULT_EVENT_ID });
         const ghConfig = event?.config?.githubSync;
 
         if (!ghConfig || (!ghConfig.configUrl && (!ghConfig.owner || !ghConfig.repo))) {
@@ -669,11 +3715,10 @@ app.post('/api/admin/config/sync', authenticateToken, async (req: AuthRequest, r
 
 // GitHub Push (Commit)
 app.post('/api/admin/config/push', authenticateToken, async (req: AuthRequest, res) => {
-    if (!req.user || req.user.type !== 'admin') return res.sendStatus(403);
+    if (!requireAdminPermission(req, res, 'manage_settings')) return;
 
     try {
-        const events = await db.findAll('events');
-        const event = events[0];
+        const event = await db.queryOne('events', { id: req.user!.eventId || DEFAULT_EVENT_ID });
         const config = event?.config;
         const ghConfig = config?.githubSync;
 
@@ -740,55 +3785,264 @@ app.post('/api/admin/config/push', authenticateToken, async (req: AuthRequest, r
     }
 });
 
+// Events: created blank, from a saved template, or as a copy of another event.
+// Only the platform role (not an event role) can grant creating events.
+
+const eventSnapshot = async (eventId: string): Promise<EventSnapshot | null> => {
+    const event = await db.queryOne('events', { id: eventId });
+    if (!event) return null;
+    const tables: Record<string, any[]> = {};
+    for (const table of TEMPLATE_TABLES) tables[table] = await db.query(table, { where: { eventId } });
+    return snapshotEvent(event, tables);
+};
+
+app.post('/api/admin/events', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requirePlatformPermission(req, res, 'manage_settings')) return;
+    const { name, eventType, templateId, cloneFromEventId, dayShift } = req.body;
+    if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'Event name is required.' });
+    if (dayShift !== undefined && !Number.isInteger(dayShift)) return res.status(400).json({ error: 'dayShift must be a whole number of days.' });
+
+    try {
+        let snapshot: EventSnapshot | null;
+        if (cloneFromEventId) {
+            snapshot = await eventSnapshot(cloneFromEventId);
+            if (!snapshot) return res.status(404).json({ error: 'Event to copy not found.' });
+        } else if (templateId) {
+            snapshot = await db.queryOne('event_templates', { id: templateId });
+            if (!snapshot) return res.status(404).json({ error: 'Template not found.' });
+        } else {
+            snapshot = { eventType: 'Conference', config: defaultConfig, tables: {} };
+        }
+        if (eventType) snapshot.eventType = eventType;
+
+        const { event, tables } = instantiateSnapshot(snapshot, { eventId: `event_${Date.now()}`, name: name.trim(), dayShift });
+        await db.insert('events', event);
+        for (const table of TEMPLATE_TABLES) {
+            for (const row of tables[table]) await db.insert(table, row);
+        }
+        res.json(redactRow(req.user!, 'events', event));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
+// Event Templates: saved from an event's current setup, without its credentials.
+app.post('/api/admin/event-templates', authenticateToken, async (req: AuthRequest, res) => {
+    const { eventId, name, description } = req.body;
+    if (!requireAdminPermission(req, res, 'manage_settings', eventId)) return;
+    if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'Template name is required.' });
+
+    try {
+        const snapshot = await eventSnapshot(eventId);
+        if (!snapshot) return res.status(404).json({ error: 'Event not found.' });
+        const template = withoutSecrets('event_templates', {
+            ...snapshot,
+            id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            name: name.trim(),
+            description: typeof description === 'string' ? description : '',
+            sourceEventId: eventId,
+            createdAt: Date.now(),
+            createdBy: req.user!.id
+        });
+        const created = await db.insert('event_templates', template);
+        res.json(redactRow(req.user!, 'event_templates', created));
+    } catch (e) {
+        res.status(500).json({ error: (e as Error).message });
+    }
+});
+
 // Generic Data Access (Protected)
-app.get('/api/data/:table', authenticateToken, async (req, res) => {
+// Supports `?limit=&offset=&orderBy=&order=asc|desc`; any other query param is
+// an equality filter on that field. The filtered total (before paging) is sent
+// as X-Total-Count.
+const PAGING_PARAMS = ['limit', 'offset', 'orderBy', 'order'];
+
+const parseQueryOptions = (query: Record<string, any>): QueryOptions => {
+    const where: Record<string, any> = {};
+    Object.keys(query).forEach(key => {
+        if (!PAGING_PARAMS.includes(key)) where[key] = query[key];
+    });
+    const limit = query.limit !== undefined ? parseInt(query.limit, 10) : undefined;
+    const offset = query.offset !== undefined ? parseInt(query.offset, 10) : undefined;
+    return {
+        where,
+        orderBy: query.orderBy,
+        order: query.order === 'desc' ? 'desc' : 'asc',
+        limit: limit !== undefined && !isNaN(limit) ? Math.min(Math.max(limit, 0), 1000) : undefined,
+        offset: offset !== undefined && !isNaN(offset) ? Math.max(offset, 0) : undefined
+    };
+};
+
+/** The first query parameter that is not a plain string, e.g. `?status[$ne]=x` or a repeated key. */
+const invalidQueryParam = (query: Record<string, unknown>) => Object.keys(query).find(key => typeof query[key] !== 'string');
+
+/** Filters pushed into queries so they return only the caller's rows within the caller's event. */
+const readScope = (user: Principal, table: string): Record<string, string> | null => {
+    const scope = { ...eventScope(user, table), ...ownerScope(user, table) };
+    return Object.keys(scope).length > 0 ? scope : null;
+};
+
+app.get('/api/data/:table', authenticateToken, async (req: AuthRequest, res) => {
+    const { table } = req.params;
+    if (!authorize(req.user!, table, 'read')) return res.sendStatus(403);
     try {
-        const data = await db.findAll(req.params.table);
+        const invalid = invalidQueryParam(req.query);
+        if (invalid) return res.status(400).json({ error: `Invalid query parameter: ${invalid}` });
+        if (Object.keys(req.query).length === 0) {
+            const scope = readScope(req.user!, table);
+            const rows = scope ? await db.query(table, { where: scope }) : await db.findAll(table);
+            return res.json(readableRows(req.user!, table, rows));
+        }
+        const options = parseQueryOptions(req.query as Record<string, any>);
+        // Matching or sorting on a field the caller cannot see would reveal its values.
+        const hidden = [...Object.keys(options.where || {}), ...(options.orderBy ? [options.orderBy] : [])]
+            .find(field => !canQueryField(req.user!, table, field));
+        if (hidden) return res.status(400).json({ error: `Invalid query parameter: ${hidden}` });
+        options.where = { ...options.where, ...readScope(req.user!, table) };
+        const [rows, total] = await Promise.all([
+            db.query(table, options),
+            db.count(table, options.where)
+        ]);
+        const data = readableRows(req.user!, table, rows);
+        // Row-level filtering after the query would make the total leak other users' rows.
+        if (data.length === rows.length) res.setHeader('X-Total-Count', String(total));
         res.json(data);
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-app.post('/api/data/:table', authenticateToken, async (req, res) => {
+// A write carrying `If-Match: <version>` only applies if the row is still at
+// that version. Otherwise the caller gets 409 with the current row (or null if
+// it was deleted) so it can decide whose change wins.
+const rejectStaleWrite = (req: AuthRequest, res: Response, table: string, existing: any): boolean => {
+    const expected = req.headers['if-match'];
+    if (expected === undefined) return false;
+    if (existing && String(existing.version || 0) === String(expected)) return false;
+    res.status(409).json({
+        error: existing ? 'This record was changed by someone else.' : 'This record was deleted by someone else.',
+        current: existing ? redactRow(req.user!, table, existing) : null
+    });
+    return true;
+};
+
+app.post('/api/data/:table', authenticateToken, async (req: AuthRequest, res) => {
+    const { table } = req.params;
+    if (!authorize(req.user!, table, 'write')) return res.sendStatus(403);
     try {
-        const item = req.body;
-        if (item.id) {
-            const existing = await db.findOne(req.params.table, i => i.id === item.id);
-            if (existing) {
-                const updated = await db.update(req.params.table, item.id, item);
-                return res.json(updated);
-            }
+        const { password, ...body } = req.body || {};
+        let existing = body.id ? await db.queryOne(table, { id: body.id }) : null;
+        let item = prepareWrite(req.user!, table, body, existing || undefined);
+        if (item && !existing && item.id) {
+            // The stamped owner can be the row's id, as for a delegate's own registration.
+            existing = await db.queryOne(table, { id: item.id });
+            if (existing) item = prepareWrite(req.user!, table, { ...body, id: item.id }, existing);
+        }
+        if (!item) return res.sendStatus(403);
+        if (rejectStaleWrite(req, res, table, existing)) return;
+
+        // Admin passwords arrive in plain text from the user editor; store only the hash.
+        if (table === 'admin_users' && password) {
+            item.password_hash = await bcrypt.hash(password, 10);
+        }
+
+        if (existing) {
+            // Renaming a ticket holder is kept in the ticket's history, see `server/transfers.ts`.
+            const changes = table === 'registrations'
+                ? withNameChange(existing, item, req.user!.type === 'admin' ? req.user!.email : undefined)
+                : item;
+            const updated = await db.update(table, existing.id, changes);
+            return res.json(redactRow(req.user!, table, updated));
         }
-        const created = await db.insert(req.params.table, item);
-        res.json(created);
+        if (!item.id) item.id = `${table}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+        const created = await db.insert(table, item);
+        res.json(redactRow(req.user!, table, created));
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-app.delete('/api/data/:table/:id', authenticateToken, async (req, res) => {
+app.delete('/api/data/:table/:id', authenticateToken, async (req: AuthRequest, res) => {
+    const { table, id } = req.params;
+    if (!authorize(req.user!, table, 'delete')) return res.sendStatus(403);
     try {
-        await db.remove(req.params.table, req.params.id);
+        const existing = await db.queryOne(table, { id });
+        if (!existing) return res.json({ success: true });
+        if (!authorize(req.user!, table, 'delete', existing)) return res.sendStatus(403);
+        if (rejectStaleWrite(req, res, table, existing)) return;
+        await db.remove(table, id);
+        if (table === 'admin_users' || table === 'registrations') {
+            await revokeSessions({ subjectType: table === 'admin_users' ? 'admin' : 'delegate', subjectId: id }, 'account_deleted');
+        }
         res.json({ success: true });
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
-// Sync Endpoint (Full DB Dump)
-app.get('/api/sync', authenticateToken, async (req, res) => {
+// --- Sync ---
+// Clients keep the `cursor` from their last sync and send it back as `since`.
+// Without one, or when it is older than the retained change log, they get a
+// full snapshot of everything they may read. Otherwise they get the rows
+// changed since, in pages of SYNC_PAGE_SIZE log entries. A changed row the
+// caller can no longer see is reported as deleted.
+
+const SYNC_PAGE_SIZE = 1000;
+const CHANGE_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+type RowChanges = Record<string, { upserts: any[]; deletes: string[] }>;
+
+const changesVisibleTo = async (user: Principal, entries: ChangeLogEntry[]): Promise<RowChanges> => {
+    const idsByTable = new Map<string, Set<string>>();
+    entries.forEach(entry => {
+        if (!canSeeChange(user, entry.table, entry.owners, entry.events || [])) return;
+        if (!idsByTable.has(entry.table)) idsByTable.set(entry.table, new Set());
+        idsByTable.get(entry.table)!.add(entry.rowId);
+    });
+
+    const changes: RowChanges = {};
+    for (const [table, idSet] of idsByTable) {
+        const ids = Array.from(idSet);
+        const upserts = readableRows(user, table, await db.query(table, { where: { id: ids } }));
+        const visible = new Set(upserts.map(row => String(row.id)));
+        changes[table] = { upserts, deletes: ids.filter(id => !visible.has(id)) };
+    }
+    return changes;
+};
+
+app.get('/api/sync', authenticateToken, async (req: AuthRequest, res) => {
     try {
-        const dump: Record<string, any[]> = {};
-        for (const table of ALLOWED_TABLES) {
-            dump[table] = await db.findAll(table);
+        const since = req.query.since !== undefined ? Number(req.query.since) : NaN;
+        const { oldest, latest } = await db.changeLogBounds();
+
+        if (!Number.isInteger(since) || since < oldest - 1 || since > latest) {
+            const tables: Record<string, any[]> = {};
+            for (const table of ALLOWED_TABLES) {
+                if (!authorize(req.user!, table, 'read')) continue;
+                const scope = readScope(req.user!, table);
+                const rows = scope ? await db.query(table, { where: scope }) : await db.findAll(table);
+                tables[table] = readableRows(req.user!, table, rows);
+            }
+            // `latest` was read first, so writes racing the snapshot are sent again next time.
+            return res.json({ cursor: latest, full: true, tables });
         }
-        res.json(dump);
+
+        const entries = await db.changesSince(since, SYNC_PAGE_SIZE);
+        res.json({
+            cursor: entries.length > 0 ? entries[entries.length - 1].seq : since,
+            full: false,
+            hasMore: entries.length === SYNC_PAGE_SIZE,
+            changes: await changesVisibleTo(req.user!, entries)
+        });
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
     }
 });
 
+setInterval(() => {
+    db.pruneChangeLog(Date.now() - CHANGE_LOG_RETENTION_MS).catch(e => console.error('Change log prune failed', e));
+}, 60 * 60 * 1000).unref();
+
 // File Upload
 const upload = multer({ dest: UPLOADS_DIR });
 app.post('/api/upload', authenticateToken, upload.single('file'), (req, res) => {
@@ -812,9 +4066,8 @@ app.post('/api/admin/ai/research', authenticateToken, async (req, res) => {
 app.get('/api/delegate/wallet', authenticateToken, async (req: AuthRequest, res) => {
     if (!req.user) return res.sendStatus(401);
     try {
-        const balance = await calculateBalance(req.user.id);
-        const events = await db.findAll('events');
-        const config = getSafeConfig(events[0]?.config);
+        const balance = await calculateBalance(req.user.id, req.user.eventId);
+        const config = await getEventConfig(req.user.eventId);
         res.json({ balance, currencyName: config.eventCoin.name });
     } catch (e) {
         res.status(500).json({ error: (e as Error).message });
@@ -825,16 +4078,19 @@ app.get('/api/delegate/wallet', authenticateToken, async (req: AuthRequest, res)
 app.post('/api/delegate/wallet/transfer', authenticateToken, async (req: AuthRequest, res) => {
     if (!req.user) return res.sendStatus(401);
     const { recipientEmail, amount, message } = req.body;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+        return res.status(400).json({ error: 'The amount must be a positive number.' });
+    }
     try {
-        const senderBalance = await calculateBalance(req.user.id);
+        const senderBalance = await calculateBalance(req.user.id, req.user.eventId);
         if (senderBalance < amount) return res.status(400).json({ error: 'Insufficient funds' });
 
-        const recipients = await db.findAll('registrations', r => r.email === recipientEmail);
-        const recipient = recipients[0];
+        const recipient = await findDelegate(req.user.eventId, recipientEmail);
         if (!recipient) return res.status(404).json({ error: 'Recipient not found' });
 
         const tx = {
             id: `tx_${Date.now()}`,
+            eventId: req.user.eventId,
             fromId: req.user.id,
             toId: recipient.id,
             fromName: req.user.email,
@@ -854,63 +4110,52 @@ app.post('/api/delegate/wallet/transfer', authenticateToken, async (req: AuthReq
     }
 });
 
-// Payment Intent
-app.post('/api/payments/create-intent', authenticateToken, async (req, res) => {
-    try {
-        const { amount } = req.body;
-        
-        if (process.env.STRIPE_SECRET_KEY) {
-            const paymentIntent = await stripe.paymentIntents.create({
-                amount: Math.round(amount * 100), // cents
-                currency: 'usd',
-            });
-            res.json({ clientSecret: paymentIntent.client_secret });
-        } else {
-            res.json({ clientSecret: `mock_secret_${Date.now()}` });
-        }
-    } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
-    }
-});
-
-// Public Payment Intent
-app.post('/api/public/payments/create-intent', async (req, res) => {
+// Wallet top-up: an order for one of the coin packages, priced here. The coins
+// are credited once the order is paid, like a ticket order.
+app.post('/api/delegate/wallet/purchase', authenticateToken, async (req: AuthRequest, res) => {
+    if (req.user?.type !== 'delegate') return res.sendStatus(403);
     try {
-        const { amount } = req.body;
-        if (process.env.STRIPE_SECRET_KEY) {
-            const paymentIntent = await stripe.paymentIntents.create({
-                amount: Math.round(amount * 100), // cents
-                currency: 'usd',
-            });
-            res.json({ clientSecret: paymentIntent.client_secret });
-        } else {
-            res.json({ clientSecret: `mock_secret_${Date.now()}` });
-        }
+        const registration = await db.queryOne('registrations', { id: req.user.id });
+        if (!registration) return res.sendStatus(404);
+        const order = newCoinOrder({
+            id: `ord_${Date.now()}_${crypto.randomBytes(8).toString('hex')}`,
+            eventId: registration.eventId || DEFAULT_EVENT_ID,
+            email: registration.email,
+            name: registration.name
+        }, registration.id, String(req.body.packageId));
+        if (typeof order === 'string') return res.status(400).json({ success: false, message: order });
+        const { order: placed, clientSecret } = await placeOrderPayment(await db.insert('orders', order));
+        res.json({ success: true, order: publicOrder(placed), clientSecret });
     } catch (e) {
-        res.status(500).json({ error: (e as Error).message });
+        res.status(500).json({ success: false, message: (e as Error).message });
     }
 });
 
 // Dashboard Stats
-app.get('/api/admin/dashboard', authenticateToken, async (req, res) => {
+app.get('/api/admin/dashboard', authenticateToken, async (req: AuthRequest, res) => {
+    if (!requireAdmin(req, res)) return;
     try {
-        const registrations = await db.findAll('registrations');
-        const transactions = await db.findAll('transactions');
-        const tasks = await db.findAll('tasks');
-        const events = await db.findAll('events');
-        const config = getSafeConfig(events[0]?.config);
+        const scope = req.user!.eventId ? { eventId: req.user!.eventId } : {};
+        const [totalRegistrations, recentRegistrations, totalTasks, completedTasks] = await Promise.all([
+            db.count('registrations', scope),
+            db.query('registrations', { where: scope, orderBy: 'createdAt', order: 'desc', limit: 5 }),
+            db.count('tasks', scope),
+            db.count('tasks', { ...scope, status: 'completed' })
+        ]);
+        const transactions = await db.query('transactions', { where: scope });
+        const config = await getEventConfig(req.user!.eventId);
 
         const stats = {
-            totalRegistrations: registrations.length,
+            totalRegistrations,
             maxAttendees: config.event.maxAttendees || 500,
             eventDate: config.event.date,
             registrationTrend: [], 
             taskStats: {
-                total: tasks.length,
-                completed: tasks.filter((t: any) => t.status === 'completed').length,
-                pending: tasks.filter((t: any) => t.status !== 'completed').length
+                total: totalTasks,
+                completed: completedTasks,
+                pending: totalTasks - completedTasks
             },
-            recentRegistrations: registrations.slice(-5).reverse(),
+            recentRegistrations,
             eventCoinName: config.eventCoin.name,
             eventCoinCirculation: transactions.reduce((acc: number, tx: any) => acc + (tx.fromId === 'system' ? tx.amount : 0), 0),
             activeWallets: new Set(transactions.map((t: any) => t.fromId).concat(transactions.map((t: any) => t.toId))).size,
@@ -923,12 +4168,13 @@ app.get('/api/admin/dashboard', authenticateToken, async (req, res) => {
 });
 
 // Broadcast
-app.post('/api/admin/communications/broadcast', authenticateToken, async (req, res) => {
+app.post('/api/admin/communications/broadcast', authenticateToken, async (req: AuthRequest, res) => {
     const { subject, body, target, channel } = req.body;
     console.log(`[Broadcast] Sending to ${target} via ${channel}: ${subject}`);
     
     await db.insert('email_logs', {
         id: `log_${Date.now()}`,
+        eventId: req.user!.eventId,
         to: target,
         subject: `[${channel.toUpperCase()}] ${subject}`,
         body,
@@ -49,7 +49,7 @@ export const defaultConfig: EventConfig = {
     {
       id: "phone",
       label: "Phone Number",
-      type: "text",
+      type: "phone",
       placeholder: "+1 (555) 000-0000",
       required: false,
       enabled: true,
@@ -88,6 +88,22 @@ export const defaultConfig: EventConfig = {
     delegateInvitation: {
       subject: "Invitation to attend {{eventName}}!",
       body: "Hi there,\n\n{{inviterName}} has invited you to attend the {{eventName}}.\n\nClick the link below to complete your registration:\n{{inviteLink}}\n\nWe look forward to seeing you there!\n- The {{hostName}} Team",
+    },
+    waitlistOffer: {
+      subject: "A spot opened up at {{eventName}}",
+      body: "Hi {{name}},\n\nGood news: a spot has opened up for the {{eventName}} on {{eventDate}} at {{eventLocation}}, and it is yours if you want it.\n\nWe are holding it for you until {{expiresAt}}. Click the link below to claim it:\n{{acceptLink}}\n\nIf you do not claim it by then, it will be offered to the next person on the waitlist.\n\n- The {{hostName}} Team",
+    },
+    groupPurchase: {
+      subject: "Your {{seatCount}} seats for {{eventName}}",
+      body: "Hi {{name}},\n\nThank you for booking {{seatCount}} seats for the {{eventName}} on {{eventDate}} at {{eventLocation}}.\n\nUse the link below to name the people attending. Each of them gets an email with a link to claim their seat, and you can reassign any seat that has not been claimed yet:\n{{manageLink}}\n\nKeep this link private; anyone who has it can manage your seats.\n\n- The {{hostName}} Team",
+    },
+    groupSeatInvite: {
+      subject: "{{purchaserName}} has a seat for you at {{eventName}}",
+      body: "Hi {{name}},\n\n{{purchaserName}} has booked a seat for you at the {{eventName}} on {{eventDate}} at {{eventLocation}}.\n\nClick the link below to claim it and complete your registration:\n{{claimLink}}\n\nWe look forward to seeing you there!\n- The {{hostName}} Team",
+    },
+    ticketTransfer: {
+      subject: "{{fromName}} is passing their ticket for {{eventName}} to you",
+      body: "Hi {{name}},\n\n{{fromName}} would like to give you their ticket for the {{eventName}} on {{eventDate}} at {{eventLocation}}.\n\nClick the link below to accept it and complete your registration. The link is valid until {{expiresAt}}:\n{{acceptLink}}\n\nOnce you accept, {{fromName}}'s pass stops working and a new one is issued to you.\n\n- The {{hostName}} Team",
     }
   },
   emailProvider: 'smtp',
@@ -1,7 +1,14 @@
 
-import { db, initializeDb, saveDb, reloadTable } from './store';
+import { db, initializeDb, reloadTable, persistRows, persistTable, deletePersistedRows, readIndexed, countIndexed, isIndexedField } from './store';
+import { getTokenSubject } from './auth';
+import { isEventScoped, DEFAULT_EVENT_ID } from './policy';
+import {
+    loadOutbox, enqueueWrite, dueOutboxEntries, getOutboxEntry, getOutboxEntries, updateOutboxEntry,
+    removeOutboxEntry, applyQueuedWrites, retryDelay, MAX_SEND_ATTEMPTS, type OutboxEntry
+} from './outbox';
 
 export { initializeDb };
+export { getOutboxEntries, subscribeToOutbox, type OutboxEntry } from './outbox';
 
 // Make sure DB is initialized before any operation
 const ensureInitialized = async () => {
@@ -13,10 +20,38 @@ type TableName = string;
 // Network State
 let isOnline = false;
 
+let listeningForOnline = false;
+
 export const setBackendAvailable = (status: boolean) => {
     isOnline = status;
+    if (status && !listeningForOnline) {
+        // Retry queued writes as soon as the browser regains a connection.
+        window.addEventListener('online', () => { flushOutbox(); });
+        listeningForOnline = true;
+    }
 };
 
+// --- Event Scope ---
+// The admin portal works on the event picked in its selector, and the delegate
+// portal on the delegate's event. While one is active, reads of event-scoped
+// tables only see its rows (rows saved before scoping belong to the default
+// event), new rows are stamped with it, and backend requests name it in
+// `X-Event-Id`.
+
+let activeEventId: string | null = null;
+
+export const setActiveEvent = (eventId: string | null) => {
+    activeEventId = eventId;
+};
+
+export const getActiveEvent = () => activeEventId;
+
+/** Header telling the backend which event an admin request acts within. */
+export const eventHeader = (): Record<string, string> => activeEventId ? { 'X-Event-Id': activeEventId } : {};
+
+const inActiveEvent = (table: TableName) => (item: any) =>
+    !activeEventId || !isEventScoped(table) || (item.eventId || DEFAULT_EVENT_ID) === activeEventId;
+
 // Helper to get headers with token
 const getAuthHeaders = () => {
     const adminToken = localStorage.getItem('adminToken');
@@ -24,37 +59,120 @@ const getAuthHeaders = () => {
     const token = adminToken || delegateToken;
     return {
         'Content-Type': 'application/json',
-        ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        ...eventHeader()
     };
 };
 
 export const replaceTable = (table: TableName, data: any[]) => {
     db[table] = data;
+    persistTable(table);
     notifySubscribers(table);
 };
 
-export const syncWithBackend = async () => {
-    if (!isOnline) return;
+// --- Delta Sync ---
+// The backend hands out a cursor with every sync. It is stored per account and
+// event, since it only covers the rows readable there; switching either starts
+// again from a full snapshot.
+
+/** Rows changed on the server, per table. Deleted ids include rows the user can no longer see. */
+export type RowChanges = Record<string, { upserts: any[]; deletes: string[] }>;
+
+const SYNC_CURSOR_KEY = 'event_platform_sync_cursor';
+
+let syncing: Promise<void> | null = null;
+let resyncRequested = false;
+
+const readSyncCursor = (subject: string): number | undefined => {
     try {
-        console.log("Syncing with backend...");
-        const res = await fetch('/api/sync', {
+        const saved = JSON.parse(localStorage.getItem(SYNC_CURSOR_KEY) || 'null');
+        return saved && saved.subject === subject ? saved.cursor : undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const writeSyncCursor = (subject: string, cursor: number) => {
+    localStorage.setItem(SYNC_CURSOR_KEY, JSON.stringify({ subject, cursor }));
+};
+
+/** Merges server changes into the local tables, keeping rows with queued local writes. */
+export const applyRemoteChanges = async (changes: RowChanges) => {
+    const tables = Object.keys(changes);
+    const saved = tables.map(table => {
+        const { upserts = [], deletes = [] } = changes[table];
+        const replaced = new Map(upserts.map(row => [String(row.id), row]));
+        const removed = new Set(deletes.map(String));
+        const rows = ((db[table] || []) as any[])
+            .filter(row => !removed.has(String(row.id)))
+            .map(row => {
+                const update = replaced.get(String(row.id));
+                replaced.delete(String(row.id));
+                return update || row;
+            });
+        db[table] = applyQueuedWrites(table, [...rows, ...replaced.values()]);
+
+        const changed = new Set(upserts.map(row => String(row.id)));
+        const kept = new Set((db[table] as any[]).map(row => String(row.id)));
+        return Promise.all([
+            persistRows(table, (db[table] as any[]).filter(row => changed.has(String(row.id)))),
+            deletePersistedRows(table, deletes.filter(id => !kept.has(String(id))))
+        ]);
+    });
+    tables.forEach(notifySubscribers);
+    await Promise.all(saved);
+};
+
+const pullChanges = async () => {
+    const token = localStorage.getItem('adminToken') || localStorage.getItem('delegateToken');
+    const subject = `${(token && getTokenSubject(token)) || 'anonymous'}@${activeEventId || '*'}`;
+    let since = readSyncCursor(subject);
+    await loadOutbox();
+
+    for (let hasMore = true; hasMore;) {
+        const res = await fetch(`/api/sync${since !== undefined ? `?since=${since}` : ''}`, {
             headers: getAuthHeaders()
         });
-        if (res.ok) {
-            const remoteData = await res.json();
-            Object.keys(remoteData).forEach(key => {
-                db[key] = remoteData[key];
+        if (!res.ok) return;
+        const body: any = await res.json();
+        if (body.full) {
+            Object.keys(body.tables).forEach(key => {
+                db[key] = applyQueuedWrites(key, body.tables[key]);
             });
-            saveDb();
-            // Notify all tables
-            Object.keys(remoteData).forEach(notifySubscribers);
-            console.log("Sync complete.");
+            Object.keys(body.tables).forEach(notifySubscribers);
+            await Promise.all(Object.keys(body.tables).map(persistTable));
+        } else {
+            await applyRemoteChanges(body.changes);
         }
-    } catch (e) {
-        console.error("Sync failed", e);
+        since = body.cursor;
+        writeSyncCursor(subject, body.cursor);
+        hasMore = !!body.hasMore;
     }
 };
 
+/**
+ * Brings local tables up to date: a full snapshot the first time, then only
+ * what changed since the stored cursor. Calls made during a sync run it once more.
+ */
+export const syncWithBackend = async (): Promise<void> => {
+    if (!isOnline) return;
+    if (syncing) {
+        resyncRequested = true;
+        return syncing;
+    }
+    syncing = (async () => {
+        do {
+            resyncRequested = false;
+            try {
+                await pullChanges();
+            } catch (e) {
+                console.error("Sync failed", e);
+            }
+        } while (resyncRequested && isOnline);
+    })().finally(() => { syncing = null; });
+    return syncing;
+};
+
 export const fetchTableFromBackend = async (table: TableName) => {
     if (!isOnline) return;
     try {
@@ -62,9 +180,11 @@ export const fetchTableFromBackend = async (table: TableName) => {
             headers: getAuthHeaders()
         });
         if (res.ok) {
-            const data = await res.json();
-            db[table] = data;
+            const data: any = await res.json();
+            await loadOutbox();
+            db[table] = applyQueuedWrites(table, data);
             notifySubscribers(table);
+            await persistTable(table);
         }
     } catch (e) {
         console.error(`Failed to fetch table ${table}`, e);
@@ -97,8 +217,7 @@ try {
         channel.onmessage = (event) => {
             const { action, table } = event.data;
             if (action === 'refresh' && table) {
-                reloadTable(table);
-                notifySubscribers(table);
+                reloadTable(table).then(() => notifySubscribers(table));
             }
         };
     }
@@ -109,22 +228,217 @@ const notifyChange = (table: string) => {
     channel?.postMessage({ action: 'refresh', table });
 };
 
+// --- Outbox Delivery ---
+// Writes are applied locally at once and queued for the backend. The queue
+// is sent in order; network errors and 5xx responses are retried with
+// backoff, a 409 means the row changed on the server since it was read here.
+// Conflicts are never resolved automatically: the local copy stays visible
+// until the user keeps it (overwriting the server) or takes the server's.
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const queueWrite = (table: TableName, op: 'upsert' | 'delete', row: any, baseVersion?: number) => {
+    if (!isOnline) return;
+    enqueueWrite(table, op, deepCopy(row), baseVersion);
+    flushOutbox();
+};
+
+const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    const pending = getOutboxEntries().filter(e => e.status === 'pending');
+    if (!isOnline || pending.length === 0) return;
+    const nextAt = Math.min(...pending.map(e => e.nextAttemptAt));
+    retryTimer = setTimeout(() => { flushOutbox(); }, Math.max(nextAt - Date.now(), 0));
+};
+
+// Stores the server's copy of a row (null removes it) after a write settles.
+const applyServerRow = (table: TableName, rowId: string, serverRow: any | null) => {
+    const list = (db[table] || (db[table] = [])) as any[];
+    const index = list.findIndex(i => String(i.id) === rowId);
+    if (serverRow === null) {
+        if (index === -1) return;
+        const [removed] = list.splice(index, 1);
+        deletePersistedRows(table, [removed.id]);
+    } else if (index > -1) {
+        list[index] = { ...list[index], ...serverRow };
+        persistRows(table, [list[index]]);
+    } else {
+        list.push(serverRow);
+        persistRows(table, [serverRow]);
+    }
+    notifyChange(table);
+};
+
+const readError = async (res: Response) => {
+    const body: any = await res.json().catch(() => null);
+    return { body, message: body?.error || `HTTP ${res.status}` };
+};
+
+// Returns false when the backend could not be reached, which ends the pass.
+const deliver = async (entry: OutboxEntry): Promise<boolean> => {
+    const headers = {
+        ...getAuthHeaders(),
+        ...(entry.baseVersion !== undefined ? { 'If-Match': String(entry.baseVersion) } : {})
+    };
+    let res: Response;
+    try {
+        res = entry.op === 'delete'
+            ? await fetch(`/api/data/${entry.table}/${entry.rowId}`, { method: 'DELETE', headers })
+            : await fetch(`/api/data/${entry.table}`, { method: 'POST', headers, body: JSON.stringify(entry.row) });
+    } catch (e) {
+        const attempts = entry.attempts + 1;
+        updateOutboxEntry(entry.id, { attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError: 'Backend unreachable' });
+        return false;
+    }
+
+    if (res.ok) {
+        const saved: any = entry.op === 'upsert' ? await res.json().catch(() => null) : null;
+        const current = getOutboxEntry(entry.id);
+        if (current && current.revision !== entry.revision) {
+            // Edited again while this request was in flight: send the newer copy against the new version.
+            updateOutboxEntry(entry.id, { baseVersion: saved?.version ?? entry.baseVersion, attempts: 0, nextAttemptAt: 0 });
+        } else {
+            removeOutboxEntry(entry.id);
+        }
+        if (saved?.id !== undefined) {
+            applyServerRow(entry.table, entry.rowId, current && current.revision !== entry.revision ? { version: saved.version } : saved);
+        }
+        return true;
+    }
+
+    const { body, message } = await readError(res);
+    if (res.status === 409) {
+        updateOutboxEntry(entry.id, { status: 'conflict', serverRow: body?.current ?? null, lastError: message });
+    } else if (res.status === 401 || res.status === 408 || res.status === 429 || res.status >= 500) {
+        const attempts = entry.attempts + 1;
+        updateOutboxEntry(entry.id, attempts >= MAX_SEND_ATTEMPTS
+            ? { attempts, status: 'failed', lastError: message }
+            : { attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError: message });
+    } else {
+        updateOutboxEntry(entry.id, { status: 'failed', lastError: message });
+    }
+    return true;
+};
+
+const deliverDue = async () => {
+    await loadOutbox();
+    const attempted = new Set<string>();
+    while (isOnline) {
+        const next = dueOutboxEntries().find(e => !attempted.has(`${e.id}:${e.revision}`));
+        if (!next) break;
+        attempted.add(`${next.id}:${next.revision}`);
+        if (!(await deliver(next))) break;
+    }
+};
+
+/** Sends every queued write that is due. Concurrent calls share one pass. */
+export const flushOutbox = (): Promise<void> => {
+    if (!isOnline) return Promise.resolve();
+    if (!flushing) {
+        flushing = deliverDue()
+            .catch(e => console.error("Outbox delivery failed", e))
+            .finally(() => {
+                flushing = null;
+                scheduleRetry();
+            });
+    }
+    return flushing;
+};
+
+/** Sends a failed write again from scratch. */
+export const retryOutboxEntry = (id: string) => {
+    updateOutboxEntry(id, { status: 'pending', attempts: 0, nextAttemptAt: 0, lastError: undefined });
+    return flushOutbox();
+};
+
+/** Drops a queued write and reloads the table so the server's copy shows again. */
+export const discardOutboxEntry = async (id: string) => {
+    const entry = getOutboxEntry(id);
+    if (!entry) return;
+    removeOutboxEntry(id);
+    if (entry.op === 'delete' && !(db[entry.table] || []).some((i: any) => String(i.id) === entry.rowId)) {
+        applyServerRow(entry.table, entry.rowId, entry.row);
+    }
+    await fetchTableFromBackend(entry.table);
+};
+
+/**
+ * Settles a conflict. 'local' re-sends this device's change against the
+ * server's current version; 'server' drops it and takes the server's copy.
+ */
+export const resolveOutboxConflict = async (id: string, keep: 'local' | 'server') => {
+    const entry = getOutboxEntry(id);
+    if (!entry || entry.status !== 'conflict') return;
+    const serverRow = entry.serverRow ?? null;
+
+    if (keep === 'server') {
+        removeOutboxEntry(id);
+        applyServerRow(entry.table, entry.rowId, serverRow);
+        return;
+    }
+    if (entry.op === 'delete' && serverRow === null) {
+        removeOutboxEntry(id);
+        return;
+    }
+    updateOutboxEntry(id, {
+        status: 'pending',
+        baseVersion: serverRow ? serverRow.version : undefined,
+        serverRow: undefined,
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: undefined
+    });
+    await flushOutbox();
+};
+
 // --- CRUD Operations ---
+// Reads accept either a predicate or equality criteria. Criteria on `id` or a
+// field in TABLE_INDEXES are answered by IndexedDB, in id order, with an
+// optional predicate for whatever the index cannot express.
+
+type Criteria = Record<string, any>;
+type Filter = Criteria | ((item: any) => boolean);
+
+const matches = (item: any, criteria: Criteria) =>
+    Object.entries(criteria).every(([field, value]) => item[field] === value);
+
+const select = async (table: TableName, criteria: Criteria, predicate?: (item: any) => boolean): Promise<any[]> => {
+    const inScope = inActiveEvent(table);
+    const test = (item: any) => inScope(item) && matches(item, criteria) && (!predicate || predicate(item));
+    const field = Object.keys(criteria).find(f => isIndexedField(table, f));
+    const rows = field !== undefined ? await readIndexed(table, field, criteria[field]) : null;
+    if (rows) return rows.filter(test);
+    return deepCopy(((db[table] || []) as any[]).filter(test));
+};
 
-export async function findAll(table: TableName, predicate?: (item: any) => boolean): Promise<any[]> {
+export async function findAll(table: TableName, filter?: Filter, predicate?: (item: any) => boolean): Promise<any[]> {
     await ensureInitialized();
+    const inScope = inActiveEvent(table);
     const tableData = (db[table] || []) as any[];
-    if (predicate) {
-        return deepCopy(tableData.filter(predicate));
+    if (typeof filter === 'function') {
+        return deepCopy(tableData.filter(item => inScope(item) && filter(item)));
     }
-    return deepCopy(tableData);
+    if (filter) return select(table, filter, predicate);
+    return deepCopy(tableData.filter(inScope));
 }
 
-export async function find(table: TableName, predicate: (item: any) => boolean): Promise<any | undefined> {
+/** Rows of an event-scoped table belonging to the given event, whichever event is active. */
+export async function findAllInEvent(table: TableName, eventId: string): Promise<any[]> {
     await ensureInitialized();
-    const tableData = (db[table] || []) as any[];
-    const item = tableData.find(predicate);
-    return item ? deepCopy(item) : undefined;
+    return deepCopy(((db[table] || []) as any[]).filter(item => (item.eventId || DEFAULT_EVENT_ID) === eventId));
+}
+
+export async function find(table: TableName, filter: Filter, predicate?: (item: any) => boolean): Promise<any | undefined> {
+    await ensureInitialized();
+    if (typeof filter === 'function') {
+        const inScope = inActiveEvent(table);
+        const item = ((db[table] || []) as any[]).find(i => inScope(i) && filter(i));
+        return item ? deepCopy(item) : undefined;
+    }
+    const [item] = await select(table, filter, predicate);
+    return item;
 }
 
 export async function insert(table: TableName, item: any): Promise<any> {
@@ -132,18 +446,13 @@ export async function insert(table: TableName, item: any): Promise<any> {
     if (!db[table]) {
         db[table] = [];
     }
+    if (activeEventId && isEventScoped(table) && item.eventId === undefined) {
+        item = { ...item, eventId: activeEventId };
+    }
     db[table].push(item);
-    saveDb();
+    await persistRows(table, [item]);
     notifyChange(table);
-    
-    // Sync to backend if online
-    if (isOnline) {
-        fetch(`/api/data/${table}`, {
-            method: 'POST',
-            headers: getAuthHeaders(),
-            body: JSON.stringify(item)
-        }).catch(e => console.error("Backend insert failed", e));
-    }
+    queueWrite(table, 'upsert', item);
     
     return deepCopy(item);
 }
@@ -154,19 +463,12 @@ export async function update(table: TableName, id: any, updates: any): Promise<a
     const itemIndex = tableData.findIndex(i => i.id === id);
     
     if (itemIndex > -1) {
-        const updatedItem = { ...tableData[itemIndex], ...updates };
+        const previous = tableData[itemIndex];
+        const updatedItem = { ...previous, ...updates };
         tableData[itemIndex] = updatedItem;
-        saveDb();
+        await persistRows(table, [updatedItem]);
         notifyChange(table);
-        
-        // Sync to backend
-        if (isOnline) {
-            fetch(`/api/data/${table}`, {
-                method: 'POST', // Backend handles upsert logic via POST currently
-                headers: getAuthHeaders(),
-                body: JSON.stringify(updatedItem)
-            }).catch(e => console.error("Backend update failed", e));
-        }
+        queueWrite(table, 'upsert', updatedItem, previous.version);
         
         return deepCopy(updatedItem);
     }
@@ -179,27 +481,19 @@ export async function updateWhere(table: TableName, predicate: (item: any) => bo
     let hasChanges = false;
     
     if (db[table]) {
+        const inScope = inActiveEvent(table);
         db[table] = (db[table] as any[]).map((item: any) => {
-            if (predicate(item)) {
+            if (inScope(item) && predicate(item)) {
                 const updated = { ...item, ...updates };
                 updatedItems.push(updated);
                 hasChanges = true;
-                
-                // Sync individually
-                if (isOnline) {
-                    fetch(`/api/data/${table}`, {
-                        method: 'POST',
-                        headers: getAuthHeaders(),
-                        body: JSON.stringify(updated)
-                    }).catch(e => console.error("Backend updateWhere failed", e));
-                }
-                
+                queueWrite(table, 'upsert', updated, item.version);
                 return updated;
             }
             return item;
         });
         if (hasChanges) {
-            saveDb();
+            await persistRows(table, updatedItems);
             notifyChange(table);
         }
     }
@@ -210,22 +504,13 @@ export async function remove(table: TableName, id: any): Promise<boolean> {
     await ensureInitialized();
     if (!db[table]) return false;
     
-    const initialLength = db[table].length;
+    const removed = (db[table] as any[]).find((i: any) => i.id === id);
+    if (!removed) return false;
     db[table] = (db[table] as any[]).filter((i: any) => i.id !== id);
-    const changed = db[table].length < initialLength;
-    
-    if (changed) {
-        saveDb();
-        notifyChange(table);
-        
-        if (isOnline) {
-            fetch(`/api/data/${table}/${id}`, {
-                method: 'DELETE',
-                headers: getAuthHeaders()
-            }).catch(e => console.error("Backend delete failed", e));
-        }
-    }
-    return changed;
+    await deletePersistedRows(table, [id]);
+    notifyChange(table);
+    queueWrite(table, 'delete', removed, removed.version);
+    return true;
 }
 
 export async function removeWhere(table: TableName, predicate: (item: any) => boolean): Promise<boolean> {
@@ -233,36 +518,36 @@ export async function removeWhere(table: TableName, predicate: (item: any) => bo
     if (!db[table]) return false;
     
     // Find items to delete first to get their IDs
-    const itemsToDelete = (db[table] as any[]).filter(predicate);
+    const inScope = inActiveEvent(table);
+    const doomed = (item: any) => inScope(item) && predicate(item);
+    const itemsToDelete = (db[table] as any[]).filter(doomed);
     if (itemsToDelete.length === 0) return false;
 
     const initialLength = db[table].length;
-    db[table] = (db[table] as any[]).filter((item: any) => !predicate(item));
+    db[table] = (db[table] as any[]).filter((item: any) => !doomed(item));
     const changed = db[table].length < initialLength;
     
     if (changed) {
-        saveDb();
+        await deletePersistedRows(table, itemsToDelete.map((item: any) => item.id));
         notifyChange(table);
-        
-        if (isOnline) {
-            // Delete one by one
-            itemsToDelete.forEach((item: any) => {
-                if (item.id) {
-                    fetch(`/api/data/${table}/${item.id}`, { 
-                        method: 'DELETE',
-                        headers: getAuthHeaders()
-                    })
-                        .catch(e => console.error("Backend removeWhere failed", e));
-                }
-            });
-        }
+        itemsToDelete.forEach((item: any) => {
+            if (item.id) queueWrite(table, 'delete', item, item.version);
+        });
     }
     return changed;
 }
 
-export async function count(table: TableName, predicate?: (item: any) => boolean): Promise<number> {
+export async function count(table: TableName, filter?: Filter, predicate?: (item: any) => boolean): Promise<number> {
     await ensureInitialized();
     if (!db[table]) return 0;
-    if (!predicate) return db[table].length;
-    return (db[table] as any[]).filter(predicate).length;
+    const inScope = inActiveEvent(table);
+    if (!filter) return (db[table] as any[]).filter(inScope).length;
+    if (typeof filter === 'function') return (db[table] as any[]).filter(item => inScope(item) && filter(item)).length;
+
+    const fields = Object.keys(filter);
+    if (fields.length === 1 && !predicate && (!activeEventId || !isEventScoped(table))) {
+        const counted = await countIndexed(table, fields[0], filter[fields[0]]);
+        if (counted !== null) return counted;
+    }
+    return (await select(table, filter, predicate)).length;
 }
@@ -0,0 +1,110 @@
+import { type DiscountCode, type Order, type OrderDiscount, type OrderItem, type TicketTier, type TierPriceWindow } from '../types';
+
+// Ticket prices and discount codes. A tier's price can change over time
+// through its `priceSchedule`, e.g. an early-bird window before the regular
+// price. A discount code takes a percentage or a fixed amount off each seat it
+// applies to, and can be limited to some tiers, a validity window, a minimum
+// number of seats and a number of uses. The server prices and checks
+// everything when an order is placed; the registration form only previews it.
+// Shared by the backend and the browser-mode API.
+
+/** The window of the tier's price schedule in force at `now`, if any. */
+export const activePriceWindow = (tier: TicketTier, now = Date.now()): TierPriceWindow | undefined =>
+    (tier.priceSchedule || []).find(w => (w.startsAt ?? -Infinity) <= now && now < (w.endsAt ?? Infinity));
+
+/** What a seat in the tier costs at `now`. */
+export const tierPrice = (tier: TicketTier, now = Date.now()) => Number(activePriceWindow(tier, now)?.price ?? tier.price) || 0;
+
+/** Why the tier's price schedule cannot be saved, or null. */
+export const priceScheduleProblem = (schedule: TierPriceWindow[]) => {
+    for (const w of schedule) {
+        if (!w.label?.trim()) return 'Give each price window a name.';
+        if (!Number.isFinite(w.price) || w.price < 0) return `Enter a price for ${w.label}.`;
+        if (w.startsAt === undefined && w.endsAt === undefined) return `Set when ${w.label} starts or ends.`;
+        if (w.startsAt !== undefined && w.endsAt !== undefined && w.endsAt <= w.startsAt) return `${w.label} must end after it starts.`;
+    }
+    const overlapping = schedule.some((a, i) => schedule.some((b, j) =>
+        i < j && (a.startsAt ?? -Infinity) < (b.endsAt ?? Infinity) && (b.startsAt ?? -Infinity) < (a.endsAt ?? Infinity)));
+    return overlapping ? 'Price windows must not overlap.' : null;
+};
+
+/** Codes are matched case-insensitively and stored in upper case. */
+export const normalizeCode = (code: unknown) => String(code ?? '').trim().toUpperCase();
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/**
+ * The discount the code gives on the priced items, or why it cannot be used.
+ * `heldUses` counts unpaid orders that have reserved a use of it.
+ */
+export const priceDiscount = (code: DiscountCode | null | undefined, items: OrderItem[], now = Date.now(), heldUses = 0): OrderDiscount | string => {
+    if (!code || !code.active) return 'This discount code is not valid.';
+    if (code.startsAt && now < code.startsAt) return 'This discount code is not valid yet.';
+    if (code.endsAt && now >= code.endsAt) return 'This discount code has expired.';
+    if (code.maxUses && (code.used || 0) + heldUses >= code.maxUses) return 'This discount code has been used up.';
+    const eligible = items.filter(item => item.quantity > 0 && (!code.ticketTierIds?.length || code.ticketTierIds.includes(item.ticketTierId)));
+    const seats = eligible.reduce((n, item) => n + item.quantity, 0);
+    if (seats === 0) return 'This discount code does not apply to the chosen tickets.';
+    if (code.minSeats && seats < code.minSeats) return `This discount code needs at least ${code.minSeats} eligible seats.`;
+    // Never more than the seat costs, so a generous fixed code makes a seat free rather than paying out.
+    const amount = eligible.reduce((sum, item) =>
+        sum + item.quantity * Math.min(item.unitPrice, code.kind === 'percentage' ? item.unitPrice * code.amount / 100 : code.amount), 0);
+    return { codeId: code.id, code: code.code, amount: Math.round(amount * 100) / 100 };
+};
+
+/** The settings of a discount code from an admin's form, or why they cannot be saved. */
+export const discountCodeFields = (body: any): Partial<DiscountCode> | string => {
+    const code = normalizeCode(body.code);
+    if (!CODE_PATTERN.test(code)) return 'Codes are 3 to 32 letters, digits, dashes or underscores.';
+    if (body.kind !== 'percentage' && body.kind !== 'fixed') return 'Choose a percentage or a fixed amount off.';
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return 'Enter how much the code takes off.';
+    if (body.kind === 'percentage' && amount > 100) return 'A percentage cannot be more than 100.';
+    const count = (value: unknown) => value === undefined || value === null || value === '' ? undefined : Number(value);
+    const maxUses = count(body.maxUses);
+    const minSeats = count(body.minSeats);
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 0)) return 'Enter a whole number of uses.';
+    if (minSeats !== undefined && (!Number.isInteger(minSeats) || minSeats < 0)) return 'Enter a whole number of seats.';
+    const startsAt = count(body.startsAt);
+    const endsAt = count(body.endsAt);
+    if ((startsAt !== undefined && !Number.isFinite(startsAt)) || (endsAt !== undefined && !Number.isFinite(endsAt))) return 'Enter valid dates.';
+    if (startsAt !== undefined && endsAt !== undefined && endsAt <= startsAt) return 'The code must end after it starts.';
+    return {
+        code,
+        description: typeof body.description === 'string' ? body.description.trim().slice(0, 200) : '',
+        kind: body.kind,
+        amount,
+        ticketTierIds: Array.isArray(body.ticketTierIds) ? body.ticketTierIds.filter((id: unknown) => typeof id === 'string') : [],
+        maxUses: maxUses || undefined,
+        minSeats: minSeats || undefined,
+        startsAt,
+        endsAt,
+        active: body.active !== false
+    };
+};
+
+export interface DiscountUsage {
+    codeId: string;
+    code: string;
+    /** Orders that used the code. */
+    uses: number;
+    seats: number;
+    /** Taken off in all, and paid after the discount. */
+    discounted: number;
+    revenue: number;
+}
+
+/** How much each code has been used, from the paid orders. Refunded orders are left out. */
+export const discountUsage = (codes: DiscountCode[], orders: Order[]): DiscountUsage[] =>
+    codes.map(code => {
+        const paid = orders.filter(o => o.status === 'paid' && o.discount?.codeId === code.id);
+        const sum = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100;
+        return {
+            codeId: code.id,
+            code: code.code,
+            uses: paid.length,
+            seats: paid.reduce((n, o) => n + o.items.reduce((m, item) => m + item.quantity, 0), 0),
+            discounted: sum(paid.map(o => o.discount!.amount)),
+            revenue: sum(paid.map(o => o.total))
+        };
+    });
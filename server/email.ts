@@ -57,6 +57,8 @@ export const sendEmail = async (payload: EmailPayload, config: EventConfig): Pro
     ------------------------------------------------
     BODY:
     ${payload.body}
+    ------------------------------------------------
+    ATTACHMENTS: ${payload.attachments?.map(a => `${a.filename} (${a.content.length} bytes)`).join(', ') || 'None'}
     ================================================
   `);
   
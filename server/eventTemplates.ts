@@ -0,0 +1,93 @@
+import { type EventTemplate } from '../types';
+
+// Cloning and templates. An event's setup (config, form, tickets, agenda,
+// venue, accommodation and dining) is captured as a snapshot: either copied
+// straight into a new event, or saved as a reusable `event_templates` row.
+// Registrations and everything delegates create are never copied.
+
+/** Tables copied into a new event, parents before the rows that refer to them. */
+export const TEMPLATE_TABLES = [
+    'speakers', 'sponsors', 'sessions', 'ticket_tiers', 'venue_maps', 'hotels', 'rooms', 'meal_plans'
+] as const;
+
+type TemplateTable = typeof TEMPLATE_TABLES[number];
+
+export type EventSnapshot = Pick<EventTemplate, 'eventType' | 'config' | 'tables'>;
+
+export interface CloneOptions {
+    eventId: string;
+    name: string;
+    /** Days added to every session time and to an ISO event date. */
+    dayShift?: number;
+}
+
+const ROW_BOOKKEEPING = ['eventId', 'version', 'updatedAt'];
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const newId = (table: string) => `${table}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+
+const blankRow = (table: TemplateTable, row: any) => {
+    const copy = clone(row);
+    ROW_BOOKKEEPING.forEach(field => delete copy[field]);
+    if (table === 'ticket_tiers') copy.sold = 0;
+    if (table === 'rooms') copy.status = 'Available';
+    return copy;
+};
+
+/** Captures an event's setup; `tables` holds the event's rows of each TEMPLATE_TABLES table. */
+export const snapshotEvent = (event: any, tables: Record<string, any[]>): EventSnapshot => ({
+    eventType: event.eventType || event.config?.event?.eventType || 'Conference',
+    config: clone(event.config),
+    tables: Object.fromEntries(TEMPLATE_TABLES.map(table => [table, (tables[table] || []).map(row => blankRow(table, row))]))
+});
+
+/**
+ * Moves the calendar date at the start of an ISO date or date-time by whole
+ * days, keeping the time and offset as written. Other values are returned as is.
+ */
+export const shiftDate = (value: unknown, days: number) => {
+    if (typeof value !== 'string' || !days) return value;
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return value;
+    const shifted = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + days));
+    return shifted.toISOString().slice(0, 10) + value.slice(10);
+};
+
+/**
+ * Rows and config for a new event built from a snapshot. Every row gets a new
+ * id, and references between copied rows (session speakers, hotel rooms, map
+ * pins) follow them.
+ */
+export const instantiateSnapshot = (snapshot: EventSnapshot, options: CloneOptions) => {
+    const dayShift = options.dayShift || 0;
+    const ids = new Map<string, string>();
+    TEMPLATE_TABLES.forEach(table => (snapshot.tables[table] || []).forEach(row => ids.set(row.id, newId(table))));
+    const remap = (id: string) => ids.get(id) || id;
+
+    const tables: Record<string, any[]> = {};
+    TEMPLATE_TABLES.forEach(table => {
+        tables[table] = (snapshot.tables[table] || []).map(source => {
+            const row = { ...blankRow(table, source), id: remap(source.id), eventId: options.eventId };
+            if (table === 'sessions') {
+                row.speakerIds = (row.speakerIds || []).map(remap);
+                row.startTime = shiftDate(row.startTime, dayShift);
+                row.endTime = shiftDate(row.endTime, dayShift);
+            }
+            if (table === 'rooms') row.hotelId = remap(row.hotelId);
+            if (table === 'venue_maps') {
+                row.pins = (row.pins || []).map((pin: any) => pin.linkedId ? { ...pin, linkedId: remap(pin.linkedId) } : pin);
+            }
+            return row;
+        });
+    });
+
+    const config = clone(snapshot.config);
+    config.event = { ...config.event, name: options.name, date: shiftDate(config.event?.date, dayShift) as string };
+    if (config.githubSync) config.githubSync = { ...config.githubSync, lastSyncTimestamp: undefined, lastSyncStatus: undefined };
+
+    return {
+        event: { id: options.eventId, name: options.name, eventType: snapshot.eventType, created_at: Date.now(), config },
+        tables
+    };
+};
@@ -0,0 +1,198 @@
+import { type FormField, type FormFieldCondition, type FormFieldType } from '../types';
+
+// Custom registration form fields. Each type stores its answer in one shape
+// (see `FormAnswer`), may carry validation rules and may be shown only when
+// earlier answers or the chosen ticket tier match its conditions. The same
+// checks run in the form, on import and in the register endpoint. Shared by
+// the backend and the browser.
+
+export const FORM_FIELD_TYPES: Record<FormFieldType, string> = {
+    text: 'Text (Single Line)',
+    textarea: 'Text Area (Multi-line)',
+    dropdown: 'Dropdown',
+    multiselect: 'Multi-select',
+    checkbox: 'Checkbox',
+    consent: 'Consent',
+    date: 'Date',
+    number: 'Number',
+    phone: 'Phone Number',
+    email: 'Email Address',
+    file: 'File Upload'
+};
+
+/** Types whose answer is picked from `options`. */
+export const CHOICE_FIELD_TYPES: FormFieldType[] = ['dropdown', 'multiselect'];
+
+/** Types whose answer is text that `validation.pattern` applies to. */
+export const PATTERN_FIELD_TYPES: FormFieldType[] = ['text', 'textarea', 'phone', 'email'];
+
+/** Conditions on this id test the chosen ticket tier. */
+export const TICKET_TIER_CONDITION = 'ticketTierId';
+
+/** The upload limit when a file field sets no smaller `validation.max`. */
+export const MAX_FORM_FILE_MB = 10;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isBooleanType = (type: FormFieldType) => type === 'checkbox' || type === 'consent';
+
+/** An answer as a list of non-empty strings; a ticked box is `Yes`. */
+export const answerValues = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String).filter(v => v.trim() !== '');
+    if (typeof value === 'boolean') return value ? ['Yes'] : [];
+    if (value === undefined || value === null) return [];
+    const text = String(value).trim();
+    return text ? [text] : [];
+};
+
+/** An answer as one line of text, for exports, emails and detail views. */
+export const formatAnswer = (value: unknown) =>
+    typeof value === 'boolean' ? (value ? 'Yes' : 'No') : answerValues(value).join('; ');
+
+const conditionHolds = (condition: FormFieldCondition, answers: Record<string, unknown>) => {
+    const actual = answerValues(answers[condition.fieldId]);
+    const expected = condition.values || [];
+    if (condition.operator === 'answered') return actual.length > 0;
+    const matches = actual.some(v => expected.includes(v));
+    return condition.operator === 'isNot' ? !matches : matches;
+};
+
+/**
+ * The enabled fields whose conditions hold, in form order. A field hidden
+ * here counts as unanswered for the conditions of the fields after it, so a
+ * chain of follow-up questions collapses together.
+ */
+export const visibleFormFields = (fields: FormField[], answers: Record<string, unknown>) => {
+    const seen = { ...answers };
+    return fields.filter(field => {
+        const shown = field.enabled && (field.showIf || []).every(c => conditionHolds(c, seen));
+        if (!shown) delete seen[field.id];
+        return shown;
+    });
+};
+
+const numberBound = (bound?: string) => (bound?.trim() && !isNaN(Number(bound)) ? Number(bound) : undefined);
+
+/** Why an answer is not acceptable for a shown field, or null. */
+export const fieldAnswerError = (field: FormField, value: unknown): string | null => {
+    const values = answerValues(value);
+    if (values.length === 0) {
+        if (!field.required) return null;
+        return field.type === 'consent' ? `You must agree to ${field.label}.` : `${field.label} is required.`;
+    }
+    const rules = field.validation || {};
+    const min = numberBound(rules.min);
+    const max = numberBound(rules.max);
+
+    if (isBooleanType(field.type)) {
+        return typeof value === 'boolean' ? null : `${field.label} must be ticked or left blank.`;
+    }
+    if (field.type === 'multiselect') {
+        if (!Array.isArray(value)) return `${field.label} must be a list of options.`;
+        const unknown = values.find(v => !(field.options || []).includes(v));
+        if (unknown) return `"${unknown}" is not an option for ${field.label}.`;
+        if (min !== undefined && values.length < min) return `Choose at least ${min} for ${field.label}.`;
+        if (max !== undefined && values.length > max) return `Choose at most ${max} for ${field.label}.`;
+        return null;
+    }
+    if (typeof value !== 'string') return `${field.label} must be text.`;
+    const text = value.trim();
+
+    switch (field.type) {
+        case 'dropdown':
+            return field.options?.length && !field.options.includes(text) ? `"${text}" is not an option for ${field.label}.` : null;
+        case 'number': {
+            const n = Number(text);
+            if (isNaN(n)) return `${field.label} must be a number.`;
+            if (min !== undefined && n < min) return `${field.label} must be at least ${min}.`;
+            if (max !== undefined && n > max) return `${field.label} must be at most ${max}.`;
+            return null;
+        }
+        case 'date':
+            // ISO dates compare correctly as strings.
+            if (!DATE_PATTERN.test(text) || isNaN(Date.parse(text))) return `${field.label} must be a date (YYYY-MM-DD).`;
+            if (rules.min && text < rules.min) return `${field.label} must be on or after ${rules.min}.`;
+            if (rules.max && text > rules.max) return `${field.label} must be on or before ${rules.max}.`;
+            return null;
+        case 'file':
+            return null;
+        case 'email':
+            if (!EMAIL_PATTERN.test(text)) return `${field.label} must be a valid email address.`;
+            break;
+        case 'phone':
+            if (!PHONE_PATTERN.test(text) || text.replace(/\D/g, '').length < 6) return `${field.label} must be a valid phone number.`;
+            break;
+    }
+
+    if (min !== undefined && text.length < min) return `${field.label} must be at least ${min} characters.`;
+    if (max !== undefined && text.length > max) return `${field.label} must be at most ${max} characters.`;
+    if (rules.pattern && PATTERN_FIELD_TYPES.includes(field.type)) {
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(`^(?:${rules.pattern})$`);
+        } catch {
+            // A broken pattern is caught when the field is saved; never lock delegates out because of one.
+            return null;
+        }
+        if (!pattern.test(text)) return rules.patternMessage || `${field.label} is not in the expected format.`;
+    }
+    return null;
+};
+
+/**
+ * Checks every shown field of a submitted form. `hidden` lists the custom
+ * fields that are disabled or whose conditions do not hold; their answers are
+ * not kept.
+ */
+export const checkFormAnswers = (fields: FormField[], answers: Record<string, unknown>) => {
+    const visible = visibleFormFields(fields, answers);
+    const errors: Record<string, string> = {};
+    visible.forEach(field => {
+        const error = fieldAnswerError(field, answers[field.id]);
+        if (error) errors[field.id] = error;
+    });
+    const hidden = fields.filter(f => !visible.includes(f)).map(f => f.id);
+    return { errors, hidden };
+};
+
+/** The largest upload a file field takes, in bytes. */
+export const maxFileBytes = (field: FormField) =>
+    Math.min(numberBound(field.validation?.max) ?? MAX_FORM_FILE_MB, MAX_FORM_FILE_MB) * 1024 * 1024;
+
+/** Whether a file matches a field's `accept` list, e.g. `.pdf,image/*`. No list accepts anything. */
+export const acceptsFile = (field: FormField, fileName: string, mimeType: string) => {
+    const patterns = (field.accept || '').split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+    const name = fileName.toLowerCase();
+    const type = mimeType.toLowerCase();
+    return patterns.length === 0 || patterns.some(p =>
+        p.startsWith('.') ? name.endsWith(p) : p.endsWith('/*') ? type.startsWith(p.slice(0, -1)) : type === p
+    );
+};
+
+/** Why a field's own settings cannot be saved, or null. */
+export const formFieldProblem = (field: FormField, earlierFields: FormField[]) => {
+    if (!field.label?.trim()) return 'Label is required.';
+    if (CHOICE_FIELD_TYPES.includes(field.type) && !field.options?.length) {
+        return 'Options are required for this field type. Please enter at least one option per line.';
+    }
+    const rules = field.validation || {};
+    if (rules.pattern) {
+        try {
+            new RegExp(rules.pattern);
+        } catch {
+            return 'The validation pattern is not a valid regular expression.';
+        }
+    }
+    for (const bound of [rules.min, rules.max]) {
+        if (!bound?.trim()) continue;
+        if (field.type === 'date' ? !DATE_PATTERN.test(bound) : isNaN(Number(bound))) {
+            return field.type === 'date' ? 'Date limits must be dates (YYYY-MM-DD).' : 'Minimum and maximum must be numbers.';
+        }
+    }
+    const allowed = new Set([TICKET_TIER_CONDITION, ...earlierFields.map(f => f.id)]);
+    if ((field.showIf || []).some(c => !allowed.has(c.fieldId))) return 'Conditions can only refer to earlier fields or the ticket tier.';
+    if ((field.showIf || []).some(c => c.operator !== 'answered' && !c.values?.length)) return 'Choose at least one value for each condition.';
+    return null;
+};
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { type RegistrationData, type EventConfig, type EmailContent, type NetworkingProfile } from '../types';
+import { formatAnswer } from './formFields';
 
 // Helper to initialize the client lazily.
 // We strictly use process.env.API_KEY as per coding guidelines.
@@ -67,7 +68,7 @@ export const generateRegistrationEmails = async (
 
   const customFieldsString = formFields
     .filter(field => field.enabled && customData[field.id])
-    .map(field => `${field.label}: ${customData[field.id]}`)
+    .map(field => `${field.label}: ${formatAnswer(customData[field.id])}`)
     .join('\n');
 
   const prompt = `
@@ -212,7 +213,7 @@ export const generateDelegateUpdateEmail = async (
     
     const customFieldsString = formFields
         .filter(field => field.enabled && customData[field.id])
-        .map(field => `${field.label}: ${customData[field.id]}`)
+        .map(field => `${field.label}: ${formatAnswer(customData[field.id])}`)
         .join('\n');
 
     const prompt = `
@@ -244,21 +245,24 @@ export const generateDelegateUpdateEmail = async (
 
 export const generateWaitlistPromotionEmail = async (
     config: EventConfig,
-    delegate: RegistrationData
+    delegate: RegistrationData,
+    offer: { acceptLink: string; expiresAt: string }
 ): Promise<EmailContent> => {
     const ai = getAiClient();
     const { name } = delegate;
     const { event, host } = config;
 
     const prompt = `
-        Write an exciting and professional email to "${name}" informing them that a spot has opened up for "${event.name}" and they have been moved from the waitlist to confirmed status.
+        Write an exciting and professional email to "${name}" informing them that a spot has opened up for "${event.name}" and it is being held for them from the waitlist.
+        They must claim it before ${offer.expiresAt}, after which it goes to the next person on the waitlist.
         Signed by "The ${host.name} Team".
         
         Include details:
         - Event Date: ${event.date}
         - Location: ${event.location}
+        - Link to claim the spot: ${offer.acceptLink}
         
-        The subject should be catchy like "You're in! Your spot at ${event.name} is confirmed".
+        The subject should be catchy like "A spot just opened up for you at ${event.name}".
     `;
     
     try {
@@ -0,0 +1,74 @@
+import { type GroupSeat, type RegistrationGroup, type TicketTier } from '../types';
+import { type SeatHold } from './waitlist';
+import { tierPrice } from './discounts';
+
+// Group registrations. One purchaser buys seats in one or more ticket tiers
+// and pays once. The seats are held against capacity until the purchaser names
+// an attendee for each and that person claims it through an emailed link,
+// which registers them like anyone else. Seats nobody has claimed yet can be
+// reassigned. Shared by the backend and the browser-mode API.
+
+/** The most seats one group order can hold. */
+export const MAX_GROUP_SEATS = 100;
+
+export interface GroupOrderItem {
+    ticketTierId: string;
+    quantity: number;
+}
+
+export interface GroupQuote {
+    total: number;
+    currency: string;
+    seats: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Prices an order from the tiers on sale at `now`, or says why it cannot be bought. */
+export const priceGroupOrder = (items: GroupOrderItem[], tiers: TicketTier[], now = Date.now()): GroupQuote | string => {
+    const wanted = items.filter(item => Number(item.quantity) !== 0);
+    if (wanted.length === 0) return 'Choose at least one seat.';
+    let total = 0;
+    let seats = 0;
+    const currencies = new Set<string>();
+    for (const item of wanted) {
+        const tier = tiers.find(t => t.id === item.ticketTierId);
+        if (!tier || !tier.active) return 'One of the chosen tickets is no longer on sale.';
+        if (!Number.isInteger(item.quantity) || item.quantity < 0) return `Enter a whole number of seats for ${tier.name}.`;
+        total += tierPrice(tier, now) * item.quantity;
+        seats += item.quantity;
+        currencies.add(tier.currency || 'USD');
+    }
+    if (seats > MAX_GROUP_SEATS) return `A group can book at most ${MAX_GROUP_SEATS} seats.`;
+    if (currencies.size > 1) return 'Tickets priced in different currencies must be bought separately.';
+    // Rounded to the cent so sums of prices like 0.1 do not drift.
+    return { total: Math.round(total * 100) / 100, currency: [...currencies][0], seats };
+};
+
+/** One open seat per ticket ordered, numbered in order. */
+export const newGroupSeats = (items: GroupOrderItem[]): GroupSeat[] =>
+    items.flatMap(item => Array.from({ length: item.quantity }, () => ({ ticketTierId: item.ticketTierId, status: 'open' as const })))
+        .map((seat, index) => ({ id: `seat_${index + 1}`, ...seat }));
+
+/** The seats of these groups still held for someone, for the capacity checks in `server/waitlist.ts`. */
+export const unclaimedSeats = (groups: RegistrationGroup[]): SeatHold[] =>
+    groups.flatMap(group => group.seats.filter(seat => seat.status !== 'claimed').map(seat => ({ ticketTierId: seat.ticketTierId })));
+
+export const groupSeatCounts = (group: RegistrationGroup) => ({
+    total: group.seats.length,
+    open: group.seats.filter(s => s.status === 'open').length,
+    invited: group.seats.filter(s => s.status === 'invited').length,
+    claimed: group.seats.filter(s => s.status === 'claimed').length
+});
+
+/** Why a seat cannot be given to this attendee, or null. An empty email frees the seat. */
+export const seatAssignmentProblem = (group: RegistrationGroup, seatId: string, email: string) => {
+    const seat = group.seats.find(s => s.id === seatId);
+    if (!seat) return 'This seat is not part of the group.';
+    if (seat.status === 'claimed') return 'This seat has already been claimed and can no longer be reassigned.';
+    const address = email.trim().toLowerCase();
+    if (!address) return null;
+    if (!EMAIL_PATTERN.test(address)) return 'Enter a valid email address.';
+    const taken = group.seats.find(s => s.id !== seatId && s.status !== 'open' && s.attendeeEmail?.toLowerCase() === address);
+    return taken ? `${email.trim()} already has a seat in this group.` : null;
+};
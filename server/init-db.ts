@@ -1,13 +1,11 @@
 
 import { Pool } from 'pg';
-import * as fs from 'fs';
-import * as path from 'path';
 import * as dotenv from 'dotenv';
 import bcrypt from 'bcrypt';
+import { runMigrations } from './migrate';
 
 // Fix for missing Node.js types and shadowed globals
 declare var process: any;
-declare var __dirname: string;
 
 dotenv.config();
 
@@ -21,13 +19,9 @@ async function initDb() {
     try {
         console.log('🔌 Connected to database...');
 
-        // Read schema file
-        const schemaPath = path.join(__dirname, 'schema.sql');
-        const schemaSql = fs.readFileSync(schemaPath, 'utf8');
-
         console.log('⚙️  Running schema migrations...');
-        await client.query(schemaSql);
-        console.log('✅ Schema applied successfully.');
+        const applied = await runMigrations(pool);
+        console.log(`✅ Schema applied successfully (${applied.length} new migration(s)).`);
 
         // Seed Initial Roles
         console.log('🌱 Seeding roles...');
@@ -40,8 +34,8 @@ async function initDb() {
         const checkRole = await client.query('SELECT id FROM roles WHERE id = $1', ['role_super_admin']);
         if (checkRole.rows.length === 0) {
              await client.query(
-                'INSERT INTO roles (id, name, description, permissions) VALUES ($1, $2, $3, $4)',
-                ['role_super_admin', 'Super Admin', 'Full access to all system features.', permissions]
+                'INSERT INTO roles (id, data) VALUES ($1, $2)',
+                ['role_super_admin', { id: 'role_super_admin', name: 'Super Admin', description: 'Full access to all system features.', permissions }]
             );
             console.log('   Created Super Admin role.');
         }
@@ -49,13 +43,13 @@ async function initDb() {
         // Seed Initial Admin User
         console.log('🌱 Seeding default admin user...');
         const adminEmail = 'admin@example.com';
-        const checkUser = await client.query('SELECT id FROM admin_users WHERE email = $1', [adminEmail]);
+        const checkUser = await client.query(`SELECT id FROM admin_users WHERE data->>'email' = $1`, [adminEmail]);
         
         if (checkUser.rows.length === 0) {
             const passwordHash = await bcrypt.hash('password', 10);
             await client.query(
-                'INSERT INTO admin_users (id, email, password_hash, role_id, created_at) VALUES ($1, $2, $3, $4, $5)',
-                ['user_admin_01', adminEmail, passwordHash, 'role_super_admin', Date.now()]
+                'INSERT INTO admin_users (id, data) VALUES ($1, $2)',
+                ['user_admin_01', { id: 'user_admin_01', email: adminEmail, password_hash: passwordHash, roleId: 'role_super_admin', createdAt: Date.now() }]
             );
             console.log('   Created default admin: admin@example.com / password');
         } else {
@@ -68,8 +62,8 @@ async function initDb() {
          if (checkEvent.rows.length === 0) {
              // We insert a minimal config, the app handles defaults if missing
              await client.query(
-                 'INSERT INTO events (id, name, config, created_at) VALUES ($1, $2, $3, $4)',
-                 ['main-event', 'Tech Summit 2025', '{}', Date.now()]
+                 'INSERT INTO events (id, data) VALUES ($1, $2)',
+                 ['main-event', { id: 'main-event', name: 'Tech Summit 2025', config: {}, created_at: Date.now() }]
              );
              console.log('   Created default event: main-event');
          }
@@ -0,0 +1,184 @@
+import { type BillingConfig, type EventConfig, type Invoice, type InvoiceLine, type InvoiceParty, type Order, type OrderBilling, type TaxRate, type TicketTier } from '../types';
+import { type ExportTable } from './registrationExport';
+
+// Invoices. Every paid order gets one, numbered within its event in the order
+// payments arrive: the billing settings' prefix and a sequence with no gaps.
+// Ticket prices include tax. Each line's share is worked out from the rate for
+// its tier and the buyer's country; with `reverseCharge` on, a business in
+// another country that gives a VAT ID is charged none. An invoice is a
+// snapshot, so later changes to the settings or refunds leave it as issued.
+// The PDFs, of the invoice or a receipt for the payment, are drawn in the
+// browser (see `utils/invoicePdf.ts`). Shared by the backend and the
+// browser-mode API.
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const DEFAULT_INVOICE_PREFIX = 'INV-';
+
+/** The number printed on the event's `sequence`th invoice, e.g. INV-00042. */
+export const invoiceNumber = (prefix: string | undefined, sequence: number) =>
+    `${prefix ?? DEFAULT_INVOICE_PREFIX}${String(sequence).padStart(5, '0')}`;
+
+const countryCode = (country?: string) => (country || '').trim().toUpperCase();
+
+/**
+ * The tax on a line of the tier sold to a buyer in `country`: a rate for both
+ * the tier and the country comes first, then one for the tier, then one for
+ * the country, then the default.
+ */
+export const taxRateFor = (billing: BillingConfig | undefined, ticketTierId: string | undefined, country: string | undefined) => {
+    const rates = billing?.taxRates || [];
+    const buyer = countryCode(country);
+    const matches = (rate: TaxRate, tier: boolean, byCountry: boolean) =>
+        (tier ? !!ticketTierId && rate.ticketTierId === ticketTierId : !rate.ticketTierId)
+        && (byCountry ? !!buyer && countryCode(rate.country) === buyer : !rate.country);
+    const found = rates.find(r => matches(r, true, true)) || rates.find(r => matches(r, true, false)) || rates.find(r => matches(r, false, true));
+    return found ? { rate: found.rate, label: found.label } : { rate: billing?.defaultTaxRate || 0, label: undefined };
+};
+
+/** Whether the buyer accounts for the VAT themselves. */
+export const reverseChargeApplies = (billing: BillingConfig | undefined, buyer: OrderBilling | undefined) =>
+    !!billing?.reverseCharge && !!buyer?.vatId && !!countryCode(buyer.country) && !!countryCode(billing.country)
+        && countryCode(buyer.country) !== countryCode(billing.country);
+
+/** A line of `total`, tax included, split into its net amount and tax. */
+const taxedLine = (line: Omit<InvoiceLine, 'net' | 'tax' | 'taxRate' | 'taxLabel'>, tax: { rate: number; label?: string }): InvoiceLine => {
+    const net = round(line.total / (1 + tax.rate / 100));
+    return { ...line, taxRate: tax.rate, ...(tax.label ? { taxLabel: tax.label } : {}), net, tax: round(line.total - net) };
+};
+
+/**
+ * The order's lines. A discount is shared between the lines in proportion to
+ * their price, the last one taking what rounding leaves over.
+ */
+export const invoiceLines = (order: Order, config: Pick<EventConfig, 'billing'> & { eventCoin?: { name: string } }, tiers: TicketTier[]): InvoiceLine[] => {
+    const reverse = reverseChargeApplies(config.billing, order.billing);
+    const taxFor = (ticketTierId?: string) => reverse ? { rate: 0 } : taxRateFor(config.billing, ticketTierId, order.billing?.country);
+    if (order.kind === 'coins') {
+        return [taxedLine({
+            description: `${order.details.coins} ${config.eventCoin?.name || 'EventCoins'}`,
+            quantity: 1, unitPrice: order.total, discount: 0, total: order.total
+        }, taxFor())];
+    }
+    const subtotal = order.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+    let discountLeft = order.discount?.amount || 0;
+    return order.items.map((item, i) => {
+        const gross = round(item.quantity * item.unitPrice);
+        const discount = i === order.items.length - 1 ? round(discountLeft) : round(subtotal > 0 ? (order.discount?.amount || 0) * gross / subtotal : 0);
+        discountLeft -= discount;
+        return taxedLine({
+            description: tiers.find(t => t.id === item.ticketTierId)?.name || 'Ticket',
+            quantity: item.quantity, unitPrice: item.unitPrice, discount, total: round(gross - discount)
+        }, taxFor(item.ticketTierId));
+    });
+};
+
+/** Whether the order is owed an invoice: it has been paid for, and was not free. */
+export const needsInvoice = (order: Order) => (order.status === 'paid' || order.status === 'refunded') && !!order.paidAt && order.total > 0;
+
+/** The seller: the billing settings' entity, or the event's host. */
+export const invoiceSeller = (config: Pick<EventConfig, 'billing' | 'host'>): InvoiceParty => {
+    const billing = config.billing;
+    return {
+        name: billing?.companyName?.trim() || config.host?.name || '',
+        email: billing?.email?.trim() || config.host?.email,
+        ...(billing?.address?.trim() ? { address: billing.address.trim() } : {}),
+        ...(billing?.country?.trim() ? { country: countryCode(billing.country) } : {}),
+        ...(billing?.vatId?.trim() ? { vatId: billing.vatId.trim() } : {})
+    };
+};
+
+/** The `sequence`th invoice of the order's event, for the paid order. */
+export const newInvoice = (
+    order: Order,
+    sequence: number,
+    config: Pick<EventConfig, 'billing' | 'host'> & { eventCoin?: { name: string } },
+    tiers: TicketTier[],
+    now = Date.now()
+): Invoice => {
+    const lines = invoiceLines(order, config, tiers);
+    const reverseCharge = reverseChargeApplies(config.billing, order.billing);
+    const company = order.billing?.company || order.details?.company;
+    return {
+        id: `inv_${order.id}`,
+        eventId: order.eventId,
+        orderId: order.id,
+        sequence,
+        number: invoiceNumber(config.billing?.invoicePrefix, sequence),
+        email: order.email,
+        issuedAt: now,
+        paidAt: order.paidAt || now,
+        ...(order.paymentIntentId ? { paymentReference: order.paymentIntentId } : {}),
+        currency: order.currency,
+        seller: invoiceSeller(config),
+        buyer: { name: order.name, email: order.email, ...order.billing, ...(company ? { company: String(company) } : {}) },
+        lines,
+        net: round(lines.reduce((sum, line) => sum + line.net, 0)),
+        tax: round(lines.reduce((sum, line) => sum + line.tax, 0)),
+        total: order.total,
+        ...(reverseCharge ? { reverseCharge } : {}),
+        ...(config.billing?.footer?.trim() ? { footer: config.billing.footer.trim() } : {})
+    };
+};
+
+/** The buyer's invoicing details from a checkout request, undefined when none were given, or why they are not valid. */
+export const orderBillingFields = (body: any): OrderBilling | undefined | string => {
+    if (body === undefined || body === null) return undefined;
+    if (typeof body !== 'object') return 'Invalid billing details.';
+    const text = (value: unknown, max: number) => typeof value === 'string' ? value.trim().slice(0, max) : '';
+    const billing: OrderBilling = {
+        company: text(body.company, 200),
+        vatId: text(body.vatId, 30).replace(/[\s.-]/g, '').toUpperCase(),
+        address: text(body.address, 500),
+        country: countryCode(text(body.country, 10))
+    };
+    if (billing.country && !/^[A-Z]{2}$/.test(billing.country)) return 'Choose the country by its two-letter code, e.g. DE.';
+    if (billing.vatId && !/^[A-Z0-9]{4,20}$/.test(billing.vatId)) return 'The VAT ID is not valid.';
+    if (billing.vatId && !billing.company) return 'Enter the company the VAT ID belongs to.';
+    const given = Object.fromEntries(Object.entries(billing).filter(([, value]) => value));
+    return Object.keys(given).length > 0 ? given : undefined;
+};
+
+/** Why the billing settings cannot be saved, or null. */
+export const billingConfigProblem = (billing: BillingConfig | undefined) => {
+    if (!billing) return null;
+    const validRate = (rate: number) => Number.isFinite(rate) && rate >= 0 && rate <= 100;
+    if (!validRate(billing.defaultTaxRate)) return 'Tax rates are between 0 and 100 percent.';
+    if (billing.country && !/^[A-Z]{2}$/i.test(billing.country.trim())) return 'Enter the seller\'s country as a two-letter code, e.g. DE.';
+    if ((billing.invoicePrefix || '').length > 20) return 'The invoice prefix can be at most 20 characters.';
+    const seen = new Set<string>();
+    for (const rate of billing.taxRates || []) {
+        if (!validRate(rate.rate)) return 'Tax rates are between 0 and 100 percent.';
+        if (rate.country && !/^[A-Z]{2}$/i.test(rate.country.trim())) return 'Enter tax rate countries as two-letter codes, e.g. DE.';
+        const key = `${rate.ticketTierId || ''}|${countryCode(rate.country)}`;
+        if (key === '|') return 'Each tax rate needs a ticket tier, a country or both; the default rate covers the rest.';
+        if (seen.has(key)) return 'Two tax rates cover the same ticket tier and country.';
+        seen.add(key);
+    }
+    if (billing.reverseCharge && !billing.country?.trim()) return 'Reverse charge needs the seller\'s country.';
+    return null;
+};
+
+const money = (amount: number) => amount.toFixed(2);
+
+/** The invoices as a ledger for accounting, one row per invoice, for `renderExport` in `server/registrationExport.ts`. */
+export const invoiceLedger = (invoices: Invoice[]): ExportTable => ({
+    headers: ['Invoice', 'Issued', 'Paid', 'Order', 'Buyer', 'Email', 'Company', 'VAT ID', 'Country', 'Currency', 'Net', 'Tax', 'Total', 'Tax Rates', 'Reverse Charge'],
+    rows: [...invoices].sort((a, b) => a.sequence - b.sequence).map(invoice => [
+        invoice.number,
+        new Date(invoice.issuedAt).toISOString(),
+        new Date(invoice.paidAt).toISOString(),
+        invoice.orderId,
+        invoice.buyer.name,
+        invoice.buyer.email || '',
+        invoice.buyer.company || '',
+        invoice.buyer.vatId || '',
+        invoice.buyer.country || '',
+        invoice.currency,
+        money(invoice.net),
+        money(invoice.tax),
+        money(invoice.total),
+        [...new Set(invoice.lines.map(line => `${line.taxRate}%`))].join(' '),
+        invoice.reverseCharge ? 'Yes' : 'No'
+    ])
+});
@@ -0,0 +1,104 @@
+import { type CheckInResult, type EventConfig, type Kiosk, type KioskScan, type RegistrationData } from '../types';
+import { type TicketPublicKey } from './tickets';
+
+// Kiosk fleet. An admin provisions a kiosk and gets a one-time pairing code;
+// the device trades it for its own credential. A paired kiosk keeps a roster
+// of the event's attendees and ticket keys, so it can admit delegates with the
+// network down. Its scans are queued on the device and reconciled on the
+// server, where the first admission of a registration wins. Shared by the
+// backend and the browser-mode API, so it only relies on Web Crypto.
+
+/** How long a pairing code can be used. */
+export const KIOSK_PAIRING_TTL = 24 * 60 * 60 * 1000;
+/** How often a kiosk syncs its queue and reports in. */
+export const KIOSK_SYNC_INTERVAL = 15 * 1000;
+/** Kiosks not heard from for this long show as offline in the fleet panel. */
+export const KIOSK_OFFLINE_AFTER = 2 * 60 * 1000;
+
+/** Registration fields a kiosk needs to decide scans and print badges. */
+const ROSTER_FIELDS: (keyof RegistrationData)[] = [
+    'id', 'eventId', 'name', 'email', 'company', 'role', 'photoUrl', 'ticketTierId', 'status', 'ticketVersion', 'ticketRevokedAt', 'checkedInAt'
+];
+
+/** Everything a kiosk caches to work offline. */
+export interface KioskRoster {
+    kioskId: string;
+    kioskName: string;
+    eventId: string;
+    registrations: RegistrationData[];
+    ticketKeys: TicketPublicKey[];
+    config: EventConfig;
+    fetchedAt: number;
+}
+
+/** The server's decision on one queued scan. */
+export interface KioskScanResult {
+    id: string;
+    result: CheckInResult;
+    reason?: string;
+    registrationId?: string;
+}
+
+export interface KioskSyncResponse {
+    results: KioskScanResult[];
+    /** Roster entries changed since the kiosk's last sync, including admissions by other devices. */
+    changed: RegistrationData[];
+    /** Sent back as `since` with the next sync. */
+    serverTime: number;
+}
+
+export const rosterEntry = (registration: any): RegistrationData =>
+    Object.fromEntries(ROSTER_FIELDS.filter(f => registration[f] !== undefined).map(f => [f, registration[f]])) as RegistrationData;
+
+// No 0/O or 1/I, so codes can be read off a screen and typed on a touchscreen.
+const PAIRING_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** An eight-character pairing code, shown as `XXXX-XXXX`. */
+export const newPairingCode = () => {
+    const bytes = new Uint8Array(8);
+    crypto.getRandomValues(bytes);
+    const code = Array.from(bytes, b => PAIRING_ALPHABET[b % PAIRING_ALPHABET.length]).join('');
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+export const normalizePairingCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/** SHA-256 of a pairing code or device credential, hex encoded. Only hashes are stored. */
+export const hashKioskSecret = async (secret: string) => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret)));
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const newKioskCredential = () => {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export type KioskHealth = 'online' | 'offline' | 'unpaired';
+
+export const kioskHealth = (kiosk: Kiosk, now = Date.now()): KioskHealth => {
+    if (!kiosk.pairedAt) return 'unpaired';
+    return kiosk.lastHeartbeatAt && now - kiosk.lastHeartbeatAt < KIOSK_OFFLINE_AFTER ? 'online' : 'offline';
+};
+
+/**
+ * Decides a queued scan once it reaches the server. `rejection` is why the
+ * ticket itself is not accepted, if it is not. A registration another device
+ * has already admitted makes the scan a duplicate, even if this kiosk admitted
+ * the delegate while offline.
+ */
+export const reconcileKioskScan = (
+    scan: KioskScan,
+    registration: any,
+    rejection: string | null,
+    admittedBy?: string
+): { result: CheckInResult; reason?: string } => {
+    if (rejection) return { result: 'rejected', reason: rejection };
+    if (registration.checkedInAt) {
+        const where = admittedBy ? ` by ${admittedBy}` : '';
+        const note = scan.localResult === 'admitted' ? ' This kiosk had admitted them before syncing.' : '';
+        return { result: 'duplicate', reason: `Already checked in at ${new Date(registration.checkedInAt).toISOString()}${where}.${note}` };
+    }
+    return { result: 'admitted' };
+};
@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Fix for missing Node.js types and shadowed globals
+declare var process: any;
+declare var require: any;
+declare var module: any;
+declare var __dirname: string;
+
+const SCHEMA_FILE = path.join(__dirname, 'schema.sql');
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+// Arbitrary key for pg_advisory_lock so concurrent server instances don't race.
+const MIGRATION_LOCK_ID = 7340021;
+
+export interface Migration {
+    version: string;
+    name: string;
+    file: string;
+}
+
+/**
+ * Lists the migration files in `migrations/`, ordered by version.
+ * Files are named `<version>_<name>.sql`, e.g. `001_relational_core.sql`.
+ */
+export const listMigrations = (): Migration[] => {
+    if (!fs.existsSync(MIGRATIONS_DIR)) return [];
+    return fs.readdirSync(MIGRATIONS_DIR)
+        .filter((f: string) => /^\d+_[\w-]+\.sql$/.test(f))
+        .sort()
+        .map((f: string) => {
+            const [version, ...rest] = f.replace(/\.sql$/, '').split('_');
+            return { version, name: rest.join('_'), file: path.join(MIGRATIONS_DIR, f) };
+        });
+};
+
+/**
+ * Applies `schema.sql` and then every migration that is not yet recorded in
+ * `schema_migrations`. Each migration runs in its own transaction.
+ * @returns The versions that were applied by this call.
+ */
+export const runMigrations = async (pool: Pool): Promise<string[]> => {
+    const client = await pool.connect();
+    const applied: string[] = [];
+    try {
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+        await client.query(fs.readFileSync(SCHEMA_FILE, 'utf8'));
+
+        const res = await client.query('SELECT version FROM schema_migrations');
+        const done = new Set(res.rows.map(r => r.version));
+
+        for (const migration of listMigrations()) {
+            if (done.has(migration.version)) continue;
+
+            const sql = fs.readFileSync(migration.file, 'utf8');
+            try {
+                await client.query('BEGIN');
+                await client.query(sql);
+                await client.query(
+                    'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+                    [migration.version, migration.name, Date.now()]
+                );
+                await client.query('COMMIT');
+                applied.push(migration.version);
+                console.log(`   Applied migration ${migration.version}_${migration.name}`);
+            } catch (e) {
+                await client.query('ROLLBACK');
+                throw new Error(`Migration ${migration.version}_${migration.name} failed: ${(e as Error).message}`);
+            }
+        }
+        return applied;
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+        client.release();
+    }
+};
+
+// CLI: `npm run db:migrate`
+if (require.main === module) {
+    require('dotenv').config();
+    const pool = new Pool({
+        connectionString: process.env.DATABASE_URL,
+        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+    });
+    console.log('⚙️  Running schema migrations...');
+    runMigrations(pool)
+        .then(applied => console.log(applied.length ? `✅ Applied ${applied.length} migration(s).` : '✅ Schema is up to date.'))
+        .catch(err => {
+            console.error('❌', err.message);
+            process.exitCode = 1;
+        })
+        .finally(() => pool.end());
+}
@@ -0,0 +1,119 @@
+-- Typed columns, foreign keys and indexes for the high-volume tables.
+--
+-- The JSONB `data` column stays the source of truth for the full record;
+-- DatabaseService keeps these columns in sync on every write (see
+-- TYPED_COLUMNS in backend.ts) so filters, ordering and pagination can be
+-- pushed down into SQL.
+
+-- Registrations
+ALTER TABLE registrations
+    ADD COLUMN IF NOT EXISTS event_id TEXT,
+    ADD COLUMN IF NOT EXISTS email TEXT,
+    ADD COLUMN IF NOT EXISTS name TEXT,
+    ADD COLUMN IF NOT EXISTS status TEXT,
+    ADD COLUMN IF NOT EXISTS ticket_tier_id TEXT,
+    ADD COLUMN IF NOT EXISTS created_at BIGINT;
+
+UPDATE registrations SET
+    event_id = data->>'eventId',
+    email = data->>'email',
+    name = data->>'name',
+    status = data->>'status',
+    ticket_tier_id = data->>'ticketTierId',
+    created_at = (data->>'createdAt')::BIGINT;
+
+UPDATE registrations r SET event_id = NULL
+    WHERE event_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM events e WHERE e.id = r.event_id);
+
+ALTER TABLE registrations
+    ADD CONSTRAINT registrations_event_fk FOREIGN KEY (event_id) REFERENCES events (id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS registrations_event_email_idx ON registrations (event_id, email);
+CREATE INDEX IF NOT EXISTS registrations_email_idx ON registrations (email);
+CREATE INDEX IF NOT EXISTS registrations_event_status_idx ON registrations (event_id, status);
+CREATE INDEX IF NOT EXISTS registrations_tier_idx ON registrations (ticket_tier_id);
+CREATE INDEX IF NOT EXISTS registrations_created_at_idx ON registrations (created_at DESC);
+
+-- Sessions
+ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS event_id TEXT,
+    ADD COLUMN IF NOT EXISTS title TEXT,
+    ADD COLUMN IF NOT EXISTS location TEXT,
+    ADD COLUMN IF NOT EXISTS track TEXT,
+    ADD COLUMN IF NOT EXISTS capacity INTEGER,
+    ADD COLUMN IF NOT EXISTS start_time TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS end_time TIMESTAMPTZ;
+
+UPDATE sessions SET
+    event_id = data->>'eventId',
+    title = data->>'title',
+    location = data->>'location',
+    track = data->>'track',
+    capacity = NULLIF(data->>'capacity', '')::INTEGER,
+    start_time = NULLIF(data->>'startTime', '')::TIMESTAMPTZ,
+    end_time = NULLIF(data->>'endTime', '')::TIMESTAMPTZ;
+
+UPDATE sessions s SET event_id = NULL
+    WHERE event_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM events e WHERE e.id = s.event_id);
+
+ALTER TABLE sessions
+    ADD CONSTRAINT sessions_event_fk FOREIGN KEY (event_id) REFERENCES events (id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS sessions_event_start_idx ON sessions (event_id, start_time);
+CREATE INDEX IF NOT EXISTS sessions_location_idx ON sessions (location, start_time);
+
+-- Transactions
+-- from_id / to_id also hold pseudo accounts ('system', 'admin'), so they are
+-- indexed but not constrained to registrations.
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS from_id TEXT,
+    ADD COLUMN IF NOT EXISTS to_id TEXT,
+    ADD COLUMN IF NOT EXISTS amount NUMERIC(12, 2),
+    ADD COLUMN IF NOT EXISTS type TEXT,
+    ADD COLUMN IF NOT EXISTS timestamp BIGINT;
+
+UPDATE transactions SET
+    from_id = data->>'fromId',
+    to_id = data->>'toId',
+    amount = NULLIF(data->>'amount', '')::NUMERIC,
+    type = data->>'type',
+    timestamp = (data->>'timestamp')::BIGINT;
+
+CREATE INDEX IF NOT EXISTS transactions_from_idx ON transactions (from_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS transactions_to_idx ON transactions (to_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS transactions_type_idx ON transactions (type);
+
+-- Accommodation bookings
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS delegate_id TEXT,
+    ADD COLUMN IF NOT EXISTS hotel_id TEXT,
+    ADD COLUMN IF NOT EXISTS room_type_id TEXT,
+    ADD COLUMN IF NOT EXISTS hotel_room_id TEXT,
+    ADD COLUMN IF NOT EXISTS status TEXT,
+    ADD COLUMN IF NOT EXISTS check_in_date DATE,
+    ADD COLUMN IF NOT EXISTS check_out_date DATE;
+
+UPDATE bookings SET
+    delegate_id = data->>'delegateId',
+    hotel_id = data->>'hotelId',
+    room_type_id = data->>'roomTypeId',
+    hotel_room_id = data->>'hotelRoomId',
+    status = data->>'status',
+    check_in_date = NULLIF(data->>'checkInDate', '')::DATE,
+    check_out_date = NULLIF(data->>'checkOutDate', '')::DATE;
+
+UPDATE bookings b SET delegate_id = NULL
+    WHERE delegate_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM registrations r WHERE r.id = b.delegate_id);
+UPDATE bookings b SET hotel_id = NULL
+    WHERE hotel_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM hotels h WHERE h.id = b.hotel_id);
+UPDATE bookings b SET hotel_room_id = NULL
+    WHERE hotel_room_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM rooms r WHERE r.id = b.hotel_room_id);
+
+ALTER TABLE bookings
+    ADD CONSTRAINT bookings_delegate_fk FOREIGN KEY (delegate_id) REFERENCES registrations (id) ON DELETE CASCADE,
+    ADD CONSTRAINT bookings_hotel_fk FOREIGN KEY (hotel_id) REFERENCES hotels (id) ON DELETE SET NULL,
+    ADD CONSTRAINT bookings_room_fk FOREIGN KEY (hotel_room_id) REFERENCES rooms (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS bookings_delegate_idx ON bookings (delegate_id);
+CREATE INDEX IF NOT EXISTS bookings_hotel_status_idx ON bookings (hotel_id, status);
+CREATE INDEX IF NOT EXISTS bookings_check_in_idx ON bookings (check_in_date);
@@ -0,0 +1,8 @@
+-- One-time tokens for password resets, magic-link sign-in and delegate
+-- invitations. The raw token is only ever emailed; the primary key is its
+-- SHA-256 hash, so a leaked table cannot be replayed.
+
+CREATE TABLE IF NOT EXISTS auth_tokens (id TEXT PRIMARY KEY, data JSONB NOT NULL);
+
+CREATE INDEX IF NOT EXISTS auth_tokens_subject_idx ON auth_tokens ((data->>'subjectId'), (data->>'purpose'));
+CREATE INDEX IF NOT EXISTS auth_tokens_expires_idx ON auth_tokens (((data->>'expiresAt')::BIGINT));
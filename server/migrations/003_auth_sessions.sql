@@ -0,0 +1,12 @@
+-- Server-side login sessions. Each row backs one rotating refresh token (kept
+-- in an httpOnly cookie) and the short-lived access tokens minted from it.
+-- Setting `revokedAt` in `data` ends the session immediately.
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    subject_type TEXT,
+    subject_id TEXT
+);
+
+CREATE INDEX IF NOT EXISTS auth_sessions_subject_idx ON auth_sessions (subject_type, subject_id);
@@ -0,0 +1,17 @@
+-- Append-only log of row changes behind delta sync. Clients keep the highest
+-- `seq` they have seen and ask `/api/sync?since=<seq>` for what changed after
+-- it. `owners` holds the owning registration ids of the row before and after
+-- the change, so owner-scoped tables can be filtered without loading rows.
+-- Entries older than the retention window are pruned; a client whose cursor
+-- falls before the oldest entry gets a full snapshot instead.
+
+CREATE TABLE IF NOT EXISTS change_log (
+    seq BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    row_id TEXT NOT NULL,
+    op TEXT NOT NULL,
+    owners TEXT[] NOT NULL DEFAULT '{}',
+    changed_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS change_log_changed_at_idx ON change_log (changed_at);
@@ -0,0 +1,38 @@
+-- Scopes every event-owned record to an event (see `isEventScoped` in
+-- policy.ts). Records written before events were scoped belonged to the
+-- single default event, so they are assigned to it. `change_log.events` lets
+-- delta sync skip changes outside the caller's event without loading rows.
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM events WHERE id = 'main-event') THEN
+        FOREACH t IN ARRAY ARRAY[
+            'registrations', 'sessions', 'speakers', 'sponsors', 'tasks', 'meal_plans',
+            'restaurants', 'hotels', 'rooms', 'bookings', 'media', 'notifications',
+            'transactions', 'scavenger_hunt_items', 'scavenger_hunt_progress',
+            'networking_profiles', 'agenda_entries', 'ticket_tiers', 'venue_maps',
+            'email_logs', 'session_questions', 'session_feedback', 'poll_votes', 'polls', 'messages'
+        ] LOOP
+            EXECUTE format(
+                'UPDATE %I SET data = jsonb_set(data, ''{eventId}'', ''"main-event"'') WHERE NOT (data ? ''eventId'') OR data->>''eventId'' = ''''',
+                t
+            );
+        END LOOP;
+    END IF;
+END $$;
+
+UPDATE registrations SET event_id = data->>'eventId' WHERE event_id IS DISTINCT FROM data->>'eventId';
+UPDATE sessions SET event_id = data->>'eventId' WHERE event_id IS DISTINCT FROM data->>'eventId';
+
+-- Transactions and bookings are listed per event on every dashboard load.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS event_id TEXT;
+UPDATE transactions SET event_id = data->>'eventId';
+CREATE INDEX IF NOT EXISTS transactions_event_idx ON transactions (event_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS event_id TEXT;
+UPDATE bookings SET event_id = data->>'eventId';
+CREATE INDEX IF NOT EXISTS bookings_event_idx ON bookings (event_id);
+
+ALTER TABLE change_log ADD COLUMN IF NOT EXISTS events TEXT[] NOT NULL DEFAULT '{}';
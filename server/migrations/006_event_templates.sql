@@ -0,0 +1,7 @@
+-- Reusable event setups (config, form, tickets, agenda, venue, accommodation
+-- and dining) that new events can start from. See `server/eventTemplates.ts`.
+
+CREATE TABLE IF NOT EXISTS event_templates (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL
+);
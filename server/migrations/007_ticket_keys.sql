@@ -0,0 +1,8 @@
+-- Ed25519 key pairs that sign ticket QR codes (see `server/tickets.ts`). The
+-- newest row signs new tickets; older ones stay so codes already issued keep
+-- verifying. Only public keys ever leave the server.
+
+CREATE TABLE IF NOT EXISTS ticket_keys (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL
+);
@@ -0,0 +1,43 @@
+-- Entry history: one row per scan at the door or manual check-in, admitted or
+-- not. Replaces the `checkedIn` flag on registrations, which becomes
+-- `checkedInAt`, the time of the first admission.
+
+CREATE TABLE IF NOT EXISTS check_ins (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    registration_id TEXT,
+    timestamp BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS check_ins_registration_idx ON check_ins (registration_id, timestamp);
+CREATE INDEX IF NOT EXISTS check_ins_event_idx ON check_ins (event_id, timestamp DESC);
+
+-- Earlier check-ins only recorded that they happened, so the registration's
+-- last update time stands in for when.
+INSERT INTO check_ins (id, data, event_id, registration_id, timestamp)
+SELECT
+    'checkin_legacy_' || r.id,
+    jsonb_build_object(
+        'id', 'checkin_legacy_' || r.id,
+        'eventId', r.data->>'eventId',
+        'registrationId', r.id,
+        'result', 'admitted',
+        'method', 'manual',
+        'reason', 'Checked in before entry history was recorded.',
+        'scannedBy', 'system',
+        'deviceId', 'legacy',
+        'timestamp', COALESCE((r.data->>'updatedAt')::BIGINT, (r.data->>'createdAt')::BIGINT, 0)
+    ),
+    r.data->>'eventId',
+    r.id,
+    COALESCE((r.data->>'updatedAt')::BIGINT, (r.data->>'createdAt')::BIGINT, 0)
+FROM registrations r
+WHERE r.data->>'checkedIn' = 'true'
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE registrations
+SET data = (data - 'checkedIn') || jsonb_build_object('checkedInAt', COALESCE((data->>'updatedAt')::BIGINT, (data->>'createdAt')::BIGINT, 0))
+WHERE data->>'checkedIn' = 'true';
+
+UPDATE registrations SET data = data - 'checkedIn' WHERE data ? 'checkedIn';
@@ -0,0 +1,6 @@
+-- Scans at session and room doors (see `server/zones.ts`) are `check_ins` rows
+-- with a `zoneId`. Occupancy is read per zone on every such scan.
+
+ALTER TABLE check_ins ADD COLUMN IF NOT EXISTS zone_id TEXT;
+UPDATE check_ins SET zone_id = data->>'zoneId' WHERE data ? 'zoneId';
+CREATE INDEX IF NOT EXISTS check_ins_zone_idx ON check_ins (zone_id, timestamp);
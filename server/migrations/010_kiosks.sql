@@ -0,0 +1,15 @@
+-- Self check-in kiosks (see `server/kiosks.ts`). A device pairs with a one-time
+-- code and then sends its own credential with every request; only hashes of
+-- both are kept, and each is looked up on its own column.
+
+CREATE TABLE IF NOT EXISTS kiosks (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    pairing_code_hash TEXT,
+    credential_hash TEXT
+);
+
+CREATE INDEX IF NOT EXISTS kiosks_event_idx ON kiosks (event_id);
+CREATE UNIQUE INDEX IF NOT EXISTS kiosks_pairing_code_idx ON kiosks (pairing_code_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS kiosks_credential_idx ON kiosks (credential_hash);
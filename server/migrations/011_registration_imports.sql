@@ -0,0 +1,11 @@
+-- Background registration imports (see `server/registrationImport.ts`). Each
+-- row tracks one import's progress and per-row errors while the dialog polls it.
+
+CREATE TABLE IF NOT EXISTS registration_imports (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    created_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS registration_imports_event_idx ON registration_imports (event_id, created_at DESC);
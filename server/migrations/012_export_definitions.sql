@@ -0,0 +1,12 @@
+-- Saved registration exports (see `server/registrationExport.ts`). Scheduled
+-- ones are picked up by the backend once `next_run_at` has passed.
+
+CREATE TABLE IF NOT EXISTS export_definitions (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    next_run_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS export_definitions_event_idx ON export_definitions (event_id);
+CREATE INDEX IF NOT EXISTS export_definitions_next_run_idx ON export_definitions (next_run_at);
@@ -0,0 +1,11 @@
+-- Seats bought together by one purchaser (see `server/groups.ts`). The seats
+-- live in `data`; unclaimed ones count against the event's capacity.
+
+CREATE TABLE IF NOT EXISTS registration_groups (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    purchaser_email TEXT
+);
+
+CREATE INDEX IF NOT EXISTS registration_groups_event_idx ON registration_groups (event_id);
@@ -0,0 +1,15 @@
+-- Checkouts for paid tickets (see `server/orders.ts`). Pending orders hold
+-- their seats until `expires_at`; paid ones point at what they bought.
+
+CREATE TABLE IF NOT EXISTS orders (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    status TEXT,
+    email TEXT,
+    payment_intent_id TEXT,
+    expires_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS orders_event_status_idx ON orders (event_id, status);
+CREATE INDEX IF NOT EXISTS orders_payment_intent_idx ON orders (payment_intent_id);
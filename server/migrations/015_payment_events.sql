@@ -0,0 +1,11 @@
+-- Stripe webhook events already handled, keyed by Stripe's event id, so a
+-- delivery Stripe repeats is acknowledged without being applied again.
+
+CREATE TABLE IF NOT EXISTS payment_events (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    order_id TEXT,
+    received_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS payment_events_order_idx ON payment_events (order_id);
@@ -0,0 +1,11 @@
+-- Discount codes for ticket orders (see `server/discounts.ts`). A code is
+-- unique within its event.
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    code TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS discount_codes_event_code_idx ON discount_codes (event_id, code);
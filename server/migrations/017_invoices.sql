@@ -0,0 +1,14 @@
+-- Invoices for paid orders (see `server/invoices.ts`). Numbers run without
+-- gaps within an event, and an order has at most one invoice.
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id TEXT PRIMARY KEY,
+    data JSONB NOT NULL,
+    event_id TEXT,
+    order_id TEXT,
+    email TEXT,
+    sequence INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_event_sequence_idx ON invoices (event_id, sequence);
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_order_idx ON invoices (order_id);
@@ -0,0 +1,177 @@
+import { type DiscountCode, type Order, type OrderItem, type RegistrationData, type TicketTier } from '../types';
+import { priceGroupOrder, type GroupOrderItem } from './groups';
+import { priceDiscount, tierPrice } from './discounts';
+import { type SeatHold } from './waitlist';
+
+// Orders. Paid tickets are bought through a checkout: the server prices the
+// cart from the ticket tiers, holds its seats for a while, and creates the
+// payment for the computed total. Only once the payment has succeeded does the
+// order become a confirmed registration, or a group whose seats attendees
+// then claim (see `server/groups.ts`). Prices follow the tiers' schedules, and
+// a discount code can take some or all of the total off (see
+// `server/discounts.ts`); an order it makes free needs no payment. EventCoin top-ups go through the same
+// orders, priced from `COIN_PACKAGES`, and credit the delegate's wallet once
+// paid. Shared by the backend and the browser-mode API.
+
+/** How long a pending order holds its seats. */
+export const ORDER_HOLD = 15 * 60 * 1000;
+
+/** Whether a seat in this tier has to be bought through checkout. */
+export const needsPayment = (tiers: TicketTier[], ticketTierId?: string, now = Date.now()) => {
+    const tier = tiers.find(t => t.id === ticketTierId);
+    return !!tier && tierPrice(tier, now) > 0;
+};
+
+export const holdsSeats = (order: Order, now = Date.now()) => order.status === 'pending' && order.expiresAt > now;
+
+/** The waitlisted registration whose offered seat the order pays for, if it is such an order. */
+export const offerRegistrationId = (order: Order): string | undefined =>
+    order.kind === 'registration' ? order.details?.waitlistRegistrationId : undefined;
+
+/**
+ * The seats of these orders still held for their buyers, for the capacity
+ * checks in `server/waitlist.ts`. An order paying for a waitlist offer holds
+ * nothing itself: the offer keeps the seat until it lapses.
+ */
+export const heldOrderSeats = (orders: Order[], now = Date.now()): SeatHold[] =>
+    orders.filter(order => holdsSeats(order, now) && !offerRegistrationId(order))
+        .flatMap(order => order.items.flatMap(item => Array.from({ length: item.quantity }, () => ({ ticketTierId: item.ticketTierId }))));
+
+/** The items with the price of a seat in their tier at `now`. */
+export const pricedItems = (items: GroupOrderItem[], tiers: TicketTier[], now = Date.now()): OrderItem[] =>
+    items.filter(item => item.quantity > 0).map(item => ({
+        ticketTierId: item.ticketTierId,
+        quantity: item.quantity,
+        unitPrice: tierPrice(tiers.find(t => t.id === item.ticketTierId)!, now)
+    }));
+
+/** A discount code to redeem on an order: the code found, if any, and how many unpaid orders have reserved it. */
+export interface Redemption {
+    code: DiscountCode | null;
+    heldUses: number;
+}
+
+/**
+ * A pending order for `items`, priced from `tiers`, or why it cannot be
+ * bought. Free carts need no checkout, unless a discount made them free.
+ */
+export const newOrder = (
+    fields: Pick<Order, 'id' | 'eventId' | 'kind' | 'email' | 'name' | 'details' | 'billing'>,
+    items: GroupOrderItem[],
+    tiers: TicketTier[],
+    now = Date.now(),
+    redemption?: Redemption
+): Order | string => {
+    const quote = priceGroupOrder(items, tiers, now);
+    if (typeof quote === 'string') return quote;
+    if (quote.total <= 0) return 'There is nothing to pay for this order.';
+    const priced = pricedItems(items, tiers, now);
+    const discount = redemption ? priceDiscount(redemption.code, priced, now, redemption.heldUses) : undefined;
+    if (typeof discount === 'string') return discount;
+    const total = discount ? Math.round((quote.total - discount.amount) * 100) / 100 : quote.total;
+    return {
+        ...fields, items: priced, total, currency: quote.currency, ...(discount ? { discount } : {}),
+        status: 'pending', createdAt: now, expiresAt: now + ORDER_HOLD
+    };
+};
+
+/** A pending order for the paid seat a waitlist offer holds for the registration, or why it cannot be bought. */
+export const newOfferOrder = (fields: Pick<Order, 'id' | 'eventId'>, registration: RegistrationData, tiers: TicketTier[], now = Date.now()) =>
+    newOrder({
+        ...fields, kind: 'registration', email: registration.email, name: registration.name,
+        details: { waitlistRegistrationId: registration.id }
+    }, [{ ticketTierId: String(registration.ticketTierId), quantity: 1 }], tiers, now);
+
+/** Unpaid orders still holding their seats that have reserved a use of the code. */
+export const heldDiscountUses = (orders: Order[], codeId: string, now = Date.now()) =>
+    orders.filter(order => holdsSeats(order, now) && order.discount?.codeId === codeId).length;
+
+export interface CoinPackage {
+    id: string;
+    coins: number;
+    price: number;
+}
+
+/** The EventCoin top-ups on sale, priced in `COIN_CURRENCY`. */
+export const COIN_PACKAGES: CoinPackage[] = [
+    { id: 'basic', coins: 50, price: 50 },
+    { id: 'standard', coins: 100, price: 90 }, // 10% discount
+    { id: 'premium', coins: 250, price: 200 } // 20% discount
+];
+
+export const COIN_CURRENCY = 'USD';
+
+/** A pending top-up of the delegate's wallet with one of the `COIN_PACKAGES`, or why it cannot be bought. */
+export const newCoinOrder = (
+    fields: Pick<Order, 'id' | 'eventId' | 'email' | 'name'>,
+    registrationId: string,
+    packageId: string,
+    now = Date.now()
+): Order | string => {
+    const pkg = COIN_PACKAGES.find(p => p.id === packageId);
+    if (!pkg) return 'Unknown coin package.';
+    return {
+        ...fields, kind: 'coins', items: [], total: pkg.price, currency: COIN_CURRENCY,
+        details: { registrationId, coins: pkg.coins, packageId: pkg.id },
+        status: 'pending', createdAt: now, expiresAt: now + ORDER_HOLD
+    };
+};
+
+/** The wallet transaction a paid coin order credits. Its id is fixed, so it is never credited twice. */
+export const coinCredit = (order: Order, now: number) => ({
+    id: `tx_${order.id}`,
+    eventId: order.eventId,
+    fromId: 'system',
+    toId: order.details.registrationId,
+    toName: order.name,
+    toEmail: order.email,
+    amount: order.details.coins,
+    type: 'purchase',
+    orderId: order.id,
+    timestamp: now
+});
+
+/** The transaction taking back the coins of a refunded coin order. */
+export const coinReversal = (order: Order, now: number) => ({
+    id: `tx_${order.id}_reversal`,
+    eventId: order.eventId,
+    fromId: order.details.registrationId,
+    toId: 'system',
+    fromName: order.name,
+    fromEmail: order.email,
+    amount: order.details.coins,
+    type: 'refund',
+    orderId: order.id,
+    timestamp: now
+});
+
+/** The amount to charge, in the currency's smallest unit. */
+export const amountInCents = (order: Order) => Math.round(order.total * 100);
+
+/**
+ * Why this order cannot be paid for, or null. A cancelled order that is paid
+ * all the same is fulfilled like one whose hold has lapsed, whether the
+ * checkout or the payment webhook reports it.
+ */
+export const paymentRejection = (order: Order | null | undefined) => {
+    if (!order) return 'Order not found.';
+    if (order.status === 'refunded') return 'This order has been refunded.';
+    return null;
+};
+
+/** The confirmed registration a paid registration order turns into. */
+export const orderRegistration = (order: Order, id: string, now: number): RegistrationData => ({
+    ...(order.details as RegistrationData),
+    id,
+    eventId: order.eventId,
+    ticketTierId: order.items[0]?.ticketTierId,
+    status: 'confirmed',
+    createdAt: now,
+    orderId: order.id
+});
+
+/** The order as its buyer sees it, without the password hash kept for the registration. */
+export const publicOrder = (order: Order): Order => {
+    const { password_hash, ...details } = order.details || {};
+    return { ...order, details };
+};
@@ -0,0 +1,198 @@
+// Durable queue of local writes that have not reached the backend yet.
+//
+// Entries are stored in IndexedDB so edits made while the backend is
+// unreachable survive a reload. Where IndexedDB is unavailable (tests,
+// some private windows) the queue is kept in memory only.
+
+export type OutboxOperation = 'upsert' | 'delete';
+
+/**
+ * `pending` entries are retried automatically. `failed` ones were rejected by
+ * the server or ran out of attempts, and `conflict` ones hit a newer server
+ * version; both wait for the user.
+ */
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+    id: string;
+    table: string;
+    rowId: string;
+    op: OutboxOperation;
+    /** Local copy of the row: what gets sent for upserts, and what is restored if a delete is undone. */
+    row: any;
+    /** Server version the local change was based on; undefined for rows created on this device. */
+    baseVersion?: number;
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: number;
+    createdAt: number;
+    /** Bumped whenever a later edit is folded into this entry. */
+    revision: number;
+    lastError?: string;
+    /** Server copy at the time of a conflict; null if the row was deleted there. */
+    serverRow?: any | null;
+}
+
+export const MAX_SEND_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const DB_NAME = 'event_platform_outbox';
+const STORE_NAME = 'mutations';
+
+let entries: OutboxEntry[] = [];
+let loading: Promise<void> | null = null;
+let storage: Promise<IDBDatabase | null> | null = null;
+
+const listeners: Set<() => void> = new Set();
+
+const openStorage = (): Promise<IDBDatabase | null> => {
+    if (!storage) {
+        storage = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') return resolve(null);
+            try {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('Outbox storage unavailable, pending writes will not survive a reload.', request.error);
+                    resolve(null);
+                };
+            } catch (e) {
+                resolve(null);
+            }
+        });
+    }
+    return storage;
+};
+
+const persist = async (action: (store: IDBObjectStore) => void) => {
+    const idb = await openStorage();
+    if (!idb) return;
+    try {
+        const tx = idb.transaction(STORE_NAME, 'readwrite');
+        action(tx.objectStore(STORE_NAME));
+    } catch (e) {
+        console.error('Failed to persist outbox', e);
+    }
+};
+
+const notify = () => listeners.forEach(cb => cb());
+
+/** Reads entries saved by a previous session. Safe to call repeatedly. */
+export const loadOutbox = (): Promise<void> => {
+    if (!loading) {
+        loading = openStorage().then(idb => new Promise<void>(resolve => {
+            if (!idb) return resolve();
+            const request = idb.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+            request.onsuccess = () => {
+                const known = new Set(entries.map(e => e.id));
+                entries = [...request.result.filter((e: OutboxEntry) => !known.has(e.id)), ...entries]
+                    .sort((a, b) => a.createdAt - b.createdAt);
+                notify();
+                resolve();
+            };
+            request.onerror = () => resolve();
+        }));
+    }
+    return loading;
+};
+
+export const subscribeToOutbox = (callback: () => void) => {
+    listeners.add(callback);
+    return () => { listeners.delete(callback); };
+};
+
+export const getOutboxEntries = (): OutboxEntry[] => entries.map(e => ({ ...e }));
+
+export const getOutboxEntry = (id: string): OutboxEntry | undefined => {
+    const entry = entries.find(e => e.id === id);
+    return entry ? { ...entry } : undefined;
+};
+
+/** Pending entries whose retry time has come, oldest first. */
+export const dueOutboxEntries = (now = Date.now()): OutboxEntry[] =>
+    entries.filter(e => e.status === 'pending' && e.nextAttemptAt <= now).map(e => ({ ...e }));
+
+/** Exponential backoff with jitter, capped at five minutes. */
+export const retryDelay = (attempts: number): number =>
+    Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS) + Math.floor(Math.random() * 250);
+
+/**
+ * Queues a write. A row has at most one entry: later edits replace the queued
+ * row but keep the original base version, so the server still detects changes
+ * made elsewhere since the first local edit.
+ */
+export const enqueueWrite = (table: string, op: OutboxOperation, row: any, baseVersion?: number): OutboxEntry => {
+    const rowId = String(row.id);
+    let entry = entries.find(e => e.table === table && e.rowId === rowId);
+    if (entry) {
+        entry.op = op;
+        entry.row = row;
+        entry.revision++;
+        if (entry.status === 'failed') {
+            entry.status = 'pending';
+            entry.attempts = 0;
+            entry.nextAttemptAt = 0;
+            entry.lastError = undefined;
+        }
+    } else {
+        entry = {
+            id: `out_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            table,
+            rowId,
+            op,
+            row,
+            baseVersion,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: 0,
+            createdAt: Date.now(),
+            revision: 0
+        };
+        entries.push(entry);
+    }
+    const saved = { ...entry };
+    persist(store => store.put(saved));
+    notify();
+    return { ...saved };
+};
+
+export const updateOutboxEntry = (id: string, changes: Partial<OutboxEntry>): OutboxEntry | undefined => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return undefined;
+    Object.assign(entry, changes);
+    const saved = { ...entry };
+    persist(store => store.put(saved));
+    notify();
+    return { ...saved };
+};
+
+export const removeOutboxEntry = (id: string) => {
+    entries = entries.filter(e => e.id !== id);
+    persist(store => store.delete(id));
+    notify();
+};
+
+/**
+ * Lays queued local changes over rows fetched from the server, so a sync
+ * does not hide edits that have not been accepted yet.
+ */
+export const applyQueuedWrites = (table: string, rows: any[]): any[] => {
+    const queued = entries.filter(e => e.table === table);
+    if (queued.length === 0) return rows;
+    const byRow = new Map(queued.map(e => [e.rowId, e]));
+    const result = rows
+        .filter(r => byRow.get(String(r.id))?.op !== 'delete')
+        .map(r => {
+            const entry = byRow.get(String(r.id));
+            byRow.delete(String(r.id));
+            return entry ? entry.row : r;
+        });
+    byRow.forEach(e => {
+        if (e.op === 'upsert') result.push(e.row);
+    });
+    return result;
+};
@@ -0,0 +1,126 @@
+import { type Order, type OrderDispute } from '../types';
+import { amountInCents } from './orders';
+import { nextRefundId } from './refunds';
+
+// Stripe webhooks. Stripe reports what happened to a payment by posting a
+// signed event: the `Stripe-Signature` header holds `t=<unix seconds>` and one
+// or more `v1=<hex HMAC-SHA256 of "<t>.<body>">` under the endpoint's secret.
+// The events that matter are boiled down to a `PaymentEffect` on the order the
+// payment was made for. Events can arrive more than once and out of order, so
+// applying an effect to an order that already reflects it changes nothing.
+// Shared by the backend and the browser-mode API, so it only relies on Web
+// Crypto; `signedWebhook` builds deliveries for tests without reaching Stripe.
+
+/** How old a signature may be before the delivery is refused as a replay, in seconds. */
+export const WEBHOOK_TOLERANCE = 5 * 60;
+
+export interface StripeEvent {
+    id: string;
+    type: string;
+    /** Unix seconds. */
+    created: number;
+    data: { object: any };
+}
+
+const encoder = new TextEncoder();
+
+const hmacHex = async (secret: string, message: string) => {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+    return Array.from(signature, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** The `Stripe-Signature` header for this body. */
+export const signWebhookPayload = async (payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) =>
+    `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${payload}`)}`;
+
+/** Why this delivery cannot be trusted, or null. */
+export const webhookSignatureProblem = async (payload: string, header: string, secret: string, now = Date.now()) => {
+    const parts = header.split(',').map(part => part.trim().split('='));
+    const timestamp = Number(parts.find(([k]) => k === 't')?.[1]);
+    const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+    if (!Number.isFinite(timestamp) || signatures.length === 0) return 'Missing or malformed signature.';
+    if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE) return 'The signature has expired.';
+    const expected = await hmacHex(secret, `${timestamp}.${payload}`);
+    // Compared in full either way, so timing does not tell how much of a guess was right.
+    const matches = signatures.some(s => s.length === expected.length
+        && Array.from(expected).reduce((diff, c, i) => diff | (c.charCodeAt(0) ^ s.charCodeAt(i)), 0) === 0);
+    return matches ? null : 'The signature does not match.';
+};
+
+/** An event shaped like the ones Stripe sends, for tests and local simulation. */
+export const fakeStripeEvent = (type: string, object: any, id = `evt_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`): StripeEvent =>
+    ({ id, type, created: Math.floor(Date.now() / 1000), data: { object } });
+
+/** A delivery of the event as Stripe would post it: the body and its signature header. */
+export const signedWebhook = async (event: StripeEvent, secret: string, timestamp?: number) => {
+    const payload = JSON.stringify(event);
+    return { payload, signature: await signWebhookPayload(payload, secret, timestamp) };
+};
+
+/** What a Stripe event means for the order paid through its PaymentIntent. */
+export type PaymentEffect =
+    | { kind: 'succeeded'; paymentIntentId: string; orderId?: string; amount: number; currency: string }
+    | { kind: 'failed'; paymentIntentId: string; orderId?: string; message: string }
+    | { kind: 'refunded'; paymentIntentId: string; amountRefunded: number; full: boolean }
+    | { kind: 'dispute'; paymentIntentId: string; dispute: Omit<OrderDispute, 'openedAt' | 'closedAt'> };
+
+const CLOSED_DISPUTE = ['won', 'lost', 'warning_closed'];
+
+/** The effect of the event, or null for events that do not concern orders. Amounts are in cents. */
+export const paymentEffect = (event: StripeEvent): PaymentEffect | null => {
+    const object = event.data?.object || {};
+    const paymentIntentId = String(object.object === 'payment_intent' ? object.id : object.payment_intent || '');
+    if (!paymentIntentId) return null;
+    const orderId = object.metadata?.orderId || undefined;
+    switch (event.type) {
+        case 'payment_intent.succeeded':
+            return { kind: 'succeeded', paymentIntentId, orderId, amount: Number(object.amount_received) || 0, currency: String(object.currency || '') };
+        case 'payment_intent.payment_failed':
+            return { kind: 'failed', paymentIntentId, orderId, message: object.last_payment_error?.message || 'The payment failed.' };
+        case 'charge.refunded':
+            return { kind: 'refunded', paymentIntentId, amountRefunded: Number(object.amount_refunded) || 0, full: !!object.refunded };
+    }
+    if (event.type.startsWith('charge.dispute.')) {
+        return {
+            kind: 'dispute', paymentIntentId,
+            dispute: { id: String(object.id), status: String(object.status), reason: object.reason, amount: (Number(object.amount) || 0) / 100 }
+        };
+    }
+    return null;
+};
+
+/** Whether the succeeded payment covers the order. */
+export const coversOrder = (order: Order, effect: Extract<PaymentEffect, { kind: 'succeeded' }>) =>
+    effect.amount >= amountInCents(order) && effect.currency.toLowerCase() === order.currency.toLowerCase();
+
+/**
+ * The changes a failed payment, refund or dispute makes to the order.
+ * `revoke` is set when the money has gone back to the buyer, so what the order
+ * bought has to be taken back too.
+ */
+export const paymentEventChanges = (order: Order, effect: Exclude<PaymentEffect, { kind: 'succeeded' }>, now = Date.now()): { changes: Partial<Order>; revoke: boolean } => {
+    // A refunded order has nothing left to take back.
+    const settled = order.status === 'refunded';
+    if (effect.kind === 'failed') {
+        return { changes: order.status === 'pending' ? { paymentError: effect.message } : {}, revoke: false };
+    }
+    if (effect.kind === 'refunded') {
+        const amountRefunded = Math.max(order.amountRefunded || 0, effect.amountRefunded / 100);
+        // Refunds made here are recorded when they are made; anything more was refunded at Stripe directly.
+        const extra = Math.round((amountRefunded - (order.amountRefunded || 0)) * 100) / 100;
+        const recorded: Partial<Order> = extra > 0
+            ? { amountRefunded, refunds: [...(order.refunds || []), { id: nextRefundId(order), amount: extra, reason: 'provider', createdAt: now }] }
+            : { amountRefunded };
+        if (!effect.full || settled) return { changes: recorded, revoke: false };
+        return { changes: { ...recorded, status: 'refunded', refundedAt: now }, revoke: order.status === 'paid' };
+    }
+    const closed = CLOSED_DISPUTE.includes(effect.dispute.status);
+    const dispute: OrderDispute = {
+        ...effect.dispute,
+        openedAt: order.dispute?.id === effect.dispute.id ? order.dispute.openedAt : now,
+        ...(closed ? { closedAt: order.dispute?.closedAt || now } : {})
+    };
+    if (effect.dispute.status !== 'lost' || settled) return { changes: { dispute }, revoke: false };
+    return { changes: { dispute, status: 'refunded', refundedAt: now }, revoke: order.status === 'paid' };
+};
@@ -0,0 +1,543 @@
+import { type Permission } from '../types';
+
+/**
+ * Declarative authorization for the generic `/api/data/:table` and `/api/sync`
+ * endpoints. Every table the backend stores must have a policy here; anything
+ * not granted by a rule is denied.
+ */
+
+export const ALLOWED_TABLES = [
+    'registrations', 'events', 'sessions', 'speakers', 'sponsors', 'tasks',
+    'meal_plans', 'restaurants', 'hotels', 'rooms', 'bookings', 'media',
+    'notifications', 'transactions', 'scavenger_hunt_items', 'scavenger_hunt_progress',
+    'networking_profiles', 'agenda_entries', 'ticket_tiers', 'venue_maps',
+    'email_logs', 'session_questions', 'session_feedback', 'poll_votes', 'polls',
+    'admin_users', 'roles', 'messages', 'auth_tokens', 'auth_sessions', 'event_templates',
+    'ticket_keys', 'check_ins', 'kiosks', 'registration_imports',
+    'export_definitions', 'registration_groups', 'orders', 'payment_events',
+    'discount_codes', 'invoices'
+];
+
+export type AccessAction = 'read' | 'write' | 'delete';
+
+export interface Principal {
+    id: string;
+    email: string;
+    type: 'admin' | 'delegate';
+    /** Permissions of the account's platform-wide role. */
+    permissions?: string[];
+    /** Permissions from roles assigned for single events, by event id. Admins only. */
+    eventPermissions?: Record<string, string[]>;
+    /**
+     * Event the request acts within: a delegate's own event, or the event an
+     * admin selected. Rows of other events are out of reach.
+     */
+    eventId?: string;
+    /** Server-side session the access token belongs to. */
+    sid?: string;
+}
+
+export interface AccessRule {
+    /** Admins holding this permission may act; `true` allows any admin. */
+    admin?: Permission | true;
+    /** Delegates may act on every row, or only on rows they own. */
+    delegate?: 'all' | 'own';
+}
+
+export interface TablePolicy {
+    read: AccessRule;
+    write: AccessRule;
+    delete: AccessRule;
+    /**
+     * Fields holding the owning registration id. A delegate owns a row when any
+     * of them matches. The first field is stamped on rows a delegate creates and
+     * must name them, so they cannot create rows in someone else's name.
+     */
+    owner?: string[];
+    /** Dot-paths that are never sent to or accepted from clients. */
+    secret?: string[];
+    /** Dot-paths only visible to, and writable by, admins holding the permission. */
+    restricted?: { permission: Permission; fields: string[] }[];
+    /** Fields a delegate may not set, even on rows they own. */
+    readOnly?: string[];
+    /** Fields a delegate may change on rows they can see but do not own. */
+    shared?: string[];
+    /** When set, delegates only see these fields on rows they do not own. */
+    publicFields?: string[];
+}
+
+const EVERYONE: AccessRule = { admin: true, delegate: 'all' };
+const NOBODY: AccessRule = {};
+
+const CONFIG_SECRETS = [
+    'config.smtp.password',
+    'config.githubSync.token',
+    'config.telegram.botToken',
+    'config.whatsapp.accessToken',
+    'config.sms.authToken',
+    'config.googleConfig.serviceAccountKeyJson'
+];
+
+/** Public reference data that one admin permission manages. */
+const catalog = (permission: Permission): TablePolicy => ({
+    read: EVERYONE,
+    write: { admin: permission },
+    delete: { admin: permission }
+});
+
+export const TABLE_POLICIES: Record<string, TablePolicy> = {
+    registrations: {
+        read: EVERYONE,
+        write: { admin: 'manage_registrations', delegate: 'own' },
+        delete: { admin: 'manage_registrations' },
+        owner: ['id'],
+        secret: ['password_hash'],
+        readOnly: ['eventId', 'status', 'ticketTierId', 'checkedInAt', 'createdAt', 'ticketVersion', 'ticketRevokedAt', 'waitlistOffer', 'groupId', 'pendingTransfer', 'transferHistory', 'transferredTo', 'orderId'],
+        publicFields: ['id', 'eventId', 'name', 'company', 'role', 'job_title', 'photoUrl']
+    },
+    events: {
+        ...catalog('manage_settings'),
+        restricted: [{ permission: 'manage_settings', fields: CONFIG_SECRETS }]
+    },
+    sessions: catalog('manage_agenda'),
+    speakers: catalog('manage_speakers_sponsors'),
+    sponsors: catalog('manage_speakers_sponsors'),
+    tasks: {
+        read: { admin: 'manage_tasks' },
+        write: { admin: 'manage_tasks' },
+        delete: { admin: 'manage_tasks' }
+    },
+    meal_plans: catalog('manage_dining'),
+    restaurants: catalog('manage_dining'),
+    hotels: catalog('manage_accommodation'),
+    rooms: catalog('manage_accommodation'),
+    bookings: {
+        read: { admin: 'manage_accommodation', delegate: 'own' },
+        write: { admin: 'manage_accommodation', delegate: 'own' },
+        delete: { admin: 'manage_accommodation' },
+        owner: ['delegateId'],
+        readOnly: ['hotelRoomId', 'roomNumber', 'status']
+    },
+    media: {
+        read: EVERYONE,
+        write: { admin: true, delegate: 'own' },
+        delete: { admin: 'manage_settings', delegate: 'own' },
+        owner: ['uploadedBy']
+    },
+    notifications: {
+        read: { admin: 'manage_registrations', delegate: 'own' },
+        write: { admin: 'manage_registrations', delegate: 'own' },
+        delete: { admin: 'manage_registrations' },
+        owner: ['userId'],
+        readOnly: ['userId', 'type', 'title', 'message', 'timestamp']
+    },
+    transactions: {
+        read: { admin: 'view_eventcoin_dashboard', delegate: 'own' },
+        write: { admin: 'view_eventcoin_dashboard' },
+        delete: NOBODY,
+        owner: ['fromId', 'toId']
+    },
+    scavenger_hunt_items: {
+        ...catalog('manage_settings'),
+        restricted: [{ permission: 'manage_settings', fields: ['secretCode'] }]
+    },
+    scavenger_hunt_progress: {
+        read: { admin: true, delegate: 'own' },
+        write: { admin: 'manage_settings' },
+        delete: { admin: 'manage_settings' },
+        owner: ['userId']
+    },
+    networking_profiles: {
+        read: EVERYONE,
+        write: { admin: 'manage_registrations', delegate: 'own' },
+        delete: { admin: 'manage_registrations', delegate: 'own' },
+        owner: ['userId']
+    },
+    agenda_entries: {
+        read: { admin: 'manage_agenda', delegate: 'own' },
+        write: { delegate: 'own' },
+        delete: { admin: 'manage_agenda', delegate: 'own' },
+        owner: ['userId']
+    },
+    ticket_tiers: catalog('manage_registrations'),
+    venue_maps: catalog('manage_settings'),
+    email_logs: {
+        read: { admin: 'manage_registrations' },
+        write: { admin: 'manage_registrations' },
+        delete: { admin: 'manage_settings' }
+    },
+    session_questions: {
+        read: EVERYONE,
+        write: { admin: 'manage_agenda', delegate: 'own' },
+        delete: { admin: 'manage_agenda', delegate: 'own' },
+        owner: ['userId'],
+        readOnly: ['isAnswered'],
+        shared: ['upvotes']
+    },
+    session_feedback: {
+        read: { admin: 'manage_agenda', delegate: 'own' },
+        write: { delegate: 'own' },
+        delete: { admin: 'manage_agenda' },
+        owner: ['userId']
+    },
+    poll_votes: {
+        read: EVERYONE,
+        write: { delegate: 'own' },
+        delete: { admin: 'manage_agenda' },
+        owner: ['userId'],
+        publicFields: ['id', 'pollId', 'optionIndex']
+    },
+    polls: catalog('manage_agenda'),
+    admin_users: {
+        read: { admin: 'manage_users' },
+        write: { admin: 'manage_users' },
+        delete: { admin: 'manage_users' },
+        secret: ['password_hash', 'password', 'totpSecret', 'pendingTotpSecret', 'totpLastStep', 'recoveryCodes']
+    },
+    roles: {
+        read: { admin: true },
+        write: { admin: 'manage_users' },
+        delete: { admin: 'manage_users' }
+    },
+    messages: {
+        read: { delegate: 'own' },
+        write: { delegate: 'own' },
+        delete: { delegate: 'own' },
+        owner: ['senderId', 'receiverId']
+    },
+    // Reset, magic-link and invite tokens are only touched by the auth endpoints.
+    auth_tokens: { read: NOBODY, write: NOBODY, delete: NOBODY },
+    // Holds refresh token hashes; exposed only through the /api/auth session endpoints.
+    auth_sessions: { read: NOBODY, write: NOBODY, delete: NOBODY },
+    // Saved event setups; created through /api/admin/event-templates, without credentials.
+    event_templates: {
+        read: { admin: 'manage_settings' },
+        write: { admin: 'manage_settings' },
+        delete: { admin: 'manage_settings' },
+        secret: CONFIG_SECRETS
+    },
+    // Ticket signing keys; public halves are served by /api/tickets/keys.
+    ticket_keys: { read: NOBODY, write: NOBODY, delete: NOBODY },
+    // Entry audit trail. Scans go through /api/admin/checkin; scanners that lost
+    // their connection queue rows here instead. Rows are never deleted.
+    check_ins: {
+        read: { admin: 'manage_registrations' },
+        write: { admin: 'manage_registrations' },
+        delete: NOBODY
+    },
+    // Self check-in kiosks, created through /api/admin/kiosks and paired through
+    // /api/kiosk/pair. Deleting a row unpairs its device.
+    kiosks: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: { admin: 'manage_registrations' },
+        secret: ['pairingCodeHash', 'credentialHash']
+    },
+    // Progress of background imports started through /api/admin/registrations/import.
+    registration_imports: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: { admin: 'manage_registrations' }
+    },
+    // Saved exports; saved through /api/admin/exports, which checks schedules and
+    // works out the next delivery.
+    export_definitions: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: { admin: 'manage_registrations' }
+    },
+    // Group orders, bought through /api/events/:eventId/groups and managed by the
+    // purchaser's emailed link. Deleting a group frees its unclaimed seats.
+    registration_groups: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: { admin: 'manage_registrations' }
+    },
+    // Checkouts for paid tickets and EventCoins, placed through /api/events/:eventId/orders
+    // and /api/delegate/wallet/purchase. Kept as the record of what was paid for.
+    orders: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: NOBODY,
+        secret: ['details.password_hash']
+    },
+    // Promo codes; saved through /api/admin/discount-codes, which checks them, and
+    // redeemed at checkout. Hidden from delegates so codes cannot be listed.
+    discount_codes: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: { admin: 'manage_registrations' }
+    },
+    // Issued when an order is paid and never changed; delegates download theirs
+    // through /api/delegate/invoices.
+    invoices: {
+        read: { admin: 'manage_registrations' },
+        write: NOBODY,
+        delete: NOBODY
+    },
+    // Stripe webhook events already handled; only touched by /api/payments/webhook.
+    payment_events: { read: NOBODY, write: NOBODY, delete: NOBODY }
+};
+
+// --- Helpers ---
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const deletePath = (obj: any, path: string) => {
+    const parts = path.split('.');
+    let target = obj;
+    for (let i = 0; i < parts.length - 1; i++) {
+        target = target?.[parts[i]];
+        if (!target || typeof target !== 'object') return;
+    }
+    delete target[parts[parts.length - 1]];
+};
+
+const hasPermission = (principal: Principal, permission: Permission | true, eventId: string | undefined) =>
+    permission === true || permissionsIn(principal, eventId).includes(permission);
+
+const ownsRow = (policy: TablePolicy, principal: Principal, row: any) =>
+    principal.type === 'delegate' && !!row && (policy.owner || []).some(field => row[field] === principal.id);
+
+/**
+ * Event whose permissions apply to the row: the event itself for `events`
+ * rows, and none for the other platform tables, which only platform
+ * permissions reach.
+ */
+const eventOfRow = (principal: Principal, table: string, row?: any) => {
+    if (table === 'events') return row ? row.id : principal.eventId;
+    if (!isEventScoped(table)) return undefined;
+    return row?.eventId || principal.eventId;
+};
+
+/** Dot-paths the principal may neither see nor set on this table. */
+const hiddenFields = (policy: TablePolicy, principal: Principal, eventId?: string) => {
+    const hidden = [...(policy.secret || [])];
+    (policy.restricted || []).forEach(r => {
+        if (principal.type !== 'admin' || !hasPermission(principal, r.permission, eventId)) hidden.push(...r.fields);
+    });
+    return hidden;
+};
+
+// --- Events ---
+// Every table except the platform ones below belongs to one event through its
+// `eventId`. A principal scoped to an event never sees or writes rows of
+// another, and rows it creates are stamped with its event.
+
+/** Event created on first start; rows saved before events were scoped belong to it. */
+export const DEFAULT_EVENT_ID = 'main-event';
+
+/** Tables shared by all events. */
+const PLATFORM_TABLES = ['events', 'admin_users', 'roles', 'auth_tokens', 'auth_sessions', 'event_templates', 'ticket_keys', 'payment_events'];
+
+export const isEventScoped = (table: string) => !PLATFORM_TABLES.includes(table);
+
+/** Platform-wide permissions plus those of the admin's role for the event. */
+export const permissionsIn = (principal: Principal, eventId?: string): string[] => [
+    ...(principal.permissions || []),
+    ...((eventId && principal.eventPermissions?.[eventId]) || [])
+];
+
+/**
+ * Whether the principal works on the event at all. Admins need a platform role
+ * or a role for that event; delegates only belong to their own.
+ */
+export const canAccessEvent = (principal: Principal, eventId: string) => {
+    if (principal.type === 'delegate') return !principal.eventId || principal.eventId === eventId;
+    return (principal.permissions || []).length > 0 || !!principal.eventPermissions?.[eventId];
+};
+
+/** Whether the row lies within the principal's event. */
+const inEventScope = (principal: Principal, table: string, row: any) => {
+    // Delegates may look up any event's public page; admins only list their own events.
+    if (table === 'events') return principal.type === 'delegate' || canAccessEvent(principal, row.id);
+    // Rows written before events were scoped belong to the default event.
+    return !isEventScoped(table) || !principal.eventId || (row.eventId || DEFAULT_EVENT_ID) === principal.eventId;
+};
+
+/** Equality filter restricting reads to the principal's event, for pushing into queries. */
+export const eventScope = (principal: Principal, table: string): Record<string, string> | null =>
+    principal.eventId && isEventScoped(table) ? { eventId: principal.eventId } : null;
+
+/** Event ids of the given versions of a row, used to route its changes. */
+export const rowEvents = (table: string, rows: any[]): string[] => {
+    const field = table === 'events' ? 'id' : isEventScoped(table) ? 'eventId' : null;
+    if (!field) return [];
+    return Array.from(new Set(rows.filter(row => row && row[field]).map(row => String(row[field]))));
+};
+
+// --- Public API ---
+
+/**
+ * Decides whether the principal may perform the action. Without a row this is
+ * the table-level check: delegates with an `own` rule pass and their rows are
+ * filtered individually.
+ */
+export const authorize = (principal: Principal, table: string, action: AccessAction, row?: any): boolean => {
+    const policy = TABLE_POLICIES[table];
+    if (!policy) return false;
+    const rule = policy[action];
+    if (row && !inEventScope(principal, table, row)) return false;
+
+    if (principal.type === 'admin') {
+        return rule.admin !== undefined && hasPermission(principal, rule.admin, eventOfRow(principal, table, row));
+    }
+    if (rule.delegate === 'all') return true;
+    if (rule.delegate === 'own') return row === undefined || ownsRow(policy, principal, row);
+    return false;
+};
+
+/**
+ * Equality filter restricting a delegate's reads to their own rows, so it can be
+ * pushed into the database query. Returns null when no single field applies.
+ */
+export const ownerScope = (principal: Principal, table: string): Record<string, string> | null => {
+    const policy = TABLE_POLICIES[table];
+    if (!policy || principal.type !== 'delegate' || policy.read.delegate !== 'own') return null;
+    if (!policy.owner || policy.owner.length !== 1) return null;
+    return { [policy.owner[0]]: principal.id };
+};
+
+/** Returns a copy of the row with every field the principal may not see removed. */
+export const redactRow = (principal: Principal, table: string, row: any) => {
+    const policy = TABLE_POLICIES[table];
+    if (!policy || !row) return row;
+
+    let result = clone(row);
+    if (policy.publicFields && principal.type === 'delegate' && !ownsRow(policy, principal, row)) {
+        result = Object.fromEntries(policy.publicFields.filter(f => f in result).map(f => [f, result[f]]));
+    }
+    hiddenFields(policy, principal, eventOfRow(principal, table, row)).forEach(path => deletePath(result, path));
+    return result;
+};
+
+/**
+ * Whether the principal sees the field on every row of the table it may read,
+ * so a query may filter or sort on it without telling hidden values apart.
+ */
+export const canQueryField = (principal: Principal, table: string, field: string) => {
+    const policy = TABLE_POLICIES[table];
+    if (!policy) return false;
+    // Delegates only see the public fields of other delegates' rows.
+    if (policy.publicFields && principal.type === 'delegate' && policy.read.delegate === 'all' && !policy.publicFields.includes(field)) return false;
+    return !hiddenFields(policy, principal, eventOfRow(principal, table)).some(path => path === field || path.startsWith(`${field}.`));
+};
+
+/** Copy of the row without the table's secret fields, for rows the server derives from others. */
+export const withoutSecrets = (table: string, row: any) => {
+    const result = clone(row);
+    (TABLE_POLICIES[table]?.secret || []).forEach(path => deletePath(result, path));
+    return result;
+};
+
+/**
+ * Registration fields only the server sets: the seat's status, offer, group and
+ * order, and the ticket's transfer and check-in history.
+ */
+export const SERVER_REGISTRATION_FIELDS = [
+    'password_hash', 'status', 'waitlistOffer', 'groupId', 'orderId', 'pendingTransfer', 'transferHistory', 'transferredTo',
+    'checkedInAt', 'ticketVersion', 'ticketRevokedAt'
+] as const;
+
+/** Copy of registration answers sent by a client, without the fields only the server sets. */
+export const withoutServerFields = <T extends object>(data: T): T => {
+    const result: any = { ...data };
+    SERVER_REGISTRATION_FIELDS.forEach(field => delete result[field]);
+    return result;
+};
+
+/** Filters rows down to those the principal may read, redacted. */
+export const readableRows = (principal: Principal, table: string, rows: any[]) =>
+    rows.filter(row => authorize(principal, table, 'read', row)).map(row => redactRow(principal, table, row));
+
+/**
+ * Checks a create or update and returns the sanitized item to persist, or null
+ * when the write is denied. `existing` is the stored row for updates.
+ */
+export const prepareWrite = (principal: Principal, table: string, item: any, existing?: any): any | null => {
+    const policy = TABLE_POLICIES[table];
+    if (!policy || !item || typeof item !== 'object') return null;
+
+    let result = clone(item);
+    hiddenFields(policy, principal, eventOfRow(principal, table, existing || item)).forEach(path => deletePath(result, path));
+
+    if (isEventScoped(table)) {
+        // Rows never move between events; new ones join the principal's event.
+        if (existing) {
+            if (!inEventScope(principal, table, existing)) return null;
+            if ('eventId' in existing) result.eventId = existing.eventId;
+        } else if (principal.eventId) {
+            if (result.eventId !== undefined && result.eventId !== principal.eventId) return null;
+            result.eventId = principal.eventId;
+        }
+    }
+
+    if (principal.type === 'admin') {
+        return authorize(principal, table, 'write', existing || result) ? result : null;
+    }
+
+    const rule = policy.write.delegate;
+    if (!rule) return null;
+
+    if (rule === 'own') {
+        const ownerField = policy.owner?.[0];
+        if (!existing) {
+            if (!ownerField) return null;
+            if (result[ownerField] === undefined) result[ownerField] = principal.id;
+            // Owning a new message as its receiver would let a delegate forge the sender.
+            if (result[ownerField] !== principal.id) return null;
+        } else if (!ownsRow(policy, principal, existing)) {
+            // Visible but foreign rows only accept changes to shared fields.
+            const shared = policy.shared || [];
+            if (shared.length === 0 || !authorize(principal, table, 'read', existing)) return null;
+            const changes = Object.fromEntries(shared.filter(f => f in result).map(f => [f, result[f]]));
+            return { id: existing.id, ...changes };
+        }
+        if (!ownsRow(policy, principal, result)) return null;
+    }
+
+    (policy.readOnly || []).forEach(field => {
+        if (existing) {
+            if (field in existing) result[field] = existing[field];
+            else delete result[field];
+        } else {
+            delete result[field];
+        }
+    });
+    if (existing) {
+        // Ownership cannot be handed to someone else.
+        (policy.owner || []).forEach(f => { if (f in existing) result[f] = existing[f]; });
+    }
+    return result;
+};
+
+// --- Sync ---
+
+/** Whether anyone may read the table, i.e. whether its changes are sent to clients. */
+export const isSyncedTable = (table: string) => {
+    const policy = TABLE_POLICIES[table];
+    return !!policy && (policy.read.admin !== undefined || policy.read.delegate !== undefined);
+};
+
+/** Registration ids owning any of the given versions of a row. */
+export const rowOwners = (table: string, rows: any[]): string[] => {
+    const fields = TABLE_POLICIES[table]?.owner || [];
+    const owners = new Set<string>();
+    rows.forEach(row => fields.forEach(f => {
+        if (row && row[f] !== undefined && row[f] !== null) owners.add(String(row[f]));
+    }));
+    return Array.from(owners);
+};
+
+/**
+ * Whether the principal may learn that a row changed. The row must belong to
+ * the principal's event before or after the change, and on tables delegates
+ * only read their own rows, they must also own it before or after.
+ */
+export const canSeeChange = (principal: Principal, table: string, owners: string[], events: string[] = []) => {
+    if (!authorize(principal, table, 'read')) return false;
+    const inScope = (eventId: string) => inEventScope(principal, table, table === 'events' ? { id: eventId } : { eventId });
+    // Entries logged before rows were scoped name no event.
+    if (events.length > 0 && !events.some(inScope)) return false;
+    return principal.type !== 'delegate' || TABLE_POLICIES[table].read.delegate !== 'own' || owners.includes(principal.id);
+};
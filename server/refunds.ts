@@ -0,0 +1,78 @@
+import { type CancellationRule, type Order, type OrderRefund, type TicketTier } from '../types';
+
+// Refunds and cancellation policies. A tier's `cancellationPolicy` is a list
+// of deadlines: cancelling before a rule's `until` gives back its
+// `refundPercent` of what the order cost, and after the last deadline nothing.
+// Refunds go back through the payment the order was made with. An order keeps
+// each one in `refunds` and becomes `refunded` once all of it has gone back.
+// Shared by the backend and the browser-mode API.
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The share of the price a cancellation at `now` gives back, in percent. */
+export const refundPercent = (policy: CancellationRule[] | undefined, now = Date.now()) =>
+    [...(policy || [])].sort((a, b) => a.until - b.until).find(rule => now < rule.until)?.refundPercent ?? 0;
+
+/** Why the tier's cancellation policy cannot be saved, or null. */
+export const cancellationPolicyProblem = (policy: CancellationRule[]) => {
+    for (const rule of policy) {
+        if (!Number.isFinite(rule.until)) return 'Set a date for each refund deadline.';
+        if (!Number.isFinite(rule.refundPercent) || rule.refundPercent < 0 || rule.refundPercent > 100) return 'Refunds are between 0 and 100 percent.';
+    }
+    const sorted = [...policy].sort((a, b) => a.until - b.until);
+    if (sorted.some((rule, i) => i > 0 && rule.until === sorted[i - 1].until)) return 'Two refund deadlines fall at the same time.';
+    // Otherwise waiting to cancel would pay off.
+    if (sorted.some((rule, i) => i > 0 && rule.refundPercent > sorted[i - 1].refundPercent)) return 'A later deadline cannot refund more than an earlier one.';
+    return null;
+};
+
+/** The policy as the buyer reads it, one line per deadline. */
+export const describeCancellationPolicy = (policy: CancellationRule[] | undefined) => {
+    const sorted = [...(policy || [])].sort((a, b) => a.until - b.until);
+    if (sorted.length === 0) return ['Cancelling does not give a refund.'];
+    return [
+        ...sorted.map(rule => `${rule.refundPercent === 100 ? 'Full refund' : rule.refundPercent === 0 ? 'No refund' : `${rule.refundPercent}% refund`} if cancelled before ${new Date(rule.until).toLocaleString()}.`),
+        'No refund after that.'
+    ];
+};
+
+/** What can still be given back on the order. */
+export const refundableAmount = (order: Order) =>
+    order.status === 'paid' ? round(Math.max(0, order.total - (order.amountRefunded || 0))) : 0;
+
+/**
+ * What cancelling the ticket the order bought gives back at `now`: the
+ * policy's share of the price, less what has already gone back. Only a
+ * delegate's own order is refunded this way; a seat of a group was paid for by
+ * the purchaser.
+ */
+export const cancellationRefund = (order: Order | null | undefined, tier: TicketTier | null | undefined, now = Date.now()) => {
+    if (!order || order.kind !== 'registration') return { percent: 0, amount: 0 };
+    const percent = refundPercent(tier?.cancellationPolicy, now);
+    const amount = round(Math.min(refundableAmount(order), Math.max(0, order.total * percent / 100 - (order.amountRefunded || 0))));
+    return { percent, amount };
+};
+
+/** Why `amount` cannot be refunded on the order, or null. */
+export const refundProblem = (order: Order | null | undefined, amount: number) => {
+    if (!order) return 'Order not found.';
+    if (order.status === 'refunded') return 'This order has already been refunded.';
+    if (order.status !== 'paid') return 'Only paid orders can be refunded.';
+    if (!Number.isFinite(amount) || amount <= 0) return 'Enter an amount to refund.';
+    const left = refundableAmount(order);
+    if (round(amount) > left) return `At most ${left} ${order.currency} can be refunded.`;
+    return null;
+};
+
+/** An id for the order's next refund. */
+export const nextRefundId = (order: Order) => `rf_${order.id}_${(order.refunds || []).length + 1}`;
+
+/** The changes recording the refund; an order with nothing left to give back becomes `refunded`. */
+export const withRefund = (order: Order, refund: OrderRefund): Partial<Order> => {
+    const amountRefunded = round((order.amountRefunded || 0) + refund.amount);
+    return {
+        refunds: [...(order.refunds || []), refund],
+        amountRefunded,
+        ...(amountRefunded >= order.total ? { status: 'refunded' as const, refundedAt: refund.createdAt } : {})
+    };
+};
@@ -0,0 +1,326 @@
+import {
+    type AccommodationBooking, type CheckInRecord, type DiningReservation, type ExportDefinition, type ExportFormat, type ExportSchedule,
+    type FormField, type Hotel, type MealPlan, type MealPlanAssignment, type RegistrationData, type Restaurant, type TicketTier
+} from '../types';
+import { formatAnswer } from './formFields';
+
+// Registration exports. A definition picks columns (registration details,
+// custom form fields, ticket tier, check-in history, accommodation and dining)
+// and filters registrations by status; the table is then written as CSV, XLSX
+// or JSON. Saved definitions can carry a schedule, on which the backend emails
+// the file to their recipients. Shared by the backend and the browser-mode API.
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+    xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    json: { label: 'JSON', extension: 'json', mimeType: 'application/json' }
+};
+
+/** Everything an export may read, for one event. */
+export interface ExportSources {
+    registrations: RegistrationData[];
+    formFields: FormField[];
+    tiers: TicketTier[];
+    checkIns: CheckInRecord[];
+    bookings: AccommodationBooking[];
+    hotels: Hotel[];
+    mealPlans: MealPlan[];
+    mealPlanAssignments: MealPlanAssignment[];
+    restaurants: Restaurant[];
+    diningReservations: DiningReservation[];
+}
+
+export interface ExportTable {
+    headers: string[];
+    rows: string[][];
+}
+
+export interface ExportFile {
+    fileName: string;
+    mimeType: string;
+    content: Uint8Array<ArrayBuffer>;
+}
+
+type ExportGroup = 'Registration' | 'Form Fields' | 'Ticket' | 'Check-in' | 'Accommodation' | 'Dining';
+
+export interface ExportColumn {
+    id: string;
+    label: string;
+    group: ExportGroup;
+}
+
+interface ExportLookup {
+    tiers: Map<string, TicketTier>;
+    admissions: Map<string, CheckInRecord[]>;
+    bookings: Map<string, AccommodationBooking[]>;
+    hotels: Map<string, Hotel>;
+    mealPlans: Map<string, MealPlan>;
+    mealPlanAssignments: Map<string, MealPlanAssignment[]>;
+    restaurants: Map<string, Restaurant>;
+    diningReservations: Map<string, DiningReservation[]>;
+}
+
+const byId = <T extends { id: string }>(rows: T[]) => new Map(rows.map(r => [r.id, r]));
+
+const groupBy = <T>(rows: T[], key: (row: T) => string | undefined) => {
+    const groups = new Map<string, T[]>();
+    rows.forEach(row => {
+        const k = key(row);
+        if (k) groups.set(k, [...(groups.get(k) || []), row]);
+    });
+    return groups;
+};
+
+const isoTime = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString() : '');
+
+/** The booking that describes the stay: the first one not cancelled. */
+const activeBooking = (lookup: ExportLookup, r: RegistrationData) =>
+    (lookup.bookings.get(r.id!) || []).find(b => b.status !== 'Cancelled');
+
+const BUILT_IN_COLUMNS: (ExportColumn & { value: (r: RegistrationData, lookup: ExportLookup) => string })[] = [
+    { id: 'id', label: 'ID', group: 'Registration', value: r => r.id || '' },
+    { id: 'name', label: 'Name', group: 'Registration', value: r => r.name || '' },
+    { id: 'email', label: 'Email', group: 'Registration', value: r => r.email || '' },
+    { id: 'status', label: 'Status', group: 'Registration', value: r => r.status || 'confirmed' },
+    { id: 'createdAt', label: 'Registered At', group: 'Registration', value: r => isoTime(r.createdAt) },
+    { id: 'ticketTier', label: 'Ticket Tier', group: 'Ticket', value: (r, l) => l.tiers.get(r.ticketTierId || '')?.name || '' },
+    { id: 'ticketPrice', label: 'Ticket Price', group: 'Ticket', value: (r, l) => {
+        const tier = l.tiers.get(r.ticketTierId || '');
+        return tier ? `${tier.price} ${tier.currency || ''}`.trim() : '';
+    } },
+    { id: 'checkedInAt', label: 'Checked In At', group: 'Check-in', value: r => isoTime(r.checkedInAt) },
+    { id: 'admissions', label: 'Admitted Scans', group: 'Check-in', value: (r, l) => String((l.admissions.get(r.id!) || []).length) },
+    { id: 'lastAdmittedAt', label: 'Last Admitted At', group: 'Check-in', value: (r, l) => {
+        const scans = l.admissions.get(r.id!) || [];
+        return isoTime(scans.length ? Math.max(...scans.map(s => s.timestamp)) : undefined);
+    } },
+    { id: 'hotel', label: 'Hotel', group: 'Accommodation', value: (r, l) => l.hotels.get(activeBooking(l, r)?.hotelId || '')?.name || '' },
+    { id: 'roomType', label: 'Room Type', group: 'Accommodation', value: (r, l) => {
+        const booking = activeBooking(l, r);
+        return l.hotels.get(booking?.hotelId || '')?.roomTypes?.find(t => t.id === booking?.roomTypeId)?.name || '';
+    } },
+    { id: 'roomNumber', label: 'Room Number', group: 'Accommodation', value: (r, l) => activeBooking(l, r)?.roomNumber || '' },
+    { id: 'stay', label: 'Stay', group: 'Accommodation', value: (r, l) => {
+        const booking = activeBooking(l, r);
+        return booking ? `${booking.checkInDate} to ${booking.checkOutDate}` : '';
+    } },
+    { id: 'bookingStatus', label: 'Booking Status', group: 'Accommodation', value: (r, l) => activeBooking(l, r)?.status || '' },
+    { id: 'mealPlan', label: 'Meal Plan', group: 'Dining', value: (r, l) =>
+        (l.mealPlanAssignments.get(r.id!) || []).map(a => l.mealPlans.get(a.mealPlanId)?.name).filter(Boolean).join('; ') },
+    { id: 'diningReservations', label: 'Dining Reservations', group: 'Dining', value: (r, l) =>
+        (l.diningReservations.get(r.id!) || [])
+            .map(d => `${l.restaurants.get(d.restaurantId)?.name || 'Restaurant'} at ${d.reservationTime} (party of ${d.partySize})`)
+            .join('; ') }
+];
+
+/** Form field columns are prefixed, so a field id never clashes with a built-in column. */
+const fieldColumnId = (field: FormField) => `field:${field.id}`;
+
+/** Every column an export of this event can use, grouped for the builder. Disabled form fields stay exportable for older registrations. */
+export const exportColumns = (formFields: FormField[]): ExportColumn[] => [
+    ...BUILT_IN_COLUMNS.map(({ id, label, group }) => ({ id, label, group })),
+    ...formFields.map(f => ({ id: fieldColumnId(f), label: f.label, group: 'Form Fields' as const }))
+];
+
+/** The columns of the old one-shot CSV export, used for new definitions. */
+export const defaultExportColumns = (formFields: FormField[]) => [
+    'id', 'name', 'email', 'createdAt', 'checkedInAt', 'status', 'ticketTier',
+    ...formFields.filter(f => f.enabled).map(fieldColumnId)
+];
+
+export const matchesExportFilters = (definition: Pick<ExportDefinition, 'statuses' | 'checkedIn'>, r: RegistrationData) => {
+    if (definition.statuses.length > 0 && !definition.statuses.includes(r.status || 'confirmed')) return false;
+    if (definition.checkedIn === 'yes') return !!r.checkedInAt;
+    if (definition.checkedIn === 'no') return !r.checkedInAt;
+    return true;
+};
+
+/** The export's table, in registration order. Unknown column ids (e.g. of a deleted form field) are dropped. */
+export const buildExportTable = (definition: Pick<ExportDefinition, 'columns' | 'statuses' | 'checkedIn'>, sources: ExportSources): ExportTable => {
+    const lookup: ExportLookup = {
+        tiers: byId(sources.tiers),
+        admissions: groupBy(sources.checkIns.filter(c => c.result === 'admitted' && !c.zoneId), c => c.registrationId),
+        bookings: groupBy(sources.bookings, b => b.delegateId),
+        hotels: byId(sources.hotels),
+        mealPlans: byId(sources.mealPlans),
+        mealPlanAssignments: groupBy(sources.mealPlanAssignments, a => a.delegateId),
+        restaurants: byId(sources.restaurants),
+        diningReservations: groupBy(sources.diningReservations, d => d.delegateId)
+    };
+    const columns = definition.columns.flatMap((id): { label: string; value: (r: RegistrationData, lookup: ExportLookup) => string }[] => {
+        const builtIn = BUILT_IN_COLUMNS.find(c => c.id === id);
+        if (builtIn) return [builtIn];
+        const field = sources.formFields.find(f => fieldColumnId(f) === id);
+        if (!field) return [];
+        return [{ label: field.label, value: (r: RegistrationData) => formatAnswer(r[field.id]) }];
+    });
+    const registrations = sources.registrations
+        .filter(r => matchesExportFilters(definition, r))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    return {
+        headers: columns.map(c => c.label),
+        rows: registrations.map(r => columns.map(c => c.value(r, lookup)))
+    };
+};
+
+// --- File formats ---
+
+/**
+ * Quotes per RFC 4180. Cells that a spreadsheet would run as a formula get a
+ * leading apostrophe, so opening an export cannot execute attendee input.
+ */
+const csvCell = (value: string) => {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsv = (table: ExportTable) =>
+    [table.headers, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const toJson = (table: ExportTable) =>
+    JSON.stringify(table.rows.map(row => Object.fromEntries(table.headers.map((h, i) => [h, row[i]]))), null, 2);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** A ZIP archive with uncompressed (stored) entries, enough for an .xlsx package. */
+const zip = (files: { name: string; data: Uint8Array }[]) => {
+    const encoder = new TextEncoder();
+    const entries = files.map(f => ({ ...f, nameBytes: encoder.encode(f.name), crc: crc32(f.data) }));
+    const localSize = entries.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+    const centralSize = entries.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+    const out = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(out.buffer);
+    // Every entry is dated 1980-01-01, the earliest date ZIP can hold.
+    const DOS_DATE = 0x21;
+    let offset = 0;
+    const offsets: number[] = [];
+    entries.forEach(e => {
+        offsets.push(offset);
+        view.setUint32(offset, 0x04034b50, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 12, DOS_DATE, true);
+        view.setUint32(offset + 14, e.crc, true);
+        view.setUint32(offset + 18, e.data.length, true);
+        view.setUint32(offset + 22, e.data.length, true);
+        view.setUint16(offset + 26, e.nameBytes.length, true);
+        out.set(e.nameBytes, offset + 30);
+        out.set(e.data, offset + 30 + e.nameBytes.length);
+        offset += 30 + e.nameBytes.length + e.data.length;
+    });
+    const centralStart = offset;
+    entries.forEach((e, i) => {
+        view.setUint32(offset, 0x02014b50, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 6, 20, true);
+        view.setUint16(offset + 14, DOS_DATE, true);
+        view.setUint32(offset + 16, e.crc, true);
+        view.setUint32(offset + 20, e.data.length, true);
+        view.setUint32(offset + 24, e.data.length, true);
+        view.setUint16(offset + 28, e.nameBytes.length, true);
+        view.setUint32(offset + 42, offsets[i], true);
+        out.set(e.nameBytes, offset + 46);
+        offset += 46 + e.nameBytes.length;
+    });
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, offset - centralStart, true);
+    view.setUint32(offset + 16, centralStart, true);
+    return out;
+};
+
+const xmlText = (value: string) =>
+    value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const columnName = (index: number): string => (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+/** A one-sheet workbook. Cells are written as inline strings, so values are never read as formulas or dates. */
+const toXlsx = (table: ExportTable, sheetName: string) => {
+    const rows = [table.headers, ...table.rows].map((row, r) =>
+        `<row r="${r + 1}">${row.map((cell, c) =>
+            `<c r="${columnName(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${xmlText(cell)}</t></is></c>`
+        ).join('')}</row>`
+    ).join('');
+    const encoder = new TextEncoder();
+    const xml = (body: string) => encoder.encode(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`);
+    const name = xmlText(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Registrations');
+    return zip([
+        { name: '[Content_Types].xml', data: xml('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>') },
+        { name: '_rels/.rels', data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>') },
+        { name: 'xl/workbook.xml', data: xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`) },
+        { name: 'xl/_rels/workbook.xml.rels', data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>') },
+        { name: 'xl/worksheets/sheet1.xml', data: xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`) }
+    ]);
+};
+
+export const exportFileName = (name: string, format: ExportFormat, now = Date.now()) => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'registrations';
+    return `${slug}_${new Date(now).toISOString().split('T')[0]}.${EXPORT_FORMATS[format].extension}`;
+};
+
+export const renderExport = (table: ExportTable, format: ExportFormat, name: string, now = Date.now()): ExportFile => {
+    // CSV starts with a byte order mark so Excel reads it as UTF-8.
+    const content = format === 'xlsx' ? toXlsx(table, name)
+        : new TextEncoder().encode(format === 'json' ? toJson(table) : `\uFEFF${toCsv(table)}`);
+    return { fileName: exportFileName(name, format, now), mimeType: EXPORT_FORMATS[format].mimeType, content };
+};
+
+// --- Schedules ---
+
+const HOUR = 60 * 60 * 1000;
+
+/** Why a schedule cannot be saved, or null. */
+export const scheduleProblem = (schedule: ExportSchedule) => {
+    if (!['daily', 'weekly'].includes(schedule.frequency)) return 'Choose a daily or weekly schedule.';
+    if (!Number.isInteger(schedule.hour) || schedule.hour < 0 || schedule.hour > 23) return 'The delivery hour must be between 0 and 23.';
+    if (schedule.frequency === 'weekly' && !(Number.isInteger(schedule.weekday) && schedule.weekday! >= 0 && schedule.weekday! <= 6)) {
+        return 'Choose the weekday for a weekly export.';
+    }
+    if (schedule.recipients.length === 0) return 'Add at least one recipient.';
+    const invalid = schedule.recipients.find(e => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e));
+    return invalid ? `"${invalid}" is not a valid email address.` : null;
+};
+
+/** The first delivery time strictly after `after`. */
+export const nextExportRun = (schedule: ExportSchedule, after = Date.now()) => {
+    const start = new Date(after);
+    let next = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate(), schedule.hour);
+    while (next <= after || (schedule.frequency === 'weekly' && new Date(next).getUTCDay() !== schedule.weekday)) {
+        next += 24 * HOUR;
+    }
+    return next;
+};
+
+/** Checks a definition from the builder; returns the fields to store, or why it cannot be saved. `now` sets the first delivery. */
+export const exportDefinitionFields = (body: any, now = Date.now()): Partial<ExportDefinition> | string => {
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 100) : '';
+    if (!name) return 'Give the export a name.';
+    if (!Array.isArray(body.columns) || body.columns.length === 0 || body.columns.some((c: unknown) => typeof c !== 'string')) {
+        return 'Choose at least one column.';
+    }
+    if (!(body.format in EXPORT_FORMATS)) return 'Choose CSV, XLSX or JSON.';
+    const statuses = Array.isArray(body.statuses) ? body.statuses.filter((s: string) => ['confirmed', 'waitlist', 'cancelled'].includes(s)) : [];
+    const checkedIn = ['yes', 'no'].includes(body.checkedIn) ? body.checkedIn : 'any';
+    if (!body.schedule) return { name, columns: body.columns, statuses, checkedIn, format: body.format, schedule: undefined, nextRunAt: undefined };
+
+    const schedule: ExportSchedule = {
+        frequency: body.schedule.frequency,
+        hour: Number(body.schedule.hour),
+        ...(body.schedule.frequency === 'weekly' ? { weekday: Number(body.schedule.weekday) } : {}),
+        recipients: (Array.isArray(body.schedule.recipients) ? body.schedule.recipients : [])
+            .map((e: unknown) => String(e).trim()).filter(Boolean)
+    };
+    const problem = scheduleProblem(schedule);
+    if (problem) return problem;
+    return { name, columns: body.columns, statuses, checkedIn, format: body.format, schedule, nextRunAt: nextExportRun(schedule, now) };
+};
@@ -0,0 +1,206 @@
+import { type FormAnswer, type FormField, type RegistrationData, type TicketTier } from '../types';
+import { checkFormAnswers } from './formFields';
+
+// Registration import. A CSV (RFC 4180) or spreadsheet is read into rows of
+// cell text; each column is mapped onto a registration field, a custom form
+// field or the ticket tier. Rows are validated before anything is written, so
+// a dry run shows exactly what an import would do. Shared by the backend and
+// the browser-mode API.
+
+/** Rows written per batch; progress is reported between batches. */
+export const IMPORT_BATCH_SIZE = 100;
+export const MAX_IMPORT_ROWS = 20000;
+
+/** What a column is imported as: a built-in target, a form field id, or `ignore`. */
+export type ImportTarget = string;
+
+export interface ImportTargetOption {
+    id: ImportTarget;
+    label: string;
+}
+
+const BUILT_IN_TARGETS: ImportTargetOption[] = [
+    { id: 'name', label: 'Full Name' },
+    { id: 'firstName', label: 'First Name' },
+    { id: 'lastName', label: 'Last Name' },
+    { id: 'email', label: 'Email' },
+    { id: 'company', label: 'Company' },
+    { id: 'role', label: 'Role' },
+    { id: 'ticketTier', label: 'Ticket Tier' }
+];
+
+export interface ImportRowResult {
+    /** Line of the row in the file, counting the header. */
+    row: number;
+    registration?: Partial<RegistrationData>;
+    errors: string[];
+}
+
+export interface ImportContext {
+    formFields: FormField[];
+    tiers: TicketTier[];
+    /** Emails already registered for the event, lower case. */
+    existingEmails: Set<string>;
+}
+
+/**
+ * Parses CSV text per RFC 4180: quoted fields may hold delimiters, line breaks
+ * and doubled quotes. Tab-separated text (as pasted from a spreadsheet) is
+ * detected from the first line. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const input = text.replace(/^﻿/, '');
+    const firstLine = input.slice(0, input.search(/\r?\n|$/));
+    const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char !== '"') field += char;
+            else if (input[i + 1] === '"') { field += '"'; i++; }
+            else quoted = false;
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/** Built-in targets, then the event's form fields (disabled ones too, so old data can still be kept). */
+export const importTargets = (formFields: FormField[]): ImportTargetOption[] => [
+    ...BUILT_IN_TARGETS,
+    ...formFields.filter(f => !BUILT_IN_TARGETS.some(t => t.id === f.id)).map(f => ({ id: f.id, label: f.label }))
+];
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_ALIASES: Record<string, string[]> = {
+    name: ['name', 'fullname', 'attendee', 'delegate'],
+    firstName: ['firstname', 'givenname', 'first'],
+    lastName: ['lastname', 'surname', 'familyname', 'last'],
+    email: ['email', 'emailaddress', 'mail'],
+    company: ['company', 'organization', 'organisation', 'companyorganization'],
+    role: ['role', 'title', 'position'],
+    ticketTier: ['ticket', 'tickettier', 'tier', 'tickettype']
+};
+
+/**
+ * Guesses a target for each header cell from its text. `header` is false when
+ * nothing matched, meaning the first row is probably data.
+ */
+export const guessMapping = (headers: string[], formFields: FormField[]): { mapping: ImportTarget[]; header: boolean } => {
+    const targets = importTargets(formFields);
+    const used = new Set<string>();
+    const mapping = headers.map(cell => {
+        const key = normalizeHeader(cell);
+        const match = targets.find(t =>
+            !used.has(t.id) && (normalizeHeader(t.id) === key || normalizeHeader(t.label) === key || (HEADER_ALIASES[t.id] || []).includes(key))
+        );
+        if (!match) return 'ignore';
+        used.add(match.id);
+        return match.id;
+    });
+    if (used.size > 0) return { mapping, header: true };
+    // Without a header, fall back to the old two-column `name, email` layout.
+    return { mapping: headers.map((_, i) => (i === 0 ? 'name' : i === 1 ? 'email' : 'ignore')), header: false };
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Checks a mapping before any row is looked at. */
+export const mappingErrors = (mapping: ImportTarget[]) => {
+    const errors: string[] = [];
+    if (!mapping.includes('email')) errors.push('Map a column to Email.');
+    if (!mapping.includes('name') && !mapping.includes('firstName')) errors.push('Map a column to Full Name or First Name.');
+    const mapped = mapping.filter(t => t !== 'ignore');
+    const twice = mapped.filter((t, i) => mapped.indexOf(t) !== i);
+    if (twice.length > 0) errors.push(`Columns mapped more than once: ${[...new Set(twice)].join(', ')}.`);
+    return errors;
+};
+
+/** Reads a cell as the answer its field stores: ticks as booleans, multi-select as a list, options in their configured case. */
+const importedAnswer = (field: FormField, text: string): FormAnswer => {
+    const option = (value: string) => field.options?.find(o => o.toLowerCase() === value.toLowerCase()) || value;
+    switch (field.type) {
+        case 'checkbox':
+        case 'consent':
+            if (/^(yes|y|true|1|x)$/i.test(text)) return true;
+            if (/^(no|n|false|0)$/i.test(text)) return false;
+            return text;
+        case 'multiselect':
+            return text.split(/[;,]/).map(v => v.trim()).filter(Boolean).map(option);
+        case 'dropdown':
+            return option(text);
+        default:
+            return text;
+    }
+};
+
+/**
+ * Builds and checks the registration for every row. `firstRow` is the file
+ * line of `rows[0]`. An email repeated within the file is an error on every
+ * row after the first.
+ */
+export const validateImportRows = (rows: string[][], mapping: ImportTarget[], context: ImportContext, firstRow = 1): ImportRowResult[] => {
+    const seen = new Set<string>();
+    return rows.map((cells, index) => {
+        const values: Record<string, string> = {};
+        mapping.forEach((target, column) => {
+            const value = (cells[column] ?? '').trim();
+            if (target !== 'ignore' && value) values[target] = value;
+        });
+        const errors: string[] = [];
+        const { name, firstName, lastName, email: rawEmail, ticketTier, ...fields } = values;
+
+        const fullName = name || [firstName, lastName].filter(Boolean).join(' ');
+        if (!fullName) errors.push('Name is missing.');
+
+        const email = (rawEmail || '').toLowerCase();
+        if (!email) errors.push('Email is missing.');
+        else if (!EMAIL_PATTERN.test(email)) errors.push(`"${rawEmail}" is not a valid email address.`);
+        else if (context.existingEmails.has(email)) errors.push(`${email} is already registered.`);
+        else if (seen.has(email)) errors.push(`${email} appears earlier in the file.`);
+        if (email) seen.add(email);
+
+        let ticketTierId: string | undefined;
+        if (ticketTier) {
+            const tier = context.tiers.find(t => t.id === ticketTier || t.name.toLowerCase() === ticketTier.toLowerCase());
+            if (tier) ticketTierId = tier.id;
+            else errors.push(`Unknown ticket tier "${ticketTier}".`);
+        }
+
+        const answers: Record<string, FormAnswer> = { ...fields };
+        context.formFields.forEach(field => {
+            if (fields[field.id]) answers[field.id] = importedAnswer(field, fields[field.id]);
+        });
+        // Fields hidden by their conditions are not required, but a mapped column is still imported.
+        errors.push(...Object.values(checkFormAnswers(context.formFields, { ...answers, ticketTierId }).errors));
+
+        const registration: Partial<RegistrationData> = {
+            ...answers,
+            name: fullName,
+            email,
+            ...(ticketTierId ? { ticketTierId } : {})
+        };
+        return { row: firstRow + index, registration, errors };
+    });
+};
+
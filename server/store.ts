@@ -1,3 +1,7 @@
+// Browser copy of the database. Tables are held in memory for synchronous
+// access and persisted row by row to IndexedDB, one object store per table.
+// Without IndexedDB the whole database falls back to a single localStorage key.
+
 
 export const db: any = {
     registrations: [],
@@ -29,16 +33,236 @@ export const db: any = {
     poll_votes: []
 };
 
-export const initializeDb = async () => {
+
+/**
+ * Fields looked up by equality often enough to index, per table. `id` is the
+ * key of every store. Adding a field here upgrades existing browsers on load.
+ */
+export const TABLE_INDEXES: Record<string, string[]> = {
+    registrations: ['email', 'eventId'],
+    admin_users: ['email'],
+    auth_tokens: ['subjectId'],
+    agenda_entries: ['userId'],
+    session_feedback: ['sessionId'],
+    session_questions: ['sessionId'],
+    polls: ['sessionId'],
+    poll_votes: ['pollId', 'userId'],
+    tasks: ['eventId'],
+    dining_reservations: ['restaurantId'],
+    rooms: ['hotelId'],
+    networking_profiles: ['userId'],
+    scavenger_hunt_progress: ['userId'],
+    notifications: ['userId'],
+    messages: ['senderId', 'receiverId'],
+    transactions: ['fromId', 'toId'],
+    check_ins: ['registrationId']
+};
+
+const IDB_NAME = 'event_platform_db';
+const LEGACY_STORAGE_KEY = 'event_platform_db_v1';
+
+// --- IndexedDB ---
+
+let connection: Promise<IDBDatabase | null> | null = null;
+// Every IndexedDB operation runs after the previous one has finished, so reads
+// always see earlier writes and schema upgrades never race a transaction.
+let queue: Promise<unknown> = Promise.resolve();
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const hasSchema = (idb: IDBDatabase, tables: string[]) => tables.every(table => {
+    if (!idb.objectStoreNames.contains(table)) return false;
+    const indexes = idb.transaction(table, 'readonly').objectStore(table).indexNames;
+    return (TABLE_INDEXES[table] || []).every(field => indexes.contains(field));
+});
+
+const openIdb = (tables: string[], version?: number) => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = version ? indexedDB.open(IDB_NAME, version) : indexedDB.open(IDB_NAME);
+    request.onupgradeneeded = () => {
+        const idb = request.result;
+        tables.forEach(table => {
+            const store = idb.objectStoreNames.contains(table)
+                ? request.transaction!.objectStore(table)
+                : idb.createObjectStore(table, { keyPath: 'id' });
+            (TABLE_INDEXES[table] || []).forEach(field => {
+                if (!store.indexNames.contains(field)) store.createIndex(field, field);
+            });
+        });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Tables can appear at runtime, so instead of a fixed schema version the
+// database is reopened one version up whenever a store or index is missing.
+const connect = async (tables: string[]) => {
+    let idb = await openIdb(tables);
+    if (!hasSchema(idb, tables)) {
+        const version = idb.version + 1;
+        idb.close();
+        idb = await openIdb(tables, version);
+    }
+    // Let another tab upgrade the schema; the next operation reconnects.
+    idb.onversionchange = () => {
+        idb.close();
+        connection = null;
+    };
+    return idb;
+};
+
+const connectionFor = async (table?: string): Promise<IDBDatabase | null> => {
+    if (!connection) {
+        connection = typeof indexedDB === 'undefined'
+            ? Promise.resolve(null)
+            : connect(Object.keys(db)).catch(e => {
+                console.warn('IndexedDB unavailable, storing data in localStorage.', e);
+                return null;
+            });
+    }
+    const idb = await connection;
+    if (!idb || !table || idb.objectStoreNames.contains(table)) return idb;
+    idb.close();
+    connection = connect(Array.from(new Set([...Object.keys(db), table])));
+    return connection;
+};
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+};
+
+const saveLegacy = () => {
     if (typeof window !== 'undefined') {
-        const saved = localStorage.getItem('event_platform_db_v1');
-        if (saved) {
-            const parsed = JSON.parse(saved);
+        localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(db));
+    }
+};
+
+const write = (table: string, apply: (store: IDBObjectStore) => void) => enqueue(async () => {
+    const idb = await connectionFor(table);
+    if (!idb) return saveLegacy();
+    const tx = idb.transaction(table, 'readwrite');
+    apply(tx.objectStore(table));
+    await transactionDone(tx);
+}).catch(e => console.error(`Failed to persist ${table}`, e));
+
+// Resolves to null when IndexedDB is unavailable, so callers can read memory instead.
+const read = <T>(table: string, lookup: (store: IDBObjectStore) => IDBRequest<T>) => enqueue(async (): Promise<T | null> => {
+    const idb = await connectionFor();
+    if (!idb || !idb.objectStoreNames.contains(table)) return null;
+    return requestResult(lookup(idb.transaction(table, 'readonly').objectStore(table)));
+});
+
+// --- Persistence ---
+
+/** Saves the given rows of a table (inserts or replaces them by id). */
+export const persistRows = (table: string, rows: any[]) =>
+    write(table, store => rows.forEach(row => {
+        if (row?.id !== undefined) store.put(row);
+    }));
+
+export const deletePersistedRows = (table: string, ids: any[]) =>
+    write(table, store => ids.forEach(id => store.delete(id)));
+
+/** Replaces everything stored for the table with its in-memory rows. */
+export const persistTable = (table: string) =>
+    write(table, store => {
+        store.clear();
+        (db[table] || []).forEach((row: any) => {
+            if (row?.id !== undefined) store.put(row);
+        });
+    });
+
+// --- Indexed Reads ---
+
+const isKey = (value: any) =>
+    typeof value === 'string' || (typeof value === 'number' && !isNaN(value));
+
+/** Fields of the table that an IndexedDB lookup can answer, `id` included. */
+export const isIndexedField = (table: string, field: string) =>
+    field === 'id' || (TABLE_INDEXES[table] || []).includes(field);
+
+/**
+ * Rows whose `field` equals `value`, read through the store's index in id
+ * order. Null when IndexedDB is unavailable or the field is not indexed.
+ */
+export const readIndexed = async (table: string, field: string, value: any): Promise<any[] | null> => {
+    if (!isIndexedField(table, field) || !isKey(value)) return null;
+    if (field === 'id') {
+        const row = await read(table, store => store.get(value));
+        return row === null ? null : row ? [row] : [];
+    }
+    return read<any[]>(table, store => store.index(field).getAll(value));
+};
+
+export const countIndexed = async (table: string, field: string, value: any): Promise<number | null> => {
+    if (!isIndexedField(table, field) || !isKey(value)) return null;
+    return read<number>(table, store => field === 'id' ? store.count(value) : store.index(field).count(value));
+};
+
+// --- Loading ---
+
+const loadTables = async () => {
+    if (typeof window === 'undefined') return;
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const idb = await enqueue(() => connectionFor());
+
+    if (!idb || legacy) {
+        if (legacy) {
+            const parsed = JSON.parse(legacy);
             Object.keys(parsed).forEach(key => {
                 db[key] = parsed[key];
             });
         }
+        if (!idb) return;
+        // One-time move from the single localStorage blob used before IndexedDB.
+        await Promise.all(Object.keys(db).map(persistTable));
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+
+    await enqueue(async () => {
+        const tables: string[] = Array.from(idb.objectStoreNames);
+        if (tables.length === 0) return;
+        const tx = idb.transaction(tables, 'readonly');
+        const rows = await Promise.all(tables.map(table => requestResult(tx.objectStore(table).getAll())));
+        tables.forEach((table, i) => {
+            db[table] = rows[i];
+        });
+    });
+};
+
+/** Re-reads one table from storage after another tab changed it. */
+export const reloadTable = async (table: string) => {
+    const rows = await read(table, store => store.getAll());
+    if (rows) {
+        db[table] = rows;
+    } else if (typeof window !== 'undefined') {
+        const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : null;
+        if (parsed?.[table]) db[table] = parsed[table];
     }
+};
+
+let initialized: Promise<void> | null = null;
+
+/** Loads stored tables and seeds the defaults. Runs once; later calls share the result. */
+export const initializeDb = () => {
+    if (!initialized) initialized = loadAndSeed();
+    return initialized;
+};
+
+const loadAndSeed = async () => {
+    await loadTables();
 
     // Seed default admin if missing (Mock Mode only)
     if (!db.admin_users || db.admin_users.length === 0) {
@@ -114,24 +338,6 @@ export const initializeDb = async () => {
              });
         }
         
-        saveDb();
+        await Promise.all(['roles', 'admin_users', 'events'].map(persistTable));
     }
 };
-
-export const saveDb = () => {
-    if (typeof window !== 'undefined') {
-        localStorage.setItem('event_platform_db_v1', JSON.stringify(db));
-    }
-};
-
-export const reloadTable = (table: string) => {
-    if (typeof window !== 'undefined') {
-        const saved = localStorage.getItem('event_platform_db_v1');
-        if (saved) {
-            const parsed = JSON.parse(saved);
-            if (parsed[table]) {
-                db[table] = parsed[table];
-            }
-        }
-    }
-}
\ No newline at end of file
@@ -0,0 +1,133 @@
+/**
+ * Signed tickets. A ticket QR code holds a compact token,
+ * `<base64url claims>.<base64url Ed25519 signature>`, that any device with the
+ * public keys cached can check without a connection. Shared by the backend and
+ * the browser-mode API, so it only relies on Web Crypto.
+ */
+
+export interface TicketClaims {
+    /** Event id. */
+    e: string;
+    /** Registration id. */
+    r: string;
+    /** Ticket tier id, if the registration has one. */
+    t?: string;
+    /** Ticket version. Reissuing a ticket bumps it, so older codes stop working. */
+    n: number;
+    /** Valid from and until, in Unix seconds. */
+    nbf: number;
+    exp: number;
+    /** Id of the signing key. */
+    k: string;
+}
+
+/** A JSON Web Key as exported by Web Crypto. */
+type Jwk = { [field: string]: any };
+
+export interface TicketPublicKey {
+    kid: string;
+    publicKey: Jwk;
+}
+
+export interface TicketSigningKey extends TicketPublicKey {
+    privateKey: Jwk;
+    createdAt: number;
+}
+
+export type TicketCheck =
+    | { valid: true; claims: TicketClaims }
+    | { valid: false; reason: string; claims?: TicketClaims };
+
+const ALGORITHM = { name: 'Ed25519' };
+/** Tickets are valid for a year unless the event sets its own window. */
+const DEFAULT_LIFETIME_SECONDS = 365 * 24 * 60 * 60;
+/** Tolerated clock difference between the issuing server and the door device. */
+const CLOCK_SKEW_SECONDS = 5 * 60;
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const generateTicketKey = async (): Promise<TicketSigningKey> => {
+    const pair = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify']) as { publicKey: any; privateKey: any };
+    const id = new Uint8Array(6);
+    crypto.getRandomValues(id);
+    return {
+        kid: toBase64Url(id),
+        publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+        privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+        createdAt: Date.now()
+    };
+};
+
+export const publicTicketKey = ({ kid, publicKey }: TicketPublicKey): TicketPublicKey => ({ kid, publicKey });
+
+/**
+ * Validity window of tickets issued now: the event's `ticketValidity` dates
+ * when set, otherwise from now for a year.
+ */
+export const ticketValidity = (validity: { from?: string; until?: string } | undefined, now = Date.now()) => {
+    const seconds = (date?: string) => {
+        const time = date ? Date.parse(date) : NaN;
+        return isNaN(time) ? undefined : Math.floor(time / 1000);
+    };
+    const nbf = seconds(validity?.from) ?? Math.floor(now / 1000);
+    return { nbf, exp: seconds(validity?.until) ?? nbf + DEFAULT_LIFETIME_SECONDS };
+};
+
+export const signTicket = async (claims: Omit<TicketClaims, 'k'>, key: TicketSigningKey): Promise<string> => {
+    const body = toBase64Url(new TextEncoder().encode(JSON.stringify({ ...claims, k: key.kid })));
+    const privateKey = await crypto.subtle.importKey('jwk', key.privateKey, ALGORITHM, false, ['sign']);
+    const signature = new Uint8Array(await crypto.subtle.sign(ALGORITHM, privateKey, new TextEncoder().encode(body)));
+    return `${body}.${toBase64Url(signature)}`;
+};
+
+/** Checks the token's signature and validity window. Says nothing about revocation. */
+export const verifyTicket = async (token: string, keys: TicketPublicKey[], now = Date.now()): Promise<TicketCheck> => {
+    const [body, signature, extra] = token.trim().split('.');
+    if (!body || !signature || extra !== undefined) return { valid: false, reason: 'This is not a ticket code.' };
+
+    let claims: TicketClaims;
+    try {
+        claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    } catch (e) {
+        return { valid: false, reason: 'This is not a ticket code.' };
+    }
+    const key = keys.find(k => k.kid === claims.k);
+    if (!key) return { valid: false, reason: 'Unknown signing key. Connect this device to refresh its ticket keys.', claims };
+
+    let authentic = false;
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', key.publicKey, ALGORITHM, false, ['verify']);
+        authentic = await crypto.subtle.verify(ALGORITHM, publicKey, fromBase64Url(signature), new TextEncoder().encode(body));
+    } catch (e) {
+        authentic = false;
+    }
+    if (!authentic) return { valid: false, reason: 'Invalid ticket signature.', claims };
+
+    const seconds = Math.floor(now / 1000);
+    if (seconds + CLOCK_SKEW_SECONDS < claims.nbf) return { valid: false, reason: 'This ticket is not valid yet.', claims };
+    if (seconds - CLOCK_SKEW_SECONDS > claims.exp) return { valid: false, reason: 'This ticket has expired.', claims };
+    return { valid: true, claims };
+};
+
+/**
+ * Why an authentic ticket must still be refused, judged against the
+ * registration as this device knows it; null if it may be admitted.
+ */
+export const ticketRejection = (claims: TicketClaims, registration: any, eventId: string): string | null => {
+    if (claims.e !== eventId) return 'This ticket is for a different event.';
+    if (!registration || registration.id !== claims.r) return 'Ticket not found. It may have been cancelled, or this device needs to sync.';
+    if (registration.status === 'cancelled') return 'This ticket has been cancelled.';
+    if (registration.status === 'waitlist') return 'This delegate is on the waitlist and has no seat yet.';
+    if (registration.ticketRevokedAt) return 'This ticket has been revoked.';
+    if ((registration.ticketVersion || 1) !== claims.n) return 'This ticket has been replaced by a newer one.';
+    return null;
+};
@@ -0,0 +1,118 @@
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30 s steps) for
+ * admin two-factor authentication. Shared by the backend and the browser-mode
+ * API, so it only relies on Web Crypto.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+/** Steps accepted either side of the current one, to tolerate clock drift. */
+const TOTP_WINDOW = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const base32Encode = (bytes: Uint8Array): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+export const base32Decode = (input: string): Uint8Array<ArrayBuffer> => {
+    const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 secret.');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+};
+
+/** A new random 160-bit secret, base32 encoded as authenticator apps expect. */
+export const generateTotpSecret = (): string => {
+    const bytes = new Uint8Array(20);
+    crypto.getRandomValues(bytes);
+    return base32Encode(bytes);
+};
+
+const hotp = async (key: Uint8Array<ArrayBuffer>, counter: number): Promise<string> => {
+    const message = new Uint8Array(8);
+    let remaining = counter;
+    for (let i = 7; i >= 0; i--) {
+        message[i] = remaining & 255;
+        remaining = Math.floor(remaining / 256);
+    }
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, message));
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+const timeStep = (time: number) => Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+
+export const generateTotp = (secret: string, time = Date.now()) => hotp(base32Decode(secret), timeStep(time));
+
+/**
+ * Checks a code against the steps around `time`. Returns the matching step so
+ * callers can store it and refuse the same code twice, or null when it fails.
+ * Steps at or before `lastUsedStep` are never accepted.
+ */
+export const verifyTotp = async (secret: string, code: string, lastUsedStep = -1, time = Date.now()): Promise<number | null> => {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const current = timeStep(time);
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+        if (step <= lastUsedStep) continue;
+        if (await hotp(key, step) === normalized) return step;
+    }
+    return null;
+};
+
+/** `otpauth://` URI understood by Google Authenticator, 1Password, Authy, etc. */
+export const buildOtpAuthUrl = (secret: string, accountName: string, issuer: string) => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/** Single-use recovery codes in the form `xxxxx-xxxxx`. Store only their hashes. */
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT): string[] => {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+    return Array.from({ length: count }, () => {
+        const bytes = new Uint8Array(10);
+        crypto.getRandomValues(bytes);
+        const chars = Array.from(bytes, b => alphabet[b % alphabet.length]).join('');
+        return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+    });
+};
+
+/** Canonical form of a recovery code as typed by a user, before hashing. */
+export const normalizeRecoveryCode = (code: string) => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -0,0 +1,95 @@
+import { type GroupSeat, type PendingTransfer, type RegistrationData, type TicketHolderChange } from '../types';
+
+// Ticket transfers and name changes. A holder nominates someone by email; the
+// recipient accepts through an emailed link and fills in the registration
+// form. Accepting creates a new registration for the recipient that carries
+// the ticket's history, and cancels the old one so its pass is rejected at the
+// door. Admin edits to a holder's name or email are recorded in the same
+// history. Shared by the backend and the browser-mode API.
+
+/** How long a recipient has to accept a transfer. */
+export const TRANSFER_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Why this ticket cannot be handed over, or null. */
+export const transferRejection = (registration: RegistrationData | null | undefined) => {
+    if (!registration) return 'Registration not found.';
+    if (registration.status === 'waitlist') return 'Only confirmed tickets can be transferred.';
+    if (registration.status === 'cancelled' || registration.ticketRevokedAt) return 'This ticket is no longer valid.';
+    if (registration.checkedInAt) return 'This ticket has already been used to check in.';
+    return null;
+};
+
+/**
+ * Why the ticket cannot go to this email, or null. `registrations` are the
+ * event's; cancelled ones do not count.
+ */
+export const recipientProblem = (holder: RegistrationData, email: string, registrations: RegistrationData[]) => {
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) return 'Enter a valid email address.';
+    if (address === holder.email.toLowerCase()) return 'This ticket is already yours.';
+    const taken = registrations.some(r => r.id !== holder.id && r.status !== 'cancelled' && r.email.toLowerCase() === address);
+    return taken ? `${email.trim()} is already registered for this event.` : null;
+};
+
+export const newPendingTransfer = (recipient: { email: string; name?: string }, now: number): PendingTransfer => ({
+    toEmail: recipient.email.trim(),
+    ...(recipient.name?.trim() ? { toName: recipient.name.trim() } : {}),
+    requestedAt: now,
+    expiresAt: now + TRANSFER_TTL
+});
+
+/**
+ * The recipient's registration: their own answers, with the ticket, seat and
+ * history taken over from the holder's.
+ */
+export const transferredTicket = (from: RegistrationData, profile: Partial<RegistrationData>, id: string, now: number): RegistrationData => ({
+    ...profile,
+    name: String(profile.name || '').trim(),
+    email: String(profile.email || '').trim(),
+    id,
+    eventId: from.eventId,
+    ticketTierId: from.ticketTierId,
+    status: 'confirmed',
+    createdAt: now,
+    ...(from.groupId ? { groupId: from.groupId } : {}),
+    transferHistory: [...(from.transferHistory || []), {
+        type: 'transfer',
+        at: now,
+        fromName: from.name,
+        fromEmail: from.email,
+        toName: String(profile.name || '').trim(),
+        toEmail: String(profile.email || '').trim(),
+        fromRegistrationId: from.id
+    }]
+});
+
+/** What is written to the holder's registration once the recipient has accepted. */
+export const handedOver = (toId: string, now: number) => ({
+    status: 'cancelled' as const,
+    ticketRevokedAt: now,
+    transferredTo: toId,
+    pendingTransfer: null
+});
+
+/** A group seat follows its ticket to the new holder. */
+export const reassignedSeats = (seats: GroupSeat[], fromId: string, to: RegistrationData): GroupSeat[] =>
+    seats.map(seat => seat.registrationId === fromId
+        ? { ...seat, registrationId: to.id, attendeeName: to.name, attendeeEmail: to.email }
+        : seat);
+
+/**
+ * The updates to save for an edit of a registration, with a `name_change`
+ * entry added to its history when the edit renames the holder or changes
+ * their email.
+ */
+export const withNameChange = <T extends Partial<RegistrationData>>(existing: RegistrationData, updates: T, by?: string, now = Date.now()): T => {
+    const toName = updates.name === undefined ? existing.name : String(updates.name).trim();
+    const toEmail = updates.email === undefined ? existing.email : String(updates.email).trim();
+    if (toName === existing.name && toEmail.toLowerCase() === String(existing.email).toLowerCase()) return updates;
+    const entry: TicketHolderChange = {
+        type: 'name_change', at: now, fromName: existing.name, fromEmail: existing.email, toName, toEmail, ...(by ? { by } : {})
+    };
+    return { ...updates, transferHistory: [...(existing.transferHistory || []), entry] };
+};
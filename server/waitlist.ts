@@ -0,0 +1,142 @@
+import { type EventConfig, type RegistrationData, type TicketTier } from '../types';
+
+// Waitlist. Seats are capped per event (`event.maxAttendees`) and per ticket
+// tier (`limit`); a confirmed registration or a waitlisted one holding a live
+// offer takes a seat. When seats free up, the people waiting are offered them
+// in sign-up order. An offer that lapses frees the seat again, and the
+// delegate drops out of the queue so it rolls on to the next person. Seats
+// bought by a group and not yet claimed are held too (see `server/groups.ts`).
+// Shared by the backend and the browser-mode API.
+
+export const DEFAULT_WAITLIST_OFFER_HOURS = 48;
+
+/** A seat taken by something other than a registration, e.g. an unclaimed group seat. */
+export interface SeatHold {
+    ticketTierId?: string;
+}
+
+export interface SeatCount {
+    event: number;
+    tiers: Record<string, number>;
+}
+
+/** Where a delegate stands: their place in the queue, or the offer they hold. */
+export interface WaitlistStanding {
+    status: RegistrationData['status'];
+    /** 1-based; unset when not queueing. */
+    position?: number;
+    total: number;
+    offer?: RegistrationData['waitlistOffer'];
+    /** The offer ran out before it was accepted. */
+    lapsed?: boolean;
+}
+
+const hasLiveOffer = (r: RegistrationData, now: number) => !!r.waitlistOffer && r.waitlistOffer.expiresAt > now;
+
+export const holdsSeat = (r: RegistrationData, now = Date.now()) =>
+    r.status === 'confirmed' || (r.status === 'waitlist' && hasLiveOffer(r, now));
+
+export const offerLapsed = (r: RegistrationData, now = Date.now()) =>
+    r.status === 'waitlist' && !!r.waitlistOffer && r.waitlistOffer.expiresAt <= now;
+
+const takeSeat = (taken: SeatCount, tierId?: string) => {
+    taken.event++;
+    if (tierId) taken.tiers[tierId] = (taken.tiers[tierId] || 0) + 1;
+};
+
+export const seatsTaken = (registrations: RegistrationData[], now = Date.now(), held: SeatHold[] = []): SeatCount => {
+    const taken: SeatCount = { event: 0, tiers: {} };
+    registrations.filter(r => holdsSeat(r, now)).forEach(r => takeSeat(taken, r.ticketTierId));
+    held.forEach(h => takeSeat(taken, h.ticketTierId));
+    return taken;
+};
+
+/** Whether one more seat fits the event and the tier. A limit of 0 or less means no limit. */
+export const hasRoom = (config: EventConfig, tiers: TicketTier[], taken: SeatCount, tierId?: string) => {
+    const max = Number(config.event.maxAttendees) || 0;
+    if (max > 0 && taken.event >= max) return false;
+    const limit = Number(tiers.find(t => t.id === tierId)?.limit) || 0;
+    return !(tierId && limit > 0 && (taken.tiers[tierId] || 0) >= limit);
+};
+
+/** People waiting without an offer, first come first served. */
+export const waitlistQueue = (registrations: RegistrationData[]) =>
+    registrations
+        .filter(r => r.status === 'waitlist' && !r.waitlistOffer)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * The waiting registrations that should get an offer now, in queue order. A
+ * delegate whose tier is full is skipped, so later ones can take seats in
+ * other tiers. `taken` includes the seats those offers will hold.
+ */
+export const openSeatOffers = (
+    registrations: RegistrationData[],
+    config: EventConfig,
+    tiers: TicketTier[],
+    now = Date.now(),
+    held: SeatHold[] = []
+) => {
+    const taken = seatsTaken(registrations, now, held);
+    const offers: RegistrationData[] = [];
+    waitlistQueue(registrations).forEach(r => {
+        if (!hasRoom(config, tiers, taken, r.ticketTierId)) return;
+        offers.push(r);
+        takeSeat(taken, r.ticketTierId);
+    });
+    return { offers, taken };
+};
+
+/** The status a new registration gets. People already waiting go first, so a newcomer only gets a seat nobody in the queue can take. */
+export const admissionStatus = (
+    ticketTierId: string | undefined,
+    registrations: RegistrationData[],
+    config: EventConfig,
+    tiers: TicketTier[],
+    now = Date.now(),
+    held: SeatHold[] = []
+): 'confirmed' | 'waitlist' => {
+    const { taken } = openSeatOffers(registrations, config, tiers, now, held);
+    return hasRoom(config, tiers, taken, ticketTierId) ? 'confirmed' : 'waitlist';
+};
+
+/** Whether all of `seats` fit at once, after the people already waiting. Used for group orders, which are not waitlisted. */
+export const roomForSeats = (
+    seats: SeatHold[],
+    registrations: RegistrationData[],
+    config: EventConfig,
+    tiers: TicketTier[],
+    now = Date.now(),
+    held: SeatHold[] = []
+) => {
+    const { taken } = openSeatOffers(registrations, config, tiers, now, held);
+    return seats.every(seat => {
+        if (!hasRoom(config, tiers, taken, seat.ticketTierId)) return false;
+        takeSeat(taken, seat.ticketTierId);
+        return true;
+    });
+};
+
+export const newWaitlistOffer = (config: EventConfig, now = Date.now()) => {
+    const hours = Number(config.event.waitlistOfferHours) || DEFAULT_WAITLIST_OFFER_HOURS;
+    return { offeredAt: now, expiresAt: now + hours * 60 * 60 * 1000 };
+};
+
+export const waitlistStanding = (registration: RegistrationData, registrations: RegistrationData[], now = Date.now()): WaitlistStanding => {
+    const queue = waitlistQueue(registrations);
+    const index = queue.findIndex(r => r.id === registration.id);
+    return {
+        status: registration.status,
+        ...(index >= 0 ? { position: index + 1 } : {}),
+        total: queue.length,
+        ...(hasLiveOffer(registration, now) ? { offer: registration.waitlistOffer } : {}),
+        ...(offerLapsed(registration, now) ? { lapsed: true } : {})
+    };
+};
+
+/** Why an offer cannot be accepted, or null if it can. */
+export const offerRejection = (registration: RegistrationData | null | undefined, now = Date.now()) => {
+    if (!registration || registration.status !== 'waitlist' || !registration.waitlistOffer) return 'There is no waitlist offer to accept.';
+    if (registration.waitlistOffer.expiresAt <= now) return 'This offer has expired and the seat was passed on.';
+    return null;
+};
@@ -0,0 +1,87 @@
+import { type AccessZone, type CheckInRecord, type MapPin, type Session, type TicketTier, type VenueMap, type ZoneDirection } from '../types';
+
+// Access zones. Sessions and room pins on venue maps can have their own door
+// scanner. Scans into and out of a zone are `check_ins` rows carrying its
+// `zoneId`, and a zone's occupancy is the delegates whose last admitted scan
+// there was an entry. Shared by the backend and the browser-mode API.
+
+export const sessionZone = (session: Session): AccessZone => ({
+    id: session.id,
+    type: 'session',
+    name: session.title,
+    capacity: Number(session.capacity) || 0,
+    requiredBenefits: session.requiredBenefits || []
+});
+
+export const roomZone = (pin: MapPin): AccessZone => ({
+    id: pin.id,
+    type: 'room',
+    name: pin.label,
+    capacity: Number(pin.capacity) || 0,
+    requiredBenefits: pin.requiredBenefits || []
+});
+
+/** Every zone of an event: its sessions, then the room pins of its maps. */
+export const accessZones = (sessions: Session[], maps: VenueMap[]): AccessZone[] => [
+    ...sessions.map(sessionZone),
+    ...maps.flatMap(map => (map.pins || []).filter(pin => pin.type === 'room').map(roomZone))
+];
+
+/** Registration ids inside each zone, from admitted zone scans in any order. */
+export const zoneOccupants = (checkIns: CheckInRecord[]): Record<string, Set<string>> => {
+    const last = new Map<string, CheckInRecord>();
+    checkIns
+        .filter(c => c.zoneId && c.registrationId && c.result === 'admitted')
+        .forEach(c => {
+            const key = `${c.zoneId}|${c.registrationId}`;
+            const previous = last.get(key);
+            if (!previous || previous.timestamp <= c.timestamp) last.set(key, c);
+        });
+    const occupants: Record<string, Set<string>> = {};
+    last.forEach(c => {
+        if (c.direction === 'out') return;
+        (occupants[c.zoneId!] = occupants[c.zoneId!] || new Set()).add(c.registrationId!);
+    });
+    return occupants;
+};
+
+export const zoneOccupancy = (checkIns: CheckInRecord[]): Record<string, number> =>
+    Object.fromEntries(Object.entries(zoneOccupants(checkIns)).map(([zoneId, ids]) => [zoneId, ids.size]));
+
+/** Whether a ticket tier carries one of the zone's required benefits. Comparison ignores case. */
+export const hasZoneEntitlement = (zone: AccessZone, tier?: TicketTier | null) => {
+    const required = (zone.requiredBenefits || []).map(b => b.trim().toLowerCase()).filter(Boolean);
+    if (required.length === 0) return true;
+    const benefits = (tier?.benefits || []).map(b => b.trim().toLowerCase());
+    return required.some(b => benefits.includes(b));
+};
+
+/**
+ * Decides a scan into or out of a zone for a delegate whose ticket has already
+ * been accepted. `occupants` are the registrations inside the zone right now.
+ */
+export const decideZoneScan = (
+    zone: AccessZone,
+    direction: ZoneDirection,
+    registrationId: string,
+    tier: TicketTier | null | undefined,
+    occupants: Set<string>
+): { result: CheckInRecord['result']; reason?: string } => {
+    const inside = occupants.has(registrationId);
+    if (direction === 'out') {
+        return inside ? { result: 'admitted' } : { result: 'duplicate', reason: `Not inside ${zone.name}.` };
+    }
+    if (inside) return { result: 'duplicate', reason: `Already inside ${zone.name}.` };
+    if (!hasZoneEntitlement(zone, tier)) {
+        return { result: 'rejected', reason: `This ticket does not include ${zone.name}. Requires: ${zone.requiredBenefits!.join(', ')}.` };
+    }
+    if (zone.capacity && occupants.size >= zone.capacity) {
+        return { result: 'rejected', reason: `${zone.name} is full (${occupants.size}/${zone.capacity}).` };
+    }
+    return { result: 'admitted' };
+};
+
+export const checkInMessage = (name: string, zoneScan?: { zone: AccessZone; direction: ZoneDirection }) => {
+    if (!zoneScan) return `Checked in ${name}`;
+    return zoneScan.direction === 'out' ? `${name} left ${zoneScan.zone.name}` : `${name} entered ${zoneScan.zone.name}`;
+};
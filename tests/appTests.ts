@@ -1,8 +1,33 @@
 
 import { describe, it, expect } from './testFramework';
-import { registerUser, getEventConfig, purchaseEventCoins, getDelegateBalance, sendCoins, updateNetworkingProfile, getMyNetworkingProfile, loginAdmin } from '../server/api';
+import { registerUser, getEventConfig, startCoinPurchase, getDelegateBalance, sendCoins, updateNetworkingProfile, getMyNetworkingProfile, loginAdmin, loginDelegate, requestDelegatePasswordReset, resetPassword, requestMagicLink, loginWithMagicLink, beginAdminTwoFactorEnrollment, verifyAdminTwoFactor, createEvent, checkInManually, getCheckInHistory,
+    getSignedTicketToken, provisionKiosk, renewKioskPairing, pairKiosk, unpairKiosk, getKioskDevice, getKioskRoster, getKioskQueue, kioskCheckIn, syncKiosk,
+    cancelRegistration, getWaitlistStanding, respondToWaitlistOffer, acceptWaitlistOfferLink, previewRegistrationImport, importRegistrations,
+    saveExportDefinition, getExportDefinitions, buildRegistrationExport, purchaseGroup, getManagedGroup, assignGroupSeat, getGroupSeatClaim,
+    offerTicketTransfer, cancelTicketTransfer, getTicketTransfer, getTicketTransferOffer, acceptTicketTransfer, saveAdminRegistration,
+    startCheckout, confirmOrder, cancelOrder, deliverPaymentWebhook, LOCAL_WEBHOOK_SECRET, checkDiscountCode, saveDiscountCode, getDiscountCodes,
+    getCancellationTerms, getRegistrationOrders, refundOrder, getDelegateInvoices, getInvoices } from '../server/api';
 import { hashPassword, comparePassword } from '../server/auth';
+import { base32Encode, generateTotp } from '../server/totp';
 import { db } from '../server/store';
+import { insert, find, findAll, findAllInEvent, count, update, applyRemoteChanges, setActiveEvent } from '../server/db';
+import { enqueueWrite, applyQueuedWrites, removeOutboxEntry, retryDelay } from '../server/outbox';
+import { shiftDate } from '../server/eventTemplates';
+import { zoneOccupancy, zoneOccupants, decideZoneScan } from '../server/zones';
+import { kioskHealth, newPairingCode, normalizePairingCode, reconcileKioskScan, KIOSK_OFFLINE_AFTER } from '../server/kiosks';
+import { admissionStatus, openSeatOffers, roomForSeats, seatsTaken, waitlistStanding } from '../server/waitlist';
+import { newGroupSeats, priceGroupOrder, seatAssignmentProblem, unclaimedSeats } from '../server/groups';
+import { recipientProblem, transferRejection, withNameChange } from '../server/transfers';
+import { ORDER_HOLD, heldOrderSeats, needsPayment, newOrder } from '../server/orders';
+import { discountCodeFields, priceDiscount, priceScheduleProblem, tierPrice } from '../server/discounts';
+import { cancellationPolicyProblem, cancellationRefund, refundPercent, refundProblem, withRefund } from '../server/refunds';
+import { billingConfigProblem, invoiceLedger, invoiceNumber, newInvoice, orderBillingFields, reverseChargeApplies, taxRateFor } from '../server/invoices';
+import { fakeStripeEvent, paymentEventChanges, signWebhookPayload, signedWebhook, webhookSignatureProblem } from '../server/paymentWebhooks';
+import { guessMapping, parseCsv, validateImportRows } from '../server/registrationImport';
+import { buildExportTable, nextExportRun, renderExport, scheduleProblem } from '../server/registrationExport';
+import { checkFormAnswers, fieldAnswerError, formFieldProblem, formatAnswer, visibleFormFields } from '../server/formFields';
+import { generateTicketKey, signTicket, verifyTicket, ticketRejection } from '../server/tickets';
+import { ALLOWED_TABLES, TABLE_POLICIES, authorize, prepareWrite, redactRow, canSeeChange, canQueryField, type Principal } from '../server/policy';
 
 // Helper to create a clean state for tests
 const resetTestDb = () => {
@@ -10,6 +35,87 @@ const resetTestDb = () => {
     // but we can create unique IDs for test data.
 };
 
+// Expected delegate access per table: 'all' rows, only 'own' rows, or 'none'.
+type DelegateAccess = 'all' | 'own' | 'none';
+const DELEGATE_ACCESS: Record<string, { read: DelegateAccess; write: DelegateAccess; delete: DelegateAccess }> = {
+    registrations: { read: 'all', write: 'own', delete: 'none' },
+    events: { read: 'all', write: 'none', delete: 'none' },
+    sessions: { read: 'all', write: 'none', delete: 'none' },
+    speakers: { read: 'all', write: 'none', delete: 'none' },
+    sponsors: { read: 'all', write: 'none', delete: 'none' },
+    tasks: { read: 'none', write: 'none', delete: 'none' },
+    meal_plans: { read: 'all', write: 'none', delete: 'none' },
+    restaurants: { read: 'all', write: 'none', delete: 'none' },
+    hotels: { read: 'all', write: 'none', delete: 'none' },
+    rooms: { read: 'all', write: 'none', delete: 'none' },
+    bookings: { read: 'own', write: 'own', delete: 'none' },
+    media: { read: 'all', write: 'own', delete: 'own' },
+    notifications: { read: 'own', write: 'own', delete: 'none' },
+    transactions: { read: 'own', write: 'none', delete: 'none' },
+    scavenger_hunt_items: { read: 'all', write: 'none', delete: 'none' },
+    scavenger_hunt_progress: { read: 'own', write: 'none', delete: 'none' },
+    networking_profiles: { read: 'all', write: 'own', delete: 'own' },
+    agenda_entries: { read: 'own', write: 'own', delete: 'own' },
+    ticket_tiers: { read: 'all', write: 'none', delete: 'none' },
+    venue_maps: { read: 'all', write: 'none', delete: 'none' },
+    email_logs: { read: 'none', write: 'none', delete: 'none' },
+    session_questions: { read: 'all', write: 'own', delete: 'own' },
+    session_feedback: { read: 'own', write: 'own', delete: 'none' },
+    poll_votes: { read: 'all', write: 'own', delete: 'none' },
+    polls: { read: 'all', write: 'none', delete: 'none' },
+    admin_users: { read: 'none', write: 'none', delete: 'none' },
+    roles: { read: 'none', write: 'none', delete: 'none' },
+    messages: { read: 'own', write: 'own', delete: 'own' },
+    auth_tokens: { read: 'none', write: 'none', delete: 'none' },
+    auth_sessions: { read: 'none', write: 'none', delete: 'none' },
+    event_templates: { read: 'none', write: 'none', delete: 'none' },
+    ticket_keys: { read: 'none', write: 'none', delete: 'none' },
+    check_ins: { read: 'none', write: 'none', delete: 'none' },
+    kiosks: { read: 'none', write: 'none', delete: 'none' },
+    registration_imports: { read: 'none', write: 'none', delete: 'none' },
+    export_definitions: { read: 'none', write: 'none', delete: 'none' },
+    registration_groups: { read: 'none', write: 'none', delete: 'none' },
+    orders: { read: 'none', write: 'none', delete: 'none' },
+    payment_events: { read: 'none', write: 'none', delete: 'none' },
+    discount_codes: { read: 'none', write: 'none', delete: 'none' },
+    invoices: { read: 'none', write: 'none', delete: 'none' }
+};
+
+const policyDelegate: Principal = { id: 'reg_policy_me', email: 'me@example.com', type: 'delegate', eventId: 'main-event' };
+const policyViewer: Principal = { id: 'user_viewer', email: 'viewer@example.com', type: 'admin', permissions: ['view_dashboard'] };
+const policySuperAdmin: Principal = {
+    id: 'user_admin_01', email: 'admin@example.com', type: 'admin',
+    permissions: ['view_dashboard', 'manage_registrations', 'manage_settings', 'manage_users', 'manage_tasks', 'manage_dining',
+        'manage_accommodation', 'manage_agenda', 'manage_speakers_sponsors', 'view_eventcoin_dashboard', 'send_invitations']
+};
+
+// Personal records only their owner may write, even super admins.
+const DELEGATE_ONLY_WRITES = ['agenda_entries', 'session_feedback', 'poll_votes', 'messages'];
+// Tables only the server itself writes to.
+const SERVER_ONLY_TABLES = ['auth_tokens', 'auth_sessions', 'ticket_keys', 'kiosks', 'registration_imports', 'export_definitions', 'registration_groups', 'orders', 'payment_events', 'discount_codes', 'invoices'];
+
+const rowOwnedBy = (table: string, userId: string) => {
+    const ownerField = TABLE_POLICIES[table].owner?.[0];
+    return { id: `${table}_row_${userId}`, ...(ownerField ? { [ownerField]: userId } : {}) };
+};
+
+// In browser mode emailed links are logged instead; pull the token out of the log line.
+const captureLoggedToken = async (param: string, action: () => Promise<unknown>) => {
+    const original = console.log;
+    let token = '';
+    console.log = (...args: any[]) => {
+        const match = String(args[0]).match(new RegExp(`[?&]${param}=([0-9a-f]+)`));
+        if (match) token = match[1];
+        else original(...args);
+    };
+    try {
+        await action();
+    } finally {
+        console.log = original;
+    }
+    return token;
+};
+
 export const registerTestSuites = () => {
     describe('Authentication Module', () => {
         it('should hash and compare passwords correctly', async () => {
@@ -40,6 +146,95 @@ export const registerTestSuites = () => {
         });
     });
 
+    describe('Delegate Credentials', () => {
+        it('should store only a password hash at registration', async () => {
+            const email = `creds_${Date.now()}@example.com`;
+            const result = await registerUser('main-event', { name: 'Creds', email, password: 'correct-horse', createdAt: Date.now() } as any);
+            const stored = db.registrations.find((r: any) => r.email === email);
+
+            expect(stored.password).toBe(undefined);
+            expect(stored.password_hash).toBeTruthy();
+            expect(result.user.password_hash).toBe(undefined);
+        });
+
+        it('should reject delegate login with a wrong or missing password', async () => {
+            const email = `login_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Login', email, password: 'correct-horse', createdAt: Date.now() } as any);
+
+            expect(await loginDelegate('main-event', email, 'wrong-password')).toBe(null);
+            const ok = await loginDelegate('main-event', email, 'correct-horse');
+            expect(ok).toBeTruthy();
+            expect(ok.user.password_hash).toBe(undefined);
+
+            const noPassword = `nopass_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'No Password', email: noPassword, createdAt: Date.now() } as any);
+            expect(await loginDelegate('main-event', noPassword, 'anything')).toBe(null);
+        });
+
+        it('should reset a password with a single-use token', async () => {
+            const email = `reset_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Reset', email, password: 'old-password', createdAt: Date.now() } as any);
+
+            const token = await captureLoggedToken('resetToken', () => requestDelegatePasswordReset('main-event', email));
+            expect(token).toBeTruthy();
+            expect(db.auth_tokens.some((t: any) => t.id === token)).toBe(false);
+
+            await resetPassword(token, 'new-password');
+            expect(await loginDelegate('main-event', email, 'old-password')).toBe(null);
+            expect(await loginDelegate('main-event', email, 'new-password')).toBeTruthy();
+            await expect(resetPassword(token, 'another-password')).toThrow();
+        });
+
+        it('should sign in once with a magic link', async () => {
+            const email = `magic_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Magic', email, createdAt: Date.now() } as any);
+
+            const token = await captureLoggedToken('magicToken', () => requestMagicLink('main-event', email));
+            const first = await loginWithMagicLink(token);
+            expect(first).toBeTruthy();
+            expect(first.user.email).toBe(email);
+            expect(await loginWithMagicLink(token)).toBe(null);
+        });
+    });
+
+    describe('Two-Factor Authentication', () => {
+        it('should generate RFC 6238 TOTP codes', async () => {
+            const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+            expect(await generateTotp(secret, 59 * 1000)).toBe('287082');
+            expect(await generateTotp(secret, 1111111109 * 1000)).toBe('081804');
+            expect(await generateTotp(secret, 2000000000 * 1000)).toBe('279037');
+        });
+
+        it('should enrol at login when the role requires it, then ask for a code', async () => {
+            const suffix = Date.now();
+            const email = `twofactor_${suffix}@example.com`;
+            await insert('roles', { id: `role_2fa_${suffix}`, name: '2FA Role', description: '', permissions: ['manage_settings'], requireTwoFactor: true });
+            await insert('admin_users', { id: `user_2fa_${suffix}`, email, roleId: `role_2fa_${suffix}`, password_hash: await hashPassword('admin-password'), createdAt: suffix });
+
+            const challenge = await loginAdmin(email, 'admin-password');
+            expect(challenge.twoFactor).toBe('setup');
+            expect(challenge.token).toBe(undefined);
+
+            const setup = await beginAdminTwoFactorEnrollment(challenge.challengeToken);
+            const enrolled = await verifyAdminTwoFactor(challenge.challengeToken, await generateTotp(setup.secret));
+            expect(enrolled.token).toBeTruthy();
+            expect(enrolled.recoveryCodes?.length).toBe(10);
+            const recoveryCodes = enrolled.recoveryCodes!;
+            expect(enrolled.user.totpSecret).toBe(undefined);
+
+            const next = await loginAdmin(email, 'admin-password');
+            expect(next.twoFactor).toBe('verify');
+            // The code used for enrolment cannot be replayed.
+            await expect(verifyAdminTwoFactor(next.challengeToken, await generateTotp(setup.secret))).toThrow();
+
+            const recovered = await verifyAdminTwoFactor(next.challengeToken, recoveryCodes[0].toUpperCase());
+            expect(recovered.token).toBeTruthy();
+
+            const again = await loginAdmin(email, 'admin-password');
+            await expect(verifyAdminTwoFactor(again.challengeToken, recoveryCodes[0])).toThrow();
+        });
+    });
+
     describe('Registration Logic', () => {
         it('should register a new user successfully', async () => {
             const uniqueEmail = `test_${Date.now()}@example.com`;
@@ -71,6 +266,20 @@ export const registerTestSuites = () => {
             expect(result.success).toBe(false);
             expect(result.message).toBe('Email already registered.');
         });
+
+        it('should ignore the fields only the server sets', async () => {
+            const uniqueEmail = `forged_${Date.now()}@example.com`;
+            const result = await registerUser('main-event', {
+                name: 'Forger', email: uniqueEmail, createdAt: Date.now(), orderId: 'ord_x', checkedInAt: 1, ticketVersion: 9,
+                transferHistory: [{ type: 'transfer', fromEmail: 'someone@example.com' }], pendingTransfer: { toEmail: 'x@example.com' }
+            } as any);
+            const saved = await find('registrations', { id: result.user.id });
+            expect(saved.orderId).toBe(undefined);
+            expect(saved.checkedInAt).toBe(undefined);
+            expect(saved.ticketVersion).toBe(undefined);
+            expect(saved.transferHistory).toBe(undefined);
+            expect(saved.pendingTransfer).toBe(undefined);
+        });
     });
 
     describe('EventCoin Economy', () => {
@@ -85,7 +294,8 @@ export const registerTestSuites = () => {
             const token = btoa(JSON.stringify({ id: user.id, email, type: 'delegate', exp: Date.now() + 100000 }));
             
             // 2. Purchase
-            await purchaseEventCoins(token, 100, 50);
+            const purchase = await startCoinPurchase(token, 'standard');
+            expect((await confirmOrder(purchase.order!.id)).success).toBe(true);
             
             // 3. Check Balance
             const balanceData = await getDelegateBalance(token);
@@ -104,6 +314,18 @@ export const registerTestSuites = () => {
              
              await expect(sendCoins(token, recipientEmail, 1000000, 'Test')).toThrow();
         });
+
+        it('should refuse amounts that are not positive', async () => {
+            const senderEmail = `negative_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Sender', email: senderEmail, createdAt: Date.now() } as any);
+            const sender = db.registrations.find((r: any) => r.email === senderEmail);
+            const token = btoa(JSON.stringify({ id: sender.id, email: senderEmail, type: 'delegate', eventId: 'main-event', exp: Date.now() + 100000 }));
+
+            await expect(sendCoins(token, 'admin@example.com', -50, 'Test')).toThrow();
+            await expect(sendCoins(token, 'admin@example.com', 0, 'Test')).toThrow();
+            await expect(sendCoins(token, 'admin@example.com', NaN, 'Test')).toThrow();
+            expect((await getDelegateBalance(token)).balance).toBe(100);
+        });
     });
     
     describe('Networking', () => {
@@ -131,4 +353,1206 @@ export const registerTestSuites = () => {
              }
         });
     });
+
+    describe('Local Store', () => {
+        it('should look rows up by equality criteria with an optional predicate', async () => {
+            const eventId = `store_event_${Date.now()}`;
+            await insert('registrations', { id: `${eventId}_a`, email: `${eventId}@example.com`, eventId, status: 'confirmed' });
+            await insert('registrations', { id: `${eventId}_b`, email: `${eventId}@example.com`, eventId: 'other-event', status: 'confirmed' });
+            await insert('registrations', { id: `${eventId}_c`, email: `other_${eventId}@example.com`, eventId, status: 'pending' });
+
+            const match = await find('registrations', { email: `${eventId}@example.com` }, r => r.eventId === eventId);
+            expect(match.id).toBe(`${eventId}_a`);
+            expect((await find('registrations', { id: `${eventId}_c` })).status).toBe('pending');
+            expect((await findAll('registrations', { eventId, status: 'confirmed' })).length).toBe(1);
+            expect(await count('registrations', { eventId })).toBe(2);
+            expect(await find('registrations', { email: 'nobody@example.com' })).toBe(undefined);
+        });
+
+        it('should keep reads and inserts within the active event', async () => {
+            const eventId = `scoped_event_${Date.now()}`;
+            await insert('sessions', { id: `${eventId}_other`, title: 'Elsewhere', eventId: 'other-event' });
+            setActiveEvent(eventId);
+            try {
+                const created = await insert('sessions', { id: `${eventId}_mine`, title: 'Here' });
+                expect(created.eventId).toBe(eventId);
+                const visible = await findAll('sessions');
+                expect(visible.map(s => s.id).join(',')).toBe(`${eventId}_mine`);
+                expect(await find('sessions', { id: `${eventId}_other` })).toBe(undefined);
+            } finally {
+                setActiveEvent(null);
+            }
+            expect(!!(await find('sessions', { id: `${eventId}_other` }))).toBe(true);
+        });
+    });
+
+    describe('Event Cloning', () => {
+        it('should shift ISO dates by whole days and leave other text alone', async () => {
+            expect(shiftDate('2025-10-26T09:00:00+02:00', 364)).toBe('2026-10-25T09:00:00+02:00');
+            expect(shiftDate('2025-02-27', 2)).toBe('2025-03-01');
+            expect(shiftDate('October 26-28, 2025', 364)).toBe('October 26-28, 2025');
+        });
+
+        it('should copy an event with new ids, linked references and reset sales', async () => {
+            const sourceId = `clone_source_${Date.now()}`;
+            await insert('events', { id: sourceId, name: 'Summit 2025', eventType: 'Conference', config: { event: { name: 'Summit 2025', date: '2025-10-26' } } });
+            await insert('speakers', { id: `${sourceId}_speaker`, name: 'Ada', eventId: sourceId });
+            await insert('sessions', { id: `${sourceId}_session`, title: 'Keynote', speakerIds: [`${sourceId}_speaker`], startTime: '2025-10-26T09:00', endTime: '2025-10-26T10:00', eventId: sourceId });
+            await insert('ticket_tiers', { id: `${sourceId}_tier`, name: 'General', sold: 120, eventId: sourceId });
+            await insert('registrations', { id: `${sourceId}_reg`, email: 'copy@example.com', eventId: sourceId });
+
+            const event = await createEvent('mock-token', 'Summit 2026', '', { cloneFromEventId: sourceId, dayShift: 364 });
+            expect(event.config.event.name).toBe('Summit 2026');
+            expect(event.config.event.date).toBe('2026-10-25');
+
+            const [speaker] = await findAllInEvent('speakers', event.id);
+            const [session] = await findAllInEvent('sessions', event.id);
+            expect(speaker.id === `${sourceId}_speaker`).toBe(false);
+            expect(session.speakerIds[0]).toBe(speaker.id);
+            expect(session.startTime).toBe('2026-10-25T09:00');
+            expect((await findAllInEvent('ticket_tiers', event.id))[0].sold).toBe(0);
+            expect((await findAllInEvent('registrations', event.id)).length).toBe(0);
+        });
+    });
+
+    describe('Waitlist', () => {
+        it('should hold seats per event and tier and let later people take seats in other tiers', async () => {
+            const config = { event: { maxAttendees: 3 } } as any;
+            const tiers = [{ id: 'vip', limit: 1 }] as any[];
+            const now = 10000;
+            const registrations: any[] = [
+                { id: 'a', status: 'confirmed', ticketTierId: 'vip', createdAt: 1 },
+                { id: 'b', status: 'waitlist', waitlistOffer: { offeredAt: 0, expiresAt: 5000 }, createdAt: 2 },
+                { id: 'c', status: 'waitlist', ticketTierId: 'vip', createdAt: 3 },
+                { id: 'd', status: 'waitlist', createdAt: 4 },
+                { id: 'e', status: 'cancelled', createdAt: 0 }
+            ];
+            expect(seatsTaken(registrations, now).event).toBe(1);
+            expect(openSeatOffers(registrations, config, tiers, now).offers.map(r => r.id).join(',')).toBe('d');
+            expect(admissionStatus(undefined, registrations, config, tiers, now)).toBe('confirmed');
+            expect(admissionStatus('vip', registrations, config, tiers, now)).toBe('waitlist');
+            expect(waitlistStanding(registrations[3], registrations, now).position).toBe(2);
+            expect(waitlistStanding(registrations[1], registrations, now).lapsed).toBe(true);
+        });
+
+        it('should waitlist past capacity and roll a lapsed offer on to the next person', async () => {
+            const eventId = `waitlist_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Small Room', config: { event: { name: 'Small Room', maxAttendees: 1 } } });
+            setActiveEvent(eventId);
+            try {
+                const email = (name: string) => `${name}_${eventId}@example.com`;
+                // The client asks for a confirmed seat; capacity decides.
+                const register = (name: string) => registerUser(eventId, { name, email: email(name), password: 'correct-horse', status: 'confirmed', createdAt: 0 } as any);
+                const first = await register('first');
+                const second = await register('second');
+                const third = await register('third');
+                expect(first.user.status).toBe('confirmed');
+                expect(second.user.status).toBe('waitlist');
+                expect(third.waitlist.position).toBe(2);
+
+                const firstLogin = await loginDelegate(eventId, email('first'), 'correct-horse');
+                const offerLink = await captureLoggedToken('waitlistOffer', () => cancelRegistration(firstLogin.token, first.user.id));
+                expect(!!(await find('registrations', { id: second.user.id })).waitlistOffer).toBe(true);
+
+                // The second delegate lets the offer lapse, so it passes to the third.
+                await update('registrations', second.user.id, { waitlistOffer: { offeredAt: 0, expiresAt: 1 } });
+                const thirdLogin = await loginDelegate(eventId, email('third'), 'correct-horse');
+                expect(!!(await getWaitlistStanding(thirdLogin.token)).offer).toBe(true);
+                expect((await acceptWaitlistOfferLink(offerLink)).success).toBe(false);
+                expect((await respondToWaitlistOffer(thirdLogin.token, 'accept')).success).toBe(true);
+                expect((await find('registrations', { id: third.user.id })).status).toBe('confirmed');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Group Registrations', () => {
+        const tiers = [
+            { id: 'std', name: 'Standard', price: 100, currency: 'EUR', limit: 0, active: true },
+            { id: 'vip', name: 'VIP', price: 250.1, currency: 'EUR', limit: 2, active: true },
+            { id: 'usd', name: 'US', price: 10, currency: 'USD', limit: 0, active: true },
+            { id: 'old', name: 'Early Bird', price: 50, currency: 'EUR', limit: 0, active: false }
+        ] as any[];
+
+        it('should price orders and hold unclaimed seats against capacity', async () => {
+            const quote = priceGroupOrder([{ ticketTierId: 'std', quantity: 3 }, { ticketTierId: 'vip', quantity: 1 }], tiers) as any;
+            expect(quote.total).toBe(550.1);
+            expect(quote.seats).toBe(4);
+            expect(priceGroupOrder([{ ticketTierId: 'std', quantity: 1 }, { ticketTierId: 'usd', quantity: 1 }], tiers)).toBe('Tickets priced in different currencies must be bought separately.');
+            expect(priceGroupOrder([{ ticketTierId: 'old', quantity: 1 }], tiers)).toBe('One of the chosen tickets is no longer on sale.');
+            expect(priceGroupOrder([{ ticketTierId: 'std', quantity: 1.5 }], tiers)).toBe('Enter a whole number of seats for Standard.');
+
+            const config = { event: { maxAttendees: 5 } } as any;
+            const seats = newGroupSeats([{ ticketTierId: 'vip', quantity: 2 }]);
+            expect(seats.map(s => s.id).join(',')).toBe('seat_1,seat_2');
+            const group = { seats: [...seats, { id: 'seat_3', ticketTierId: 'std', status: 'claimed' }] } as any;
+            const held = unclaimedSeats([group]);
+            expect(held.length).toBe(2);
+            const registrations = [{ id: 'a', status: 'confirmed', ticketTierId: 'std', createdAt: 1 }] as any[];
+            // The VIP tier is full with the group's two held seats.
+            expect(admissionStatus('vip', registrations, config, tiers, 0, held)).toBe('waitlist');
+            expect(admissionStatus('std', registrations, config, tiers, 0, held)).toBe('confirmed');
+            expect(roomForSeats(newGroupSeats([{ ticketTierId: 'std', quantity: 2 }]), registrations, config, tiers, 0, held)).toBe(true);
+            expect(roomForSeats(newGroupSeats([{ ticketTierId: 'std', quantity: 3 }]), registrations, config, tiers, 0, held)).toBe(false);
+            expect(seatAssignmentProblem(group, 'seat_3', 'new@example.com')).toBe('This seat has already been claimed and can no longer be reassigned.');
+        });
+
+        it('should let attendees claim their seats and the purchaser reassign unclaimed ones', async () => {
+            const eventId = `group_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Team Day', config: { event: { name: 'Team Day', maxAttendees: 3 } } });
+            await insert('ticket_tiers', { id: `std_${eventId}`, eventId, name: 'Standard', price: 0, currency: 'EUR', limit: 0, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const email = (name: string) => `${name}_${eventId}@example.com`;
+                const order = { purchaserName: 'Pat Buyer', purchaserEmail: email('buyer'), items: [{ ticketTierId: `std_${eventId}`, quantity: 2 }] };
+                const purchase = await captureLoggedToken('manageGroup', () => purchaseGroup(eventId, order));
+                const group = await getManagedGroup(purchase);
+                expect(group!.seats.length).toBe(2);
+
+                // Two of the three seats are held, so only one is left for everyone else.
+                const register = (name: string, seatToken?: string) =>
+                    registerUser(eventId, { name, email: email(name), ticketTierId: 'other', createdAt: 0 } as any, undefined, seatToken);
+                expect((await register('solo')).user.status).toBe('confirmed');
+                expect((await register('late')).user.status).toBe('waitlist');
+                expect((await purchaseGroup(eventId, { ...order, items: [{ ticketTierId: `std_${eventId}`, quantity: 1 }] })).success).toBe(false);
+
+                const firstLink = await captureLoggedToken('claimSeat', () => assignGroupSeat(purchase, 'seat_1', { name: 'Ann', email: email('ann') }));
+                const reassignedLink = await captureLoggedToken('claimSeat', () => assignGroupSeat(purchase, 'seat_1', { name: 'Bob', email: email('bob') }));
+                expect((await getGroupSeatClaim(firstLink))).toBe(null);
+                expect((await getGroupSeatClaim(reassignedLink))!.purchaserName).toBe('Pat Buyer');
+                expect((await register('ann', firstLink)).success).toBe(false);
+
+                const claimed = await register('bob', reassignedLink);
+                expect(claimed.user.status).toBe('confirmed');
+                expect(claimed.user.ticketTierId).toBe(`std_${eventId}`);
+                const after = await getManagedGroup(purchase);
+                expect(after!.seats[0].status).toBe('claimed');
+                expect(after!.seats[0].registrationId).toBe(claimed.user.id);
+                let error = '';
+                await assignGroupSeat(purchase, 'seat_1', { name: 'Cy', email: email('cy') }).catch(e => { error = e.message; });
+                expect(error).toBe('This seat has already been claimed and can no longer be reassigned.');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Ticket Transfers', () => {
+        it('should only hand over valid tickets to someone not yet registered', async () => {
+            const holder = { id: 'a', name: 'Ann', email: 'ann@example.com', status: 'confirmed', createdAt: 1 } as any;
+            expect(transferRejection(holder)).toBe(null);
+            expect(transferRejection({ ...holder, status: 'waitlist' })).toBe('Only confirmed tickets can be transferred.');
+            expect(transferRejection({ ...holder, checkedInAt: 5 })).toBe('This ticket has already been used to check in.');
+            const others = [holder, { id: 'b', email: 'bob@example.com', status: 'confirmed' }, { id: 'c', email: 'cy@example.com', status: 'cancelled' }] as any[];
+            expect(recipientProblem(holder, 'ANN@example.com', others)).toBe('This ticket is already yours.');
+            expect(recipientProblem(holder, 'bob@example.com', others)).toBe('bob@example.com is already registered for this event.');
+            expect(recipientProblem(holder, 'cy@example.com', others)).toBe(null);
+
+            // Only a change of name or email is recorded.
+            expect(withNameChange(holder, { company: 'Acme' } as any).transferHistory).toBe(undefined);
+            const renamed = withNameChange(holder, { name: 'Anne' } as any, 'admin@example.com', 10);
+            expect(renamed.transferHistory!.length).toBe(1);
+            expect(renamed.transferHistory![0].toName).toBe('Anne');
+            expect(renamed.transferHistory![0].by).toBe('admin@example.com');
+        });
+
+        it('should move the ticket to the recipient and revoke the old one', async () => {
+            const eventId = `transfer_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Handover', config: { event: { name: 'Handover', maxAttendees: 1 } } });
+            setActiveEvent(eventId);
+            try {
+                const email = (name: string) => `${name}_${eventId}@example.com`;
+                const holder = await registerUser(eventId, { name: 'Ann', email: email('ann'), password: 'correct-horse', createdAt: 0 } as any);
+                const login = await loginDelegate(eventId, email('ann'), 'correct-horse');
+
+                const firstLink = await captureLoggedToken('acceptTransfer', () => offerTicketTransfer(login.token, { name: 'Bob', email: email('bob') }));
+                await cancelTicketTransfer(login.token);
+                expect(await getTicketTransferOffer(firstLink)).toBe(null);
+                const link = await captureLoggedToken('acceptTransfer', () => offerTicketTransfer(login.token, { name: 'Bob', email: email('bob') }));
+                expect((await getTicketTransfer(login.token)).pendingTransfer!.toEmail).toBe(email('bob'));
+                expect((await getTicketTransferOffer(link))!.fromName).toBe('Ann');
+                expect((await acceptTicketTransfer(link, { name: 'Eve', email: email('eve'), createdAt: 0 } as any)).success).toBe(false);
+
+                // The event is full, but the ticket takes its seat with it.
+                const accepted = await acceptTicketTransfer(link, { name: 'Bob', email: email('bob'), status: 'waitlist', createdAt: 0 } as any);
+                expect(accepted.success).toBe(true);
+                expect(accepted.user!.status).toBe('confirmed');
+                expect(accepted.user!.transferHistory![0].fromEmail).toBe(email('ann'));
+                const old = await find('registrations', { id: holder.user.id });
+                expect(old.status).toBe('cancelled');
+                expect(old.transferredTo).toBe(accepted.user!.id);
+                expect((await acceptTicketTransfer(link, { name: 'Bob', email: email('bob'), createdAt: 0 } as any)).success).toBe(false);
+
+                const admin = await loginAdmin('admin@example.com', 'password');
+                await saveAdminRegistration(admin.token, accepted.user!.id!, { name: 'Robert' });
+                const history = (await find('registrations', { id: accepted.user!.id })).transferHistory;
+                expect(history.map((h: any) => h.type).join(',')).toBe('transfer,name_change');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Orders', () => {
+        const tiers = [
+            { id: 'free', name: 'Community', price: 0, currency: 'EUR', limit: 0, active: true },
+            { id: 'std', name: 'Standard', price: 99.9, currency: 'EUR', limit: 0, active: true }
+        ] as any[];
+
+        it('should price carts from the tiers and hold seats until the order lapses', async () => {
+            const fields = { id: 'ord_1', eventId: 'e', kind: 'group' as const, email: 'pat@example.com', name: 'Pat', details: {} };
+            const order = newOrder(fields, [{ ticketTierId: 'std', quantity: 2 }, { ticketTierId: 'free', quantity: 1 }], tiers, 1000) as any;
+            expect(order.total).toBe(199.8);
+            expect(order.items[0].unitPrice).toBe(99.9);
+            expect(order.expiresAt).toBe(1000 + ORDER_HOLD);
+            expect(newOrder(fields, [{ ticketTierId: 'free', quantity: 1 }], tiers)).toBe('There is nothing to pay for this order.');
+            expect(needsPayment(tiers, 'std')).toBe(true);
+            expect(needsPayment(tiers, 'free')).toBe(false);
+
+            expect(heldOrderSeats([order], 1000).length).toBe(3);
+            expect(heldOrderSeats([order], order.expiresAt).length).toBe(0);
+            expect(heldOrderSeats([{ ...order, status: 'paid' }], 1000).length).toBe(0);
+        });
+
+        it('should only confirm a paid ticket once its order is paid for', async () => {
+            const eventId = `orders_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Paid Day', config: { event: { name: 'Paid Day', maxAttendees: 0 } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 40, currency: 'EUR', limit: 1, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const registration = (name: string) => ({ name, email: `${name}_${eventId}@example.com`, ticketTierId: tierId, createdAt: 0 } as any);
+                expect((await registerUser(eventId, registration('ann'))).message).toBe('This ticket has to be paid for at checkout.');
+
+                const checkout = await startCheckout(eventId, { registration: { ...registration('ann'), status: 'confirmed' } });
+                expect(checkout.order!.total).toBe(40);
+                // The only seat is held for Ann, so Bob can join the waitlist but not buy it.
+                expect((await startCheckout(eventId, { registration: registration('bob') })).soldOut).toBe(true);
+                expect((await registerUser(eventId, registration('bob'))).user.status).toBe('waitlist');
+
+                const paid = await confirmOrder(checkout.order!.id);
+                expect(paid.user!.status).toBe('confirmed');
+                expect(paid.user!.orderId).toBe(checkout.order!.id);
+                expect((await find('ticket_tiers', { id: tierId })).sold).toBe(1);
+                // Confirming again does not register Ann twice.
+                expect((await confirmOrder(checkout.order!.id)).user).toBe(undefined);
+                await cancelOrder(checkout.order!.id);
+                expect((await find('orders', { id: checkout.order!.id })).status).toBe('paid');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+
+        it('should only confirm a paid waitlist seat once its order is paid for', async () => {
+            const eventId = `orders_waitlist_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Paid Day', config: { event: { name: 'Paid Day', maxAttendees: 0 } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 40, currency: 'EUR', limit: 1, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const registration = (name: string) => ({ name, email: `${name}_${eventId}@example.com`, password: 'correct-horse', ticketTierId: tierId, createdAt: 0 } as any);
+                const ann = await startCheckout(eventId, { registration: registration('ann') });
+                const paid = await confirmOrder(ann.order!.id);
+                const bob = await registerUser(eventId, registration('bob'));
+                expect(bob.user.status).toBe('waitlist');
+
+                const annLogin = await loginDelegate(eventId, registration('ann').email, 'correct-horse');
+                await captureLoggedToken('waitlistOffer', () => cancelRegistration(annLogin.token, paid.user!.id!));
+                const bobLogin = await loginDelegate(eventId, registration('bob').email, 'correct-horse');
+                const accepted = await respondToWaitlistOffer(bobLogin.token, 'accept');
+                expect(accepted.order!.total).toBe(40);
+                expect((await find('registrations', { id: bob.user.id })).status).toBe('waitlist');
+                // The offer holds the seat while Bob pays, so nobody else can buy it.
+                expect((await startCheckout(eventId, { registration: registration('cy') })).soldOut).toBe(true);
+
+                const confirmed = await confirmOrder(accepted.order!.id);
+                expect(confirmed.user!.id).toBe(bob.user.id);
+                expect(confirmed.user!.status).toBe('confirmed');
+                expect(confirmed.user!.orderId).toBe(accepted.order!.id);
+                expect((await find('ticket_tiers', { id: tierId })).sold).toBe(1);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+
+        it('should treat a cancelled order that is paid all the same like a lapsed one', async () => {
+            const eventId = `orders_cancelled_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Paid Day', config: { event: { name: 'Paid Day', maxAttendees: 0 } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 40, currency: 'EUR', limit: 1, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const registration = (name: string) => ({ name, email: `${name}_${eventId}@example.com`, ticketTierId: tierId, createdAt: 0 } as any);
+                const ann = await startCheckout(eventId, { registration: registration('ann') });
+                // A second checkout with the same email leaves the first one alone.
+                expect((await startCheckout(eventId, { registration: registration('ann') })).soldOut).toBe(true);
+                await cancelOrder(ann.order!.id);
+
+                const bob = await startCheckout(eventId, { registration: registration('bob') });
+                expect((await confirmOrder(bob.order!.id)).user!.status).toBe('confirmed');
+                // Ann's payment arrives after all, but her seat has gone to Bob.
+                const late = await confirmOrder(ann.order!.id);
+                expect(late.success).toBe(false);
+                expect(late.order!.status).toBe('paid');
+                expect(late.order!.fulfilmentError !== undefined).toBe(true);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Discounts', () => {
+        const code = (fields: any = {}) => ({ id: 'dc', code: 'SAVE', kind: 'percentage', amount: 25, active: true, used: 0, createdAt: 0, ...fields } as any);
+        const item = (ticketTierId: string, quantity: number, unitPrice: number) => ({ ticketTierId, quantity, unitPrice });
+
+        it('should price a tier from the window of its schedule in force', async () => {
+            const tier = { id: 'std', price: 100, priceSchedule: [{ label: 'Early Bird', price: 60, endsAt: 1000 }, { label: 'Late', price: 120, startsAt: 5000 }] } as any;
+            expect(tierPrice(tier, 999)).toBe(60);
+            expect(tierPrice(tier, 1000)).toBe(100);
+            expect(tierPrice(tier, 5000)).toBe(120);
+            expect(priceScheduleProblem(tier.priceSchedule)).toBe(null);
+            expect(priceScheduleProblem([{ label: 'A', price: 1, startsAt: 0, endsAt: 10 }, { label: 'B', price: 2, startsAt: 5 }])).toBe('Price windows must not overlap.');
+            expect(priceScheduleProblem([{ label: 'A', price: 1 }])).toBe('Set when A starts or ends.');
+        });
+
+        it('should take codes off eligible seats within their limits', async () => {
+            const items = [item('std', 2, 100), item('vip', 1, 300)];
+            expect((priceDiscount(code(), items) as any).amount).toBe(125);
+            expect((priceDiscount(code({ ticketTierIds: ['vip'] }), items) as any).amount).toBe(75);
+            // A fixed amount never takes more than a seat costs.
+            expect((priceDiscount(code({ kind: 'fixed', amount: 150 }), items) as any).amount).toBe(350);
+            expect(priceDiscount(code({ ticketTierIds: ['other'] }), items)).toBe('This discount code does not apply to the chosen tickets.');
+            expect(priceDiscount(code({ minSeats: 4 }), items)).toBe('This discount code needs at least 4 eligible seats.');
+            expect(priceDiscount(code({ startsAt: 2000 }), items, 1000)).toBe('This discount code is not valid yet.');
+            expect(priceDiscount(code({ endsAt: 1000 }), items, 1000)).toBe('This discount code has expired.');
+            expect(priceDiscount(code({ active: false }), items)).toBe('This discount code is not valid.');
+            expect(priceDiscount(code({ maxUses: 2, used: 1 }), items, 0, 1)).toBe('This discount code has been used up.');
+
+            expect((discountCodeFields({ code: ' vip-10 ', kind: 'fixed', amount: '10' }) as any).code).toBe('VIP-10');
+            expect(discountCodeFields({ code: 'X', kind: 'fixed', amount: 10 })).toBe('Codes are 3 to 32 letters, digits, dashes or underscores.');
+            expect(discountCodeFields({ code: 'HALF', kind: 'percentage', amount: 150 })).toBe('A percentage cannot be more than 100.');
+        });
+
+        it('should apply codes at checkout and count the paid uses', async () => {
+            const eventId = `discounts_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Promo Day', config: { event: { name: 'Promo Day', maxAttendees: 0 } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 80, currency: 'EUR', limit: 0, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const { token } = await loginAdmin('admin@example.com', 'password');
+                await saveDiscountCode(token, { code: 'quarter', kind: 'percentage', amount: 25, active: true });
+                const comp = await saveDiscountCode(token, { code: 'SPEAKER', kind: 'percentage', amount: 100, maxUses: 1, active: true });
+                let clash = '';
+                await saveDiscountCode(token, { code: 'Quarter', kind: 'fixed', amount: 5 }).catch(e => { clash = e.message; });
+                expect(clash).toBe('Another discount code already uses this code.');
+
+                const registration = (name: string) => ({ name, email: `${name}_${eventId}@example.com`, ticketTierId: tierId, createdAt: 0 } as any);
+                const check = await checkDiscountCode(eventId, 'quarter', [{ ticketTierId: tierId, quantity: 1 }]);
+                expect(check.total).toBe(60);
+                expect((await startCheckout(eventId, { registration: registration('ann'), discountCode: 'NOPE' })).message).toBe('This discount code is not valid.');
+
+                const checkout = await startCheckout(eventId, { registration: registration('ann'), discountCode: 'quarter' });
+                expect(checkout.order!.total).toBe(60);
+                expect(checkout.order!.discount!.amount).toBe(20);
+                await confirmOrder(checkout.order!.id);
+
+                // A code that covers the whole price confirms the ticket without a payment.
+                const free = await startCheckout(eventId, { registration: registration('bob'), discountCode: 'speaker' });
+                expect(free.clientSecret).toBe(undefined);
+                expect(free.completed!.user!.status).toBe('confirmed');
+                expect((await find('discount_codes', { id: comp.id })).used).toBe(1);
+                expect((await checkDiscountCode(eventId, 'SPEAKER', [{ ticketTierId: tierId, quantity: 1 }])).message).toBe('This discount code has been used up.');
+
+                const { usage } = await getDiscountCodes(token);
+                const quarter = usage.find(u => u.code === 'QUARTER')!;
+                expect(quarter.uses).toBe(1);
+                expect(quarter.discounted).toBe(20);
+                expect(quarter.revenue).toBe(60);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Refunds', () => {
+        const policy = [{ until: 2000, refundPercent: 50 }, { until: 1000, refundPercent: 100 }];
+        const order = { id: 'ord_r', kind: 'registration', total: 80, currency: 'EUR', status: 'paid', items: [] } as any;
+
+        it('should refund the share of the first deadline not yet passed', async () => {
+            expect(refundPercent(policy, 999)).toBe(100);
+            expect(refundPercent(policy, 1000)).toBe(50);
+            expect(refundPercent(policy, 2000)).toBe(0);
+            expect(refundPercent(undefined, 0)).toBe(0);
+            expect(cancellationPolicyProblem(policy)).toBe(null);
+            expect(cancellationPolicyProblem([{ until: 1000, refundPercent: 50 }, { until: 2000, refundPercent: 100 }])).toBe('A later deadline cannot refund more than an earlier one.');
+            expect(cancellationPolicyProblem([{ until: NaN, refundPercent: 50 }])).toBe('Set a date for each refund deadline.');
+
+            const tier = { id: 'std', cancellationPolicy: policy } as any;
+            expect(cancellationRefund(order, tier, 1500).percent).toBe(50);
+            expect(cancellationRefund(order, tier, 1500).amount).toBe(40);
+            // What has already gone back counts towards the policy's share.
+            expect(cancellationRefund({ ...order, amountRefunded: 10 }, tier, 1500).amount).toBe(30);
+            expect(cancellationRefund({ ...order, kind: 'group' }, tier, 500).amount).toBe(0);
+        });
+
+        it('should record refunds on the order until nothing is left', async () => {
+            expect(refundProblem(order, 81)).toBe('At most 80 EUR can be refunded.');
+            expect(refundProblem({ ...order, status: 'pending' }, 10)).toBe('Only paid orders can be refunded.');
+            const partial = { ...order, ...withRefund(order, { id: 'rf_1', amount: 30, reason: 'admin', createdAt: 5 }) };
+            expect(partial.status).toBe('paid');
+            expect(partial.amountRefunded).toBe(30);
+            const full = { ...partial, ...withRefund(partial, { id: 'rf_2', amount: 50, reason: 'admin', createdAt: 6 }) };
+            expect(full.status).toBe('refunded');
+            expect(full.refunds.length).toBe(2);
+            expect(refundProblem(full, 1)).toBe('This order has already been refunded.');
+
+            // Stripe's webhook only adds refunds that were not made here.
+            const reported = paymentEventChanges(partial, { kind: 'refunded', paymentIntentId: 'pi_r', amountRefunded: 3000, full: false }, 7);
+            expect(reported.changes.refunds).toBe(undefined);
+            const direct = paymentEventChanges(partial, { kind: 'refunded', paymentIntentId: 'pi_r', amountRefunded: 4500, full: false }, 7);
+            expect(direct.changes.refunds![1].amount).toBe(15);
+            expect(direct.changes.refunds![1].reason).toBe('provider');
+        });
+
+        it('should refund cancellations under the tier policy and let admins refund the rest', async () => {
+            const eventId = `refunds_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Refund Day', config: { event: { name: 'Refund Day', maxAttendees: 1 } } });
+            const tierId = `std_${eventId}`;
+            const day = 24 * 60 * 60 * 1000;
+            await insert('ticket_tiers', {
+                id: tierId, eventId, name: 'Standard', price: 80, currency: 'EUR', limit: 0, sold: 0, active: true, description: '', benefits: [],
+                cancellationPolicy: [{ until: Date.now() - day, refundPercent: 100 }, { until: Date.now() + day, refundPercent: 50 }]
+            });
+            setActiveEvent(eventId);
+            try {
+                const email = (name: string) => `${name}_${eventId}@example.com`;
+                const checkout = await startCheckout(eventId, { registration: { name: 'Ann', email: email('ann'), password: 'correct-horse', ticketTierId: tierId, createdAt: 0 } as any });
+                const ann = (await confirmOrder(checkout.order!.id)).user!;
+                expect((await registerUser(eventId, { name: 'Bob', email: email('bob'), ticketTierId: tierId, createdAt: 0 } as any)).user.status).toBe('waitlist');
+                expect((await find('ticket_tiers', { id: tierId })).sold).toBe(1);
+
+                const login = await loginDelegate(eventId, email('ann'), 'correct-horse');
+                const terms = await getCancellationTerms(login.token);
+                expect(terms.refund.percent).toBe(50);
+                expect(terms.refund.amount).toBe(40);
+                const cancelled = await cancelRegistration(login.token, ann.id!);
+                expect(cancelled.refund!.amount).toBe(40);
+                expect(cancelled.refund!.reason).toBe('cancellation');
+                expect((await find('ticket_tiers', { id: tierId })).sold).toBe(0);
+                expect((await find('registrations', { email: email('bob') })).waitlistOffer).toBeTruthy();
+
+                const { token } = await loginAdmin('admin@example.com', 'password');
+                const [paid] = await getRegistrationOrders(token, ann.id!);
+                expect(paid.amountRefunded).toBe(40);
+                let tooMuch = '';
+                await refundOrder(token, paid.id, { amount: 50 }).catch(e => { tooMuch = e.message; });
+                expect(tooMuch).toBe('At most 40 EUR can be refunded.');
+                const settled = await refundOrder(token, paid.id, { amount: 40, note: 'Goodwill' });
+                expect(settled.status).toBe('refunded');
+                expect(settled.refunds![1].by).toBe('admin@example.com');
+                expect(settled.refunds![1].providerRefundId!.startsWith('mock_re_')).toBe(true);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Invoices', () => {
+        const billing = {
+            companyName: 'Expo GmbH', address: 'Messeplatz 1', country: 'DE', invoicePrefix: 'INV-', defaultTaxRate: 19, reverseCharge: true,
+            taxRates: [{ country: 'AT', rate: 20 }, { ticketTierId: 'workshop', rate: 7 }, { ticketTierId: 'workshop', country: 'AT', rate: 10 }]
+        };
+
+        it('should pick the most specific tax rate and split prices that include it', async () => {
+            expect(taxRateFor(billing, 'std', 'DE').rate).toBe(19);
+            expect(taxRateFor(billing, 'std', 'at').rate).toBe(20);
+            expect(taxRateFor(billing, 'workshop', 'DE').rate).toBe(7);
+            expect(taxRateFor(billing, 'workshop', 'AT').rate).toBe(10);
+            expect(taxRateFor(billing, undefined, 'AT').rate).toBe(20);
+            expect(reverseChargeApplies(billing, { vatId: 'ATU12345678', country: 'AT' })).toBe(true);
+            expect(reverseChargeApplies(billing, { vatId: 'DE123456789', country: 'DE' })).toBe(false);
+            expect(reverseChargeApplies(billing, { country: 'AT' })).toBe(false);
+            expect(invoiceNumber('INV-', 42)).toBe('INV-00042');
+
+            // 10% off, shared between the lines by price.
+            const order = {
+                id: 'ord_i', eventId: 'e', kind: 'group', email: 'buyer@example.com', name: 'Buyer', details: { company: 'Acme' },
+                items: [{ ticketTierId: 'std', quantity: 2, unitPrice: 59.5 }, { ticketTierId: 'workshop', quantity: 1, unitPrice: 107 }],
+                discount: { codeId: 'd', code: 'TEN', amount: 22.6 }, total: 203.4, currency: 'EUR', status: 'paid', paidAt: 5, createdAt: 1, expiresAt: 2
+            } as any;
+            const tiers = [{ id: 'std', name: 'Standard' }, { id: 'workshop', name: 'Workshop' }] as any;
+            const invoice = newInvoice(order, 3, { billing, host: { name: 'Host', email: 'host@example.com' } }, tiers, 10);
+            expect(invoice.number).toBe('INV-00003');
+            expect(invoice.lines[0].discount).toBe(11.9);
+            expect(invoice.lines[0].net).toBe(90);
+            expect(invoice.lines[0].tax).toBe(17.1);
+            expect(invoice.lines[1].discount).toBe(10.7);
+            expect(invoice.lines[1].tax).toBe(6.3);
+            expect(invoice.net).toBe(180);
+            expect(invoice.tax).toBe(23.4);
+            expect(invoice.seller.name).toBe('Expo GmbH');
+            expect(invoice.buyer.company).toBe('Acme');
+
+            const exempt = newInvoice({ ...order, billing: { company: 'Acme', vatId: 'ATU12345678', country: 'AT' } }, 4, { billing, host: { name: 'Host', email: '' } }, tiers);
+            expect(exempt.reverseCharge).toBe(true);
+            expect(exempt.tax).toBe(0);
+            expect(exempt.net).toBe(203.4);
+        });
+
+        it('should check buyer details and billing settings', async () => {
+            const fields = orderBillingFields({ company: ' Acme ', vatId: 'de 123.456.789', country: 'de' }) as any;
+            expect(fields.company).toBe('Acme');
+            expect(fields.vatId).toBe('DE123456789');
+            expect(fields.country).toBe('DE');
+            expect(fields.address).toBe(undefined);
+            expect(orderBillingFields({ vatId: 'DE123456789' })).toBe('Enter the company the VAT ID belongs to.');
+            expect(orderBillingFields({ country: 'Germany' })).toBe('Choose the country by its two-letter code, e.g. DE.');
+            expect(orderBillingFields({ company: '  ' })).toBe(undefined);
+
+            expect(billingConfigProblem(billing)).toBe(null);
+            expect(billingConfigProblem(undefined)).toBe(null);
+            expect(billingConfigProblem({ ...billing, taxRates: [{ country: 'AT', rate: 20 }, { country: 'at', rate: 10 }] })).toBe('Two tax rates cover the same ticket tier and country.');
+            expect(billingConfigProblem({ ...billing, defaultTaxRate: 120 })).toBe('Tax rates are between 0 and 100 percent.');
+            expect(billingConfigProblem({ ...billing, taxRates: [{ rate: 5 }] })).toBe('Each tax rate needs a ticket tier, a country or both; the default rate covers the rest.');
+        });
+
+        it('should number an invoice for each paid order and show delegates their own', async () => {
+            const eventId = `invoices_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Invoice Day', config: { event: { name: 'Invoice Day', maxAttendees: 10 }, billing: { ...billing, invoicePrefix: 'EXPO-' } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 119, currency: 'EUR', limit: 0, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const email = (name: string) => `${name}_${eventId}@example.com`;
+                const register = (name: string) => ({ name, email: email(name), password: 'correct-horse', ticketTierId: tierId, createdAt: 0 } as any);
+                const refused = await startCheckout(eventId, { registration: register('ann'), billing: { vatId: 'FR12345678901' } });
+                expect(refused.message).toBe('Enter the company the VAT ID belongs to.');
+
+                const ann = await startCheckout(eventId, { registration: register('ann'), billing: { company: 'Acme', vatId: 'FR12345678901', country: 'FR' } });
+                await confirmOrder(ann.order!.id);
+                const bob = await startCheckout(eventId, { registration: register('bob') });
+                await confirmOrder(bob.order!.id);
+                // Confirming again does not issue a second invoice.
+                await confirmOrder(ann.order!.id);
+
+                const login = await loginDelegate(eventId, email('ann'), 'correct-horse');
+                const mine = await getDelegateInvoices(login.token);
+                expect(mine.length).toBe(1);
+                expect(mine[0].number).toBe('EXPO-00001');
+                expect(mine[0].reverseCharge).toBe(true);
+                expect(mine[0].buyer.vatId).toBe('FR12345678901');
+
+                const { token } = await loginAdmin('admin@example.com', 'password');
+                const all = await getInvoices(token);
+                expect(all.length).toBe(2);
+                expect(all[1].number).toBe('EXPO-00002');
+                expect(all[1].net).toBe(100);
+                expect(all[1].tax).toBe(19);
+                const ledger = invoiceLedger(all);
+                expect(ledger.rows[1][0]).toBe('EXPO-00002');
+                expect(ledger.rows[1][12]).toBe('119.00');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Payment Webhooks', () => {
+        const deliver = async (type: string, object: any, id?: string) => {
+            const { payload, signature } = await signedWebhook(fakeStripeEvent(type, object, id), LOCAL_WEBHOOK_SECRET);
+            return deliverPaymentWebhook(payload, signature);
+        };
+
+        it('should only accept deliveries signed with the endpoint secret', async () => {
+            const payload = JSON.stringify(fakeStripeEvent('payment_intent.succeeded', { object: 'payment_intent', id: 'pi_1' }));
+            const now = Date.now();
+            const signature = await signWebhookPayload(payload, 'whsec_test', Math.floor(now / 1000));
+            expect(await webhookSignatureProblem(payload, signature, 'whsec_test', now)).toBe(null);
+            expect(await webhookSignatureProblem(payload.replace('pi_1', 'pi_2'), signature, 'whsec_test', now)).toBe('The signature does not match.');
+            expect(await webhookSignatureProblem(payload, signature, 'whsec_other', now)).toBe('The signature does not match.');
+            expect(await webhookSignatureProblem(payload, signature, 'whsec_test', now + 10 * 60 * 1000)).toBe('The signature has expired.');
+            expect(await webhookSignatureProblem(payload, 'v1=abc', 'whsec_test', now)).toBe('Missing or malformed signature.');
+        });
+
+        it('should settle refunds and disputes on the order once', async () => {
+            const order = { id: 'ord_1', status: 'paid', total: 50, currency: 'EUR' } as any;
+            const partial = paymentEventChanges(order, { kind: 'refunded', paymentIntentId: 'pi_1', amountRefunded: 1000, full: false }, 5);
+            expect(partial.changes.amountRefunded).toBe(10);
+            expect(partial.revoke).toBe(false);
+            const full = paymentEventChanges(order, { kind: 'refunded', paymentIntentId: 'pi_1', amountRefunded: 5000, full: true }, 5);
+            expect(full.changes.status).toBe('refunded');
+            expect(full.revoke).toBe(true);
+            expect(paymentEventChanges({ ...order, ...full.changes }, { kind: 'refunded', paymentIntentId: 'pi_1', amountRefunded: 5000, full: true }).revoke).toBe(false);
+
+            const opened = paymentEventChanges(order, { kind: 'dispute', paymentIntentId: 'pi_1', dispute: { id: 'dp_1', status: 'needs_response', amount: 50 } }, 7);
+            expect(opened.changes.dispute!.openedAt).toBe(7);
+            expect(opened.revoke).toBe(false);
+            const lost = paymentEventChanges({ ...order, ...opened.changes }, { kind: 'dispute', paymentIntentId: 'pi_1', dispute: { id: 'dp_1', status: 'lost', amount: 50 } }, 9);
+            expect(lost.changes.dispute!.openedAt).toBe(7);
+            expect(lost.changes.dispute!.closedAt).toBe(9);
+            expect(lost.revoke).toBe(true);
+        });
+
+        it('should fulfil an order when its payment succeeds and take it back when refunded', async () => {
+            const eventId = `webhooks_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Hook Day', config: { event: { name: 'Hook Day', maxAttendees: 0 } } });
+            const tierId = `std_${eventId}`;
+            await insert('ticket_tiers', { id: tierId, eventId, name: 'Standard', price: 40, currency: 'EUR', limit: 1, sold: 0, active: true, description: '', benefits: [] });
+            setActiveEvent(eventId);
+            try {
+                const email = `ann_${eventId}@example.com`;
+                const checkout = await startCheckout(eventId, { registration: { name: 'Ann', email, ticketTierId: tierId, createdAt: 0 } as any });
+                const orderId = checkout.order!.id;
+                const intent = { object: 'payment_intent', id: `pi_${eventId}`, metadata: { orderId }, currency: 'eur' };
+
+                expect((await deliver('payment_intent.payment_failed', { ...intent, last_payment_error: { message: 'Your card was declined.' } })).orderId).toBe(orderId);
+                expect((await find('orders', { id: orderId })).paymentError).toBe('Your card was declined.');
+                // A payment short of the total does not buy the ticket.
+                await deliver('payment_intent.succeeded', { ...intent, amount_received: 100 });
+                expect((await find('orders', { id: orderId })).status).toBe('pending');
+
+                const succeeded = `evt_succeeded_${eventId}`;
+                await deliver('payment_intent.succeeded', { ...intent, amount_received: 4000 }, succeeded);
+                const registration = await find('registrations', { email });
+                expect(registration.status).toBe('confirmed');
+                expect(registration.orderId).toBe(orderId);
+                // Stripe delivering the event again, or the checkout confirming late, changes nothing.
+                expect((await deliver('payment_intent.succeeded', { ...intent, amount_received: 4000 }, succeeded)).duplicate).toBe(true);
+                expect((await confirmOrder(orderId)).user).toBe(undefined);
+                expect((await findAll('registrations', (r: any) => r.email === email)).length).toBe(1);
+
+                // Refunds name the PaymentIntent, not the order.
+                const paymentIntentId = (await find('orders', { id: orderId })).paymentIntentId;
+                await deliver('charge.refunded', { object: 'charge', payment_intent: paymentIntentId, amount_refunded: 4000, refunded: true });
+                const refunded = await find('orders', { id: orderId });
+                expect(refunded.status).toBe('refunded');
+                expect(refunded.amountRefunded).toBe(40);
+                expect((await find('registrations', { email })).status).toBe('cancelled');
+                expect((await deliver('customer.created', { object: 'customer', id: 'cus_1' })).ignored).toBe(true);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+
+        it('should credit bought coins once and take them back after a lost dispute', async () => {
+            const email = `coins_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Coin Buyer', email, createdAt: Date.now() } as any);
+            const user = db.registrations.find((r: any) => r.email === email);
+            const token = btoa(JSON.stringify({ id: user.id, email, type: 'delegate', eventId: 'main-event', exp: Date.now() + 100000 }));
+            expect((await startCoinPurchase(token, 'gold')).message).toBe('Unknown coin package.');
+
+            const purchase = await startCoinPurchase(token, 'basic');
+            expect(purchase.order!.total).toBe(50);
+            const intent = { object: 'payment_intent', id: 'pi_coins', metadata: { orderId: purchase.order!.id }, amount_received: 5000, currency: 'usd' };
+            await deliver('payment_intent.succeeded', intent);
+            await deliver('payment_intent.succeeded', intent);
+            const credits = await findAll('transactions', (t: any) => t.orderId === purchase.order!.id);
+            expect(credits.length).toBe(1);
+            expect(credits[0].toId).toBe(user.id);
+            expect(credits[0].amount).toBe(50);
+
+            const dispute = { object: 'dispute', id: 'dp_coins', payment_intent: purchase.order!.paymentIntentId, amount: 5000, reason: 'fraudulent' };
+            await deliver('charge.dispute.created', { ...dispute, status: 'needs_response' });
+            expect((await find('orders', { id: purchase.order!.id })).dispute.status).toBe('needs_response');
+            await deliver('charge.dispute.closed', { ...dispute, status: 'lost' });
+            const reversal = (await findAll('transactions', (t: any) => t.orderId === purchase.order!.id)).find((t: any) => t.type === 'refund');
+            expect(reversal.fromId).toBe(user.id);
+            expect(reversal.amount).toBe(50);
+            expect((await find('orders', { id: purchase.order!.id })).status).toBe('refunded');
+        });
+    });
+
+    describe('Registration Form Fields', () => {
+        const fields = [
+            { id: 'diet', label: 'Diet', type: 'multiselect', required: false, enabled: true, options: ['Vegan', 'Halal', 'Other'], validation: { max: '2' } },
+            { id: 'diet_other', label: 'Other Diet', type: 'text', required: true, enabled: true, showIf: [{ fieldId: 'diet', operator: 'is', values: ['Other'] }] },
+            { id: 'diet_notes', label: 'Diet Notes', type: 'textarea', required: false, enabled: true, showIf: [{ fieldId: 'diet_other', operator: 'answered' }] },
+            { id: 'member', label: 'Member Number', type: 'text', required: true, enabled: true, validation: { pattern: '[A-Z]{2}\\d{4}', patternMessage: 'Use a number like AB1234.' }, showIf: [{ fieldId: 'ticketTierId', operator: 'is', values: ['tier_member'] }] },
+            { id: 'guests', label: 'Guests', type: 'number', required: false, enabled: true, validation: { min: '0', max: '3' } },
+            { id: 'arrival', label: 'Arrival', type: 'date', required: false, enabled: true, validation: { min: '2024-05-01', max: '2024-05-03' } },
+            { id: 'terms', label: 'the Terms', type: 'consent', required: true, enabled: true }
+        ] as any[];
+
+        it('should show follow-up fields only when their conditions hold', async () => {
+            expect(visibleFormFields(fields, {}).map(f => f.id).join(',')).toBe('diet,guests,arrival,terms');
+            expect(visibleFormFields(fields, { diet: ['Other'], diet_other: 'Keto', ticketTierId: 'tier_member' }).map(f => f.id).join(','))
+                .toBe('diet,diet_other,diet_notes,member,guests,arrival,terms');
+            // A hidden follow-up counts as unanswered, so the chain after it collapses too.
+            expect(visibleFormFields(fields, { diet: ['Vegan'], diet_other: 'Keto' }).some(f => f.id === 'diet_notes')).toBe(false);
+        });
+
+        it('should check answers by type and rule', async () => {
+            const field = (id: string) => fields.find(f => f.id === id);
+            expect(fieldAnswerError(field('diet'), ['Vegan', 'Halal', 'Other'])).toBe('Choose at most 2 for Diet.');
+            expect(fieldAnswerError(field('diet'), ['Paleo'])).toBe('"Paleo" is not an option for Diet.');
+            expect(fieldAnswerError(field('member'), 'ab1234')).toBe('Use a number like AB1234.');
+            expect(fieldAnswerError(field('member'), 'AB1234')).toBe(null);
+            expect(fieldAnswerError(field('guests'), '4')).toBe('Guests must be at most 3.');
+            expect(fieldAnswerError(field('guests'), 'two')).toBe('Guests must be a number.');
+            expect(fieldAnswerError(field('arrival'), '2024-04-30')).toBe('Arrival must be on or after 2024-05-01.');
+            expect(fieldAnswerError(field('terms'), false)).toBe('You must agree to the Terms.');
+            expect(fieldAnswerError({ id: 'p', label: 'Phone', type: 'phone', required: false, enabled: true }, 'call me')).toBe('Phone must be a valid phone number.');
+            expect(formatAnswer(['Vegan', 'Halal'])).toBe('Vegan; Halal');
+            expect(formatAnswer(true)).toBe('Yes');
+
+            const { errors, hidden } = checkFormAnswers(fields, { diet: ['Vegan'], diet_other: 'ignored', terms: true });
+            expect(Object.keys(errors).length).toBe(0);
+            expect(hidden.join(',')).toBe('diet_other,diet_notes,member');
+
+            expect(formFieldProblem({ ...field('member'), validation: { pattern: '[' } }, [])).toBe('The validation pattern is not a valid regular expression.');
+            expect(formFieldProblem(field('diet_notes'), [field('diet')])).toBe('Conditions can only refer to earlier fields or the ticket tier.');
+            expect(formFieldProblem(field('diet_notes'), fields.slice(0, 2))).toBe(null);
+        });
+
+        it('should enforce the rules on registration and drop hidden answers', async () => {
+            const eventId = `fields_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Fields Day', config: { event: { name: 'Fields Day' }, formFields: fields } });
+            const rejected = await registerUser(eventId, { name: 'Ann', email: `ann@${eventId}.com`, diet: ['Other'], createdAt: 0 } as any);
+            expect(rejected.success).toBe(false);
+            expect(rejected.errors.diet_other).toBe('Other Diet is required.');
+            expect(rejected.errors.terms).toBe('You must agree to the Terms.');
+
+            const result = await registerUser(eventId, { name: 'Ann', email: `ann@${eventId}.com`, diet: ['Vegan'], diet_other: 'Keto', member: 'nope', terms: true, createdAt: 0 } as any);
+            expect(result.success).toBe(true);
+            const stored = (await findAllInEvent('registrations', eventId)).find(r => r.id === result.user.id);
+            expect(stored.diet.join(',')).toBe('Vegan');
+            expect(stored.diet_other).toBe(undefined);
+            expect(stored.member).toBe(undefined);
+        });
+    });
+
+    describe('Registration Import', () => {
+        it('should parse quoted CSV fields and validate mapped rows', async () => {
+            const rows = parseCsv('Full Name,E-mail,Company,T-Shirt\r\n"Doe, Jane",JANE@example.com,"Acme ""East""\nBranch",m\n\nBob,bob@example,,XXL\n"Doe, Jane",jane@example.com,,S\n');
+            expect(rows.length).toBe(4);
+            expect(rows[1][0]).toBe('Doe, Jane');
+            expect(rows[1][2]).toBe('Acme "East"\nBranch');
+            expect(parseCsv('Ann\tann@example.com')[0][1]).toBe('ann@example.com');
+
+            const formFields = [{ id: 'shirt', label: 'T-Shirt', type: 'dropdown', required: true, enabled: true, options: ['S', 'M', 'L'] }] as any[];
+            const { mapping, header } = guessMapping(rows[0], formFields);
+            expect(header).toBe(true);
+            expect(mapping.join(',')).toBe('name,email,company,shirt');
+            expect(guessMapping(['Ann', 'ann@example.com'], []).header).toBe(false);
+
+            const results = validateImportRows(rows.slice(1), mapping, { formFields, tiers: [], existingEmails: new Set() }, 2);
+            expect(results[0].errors.length).toBe(0);
+            expect(results[0].registration?.email).toBe('jane@example.com');
+            expect(results[0].registration?.shirt).toBe('M');
+            expect(results[1].row).toBe(3);
+            expect(results[1].errors.length).toBe(2);
+            expect(results[2].errors[0]).toBe('jane@example.com appears earlier in the file.');
+        });
+
+        it('should import rows into the active event with tiers, custom fields and capacity', async () => {
+            const eventId = `import_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Import Day', config: { event: { name: 'Import Day', maxAttendees: 2 }, formFields: [] } });
+            await insert('ticket_tiers', { id: `${eventId}_vip`, eventId, name: 'VIP', price: 100, limit: 0 });
+            await registerUser(eventId, { name: 'Existing', email: `existing@${eventId}.com`, createdAt: 0 } as any);
+            setActiveEvent(eventId);
+            try {
+                const { token } = await loginAdmin('admin@example.com', 'password');
+                const rows = [
+                    ['Ann', `ann@${eventId}.com`, 'vip'],
+                    ['Existing', `existing@${eventId}.com`, ''],
+                    ['Cal', `cal@${eventId}.com`, 'Gold'],
+                    ['Dee', `dee@${eventId}.com`, '']
+                ];
+                const mapping = ['name', 'email', 'ticketTier'];
+                const preview = await previewRegistrationImport(token, rows, mapping, 2);
+                expect(preview.filter(r => r.errors.length > 0).map(r => r.row).join(',')).toBe('3,4');
+
+                const progress: number[] = [];
+                const job = await importRegistrations(token, rows, mapping, { firstRow: 2 }, j => progress.push(j.processed));
+                expect(job.status).toBe('completed');
+                expect(job.imported).toBe(2);
+                expect(job.waitlisted).toBe(1);
+                expect(job.errors.map(e => e.row).join(',')).toBe('3,4');
+                expect(progress[progress.length - 1]).toBe(4);
+
+                const ann = (await findAllInEvent('registrations', eventId)).find(r => r.email === `ann@${eventId}.com`);
+                expect(ann.ticketTierId).toBe(`${eventId}_vip`);
+                expect(ann.status).toBe('confirmed');
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Registration Export', () => {
+        it('should build the selected columns with tier, check-in and stay data', async () => {
+            const sources = {
+                registrations: [
+                    { id: 'r2', name: 'Bob', email: 'bob@example.com', createdAt: 2, status: 'confirmed', company: '=HYPERLINK("x")' },
+                    { id: 'r1', name: 'Doe, Jane', email: 'jane@example.com', createdAt: 1, status: 'confirmed', ticketTierId: 't1', checkedInAt: 1700000000000, company: 'Acme' },
+                    { id: 'r3', name: 'Cal', email: 'cal@example.com', createdAt: 3, status: 'cancelled' }
+                ],
+                formFields: [{ id: 'company', label: 'Company', type: 'text', required: false, enabled: true }],
+                tiers: [{ id: 't1', name: 'VIP', price: 100, currency: 'EUR' }],
+                checkIns: [
+                    { id: 'c1', registrationId: 'r1', result: 'admitted', method: 'scan', scannedBy: 'a', timestamp: 1700000000000 },
+                    { id: 'c2', registrationId: 'r1', result: 'duplicate', method: 'scan', scannedBy: 'a', timestamp: 1700000060000 }
+                ],
+                bookings: [{ id: 'b1', delegateId: 'r1', hotelId: 'h1', roomTypeId: 'rt1', checkInDate: '2024-05-01', checkOutDate: '2024-05-03', status: 'Confirmed', roomNumber: '204' }],
+                hotels: [{ id: 'h1', name: 'Grand', roomTypes: [{ id: 'rt1', name: 'Double' }] }],
+                mealPlans: [], mealPlanAssignments: [], restaurants: [], diningReservations: []
+            } as any;
+            const table = buildExportTable({ columns: ['name', 'ticketTier', 'ticketPrice', 'admissions', 'hotel', 'roomType', 'stay', 'field:company', 'field:gone'], statuses: ['confirmed'], checkedIn: 'any' }, sources);
+            expect(table.headers.join('|')).toBe('Name|Ticket Tier|Ticket Price|Admitted Scans|Hotel|Room Type|Stay|Company');
+            expect(table.rows.length).toBe(2);
+            expect(table.rows[0].join('|')).toBe('Doe, Jane|VIP|100 EUR|1|Grand|Double|2024-05-01 to 2024-05-03|Acme');
+            expect(buildExportTable({ columns: ['name'], statuses: [], checkedIn: 'no' }, sources).rows.map(r => r[0]).join(',')).toBe('Bob,Cal');
+
+            const csv = new TextDecoder().decode(renderExport(table, 'csv', 'Weekly List', Date.UTC(2024, 4, 1)).content);
+            expect(csv.split('\r\n')[1].startsWith('"Doe, Jane",VIP')).toBe(true);
+            expect(csv.includes(`"'=HYPERLINK(""x"")"`)).toBe(true);
+            const json = renderExport(table, 'json', 'Weekly List', Date.UTC(2024, 4, 1));
+            expect(json.fileName).toBe('weekly_list_2024-05-01.json');
+            expect(JSON.parse(new TextDecoder().decode(json.content))[1].Name).toBe('Bob');
+            const xlsx = renderExport(table, 'xlsx', 'Weekly List').content;
+            expect(xlsx[0] === 0x50 && xlsx[1] === 0x4b).toBe(true);
+        });
+
+        it('should schedule deliveries in UTC and reject incomplete schedules', async () => {
+            // Wednesday 2024-05-01 10:30 UTC
+            const now = Date.UTC(2024, 4, 1, 10, 30);
+            expect(nextExportRun({ frequency: 'daily', hour: 11, recipients: [] }, now)).toBe(Date.UTC(2024, 4, 1, 11));
+            expect(nextExportRun({ frequency: 'daily', hour: 8, recipients: [] }, now)).toBe(Date.UTC(2024, 4, 2, 8));
+            expect(nextExportRun({ frequency: 'weekly', hour: 8, weekday: 1, recipients: [] }, now)).toBe(Date.UTC(2024, 4, 6, 8));
+            expect(nextExportRun({ frequency: 'daily', hour: 11, recipients: [] }, Date.UTC(2024, 4, 1, 11))).toBe(Date.UTC(2024, 4, 2, 11));
+
+            expect(scheduleProblem({ frequency: 'weekly', hour: 8, recipients: ['a@example.com'] })).toBe('Choose the weekday for a weekly export.');
+            expect(scheduleProblem({ frequency: 'daily', hour: 8, recipients: [] })).toBe('Add at least one recipient.');
+            expect(scheduleProblem({ frequency: 'daily', hour: 8, recipients: ['finance'] })).toBe('"finance" is not a valid email address.');
+            expect(scheduleProblem({ frequency: 'daily', hour: 8, recipients: ['a@example.com'] })).toBe(null);
+        });
+
+        it('should save a definition and build it from the active event', async () => {
+            const eventId = `export_${Date.now()}`;
+            await insert('events', { id: eventId, name: 'Export Day', config: { event: { name: 'Export Day' }, formFields: [] } });
+            await registerUser(eventId, { name: 'Ann', email: `ann@${eventId}.com`, createdAt: 0 } as any);
+            setActiveEvent(eventId);
+            try {
+                const { token } = await loginAdmin('admin@example.com', 'password');
+                const saved = await saveExportDefinition(token, {
+                    name: 'Finance', columns: ['name', 'email'], statuses: [], checkedIn: 'any', format: 'json',
+                    schedule: { frequency: 'daily', hour: 6, recipients: ['finance@example.com'] }
+                });
+                expect(saved.nextRunAt! > Date.now()).toBe(true);
+                expect((await getExportDefinitions(token)).some(d => d.id === saved.id)).toBe(true);
+
+                const file = await buildRegistrationExport(token, saved);
+                const rows = JSON.parse(new TextDecoder().decode(file.content));
+                expect(rows.length).toBe(1);
+                expect(rows[0].Email).toBe(`ann@${eventId}.com`);
+            } finally {
+                setActiveEvent('main-event');
+            }
+        });
+    });
+
+    describe('Signed Tickets', () => {
+        const claims = { e: 'main-event', r: 'reg_ticket_1', n: 1, nbf: 1700000000, exp: 1800000000 };
+        const registration = { id: 'reg_ticket_1', status: 'confirmed' };
+
+        it('should verify a signed ticket offline and reject tampered codes', async () => {
+            const key = await generateTicketKey();
+            const token = await signTicket(claims, key);
+            const check = await verifyTicket(token, [key], 1750000000000);
+            expect(check.valid).toBe(true);
+            expect(check.claims?.r).toBe('reg_ticket_1');
+
+            const [body, signature] = token.split('.');
+            const forged = btoa(JSON.stringify({ ...claims, r: 'reg_someone_else', k: key.kid })).replace(/=+$/, '');
+            expect((await verifyTicket(`${forged}.${signature}`, [key], 1750000000000)).valid).toBe(false);
+            expect((await verifyTicket(`${body}.${signature}`, [await generateTicketKey()], 1750000000000)).valid).toBe(false);
+            expect((await verifyTicket('reg_ticket_1', [key], 1750000000000)).valid).toBe(false);
+        });
+
+        it('should reject tickets outside their validity window', async () => {
+            const key = await generateTicketKey();
+            const token = await signTicket(claims, key);
+            expect((await verifyTicket(token, [key], 1600000000000)).valid).toBe(false);
+            expect((await verifyTicket(token, [key], 1900000000000)).valid).toBe(false);
+        });
+
+        it('should refuse cancelled, revoked and replaced tickets', async () => {
+            const ticket = { ...claims, k: 'key' };
+            expect(ticketRejection(ticket, registration, 'main-event')).toBe(null);
+            expect(ticketRejection(ticket, registration, 'other-event') !== null).toBe(true);
+            expect(ticketRejection(ticket, { ...registration, status: 'cancelled' }, 'main-event') !== null).toBe(true);
+            expect(ticketRejection(ticket, { ...registration, ticketRevokedAt: Date.now() }, 'main-event') !== null).toBe(true);
+            expect(ticketRejection(ticket, { ...registration, ticketVersion: 2 }, 'main-event') !== null).toBe(true);
+        });
+    });
+
+    describe('Check-in', () => {
+        it('should admit a delegate once and record every attempt', async () => {
+            const login = await loginAdmin('admin@example.com', 'password');
+            const id = `reg_checkin_${Date.now()}`;
+            await insert('registrations', { id, name: 'Door Test', email: `${id}@example.com`, status: 'confirmed', createdAt: Date.now() });
+
+            const first = await checkInManually(login.token, id);
+            expect(first.success).toBe(true);
+            expect(!!first.user?.checkedInAt).toBe(true);
+
+            const second = await checkInManually(login.token, id);
+            expect(second.success).toBe(false);
+            expect(second.checkIn?.result).toBe('duplicate');
+
+            const history = await getCheckInHistory(login.token, id);
+            expect(history.length).toBe(2);
+            expect(history[1].result).toBe('admitted');
+            expect(history[1].scannedBy).toBe(login.user.id);
+        });
+
+        it('should refuse cancelled registrations', async () => {
+            const login = await loginAdmin('admin@example.com', 'password');
+            const id = `reg_checkin_cancelled_${Date.now()}`;
+            await insert('registrations', { id, name: 'Cancelled', email: `${id}@example.com`, status: 'cancelled', createdAt: Date.now() });
+            const result = await checkInManually(login.token, id);
+            expect(result.success).toBe(false);
+            expect(result.checkIn?.result).toBe('rejected');
+            expect(!!(await find('registrations', { id })).checkedInAt).toBe(false);
+        });
+    });
+
+    describe('Access Zones', () => {
+        const scan = (registrationId: string, direction: 'in' | 'out', timestamp: number, result: 'admitted' | 'rejected' = 'admitted') =>
+            ({ id: `scan_${registrationId}_${timestamp}`, zoneId: 'session_zone', registrationId, direction, result, method: 'scan' as const, scannedBy: 'user_admin_01', deviceId: 'test', timestamp });
+
+        it('should count delegates whose last admitted scan was an entry', async () => {
+            const scans = [scan('a', 'in', 1), scan('b', 'in', 2), scan('a', 'out', 3), scan('c', 'in', 4, 'rejected'), scan('b', 'in', 5)];
+            expect(zoneOccupancy(scans).session_zone).toBe(1);
+            expect(zoneOccupants(scans).session_zone.has('b')).toBe(true);
+        });
+
+        it('should enforce capacity and ticket benefits', async () => {
+            const zone = { id: 'session_zone', type: 'session' as const, name: 'Workshop', capacity: 2, requiredBenefits: ['Workshop Access'] };
+            const tier = { id: 'tier_w', name: 'Workshop', price: 0, currency: 'USD', limit: 0, sold: 0, description: '', benefits: ['workshop access'], active: true };
+            expect(decideZoneScan(zone, 'in', 'a', tier, new Set()).result).toBe('admitted');
+            expect(decideZoneScan(zone, 'in', 'a', { ...tier, benefits: [] }, new Set()).result).toBe('rejected');
+            expect(decideZoneScan(zone, 'in', 'a', tier, new Set(['b', 'c'])).result).toBe('rejected');
+            expect(decideZoneScan(zone, 'in', 'b', tier, new Set(['b'])).result).toBe('duplicate');
+            expect(decideZoneScan(zone, 'out', 'b', tier, new Set(['b', 'c'])).result).toBe('admitted');
+        });
+    });
+
+    describe('Kiosk Fleet', () => {
+        it('should pair a kiosk once and check delegates in with its own credential', async () => {
+            const login = await loginAdmin('admin@example.com', 'password');
+            const email = `kiosk_${Date.now()}@example.com`;
+            await registerUser('main-event', { name: 'Kiosk Guest', email, password: 'correct-horse', createdAt: Date.now() } as any);
+            const delegate = await loginDelegate('main-event', email, 'correct-horse');
+            const ticket = await getSignedTicketToken(delegate.token);
+
+            const { kiosk, pairingCode } = await provisionKiosk(login.token, 'Hall A #1');
+            expect((kiosk as any).pairingCodeHash).toBe(undefined);
+            const device = await pairKiosk(pairingCode.toLowerCase());
+            expect(device.kioskId).toBe(kiosk.id);
+            const entry = getKioskRoster()!.registrations.find(r => r.id === delegate.user.id);
+            expect(entry?.name).toBe('Kiosk Guest');
+            expect(entry?.password_hash).toBe(undefined);
+            let reused = false;
+            await pairKiosk(pairingCode).catch(() => { reused = true; });
+            expect(reused).toBe(true);
+
+            const first = await kioskCheckIn(ticket);
+            expect(first.success).toBe(true);
+            expect(getKioskQueue().length).toBe(0);
+            const second = await kioskCheckIn(ticket);
+            expect(second.success).toBe(false);
+            const history = await getCheckInHistory(login.token, delegate.user.id);
+            expect(history.map(c => c.result).join(',')).toBe('duplicate,admitted');
+            expect(history[1].scannedBy).toBe(kiosk.id);
+            expect(history[1].deviceId).toBe('Hall A #1');
+
+            // A new pairing code cuts the paired device off.
+            await renewKioskPairing(login.token, kiosk.id);
+            let unpaired = false;
+            await syncKiosk().catch(() => { unpaired = true; });
+            expect(unpaired).toBe(true);
+            expect(getKioskDevice()).toBe(null);
+            unpairKiosk();
+        });
+
+        it('should keep the first admission when kiosks reconcile offline scans', async () => {
+            const scan = { id: 'scan_1', ticket: 'ticket', scannedAt: 2000, localResult: 'admitted' as const };
+            expect(reconcileKioskScan(scan, { id: 'reg_a' }, null).result).toBe('admitted');
+            const late = reconcileKioskScan(scan, { id: 'reg_a', checkedInAt: 1000 }, null, 'Hall B #2');
+            expect(late.result).toBe('duplicate');
+            expect(late.reason!.includes('Hall B #2')).toBe(true);
+            expect(reconcileKioskScan(scan, { id: 'reg_a' }, 'This ticket has been revoked.').result).toBe('rejected');
+        });
+
+        it('should report kiosk health from heartbeats and issue readable pairing codes', async () => {
+            const now = Date.now();
+            expect(kioskHealth({ id: 'k', name: 'K', createdAt: now }, now)).toBe('unpaired');
+            expect(kioskHealth({ id: 'k', name: 'K', createdAt: now, pairedAt: now, lastHeartbeatAt: now - 1000 }, now)).toBe('online');
+            expect(kioskHealth({ id: 'k', name: 'K', createdAt: now, pairedAt: now, lastHeartbeatAt: now - KIOSK_OFFLINE_AFTER }, now)).toBe('offline');
+            const code = newPairingCode();
+            expect(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/.test(code)).toBe(true);
+            expect(normalizePairingCode(code.toLowerCase().replace('-', ' '))).toBe(code.replace('-', ''));
+        });
+    });
+
+    describe('Offline Write Queue', () => {
+        it('should fold repeated edits into one entry and keep them over a sync', async () => {
+            const table = `outbox_test_${Date.now()}`;
+            enqueueWrite(table, 'upsert', { id: 'a', name: 'First edit', version: 3 }, 3);
+            const entry = enqueueWrite(table, 'upsert', { id: 'a', name: 'Second edit', version: 3 }, 4);
+            expect(entry.baseVersion).toBe(3);
+            expect(entry.revision).toBe(1);
+            expect(entry.row.name).toBe('Second edit');
+            const removal = enqueueWrite(table, 'delete', { id: 'b', version: 1 }, 1);
+
+            const synced = applyQueuedWrites(table, [{ id: 'a', name: 'Server', version: 5 }, { id: 'b', version: 1 }, { id: 'c' }]);
+            expect(synced.map(r => r.id).join(',')).toBe('a,c');
+            expect(synced[0].name).toBe('Second edit');
+
+            expect(retryDelay(4)).toBeGreaterThan(retryDelay(1));
+            expect(retryDelay(50) <= 5 * 60 * 1000 + 250).toBe(true);
+
+            removeOutboxEntry(entry.id);
+            removeOutboxEntry(removal.id);
+            expect(applyQueuedWrites(table, [{ id: 'b' }]).length).toBe(1);
+        });
+    });
+
+    describe('Delta Sync', () => {
+        it('should merge server changes without losing queued local edits', async () => {
+            const table = `delta_test_${Date.now()}`;
+            await insert(table, { id: 'kept', name: 'Local' });
+            await insert(table, { id: 'gone', name: 'Old' });
+            const queued = enqueueWrite(table, 'upsert', { id: 'edited', name: 'Mine', version: 1 }, 1);
+
+            applyRemoteChanges({
+                [table]: {
+                    upserts: [{ id: 'kept', name: 'Server' }, { id: 'edited', name: 'Theirs', version: 2 }, { id: 'added', name: 'New' }],
+                    deletes: ['gone']
+                }
+            });
+
+            const rows = await findAll(table);
+            expect(rows.map(r => r.id).sort().join(',')).toBe('added,edited,kept');
+            expect(rows.find(r => r.id === 'kept').name).toBe('Server');
+            expect(rows.find(r => r.id === 'edited').name).toBe('Mine');
+
+            removeOutboxEntry(queued.id);
+            delete db[table];
+        });
+    });
+
+    describe('Data Access Policy', () => {
+        it('should define a policy for every allowed table', async () => {
+            ALLOWED_TABLES.forEach(table => expect(!!TABLE_POLICIES[table]).toBe(true));
+            expect(Object.keys(DELEGATE_ACCESS).length).toBe(ALLOWED_TABLES.length);
+        });
+
+        ALLOWED_TABLES.forEach(table => {
+            it(`should enforce delegate and admin access on ${table}`, async () => {
+                const ownRow = rowOwnedBy(table, policyDelegate.id);
+                const foreignRow = rowOwnedBy(table, 'reg_someone_else');
+                (['read', 'write', 'delete'] as const).forEach(action => {
+                    const expected = DELEGATE_ACCESS[table][action];
+                    expect(authorize(policyDelegate, table, action, ownRow)).toBe(expected !== 'none');
+                    expect(authorize(policyDelegate, table, action, foreignRow)).toBe(expected === 'all');
+                });
+                expect(authorize(policyViewer, table, 'delete')).toBe(false);
+                expect(authorize(policySuperAdmin, table, 'write')).toBe(!DELEGATE_ONLY_WRITES.includes(table) && !SERVER_ONLY_TABLES.includes(table));
+            });
+        });
+
+        it('should never expose admin password hashes', async () => {
+            const row = { id: 'user_x', email: 'x@example.com', password_hash: '$2b$10$abc', roleId: 'role_super_admin' };
+            const redacted = redactRow(policySuperAdmin, 'admin_users', row);
+            expect(redacted.password_hash).toBe(undefined);
+            expect(redacted.email).toBe('x@example.com');
+            expect(row.password_hash).toBe('$2b$10$abc');
+        });
+
+        it('should only query on fields the caller can see', async () => {
+            expect(canQueryField(policyDelegate, 'registrations', 'company')).toBe(true);
+            expect(canQueryField(policyDelegate, 'registrations', 'email')).toBe(false);
+            expect(canQueryField(policySuperAdmin, 'registrations', 'email')).toBe(true);
+            expect(canQueryField(policySuperAdmin, 'admin_users', 'password_hash')).toBe(false);
+            expect(canQueryField(policyViewer, 'events', 'config')).toBe(false);
+            expect(canQueryField(policySuperAdmin, 'events', 'config')).toBe(true);
+        });
+
+        it('should hide event secrets from admins without manage_settings', async () => {
+            const event = { id: 'main-event', config: { smtp: { host: 'smtp.example.com', password: 'hunter2' } } };
+            expect(redactRow(policyViewer, 'events', event).config.smtp.password).toBe(undefined);
+            expect(redactRow(policyViewer, 'events', event).config.smtp.host).toBe('smtp.example.com');
+            expect(redactRow(policySuperAdmin, 'events', event).config.smtp.password).toBe('hunter2');
+        });
+
+        it('should only show public registration fields of other delegates', async () => {
+            const other = { id: 'reg_other', name: 'Other', email: 'other@example.com', company: 'Acme' };
+            const visible = redactRow(policyDelegate, 'registrations', other);
+            expect(visible.name).toBe('Other');
+            expect(visible.email).toBe(undefined);
+            const mine = redactRow(policyDelegate, 'registrations', { id: policyDelegate.id, email: 'me@example.com' });
+            expect(mine.email).toBe('me@example.com');
+        });
+
+        it('should keep read-only registration fields when a delegate updates their profile', async () => {
+            const existing = { id: policyDelegate.id, name: 'Me', status: 'waitlist', createdAt: 1 };
+            const item = prepareWrite(policyDelegate, 'registrations', { ...existing, name: 'New Me', status: 'confirmed' }, existing);
+            expect(item.name).toBe('New Me');
+            expect(item.status).toBe('waitlist');
+            expect(prepareWrite(policyDelegate, 'registrations', { id: 'reg_other', name: 'Hijack' }, { id: 'reg_other' })).toBe(null);
+        });
+
+        it('should stamp ownership on rows created by delegates', async () => {
+            const vote = prepareWrite(policyDelegate, 'poll_votes', { id: 'vote_1', pollId: 'poll_1', optionIndex: 0 });
+            expect(vote.userId).toBe(policyDelegate.id);
+            expect(prepareWrite(policyDelegate, 'poll_votes', { id: 'vote_2', pollId: 'poll_1', userId: 'reg_other' })).toBe(null);
+            expect(prepareWrite(policyDelegate, 'messages', { id: 'msg_1', receiverId: 'reg_other', content: 'Hi' }).senderId).toBe(policyDelegate.id);
+            expect(prepareWrite(policyDelegate, 'messages', { id: 'msg_2', senderId: 'reg_other', receiverId: policyDelegate.id, content: 'Forged' })).toBe(null);
+            const booking = prepareWrite(policyDelegate, 'bookings', { id: 'bk_1', hotelId: 'h_1', status: 'CheckedIn' });
+            expect(booking.delegateId).toBe(policyDelegate.id);
+            expect(booking.status).toBe(undefined);
+        });
+
+        it('should let delegates upvote but not edit foreign questions', async () => {
+            const question = { id: 'q_1', userId: 'reg_other', text: 'Original?', upvotes: 1 };
+            const item = prepareWrite(policyDelegate, 'session_questions', { ...question, text: 'Edited', upvotes: 2 }, question);
+            expect(item.upvotes).toBe(2);
+            expect(item.text).toBe(undefined);
+        });
+
+        it('should keep delegates and event admins within their event', async () => {
+            expect(authorize(policyDelegate, 'sessions', 'read', { id: 's_1', eventId: 'other-event' })).toBe(false);
+            expect(authorize(policyDelegate, 'sessions', 'read', { id: 's_2', eventId: 'main-event' })).toBe(true);
+
+            const eventAdmin: Principal = {
+                id: 'user_event_admin', email: 'ea@example.com', type: 'admin', permissions: [],
+                eventPermissions: { 'other-event': ['manage_agenda'] }, eventId: 'other-event'
+            };
+            expect(authorize(eventAdmin, 'sessions', 'write', { id: 's_3', eventId: 'other-event' })).toBe(true);
+            expect(authorize(eventAdmin, 'sessions', 'write', { id: 's_4', eventId: 'main-event' })).toBe(false);
+            expect(authorize(eventAdmin, 'events', 'read', { id: 'main-event' })).toBe(false);
+
+            const stamped = prepareWrite(eventAdmin, 'sessions', { id: 's_5', title: 'New' });
+            expect(stamped.eventId).toBe('other-event');
+            expect(prepareWrite(eventAdmin, 'sessions', { id: 's_6', eventId: 'main-event' })).toBe(null);
+            expect(canSeeChange(policyDelegate, 'sessions', [], ['other-event'])).toBe(false);
+        });
+
+        it('should only let platform roles manage admin accounts and roles', async () => {
+            const eventAdmin: Principal = {
+                id: 'user_event_users', email: 'eu@example.com', type: 'admin', permissions: [],
+                eventPermissions: { 'other-event': ['manage_users'] }, eventId: 'other-event'
+            };
+            const self = { id: 'user_event_users', email: 'eu@example.com', roleId: 'role_viewer' };
+            expect(authorize(eventAdmin, 'admin_users', 'write', self)).toBe(false);
+            expect(prepareWrite(eventAdmin, 'admin_users', { ...self, roleId: 'role_super_admin' }, self)).toBe(null);
+            expect(authorize(eventAdmin, 'roles', 'write', { id: 'role_super_admin', name: 'Super Admin' })).toBe(false);
+            expect(authorize(eventAdmin, 'roles', 'read', { id: 'role_super_admin', name: 'Super Admin' })).toBe(true);
+            expect(authorize(policySuperAdmin, 'admin_users', 'write', self)).toBe(true);
+        });
+    });
 };
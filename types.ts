@@ -35,12 +35,296 @@ export interface RegistrationData {
   role?: string;
   ticketTierId?: string;
   createdAt: number;
-  checkedIn?: boolean;
+  /** When the delegate was first admitted; every scan is kept in `check_ins`. */
+  checkedInAt?: number;
   status?: 'confirmed' | 'waitlist' | 'cancelled';
+  /** A seat held for a waitlisted delegate until `expiresAt`, see `server/waitlist.ts`. */
+  waitlistOffer?: {
+    offeredAt: number;
+    expiresAt: number;
+  };
   photoUrl?: string;
+  /** The registration group whose seat this delegate claimed. */
+  groupId?: string;
+  /** A handover the holder has offered to someone else, see `server/transfers.ts`. */
+  pendingTransfer?: PendingTransfer;
+  /** Every change of holder and name this ticket has been through, oldest first. */
+  transferHistory?: TicketHolderChange[];
+  /** The registration that took over this ticket when it was transferred. */
+  transferredTo?: string;
   [key: string]: any;
 }
 
+export interface PendingTransfer {
+  toEmail: string;
+  toName?: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+/** One entry in a ticket's audit history. `by` is who made the change, when it was not the holder. */
+export interface TicketHolderChange {
+  type: 'transfer' | 'name_change';
+  at: number;
+  fromName: string;
+  fromEmail: string;
+  toName: string;
+  toEmail: string;
+  by?: string;
+  /** For transfers, the registration the ticket came from. */
+  fromRegistrationId?: string;
+}
+
+export type CheckInResult = 'admitted' | 'duplicate' | 'rejected';
+
+export type ZoneDirection = 'in' | 'out';
+
+/** A session or room pin whose door is scanned, see `server/zones.ts`. */
+export interface AccessZone {
+  id: string;
+  type: 'session' | 'room';
+  name: string;
+  /** 0 or unset for no limit. */
+  capacity?: number;
+  requiredBenefits?: string[];
+}
+
+/** One scan at the door, or a manual check-in by an admin. */
+export interface CheckInRecord {
+  id: string;
+  eventId?: string;
+  /** Unset when the code could not be tied to a registration (e.g. a forged one). */
+  registrationId?: string;
+  result: CheckInResult;
+  reason?: string;
+  method: 'scan' | 'manual';
+  /** Session or room pin scanned into or out of; unset at the entrance. */
+  zoneId?: string;
+  direction?: ZoneDirection;
+  scannedBy: string;
+  scannedByEmail?: string;
+  deviceId: string;
+  userAgent?: string;
+  timestamp: number;
+  /** Set on scans queued on a kiosk: when they reached the server. */
+  syncedAt?: number;
+}
+
+/** A background registration import; progress is polled by the import dialog. */
+export interface RegistrationImport {
+  id: string;
+  eventId?: string;
+  createdBy: string;
+  createdAt: number;
+  status: 'running' | 'completed' | 'failed';
+  /** Rows sent for import. */
+  total: number;
+  processed: number;
+  imported: number;
+  waitlisted: number;
+  failed: number;
+  /** One entry per rejected row; `row` is its line in the file. */
+  errors: { row: number; message: string }[];
+  /** Whether imported delegates are sent the registration emails. */
+  notify?: boolean;
+  finishedAt?: number;
+  /** Why a failed import stopped. */
+  error?: string;
+}
+
+/** `open` until the purchaser names someone, `invited` once a claim link is sent, `claimed` once that person registers. */
+export type GroupSeatStatus = 'open' | 'invited' | 'claimed';
+
+export interface GroupSeat {
+  id: string;
+  ticketTierId?: string;
+  status: GroupSeatStatus;
+  attendeeName?: string;
+  attendeeEmail?: string;
+  invitedAt?: number;
+  claimedAt?: number;
+  /** The registration made when the seat was claimed. */
+  registrationId?: string;
+}
+
+/** Seats bought together by one purchaser and paid for once, see `server/groups.ts`. */
+export interface RegistrationGroup {
+  id: string;
+  eventId?: string;
+  purchaserName: string;
+  purchaserEmail: string;
+  company?: string;
+  seats: GroupSeat[];
+  amountPaid: number;
+  currency: string;
+  createdAt: number;
+}
+
+/** A ticket in an order, priced by the server when the order was placed. */
+export interface OrderItem {
+  ticketTierId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/** A discount code redeemed on an order, and how much it took off. */
+export interface OrderDiscount {
+  codeId: string;
+  code: string;
+  amount: number;
+}
+
+/** A chargeback on an order's payment, as last reported by Stripe. */
+export interface OrderDispute {
+  id: string;
+  /** Stripe's dispute status, e.g. 'needs_response', 'won' or 'lost'. */
+  status: string;
+  reason?: string;
+  amount: number;
+  openedAt: number;
+  closedAt?: number;
+}
+
+/**
+ * A checkout for paid tickets or EventCoins, see `server/orders.ts`. While
+ * pending and not yet expired it holds its seats; once paid it becomes a
+ * registration, a registration group or a wallet top-up.
+ */
+export interface Order {
+  id: string;
+  eventId: string;
+  kind: 'registration' | 'group' | 'coins';
+  /** Ticket orders only. */
+  items: OrderItem[];
+  /** After the discount, if any. */
+  total: number;
+  currency: string;
+  discount?: OrderDiscount;
+  /** 'refunded' once the money has gone back to the buyer, by a full refund or a lost dispute. */
+  status: 'pending' | 'paid' | 'cancelled' | 'refunded';
+  /** The buyer: the delegate registering or topping up, or the group's purchaser. */
+  email: string;
+  name: string;
+  /**
+   * Applied once paid: the registration form answers, the group purchaser's
+   * details, or the wallet's `registrationId` and `coins`.
+   */
+  details: Record<string, any>;
+  paymentIntentId?: string;
+  createdAt: number;
+  /** When the seats stop being held if the order has not been paid. */
+  expiresAt: number;
+  paidAt?: number;
+  registrationId?: string;
+  groupId?: string;
+  /** The wallet transaction crediting the coins. */
+  transactionId?: string;
+  /** Why a paid order could not be turned into a registration. */
+  fulfilmentError?: string;
+  /** Why the last payment attempt failed, while the order is unpaid. */
+  paymentError?: string;
+  amountRefunded?: number;
+  refundedAt?: number;
+  /** Each refund made, oldest first, see `server/refunds.ts`. */
+  refunds?: OrderRefund[];
+  dispute?: OrderDispute;
+  /** The buyer's invoicing details, given at checkout. */
+  billing?: OrderBilling;
+}
+
+/** Who an order is invoiced to, beyond the buyer's name and email. Country is an ISO 3166 code. */
+export interface OrderBilling {
+  company?: string;
+  vatId?: string;
+  address?: string;
+  country?: string;
+}
+
+/** Money given back on an order. */
+export interface OrderRefund {
+  id: string;
+  amount: number;
+  /** Cancelled under the tier's policy, refunded by an admin, or refunded at the payment provider directly. */
+  reason: 'cancellation' | 'admin' | 'provider';
+  note?: string;
+  /** The Stripe refund, or a `mock_re_` id when payments are simulated. */
+  providerRefundId?: string;
+  createdAt: number;
+  /** The admin who made it. */
+  by?: string;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/** When a saved export is emailed. Times are UTC. */
+export interface ExportSchedule {
+  frequency: 'daily' | 'weekly';
+  hour: number;
+  /** 0 (Sunday) to 6; weekly exports only. */
+  weekday?: number;
+  recipients: string[];
+}
+
+/** A saved registration export: the columns, which registrations, and optionally a delivery schedule. */
+export interface ExportDefinition {
+  id: string;
+  eventId?: string;
+  name: string;
+  /** Column ids, see `exportColumns` in `server/registrationExport.ts`. */
+  columns: string[];
+  /** Registration statuses to include; all when empty. */
+  statuses: NonNullable<RegistrationData['status']>[];
+  checkedIn?: 'any' | 'yes' | 'no';
+  format: ExportFormat;
+  schedule?: ExportSchedule;
+  createdBy?: string;
+  createdAt: number;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  /** Why the last scheduled run failed; cleared by the next good run. */
+  lastRunError?: string;
+}
+
+export type KioskPrinterStatus = 'ready' | 'error' | 'disabled' | 'unknown';
+
+/** A self check-in kiosk. Devices pair with a one-time code and then use their own credential. */
+export interface Kiosk {
+  id: string;
+  eventId?: string;
+  name: string;
+  createdAt: number;
+  createdBy?: string;
+  /** Expiry of the outstanding pairing code; unset once the device has paired. */
+  pairingExpiresAt?: number;
+  pairedAt?: number;
+  lastHeartbeatAt?: number;
+  /** Scans waiting on the device, as of its last heartbeat. */
+  queueDepth?: number;
+  printerStatus?: KioskPrinterStatus;
+  /** When the device last downloaded the attendee list. */
+  rosterAt?: number;
+  /** Scans the kiosk admitted offline that another device had already admitted. */
+  offlineDuplicates?: number;
+  userAgent?: string;
+}
+
+/** Sent by a kiosk with every sync. */
+export interface KioskHeartbeat {
+  queueDepth: number;
+  printerStatus: KioskPrinterStatus;
+}
+
+/** A ticket scan kept on a kiosk until the server has decided it. */
+export interface KioskScan {
+  id: string;
+  ticket: string;
+  scannedAt: number;
+  /** Registration the code named, if the kiosk could tell. */
+  registrationId?: string;
+  /** What the kiosk told the delegate when it decided the scan itself. */
+  localResult: CheckInResult;
+}
+
 export interface Session {
   id: string;
   title: string;
@@ -50,6 +334,8 @@ export interface Session {
   location: string;
   track?: string;
   capacity?: number;
+  /** Ticket benefits that grant entry; any one of them is enough. Open to all when empty. */
+  requiredBenefits?: string[];
   speakerIds: string[];
 }
 
@@ -97,6 +383,8 @@ export interface EventConfig {
     location: string;
     description: string;
     maxAttendees: number;
+    /** How long a waitlisted delegate has to accept a freed seat; 48 when unset. */
+    waitlistOfferHours?: number;
     eventType: string;
     publicUrl: string;
   };
@@ -116,11 +404,20 @@ export interface EventConfig {
     faviconUrl?: string;
   };
   formFields: FormField[];
+  /** Dates (ISO) between which signed tickets are valid; a year from issue when unset. */
+  ticketValidity?: {
+    from?: string;
+    until?: string;
+  };
   emailTemplates: {
     userConfirmation: EmailContent;
     hostNotification: EmailContent;
     passwordReset: EmailContent;
     delegateInvitation: EmailContent;
+    waitlistOffer: EmailContent;
+    groupPurchase: EmailContent;
+    groupSeatInvite: EmailContent;
+    ticketTransfer: EmailContent;
   };
   emailProvider: 'smtp' | 'google';
   smtp: {
@@ -174,16 +471,84 @@ export interface EventConfig {
     fromNumber: string;
   };
   aiConcierge: AiConciergeConfig;
+  /** Who invoices are issued by, and the tax on what is sold, see `server/invoices.ts`. */
+  billing?: BillingConfig;
+}
+
+/** A tax rate for a ticket tier, buyers in a country, or both. */
+export interface TaxRate {
+  ticketTierId?: string;
+  /** ISO 3166 code, e.g. 'DE'. */
+  country?: string;
+  /** Percent. */
+  rate: number;
+  /** Printed on the invoice, e.g. 'VAT'. */
+  label?: string;
+}
+
+export interface BillingConfig {
+  /** The seller named on invoices; the host when unset. */
+  companyName: string;
+  address: string;
+  country: string;
+  vatId?: string;
+  email?: string;
+  /** Put before each invoice's sequence number, e.g. 'INV-'. */
+  invoicePrefix: string;
+  /** Percent, for lines no rate in `taxRates` covers. */
+  defaultTaxRate: number;
+  taxRates: TaxRate[];
+  /** Charge no VAT to businesses in other countries that give a VAT ID. */
+  reverseCharge: boolean;
+  /** Printed at the bottom of invoices, e.g. payment terms or bank details. */
+  footer?: string;
+}
+
+export type FormFieldType = 'text' | 'textarea' | 'dropdown' | 'multiselect' | 'checkbox' | 'consent' | 'date' | 'number' | 'phone' | 'email' | 'file';
+
+/**
+ * A custom field's answer as stored on the registration: text for most types
+ * (dates as YYYY-MM-DD, uploads as their URL), a list for multi-select and a
+ * boolean for checkbox and consent fields.
+ */
+export type FormAnswer = string | string[] | boolean;
+
+/**
+ * Rules checked in the form and again by the server. `min` and `max` are kept
+ * as entered and read by type: a length for text, a value for numbers, a
+ * YYYY-MM-DD date for dates, a number of choices for multi-select and a size
+ * in MB (max only) for uploads.
+ */
+export interface FormFieldValidation {
+  pattern?: string;
+  /** Shown when the answer does not match `pattern`. */
+  patternMessage?: string;
+  min?: string;
+  max?: string;
+}
+
+/** `fieldId` is an earlier field, or `ticketTierId` for the chosen ticket tier. */
+export interface FormFieldCondition {
+  fieldId: string;
+  operator: 'is' | 'isNot' | 'answered';
+  values?: string[];
 }
 
 export interface FormField {
   id: string;
   label: string;
-  type: 'text' | 'textarea' | 'dropdown';
+  type: FormFieldType;
   placeholder?: string;
+  /** Help text under the label; for consent fields, the statement being agreed to. */
+  description?: string;
   required: boolean;
   enabled: boolean;
   options?: string[];
+  validation?: FormFieldValidation;
+  /** The field is shown only when every condition holds. Hidden fields are not required and their answers are dropped. */
+  showIf?: FormFieldCondition[];
+  /** File fields: the accepted types, as in an input's `accept` attribute (e.g. `.pdf,image/*`). */
+  accept?: string;
 }
 
 export interface EmailContent {
@@ -195,6 +560,13 @@ export interface EmailPayload {
   to: string;
   subject: string;
   body: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
 }
 
 export interface DashboardStats {
@@ -233,9 +605,33 @@ export interface EventCoinStats {
 export interface AdminUser {
   id: string;
   email: string;
+  /** Platform-wide role; empty for admins who only work on specific events. */
   roleId: string;
+  /** Extra roles per event, keyed by event id. */
+  eventRoles?: Record<string, string>;
   permissions?: Permission[];
   createdAt: number;
+  twoFactorEnabled?: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface AuthSession {
+  id: string;
+  subjectType: 'admin' | 'delegate';
+  subjectId: string;
+  email: string;
+  eventId?: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+  /** True for the session making the request. */
+  current: boolean;
 }
 
 export interface Role {
@@ -243,6 +639,8 @@ export interface Role {
   name: string;
   description: string;
   permissions: Permission[];
+  /** Members must enrol an authenticator app before they can sign in. */
+  requireTwoFactor?: boolean;
 }
 
 export interface PublicEvent {
@@ -255,6 +653,21 @@ export interface PublicEvent {
   config: EventConfig;
 }
 
+/** Saved setup of an event that new events can start from (see `server/eventTemplates.ts`). */
+export interface EventTemplate {
+    id: string;
+    name: string;
+    description: string;
+    eventType: string;
+    config: EventConfig;
+    /** Rows to copy, by table, as they were in the source event. */
+    tables: Record<string, any[]>;
+    /** Event the template was saved from. */
+    sourceEventId: string;
+    createdAt: number;
+    createdBy?: string;
+}
+
 export interface EventData {
     id: string;
     name: string;
@@ -406,9 +819,19 @@ export interface PollWithResults extends Poll {
     userVotedIndex?: number;
 }
 
+/** A price a ticket tier sells at for a while, e.g. an early-bird window. */
+export interface TierPriceWindow {
+    label: string;
+    price: number;
+    /** Open-ended when unset. */
+    startsAt?: number;
+    endsAt?: number;
+}
+
 export interface TicketTier {
     id: string;
     name: string;
+    /** The regular price, when no window of the schedule is in force. */
     price: number;
     currency: string;
     limit: number;
@@ -416,6 +839,94 @@ export interface TicketTier {
     description: string;
     benefits: string[];
     active: boolean;
+    /** See `tierPrice` in `server/discounts.ts`. */
+    priceSchedule?: TierPriceWindow[];
+    /** How much of the price a cancellation gives back, see `server/refunds.ts`. No refund when unset. */
+    cancellationPolicy?: CancellationRule[];
+}
+
+/** Cancelling before `until` refunds `refundPercent` of what was paid. */
+export interface CancellationRule {
+    until: number;
+    refundPercent: number;
+}
+
+/** The seller or the buyer on an invoice. */
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  company?: string;
+  address?: string;
+  country?: string;
+  vatId?: string;
+}
+
+/** One line of an invoice. Prices include tax. */
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  /** The line's share of the order's discount. */
+  discount: number;
+  /** Percent. */
+  taxRate: number;
+  taxLabel?: string;
+  net: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * The invoice for a paid order, see `server/invoices.ts`. A snapshot of the
+ * order, the seller and the tax rates when it was issued.
+ */
+export interface Invoice {
+  id: string;
+  eventId: string;
+  orderId: string;
+  /** 1, 2, 3, ... within the event, with no gaps. */
+  sequence: number;
+  number: string;
+  /** The buyer's email, to find a delegate's invoices. */
+  email: string;
+  issuedAt: number;
+  paidAt: number;
+  /** The Stripe PaymentIntent. */
+  paymentReference?: string;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  net: number;
+  tax: number;
+  total: number;
+  /** No VAT was charged because the buyer accounts for it. */
+  reverseCharge?: boolean;
+  footer?: string;
+}
+
+/** A promo code for ticket orders, see `server/discounts.ts`. */
+export interface DiscountCode {
+    id: string;
+    eventId?: string;
+    /** Upper case. */
+    code: string;
+    description?: string;
+    kind: 'percentage' | 'fixed';
+    /** Percent off, or an amount off each seat in the tier's currency. */
+    amount: number;
+    /** Tiers it applies to; all tiers when empty. */
+    ticketTierIds?: string[];
+    /** How many orders may use it; unlimited when unset. */
+    maxUses?: number;
+    /** Seats an order needs in the tiers it applies to, for group discounts. */
+    minSeats?: number;
+    startsAt?: number;
+    endsAt?: number;
+    active: boolean;
+    /** Paid orders that have used it. */
+    used: number;
+    createdAt: number;
 }
 
 export interface NetworkingProfile {
@@ -497,6 +1008,10 @@ export interface MapPin {
     type: 'room' | 'sponsor' | 'facility' | 'info';
     linkedId?: string; // ID of session/room or sponsor
     description?: string;
+    /** Room pins only: scanned entry is limited to this many people at once. */
+    capacity?: number;
+    /** Room pins only: ticket benefits that grant entry, as on `Session`. */
+    requiredBenefits?: string[];
 }
 
 export const PIN_TYPES = ['room', 'sponsor', 'facility', 'info'];
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { jsPDF } from 'jspdf';
+import { type Invoice, type InvoiceParty } from '../types';
+
+// PDFs of invoices (see `server/invoices.ts`): the invoice itself, or a receipt
+// confirming its payment. Several go into one document a page each, for
+// exporting them in bulk.
+
+export type InvoiceDocumentKind = 'invoice' | 'receipt';
+
+const MARGIN = 20;
+
+const money = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+const day = (ms: number) => new Date(ms).toLocaleDateString();
+
+const partyLines = (party: InvoiceParty) => [
+    party.company,
+    party.name,
+    ...(party.address || '').split('\n'),
+    party.country,
+    party.vatId && `VAT ID: ${party.vatId}`,
+    party.email
+].map(line => line?.trim()).filter((line): line is string => !!line);
+
+/** Draws the document on the current page. */
+const drawInvoice = (doc: jsPDF, invoice: Invoice, kind: InvoiceDocumentKind, colorPrimary: string) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const right = pageWidth - MARGIN;
+
+    // --- Header ---
+    doc.setFillColor(colorPrimary);
+    doc.rect(0, 0, pageWidth, 30, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(20);
+    doc.setFont("helvetica", "bold");
+    doc.text(kind === 'invoice' ? 'INVOICE' : 'RECEIPT', MARGIN, 19);
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "normal");
+    doc.text(invoice.number, right, 19, { align: 'right' });
+
+    // --- Seller and buyer ---
+    doc.setTextColor(40, 40, 40);
+    const column = pageWidth / 2;
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.text('FROM', MARGIN, 42);
+    doc.text(kind === 'invoice' ? 'BILL TO' : 'RECEIVED FROM', column, 42);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    const seller = partyLines(invoice.seller);
+    const buyer = partyLines(invoice.buyer);
+    seller.forEach((line, i) => doc.text(line, MARGIN, 48 + i * 5));
+    buyer.forEach((line, i) => doc.text(line, column, 48 + i * 5));
+    let y = 48 + Math.max(seller.length, buyer.length) * 5 + 6;
+
+    // --- Dates and references ---
+    const facts = [
+        [kind === 'invoice' ? 'Invoice date' : 'Invoice', kind === 'invoice' ? day(invoice.issuedAt) : invoice.number],
+        ['Paid on', day(invoice.paidAt)],
+        ['Order', invoice.orderId],
+        ...(invoice.paymentReference ? [['Payment reference', invoice.paymentReference]] : [])
+    ];
+    facts.forEach(([label, value]) => {
+        doc.setFont("helvetica", "bold");
+        doc.text(`${label}:`, MARGIN, y);
+        doc.setFont("helvetica", "normal");
+        doc.text(value, MARGIN + 40, y);
+        y += 5;
+    });
+    y += 6;
+
+    // --- Lines ---
+    const columns = [
+        { label: 'Description', x: MARGIN },
+        { label: 'Qty', x: 100, align: 'right' as const },
+        { label: 'Unit price', x: 125, align: 'right' as const },
+        { label: 'Discount', x: 148, align: 'right' as const },
+        { label: 'Tax', x: 163, align: 'right' as const },
+        { label: 'Amount', x: right, align: 'right' as const }
+    ];
+    doc.setFillColor(240, 240, 240);
+    doc.rect(MARGIN - 2, y - 5, pageWidth - 2 * MARGIN + 4, 8, 'F');
+    doc.setFont("helvetica", "bold");
+    columns.forEach(c => doc.text(c.label, c.x, y, c.align ? { align: c.align } : undefined));
+    doc.setFont("helvetica", "normal");
+    y += 8;
+    invoice.lines.forEach(line => {
+        const description: string[] = doc.splitTextToSize(line.description, 65);
+        if (y + description.length * 5 > pageHeight - 50) {
+            doc.addPage();
+            y = MARGIN;
+        }
+        doc.text(description, MARGIN, y);
+        doc.text(String(line.quantity), columns[1].x, y, { align: 'right' });
+        doc.text(line.unitPrice.toFixed(2), columns[2].x, y, { align: 'right' });
+        doc.text(line.discount ? `-${line.discount.toFixed(2)}` : '', columns[3].x, y, { align: 'right' });
+        doc.text(`${line.taxRate}%`, columns[4].x, y, { align: 'right' });
+        doc.text(line.total.toFixed(2), columns[5].x, y, { align: 'right' });
+        y += description.length * 5 + 2;
+    });
+    doc.setDrawColor(200, 200, 200);
+    doc.line(MARGIN, y, right, y);
+    y += 7;
+
+    // --- Totals ---
+    const taxes = new Map<string, number>();
+    invoice.lines.forEach(line => {
+        const label = `${line.taxLabel || 'Tax'} ${line.taxRate}%`;
+        taxes.set(label, (taxes.get(label) || 0) + line.tax);
+    });
+    const totals: [string, string][] = [
+        ['Net', money(invoice.net, invoice.currency)],
+        ...[...taxes].map(([label, tax]): [string, string] => [label, money(tax, invoice.currency)])
+    ];
+    totals.forEach(([label, value]) => {
+        doc.text(label, 150, y, { align: 'right' });
+        doc.text(value, right, y, { align: 'right' });
+        y += 5;
+    });
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text(kind === 'invoice' ? 'Total' : 'Amount paid', 150, y + 2, { align: 'right' });
+    doc.text(money(invoice.total, invoice.currency), right, y + 2, { align: 'right' });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    y += 14;
+
+    // --- Notes ---
+    const notes = [
+        kind === 'invoice' ? `Prices include tax. Paid in full on ${day(invoice.paidAt)}.` : `We have received ${money(invoice.total, invoice.currency)} on ${day(invoice.paidAt)}. Thank you.`,
+        invoice.reverseCharge ? 'Reverse charge: VAT to be accounted for by the recipient.' : ''
+    ].filter(Boolean);
+    notes.forEach(note => {
+        doc.text(doc.splitTextToSize(note, pageWidth - 2 * MARGIN), MARGIN, y);
+        y += 6;
+    });
+
+    if (invoice.footer) {
+        doc.setFontSize(8);
+        doc.setTextColor(120, 120, 120);
+        doc.text(doc.splitTextToSize(invoice.footer, pageWidth - 2 * MARGIN), MARGIN, pageHeight - 20);
+    }
+};
+
+/** One PDF with a page for each of the invoices. */
+export const invoicePdf = (invoices: Invoice[], kind: InvoiceDocumentKind, colorPrimary: string) => {
+    const doc = new jsPDF();
+    invoices.forEach((invoice, i) => {
+        if (i > 0) doc.addPage();
+        drawInvoice(doc, invoice, kind, colorPrimary);
+    });
+    return doc;
+};
+
+export const invoiceFileName = (invoice: Invoice, kind: InvoiceDocumentKind) =>
+    `${kind}_${invoice.number.replace(/[^A-Za-z0-9_-]+/g, '_')}.pdf`;
@@ -0,0 +1,125 @@
+// utils/xlsx.ts
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text, for
+ * the registration import. An .xlsx file is a ZIP of XML parts; entries are
+ * inflated with the browser's DecompressionStream, so no spreadsheet library
+ * is bundled. Formulas import as their cached values and dates as the serial
+ * numbers Excel stores.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipDirectory = (view: DataView): Map<string, ZipEntry> => {
+  // The end-of-central-directory record sits at the end, after a comment of up to 64 KB.
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('This file is not a valid .xlsx workbook.');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) throw new Error('The workbook is damaged.');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntry = async (view: DataView<ArrayBuffer>, entry: ZipEntry): Promise<string> => {
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+  if (entry.method === METHOD_STORED) return new TextDecoder().decode(data);
+  if (entry.method !== METHOD_DEFLATE) throw new Error('The workbook uses an unsupported compression method.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+  });
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+/** The text runs of a string item, without phonetic (`<rPh>`) hints. */
+const stringItemText = (xml: string) =>
+  decodeXml(Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), m => m[1]).join(''));
+
+/** `BC12` -> 54 (zero-based column index). */
+const columnIndex = (ref: string) => {
+  const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+  return Array.from(letters).reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+};
+
+const firstSheetPath = (workbook: string, rels: string | null) => {
+  const sheet = workbook.match(/<sheet\b[^>]*>/)?.[0];
+  const relId = sheet && attribute(sheet, 'r:id');
+  const rel = relId && rels ? Array.from(rels.matchAll(/<Relationship\b[^>]*>/g), m => m[0]).find(r => attribute(r, 'Id') === relId) : undefined;
+  const target = rel && attribute(rel, 'Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsxRows = async (data: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(data);
+  const entries = readZipDirectory(view);
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(view, entry) : Promise.resolve(null);
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  if (!workbook) throw new Error('This file is not a valid .xlsx workbook.');
+  const sheet = await read(firstSheetPath(workbook, await read('xl/_rels/workbook.xml.rels')));
+  if (!sheet) throw new Error('The workbook has no worksheet.');
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const shared = sharedXml ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => stringItemText(m[1])) : [];
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const ref = attribute(tag, 'r');
+      const column = ref ? columnIndex(ref) : row.length;
+      const type = attribute(tag, 't');
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let text = '';
+      if (type === 's') text = shared[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = stringItemText(body);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+      while (row.length < column) row.push('');
+      row[column] = text;
+    }
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};